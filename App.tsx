@@ -1,6 +1,7 @@
 import React, { useEffect, useCallback, useMemo, useState } from 'react';
 import {
     AriaLiveProvider,
+    CalendarReminderScheduler,
     DesktopIcon,
     Widgets,
     Taskbar,
@@ -17,9 +18,12 @@ import {
     ContextMenu,
     HandoffNotificationListener,
     SnapZoneOverlay,
-    SnapZone,
+    SnapAssist,
     GestureHandler,
     ShareReceiver,
+    IntentHost,
+    PermissionPrompt,
+    createPackagedAppConfig,
 } from './components';
 import { HandoffQuickSend } from './components/HandoffQuickSend';
 import { ClipboardHistoryViewer } from './components/ClipboardHistoryViewer';
@@ -32,6 +36,7 @@ import {
     UserProfileProvider,
     NotificationProvider,
     useClipboard,
+    useVirtualDesktops,
 } from './context';
 import { useDexieLiveQuery } from './utils/storage/react';
 import { DesktopIconRecord } from './utils/storage/db';
@@ -40,16 +45,19 @@ import {
     useHotkeys,
     useContextMenu,
     useNotification,
-    useAppEvent,
     usePhoneMode,
     useViewportCssVars,
     useShareTargetWithClear,
+    useWindowTiling,
     formatSharedContent,
 } from './hooks';
-import { ensureArray, getWindowMaxRect } from './utils';
+import { ensureArray } from './utils';
 import { readTextFromClipboard } from './utils/clipboard';
 import { analyzeClipboardContent, fetchYoutubeVideoTitle } from './utils/clipboardAnalyzer';
 import { getFiles, saveFiles, addFileToFolder } from './utils/fileSystem';
+import { vfs, type VfsStat } from './utils/vfs';
+import { terminalCommands } from './utils/shell';
+import { startIntent } from './utils/intents';
 import { processDroppedFiles, hasFiles } from './utils/fileDropHandler';
 import { DEFAULT_ICONS } from './utils/defaults';
 import { FileSystemItem } from './types';
@@ -57,19 +65,20 @@ import { FileSystemItem } from './types';
 const Desktop = () => {
     const {
         windows,
+        desktopWindows,
         openWindow,
         closeWindow,
         minimizeWindow,
         focusWindow,
         registerApp,
+        unregisterApp,
         activeWallpaper,
         isStartMenuOpen,
         closeStartMenu,
-        toggleMaximizeWindow,
-        resizeWindow,
     } = useOS();
     const { is3DMode, settings: windowSpaceSettings, toggle3DMode } = useWindowSpace();
     const { toggleHistory: toggleClipboardHistory } = useClipboard();
+    const { activeDesktopId, switchDesktopBy } = useVirtualDesktops();
     const db = useDb();
     const notify = useNotification();
     const isPhone = usePhoneMode();
@@ -83,8 +92,9 @@ const Desktop = () => {
     // File drag state for desktop drop handling
     const [isDraggingFile, setIsDraggingFile] = useState(false);
 
-    // Snap zone state for touch-based window tiling (F212)
-    const [snapZone, setSnapZone] = useState<SnapZone>('none');
+    // Window tiling: snap zones while dragging (F212), snap assist and Win+Arrow snapping
+    const { snapZone, snapAssist, snapAssistCandidates, fillSnapAssistSlot, dismissSnapAssist, snapFocusedWindow } =
+        useWindowTiling();
 
     // Web Share Target API handler (F232)
     // When the PWA is launched via share sheet, open Handoff with the shared content
@@ -99,51 +109,11 @@ const Desktop = () => {
         }
     }, [sharedContent, openWindow, clearSharedContent, notify]);
 
-    // Listen for window drag position updates (F212)
-    useAppEvent<{ x: number; y: number; isMaximized: boolean }>('window:drag:move', ({ x, y, isMaximized }) => {
-        if (isMaximized) {
-            setSnapZone('none');
-            return;
-        }
-
-        const SNAP_THRESHOLD = 30; // pixels from edge
-        const { x: maxLeft, y: maxTop, width: maxWidth } = getWindowMaxRect();
-        const leftEdge = maxLeft;
-        const rightEdge = maxLeft + maxWidth;
-
-        // Detect which snap zone
-        if (y < maxTop + SNAP_THRESHOLD) {
-            setSnapZone('top');
-        } else if (x < leftEdge + SNAP_THRESHOLD) {
-            setSnapZone('left');
-        } else if (x > rightEdge - SNAP_THRESHOLD) {
-            setSnapZone('right');
-        } else {
-            setSnapZone('none');
-        }
-    });
-
-    // Listen for window drag end to apply snap (F212)
-    useAppEvent<{ windowId: string }>('window:drag:end', ({ windowId }) => {
-        if (snapZone === 'top') {
-            toggleMaximizeWindow(windowId);
-        } else if (snapZone === 'left') {
-            const { x, y, width, height } = getWindowMaxRect();
-            const halfWidth = width / 2;
-            resizeWindow(windowId, { width: halfWidth, height }, { x, y });
-        } else if (snapZone === 'right') {
-            const { x, y, width, height } = getWindowMaxRect();
-            const halfWidth = width / 2;
-            resizeWindow(windowId, { width: halfWidth, height }, { x: x + halfWidth, y });
-        }
-        setSnapZone('none');
-    });
-
     // Calculate max z-index for 3D depth calculations
     const maxZIndex = useMemo(() => {
-        if (windows.length === 0) return 0;
-        return Math.max(...windows.map(w => w.zIndex));
-    }, [windows]);
+        if (desktopWindows.length === 0) return 0;
+        return Math.max(...desktopWindows.map(w => w.zIndex));
+    }, [desktopWindows]);
 
     // Load desktop icons reactively
     const { value: iconsRaw, isLoading: iconsLoading } = useDexieLiveQuery(
@@ -198,17 +168,35 @@ const Desktop = () => {
                 component: app.component,
                 defaultWidth: app.defaultWidth,
                 defaultHeight: app.defaultHeight,
+                permissions: app.permissions,
+                singleInstance: app.singleInstance,
             });
         });
     }, [registerApp]);
 
+    // Register installed app packages, re-registering whenever one is installed, updated or removed
+    const { value: appPackages } = useDexieLiveQuery(() => db.$appPackages.toArray(), [db]);
+    useEffect(() => {
+        const configs = ensureArray(appPackages).map(createPackagedAppConfig);
+        configs.forEach(registerApp);
+        return () => configs.forEach(config => unregisterApp(config.id));
+    }, [appPackages, registerApp, unregisterApp]);
+
+    // Register Terminal commands contributed by apps
+    useEffect(() => {
+        const unregister = APP_REGISTRY.flatMap(app =>
+            (app.commands ?? []).map(command => terminalCommands.register(command, app.id))
+        );
+        return () => unregister.forEach(fn => fn());
+    }, []);
+
     // Global keyboard shortcuts
     // Find the focused (topmost) window for window shortcuts
     const focusedWindow = useMemo(() => {
-        const nonMinimized = windows.filter(w => !w.isMinimized);
+        const nonMinimized = desktopWindows.filter(w => !w.isMinimized);
         if (nonMinimized.length === 0) return null;
         return nonMinimized.reduce((top, w) => (w.zIndex > top.zIndex ? w : top));
-    }, [windows]);
+    }, [desktopWindows]);
 
     // Overview mode handlers (F095)
     const openOverview = useCallback(() => {
@@ -421,13 +409,9 @@ const Desktop = () => {
             const updatedFiles = addFileToFolder(files, 'desktop', newFile);
             await saveFiles(updatedFiles);
 
-            // Open the appropriate app for URLs
-            if (analysis.type === 'image-url') {
-                openWindow('imageviewer', { initialSrc: analysis.content });
-            } else if (analysis.type === 'youtube-url') {
-                openWindow('youtubeplayer', { initialUrl: analysis.content });
-            } else if (['video-url', 'audio-url', 'web-url'].includes(analysis.type)) {
-                openWindow('browser', { initialUrl: analysis.content });
+            // Share URLs with the suggested app, or let the user choose if it can't take them
+            if (['image-url', 'youtube-url', 'video-url', 'audio-url', 'web-url'].includes(analysis.type)) {
+                startIntent('share:url', { url: analysis.content }, { appId: analysis.suggestedAppId });
             }
 
             notify.success(`Pasted: ${newFile.name}`);
@@ -436,7 +420,7 @@ const Desktop = () => {
             notify.error('Failed to paste from clipboard');
         }
         closeDesktopMenu();
-    }, [notify, openWindow, closeDesktopMenu]);
+    }, [notify, closeDesktopMenu]);
 
     // Desktop file drop handler - creates files from dropped files
     const handleDesktopDrop = useCallback(
@@ -449,36 +433,27 @@ const Desktop = () => {
 
             try {
                 const results = await processDroppedFiles(e.dataTransfer.files);
-                const files = await getFiles();
-                let updatedFiles = files;
+                const written: VfsStat[] = [];
 
                 for (const result of results) {
-                    updatedFiles = addFileToFolder(updatedFiles, 'desktop', result.file);
+                    const path = await vfs.getAvailablePath(`/Desktop/${result.originalName}`);
+                    written.push(
+                        await vfs.writeFile(path, result.content, {
+                            type: result.file.type,
+                            mimeType: result.file.mimeType,
+                        })
+                    );
                 }
 
-                await saveFiles(updatedFiles);
-
-                // Open the first file with its suggested app
-                if (results.length === 1 && results[0]?.suggestedAppId) {
-                    const result = results[0];
-                    const file = result.file;
-
-                    // Pass appropriate props based on file type
-                    if (file.type === 'image' && file.src) {
-                        openWindow(result.suggestedAppId, { initialSrc: file.src });
-                    } else if (result.suggestedAppId === 'spreadsheet') {
-                        openWindow('spreadsheet', {
-                            initialContent: file.content,
-                            initialFileId: file.id,
-                            initialFileName: file.name,
-                        });
-                    } else {
-                        openWindow(result.suggestedAppId, {
-                            initialContent: file.content,
-                            initialFileId: file.id,
-                            initialFileName: file.name,
-                        });
-                    }
+                // Open the first file with its suggested app, which loads it from the VFS
+                const [result] = results;
+                const [file] = written;
+                if (results.length === 1 && result?.suggestedAppId && file) {
+                    openWindow(result.suggestedAppId, {
+                        initialContent: typeof result.content === 'string' ? result.content : undefined,
+                        initialFileId: file.id,
+                        initialFileName: file.name,
+                    });
                 }
 
                 const fileCount = results.length;
@@ -536,6 +511,20 @@ const Desktop = () => {
         'ctrl+w': () => focusedWindow && closeWindow(focusedWindow.id),
         'alt+f4': () => focusedWindow && closeWindow(focusedWindow.id),
         'ctrl+m': () => focusedWindow && minimizeWindow(focusedWindow.id),
+        // Window tiling
+        'meta+left': () => snapFocusedWindow('left'),
+        'meta+right': () => snapFocusedWindow('right'),
+        'meta+up': () => snapFocusedWindow('up'),
+        'meta+down': () => snapFocusedWindow('down'),
+        // Virtual desktops
+        'ctrl+meta+left': () => {
+            const desktop = switchDesktopBy(-1);
+            if (desktop) notify.info(desktop.name, { duration: 1500 });
+        },
+        'ctrl+meta+right': () => {
+            const desktop = switchDesktopBy(1);
+            if (desktop) notify.info(desktop.name, { duration: 1500 });
+        },
         // 3D Window Space toggle (F103)
         'ctrl+alt+3': () => {
             toggle3DMode();
@@ -592,6 +581,15 @@ const Desktop = () => {
             {/* Handoff Notification Listener (F193) */}
             <HandoffNotificationListener />
 
+            {/* Intent delivery and app chooser */}
+            <IntentHost />
+
+            {/* App permission consent prompts */}
+            <PermissionPrompt />
+
+            {/* Calendar reminders, scheduled whether or not the Calendar is open */}
+            <CalendarReminderScheduler />
+
             {/* Gesture Handler for edge swipes (F222) */}
             <GestureHandler />
 
@@ -632,9 +630,14 @@ const Desktop = () => {
             )}
 
             {/* Window Manager Layer - applies CSS perspective in 3D mode (F087) */}
+            {/* Windows on other desktops stay mounted but hidden, so their apps keep their state */}
             <div className="absolute inset-0 z-10 pointer-events-none" style={windowLayerStyle}>
                 {windows.map(window => (
-                    <div key={window.id} className="pointer-events-auto">
+                    <div
+                        key={window.id}
+                        className="pointer-events-auto"
+                        hidden={window.desktopId !== undefined && window.desktopId !== activeDesktopId}
+                    >
                         <Window window={window} maxZIndex={maxZIndex} />
                     </div>
                 ))}
@@ -642,6 +645,14 @@ const Desktop = () => {
 
             {/* UI Overlays */}
             <SnapZoneOverlay zone={snapZone} />
+            {snapAssist && (
+                <SnapAssist
+                    slots={snapAssist.emptySlots}
+                    candidates={snapAssistCandidates}
+                    onSelect={fillSnapAssistSlot}
+                    onDismiss={dismissSnapAssist}
+                />
+            )}
             <Widgets />
             <StartMenu />
             <Taskbar />
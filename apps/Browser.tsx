@@ -2,9 +2,10 @@ import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useDb, useDexieLiveQuery } from '../utils/storage';
 import { generateUuid, ensureArray } from '../utils';
 import { useConfirmDialog, ConfirmDialog, SearchInput } from '../components/ui';
-import { usePersistedState, usePhoneMode } from '../hooks';
+import { useIntentHandler, usePersistedState, usePhoneMode } from '../hooks';
 import { url as urlValidator, validateValue } from '../utils/validation';
 import { useTranslation } from '../hooks/useTranslation';
+import type { Intent } from '../utils/intents';
 
 type ViewMode = 'live' | 'reader';
 
@@ -99,7 +100,14 @@ const resolveInput = (raw: string): { url: string; modeSuggestion?: ViewMode } |
     return { url: `${protocol}${trimmed}` };
 };
 
-export const Browser = () => {
+interface BrowserProps {
+    /** `share:url` intent to open */
+    intent?: Intent;
+    /** URL to open, e.g. a link file or a bookmark found by search */
+    initialUrl?: string;
+}
+
+export const Browser = ({ intent, initialUrl }: BrowserProps) => {
     const { t } = useTranslation('browser');
     const db = useDb();
     const isPhone = usePhoneMode();
@@ -163,10 +171,10 @@ export const Browser = () => {
         });
     };
 
-    const navigate = (e?: React.FormEvent) => {
+    const navigate = (e?: React.FormEvent, input?: string) => {
         if (e) e.preventDefault();
         setState(prev => {
-            const resolved = resolveInput(prev.input);
+            const resolved = resolveInput(input ?? prev.input);
             if ('error' in resolved) return { ...prev, error: resolved.error };
 
             const finalUrl = rewriteKnownEmbedFriendlyUrls(resolved.url);
@@ -186,6 +194,13 @@ export const Browser = () => {
         });
     };
 
+    useIntentHandler(intent, 'share:url', ({ data }) => navigate(undefined, data.url));
+
+    useEffect(() => {
+        if (initialUrl) navigate(undefined, initialUrl);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialUrl]);
+
     const goBack = () => {
         setState(prev => {
             if (prev.historyIndex <= 0) return prev;
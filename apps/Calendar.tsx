@@ -1,5 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { STORAGE_KEYS } from '../utils/storage';
+import React, { useEffect, useMemo, useState } from 'react';
 import { SkeletonCalendar } from '../components/LoadingSkeleton';
 import { useLocalization } from '../context';
 import { generateUuid } from '../utils/uuid';
@@ -8,35 +7,34 @@ import { FilePickerModal } from '../components';
 import { Checkbox } from '../components/ui';
 import { useConfirmDialog, ConfirmDialog } from '../components/ui/ConfirmDialog';
 import { required, validateValue, validateDateRange } from '../utils/validation';
-import { useSeededCollection, useFilePicker, useNotification, usePhoneMode } from '../hooks';
-import { toYmd, fromYmd, pad2, addMonths, buildMonthGrid } from '../utils/dateUtils';
-
-type CalendarEvent = {
-    id: string;
-    title: string;
-    date: string; // YYYY-MM-DD
-    allDay: boolean;
-    startTime: string; // HH:MM
-    endTime: string; // HH:MM
-    location: string;
-    notes: string;
-};
-
-type EventDraft = Omit<CalendarEvent, 'id'> & { id?: string };
-
-const compareTime = (a: CalendarEvent, b: CalendarEvent) => {
-    const aKey = a.allDay ? '00:00' : a.startTime;
-    const bKey = b.allDay ? '00:00' : b.startTime;
-    return aKey.localeCompare(bKey);
-};
-
-const eventStartDate = (event: CalendarEvent) => {
-    const date = fromYmd(event.date);
-    const time = event.allDay ? '00:00' : event.startTime;
-    const [h, m] = time.split(':').map(Number);
-    date.setHours(h || 0, m || 0, 0, 0);
-    return date;
-};
+import { useCalendarEvents, useFilePicker, useNotification, usePhoneMode } from '../hooks';
+import { toYmd, fromYmd, pad2, addDays, addMonths, buildMonthGrid, startOfWeek } from '../utils/dateUtils';
+import { isICalError, parseICalendar, serializeICalendar } from '../utils/ical';
+import {
+    calendarEventsFromICalendar,
+    calendarEventsToICalendar,
+    deleteOccurrence,
+    describeRecurrence,
+    expandCalendarEvents,
+    getOccurrenceDays,
+    rescheduleOccurrence,
+    type CalendarEvent,
+    type CalendarOccurrence,
+} from '../utils/calendarEvents';
+import { RemindersField, RepeatField, TimelineView, type CalendarView, type EventDraft } from './calendar-components';
+
+/** All-day occurrences first, then by start */
+const compareOccurrences = (a: CalendarOccurrence, b: CalendarOccurrence) =>
+    Number(b.event.allDay) - Number(a.event.allDay) || a.start.getTime() - b.start.getTime();
+
+const formatShortDate = (ymd: string) =>
+    fromYmd(ymd).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const VIEW_OPTIONS: { value: CalendarView; label: string }[] = [
+    { value: 'day', label: 'Day' },
+    { value: 'week', label: 'Week' },
+    { value: 'month', label: 'Month' },
+];
 
 const seedEvents = (): CalendarEvent[] => {
     const today = new Date();
@@ -45,7 +43,7 @@ const seedEvents = (): CalendarEvent[] => {
 
     return [
         {
-            id: generateUuid(),
+            id: 'sample-design-review',
             title: 'Design Review',
             date: toYmd(inTwoDays),
             allDay: false,
@@ -55,7 +53,7 @@ const seedEvents = (): CalendarEvent[] => {
             notes: 'Review the updated desktop widgets and mail/calendar layouts.',
         },
         {
-            id: generateUuid(),
+            id: 'sample-sprint-planning',
             title: 'Sprint Planning',
             date: toYmd(nextWeek),
             allDay: false,
@@ -63,9 +61,10 @@ const seedEvents = (): CalendarEvent[] => {
             endTime: '10:00',
             location: 'Teams',
             notes: '',
+            rrule: 'FREQ=WEEKLY;INTERVAL=2',
         },
         {
-            id: generateUuid(),
+            id: 'sample-pay-rent',
             title: 'Pay rent',
             date: `${today.getFullYear()}-${pad2(today.getMonth() + 1)}-01`,
             allDay: true,
@@ -73,6 +72,8 @@ const seedEvents = (): CalendarEvent[] => {
             endTime: '23:59',
             location: '',
             notes: '',
+            rrule: 'FREQ=MONTHLY',
+            reminders: [1440],
         },
     ];
 };
@@ -88,16 +89,9 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
     const { formatTimeShortFromHm } = useLocalization();
     const { confirm, dialogProps } = useConfirmDialog();
     const isPhone = usePhoneMode();
-    const {
-        items: events,
-        setItems: setEvents,
-        isLoading: isLoadingEvents,
-    } = useSeededCollection(STORAGE_KEYS.calendarEvents, seedEvents);
+    const { events, setEvents, isLoading: isLoadingEvents } = useCalendarEvents({ seed: seedEvents });
     const filePicker = useFilePicker();
-    const { info } = useNotification();
-
-    // Track which events we've already notified about (to avoid spam)
-    const notifiedEventsRef = useRef<Set<string>>(new Set());
+    const { error: notifyError } = useNotification();
 
     const [monthCursor, setMonthCursor] = useState(() => {
         const start = normalizeInitialDate(initialDate) ?? toYmd(new Date());
@@ -105,6 +99,7 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
         return new Date(date.getFullYear(), date.getMonth(), 1);
     });
     const [selectedDate, setSelectedDate] = useState(() => normalizeInitialDate(initialDate) ?? toYmd(new Date()));
+    const [view, setView] = useState<CalendarView>('month');
     const [draft, setDraft] = useState<EventDraft | null>(null);
     const [draftError, setDraftError] = useState<string | null>(null);
 
@@ -116,55 +111,41 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
         setMonthCursor(new Date(date.getFullYear(), date.getMonth(), 1));
     }, [initialDate]);
 
-    // Check for upcoming events every minute and notify 5 minutes before
-    useEffect(() => {
-        const checkUpcomingEvents = () => {
-            const now = Date.now();
-            const fiveMinutesMs = 5 * 60 * 1000;
-            const notifiedSet = notifiedEventsRef.current;
-
-            for (const event of events) {
-                // Skip all-day events
-                if (event.allDay) continue;
-                // Skip already notified
-                if (notifiedSet.has(event.id)) continue;
-
-                const eventStart = eventStartDate(event);
-                const timeUntilEvent = eventStart.getTime() - now;
-
-                // Notify if event is within 5 minutes and hasn't started yet
-                if (timeUntilEvent > 0 && timeUntilEvent <= fiveMinutesMs) {
-                    notifiedSet.add(event.id);
-                    const timeLabel = formatTimeShortFromHm(event.startTime);
-                    info(`${event.title} at ${timeLabel}${event.location ? ` - ${event.location}` : ''}`);
-                }
-            }
-        };
+    const monthGrid = useMemo(() => buildMonthGrid(monthCursor), [monthCursor]);
 
-        // Check immediately and then every minute
-        checkUpcomingEvents();
-        const interval = setInterval(checkUpcomingEvents, 60000);
-        return () => clearInterval(interval);
-    }, [events, formatTimeShortFromHm, info]);
+    const timelineDays = useMemo(() => {
+        if (view === 'day') return [selectedDate];
+        const first = startOfWeek(fromYmd(selectedDate));
+        return Array.from({ length: 7 }, (_, i) => toYmd(addDays(first, i)));
+    }, [view, selectedDate]);
+
+    // Occurrences for everything on screen: the month grid and the selected week
+    const occurrences = useMemo(() => {
+        const firstDays = [monthGrid[0]?.ymd, timelineDays[0]].filter((ymd): ymd is string => Boolean(ymd)).sort();
+        const lastDays = [monthGrid[monthGrid.length - 1]?.ymd, timelineDays[timelineDays.length - 1]]
+            .filter((ymd): ymd is string => Boolean(ymd))
+            .sort();
+        const start = fromYmd(firstDays[0] ?? selectedDate);
+        const end = addDays(fromYmd(lastDays[lastDays.length - 1] ?? selectedDate), 1);
+        return expandCalendarEvents(events, { start, end });
+    }, [events, monthGrid, timelineDays, selectedDate]);
 
     const eventsByDate = useMemo(() => {
-        const map: Record<string, CalendarEvent[]> = {};
-        for (const event of events) {
-            const dayEvents = map[event.date] ?? (map[event.date] = []);
-            dayEvents.push(event);
+        const map: Record<string, CalendarOccurrence[]> = {};
+        for (const occurrence of occurrences) {
+            for (const day of getOccurrenceDays(occurrence)) {
+                const dayEvents = map[day] ?? (map[day] = []);
+                dayEvents.push(occurrence);
+            }
         }
         for (const key of Object.keys(map)) {
             const dayEvents = map[key];
-            if (dayEvents) dayEvents.sort(compareTime);
+            if (dayEvents) dayEvents.sort(compareOccurrences);
         }
         return map;
-    }, [events]);
+    }, [occurrences]);
 
-    const monthGrid = useMemo(() => buildMonthGrid(monthCursor), [monthCursor]);
-
-    const selectedEvents = useMemo(() => {
-        return (eventsByDate[selectedDate] ?? []).slice().sort(compareTime);
-    }, [eventsByDate, selectedDate]);
+    const selectedEvents = useMemo(() => eventsByDate[selectedDate] ?? [], [eventsByDate, selectedDate]);
 
     const todayYmd = useMemo(() => toYmd(new Date()), []);
 
@@ -176,38 +157,42 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
         return fromYmd(selectedDate).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
     }, [selectedDate]);
 
-    const exportToICS = async () => {
-        if (events.length === 0) return;
+    const headerLabel = useMemo(() => {
+        if (view === 'month') return monthLabel;
+        const first = fromYmd(timelineDays[0] ?? selectedDate);
+        const last = fromYmd(timelineDays[timelineDays.length - 1] ?? selectedDate);
+        if (view === 'day') {
+            return first.toLocaleDateString(undefined, {
+                weekday: 'long',
+                month: 'long',
+                day: 'numeric',
+                year: 'numeric',
+            });
+        }
+        return `${first.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${last.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    }, [view, monthLabel, timelineDays, selectedDate]);
 
-        // Generate ICS content
-        const icsLines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Windows15//Calendar//EN', 'CALSCALE:GREGORIAN'];
-
-        for (const event of events) {
-            const dtstart = event.allDay
-                ? event.date.replace(/-/g, '')
-                : `${event.date.replace(/-/g, '')}T${event.startTime.replace(':', '')}00`;
-            const dtend = event.allDay
-                ? event.date.replace(/-/g, '')
-                : `${event.date.replace(/-/g, '')}T${event.endTime.replace(':', '')}00`;
-
-            icsLines.push(
-                'BEGIN:VEVENT',
-                `UID:${event.id}`,
-                `DTSTART:${dtstart}`,
-                `DTEND:${dtend}`,
-                `SUMMARY:${event.title}`,
-                event.location ? `LOCATION:${event.location}` : '',
-                event.notes ? `DESCRIPTION:${event.notes.replace(/\n/g, '\\n')}` : '',
-                'END:VEVENT'
-            );
+    const selectDate = (ymd: string) => {
+        const date = fromYmd(ymd);
+        setSelectedDate(ymd);
+        setMonthCursor(new Date(date.getFullYear(), date.getMonth(), 1));
+    };
+
+    /** Step back or forward a month, week or day */
+    const navigate = (delta: number) => {
+        if (view === 'month') {
+            setMonthCursor(addMonths(monthCursor, delta));
+            return;
         }
+        selectDate(toYmd(addDays(fromYmd(selectedDate), view === 'week' ? delta * 7 : delta)));
+    };
 
-        icsLines.push('END:VCALENDAR');
-        const icsContent = icsLines.filter(Boolean).join('\r\n');
+    const exportToICS = async () => {
+        if (events.length === 0) return;
 
         await filePicker.save({
             title: 'Export Calendar',
-            content: icsContent,
+            content: serializeICalendar(calendarEventsToICalendar(events)),
             defaultFileName: 'calendar.ics',
             defaultExtension: '.ics',
         });
@@ -221,75 +206,43 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
         if (!file?.content) return;
 
         try {
-            const lines = file.content.split(/\r?\n/);
-            const importedEvents: CalendarEvent[] = [];
-            let currentEvent: Partial<CalendarEvent> | null = null;
-
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (trimmed === 'BEGIN:VEVENT') {
-                    currentEvent = { id: generateUuid(), allDay: false, location: '', notes: '' };
-                } else if (trimmed === 'END:VEVENT' && currentEvent) {
-                    if (currentEvent.title && currentEvent.date && currentEvent.startTime && currentEvent.endTime) {
-                        importedEvents.push(currentEvent as CalendarEvent);
-                    }
-                    currentEvent = null;
-                } else if (currentEvent && trimmed.includes(':')) {
-                    const [key, ...valueParts] = trimmed.split(':');
-                    const value = valueParts.join(':');
-                    if (key === 'SUMMARY') {
-                        currentEvent.title = value;
-                    } else if (key === 'DTSTART') {
-                        const dateStr = value.substring(0, 8);
-                        currentEvent.date = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
-                        if (value.length > 8 && value.includes('T')) {
-                            const timeStr = value.substring(9, 13);
-                            currentEvent.startTime = `${timeStr.substring(0, 2)}:${timeStr.substring(2, 4)}`;
-                            currentEvent.allDay = false;
-                        } else {
-                            currentEvent.allDay = true;
-                            currentEvent.startTime = '00:00';
-                        }
-                    } else if (key === 'DTEND') {
-                        if (value.length > 8 && value.includes('T')) {
-                            const timeStr = value.substring(9, 13);
-                            currentEvent.endTime = `${timeStr.substring(0, 2)}:${timeStr.substring(2, 4)}`;
-                        } else {
-                            currentEvent.endTime = '23:59';
-                        }
-                    } else if (key === 'LOCATION') {
-                        currentEvent.location = value;
-                    } else if (key === 'DESCRIPTION') {
-                        currentEvent.notes = value.replace(/\\n/g, '\n');
-                    }
-                }
-            }
+            const importedEvents = calendarEventsFromICalendar(parseICalendar(file.content));
 
             if (importedEvents.length > 0) {
                 setEvents([...events, ...importedEvents]);
             }
         } catch (error) {
             console.error('Failed to import ICS:', error);
+            notifyError(
+                isICalError(error) ? `Could not import calendar: ${error.message}` : 'Could not import calendar'
+            );
         }
     };
 
-    const openNewEvent = (prefillDate?: string) => {
+    const openNewEvent = (prefillDate?: string, startTime = '09:00', endTime = '10:00') => {
         setDraftError(null);
         const date = prefillDate ?? selectedDate;
         setDraft({
             date,
             title: '',
             allDay: false,
-            startTime: '09:00',
-            endTime: '10:00',
+            startTime,
+            endTime,
             location: '',
             notes: '',
         });
     };
 
-    const openEditEvent = (event: CalendarEvent) => {
+    /** Recurring events are edited as a whole series; deleting can skip just the opened occurrence */
+    const openEditEvent = (occurrence: CalendarOccurrence) => {
         setDraftError(null);
-        setDraft({ ...event });
+        setDraft({ ...occurrence.event, ...(occurrence.event.rrule ? { occurrenceDate: occurrence.date } : {}) });
+    };
+
+    const updateDraft = (patch: Partial<EventDraft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+    const moveOccurrence = (occurrence: CalendarOccurrence, date: string, startTime?: string) => {
+        setEvents(rescheduleOccurrence(events, occurrence, date, startTime));
     };
 
     const closeDraft = () => {
@@ -310,12 +263,18 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
 
         const start = draft.allDay ? '00:00' : draft.startTime;
         const end = draft.allDay ? '23:59' : draft.endTime;
+        const endDate = draft.endDate || draft.date;
+
+        if (endDate < draft.date) {
+            setDraftError('End date must not be before the start date');
+            return;
+        }
 
         // Validate time range for non-all-day events
         if (!draft.allDay) {
             const dateRangeError = validateDateRange(
                 `${draft.date}T${start}`,
-                `${draft.date}T${end}`,
+                `${endDate}T${end}`,
                 'End time must be after start time'
             );
             if (dateRangeError) {
@@ -328,18 +287,22 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
             id: draft.id ?? generateUuid(),
             title,
             date: draft.date,
+            ...(endDate > draft.date ? { endDate } : {}),
             allDay: draft.allDay,
             startTime: start,
             endTime: end,
             location: draft.location.trim(),
             notes: draft.notes,
+            ...(draft.rrule ? { rrule: draft.rrule } : {}),
+            ...(draft.rrule && draft.exdates?.length ? { exdates: draft.exdates } : {}),
+            ...(draft.reminders ? { reminders: draft.reminders } : {}),
         };
 
-        // Update using setEvents from useSeededCollection
+        // Update using setEvents from useCalendarEvents
         const idx = events.findIndex(event => event.id === normalized.id);
         const updatedEvents =
             idx === -1
-                ? [...events, normalized].sort((a, b) => eventStartDate(a).getTime() - eventStartDate(b).getTime())
+                ? [...events, normalized]
                 : events.map(event => (event.id === normalized.id ? normalized : event));
 
         setEvents(updatedEvents);
@@ -347,20 +310,30 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
         closeDraft();
     };
 
-    const deleteEvent = async (id: string) => {
+    /**
+     * Delete an event, or with `occurrenceDate` only that occurrence of a recurring event
+     */
+    const deleteEvent = async (id: string, occurrenceDate?: string) => {
         const event = events.find(e => e.id === id);
         if (!event) return;
+        const onlyOccurrence = Boolean(event.rrule && occurrenceDate);
 
         const confirmed = await confirm({
-            title: 'Delete Event',
-            message: `Are you sure you want to delete "${event.title}"? This action cannot be undone.`,
+            title: onlyOccurrence ? 'Delete Occurrence' : 'Delete Event',
+            message:
+                onlyOccurrence && occurrenceDate
+                    ? `Delete "${event.title}" on ${formatShortDate(occurrenceDate)}? Other occurrences are kept.`
+                    : `Are you sure you want to delete "${event.title}"${event.rrule ? ' and all its occurrences' : ''}? This action cannot be undone.`,
             variant: 'danger',
             confirmLabel: 'Delete',
         });
         if (!confirmed) return;
 
-        // Update using setEvents from useSeededCollection
-        const updatedEvents = events.filter(event => event.id !== id);
+        // Update using setEvents from useCalendarEvents
+        const updatedEvents =
+            onlyOccurrence && occurrenceDate
+                ? deleteOccurrence(events, { event, date: occurrenceDate })
+                : events.filter(event => event.id !== id);
         setEvents(updatedEvents);
         closeDraft();
     };
@@ -369,32 +342,29 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
     const upcomingEvents = useMemo(() => {
         const now = new Date();
         const todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-        return events
-            .filter(e => fromYmd(e.date) >= todayStart)
-            .sort((a, b) => {
-                const dateCmp = a.date.localeCompare(b.date);
-                if (dateCmp !== 0) return dateCmp;
-                return compareTime(a, b);
-            })
+        return expandCalendarEvents(events, { start: todayStart, end: addDays(todayStart, 366) })
+            .sort((a, b) => a.date.localeCompare(b.date) || compareOccurrences(a, b))
             .slice(0, 20); // Limit to 20 upcoming events
     }, [events]);
 
     // Group events by date for agenda view
     const groupedEvents = useMemo(() => {
-        const groups: { date: string; label: string; events: CalendarEvent[] }[] = [];
+        const groups: { date: string; label: string; events: CalendarOccurrence[] }[] = [];
         let currentDate = '';
-        for (const event of upcomingEvents) {
-            if (event.date !== currentDate) {
-                currentDate = event.date;
-                const dateObj = fromYmd(event.date);
-                const isToday = event.date === todayYmd;
+        for (const occurrence of upcomingEvents) {
+            // Events that started earlier are listed under today
+            const date = occurrence.date < todayYmd ? todayYmd : occurrence.date;
+            if (date !== currentDate) {
+                currentDate = date;
+                const dateObj = fromYmd(date);
+                const isToday = date === todayYmd;
                 const isTomorrow = (() => {
                     const tomorrow = new Date();
                     tomorrow.setDate(tomorrow.getDate() + 1);
-                    return event.date === toYmd(tomorrow);
+                    return date === toYmd(tomorrow);
                 })();
                 groups.push({
-                    date: event.date,
+                    date,
                     label: isToday
                         ? 'Today'
                         : isTomorrow
@@ -403,7 +373,7 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                     events: [],
                 });
             }
-            groups[groups.length - 1]?.events.push(event);
+            groups[groups.length - 1]?.events.push(occurrence);
         }
         return groups;
     }, [upcomingEvents, todayYmd]);
@@ -506,32 +476,34 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                     <div className="px-4 py-2 text-xs font-medium text-white/50 bg-black/20 sticky top-0">
                                         {group.label}
                                     </div>
-                                    {group.events.map(event => (
+                                    {group.events.map(occurrence => (
                                         <button
-                                            key={event.id}
-                                            onClick={() => openEditEvent(event)}
+                                            key={`${occurrence.event.id}@${occurrence.date}`}
+                                            onClick={() => openEditEvent(occurrence)}
                                             className="w-full text-left px-4 py-3 min-h-[56px] flex items-center gap-3 active:bg-white/10"
                                         >
                                             <div className="w-12 shrink-0 text-center">
                                                 <div className="text-xs text-primary font-medium">
-                                                    {event.allDay ? 'All' : formatTimeShortFromHm(event.startTime)}
+                                                    {occurrence.event.allDay
+                                                        ? 'All'
+                                                        : formatTimeShortFromHm(occurrence.event.startTime)}
                                                 </div>
-                                                {!event.allDay && (
+                                                {!occurrence.event.allDay && (
                                                     <div className="text-[10px] text-white/40">
-                                                        {formatTimeShortFromHm(event.endTime)}
+                                                        {formatTimeShortFromHm(occurrence.event.endTime)}
                                                     </div>
                                                 )}
                                             </div>
                                             <div className="flex-1 min-w-0">
                                                 <div className="text-sm font-medium text-white/90 truncate">
-                                                    {event.title}
+                                                    {occurrence.event.title}
                                                 </div>
-                                                {event.location && (
+                                                {occurrence.event.location && (
                                                     <div className="text-[11px] text-white/50 truncate flex items-center gap-1">
                                                         <span className="material-symbols-outlined text-[12px]">
                                                             location_on
                                                         </span>
-                                                        {event.location}
+                                                        {occurrence.event.location}
                                                     </div>
                                                 )}
                                             </div>
@@ -586,6 +558,15 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                     className="w-full h-11 px-3 rounded-lg bg-black/30 border border-white/10 text-sm focus:outline-none focus:border-primary"
                                 />
                             </FormField>
+                            <FormField label="End date">
+                                <input
+                                    type="date"
+                                    value={draft.endDate ?? draft.date}
+                                    min={draft.date}
+                                    onChange={e => setDraft(d => d && { ...d, endDate: e.target.value })}
+                                    className="w-full h-11 px-3 rounded-lg bg-black/30 border border-white/10 text-sm focus:outline-none focus:border-primary"
+                                />
+                            </FormField>
                             <div className="flex items-center gap-3">
                                 <Checkbox
                                     id="allDay"
@@ -616,6 +597,8 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                     </FormField>
                                 </div>
                             )}
+                            <RepeatField value={draft} onChange={updateDraft} />
+                            <RemindersField value={draft} onChange={updateDraft} />
                             <FormField label="Location">
                                 <input
                                     value={draft.location}
@@ -632,12 +615,23 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                     placeholder="Add notes"
                                 />
                             </FormField>
+                            {draft.id && draft.rrule && draft.occurrenceDate && (
+                                <button
+                                    onClick={() => {
+                                        if (!draft.id) return;
+                                        void deleteEvent(draft.id, draft.occurrenceDate);
+                                    }}
+                                    className="w-full h-11 rounded-lg bg-red-500/20 text-red-400 text-sm font-medium"
+                                >
+                                    Delete This Occurrence
+                                </button>
+                            )}
                             {draft.id && (
                                 <button
                                     onClick={() => void deleteEvent(draft.id!)}
                                     className="w-full h-11 rounded-lg bg-red-500/20 text-red-400 text-sm font-medium"
                                 >
-                                    Delete Event
+                                    {draft.rrule ? 'Delete Series' : 'Delete Event'}
                                 </button>
                             )}
                         </div>
@@ -666,33 +660,41 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
             <div className="h-14 shrink-0 border-b border-white/5 bg-black/20 flex items-center justify-between px-4">
                 <div className="flex items-center gap-2">
                     <button
-                        onClick={() => setMonthCursor(addMonths(monthCursor, -1))}
+                        onClick={() => navigate(-1)}
                         className="w-9 h-9 rounded-lg hover:bg-white/10 text-white/70 flex items-center justify-center"
-                        title="Previous month"
+                        title={`Previous ${view}`}
                     >
                         <span className="material-symbols-outlined text-[20px]">chevron_left</span>
                     </button>
                     <button
-                        onClick={() => setMonthCursor(addMonths(monthCursor, 1))}
+                        onClick={() => navigate(1)}
                         className="w-9 h-9 rounded-lg hover:bg-white/10 text-white/70 flex items-center justify-center"
-                        title="Next month"
+                        title={`Next ${view}`}
                     >
                         <span className="material-symbols-outlined text-[20px]">chevron_right</span>
                     </button>
                     <button
-                        onClick={() => {
-                            const today = new Date();
-                            setMonthCursor(new Date(today.getFullYear(), today.getMonth(), 1));
-                            setSelectedDate(toYmd(today));
-                        }}
+                        onClick={() => selectDate(toYmd(new Date()))}
                         className="px-3 h-9 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/90"
                     >
                         Today
                     </button>
-                    <div className="ml-2 text-lg font-medium text-white/90">{monthLabel}</div>
+                    <div className="ml-2 text-lg font-medium text-white/90">{headerLabel}</div>
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <div className="flex items-center p-0.5 rounded-lg bg-white/10" role="group" aria-label="View">
+                        {VIEW_OPTIONS.map(option => (
+                            <button
+                                key={option.value}
+                                onClick={() => setView(option.value)}
+                                aria-pressed={view === option.value}
+                                className={`px-3 h-8 rounded-md text-xs ${view === option.value ? 'bg-primary text-white' : 'text-white/70 hover:bg-white/10'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
                     <button
                         onClick={importFromICS}
                         className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm text-white/90 flex items-center gap-1"
@@ -728,10 +730,24 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
 
             {/* Body */}
             <div className="flex-1 min-h-0 flex">
-                {/* Month Grid */}
+                {/* Month Grid, or the week/day timeline */}
                 <div className="flex-1 min-w-0 p-4">
                     {isLoadingEvents && events.length === 0 ? (
                         <SkeletonCalendar />
+                    ) : view !== 'month' ? (
+                        <TimelineView
+                            days={timelineDays}
+                            occurrences={occurrences}
+                            todayYmd={todayYmd}
+                            formatTime={formatTimeShortFromHm}
+                            onCreate={(date, startTime, endTime) => openNewEvent(date, startTime, endTime)}
+                            onMove={moveOccurrence}
+                            onSelect={openEditEvent}
+                            onSelectDay={date => {
+                                setSelectedDate(date);
+                                setView('day');
+                            }}
+                        />
                     ) : (
                         <>
                             <div className="grid grid-cols-7 gap-2 text-xs text-white/50 px-1">
@@ -754,6 +770,10 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                         <button
                                             key={cell.ymd}
                                             onClick={() => setSelectedDate(cell.ymd)}
+                                            onDoubleClick={() => {
+                                                selectDate(cell.ymd);
+                                                setView('day');
+                                            }}
                                             className={`rounded-xl border transition-colors text-left p-2 min-h-[84px] flex flex-col gap-1
                                         ${cell.inMonth ? 'bg-black/10 border-white/10 hover:bg-white/5' : 'bg-black/5 border-white/5 text-white/30 hover:bg-white/5'}
                                         ${isSelected ? 'ring-2 ring-primary/60 border-primary/30' : ''}
@@ -774,16 +794,18 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
 
                                             {dayEvents.length > 0 && (
                                                 <div className="mt-auto flex flex-col gap-1">
-                                                    {dayEvents.slice(0, 2).map(event => (
+                                                    {dayEvents.slice(0, 2).map(occurrence => (
                                                         <div
-                                                            key={event.id}
+                                                            key={`${occurrence.event.id}@${occurrence.date}`}
                                                             className="text-[10px] px-2 py-1 rounded bg-white/10 text-white/80 truncate"
-                                                            title={event.title}
+                                                            title={occurrence.event.title}
                                                         >
-                                                            {event.allDay
+                                                            {occurrence.event.allDay
                                                                 ? 'All day'
-                                                                : formatTimeShortFromHm(event.startTime)}{' '}
-                                                            · {event.title}
+                                                                : formatTimeShortFromHm(
+                                                                      occurrence.event.startTime
+                                                                  )}{' '}
+                                                            · {occurrence.event.title}
                                                         </div>
                                                     ))}
                                                     {dayEvents.length > 2 && (
@@ -828,22 +850,30 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                             <EmptyState icon="event" title="No events for this day" variant="minimal" />
                         ) : (
                             <div className="flex flex-col gap-2">
-                                {selectedEvents.map(event => (
+                                {selectedEvents.map(occurrence => (
                                     <button
-                                        key={event.id}
-                                        onClick={() => openEditEvent(event)}
+                                        key={`${occurrence.event.id}@${occurrence.date}`}
+                                        onClick={() => openEditEvent(occurrence)}
                                         className="text-left p-3 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 transition-colors"
                                     >
                                         <div className="flex items-center justify-between gap-3">
                                             <div className="min-w-0">
                                                 <div className="text-sm font-medium text-white/90 truncate">
-                                                    {event.title}
+                                                    {occurrence.event.title}
                                                 </div>
-                                                <div className="mt-0.5 text-[11px] text-white/50">
-                                                    {event.allDay
+                                                <div className="mt-0.5 text-[11px] text-white/50 flex items-center gap-1">
+                                                    {occurrence.event.rrule && (
+                                                        <span
+                                                            className="material-symbols-outlined text-[13px]"
+                                                            title={describeRecurrence(occurrence.event) ?? undefined}
+                                                        >
+                                                            repeat
+                                                        </span>
+                                                    )}
+                                                    {occurrence.event.allDay
                                                         ? 'All day'
-                                                        : `${formatTimeShortFromHm(event.startTime)} – ${formatTimeShortFromHm(event.endTime)}`}
-                                                    {event.location ? ` · ${event.location}` : ''}
+                                                        : `${formatTimeShortFromHm(occurrence.event.startTime)} – ${formatTimeShortFromHm(occurrence.event.endTime)}`}
+                                                    {occurrence.event.location ? ` · ${occurrence.event.location}` : ''}
                                                 </div>
                                             </div>
                                             <span className="material-symbols-outlined text-white/40 text-[18px]">
@@ -881,7 +911,7 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                             </div>
                         )}
 
-                        <div className="p-4 grid grid-cols-1 gap-3">
+                        <div className="p-4 grid grid-cols-1 gap-3 max-h-[70vh] overflow-y-auto">
                             <FormField label="Title" required>
                                 <input
                                     value={draft.title}
@@ -903,7 +933,19 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                     />
                                 </FormField>
 
-                                <div className="mt-6">
+                                <FormField label="End date">
+                                    <input
+                                        type="date"
+                                        value={draft.endDate ?? draft.date}
+                                        min={draft.date}
+                                        onChange={e =>
+                                            setDraft(prev => (prev ? { ...prev, endDate: e.target.value } : prev))
+                                        }
+                                        className="h-9 px-3 rounded-lg bg-black/30 border border-white/10 text-sm text-white/80 focus:outline-none focus:border-primary/60 focus:ring-1 focus:ring-primary/30"
+                                    />
+                                </FormField>
+
+                                <div className="col-span-2">
                                     <Checkbox
                                         checked={draft.allDay}
                                         onChange={checked =>
@@ -941,6 +983,9 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
                                 </div>
                             )}
 
+                            <RepeatField value={draft} onChange={updateDraft} />
+                            <RemindersField value={draft} onChange={updateDraft} />
+
                             <FormField label="Location">
                                 <input
                                     value={draft.location}
@@ -964,15 +1009,28 @@ export const Calendar = ({ initialDate }: { initialDate?: string }) => {
 
                         <div className="px-4 py-3 flex items-center justify-between border-t border-white/10 bg-black/20">
                             {draft.id ? (
-                                <button
-                                    onClick={() => {
-                                        if (!draft.id) return;
-                                        void deleteEvent(draft.id);
-                                    }}
-                                    className="px-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-xs text-red-100"
-                                >
-                                    Delete
-                                </button>
+                                <div className="flex items-center gap-2">
+                                    {draft.rrule && draft.occurrenceDate && (
+                                        <button
+                                            onClick={() => {
+                                                if (!draft.id) return;
+                                                void deleteEvent(draft.id, draft.occurrenceDate);
+                                            }}
+                                            className="px-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-xs text-red-100"
+                                        >
+                                            Delete occurrence
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => {
+                                            if (!draft.id) return;
+                                            void deleteEvent(draft.id);
+                                        }}
+                                        className="px-3 py-2 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-xs text-red-100"
+                                    >
+                                        {draft.rrule ? 'Delete series' : 'Delete'}
+                                    </button>
+                                </div>
                             ) : (
                                 <div />
                             )}
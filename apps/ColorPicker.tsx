@@ -1,16 +1,30 @@
 import React, { useState } from 'react';
-import { usePersistedState, useStandardHotkeys, useCopyToClipboard, useFilePicker, usePhoneMode } from '../hooks';
+import {
+    usePersistedState,
+    useStandardHotkeys,
+    useCopyToClipboard,
+    useFilePicker,
+    useIntentHandler,
+    useIntentResult,
+    usePhoneMode,
+} from '../hooks';
 import { AppContainer, Slider, Button, SectionLabel, CopyButton } from '../components/ui';
 import { FilePickerModal } from '../components';
 import { hslToRgb, rgbToHex, rgbToHsl } from '../utils/color';
 import { useTranslation } from '../hooks/useTranslation';
+import type { Intent } from '../utils/intents';
 
 interface SavedColor {
     hex: string;
     id: number;
 }
 
-export const ColorPicker = () => {
+interface ColorPickerProps {
+    /** `pick:color` intent to answer with the chosen color */
+    intent?: Intent;
+}
+
+export const ColorPicker = ({ intent }: ColorPickerProps) => {
     const { t } = useTranslation('colorPicker');
     const isPhone = usePhoneMode();
     const [hue, setHue] = useState(200);
@@ -51,6 +65,17 @@ export const ColorPicker = () => {
         setLightness(hsl.l);
     };
 
+    // Another app asked for a color (pick:color intent)
+    const {
+        pending: colorRequest,
+        reply: replyColor,
+        cancel: cancelColorRequest,
+    } = useIntentResult(intent, 'pick:color');
+
+    useIntentHandler(intent, 'pick:color', ({ data }) => {
+        if (/^#[0-9a-f]{6}$/i.test(data.initialColor ?? '')) loadColor(data.initialColor as string);
+    });
+
     const exportPalette = async () => {
         if (savedColors.length === 0) return;
         await filePicker.save({
@@ -90,6 +115,17 @@ export const ColorPicker = () => {
 
     return (
         <AppContainer scrollable>
+            {colorRequest && (
+                <div className="flex items-center justify-between gap-2 bg-primary/20 border border-primary/30 p-3 rounded-lg">
+                    <span className="text-sm text-white/80">Choose a color to return</span>
+                    <div className="flex gap-2">
+                        <Button variant="ghost" onClick={cancelColorRequest}>
+                            {t('common:actions.cancel')}
+                        </Button>
+                        <Button onClick={() => replyColor({ color: hex })}>Use {hex}</Button>
+                    </div>
+                </div>
+            )}
             <div
                 className="h-32 rounded-xl shadow-inner flex items-center justify-center"
                 style={{ backgroundColor: hex }}
@@ -10,6 +10,7 @@ import { useContextMenu } from '../hooks/useContextMenu';
 import { ConfirmDialog } from '../components/ui/ConfirmDialog';
 import { InputDialog } from '../components/ui/InputDialog';
 import { getFiles, saveFiles, subscribeToFileSystem, STORE_NAMES } from '../utils/fileSystem';
+import { formatFileSize } from '../utils/wallpaperValidator';
 import { FileSystemItem } from '../types';
 import { useOS } from '../context/OSContext';
 
@@ -332,7 +333,7 @@ export const GistExplorer = () => {
                                         `${itemCount} ${itemCount === 1 ? 'item' : 'items'}${item.isPrivate ? ' (Private)' : ''}`
                                     );
                                 } else {
-                                    if (item.size) tooltipLines.push(`Size: ${item.size}`);
+                                    if (item.size) tooltipLines.push(`Size: ${formatFileSize(item.size)}`);
                                     tooltipLines.push(`Type: ${item.type || 'file'}`);
                                     if (item.date) tooltipLines.push(`Modified: ${item.date}`);
                                 }
@@ -55,7 +55,7 @@ export class GistService {
                     name: file?.filename || 'untitled',
                     type: 'document',
                     content: '', // Initialize empty to trigger lazy load in GistExplorer
-                    size: `${file?.size || 0} B`,
+                    size: file?.size || 0,
                     date: gist.updated_at,
                     url: file?.raw_url,
                 }));
@@ -84,7 +84,7 @@ export class GistService {
                 name: file?.filename || 'untitled',
                 type: 'document',
                 content: file?.content || '',
-                size: `${file?.size || 0} B`,
+                size: file?.size || 0,
                 date: gist.updated_at,
             })
         );
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { useHandoff, useHandoffItems, useNotification, useTouchDevice, usePhoneMode } from '../hooks';
+import { useHandoff, useHandoffItems, useIntentHandler, useNotification, useTouchDevice, usePhoneMode } from '../hooks';
 import { useTranslation } from '../hooks/useTranslation';
 import {
     AppContainer,
@@ -16,6 +16,7 @@ import { HandoffStatus, HandoffItem } from '../types';
 import { formatRelativeTime } from '../utils/timeFormatters';
 import { encrypt, decrypt } from '../utils/crypto';
 import { readTextFromClipboard } from '../utils/clipboard';
+import type { Intent } from '../utils/intents';
 
 const HandoffItemRow: React.FC<{
     item: HandoffItem;
@@ -185,9 +186,11 @@ const HandoffItemRow: React.FC<{
 export interface HandoffProps {
     /** Pre-fill the composer with shared text (F232: Share Target API) */
     sharedText?: string;
+    /** `share:text` or `share:url` intent to pre-fill the composer with */
+    intent?: Intent;
 }
 
-export const Handoff: React.FC<HandoffProps> = ({ sharedText }) => {
+export const Handoff: React.FC<HandoffProps> = ({ sharedText, intent }) => {
     const { t } = useTranslation('handoff');
     const [statusFilter, setStatusFilter] = useState<HandoffStatus | 'all'>('new');
     const { markOpened, markDone, archive, remove, send, deviceLabel, clearArchived, isLoading } = useHandoff();
@@ -210,16 +213,29 @@ export const Handoff: React.FC<HandoffProps> = ({ sharedText }) => {
     // F201: Work mode state
     const [isWorkMode, setIsWorkMode] = useState(false);
 
-    // F232: Pre-fill composer with shared content from Web Share Target API
-    useEffect(() => {
-        if (sharedText) {
-            setInputText(sharedText);
+    const prefill = useCallback(
+        (text: string) => {
+            setInputText(text);
             // On phones, auto-open the compose sheet when receiving shared content
             if (isPhone) {
                 setIsComposeSheetOpen(true);
             }
-        }
-    }, [sharedText, isPhone]);
+        },
+        [isPhone]
+    );
+
+    // F232: Pre-fill composer with shared content from Web Share Target API
+    useEffect(() => {
+        if (sharedText) prefill(sharedText);
+    }, [sharedText, prefill]);
+
+    // Shares dispatched by Handoff itself (the share link import) are already sent
+    useIntentHandler(intent, 'share:text', ({ data, sourceAppId }) => {
+        if (sourceAppId !== 'handoff') prefill(data.title ? `${data.title}\n\n${data.text}` : data.text);
+    });
+    useIntentHandler(intent, 'share:url', ({ data, sourceAppId }) => {
+        if (sourceAppId !== 'handoff') prefill(data.url);
+    });
 
     useEffect(() => {
         if (!isPhone) {
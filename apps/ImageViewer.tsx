@@ -2,25 +2,52 @@ import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useAsyncAction, useWindowInstance } from '../hooks';
 import { TextInput } from '../components/ui';
 import { useTranslation } from '../hooks/useTranslation';
+import { readFileBlobById } from '../utils/vfs';
 
 interface ImageViewerProps {
     initialSrc?: string;
+    /** VFS file ID of a Blob-backed image to display */
+    initialFileId?: string;
+    initialFileName?: string;
     windowId?: string;
 }
 
-export const ImageViewer: React.FC<ImageViewerProps> = ({ initialSrc, windowId }) => {
+export const ImageViewer: React.FC<ImageViewerProps> = ({ initialSrc, initialFileId, initialFileName, windowId }) => {
     const { t } = useTranslation('imageViewer');
     const { setTitle } = useWindowInstance(windowId ?? '');
     const [imageSrc, setImageSrc] = useState(
         initialSrc || 'https://images.unsplash.com/photo-1506744038136-46273834b3fb?auto=format&fit=crop&w=1000&q=80'
     );
+    const [fileName, setFileName] = useState<string | null>(initialFileName ?? null);
     const [urlInput, setUrlInput] = useState('');
     const [zoom, setZoom] = useState(100);
     const containerRef = useRef<HTMLDivElement>(null);
     const { execute, error: loadError } = useAsyncAction();
 
+    // Load the image bytes from the VFS and display them through an object URL
+    useEffect(() => {
+        if (!initialFileId) return;
+        let objectUrl: string | null = null;
+        let cancelled = false;
+
+        execute(async () => {
+            const blob = await readFileBlobById(initialFileId);
+            if (cancelled) return;
+            objectUrl = URL.createObjectURL(blob);
+            setImageSrc(objectUrl);
+        });
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+        // execute changes identity while loading; only reload when the file changes
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialFileId]);
+
     // Extract filename from image URL for title
     const imageFileName = useMemo(() => {
+        if (fileName) return fileName;
         try {
             const url = new URL(imageSrc);
             const pathname = url.pathname;
@@ -33,7 +60,7 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({ initialSrc, windowId }
         } catch {
             return 'Image';
         }
-    }, [imageSrc]);
+    }, [imageSrc, fileName]);
 
     // Update window title with filename
     useEffect(() => {
@@ -65,6 +92,7 @@ export const ImageViewer: React.FC<ImageViewerProps> = ({ initialSrc, windowId }
                     img.src = urlInput.trim();
                 });
                 setImageSrc(urlInput.trim());
+                setFileName(null);
                 setZoom(100);
             });
         }
@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
-import { useAsyncAction, useAppState, useFilePicker, usePhoneMode } from '../hooks';
+import { useAsyncAction, useAppState, useFilePicker, useIntentHandler, usePhoneMode } from '../hooks';
 import { useTranslation } from '../hooks/useTranslation';
 import { AppToolbar, TextArea } from '../components/ui';
 import { FilePickerModal } from '../components';
+import type { Intent } from '../utils/intents';
 
 interface JsonNodeProps {
     data: unknown;
@@ -103,7 +104,12 @@ interface JsonViewerState {
     view: 'tree' | 'formatted';
 }
 
-export const JsonViewer = () => {
+interface JsonViewerProps {
+    /** `view:json` intent to load */
+    intent?: Intent;
+}
+
+export const JsonViewer = ({ intent }: JsonViewerProps) => {
     const { t } = useTranslation('jsonViewer');
     const isPhone = usePhoneMode();
     const [state, setState] = useAppState<JsonViewerState>('jsonViewer', {
@@ -125,6 +131,13 @@ export const JsonViewer = () => {
         });
     };
 
+    useIntentHandler(intent, 'view:json', ({ data }) => {
+        void setState(prev => ({ ...prev, input: data.json }));
+        void execute(async () => {
+            setParsedJson(JSON.parse(data.json));
+        });
+    });
+
     const formatJson = async () => {
         await execute(async () => {
             const parsed = JSON.parse(input);
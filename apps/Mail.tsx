@@ -1,13 +1,74 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useDb } from '../context/DbContext';
 import { useDexieLiveQuery } from '../utils/storage/react';
-import { useWindowInstance, useNotification, usePhoneMode } from '../hooks';
-import { generateUuid } from '../utils/uuid';
-import { SearchInput, TextArea, TabSwitcher } from '../components/ui';
+import {
+    useWindowInstance,
+    useNotification,
+    usePhoneMode,
+    useIntentHandler,
+    useMailSync,
+    useFilePicker,
+    usePersistedState,
+} from '../hooks';
+import { FilePickerModal } from '../components';
+import { SearchInput, TextArea, TabSwitcher, Select } from '../components/ui';
+import { InputDialog } from '../components/ui/InputDialog';
 import { useConfirmDialog, ConfirmDialog } from '../components/ui/ConfirmDialog';
-import { email as emailValidator, validateValue } from '../utils/validation';
-import type { MailFolderId, EmailRecord } from '../utils/storage/db';
+import { email as emailValidator, required, validateValue } from '../utils/validation';
+import type {
+    MailFolderId,
+    EmailAttachmentInfo,
+    EmailFolderRecord,
+    EmailLabelRecord,
+    EmailRecord,
+    SystemMailFolderId,
+} from '../utils/storage/db';
+import {
+    createMailFolder,
+    createMailLabel,
+    createMessageId,
+    deleteEmail,
+    deleteMailFolder,
+    deleteMailLabel,
+    exportEmailsToMbox,
+    exportEmailToEml,
+    formatAccountAddress,
+    getEmailThreadId,
+    getMailFileFormat,
+    getReplyHeaders,
+    getReplySubject,
+    groupConversations,
+    getSentCopyFields,
+    importMailFile,
+    isMailTransportError,
+    isRemoteMailFolder,
+    isSystemMailFolder,
+    LABEL_COLORS,
+    moveEmail,
+    renameMailFolder,
+    resolveThreadId,
+    runMailRules,
+    saveAttachmentToFiles,
+    setEmailFlagged,
+    setEmailLabel,
+    setEmailRead,
+    SYSTEM_MAIL_FOLDERS,
+    type MailConversation,
+} from '../utils/mail';
+import { isMimeError } from '../utils/mime';
+import { vfs } from '../utils/vfs';
+import {
+    AccountFolders,
+    AttachmentList,
+    ConversationList,
+    LabelChips,
+    MailFolders,
+    MessageBody,
+    MessageTools,
+} from './mail-components';
 import { useTranslation } from '../hooks/useTranslation';
+import { requestIntent } from '../utils/intents';
+import type { Intent } from '../utils/intents';
 
 const USER_EMAIL = 'john.doe@windows15.local';
 
@@ -28,6 +89,31 @@ const parseRecipients = (raw: string) => {
     return recipients;
 };
 
+const MAILBOX_ICONS: Record<SystemMailFolderId, string> = {
+    inbox: 'inbox',
+    sent: 'send',
+    drafts: 'draft',
+    trash: 'delete',
+};
+
+const getMailboxIcon = (folderId: MailFolderId) => (isSystemMailFolder(folderId) ? MAILBOX_ICONS[folderId] : 'folder');
+
+/** Folders whose unread messages are counted and marked: the Inbox and other server folders */
+const countsUnread = (folderId: MailFolderId) => folderId === 'inbox' || !isSystemMailFolder(folderId);
+
+/** A file name for a message or folder, without characters file systems reject */
+const toFileName = (name: string, fallback: string) => name.replace(/[\\/:*?"<>|]/g, '_').trim() || fallback;
+
+/** Whether a message has attachments other than the images of its body */
+const hasAttachments = (email: EmailRecord) => email.attachments?.some(attachment => !attachment.inline) ?? false;
+
+/** Labels of any message of a conversation */
+const getConversationLabels = (conversation: MailConversation) =>
+    Array.from(new Set(conversation.messages.flatMap(email => email.labels ?? [])));
+
+/** The address part of "Name <address>" */
+const getAddress = (mailbox: string) => /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+
 const formatMessageTime = (timestamp: number) => {
     const date = new Date(timestamp);
     if (!Number.isFinite(date.getTime())) return '';
@@ -83,27 +169,45 @@ const seedEmails = (): Omit<EmailRecord, 'id' | 'createdAt' | 'updatedAt'>[] =>
 
 type ComposeState = {
     draftId?: string;
+    /** Account to send from; the first account when unset */
+    accountId?: string;
     to: string;
     subject: string;
     body: string;
+    inReplyTo?: string;
+    references?: string[];
 };
 
 interface MailProps {
     windowId?: string;
+    /** `share:text` or `share:url` intent to start a message with */
+    intent?: Intent;
+    /** Message to show, e.g. when opened from search */
+    initialMessageId?: string;
 }
 
-export const Mail: React.FC<MailProps> = ({ windowId }) => {
+export const Mail: React.FC<MailProps> = ({ windowId, intent, initialMessageId }) => {
     const { t } = useTranslation('mail');
     const db = useDb();
     const { confirm, dialogProps } = useConfirmDialog();
     const { setTitle, setBadge } = useWindowInstance(windowId ?? '');
-    const { info } = useNotification();
+    const { info, error: notifyError } = useNotification();
     const isPhone = usePhoneMode();
+    const { accounts, isSyncing, syncNow, getRemote } = useMailSync();
+    const filePicker = useFilePicker();
 
     // Track previous unread count to detect new messages
     const prevUnreadCountRef = useRef<number | null>(null);
 
-    const [activeMailbox, setActiveMailbox] = useState<MailFolderId>('inbox');
+    const [activeMailbox, setMailboxState] = useState<MailFolderId>('inbox');
+    // A label shows its messages from every folder but Trash instead of a folder
+    const [activeLabelId, setActiveLabelId] = useState<string | null>(null);
+    const { value: isThreaded, setValue: setIsThreaded } = usePersistedState('mail.threaded', true);
+    const [nameDialog, setNameDialog] = useState<{
+        title: string;
+        defaultValue: string;
+        onConfirm: (name: string) => Promise<void>;
+    } | null>(null);
     const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
     const [compose, setCompose] = useState<ComposeState | null>(null);
@@ -118,6 +222,23 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         () => db.emails.orderBy('date').reverse().toArray(),
         [db]
     );
+    // Server folders of mail accounts other than the system folders
+    const { value: remoteFolders = [] } = useDexieLiveQuery(
+        () => db.emailFolders.where('type').equals('remote').sortBy('name'),
+        [db]
+    );
+    const { value: customFolders = [] } = useDexieLiveQuery(
+        () => db.emailFolders.where('type').equals('custom').sortBy('name'),
+        [db]
+    );
+    const { value: labels = [] } = useDexieLiveQuery(() => db.emailLabels.orderBy('name').toArray(), [db]);
+    const activeLabel = activeLabelId ? labels.find(label => label.id === activeLabelId) : undefined;
+
+    /** Show a folder, leaving the label being shown */
+    const setActiveMailbox = (folderId: MailFolderId) => {
+        setMailboxState(folderId);
+        setActiveLabelId(null);
+    };
 
     // Seed emails on first load if empty
     useEffect(() => {
@@ -147,34 +268,37 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
     }, [db, isLoading, isSeeded]);
 
     const mailboxCounts = useMemo(() => {
-        const counts: Record<MailFolderId, { total: number; unread: number }> = {
-            inbox: { total: 0, unread: 0 },
-            sent: { total: 0, unread: 0 },
-            drafts: { total: 0, unread: 0 },
-            trash: { total: 0, unread: 0 },
-        };
+        const counts: Partial<Record<MailFolderId, { total: number; unread: number }>> = {};
 
         for (const email of emails) {
-            const counter = counts[email.folderId];
+            const counter = (counts[email.folderId] ??= { total: 0, unread: 0 });
             counter.total += 1;
-            if (!email.isRead && email.folderId === 'inbox') counter.unread += 1;
+            if (!email.isRead && countsUnread(email.folderId)) counter.unread += 1;
         }
 
         return counts;
     }, [emails]);
+    const inboxUnread = mailboxCounts.inbox?.unread ?? 0;
+
+    const getMailboxCount = (folderId: MailFolderId) => mailboxCounts[folderId] ?? { total: 0, unread: 0 };
+
+    const getMailboxLabel = (folderId: MailFolderId) =>
+        isSystemMailFolder(folderId)
+            ? t(folderId)
+            : ([...customFolders, ...remoteFolders].find(folder => folder.id === folderId)?.name ?? '');
+    const listTitle = activeLabel?.name ?? getMailboxLabel(activeMailbox);
 
     // Update window title and badge with unread count
     useEffect(() => {
         if (windowId) {
-            const unread = mailboxCounts.inbox.unread;
-            setTitle(unread > 0 ? `${t('title')} - ${t('inbox')} (${unread})` : t('title'));
-            setBadge(unread > 0 ? unread : null);
+            setTitle(inboxUnread > 0 ? `${t('title')} - ${t('inbox')} (${inboxUnread})` : t('title'));
+            setBadge(inboxUnread > 0 ? inboxUnread : null);
         }
-    }, [windowId, mailboxCounts.inbox.unread, setTitle, setBadge, t]);
+    }, [windowId, inboxUnread, setTitle, setBadge, t]);
 
     // Show notification when new unread messages arrive
     useEffect(() => {
-        const currentUnread = mailboxCounts.inbox.unread;
+        const currentUnread = inboxUnread;
         const prevUnread = prevUnreadCountRef.current;
 
         // Only notify if count increased (not on initial load)
@@ -188,13 +312,17 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         }
 
         prevUnreadCountRef.current = currentUnread;
-    }, [mailboxCounts.inbox.unread, info, t]);
+    }, [inboxUnread, info, t]);
 
     const filteredMessages = useMemo(() => {
         const query = searchQuery.trim().toLowerCase();
 
         return emails
-            .filter(email => email.folderId === activeMailbox)
+            .filter(email =>
+                activeLabelId
+                    ? email.labels?.includes(activeLabelId) && email.folderId !== 'trash'
+                    : email.folderId === activeMailbox
+            )
             .filter(email => {
                 if (!query) return true;
                 return (
@@ -204,18 +332,63 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                     email.body.toLowerCase().includes(query)
                 );
             });
-    }, [activeMailbox, emails, searchQuery]);
+    }, [activeMailbox, activeLabelId, emails, searchQuery]);
+
+    // One row per conversation, or per message when not threaded
+    const listItems = useMemo(
+        (): MailConversation[] =>
+            isThreaded
+                ? groupConversations(filteredMessages)
+                : filteredMessages.map(email => ({
+                      threadId: email.id,
+                      messages: [email],
+                      latest: email,
+                      unread: email.isRead ? 0 : 1,
+                  })),
+        [filteredMessages, isThreaded]
+    );
 
     const selectedMessage = useMemo(() => {
         if (!selectedMessageId) return null;
         return emails.find(email => email.id === selectedMessageId) ?? null;
     }, [emails, selectedMessageId]);
 
+    // Messages in the selected message's conversation, oldest first
+    const conversation = useMemo(() => {
+        if (!selectedMessage) return [];
+        const threadId = getEmailThreadId(selectedMessage);
+        return emails
+            .filter(email => getEmailThreadId(email) === threadId && email.folderId !== 'drafts')
+            .sort((a, b) => a.date - b.date);
+    }, [emails, selectedMessage]);
+
     useEffect(() => {
         if (selectedMessageId && filteredMessages.some(email => email.id === selectedMessageId)) return;
         setSelectedMessageId(filteredMessages[0]?.id ?? null);
     }, [filteredMessages, selectedMessageId]);
 
+    // Show the requested message in its mailbox once the messages have loaded
+    const requestedMessage = initialMessageId ? emails.find(email => email.id === initialMessageId) : undefined;
+    const requestedMailbox = requestedMessage?.folderId;
+    useEffect(() => {
+        if (!initialMessageId || !requestedMailbox) return;
+        setActiveMailbox(requestedMailbox);
+        setSearchQuery('');
+        void openMessage(initialMessageId);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialMessageId, requestedMailbox]);
+
+    /** Run a change that may also go to a mail server, reporting server errors */
+    const runMailAction = async (action: () => Promise<void>): Promise<boolean> => {
+        try {
+            await action();
+            return true;
+        } catch (error) {
+            notifyError(isMailTransportError(error) ? error.message : 'The mail server did not accept the change');
+            return false;
+        }
+    };
+
     const openMessage = async (id: string) => {
         setSelectedMessageId(id);
         if (isPhone) {
@@ -223,31 +396,31 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         }
         const email = emails.find(e => e.id === id);
         if (email && !email.isRead) {
-            await db.emails.update(id, { isRead: true, updatedAt: Date.now() });
+            await runMailAction(() => setEmailRead(db, email, true, getRemote(email.accountId)));
         }
     };
 
+    /** Open a message of the conversation being read, in its own folder */
+    const openConversationMessage = (email: EmailRecord) => {
+        setActiveMailbox(email.folderId);
+        setSearchQuery('');
+        void openMessage(email.id);
+    };
+
     const moveToTrash = async (id: string) => {
         const email = emails.find(e => e.id === id);
         if (!email || email.folderId === 'trash') return;
 
-        await db.emails.update(id, {
-            folderId: 'trash',
-            trashedFrom: email.folderId,
-            updatedAt: Date.now(),
-        });
-        setSelectedMessageId(null);
+        if (await runMailAction(() => moveEmail(db, email, 'trash', getRemote(email.accountId)))) {
+            setSelectedMessageId(null);
+        }
     };
 
     const restoreFromTrash = async (id: string) => {
         const email = emails.find(e => e.id === id);
         if (!email || email.folderId !== 'trash') return;
 
-        await db.emails.update(id, {
-            folderId: email.trashedFrom ?? 'inbox',
-            trashedFrom: undefined,
-            updatedAt: Date.now(),
-        });
+        await runMailAction(() => moveEmail(db, email, email.trashedFrom ?? 'inbox', getRemote(email.accountId)));
     };
 
     const deleteForever = async (id: string) => {
@@ -262,8 +435,9 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         });
         if (!confirmed) return;
 
-        await db.emails.delete(id);
-        setSelectedMessageId(null);
+        if (await runMailAction(() => deleteEmail(db, message, getRemote(message.accountId)))) {
+            setSelectedMessageId(null);
+        }
     };
 
     const startCompose = (draft?: EmailRecord) => {
@@ -271,15 +445,211 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         if (draft) {
             setCompose({
                 draftId: draft.id,
+                accountId: draft.accountId,
                 to: draft.to.join(', '),
                 subject: draft.subject,
                 body: draft.body,
+                inReplyTo: draft.inReplyTo,
+                references: draft.references,
             });
             return;
         }
         setCompose({ to: '', subject: '', body: '' });
     };
 
+    const composeShared = (subject: string, body: string) => {
+        setComposeError(null);
+        setCompose({ to: '', subject, body });
+        setPhoneTab('compose');
+    };
+
+    /** Reply in the same conversation, quoting the message */
+    const replyTo = (email: EmailRecord) => {
+        setComposeError(null);
+        const quoted = email.body
+            .split('\n')
+            .map(line => `> ${line}`)
+            .join('\n');
+        setCompose({
+            accountId: email.accountId,
+            to: email.folderId === 'sent' ? email.to.join(', ') : getAddress(email.from),
+            subject: getReplySubject(email.subject),
+            body: `\n\nOn ${formatMessageTime(email.date)}, ${email.from} wrote:\n${quoted}`,
+            ...getReplyHeaders(email),
+        });
+        setPhoneTab('compose');
+        setShowingDetail(false);
+    };
+
+    useIntentHandler(intent, 'share:text', ({ data }) => composeShared(data.title ?? '', data.text));
+    useIntentHandler(intent, 'share:url', ({ data }) => composeShared(data.title ?? '', data.url));
+
+    /** Append a file's text to the message, picked by whichever app handles pick:file */
+    const insertFile = async () => {
+        const file = await requestIntent('pick:file', { title: 'Insert file' }, { sourceAppId: 'mail' });
+        if (!file) return;
+        const text = file.content ?? file.name;
+        setCompose(prev => (prev ? { ...prev, body: prev.body ? `${prev.body}\n\n${text}` : text } : prev));
+    };
+
+    /** Import .eml and .mbox files into the open folder; server folders import into the Inbox */
+    const importMessages = async () => {
+        const file = await filePicker.open({ title: 'Import Messages', extensions: ['.eml', '.mbox', '.mbx'] });
+        const format = file ? getMailFileFormat(file.name) : null;
+        if (!file || !format) return;
+
+        const folderId = isRemoteMailFolder(activeMailbox) ? 'inbox' : activeMailbox;
+        try {
+            const bytes = new Uint8Array(await (await vfs.readFileBlobById(file.id)).arrayBuffer());
+            const added = await importMailFile(db, bytes, format, folderId);
+            setActiveMailbox(folderId);
+            info(
+                added.length > 0
+                    ? `Imported ${added.length} ${added.length === 1 ? 'message' : 'messages'}`
+                    : 'These messages are already in this folder'
+            );
+        } catch (error) {
+            console.error('Failed to import messages:', error);
+            notifyError(
+                isMimeError(error) ? `Could not import messages: ${error.message}` : 'Could not import messages'
+            );
+        }
+    };
+
+    /** Export the messages listed, as an .mbox file */
+    const exportFolder = async () => {
+        if (filteredMessages.length === 0) return;
+
+        await filePicker.save({
+            title: 'Export Folder',
+            content: await exportEmailsToMbox(db, filteredMessages),
+            defaultFileName: `${toFileName(listTitle, 'Mail')}.mbox`,
+            defaultExtension: '.mbox',
+        });
+    };
+
+    const exportMessage = async (email: EmailRecord) => {
+        await filePicker.save({
+            title: 'Export Message',
+            content: await exportEmailToEml(db, email),
+            defaultFileName: `${toFileName(email.subject, 'message')}.eml`,
+            defaultExtension: '.eml',
+        });
+    };
+
+    const saveAttachment = async (attachment: EmailAttachmentInfo) => {
+        try {
+            const path = await saveAttachmentToFiles(db, attachment);
+            if (path) info(`Saved to ${path}`);
+            else notifyError(`${attachment.filename} is not on this device`);
+        } catch (error) {
+            console.error('Failed to save attachment:', error);
+            notifyError(`Could not save ${attachment.filename}`);
+        }
+    };
+
+    /** Folders a message can be moved to: system folders, folders made here and its account's server folders */
+    const getMoveTargets = (email: EmailRecord) =>
+        [
+            ...SYSTEM_MAIL_FOLDERS.filter(folderId => folderId !== 'drafts' || email.folderId === 'drafts'),
+            ...customFolders.map(folder => folder.id),
+            ...remoteFolders
+                .filter(folder => email.accountId && folder.accountId === email.accountId)
+                .map(folder => folder.id),
+        ].map(id => ({ id, label: getMailboxLabel(id) }));
+
+    const moveMessage = async (email: EmailRecord, folderId: MailFolderId) => {
+        await runMailAction(() => moveEmail(db, email, folderId, getRemote(email.accountId)));
+    };
+
+    /** Run the mail rules on the open folder */
+    const runRulesNow = async () => {
+        try {
+            const { matched } = await runMailRules(db, activeMailbox, {
+                getRemote,
+                onNotify: (email, rule) => info(`${rule.name || 'Mail rule'}: ${email.subject || '(no subject)'}`),
+            });
+            info(
+                matched === 0
+                    ? 'No messages matched your rules'
+                    : `Rules matched ${matched} ${matched === 1 ? 'message' : 'messages'}`
+            );
+        } catch (error) {
+            notifyError(isMailTransportError(error) ? error.message : 'Could not run the rules');
+        }
+    };
+
+    const confirmName = async (value: string) => {
+        if (!nameDialog) return;
+        const error = validateValue(value.trim(), required('Enter a name'));
+        if (error) {
+            notifyError(error);
+            return;
+        }
+        setNameDialog(null);
+        await nameDialog.onConfirm(value.trim());
+    };
+
+    const createFolder = () =>
+        setNameDialog({
+            title: 'New Folder',
+            defaultValue: '',
+            onConfirm: async name => setActiveMailbox((await createMailFolder(db, name)).id),
+        });
+
+    const renameFolder = (folder: EmailFolderRecord) =>
+        setNameDialog({
+            title: 'Rename Folder',
+            defaultValue: folder.name,
+            onConfirm: name => renameMailFolder(db, folder.id, name),
+        });
+
+    const deleteFolder = async (folder: EmailFolderRecord) => {
+        const confirmed = await confirm({
+            title: 'Delete Folder',
+            message: `Delete "${folder.name}"? Its messages will be moved to Trash.`,
+            variant: 'danger',
+            confirmLabel: 'Delete',
+        });
+        if (!confirmed) return;
+
+        await deleteMailFolder(db, folder.id);
+        if (activeMailbox === folder.id) setActiveMailbox('inbox');
+    };
+
+    const createLabel = () =>
+        setNameDialog({
+            title: 'New Label',
+            defaultValue: '',
+            onConfirm: async name => {
+                await createMailLabel(db, name, LABEL_COLORS[labels.length % LABEL_COLORS.length]);
+            },
+        });
+
+    const deleteLabel = async (label: EmailLabelRecord) => {
+        const confirmed = await confirm({
+            title: 'Delete Label',
+            message: `Delete "${label.name}"? It will be removed from its messages.`,
+            variant: 'danger',
+            confirmLabel: 'Delete',
+        });
+        if (!confirmed) return;
+
+        await deleteMailLabel(db, label.id);
+        if (activeLabelId === label.id) setActiveLabelId(null);
+    };
+
+    const filePickerModal = filePicker.state.isOpen && (
+        <FilePickerModal
+            state={filePicker.state}
+            onNavigateTo={filePicker.navigateTo}
+            onSelectFile={filePicker.selectFile}
+            onSetFileName={filePicker.setFileName}
+            onConfirm={filePicker.confirm}
+            onCancel={filePicker.cancel}
+        />
+    );
+
     const saveDraft = async () => {
         if (!compose) return;
 
@@ -296,18 +666,20 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
         if (compose.draftId) {
             await db.emails.update(compose.draftId, {
                 folderId: 'drafts',
+                accountId: compose.accountId,
                 to: draftRecipients,
                 subject: compose.subject,
                 body: compose.body,
+                inReplyTo: compose.inReplyTo,
+                references: compose.references,
                 date: now,
                 updatedAt: now,
             });
             setActiveMailbox('drafts');
             setSelectedMessageId(compose.draftId);
         } else {
-            const newDraftId = generateUuid();
-            await db.emails.add({
-                id: newDraftId,
+            // Dexie Cloud with @id generates the ID
+            const newDraftId = await db.emails.add({
                 folderId: 'drafts',
                 from: `John Doe <${USER_EMAIL}>`,
                 to: draftRecipients,
@@ -315,9 +687,12 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                 body: compose.body,
                 date: now,
                 isRead: true,
+                accountId: compose.accountId,
+                inReplyTo: compose.inReplyTo,
+                references: compose.references,
                 createdAt: now,
                 updatedAt: now,
-            });
+            } as EmailRecord);
             setActiveMailbox('drafts');
             setSelectedMessageId(newDraftId);
         }
@@ -341,13 +716,40 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
             return;
         }
 
+        const account = accounts.find(candidate => candidate.id === (compose.accountId ?? accounts[0]?.id));
+        const from = account ? formatAccountAddress(account) : `John Doe <${USER_EMAIL}>`;
+        const subject = compose.subject || '(no subject)';
+        const headers = {
+            messageId: createMessageId(from),
+            inReplyTo: compose.inReplyTo,
+            references: compose.references,
+        };
+
+        const remote = getRemote(account?.id);
+        if (remote) {
+            try {
+                await remote.transport.send({ from, to: recipients, subject, body: compose.body, ...headers });
+            } catch (error) {
+                setComposeError(isMailTransportError(error) ? error.message : 'The message could not be sent');
+                return;
+            }
+        }
+
         const now = Date.now();
+        // The server's copy in its Sent folder is matched up with this one by Message-ID
+        const sent = {
+            from,
+            ...headers,
+            threadId: await resolveThreadId(db, headers),
+            ...(account ? getSentCopyFields(account) : {}),
+        };
 
         if (compose.draftId) {
             await db.emails.update(compose.draftId, {
                 folderId: 'sent',
+                ...sent,
                 to: recipients,
-                subject: compose.subject || '(no subject)',
+                subject,
                 body: compose.body,
                 date: now,
                 isRead: true,
@@ -357,19 +759,18 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
             setActiveMailbox('sent');
             setSelectedMessageId(compose.draftId);
         } else {
-            const newEmailId = generateUuid();
-            await db.emails.add({
-                id: newEmailId,
+            // Dexie Cloud with @id generates the ID
+            const newEmailId = await db.emails.add({
                 folderId: 'sent',
-                from: `John Doe <${USER_EMAIL}>`,
+                ...sent,
                 to: recipients,
-                subject: compose.subject || '(no subject)',
+                subject,
                 body: compose.body,
                 date: now,
                 isRead: true,
                 createdAt: now,
                 updatedAt: now,
-            });
+            } as EmailRecord);
             setActiveMailbox('sent');
             setSelectedMessageId(newEmailId);
         }
@@ -407,6 +808,22 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                         <span className="text-sm font-medium text-white/90 truncate flex-1">
                             {selectedMessage.subject || '(no subject)'}
                         </span>
+                        {selectedMessage.folderId !== 'drafts' && (
+                            <button
+                                onClick={() => replyTo(selectedMessage)}
+                                className="w-10 h-10 rounded-full flex items-center justify-center hover:bg-white/10"
+                                aria-label={t('reply')}
+                            >
+                                <span className="material-symbols-outlined text-xl">reply</span>
+                            </button>
+                        )}
+                        <button
+                            onClick={() => void exportMessage(selectedMessage)}
+                            className="w-10 h-10 rounded-full flex items-center justify-center hover:bg-white/10"
+                            aria-label="Export message"
+                        >
+                            <span className="material-symbols-outlined text-xl">download</span>
+                        </button>
                         {selectedMessage.folderId === 'trash' ? (
                             <button
                                 onClick={() => void deleteForever(selectedMessage.id)}
@@ -445,11 +862,14 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                 <span>{formatMessageTime(selectedMessage.date)}</span>
                             </div>
                         </div>
-                        <div className="text-sm text-white/80 whitespace-pre-wrap leading-relaxed">
-                            {selectedMessage.body}
-                        </div>
+                        <MessageBody key={selectedMessage.id} email={selectedMessage} />
+                        <AttachmentList
+                            attachments={selectedMessage.attachments ?? []}
+                            onSave={attachment => void saveAttachment(attachment)}
+                        />
                     </div>
 
+                    {filePickerModal}
                     <ConfirmDialog {...dialogProps} />
                 </div>
             );
@@ -466,10 +886,14 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                     <div className="flex-1 flex flex-col min-h-0">
                         {/* Folder selector */}
                         <div className="shrink-0 flex gap-1 px-3 py-2 overflow-x-auto">
-                            {(['inbox', 'sent', 'drafts', 'trash'] as MailFolderId[]).map(mailbox => {
-                                const isActive = mailbox === activeMailbox;
-                                const count = mailboxCounts[mailbox];
-                                const badge = mailbox === 'inbox' ? count.unread : count.total;
+                            {[
+                                ...SYSTEM_MAIL_FOLDERS,
+                                ...customFolders.map(folder => folder.id),
+                                ...remoteFolders.map(folder => folder.id),
+                            ].map(mailbox => {
+                                const isActive = mailbox === activeMailbox && !activeLabelId;
+                                const count = getMailboxCount(mailbox);
+                                const badge = countsUnread(mailbox) ? count.unread : count.total;
                                 return (
                                     <button
                                         key={mailbox}
@@ -477,15 +901,9 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                         className={`shrink-0 px-3 py-2 rounded-full text-xs flex items-center gap-2 min-h-[44px] ${isActive ? 'bg-primary text-white' : 'bg-white/10 text-white/70'}`}
                                     >
                                         <span className="material-symbols-outlined text-[16px]">
-                                            {mailbox === 'inbox'
-                                                ? 'inbox'
-                                                : mailbox === 'sent'
-                                                  ? 'send'
-                                                  : mailbox === 'drafts'
-                                                    ? 'draft'
-                                                    : 'delete'}
+                                            {getMailboxIcon(mailbox)}
                                         </span>
-                                        {t(mailbox)}
+                                        {getMailboxLabel(mailbox)}
                                         {badge > 0 && (
                                             <span
                                                 className={`text-[10px] px-1.5 py-0.5 rounded-full ${isActive ? 'bg-white/30' : 'bg-white/20'}`}
@@ -510,11 +928,12 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
 
                         {/* Message list */}
                         <div className="flex-1 overflow-y-auto">
-                            {filteredMessages.length === 0 ? (
+                            {listItems.length === 0 ? (
                                 <div className="p-6 text-sm text-white/50 text-center">{t('noMessages')}</div>
                             ) : (
-                                filteredMessages.map(email => {
-                                    const isUnread = !email.isRead && email.folderId === 'inbox';
+                                listItems.map(conversation => {
+                                    const { latest: email } = conversation;
+                                    const isUnread = conversation.unread > 0 && countsUnread(email.folderId);
                                     const preview =
                                         email.body
                                             .split('\n')
@@ -537,6 +956,11 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                                         >
                                                             {email.subject || '(no subject)'}
                                                         </span>
+                                                        {conversation.messages.length > 1 && (
+                                                            <span className="text-[10px] text-white/50 shrink-0">
+                                                                {conversation.messages.length}
+                                                            </span>
+                                                        )}
                                                     </div>
                                                     <div className="mt-0.5 text-[11px] text-white/50 truncate">
                                                         {email.folderId === 'sent'
@@ -544,7 +968,15 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                                             : email.from}
                                                     </div>
                                                 </div>
-                                                <div className="text-[10px] text-white/40 shrink-0">
+                                                <div className="text-[10px] text-white/40 shrink-0 flex items-center gap-1">
+                                                    {hasAttachments(email) && (
+                                                        <span
+                                                            className="material-symbols-outlined text-[12px]"
+                                                            aria-label="Has attachments"
+                                                        >
+                                                            attach_file
+                                                        </span>
+                                                    )}
                                                     {formatMessageTime(email.date)}
                                                 </div>
                                             </div>
@@ -639,9 +1071,9 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                     {t('compose')}
                 </button>
 
-                {(['inbox', 'sent', 'drafts', 'trash'] as MailFolderId[]).map(mailbox => {
-                    const isActive = mailbox === activeMailbox;
-                    const count = mailboxCounts[mailbox];
+                {SYSTEM_MAIL_FOLDERS.map(mailbox => {
+                    const isActive = mailbox === activeMailbox && !activeLabelId;
+                    const count = getMailboxCount(mailbox);
                     const badge = mailbox === 'inbox' ? count.unread : count.total;
 
                     return (
@@ -651,15 +1083,7 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                             className={`px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors ${isActive ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5 hover:text-white'}`}
                         >
                             <span className="flex items-center gap-3">
-                                <span className="material-symbols-outlined text-[18px]">
-                                    {mailbox === 'inbox'
-                                        ? 'inbox'
-                                        : mailbox === 'sent'
-                                          ? 'send'
-                                          : mailbox === 'drafts'
-                                            ? 'draft'
-                                            : 'delete'}
-                                </span>
+                                <span className="material-symbols-outlined text-[18px]">{getMailboxIcon(mailbox)}</span>
                                 {t(mailbox)}
                             </span>
                             {badge > 0 && (
@@ -672,28 +1096,95 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                         </button>
                     );
                 })}
+
+                <MailFolders
+                    folders={customFolders}
+                    labels={labels}
+                    activeMailbox={activeLabelId ? null : activeMailbox}
+                    activeLabelId={activeLabelId}
+                    counts={mailboxCounts}
+                    onSelectFolder={setActiveMailbox}
+                    onSelectLabel={setActiveLabelId}
+                    onCreateFolder={createFolder}
+                    onRenameFolder={renameFolder}
+                    onDeleteFolder={folder => void deleteFolder(folder)}
+                    onCreateLabel={createLabel}
+                    onDeleteLabel={label => void deleteLabel(label)}
+                />
+
+                <AccountFolders
+                    accounts={accounts}
+                    folders={remoteFolders}
+                    activeMailbox={activeLabelId ? null : activeMailbox}
+                    counts={mailboxCounts}
+                    isSyncing={isSyncing}
+                    onSelect={setActiveMailbox}
+                    onSync={() => void syncNow()}
+                />
             </div>
 
             {/* List + Reader */}
             <div className="flex-1 min-w-0 flex">
                 {/* Message List */}
                 <div className="w-80 shrink-0 border-r border-white/5 bg-black/10 flex flex-col">
-                    <div className="p-3 border-b border-white/5 bg-black/20">
-                        <SearchInput
-                            value={searchQuery}
-                            onChange={setSearchQuery}
-                            placeholder={t('actions.search')}
-                            aria-label={t('actions.search')}
-                        />
+                    <div className="p-3 border-b border-white/5 bg-black/20 flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                            <SearchInput
+                                value={searchQuery}
+                                onChange={setSearchQuery}
+                                placeholder={t('actions.search')}
+                                aria-label={t('actions.search')}
+                            />
+                        </div>
+                        <button
+                            onClick={() => void importMessages()}
+                            className="w-8 h-8 shrink-0 rounded-lg flex items-center justify-center text-white/70 hover:bg-white/10 hover:text-white"
+                            title="Import .eml or .mbox"
+                        >
+                            <span className="material-symbols-outlined text-[18px]">upload_file</span>
+                        </button>
+                        <button
+                            onClick={() => void exportFolder()}
+                            disabled={filteredMessages.length === 0}
+                            className="w-8 h-8 shrink-0 rounded-lg flex items-center justify-center text-white/70 hover:bg-white/10 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="Export folder as .mbox"
+                        >
+                            <span className="material-symbols-outlined text-[18px]">download</span>
+                        </button>
+                    </div>
+                    <div className="px-3 py-1.5 border-b border-white/5 flex items-center justify-between gap-2 text-[11px] text-white/60">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={isThreaded}
+                                onChange={e => setIsThreaded(e.target.checked)}
+                                className="accent-primary"
+                            />
+                            Group by conversation
+                        </label>
+                        {!activeLabelId && (
+                            <button
+                                onClick={() => void runRulesNow()}
+                                className="px-2 py-1 rounded hover:bg-white/10 hover:text-white flex items-center gap-1"
+                                title="Run your mail rules on this folder"
+                            >
+                                <span className="material-symbols-outlined text-[14px]">rule</span>
+                                Run rules
+                            </button>
+                        )}
                     </div>
 
                     <div className="flex-1 overflow-y-auto">
-                        {filteredMessages.length === 0 ? (
+                        {listItems.length === 0 ? (
                             <div className="p-6 text-sm text-white/50">{t('noMessages')}</div>
                         ) : (
-                            filteredMessages.map(email => {
-                                const isSelected = email.id === selectedMessageId;
-                                const isUnread = !email.isRead && email.folderId === 'inbox';
+                            listItems.map(conversation => {
+                                const { latest: email } = conversation;
+                                const isSelected = conversation.messages.some(
+                                    message => message.id === selectedMessageId
+                                );
+                                const isUnread = conversation.unread > 0 && countsUnread(email.folderId);
+                                const isFlagged = conversation.messages.some(message => message.isFlagged);
                                 const preview =
                                     email.body
                                         .split('\n')
@@ -717,6 +1208,14 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                                     >
                                                         {email.subject || '(no subject)'}
                                                     </span>
+                                                    {conversation.messages.length > 1 && (
+                                                        <span
+                                                            className="text-[10px] text-white/50 shrink-0"
+                                                            aria-label={`${conversation.messages.length} messages`}
+                                                        >
+                                                            {conversation.messages.length}
+                                                        </span>
+                                                    )}
                                                 </div>
                                                 <div className="mt-0.5 text-[11px] text-white/50 truncate">
                                                     {email.folderId === 'sent'
@@ -724,11 +1223,34 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                                         : email.from}
                                                 </div>
                                             </div>
-                                            <div className="text-[10px] text-white/40 shrink-0">
+                                            <div className="text-[10px] text-white/40 shrink-0 flex items-center gap-1">
+                                                {isFlagged && (
+                                                    <span
+                                                        className="material-symbols-outlined text-[12px] text-orange-400"
+                                                        style={{ fontVariationSettings: "'FILL' 1" }}
+                                                        aria-label="Flagged"
+                                                    >
+                                                        flag
+                                                    </span>
+                                                )}
+                                                {hasAttachments(email) && (
+                                                    <span
+                                                        className="material-symbols-outlined text-[12px]"
+                                                        aria-label="Has attachments"
+                                                    >
+                                                        attach_file
+                                                    </span>
+                                                )}
                                                 {formatMessageTime(email.date)}
                                             </div>
                                         </div>
-                                        <div className="mt-2 text-[11px] text-white/40 truncate">{preview}</div>
+                                        <div className="mt-2 flex items-center gap-2 min-w-0">
+                                            <LabelChips
+                                                labelIds={getConversationLabels(conversation)}
+                                                labels={labels}
+                                            />
+                                            <span className="text-[11px] text-white/40 truncate">{preview}</span>
+                                        </div>
                                     </button>
                                 );
                             })
@@ -739,8 +1261,29 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                 {/* Reader */}
                 <div className="flex-1 min-w-0 flex flex-col">
                     <div className="h-12 shrink-0 border-b border-white/5 bg-black/20 flex items-center justify-between px-4">
-                        <div className="text-sm font-medium text-white/80">{t(activeMailbox)}</div>
+                        <div className="text-sm font-medium text-white/80">{listTitle}</div>
                         <div className="flex items-center gap-2">
+                            {selectedMessage && (
+                                <MessageTools
+                                    email={selectedMessage}
+                                    folders={getMoveTargets(selectedMessage)}
+                                    labels={labels}
+                                    onMove={folderId => void moveMessage(selectedMessage, folderId)}
+                                    onSetFlagged={isFlagged => void setEmailFlagged(db, selectedMessage, isFlagged)}
+                                    onSetLabel={(labelId, hasLabel) =>
+                                        void setEmailLabel(db, selectedMessage, labelId, hasLabel)
+                                    }
+                                />
+                            )}
+                            {selectedMessage && selectedMessage.folderId !== 'drafts' && (
+                                <button
+                                    onClick={() => replyTo(selectedMessage)}
+                                    className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/90 flex items-center gap-1"
+                                >
+                                    <span className="material-symbols-outlined text-[16px]">reply</span>
+                                    {t('reply')}
+                                </button>
+                            )}
                             {selectedMessage?.folderId === 'drafts' && (
                                 <button
                                     onClick={() => startCompose(selectedMessage)}
@@ -751,6 +1294,16 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                 </button>
                             )}
 
+                            {selectedMessage && (
+                                <button
+                                    onClick={() => void exportMessage(selectedMessage)}
+                                    className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/90 flex items-center gap-1"
+                                    title="Export as .eml"
+                                >
+                                    <span className="material-symbols-outlined text-[16px]">download</span>
+                                    Export
+                                </button>
+                            )}
                             {selectedMessage && selectedMessage.folderId === 'trash' ? (
                                 <>
                                     <button
@@ -814,9 +1367,18 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                                         <span>{formatMessageTime(selectedMessage.date)}</span>
                                     </div>
                                 </div>
-                                <div className="mt-6 text-sm text-white/80 whitespace-pre-wrap leading-relaxed">
-                                    {selectedMessage.body}
-                                </div>
+                                <MessageBody key={selectedMessage.id} email={selectedMessage} className="mt-6" />
+                                <AttachmentList
+                                    attachments={selectedMessage.attachments ?? []}
+                                    onSave={attachment => void saveAttachment(attachment)}
+                                />
+                                {conversation.length > 1 && (
+                                    <ConversationList
+                                        messages={conversation}
+                                        selectedId={selectedMessage.id}
+                                        onOpen={openConversationMessage}
+                                    />
+                                )}
                             </div>
                         )}
                     </div>
@@ -847,6 +1409,23 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                         )}
 
                         <div className="p-4 flex flex-col gap-3">
+                            {accounts.length > 1 && (
+                                <div className="flex items-center gap-3">
+                                    <span className="text-xs text-white/60 w-10">{t('from')}</span>
+                                    <Select
+                                        aria-label={t('from')}
+                                        value={compose.accountId ?? accounts[0]?.id ?? ''}
+                                        onChange={accountId =>
+                                            setCompose(prev => (prev ? { ...prev, accountId } : prev))
+                                        }
+                                        options={accounts.map(account => ({
+                                            value: account.id,
+                                            label: formatAccountAddress(account),
+                                        }))}
+                                        className="flex-1"
+                                    />
+                                </div>
+                            )}
                             <label className="flex items-center gap-3">
                                 <span className="text-xs text-white/60 w-10">{t('to')}</span>
                                 <input
@@ -878,6 +1457,13 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                         <div className="px-4 py-3 flex items-center justify-between border-t border-white/10 bg-black/20">
                             <div className="text-[11px] text-white/50">Emails are synced across your devices.</div>
                             <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => void insertFile()}
+                                    className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/90 flex items-center gap-1"
+                                    title="Insert file"
+                                >
+                                    <span className="material-symbols-outlined text-[16px]">attach_file</span>
+                                </button>
                                 <button
                                     onClick={() => void saveDraft()}
                                     className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-xs text-white/90"
@@ -896,6 +1482,17 @@ export const Mail: React.FC<MailProps> = ({ windowId }) => {
                 </div>
             )}
 
+            {filePickerModal}
+            <InputDialog
+                isOpen={nameDialog !== null}
+                title={nameDialog?.title ?? ''}
+                label="Name"
+                defaultValue={nameDialog?.defaultValue ?? ''}
+                confirmLabel="Save"
+                onConfirm={value => void confirmName(value)}
+                onCancel={() => setNameDialog(null)}
+            />
+
             {/* Confirm Dialog */}
             <ConfirmDialog {...dialogProps} />
         </div>
@@ -30,7 +30,7 @@ import { useTranslation } from '../hooks/useTranslation';
 export const Notepad: React.FC<NotepadProps> = props => {
     const { t } = useTranslation('notepad');
     const isPhone = usePhoneMode();
-    const { initialContent = '', initialFileId, initialFileName, windowId } = props;
+    const { initialContent = '', initialFileId, initialFileName, initialNoteId, windowId } = props;
     const { setTitle } = useWindowInstance(windowId ?? '');
 
     // Determine if opened from a file (vs fresh launch)
@@ -46,6 +46,13 @@ export const Notepad: React.FC<NotepadProps> = props => {
         }
     }, [openedFromFile]);
 
+    // Switch to notes view when asked to show a note
+    useEffect(() => {
+        if (initialNoteId) {
+            setView('notes');
+        }
+    }, [initialNoteId]);
+
     // Callback for FilesPanel to update window title
     const handleTitleChange = useCallback(
         (fileName: string, hasUnsaved: boolean) => {
@@ -96,7 +103,7 @@ export const Notepad: React.FC<NotepadProps> = props => {
 
             {/* View Content */}
             {view === 'notes' ? (
-                <NotesPanel />
+                <NotesPanel initialNoteId={initialNoteId} />
             ) : (
                 <FilesPanel
                     initialContent={initialContent}
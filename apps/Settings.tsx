@@ -11,6 +11,8 @@ import { SoundSettings } from './settings/SoundSettings';
 import { NetworkSettings } from './settings/NetworkSettings';
 import { DevicesSettings } from './settings/DevicesSettings';
 import { TouchSettings } from './settings/TouchSettings';
+import { AppsSettings } from './settings/AppsSettings';
+import { MailSettings } from './settings/MailSettings';
 import { useTranslation } from '../hooks/useTranslation';
 import { usePhoneMode, useVirtualKeyboard } from '../hooks';
 
@@ -23,6 +25,7 @@ type SettingsSection =
     | 'devices'
     | 'touch'
     | 'apps'
+    | 'mail'
     | 'sound'
     | 'screensaver'
     | '3dmode';
@@ -45,6 +48,7 @@ export const Settings = () => {
         { id: 'localization', label: t('localization'), icon: 'language' },
         { id: 'network', label: 'Network', icon: 'wifi' },
         { id: 'apps', label: 'Apps', icon: 'apps' },
+        { id: 'mail', label: 'Mail', icon: 'mail' },
         { id: 'screensaver', label: 'Screensaver', icon: 'screenshot_monitor' },
         { id: '3dmode', label: '3D Mode', icon: 'view_in_ar' },
     ];
@@ -131,12 +135,9 @@ export const Settings = () => {
 
                     {activeSection === 'touch' && <TouchSettings />}
 
-                    {activeSection === 'apps' && (
-                        <div className="max-w-2xl">
-                            <h1 className="text-2xl md:text-3xl font-light mb-3">{t('common:labels.name')}</h1>
-                            <p className="text-sm text-white/60">App management is not implemented in this demo.</p>
-                        </div>
-                    )}
+                    {activeSection === 'apps' && <AppsSettings />}
+
+                    {activeSection === 'mail' && <MailSettings />}
 
                     {activeSection === 'screensaver' && <ScreensaverSettings />}
 
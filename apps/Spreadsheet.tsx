@@ -9,6 +9,7 @@ import { useTranslation } from '../hooks/useTranslation';
 import { useWindowInstance, useStandardHotkeys, usePhoneMode } from '../hooks';
 import { getFileExtension } from './registry';
 import { getFiles, saveFileToFolder } from '../utils/fileSystem';
+import { readFileBlobById } from '../utils/vfs';
 import { FileSystemItem } from '../types';
 import { useConfirmDialog, ConfirmDialog } from '../components/ui/ConfirmDialog';
 
@@ -204,6 +205,29 @@ function excelWorkbookToUniverData(workbook: ExcelJS.Workbook) {
     };
 }
 
+/**
+ * Load Excel file bytes into an ArrayBuffer.
+ * Blob-backed VFS files have no text content and are read from the blob store;
+ * older files store the workbook as a base64 string or data URL.
+ */
+async function loadExcelBuffer(content: string, fileId?: string): Promise<ArrayBuffer> {
+    if (!content && fileId) {
+        return (await readFileBlobById(fileId)).arrayBuffer();
+    }
+
+    const base64Data = content.startsWith('data:') ? content.split(',')[1] : content;
+    if (!base64Data) {
+        throw new Error('Invalid data URL format');
+    }
+
+    const binaryString = atob(base64Data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
 export const Spreadsheet: React.FC<SpreadsheetProps> = ({
     initialContent,
     initialFileId,
@@ -336,28 +360,7 @@ export const Spreadsheet: React.FC<SpreadsheetProps> = ({
                     (async () => {
                         try {
                             const workbook = new ExcelJS.Workbook();
-                            let arrayBuffer: ArrayBuffer;
-
-                            if (content.startsWith('data:')) {
-                                const base64Data = content.split(',')[1];
-                                if (base64Data) {
-                                    const binaryString = atob(base64Data);
-                                    const bytes = new Uint8Array(binaryString.length);
-                                    for (let i = 0; i < binaryString.length; i++) {
-                                        bytes[i] = binaryString.charCodeAt(i);
-                                    }
-                                    arrayBuffer = bytes.buffer;
-                                } else {
-                                    throw new Error('Invalid data URL format');
-                                }
-                            } else {
-                                const binaryString = atob(content);
-                                const bytes = new Uint8Array(binaryString.length);
-                                for (let i = 0; i < binaryString.length; i++) {
-                                    bytes[i] = binaryString.charCodeAt(i);
-                                }
-                                arrayBuffer = bytes.buffer;
-                            }
+                            const arrayBuffer = await loadExcelBuffer(content, file.id);
 
                             await workbook.xlsx.load(arrayBuffer);
 
@@ -530,21 +533,22 @@ export const Spreadsheet: React.FC<SpreadsheetProps> = ({
         univerRef.current = univerInstance;
         const { univerAPI } = univerInstance;
 
-        // Check if we have initial content to load
-        if (initialContent && initialFileName) {
+        // Check if we have initial content to load (Blob-backed files only have an ID)
+        if (initialFileName && (initialContent || initialFileId)) {
+            const content = initialContent ?? '';
             const ext = getFileExtension(initialFileName).toLowerCase();
 
             if (ext === '.csv') {
                 // Parse CSV and create workbook with data
-                const csvData = parseCSV(initialContent);
+                const csvData = parseCSV(content);
                 const sheetName = initialFileName.replace(/\.[^/.]+$/, ''); // Remove extension
                 const workbookData = csvToWorkbookData(csvData, sheetName);
                 univerAPI.createUniverSheet(workbookData);
             } else if (['.xlsx', '.xls', '.xlsm', '.xlsb', '.ods'].includes(ext)) {
                 // Check if content is a Univer JSON snapshot (saved from this app)
-                if (initialContent.startsWith('{') && initialContent.includes('"sheets"')) {
+                if (content.startsWith('{') && content.includes('"sheets"')) {
                     try {
-                        const snapshot = JSON.parse(initialContent);
+                        const snapshot = JSON.parse(content);
                         univerAPI.createUniverSheet(snapshot);
                     } catch (error) {
                         console.error('Failed to parse Univer snapshot:', error);
@@ -555,31 +559,7 @@ export const Spreadsheet: React.FC<SpreadsheetProps> = ({
                     (async () => {
                         try {
                             const workbook = new ExcelJS.Workbook();
-
-                            // Convert content to ArrayBuffer
-                            let arrayBuffer: ArrayBuffer;
-                            if (initialContent.startsWith('data:')) {
-                                // Extract base64 data from data URL
-                                const base64Data = initialContent.split(',')[1];
-                                if (base64Data) {
-                                    const binaryString = atob(base64Data);
-                                    const bytes = new Uint8Array(binaryString.length);
-                                    for (let i = 0; i < binaryString.length; i++) {
-                                        bytes[i] = binaryString.charCodeAt(i);
-                                    }
-                                    arrayBuffer = bytes.buffer;
-                                } else {
-                                    throw new Error('Invalid data URL format');
-                                }
-                            } else {
-                                // Assume it's raw base64
-                                const binaryString = atob(initialContent);
-                                const bytes = new Uint8Array(binaryString.length);
-                                for (let i = 0; i < binaryString.length; i++) {
-                                    bytes[i] = binaryString.charCodeAt(i);
-                                }
-                                arrayBuffer = bytes.buffer;
-                            }
+                            const arrayBuffer = await loadExcelBuffer(content, initialFileId);
 
                             await workbook.xlsx.load(arrayBuffer);
 
@@ -610,7 +590,7 @@ export const Spreadsheet: React.FC<SpreadsheetProps> = ({
             univerAPI?.dispose();
             univerRef.current = null;
         };
-    }, [initialContent, initialFileName]);
+    }, [initialContent, initialFileId, initialFileName]);
 
     return (
         <AppContainer>
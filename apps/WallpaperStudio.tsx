@@ -12,7 +12,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { useWallpaper } from '../context';
 import { Slider } from '../components/ui';
-import { usePhoneMode } from '../hooks';
+import { usePermission, usePhoneMode } from '../hooks';
 import type { WallpaperManifest, WallpaperSettings } from '../types/wallpaper';
 
 /**
@@ -146,6 +146,7 @@ const ALL_TAGS = Array.from(new Set(BUILT_IN_WALLPAPERS.flatMap(w => w.tags ?? [
 
 export const WallpaperStudio: React.FC = () => {
     const { setWallpaper, activeWallpaper, settings: wallpaperSettings, updateSettings } = useWallpaper();
+    const microphone = usePermission('wallpaperstudio', 'microphone');
     const isPhone = usePhoneMode();
     const [selectedTag, setSelectedTag] = useState<string | null>(null);
     const [selectedWallpaper, setSelectedWallpaper] = useState<WallpaperManifest | null>(null);
@@ -160,6 +161,12 @@ export const WallpaperStudio: React.FC = () => {
         [updateSettings]
     );
 
+    const toggleAudioReactive = useCallback(async () => {
+        const enable = !wallpaperSettings.audioReactive;
+        if (enable && !(await microphone.request())) return;
+        updateSetting('audioReactive', enable);
+    }, [wallpaperSettings.audioReactive, microphone, updateSetting]);
+
     // Filter wallpapers by tag
     const filteredWallpapers = useMemo(() => {
         if (!selectedTag) return BUILT_IN_WALLPAPERS;
@@ -346,10 +353,15 @@ export const WallpaperStudio: React.FC = () => {
                                             Audio Reactive
                                         </label>
                                         <p className="text-xs text-white/40">Wallpaper responds to microphone input</p>
+                                        {microphone.state === 'denied' && (
+                                            <p className="text-xs text-yellow-400">
+                                                Microphone access is blocked. Allow it in Settings &gt; Apps.
+                                            </p>
+                                        )}
                                     </div>
                                     <button
                                         type="button"
-                                        onClick={() => updateSetting('audioReactive', !wallpaperSettings.audioReactive)}
+                                        onClick={() => void toggleAudioReactive()}
                                         className={`w-12 h-6 rounded-full transition-colors ${
                                             wallpaperSettings.audioReactive ? 'bg-primary' : 'bg-white/20'
                                         }`}
@@ -8,7 +8,12 @@
  * - WASM-4 runtime for running .wasm games
  * - Import custom cartridges
  * - Save/load game state with multiple slots (F098)
- * - Keyboard and gamepad support
+ * - Persistent 1024-byte cartridge disk, viewable in game details
+ * - Debugger with trace console, memory viewer, frame stepping and framebuffer inspector
+ * - Rewind, and input replays recorded to and played back from the file system
+ * - Local multiplayer for four players with rebindable keys, controllers (Gamepad API)
+ *   and extra on-screen pads on touch screens
+ * - Sound through the WASM-4 APU, with mute
  * - Fullscreen mode with integer scaling
  * - Panic button for hung games
  */
@@ -26,11 +31,21 @@ import {
     BUTTON_DOWN,
     BUTTON_LEFT,
     BUTTON_RIGHT,
+    REWIND_BUTTON,
 } from './Wasm4Runtime';
 import type { Wasm4State } from './Wasm4Runtime';
 import { useConfirmDialog, ConfirmDialog } from '../../components/ui/ConfirmDialog';
 import { useTranslation } from '../../hooks/useTranslation';
+import { useFilePicker, usePersistedState, usePhoneMode, useTouchDevice } from '../../hooks';
+import { FilePickerModal } from '../../components';
 import { getViewportSize } from '../../utils';
+import { joinPath, readFileBlobById, vfs } from '../../utils/vfs';
+import { loadArcadeDisk, saveArcadeDisk, clearArcadeDisk } from '../../utils/arcadeDisks';
+import { GameDetails } from './GameDetails';
+import { DebugPanel } from './DebugPanel';
+import { ControlsEditor, DEFAULT_CONTROLS, keyLabel } from './ControlsEditor';
+import type { ArcadeControls } from './ControlsEditor';
+import { decodeReplay, encodeReplay, REPLAY_EXTENSION } from './Wasm4Replay';
 
 /**
  * View modes for the arcade app
@@ -47,6 +62,16 @@ const DEMO_CART_ID = '__demo_cart__';
  */
 const SAVE_SLOT_COUNT = 3;
 
+/**
+ * Trace lines kept in the debugger console
+ */
+const TRACE_LIMIT = 200;
+
+/**
+ * Where recorded replays are saved
+ */
+const REPLAYS_FOLDER = '/Documents/Arcade Replays';
+
 /**
  * Save slot info for UI display
  */
@@ -62,9 +87,10 @@ interface SaveSlotInfo {
 const GameCard: React.FC<{
     game: ArcadeGameRecord;
     onPlay: () => void;
+    onDetails: () => void;
     onDelete: () => void;
     canDelete: boolean;
-}> = ({ game, onPlay, onDelete, canDelete }) => {
+}> = ({ game, onPlay, onDetails, onDelete, canDelete }) => {
     // Generate a color based on game title for visual variety (fallback when no icon)
     const { bgColor, iconColor } = useMemo(() => {
         const hash = game.title.split('').reduce((acc, char) => char.charCodeAt(0) + acc, 0);
@@ -128,6 +154,17 @@ const GameCard: React.FC<{
                 )}
             </div>
 
+            {/* Details Button */}
+            <button
+                onClick={e => {
+                    e.stopPropagation();
+                    onDetails();
+                }}
+                className="absolute top-2 left-2 p-1 bg-gray-700 rounded opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+                <span className="material-symbols-outlined text-sm">info</span>
+            </button>
+
             {/* Delete Button */}
             {canDelete && (
                 <button
@@ -144,10 +181,25 @@ const GameCard: React.FC<{
     );
 };
 
+/**
+ * Validate WASM magic bytes (\0asm)
+ */
+const isWasmBuffer = (buffer: ArrayBuffer): boolean => {
+    const magic = new Uint8Array(buffer.slice(0, 4));
+    return magic[0] === 0x00 && magic[1] === 0x61 && magic[2] === 0x73 && magic[3] === 0x6d;
+};
+
+interface ArcadeProps {
+    /** VFS file ID of a .wasm cartridge to open directly */
+    initialFileId?: string;
+    /** File name of the cartridge, used as the game title */
+    initialFileName?: string;
+}
+
 /**
  * Arcade App Component
  */
-export const Arcade: React.FC = () => {
+export const Arcade: React.FC<ArcadeProps> = ({ initialFileId, initialFileName }) => {
     const { t } = useTranslation('arcade');
     const db = useDb();
     const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -165,6 +217,26 @@ export const Arcade: React.FC = () => {
     const [isSaving, setIsSaving] = useState(false);
     const [isLoadingCartridge, setIsLoadingCartridge] = useState(false);
     const [loadError, setLoadError] = useState<string | null>(null);
+    const [isAudioReady, setIsAudioReady] = useState(false);
+    const [isMuted, setIsMuted] = useState(false);
+    const [detailsGame, setDetailsGame] = useState<ArcadeGameRecord | null>(null);
+    const [showDebug, setShowDebug] = useState(false);
+    const [traces, setTraces] = useState<string[]>([]);
+    const [showControls, setShowControls] = useState(false);
+    const [controllers, setControllers] = useState<string[]>([]);
+    const { value: controls, setValue: setControls } = usePersistedState<ArcadeControls>(
+        'arcade.controls',
+        DEFAULT_CONTROLS
+    );
+    const isPhone = usePhoneMode();
+    const isTouchDevice = useTouchDevice();
+    const filePicker = useFilePicker();
+    // Translation key and values of the last replay outcome
+    const [replayStatus, setReplayStatus] = useState<{ key: string; path?: string } | null>(null);
+    // Read when a new runtime starts, so mute carries over between games
+    const isMutedRef = useRef(false);
+    // The game whose disk the running cartridge writes to
+    const diskGameIdRef = useRef<string | null>(null);
 
     const { confirm, dialogProps } = useConfirmDialog();
 
@@ -214,7 +286,19 @@ export const Arcade: React.FC = () => {
                 onError: error => {
                     console.error('[Arcade] Runtime error:', error);
                 },
+                onAudioReady: () => setIsAudioReady(true),
+                onTrace: message => setTraces(prev => [...prev.slice(1 - TRACE_LIMIT), message]),
+                onControllersChange: setControllers,
+                onReplayEnd: matched => setReplayStatus({ key: matched ? 'replayMatched' : 'replayDiverged' }),
+                onDiskWrite: disk => {
+                    const gameId = diskGameIdRef.current;
+                    if (!db || !gameId) return;
+                    saveArcadeDisk(db, gameId, disk).catch(error => {
+                        console.error('[Arcade] Failed to save disk:', error);
+                    });
+                },
             });
+            runtime.setMuted(isMutedRef.current);
             runtimeRef.current = runtime;
 
             // Auto-focus canvas for keyboard input
@@ -227,7 +311,13 @@ export const Arcade: React.FC = () => {
                 runtimeRef.current = null;
             }
         };
-    }, [viewMode]);
+    }, [viewMode, db]);
+
+    // Apply the player's key bindings to the runtime
+    useEffect(() => {
+        runtimeRef.current?.setKeyBindings(controls.keyBindings);
+    }, [controls.keyBindings, viewMode]);
+    const rewindKey = controls.keyBindings.flatMap(bindings => bindings[REWIND_BUTTON] ?? [])[0];
 
     // Handle fullscreen changes
     useEffect(() => {
@@ -260,6 +350,7 @@ export const Arcade: React.FC = () => {
             setViewMode('player');
             setLoadError(null);
             setIsLoadingCartridge(true);
+            setTraces([]);
 
             // Update last played timestamp
             if (db && game.id !== DEMO_CART_ID) {
@@ -279,7 +370,9 @@ export const Arcade: React.FC = () => {
                 if (runtimeRef.current && game.cartridgeBlob) {
                     try {
                         const arrayBuffer = await game.cartridgeBlob.arrayBuffer();
-                        await runtimeRef.current.loadCartridge(arrayBuffer);
+                        const disk = db ? await loadArcadeDisk(db, game.id) : new Uint8Array(0);
+                        diskGameIdRef.current = game.id;
+                        await runtimeRef.current.loadCartridge(arrayBuffer, disk);
 
                         // Capture screenshot for icon after a short delay (let game render a few frames)
                         if (!game.iconBlob && db) {
@@ -353,6 +446,81 @@ export const Arcade: React.FC = () => {
         }
     }, [runtimeState]);
 
+    /**
+     * Run one frame of the paused game
+     */
+    const stepFrame = useCallback(() => {
+        runtimeRef.current?.stepFrame();
+    }, []);
+
+    /**
+     * Start recording input, or stop and save the replay to the file system
+     */
+    const toggleRecording = useCallback(async () => {
+        const runtime = runtimeRef.current;
+        if (!runtime || !selectedGame) return;
+
+        if (!runtime.getState().isRecording) {
+            setReplayStatus(null);
+            runtime.startRecording();
+            return;
+        }
+
+        const replay = runtime.stopRecording();
+        if (!replay) return;
+        try {
+            const title = selectedGame.title.replace(/[\\/:*?"<>|]/g, '_').trim() || 'replay';
+            const stamp = new Date().toISOString().slice(0, 19).replace('T', ' ').replace(/:/g, '-');
+            const path = await vfs.getAvailablePath(joinPath(REPLAYS_FOLDER, `${title} ${stamp}${REPLAY_EXTENSION}`));
+            await vfs.writeFile(path, new Blob([encodeReplay(replay)]), {
+                recursive: true,
+                mimeType: 'application/octet-stream',
+            });
+            setReplayStatus({ key: 'replaySaved', path });
+        } catch (error) {
+            console.error('[Arcade] Failed to save replay:', error);
+            setReplayStatus({ key: 'replaySaveFailed' });
+        }
+    }, [selectedGame]);
+
+    /**
+     * Pick a replay file and play it, or stop the one playing
+     */
+    const toggleReplay = useCallback(async () => {
+        if (!runtimeRef.current) return;
+
+        if (runtimeRef.current.getState().isReplaying) {
+            runtimeRef.current.stopReplay();
+            return;
+        }
+
+        const file = await filePicker.open({ title: t('playReplay'), extensions: [REPLAY_EXTENSION] });
+        if (!file || !runtimeRef.current) return;
+        try {
+            const blob = await readFileBlobById(file.id);
+            const replay = decodeReplay(new Uint8Array(await blob.arrayBuffer()));
+            if (replay && !runtimeRef.current.isReplayFor(replay)) {
+                setReplayStatus({ key: 'replayOtherGame' });
+                return;
+            }
+            const isPlaying = replay ? runtimeRef.current.playReplay(replay) : false;
+            setReplayStatus(isPlaying ? null : { key: 'replayInvalid' });
+        } catch (error) {
+            console.error('[Arcade] Failed to open replay:', error);
+            setReplayStatus({ key: 'replayInvalid' });
+        }
+    }, [filePicker, t]);
+
+    /**
+     * Mute/unmute the game's sound
+     */
+    const toggleMute = useCallback(() => {
+        const muted = !isMutedRef.current;
+        isMutedRef.current = muted;
+        runtimeRef.current?.setMuted(muted);
+        setIsMuted(muted);
+    }, []);
+
     /**
      * Reset the game
      */
@@ -502,10 +670,8 @@ export const Arcade: React.FC = () => {
 
             setIsImporting(true);
             try {
-                // Validate WASM magic bytes
                 const buffer = await file.arrayBuffer();
-                const magic = new Uint8Array(buffer.slice(0, 4));
-                if (magic[0] !== 0x00 || magic[1] !== 0x61 || magic[2] !== 0x73 || magic[3] !== 0x6d) {
+                if (!isWasmBuffer(buffer)) {
                     throw new Error('Invalid WASM file');
                 }
 
@@ -537,6 +703,55 @@ export const Arcade: React.FC = () => {
         input.click();
     }, [db, t]);
 
+    /**
+     * Open a cartridge stored in the virtual file system.
+     * The game is kept in the library under an ID derived from the file, so reopening does not duplicate it.
+     */
+    useEffect(() => {
+        if (!db || !initialFileId) return;
+        let cancelled = false;
+
+        const openFromFileSystem = async () => {
+            try {
+                const buffer = await (await readFileBlobById(initialFileId)).arrayBuffer();
+                if (!isWasmBuffer(buffer)) {
+                    throw new Error('Invalid WASM file');
+                }
+
+                const id = `vfs_${initialFileId}`;
+                const existing = await db.$arcadeGames.get(id);
+                const now = Date.now();
+                const gameRecord: ArcadeGameRecord = {
+                    ...existing,
+                    id,
+                    title: existing?.title ?? (initialFileName ?? 'Cartridge').replace(/\.wasm$/i, ''),
+                    type: 'wasm4',
+                    cartridgeBlob: new Blob([buffer], { type: 'application/wasm' }),
+                    tags: existing?.tags ?? ['imported'],
+                    createdAt: existing?.createdAt ?? now,
+                    updatedAt: now,
+                };
+
+                await db.$arcadeGames.put(gameRecord);
+                if (!cancelled) {
+                    void playGame(gameRecord);
+                }
+            } catch (error) {
+                console.error('[Arcade] Failed to open cartridge from file system:', error);
+                if (!cancelled) {
+                    setLoadError(error instanceof Error ? error.message : 'Unknown error');
+                }
+            }
+        };
+
+        void openFromFileSystem();
+        return () => {
+            cancelled = true;
+        };
+        // Only open the initial file once per mount
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [db, initialFileId]);
+
     /**
      * Delete a game from the library
      */
@@ -555,6 +770,7 @@ export const Arcade: React.FC = () => {
 
             try {
                 await db.$arcadeGames.delete(gameId);
+                await clearArcadeDisk(db, gameId);
             } catch (error) {
                 console.error('[Arcade] Delete failed:', error);
             }
@@ -568,13 +784,14 @@ export const Arcade: React.FC = () => {
     const VirtualButton: React.FC<{
         button: number;
         label: string;
+        player?: number;
         className?: string;
-    }> = ({ button, label, className = '' }) => (
+    }> = ({ button, label, player = 0, className = '' }) => (
         <button
             className={`w-12 h-12 bg-gray-700 hover:bg-gray-600 active:bg-gray-500 rounded-lg flex items-center justify-center text-white font-bold select-none ${className}`}
-            onPointerDown={() => runtimeRef.current?.setGamepadButton(0, button, true)}
-            onPointerUp={() => runtimeRef.current?.setGamepadButton(0, button, false)}
-            onPointerLeave={() => runtimeRef.current?.setGamepadButton(0, button, false)}
+            onPointerDown={() => runtimeRef.current?.setGamepadButton(player, button, true)}
+            onPointerUp={() => runtimeRef.current?.setGamepadButton(player, button, false)}
+            onPointerLeave={() => runtimeRef.current?.setGamepadButton(player, button, false)}
         >
             {label}
         </button>
@@ -615,6 +832,7 @@ export const Arcade: React.FC = () => {
                                     key={game.id}
                                     game={game}
                                     onPlay={() => playGame(game)}
+                                    onDetails={() => setDetailsGame(game)}
                                     onDelete={() => deleteGame(game.id)}
                                     canDelete={game.id !== DEMO_CART_ID}
                                 />
@@ -637,6 +855,19 @@ export const Arcade: React.FC = () => {
                         </a>
                     </p>
                 </div>
+
+                {detailsGame && (
+                    <GameDetails
+                        game={detailsGame}
+                        onPlay={() => {
+                            setDetailsGame(null);
+                            void playGame(detailsGame);
+                        }}
+                        onClose={() => setDetailsGame(null)}
+                    />
+                )}
+
+                <ConfirmDialog {...dialogProps} />
             </div>
         );
     }
@@ -645,7 +876,7 @@ export const Arcade: React.FC = () => {
     return (
         <div
             ref={containerRef}
-            className={`h-full bg-black flex flex-col items-center justify-center ${isFullscreen ? 'p-0' : 'p-4'}`}
+            className={`relative h-full bg-black flex flex-col items-center justify-center ${isFullscreen ? 'p-0' : 'p-4'}`}
         >
             {/* Controls Bar */}
             {!isFullscreen && (
@@ -679,6 +910,19 @@ export const Arcade: React.FC = () => {
                             <span className="material-symbols-outlined text-sm">refresh</span>
                         </button>
 
+                        {isAudioReady && (
+                            <button
+                                onClick={toggleMute}
+                                className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white"
+                                title={isMuted ? t('unmute') : t('mute')}
+                                aria-pressed={isMuted}
+                            >
+                                <span className="material-symbols-outlined text-sm">
+                                    {isMuted ? 'volume_off' : 'volume_up'}
+                                </span>
+                            </button>
+                        )}
+
                         <button
                             onClick={toggleFullscreen}
                             className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white"
@@ -699,16 +943,116 @@ export const Arcade: React.FC = () => {
                         <div className="h-6 border-l border-gray-600 mx-1" />
                         <button
                             onClick={() => setShowSaveModal(true)}
-                            className="p-2 bg-blue-700 hover:bg-blue-600 rounded text-white"
+                            className="p-2 bg-blue-700 hover:bg-blue-600 rounded text-white disabled:opacity-50"
                             title={t('saveGame')}
-                            disabled={isSaving}
+                            disabled={isSaving || runtimeState?.isRecording || runtimeState?.isReplaying}
                         >
                             <span className="material-symbols-outlined text-sm">save</span>
                         </button>
+
+                        {/* Rewind and Replays */}
+                        <button
+                            onPointerDown={() => runtimeRef.current?.setRewinding(true)}
+                            onPointerUp={() => runtimeRef.current?.setRewinding(false)}
+                            onPointerLeave={() => runtimeRef.current?.setRewinding(false)}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                            title={rewindKey ? t('rewindWithKey', { key: keyLabel(rewindKey) }) : t('rewind')}
+                            disabled={runtimeState?.isRecording || runtimeState?.isReplaying}
+                        >
+                            <span className="material-symbols-outlined text-sm">fast_rewind</span>
+                        </button>
+                        <button
+                            onClick={() => void toggleRecording()}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                            title={runtimeState?.isRecording ? t('stopRecording') : t('recordReplay')}
+                            aria-pressed={runtimeState?.isRecording ?? false}
+                            disabled={runtimeState?.isReplaying}
+                        >
+                            <span
+                                className={`material-symbols-outlined text-sm ${runtimeState?.isRecording ? 'text-red-500' : ''}`}
+                            >
+                                {runtimeState?.isRecording ? 'stop_circle' : 'fiber_manual_record'}
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => void toggleReplay()}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                            title={runtimeState?.isReplaying ? t('stopReplay') : t('playReplay')}
+                            disabled={runtimeState?.isRecording}
+                        >
+                            <span className="material-symbols-outlined text-sm">
+                                {runtimeState?.isReplaying ? 'stop' : 'movie'}
+                            </span>
+                        </button>
+                        <button
+                            onClick={() => setShowControls(true)}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white"
+                            title={t('controls')}
+                        >
+                            <span className="material-symbols-outlined text-sm">stadia_controller</span>
+                        </button>
+                        <button
+                            onClick={() => setShowDebug(show => !show)}
+                            className="p-2 bg-gray-700 hover:bg-gray-600 rounded text-white"
+                            title={t('debugger')}
+                            aria-pressed={showDebug}
+                        >
+                            <span className="material-symbols-outlined text-sm">bug_report</span>
+                        </button>
                     </div>
                 </div>
             )}
 
+            {/* Replay Status */}
+            {replayStatus && !isFullscreen && (
+                <div className="mb-4 flex items-center gap-2 px-3 py-2 bg-gray-800 rounded text-sm text-gray-200">
+                    <span>{t(replayStatus.key, { path: replayStatus.path ?? '' })}</span>
+                    <button
+                        onClick={() => setReplayStatus(null)}
+                        className="p-0.5 hover:bg-gray-700 rounded"
+                        aria-label={t('common:actions.close')}
+                    >
+                        <span className="material-symbols-outlined text-sm">close</span>
+                    </button>
+                </div>
+            )}
+
+            {/* Replay File Picker */}
+            {filePicker.state.isOpen && (
+                <FilePickerModal
+                    state={filePicker.state}
+                    onNavigateTo={filePicker.navigateTo}
+                    onSelectFile={filePicker.selectFile}
+                    onSetFileName={filePicker.setFileName}
+                    onConfirm={filePicker.confirm}
+                    onCancel={filePicker.cancel}
+                />
+            )}
+
+            {/* Controls Editor */}
+            {showControls && (
+                <ControlsEditor
+                    controls={controls}
+                    controllers={controllers}
+                    onChange={setControls}
+                    onClose={() => setShowControls(false)}
+                />
+            )}
+
+            {/* Debugger */}
+            {showDebug && !isFullscreen && (
+                <DebugPanel
+                    runtime={runtimeRef.current}
+                    frameCount={runtimeState?.frameCount ?? 0}
+                    isPaused={runtimeState?.isPaused ?? false}
+                    traces={traces}
+                    onTogglePause={togglePause}
+                    onStep={stepFrame}
+                    onClearTraces={() => setTraces([])}
+                    onClose={() => setShowDebug(false)}
+                />
+            )}
+
             {/* Save/Load Modal (F098) */}
             {showSaveModal && (
                 <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
@@ -824,6 +1168,15 @@ export const Arcade: React.FC = () => {
                     </div>
                 )}
 
+                {/* Rewind/Recording/Replay Badge */}
+                {(runtimeState?.isRewinding || runtimeState?.isRecording || runtimeState?.isReplaying) && (
+                    <div className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/70 text-xs font-bold flex items-center gap-1">
+                        {runtimeState.isRewinding && <span className="text-yellow-300">◀◀ {t('rewinding')}</span>}
+                        {runtimeState.isRecording && <span className="text-red-500">● REC</span>}
+                        {runtimeState.isReplaying && <span className="text-green-400">▶ {t('replay')}</span>}
+                    </div>
+                )}
+
                 {/* Paused Overlay */}
                 {runtimeState?.isPaused && !isLoadingCartridge && (
                     <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
@@ -878,6 +1231,42 @@ export const Arcade: React.FC = () => {
                 </div>
             )}
 
+            {/* Virtual Gamepads for Players 2-4 (phone/touch mode) */}
+            {!isFullscreen && (isPhone || isTouchDevice) && controls.touchPlayers > 1 && (
+                <div className="mt-4 flex flex-wrap justify-center gap-6">
+                    {Array.from({ length: controls.touchPlayers - 1 }, (_, index) => index + 1).map(player => (
+                        <div key={player} className="flex items-center gap-2">
+                            <span className="text-gray-400 text-xs font-bold">P{player + 1}</span>
+                            <div className="grid grid-cols-3 gap-1">
+                                <div />
+                                <VirtualButton player={player} button={BUTTON_UP} label="▲" />
+                                <div />
+                                <VirtualButton player={player} button={BUTTON_LEFT} label="◀" />
+                                <div className="w-12 h-12" />
+                                <VirtualButton player={player} button={BUTTON_RIGHT} label="▶" />
+                                <div />
+                                <VirtualButton player={player} button={BUTTON_DOWN} label="▼" />
+                                <div />
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <VirtualButton
+                                    player={player}
+                                    button={BUTTON_1}
+                                    label="X"
+                                    className="bg-red-700 hover:bg-red-600"
+                                />
+                                <VirtualButton
+                                    player={player}
+                                    button={BUTTON_2}
+                                    label="Z"
+                                    className="bg-blue-700 hover:bg-blue-600"
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* FPS Counter */}
             <div className="absolute bottom-2 right-2 text-gray-500 text-xs">{runtimeState?.fps ?? 0} FPS</div>
 
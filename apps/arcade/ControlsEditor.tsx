@@ -0,0 +1,210 @@
+/**
+ * Arcade Controls Editor
+ *
+ * Rebinds the keyboard keys of each of the four WASM-4 players and their rewind key,
+ * shows which controllers are driving which player, and picks how many on-screen pads
+ * to show on touch screens. The result is persisted by the Arcade in the `arcade.controls`
+ * setting.
+ */
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from '../../hooks/useTranslation';
+import {
+    BUTTON_1,
+    BUTTON_2,
+    BUTTON_DOWN,
+    BUTTON_LEFT,
+    BUTTON_RIGHT,
+    BUTTON_UP,
+    DEFAULT_KEY_BINDINGS,
+    PLAYER_COUNT,
+    REWIND_BUTTON,
+} from './Wasm4Runtime';
+import type { KeyBindings } from './Wasm4Runtime';
+
+/**
+ * Arcade input settings
+ */
+export interface ArcadeControls {
+    keyBindings: KeyBindings[];
+    /** On-screen pads shown in phone/touch mode, one per player */
+    touchPlayers: number;
+}
+
+export const DEFAULT_CONTROLS: ArcadeControls = {
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    touchPlayers: 1,
+};
+
+const BUTTON_ROWS = [
+    { button: BUTTON_UP, labelKey: 'buttonUp' },
+    { button: BUTTON_DOWN, labelKey: 'buttonDown' },
+    { button: BUTTON_LEFT, labelKey: 'buttonLeft' },
+    { button: BUTTON_RIGHT, labelKey: 'buttonRight' },
+    { button: BUTTON_1, labelKey: 'buttonX' },
+    { button: BUTTON_2, labelKey: 'buttonZ' },
+    { button: REWIND_BUTTON, labelKey: 'buttonRewind' },
+] as const;
+
+/**
+ * Short label for a KeyboardEvent.code, e.g. "KeyX" -> "X", "ArrowUp" -> "↑"
+ */
+export function keyLabel(code: string): string {
+    const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+    return arrows[code] ?? code.replace(/^(Key|Digit)/, '');
+}
+
+/**
+ * Bind `code` to one player's button, taking it away from wherever it was bound before
+ */
+export function bindKey(bindings: KeyBindings[], player: number, button: number, code: string): KeyBindings[] {
+    return Array.from({ length: PLAYER_COUNT }, (_, index) => {
+        const playerBindings: KeyBindings = {};
+        for (const [key, codes] of Object.entries(bindings[index] ?? {})) {
+            playerBindings[Number(key)] = (codes ?? []).filter(bound => bound !== code);
+        }
+        if (index === player) {
+            playerBindings[button] = [...(playerBindings[button] ?? []), code];
+        }
+        return playerBindings;
+    });
+}
+
+interface ControlsEditorProps {
+    controls: ArcadeControls;
+    controllers: string[];
+    onChange: (controls: ArcadeControls) => void;
+    onClose: () => void;
+}
+
+export const ControlsEditor: React.FC<ControlsEditorProps> = ({ controls, controllers, onChange, onClose }) => {
+    const { t } = useTranslation('arcade');
+    const [player, setPlayer] = useState(0);
+    const [capturing, setCapturing] = useState<number | null>(null);
+
+    // Take the next key press as the binding, before the game or other shortcuts see it
+    useEffect(() => {
+        if (capturing === null) return undefined;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.code !== 'Escape') {
+                onChange({ ...controls, keyBindings: bindKey(controls.keyBindings, player, capturing, e.code) });
+            }
+            setCapturing(null);
+        };
+        window.addEventListener('keydown', handleKeyDown, { capture: true });
+        return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+    }, [capturing, controls, player, onChange]);
+
+    const unbindKey = (button: number, code: string) => {
+        const keyBindings = controls.keyBindings.map((playerBindings, index) =>
+            index === player
+                ? { ...playerBindings, [button]: (playerBindings[button] ?? []).filter(bound => bound !== code) }
+                : playerBindings
+        );
+        onChange({ ...controls, keyBindings });
+    };
+
+    const playerBindings = controls.keyBindings[player] ?? {};
+    const controller = controllers[player];
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-gray-800 rounded-lg p-6 max-w-lg w-full mx-4 text-white flex flex-col gap-4"
+                role="dialog"
+                aria-label={t('controls')}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold">{t('controls')}</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-700 rounded"
+                        aria-label={t('common:actions.close')}
+                    >
+                        <span className="material-symbols-outlined text-gray-400">close</span>
+                    </button>
+                </div>
+
+                {/* Player Tabs */}
+                <div className="flex gap-1" role="tablist">
+                    {Array.from({ length: PLAYER_COUNT }, (_, index) => (
+                        <button
+                            key={index}
+                            role="tab"
+                            aria-selected={player === index}
+                            onClick={() => {
+                                setPlayer(index);
+                                setCapturing(null);
+                            }}
+                            className={`flex-1 px-3 py-1 rounded text-sm ${player === index ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                        >
+                            {t('player', { player: index + 1 })}
+                        </button>
+                    ))}
+                </div>
+
+                <p className="text-sm text-gray-400 flex items-center gap-2">
+                    <span className="material-symbols-outlined text-sm">stadia_controller</span>
+                    {controller ? controller : t('noController')}
+                </p>
+
+                {/* Key Bindings */}
+                <div className="flex flex-col gap-2">
+                    {BUTTON_ROWS.map(({ button, labelKey }) => (
+                        <div key={button} className="flex items-center gap-2">
+                            <span className="w-16 text-sm text-gray-300">{t(labelKey)}</span>
+                            <div className="flex-1 flex flex-wrap gap-1">
+                                {(playerBindings[button] ?? []).map(code => (
+                                    <span
+                                        key={code}
+                                        className="flex items-center gap-1 bg-gray-700 rounded px-2 py-0.5 text-xs font-mono"
+                                    >
+                                        {keyLabel(code)}
+                                        <button
+                                            onClick={() => unbindKey(button, code)}
+                                            className="hover:text-red-400"
+                                            aria-label={t('removeKey', { key: keyLabel(code) })}
+                                        >
+                                            <span className="material-symbols-outlined text-xs">close</span>
+                                        </button>
+                                    </span>
+                                ))}
+                            </div>
+                            <button
+                                onClick={() => setCapturing(capturing === button ? null : button)}
+                                className={`px-2 py-1 rounded text-xs ${capturing === button ? 'bg-purple-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                            >
+                                {capturing === button ? t('pressKey') : t('addKey')}
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        {t('touchPlayers')}
+                        <select
+                            value={controls.touchPlayers}
+                            onChange={e => onChange({ ...controls, touchPlayers: Number(e.target.value) })}
+                            className="bg-gray-700 border border-gray-600 rounded px-2 py-1"
+                        >
+                            {Array.from({ length: PLAYER_COUNT }, (_, index) => (
+                                <option key={index} value={index + 1}>
+                                    {index + 1}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <button
+                        onClick={() => onChange({ ...controls, keyBindings: DEFAULT_KEY_BINDINGS })}
+                        className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded text-sm"
+                    >
+                        {t('resetControls')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
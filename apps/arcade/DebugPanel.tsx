@@ -0,0 +1,272 @@
+/**
+ * Arcade Debug Panel
+ *
+ * Developer tools for a running cartridge: the trace console, a live hex view of
+ * WASM-4 memory regions, frame stepping, and a palette/framebuffer inspector.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '../../hooks/useTranslation';
+import { MEMORY_REGIONS, SCREEN_HEIGHT, SCREEN_WIDTH } from './Wasm4Runtime';
+import type { MemoryRegion, Wasm4Runtime } from './Wasm4Runtime';
+
+/**
+ * How often memory is read again while the game runs (ms)
+ */
+const REFRESH_INTERVAL = 250;
+
+type RegionName = MemoryRegion['name'];
+
+interface MemorySnapshot {
+    regions: Partial<Record<RegionName, Uint8Array>>;
+    palette: number[];
+}
+
+interface DebugPanelProps {
+    runtime: Wasm4Runtime | null;
+    frameCount: number;
+    isPaused: boolean;
+    traces: string[];
+    onTogglePause: () => void;
+    onStep: () => void;
+    onClearTraces: () => void;
+    onClose: () => void;
+}
+
+const toHexColor = (color: number) => `#${(color & 0xffffff).toString(16).padStart(6, '0')}`;
+
+/**
+ * Rows of 16 bytes as offset, hex and printable ASCII, for showing a disk or a range of
+ * cartridge memory starting at `baseAddress`
+ */
+export function formatHexDump(data: Uint8Array, baseAddress = 0): string[] {
+    const rows: string[] = [];
+    for (let offset = 0; offset < data.length; offset += 16) {
+        const bytes = Array.from(data.subarray(offset, offset + 16));
+        const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+        const text = bytes.map(byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+        rows.push(`${(baseAddress + offset).toString(16).padStart(4, '0')}  ${hex.padEnd(47)}  ${text}`);
+    }
+    return rows;
+}
+
+/**
+ * Palette index (0-3) of a framebuffer pixel; each byte packs 4 pixels, lowest bits first
+ */
+const pixelAt = (framebuffer: Uint8Array, x: number, y: number) => {
+    const i = y * SCREEN_WIDTH + x;
+    return ((framebuffer[i >> 2] ?? 0) >> ((i & 3) * 2)) & 0x3;
+};
+
+const readSnapshot = (runtime: Wasm4Runtime): MemorySnapshot => {
+    const regions: MemorySnapshot['regions'] = {};
+    for (const region of MEMORY_REGIONS) {
+        const bytes = runtime.readMemory(region.address, region.size);
+        if (bytes) regions[region.name] = bytes;
+    }
+    return { regions, palette: runtime.getPalette() };
+};
+
+export const DebugPanel: React.FC<DebugPanelProps> = ({
+    runtime,
+    frameCount,
+    isPaused,
+    traces,
+    onTogglePause,
+    onStep,
+    onClearTraces,
+    onClose,
+}) => {
+    const { t } = useTranslation('arcade');
+    const [regionName, setRegionName] = useState<RegionName>('PALETTE');
+    const [snapshot, setSnapshot] = useState<MemorySnapshot | null>(null);
+    const [highlight, setHighlight] = useState<number | null>(null);
+    const [hoverPixel, setHoverPixel] = useState<{ x: number; y: number } | null>(null);
+    const traceRef = useRef<HTMLPreElement>(null);
+    const framebufferRef = useRef<HTMLCanvasElement>(null);
+
+    // Read memory on an interval while running, and after every step while paused
+    const pausedFrame = isPaused ? frameCount : null;
+    useEffect(() => {
+        if (!runtime) return undefined;
+        const update = () => setSnapshot(readSnapshot(runtime));
+        update();
+        if (isPaused) return undefined;
+        const id = setInterval(update, REFRESH_INTERVAL);
+        return () => clearInterval(id);
+    }, [runtime, isPaused, pausedFrame]);
+
+    // Keep the newest trace line in view
+    useEffect(() => {
+        traceRef.current?.scrollTo({ top: traceRef.current.scrollHeight });
+    }, [traces]);
+
+    // Draw the framebuffer, dimming every color but the highlighted one
+    useEffect(() => {
+        const framebuffer = snapshot?.regions.FRAMEBUFFER;
+        const ctx = framebufferRef.current?.getContext('2d');
+        if (!snapshot || !framebuffer || !ctx) return;
+
+        const image = ctx.createImageData(SCREEN_WIDTH, SCREEN_HEIGHT);
+        for (let y = 0; y < SCREEN_HEIGHT; y++) {
+            for (let x = 0; x < SCREEN_WIDTH; x++) {
+                const index = pixelAt(framebuffer, x, y);
+                const color = snapshot.palette[index] ?? 0;
+                const j = (y * SCREEN_WIDTH + x) * 4;
+                image.data[j] = (color >> 16) & 0xff;
+                image.data[j + 1] = (color >> 8) & 0xff;
+                image.data[j + 2] = color & 0xff;
+                image.data[j + 3] = highlight === null || highlight === index ? 255 : 40;
+            }
+        }
+        ctx.putImageData(image, 0, 0);
+    }, [snapshot, highlight]);
+
+    const region = MEMORY_REGIONS.find(r => r.name === regionName) ?? MEMORY_REGIONS[0];
+    const regionBytes = snapshot?.regions[regionName];
+    const drawColorBytes = snapshot?.regions.DRAW_COLORS;
+    const drawColors = drawColorBytes ? (drawColorBytes[0] ?? 0) | ((drawColorBytes[1] ?? 0) << 8) : 0;
+    const hoverIndex =
+        hoverPixel && snapshot?.regions.FRAMEBUFFER
+            ? pixelAt(snapshot.regions.FRAMEBUFFER, hoverPixel.x, hoverPixel.y)
+            : null;
+
+    return (
+        <div
+            className="absolute top-0 right-0 h-full w-[26rem] bg-gray-900 border-l border-gray-700 text-white text-sm flex flex-col gap-4 p-4 overflow-y-auto z-40"
+            aria-label={t('debugger')}
+        >
+            <div className="flex items-center justify-between">
+                <h2 className="font-bold flex items-center gap-2">
+                    <span className="material-symbols-outlined text-sm">bug_report</span>
+                    {t('debugger')}
+                </h2>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-gray-700 rounded"
+                    aria-label={t('common:actions.close')}
+                >
+                    <span className="material-symbols-outlined text-sm">close</span>
+                </button>
+            </div>
+
+            {/* Frame Stepping */}
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={onTogglePause}
+                    className="p-2 bg-gray-700 hover:bg-gray-600 rounded"
+                    title={isPaused ? t('resume') : t('pause')}
+                >
+                    <span className="material-symbols-outlined text-sm">{isPaused ? 'play_arrow' : 'pause'}</span>
+                </button>
+                <button
+                    onClick={onStep}
+                    disabled={!isPaused}
+                    className="p-2 bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50"
+                    title={t('stepFrame')}
+                >
+                    <span className="material-symbols-outlined text-sm">skip_next</span>
+                </button>
+                <span className="text-gray-400 text-xs">{t('frame', { frame: frameCount })}</span>
+            </div>
+
+            {/* Trace Console */}
+            <section className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-medium">{t('traceConsole')}</h3>
+                    <button
+                        onClick={onClearTraces}
+                        disabled={traces.length === 0}
+                        className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                    >
+                        {t('clearTrace')}
+                    </button>
+                </div>
+                <pre
+                    ref={traceRef}
+                    className="text-[11px] leading-4 font-mono text-green-300 bg-black/40 rounded p-2 h-32 overflow-auto whitespace-pre-wrap"
+                    data-testid="arcade-trace"
+                >
+                    {traces.length > 0 ? traces.join('\n') : <span className="text-gray-500">{t('noTrace')}</span>}
+                </pre>
+            </section>
+
+            {/* Memory Viewer */}
+            <section className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-medium">{t('memory')}</h3>
+                    <select
+                        value={regionName}
+                        onChange={e => setRegionName(e.target.value as RegionName)}
+                        className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-xs"
+                    >
+                        {MEMORY_REGIONS.map(r => (
+                            <option key={r.name} value={r.name}>
+                                {r.name} (0x{r.address.toString(16)})
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <pre
+                    className="text-[11px] leading-4 font-mono text-gray-300 bg-black/40 rounded p-2 max-h-48 overflow-auto"
+                    data-testid="arcade-memory"
+                >
+                    {regionBytes ? formatHexDump(regionBytes, region.address).join('\n') : t('noCartridge')}
+                </pre>
+            </section>
+
+            {/* Palette Inspector */}
+            <section className="flex flex-col gap-2">
+                <h3 className="font-medium">{t('palette')}</h3>
+                <div className="flex gap-2">
+                    {(snapshot?.palette ?? []).map((color, index) => (
+                        <button
+                            key={index}
+                            onClick={() => setHighlight(highlight === index ? null : index)}
+                            className={`flex-1 rounded p-1 text-[11px] font-mono ${highlight === index ? 'ring-2 ring-purple-500' : ''}`}
+                            title={t('highlightColor')}
+                            aria-pressed={highlight === index}
+                        >
+                            <span className="block h-6 rounded mb-1" style={{ backgroundColor: toHexColor(color) }} />
+                            {index}: {toHexColor(color)}
+                        </button>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-400 font-mono">
+                    {t('drawColors')}:{' '}
+                    {[0, 1, 2, 3]
+                        .map(slot => {
+                            const value = (drawColors >> (slot * 4)) & 0xf;
+                            return `${slot + 1}=${value === 0 ? t('transparent') : value}`;
+                        })
+                        .join('  ')}
+                </p>
+            </section>
+
+            {/* Framebuffer Inspector */}
+            <section className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <h3 className="font-medium">{t('framebuffer')}</h3>
+                    <span className="text-xs text-gray-400 font-mono">
+                        {hoverPixel && hoverIndex !== null
+                            ? t('pixelInfo', { x: hoverPixel.x, y: hoverPixel.y, index: hoverIndex })
+                            : ''}
+                    </span>
+                </div>
+                <canvas
+                    ref={framebufferRef}
+                    width={SCREEN_WIDTH}
+                    height={SCREEN_HEIGHT}
+                    className="w-80 h-80 self-center bg-black"
+                    style={{ imageRendering: 'pixelated' }}
+                    onMouseMove={e => {
+                        const rect = e.currentTarget.getBoundingClientRect();
+                        const x = Math.floor(((e.clientX - rect.left) / rect.width) * SCREEN_WIDTH);
+                        const y = Math.floor(((e.clientY - rect.top) / rect.height) * SCREEN_HEIGHT);
+                        setHoverPixel(x >= 0 && x < SCREEN_WIDTH && y >= 0 && y < SCREEN_HEIGHT ? { x, y } : null);
+                    }}
+                    onMouseLeave={() => setHoverPixel(null)}
+                />
+            </section>
+        </div>
+    );
+};
@@ -0,0 +1,124 @@
+/**
+ * Game Details Panel
+ *
+ * Shows a library game's save slots and cartridge disk, and erases the disk.
+ */
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useDb } from '../../context/DbContext';
+import type { ArcadeGameRecord } from '../../utils/storage/db';
+import { useConfirmDialog, ConfirmDialog } from '../../components/ui/ConfirmDialog';
+import { useTranslation } from '../../hooks/useTranslation';
+import { clearArcadeDisk } from '../../utils/arcadeDisks';
+import { formatHexDump } from './DebugPanel';
+import { DISK_SIZE } from './Wasm4Runtime';
+
+interface GameDetailsProps {
+    game: ArcadeGameRecord;
+    onPlay: () => void;
+    onClose: () => void;
+}
+
+export const GameDetails: React.FC<GameDetailsProps> = ({ game, onPlay, onClose }) => {
+    const { t } = useTranslation('arcade');
+    const db = useDb();
+    const { confirm, dialogProps } = useConfirmDialog();
+
+    const disk = useLiveQuery(() => db.$arcadeDisks.get(game.id), [db, game.id]);
+    const saveCount = useLiveQuery(() => db.$arcadeSaves.where('gameId').equals(game.id).count(), [db, game.id]);
+    const diskData = disk ? new Uint8Array(disk.data) : new Uint8Array(0);
+
+    const clearDisk = async () => {
+        const confirmed = await confirm({
+            title: t('clearDisk'),
+            message: t('clearDiskConfirm', { title: game.title }),
+            variant: 'danger',
+            confirmLabel: t('clearDisk'),
+            cancelLabel: t('common:actions.cancel'),
+        });
+        if (!confirmed) return;
+
+        try {
+            await clearArcadeDisk(db, game.id);
+        } catch (error) {
+            console.error('[Arcade] Failed to clear disk:', error);
+        }
+    };
+
+    return (
+        <>
+            <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50" onClick={onClose}>
+                <div
+                    className="bg-gray-800 rounded-lg p-6 max-w-xl w-full mx-4 max-h-[90%] flex flex-col gap-4"
+                    role="dialog"
+                    aria-label={t('gameDetails')}
+                    onClick={e => e.stopPropagation()}
+                >
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-xl font-bold text-white truncate">{game.title}</h2>
+                        <button
+                            onClick={onClose}
+                            className="p-1 hover:bg-gray-700 rounded text-white"
+                            aria-label={t('common:actions.close')}
+                        >
+                            <span className="material-symbols-outlined">close</span>
+                        </button>
+                    </div>
+
+                    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                        <dt className="text-gray-400">{t('added')}</dt>
+                        <dd className="text-white">{new Date(game.createdAt).toLocaleDateString()}</dd>
+                        <dt className="text-gray-400">{t('lastPlayed')}</dt>
+                        <dd className="text-white">
+                            {game.lastPlayedAt ? new Date(game.lastPlayedAt).toLocaleString() : t('never')}
+                        </dd>
+                        <dt className="text-gray-400">{t('saveStates')}</dt>
+                        <dd className="text-white">{saveCount ?? 0}</dd>
+                    </dl>
+
+                    <div className="flex flex-col gap-2 min-h-0">
+                        <div className="flex items-center justify-between">
+                            <h3 className="font-medium text-white flex items-center gap-2">
+                                <span className="material-symbols-outlined text-sm">save</span>
+                                {t('disk')}
+                            </h3>
+                            <span className="text-xs text-gray-400">
+                                {t('diskUsage', { used: diskData.length, size: DISK_SIZE })}
+                                {disk && ` · ${new Date(disk.updatedAt).toLocaleString()}`}
+                            </span>
+                        </div>
+                        {diskData.length === 0 ? (
+                            <p className="text-sm text-gray-400">{t('diskEmpty')}</p>
+                        ) : (
+                            <pre
+                                className="text-[11px] leading-4 font-mono text-gray-300 bg-black/40 rounded p-2 overflow-auto max-h-64"
+                                data-testid="arcade-disk-dump"
+                            >
+                                {formatHexDump(diskData).join('\n')}
+                            </pre>
+                        )}
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={() => void clearDisk()}
+                            disabled={diskData.length === 0}
+                            className="px-4 py-2 bg-red-700 hover:bg-red-600 rounded text-white text-sm disabled:opacity-50"
+                        >
+                            {t('clearDisk')}
+                        </button>
+                        <button
+                            onClick={onPlay}
+                            className="px-4 py-2 bg-purple-600 hover:bg-purple-500 rounded text-white text-sm flex items-center gap-2"
+                        >
+                            <span className="material-symbols-outlined text-sm">play_arrow</span>
+                            {t('play')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <ConfirmDialog {...dialogProps} />
+        </>
+    );
+};
@@ -0,0 +1,347 @@
+/**
+ * WASM-4 APU
+ *
+ * Sound for the WASM-4 runtime: two pulse channels, a triangle and a noise channel,
+ * played the way the reference APU plays them. `tone()` starts a sound on a channel with an
+ * ADSR envelope, an optional frequency slide and a pan. The runtime renders exactly one
+ * frame of samples per `tick()`, so envelopes and slides last as many frames as a cartridge
+ * asked for, whatever the display refresh rate.
+ *
+ * `Wasm4Audio` plays the rendered frames on a Web Audio context; with an
+ * `OfflineAudioContext` the same frames render to a buffer without a speaker.
+ *
+ * Based on the WASM-4 sound specification: https://wasm4.org/docs/guides/audio
+ */
+
+/**
+ * tone() flags
+ */
+export const TONE_PULSE1 = 0;
+export const TONE_PULSE2 = 1;
+export const TONE_TRIANGLE = 2;
+export const TONE_NOISE = 3;
+export const TONE_MODE1 = 0; // 12.5% duty cycle
+export const TONE_MODE2 = 4; // 25%
+export const TONE_MODE3 = 8; // 50%
+export const TONE_MODE4 = 12; // 75%
+export const TONE_PAN_LEFT = 16;
+export const TONE_PAN_RIGHT = 32;
+export const TONE_NOTE_MODE = 64;
+
+/** Frames per second the APU is ticked at */
+export const APU_FRAME_RATE = 60;
+
+/** Peak amplitude of the pulse and noise channels (~15% of full scale, as int16 0x1333) */
+const MAX_VOLUME = 0x1333 / 0x8000;
+/** Peak amplitude of the triangle channel (25%, as int16 0x2000) */
+const MAX_VOLUME_TRIANGLE = 0x2000 / 0x8000;
+
+const DUTY_CYCLES = [0.125, 0.25, 0.5, 0.75];
+
+/**
+ * Per-channel state. Times are in samples since the APU started, `endTick` (the first
+ * frame after the tone) in frames.
+ */
+interface Channel {
+    freq1: number;
+    freq2: number;
+    startTime: number;
+    attackTime: number;
+    decayTime: number;
+    sustainTime: number;
+    releaseTime: number;
+    endTick: number;
+    sustainVolume: number;
+    peakVolume: number;
+    phase: number;
+    pan: number;
+    dutyCycle: number;
+    noiseSeed: number;
+    noiseValue: number;
+}
+
+const createChannel = (): Channel => ({
+    freq1: 0,
+    freq2: 0,
+    startTime: 0,
+    attackTime: 0,
+    decayTime: 0,
+    sustainTime: 0,
+    releaseTime: 0,
+    endTick: 0,
+    sustainVolume: 0,
+    peakVolume: 0,
+    phase: 0,
+    pan: 0,
+    dutyCycle: 0.5,
+    noiseSeed: 0x0001,
+    noiseValue: 0,
+});
+
+/** Frequency of a MIDI note, bent up by `bend` 256ths of a semitone */
+const midiFrequency = (note: number, bend: number): number => 440 * Math.pow(2, (note - 69 + bend / 256) / 12);
+
+/** Softens the edges of a pulse so high notes do not alias */
+const polyBlep = (phase: number, phaseInc: number): number => {
+    if (phase < phaseInc) {
+        const t = phase / phaseInc;
+        return t + t - t * t;
+    }
+    if (phase > 1 - phaseInc) {
+        const t = (phase - (1 - phaseInc)) / phaseInc;
+        return 1 - (t + t - t * t);
+    }
+    return 1;
+};
+
+/**
+ * WASM-4 audio processing unit: turns tone() calls into stereo samples
+ */
+export class Wasm4Apu {
+    readonly sampleRate: number;
+    private channels: Channel[] = [createChannel(), createChannel(), createChannel(), createChannel()];
+    private time = 0;
+    private ticks = 0;
+
+    constructor(sampleRate = 44100) {
+        this.sampleRate = sampleRate;
+    }
+
+    /**
+     * Start a sound, with the arguments of the WASM-4 `tone()` import
+     *
+     * @param frequency - Start frequency in the low 16 bits, slide target in the high 16 bits
+     *   (0 for no slide); MIDI note and bend bytes in note mode
+     * @param duration - Sustain, release, decay and attack in frames, lowest byte first
+     * @param volume - Sustain volume in the low byte, peak volume in the next (0 = 100), 0-100
+     * @param flags - Channel, duty mode, pan and note mode (`TONE_*`)
+     */
+    tone(frequency: number, duration: number, volume: number, flags: number): void {
+        const freq1 = frequency & 0xffff;
+        const freq2 = (frequency >>> 16) & 0xffff;
+        const sustain = duration & 0xff;
+        const release = (duration >>> 8) & 0xff;
+        const decay = (duration >>> 16) & 0xff;
+        const attack = (duration >>> 24) & 0xff;
+        const sustainVolume = Math.min(volume & 0xff, 100);
+        const peakVolume = Math.min((volume >>> 8) & 0xff, 100);
+        const channelIndex = flags & 0x3;
+        const mode = (flags >>> 2) & 0x3;
+        const channel = this.channels[channelIndex];
+        if (!channel) return;
+
+        // A channel that is not already playing starts its waveform from the beginning
+        if (!this.isPlaying(channel)) {
+            channel.phase = channelIndex === TONE_TRIANGLE ? 0.25 : 0;
+        }
+
+        if (flags & TONE_NOTE_MODE) {
+            channel.freq1 = midiFrequency(freq1 & 0xff, freq1 >>> 8);
+            channel.freq2 = freq2 === 0 ? 0 : midiFrequency(freq2 & 0xff, freq2 >>> 8);
+        } else {
+            channel.freq1 = freq1;
+            channel.freq2 = freq2;
+        }
+
+        const framesToSamples = (frames: number) => Math.round((this.sampleRate * frames) / APU_FRAME_RATE);
+        channel.startTime = this.time;
+        channel.attackTime = channel.startTime + framesToSamples(attack);
+        channel.decayTime = channel.attackTime + framesToSamples(decay);
+        channel.sustainTime = channel.decayTime + framesToSamples(sustain);
+        channel.releaseTime = channel.sustainTime + framesToSamples(release);
+        channel.endTick = this.ticks + Math.max(attack + decay + sustain + release, 1);
+
+        const maxVolume = channelIndex === TONE_TRIANGLE ? MAX_VOLUME_TRIANGLE : MAX_VOLUME;
+        channel.sustainVolume = (maxVolume * sustainVolume) / 100;
+        channel.peakVolume = peakVolume ? (maxVolume * peakVolume) / 100 : maxVolume;
+        channel.pan = (flags >>> 4) & 0x3;
+
+        if (channelIndex === TONE_PULSE1 || channelIndex === TONE_PULSE2) {
+            channel.dutyCycle = DUTY_CYCLES[mode] ?? 0.5;
+        } else if (channelIndex === TONE_TRIANGLE && release === 0) {
+            // A 1 ms release keeps the triangle from clicking when it stops
+            channel.releaseTime += Math.round(this.sampleRate / 1000);
+        }
+    }
+
+    /**
+     * Advance to the next frame. Call after rendering the current frame's samples.
+     */
+    tick(): void {
+        this.ticks++;
+    }
+
+    /**
+     * Number of samples in the current frame. Frames alternate lengths when the sample
+     * rate is not a multiple of 60, so that they add up to exactly one second per 60 frames.
+     */
+    getFrameLength(): number {
+        const rate = this.sampleRate / APU_FRAME_RATE;
+        return Math.floor((this.ticks + 1) * rate) - Math.floor(this.ticks * rate);
+    }
+
+    /**
+     * Render the next samples, mixing the playing channels into the left and right outputs
+     */
+    writeSamples(left: Float32Array, right: Float32Array): void {
+        const length = Math.min(left.length, right.length);
+        for (let i = 0; i < length; i++, this.time++) {
+            let mixLeft = 0;
+            let mixRight = 0;
+            for (let channelIndex = 0; channelIndex < this.channels.length; channelIndex++) {
+                const channel = this.channels[channelIndex];
+                if (!channel || !this.isPlaying(channel)) continue;
+
+                const sample = this.sample(channel, channelIndex);
+                if (channel.pan !== 1) mixRight += sample;
+                if (channel.pan !== 2) mixLeft += sample;
+            }
+            left[i] = mixLeft;
+            right[i] = mixRight;
+        }
+    }
+
+    /**
+     * Silence every channel and start over, as when a cartridge is loaded
+     */
+    reset(): void {
+        this.channels = [createChannel(), createChannel(), createChannel(), createChannel()];
+        this.time = 0;
+        this.ticks = 0;
+    }
+
+    /**
+     * Whether a channel sounds in the current sample. A tone without any duration still
+     * plays for the frame it was started in.
+     */
+    private isPlaying(channel: Channel): boolean {
+        return this.time < channel.releaseTime || this.ticks < channel.endTick;
+    }
+
+    private sample(channel: Channel, channelIndex: number): number {
+        const frequency = this.getFrequency(channel);
+        const volume = this.getVolume(channel);
+
+        if (channelIndex === TONE_NOISE) {
+            // The noise clock runs at frequency² / 1,000,000 per sample at 44.1 kHz
+            channel.phase += (frequency * frequency * 0.0441) / this.sampleRate;
+            while (channel.phase > 0) {
+                channel.phase--;
+                let seed = channel.noiseSeed;
+                seed ^= seed >>> 7;
+                seed ^= (seed << 9) & 0xffff;
+                seed ^= seed >>> 13;
+                channel.noiseSeed = seed;
+                channel.noiseValue = 2 * (seed & 0x1) - 1;
+            }
+            return volume * channel.noiseValue;
+        }
+
+        const phaseInc = frequency / this.sampleRate;
+        channel.phase += phaseInc;
+        if (channel.phase >= 1) channel.phase--;
+
+        if (channelIndex === TONE_TRIANGLE) {
+            return volume * (2 * Math.abs(2 * channel.phase - 1) - 1);
+        }
+
+        const { dutyCycle, phase } = channel;
+        return phase < dutyCycle
+            ? volume * polyBlep(phase / dutyCycle, phaseInc / dutyCycle)
+            : -volume * polyBlep((phase - dutyCycle) / (1 - dutyCycle), phaseInc / (1 - dutyCycle));
+    }
+
+    /** Linear ramp from value1 at time1 to value2 at time2 */
+    private ramp(value1: number, value2: number, time1: number, time2: number): number {
+        if (this.time >= time2) return value2;
+        return value1 + ((this.time - time1) / (time2 - time1)) * (value2 - value1);
+    }
+
+    /** The frequency slides from freq1 to freq2 over the whole tone */
+    private getFrequency(channel: Channel): number {
+        return channel.freq2 > 0
+            ? this.ramp(channel.freq1, channel.freq2, channel.startTime, channel.releaseTime)
+            : channel.freq1;
+    }
+
+    private getVolume(channel: Channel): number {
+        const frameLength = this.sampleRate / APU_FRAME_RATE;
+        if (this.time >= channel.sustainTime && channel.releaseTime - channel.sustainTime > frameLength) {
+            return this.ramp(channel.sustainVolume, 0, channel.sustainTime, channel.releaseTime);
+        }
+        if (this.time >= channel.decayTime) {
+            return channel.sustainVolume;
+        }
+        if (this.time >= channel.attackTime) {
+            return this.ramp(channel.peakVolume, channel.sustainVolume, channel.attackTime, channel.decayTime);
+        }
+        return this.ramp(0, channel.peakVolume, channel.startTime, channel.attackTime);
+    }
+}
+
+/**
+ * Options for playing APU frames on a context
+ */
+export interface Wasm4AudioOptions {
+    /** Seconds between rendering a frame and hearing it */
+    latency?: number;
+    /** Frames further ahead than this are dropped, so sound keeps up with the game */
+    maxLatency?: number;
+}
+
+/**
+ * Plays the frames a `Wasm4Apu` renders on a Web Audio context, one buffer per frame,
+ * back to back on the context's clock
+ */
+export class Wasm4Audio {
+    readonly context: BaseAudioContext;
+    readonly apu: Wasm4Apu;
+    private gain: GainNode;
+    private playhead = 0;
+    private latency: number;
+    private maxLatency: number;
+
+    constructor(context: BaseAudioContext, options: Wasm4AudioOptions = {}) {
+        this.context = context;
+        this.apu = new Wasm4Apu(context.sampleRate);
+        this.latency = options.latency ?? 0.05;
+        this.maxLatency = options.maxLatency ?? 0.25;
+        this.gain = context.createGain();
+        this.gain.connect(context.destination);
+    }
+
+    /**
+     * Render the current frame, schedule it after the frames before it, and advance the APU
+     */
+    renderFrame(): void {
+        const length = this.apu.getFrameLength();
+        const buffer = this.context.createBuffer(2, length, this.context.sampleRate);
+        this.apu.writeSamples(buffer.getChannelData(0), buffer.getChannelData(1));
+        this.apu.tick();
+
+        const now = this.context.currentTime;
+        if (this.playhead < now + this.latency) {
+            // Fell behind (or just started): continue from the latency point
+            this.playhead = now + this.latency;
+        } else if (this.playhead > now + this.maxLatency) {
+            return;
+        }
+        const source = this.context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(this.gain);
+        source.start(this.playhead);
+        this.playhead += length / this.context.sampleRate;
+    }
+
+    setMuted(muted: boolean): void {
+        this.gain.gain.value = muted ? 0 : 1;
+    }
+
+    /**
+     * Silence every channel; the next frame starts a fresh schedule
+     */
+    reset(): void {
+        this.apu.reset();
+        this.playhead = 0;
+    }
+}
@@ -0,0 +1,131 @@
+/**
+ * WASM-4 Replays
+ *
+ * A replay is the state a recording started from plus the input of every frame after
+ * it. Cartridges have no clock or random source besides their input, so feeding the
+ * same input to the same state plays the game out identically. The memory checksum
+ * stored with the replay tells whether playback still ends where the recording did,
+ * which makes replays usable as regression tests for cartridges. A replay only plays
+ * in the cartridge it was recorded with, identified by a checksum of its bytes.
+ *
+ * File layout (little-endian):
+ * - "W4RP" magic, then the format version (u16)
+ * - Checksum of the cartridge (u32)
+ * - Checksum of memory after the last frame (u32)
+ * - State length (u32), then the state as written by `Wasm4Runtime.exportState()`
+ * - Frame count (u32), then INPUT_FRAME_SIZE bytes of input per frame
+ */
+
+export const REPLAY_EXTENSION = '.w4replay';
+
+const REPLAY_MAGIC = 'W4RP';
+const REPLAY_VERSION = 1;
+const HEADER_SIZE = 4 + 2 + 4 + 4 + 4;
+
+/**
+ * Bytes of input per frame: GAMEPAD1..4, mouse x and y (i16) and mouse buttons
+ */
+export const INPUT_FRAME_SIZE = 9;
+
+/**
+ * What the cartridge reads as input on one frame
+ */
+export interface Wasm4InputFrame {
+    gamepads: number[];
+    mouseX: number;
+    mouseY: number;
+    mouseButtons: number;
+}
+
+export interface Wasm4Replay {
+    /** checksum() of the cartridge the replay was recorded with */
+    cartridge: number;
+    /** Exported state the recording started from */
+    state: Uint8Array;
+    /** INPUT_FRAME_SIZE bytes per frame */
+    inputs: Uint8Array;
+    /** checksum() of memory after the last frame */
+    checksum: number;
+}
+
+export const replayFrameCount = (replay: Wasm4Replay): number => Math.floor(replay.inputs.length / INPUT_FRAME_SIZE);
+
+/**
+ * Append one frame of input to a recording
+ */
+export function pushInputFrame(inputs: number[], frame: Wasm4InputFrame): void {
+    const bytes = new Uint8Array(INPUT_FRAME_SIZE);
+    const view = new DataView(bytes.buffer);
+    for (let player = 0; player < 4; player++) {
+        view.setUint8(player, frame.gamepads[player] ?? 0);
+    }
+    view.setInt16(4, frame.mouseX, true);
+    view.setInt16(6, frame.mouseY, true);
+    view.setUint8(8, frame.mouseButtons);
+    inputs.push(...bytes);
+}
+
+/**
+ * Input of the frame at `index`
+ */
+export function readInputFrame(inputs: Uint8Array, index: number): Wasm4InputFrame {
+    const view = new DataView(inputs.buffer, inputs.byteOffset + index * INPUT_FRAME_SIZE, INPUT_FRAME_SIZE);
+    return {
+        gamepads: [view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3)],
+        mouseX: view.getInt16(4, true),
+        mouseY: view.getInt16(6, true),
+        mouseButtons: view.getUint8(8),
+    };
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function checksum(data: Uint8Array): number {
+    let hash = 0x811c9dc5;
+    for (const byte of data) {
+        hash = Math.imul(hash ^ byte, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export function encodeReplay(replay: Wasm4Replay): Uint8Array {
+    const frames = replayFrameCount(replay);
+    const bytes = new Uint8Array(HEADER_SIZE + replay.state.length + 4 + frames * INPUT_FRAME_SIZE);
+    const view = new DataView(bytes.buffer);
+
+    bytes.set(Array.from(REPLAY_MAGIC, char => char.charCodeAt(0)));
+    view.setUint16(4, REPLAY_VERSION, true);
+    view.setUint32(6, replay.cartridge, true);
+    view.setUint32(10, replay.checksum, true);
+    view.setUint32(14, replay.state.length, true);
+    bytes.set(replay.state, HEADER_SIZE);
+
+    const framesOffset = HEADER_SIZE + replay.state.length;
+    view.setUint32(framesOffset, frames, true);
+    bytes.set(replay.inputs.subarray(0, frames * INPUT_FRAME_SIZE), framesOffset + 4);
+    return bytes;
+}
+
+/**
+ * Read a replay file, or null if it is not one this version can play
+ */
+export function decodeReplay(bytes: Uint8Array): Wasm4Replay | null {
+    if (bytes.length < HEADER_SIZE) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const magic = String.fromCharCode(...bytes.subarray(0, 4));
+    if (magic !== REPLAY_MAGIC || view.getUint16(4, true) !== REPLAY_VERSION) return null;
+
+    const stateLength = view.getUint32(14, true);
+    const framesOffset = HEADER_SIZE + stateLength;
+    if (bytes.length < framesOffset + 4) return null;
+    const frames = view.getUint32(framesOffset, true);
+    if (bytes.length !== framesOffset + 4 + frames * INPUT_FRAME_SIZE) return null;
+
+    return {
+        cartridge: view.getUint32(6, true),
+        state: bytes.slice(HEADER_SIZE, framesOffset),
+        inputs: bytes.slice(framesOffset + 4),
+        checksum: view.getUint32(10, true),
+    };
+}
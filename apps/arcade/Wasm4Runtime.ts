@@ -7,12 +7,17 @@
  * Based on the WASM-4 specification: https://wasm4.org/docs
  */
 
+import { Wasm4Audio } from './Wasm4Apu';
+import { checksum, pushInputFrame, readInputFrame, replayFrameCount } from './Wasm4Replay';
+import type { Wasm4InputFrame, Wasm4Replay } from './Wasm4Replay';
+
 /**
  * WASM-4 constants
  */
 export const SCREEN_WIDTH = 160;
 export const SCREEN_HEIGHT = 160;
 export const FRAMEBUFFER_SIZE = (SCREEN_WIDTH * SCREEN_HEIGHT) / 4; // 2 bits per pixel
+export const DISK_SIZE = 1024; // Persistent storage per cartridge
 
 /**
  * WASM-4 color palette (default)
@@ -34,6 +39,74 @@ export const BUTTON_RIGHT = 32;
 export const BUTTON_UP = 64;
 export const BUTTON_DOWN = 128;
 
+/**
+ * Rewind, bound to keys like a gamepad button but never seen by the cartridge
+ */
+export const REWIND_BUTTON = 256;
+
+/**
+ * Players WASM-4 reads input for (GAMEPAD1..4)
+ */
+export const PLAYER_COUNT = 4;
+
+/**
+ * Keyboard codes (KeyboardEvent.code) that press each button, keyed by button flag
+ */
+export type KeyBindings = Partial<Record<number, string[]>>;
+
+/**
+ * Default keys: player 1 gets the arrows or WASD with X/Z and their neighbours, and
+ * rewinds with Backspace; the other players only play with controllers or touch until
+ * keys are bound for them.
+ */
+export const DEFAULT_KEY_BINDINGS: KeyBindings[] = [
+    {
+        [BUTTON_1]: ['KeyX', 'KeyV', 'Space', 'Period'],
+        [BUTTON_2]: ['KeyZ', 'KeyC', 'KeyN', 'Comma'],
+        [BUTTON_UP]: ['ArrowUp', 'KeyW'],
+        [BUTTON_DOWN]: ['ArrowDown', 'KeyS'],
+        [BUTTON_LEFT]: ['ArrowLeft', 'KeyA'],
+        [BUTTON_RIGHT]: ['ArrowRight', 'KeyD'],
+        [REWIND_BUTTON]: ['Backspace'],
+    },
+    {},
+    {},
+    {},
+];
+
+/**
+ * Rewind keeps a memory snapshot every REWIND_INTERVAL frames, for up to REWIND_SECONDS,
+ * and steps back one snapshot every REWIND_STEP_FRAMES frames while held
+ */
+const REWIND_INTERVAL = 6;
+const REWIND_SECONDS = 10;
+const REWIND_CAPACITY = (REWIND_SECONDS * 60) / REWIND_INTERVAL;
+const REWIND_STEP_FRAMES = 2;
+
+/**
+ * How far a stick must be pushed to press a direction
+ */
+const STICK_DEADZONE = 0.5;
+
+/**
+ * Buttons held on a controller with the standard Gamepad API mapping: the d-pad or
+ * left stick for directions, the bottom/top face buttons for X and the others for Z
+ */
+export function readControllerButtons(gamepad: Pick<Gamepad, 'buttons' | 'axes'>): number {
+    const isPressed = (index: number) => gamepad.buttons[index]?.pressed ?? false;
+    const x = gamepad.axes[0] ?? 0;
+    const y = gamepad.axes[1] ?? 0;
+
+    let buttons = 0;
+    if (isPressed(0) || isPressed(3)) buttons |= BUTTON_1;
+    if (isPressed(1) || isPressed(2)) buttons |= BUTTON_2;
+    if (isPressed(12) || y < -STICK_DEADZONE) buttons |= BUTTON_UP;
+    if (isPressed(13) || y > STICK_DEADZONE) buttons |= BUTTON_DOWN;
+    if (isPressed(14) || x < -STICK_DEADZONE) buttons |= BUTTON_LEFT;
+    if (isPressed(15) || x > STICK_DEADZONE) buttons |= BUTTON_RIGHT;
+    return buttons;
+}
+
 /**
  * WASM-4 memory addresses
  */
@@ -57,6 +130,84 @@ const FRAMEBUFFER = 0xa0;
 const _SYSTEM_PRESERVE_FRAMEBUFFER = 1;
 const _SYSTEM_HIDE_GAMEPAD_OVERLAY = 2;
 
+/**
+ * Memory regions shown by the Arcade debugger
+ */
+export const MEMORY_REGIONS = [
+    { name: 'PALETTE', address: PALETTE, size: 16 },
+    { name: 'DRAW_COLORS', address: DRAW_COLORS, size: 2 },
+    { name: 'GAMEPAD', address: GAMEPAD1, size: 4 },
+    { name: 'FRAMEBUFFER', address: FRAMEBUFFER, size: FRAMEBUFFER_SIZE },
+] as const;
+
+export type MemoryRegion = (typeof MEMORY_REGIONS)[number];
+
+/**
+ * Read a null-terminated string from memory
+ */
+const readCString = (mem: Uint8Array, ptr: number): string => {
+    let str = '';
+    for (let i = ptr; i < mem.length; i++) {
+        const char = mem[i];
+        if (!char) break;
+        str += String.fromCharCode(char);
+    }
+    return str;
+};
+
+/**
+ * Format a tracef() message: the null-terminated format string at `fmtPtr`, with its
+ * arguments packed C-varargs style at `argPtr` (%c, %d, %x and %s take 4 bytes, %f an
+ * 8-byte aligned double). Arguments that run past the end of memory print as "?".
+ */
+export function formatTracef(buffer: ArrayBuffer, fmtPtr: number, argPtr: number): string {
+    const mem = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const fmt = readCString(mem, fmtPtr >>> 0);
+    let ptr = argPtr >>> 0;
+
+    const readArg = (size: 4 | 8): number | null => {
+        ptr = Math.ceil(ptr / size) * size;
+        if (ptr + size > buffer.byteLength) return null;
+        const value = size === 8 ? view.getFloat64(ptr, true) : view.getInt32(ptr, true);
+        ptr += size;
+        return value;
+    };
+
+    let output = '';
+    for (let i = 0; i < fmt.length; i++) {
+        const char = fmt.charAt(i);
+        if (char !== '%' || i === fmt.length - 1) {
+            output += char;
+            continue;
+        }
+        const spec = fmt.charAt(++i);
+        if (spec === '%') {
+            output += '%';
+            continue;
+        }
+        if (spec !== 'c' && spec !== 'd' && spec !== 'x' && spec !== 's' && spec !== 'f') {
+            output += `%${spec}`;
+            continue;
+        }
+        const value = readArg(spec === 'f' ? 8 : 4);
+        if (value === null) {
+            output += '?';
+        } else if (spec === 'c') {
+            output += String.fromCharCode(value);
+        } else if (spec === 'd') {
+            output += value.toString();
+        } else if (spec === 'x') {
+            output += (value >>> 0).toString(16);
+        } else if (spec === 's') {
+            output += readCString(mem, value >>> 0);
+        } else {
+            output += value.toString();
+        }
+    }
+    return output;
+}
+
 /**
  * Runtime state
  */
@@ -66,6 +217,9 @@ export interface Wasm4State {
     fps: number;
     frameCount: number;
     lastError: string | null;
+    isRewinding: boolean;
+    isRecording: boolean;
+    isReplaying: boolean;
 }
 
 /**
@@ -75,6 +229,14 @@ export interface Wasm4Callbacks {
     onStateChange?: (state: Wasm4State) => void;
     onError?: (error: string) => void;
     onAudioReady?: () => void;
+    /** The cartridge wrote its disk; persist the bytes to keep them between sessions */
+    onDiskWrite?: (disk: Uint8Array) => void;
+    /** The cartridge printed a debug message with trace() or tracef() */
+    onTrace?: (message: string) => void;
+    /** A controller was plugged in or removed; ids of the connected ones, in player order */
+    onControllersChange?: (controllers: string[]) => void;
+    /** A replay played to its end; `matched` tells whether memory ended as when it was recorded */
+    onReplayEnd?: (matched: boolean) => void;
 }
 
 /**
@@ -92,11 +254,27 @@ export class Wasm4Runtime {
     private lastFrameTime = 0;
     private frameCount = 0;
     private fps = 60;
+    // Set by stepFrame() so the next tick runs one frame while paused
+    private isStepRequested = false;
 
+    // Buttons held per player: keyboard and virtual pads, then physical controllers
     private gamepad = [0, 0, 0, 0];
+    private controllerButtons = [0, 0, 0, 0];
+    private keyMap = new Map<string, { player: number; button: number }[]>();
     private mouseX = 0;
     private mouseY = 0;
     private mouseButtons = 0;
+    private disk: Uint8Array = new Uint8Array(0);
+    // checksum() of the loaded cartridge, which replays must match
+    private cartridgeChecksum = 0;
+
+    // Rewind snapshots, oldest first
+    private rewindBuffer: Uint8Array[] = [];
+    private rewindFrames = 0;
+
+    // Input recording and replay playback
+    private recording: { state: Uint8Array; inputs: number[] } | null = null;
+    private playback: { replay: Wasm4Replay; frame: number; diskBefore: Uint8Array } | null = null;
 
     private state: Wasm4State = {
         isRunning: false,
@@ -104,16 +282,26 @@ export class Wasm4Runtime {
         fps: 0,
         frameCount: 0,
         lastError: null,
+        isRewinding: false,
+        isRecording: false,
+        isReplaying: false,
     };
 
     private callbacks: Wasm4Callbacks = {};
 
-    // Audio context (created lazily after user interaction)
-    private audioCtx: AudioContext | null = null;
+    // Sound output (created lazily after user interaction)
+    private audio: Wasm4Audio | null = null;
+    private isAudioRunning = false;
+    private isMuted = false;
 
     // Input handlers
     private keyDownHandler: ((e: KeyboardEvent) => void) | null = null;
     private keyUpHandler: ((e: KeyboardEvent) => void) | null = null;
+    private controllersHandler: (() => void) | null = null;
+
+    constructor() {
+        this.setKeyBindings(DEFAULT_KEY_BINDINGS);
+    }
 
     /**
      * Initialize the runtime with a canvas element
@@ -138,9 +326,9 @@ export class Wasm4Runtime {
     }
 
     /**
-     * Load and run a WASM cartridge
+     * Load and run a WASM cartridge, with the disk it saved before
      */
-    async loadCartridge(cartridgeData: ArrayBuffer): Promise<void> {
+    async loadCartridge(cartridgeData: ArrayBuffer, disk: Uint8Array = new Uint8Array(0)): Promise<void> {
         if (!this.canvas || !this.ctx) {
             throw new Error('Runtime not initialized');
         }
@@ -149,6 +337,10 @@ export class Wasm4Runtime {
         this.stop();
 
         try {
+            this.disk = disk.slice(0, DISK_SIZE);
+            this.cartridgeChecksum = checksum(new Uint8Array(cartridgeData));
+            this.rewindBuffer = [];
+
             // Create WASM-4 memory (64KB)
             this.memory = new WebAssembly.Memory({ initial: 1, maximum: 1 });
             this.frameBuffer = new Uint8Array(this.memory.buffer);
@@ -165,6 +357,9 @@ export class Wasm4Runtime {
             // Create import object for WASM-4 API
             const importObject = this.createImportObject();
 
+            this.startAudio();
+            this.audio?.reset();
+
             // Compile and instantiate
             const module = await WebAssembly.compile(cartridgeData);
             this.instance = await WebAssembly.instantiate(module, importObject);
@@ -246,7 +441,18 @@ export class Wasm4Runtime {
         this.instance = null;
         this.memory = null;
         this.frameBuffer = null;
-        this.updateState({ isRunning: false, isPaused: false });
+        this.recording = null;
+        if (this.playback) {
+            this.disk = this.playback.diskBefore;
+            this.playback = null;
+        }
+        this.updateState({
+            isRunning: false,
+            isPaused: false,
+            isRewinding: false,
+            isRecording: false,
+            isReplaying: false,
+        });
     }
 
     /**
@@ -265,11 +471,20 @@ export class Wasm4Runtime {
         }
     }
 
+    /**
+     * Run exactly one frame of a paused game, on the next tick
+     */
+    stepFrame(): void {
+        if (this.state.isRunning && this.state.isPaused) {
+            this.isStepRequested = true;
+        }
+    }
+
     /**
      * Reset the game
      */
     async reset(cartridgeData: ArrayBuffer): Promise<void> {
-        await this.loadCartridge(cartridgeData);
+        await this.loadCartridge(cartridgeData, this.disk);
     }
 
     /**
@@ -280,30 +495,49 @@ export class Wasm4Runtime {
         const elapsed = now - this.lastFrameTime;
         const targetFrameTime = 1000 / 60; // 60 FPS
 
-        if (!this.state.isPaused && elapsed >= targetFrameTime) {
-            this.frameCount++;
+        const isStep = this.state.isPaused && this.isStepRequested;
+        if (isStep || (!this.state.isPaused && elapsed >= targetFrameTime)) {
+            this.isStepRequested = false;
             this.lastFrameTime = now - (elapsed % targetFrameTime);
 
-            // Update FPS calculation
-            this.fps = Math.round(1000 / elapsed);
-
-            // Update input state in memory
-            this.updateInputMemory();
-
-            // Call update function
-            if (this.instance) {
-                const exports = this.instance.exports;
-                if (typeof exports.update === 'function') {
-                    try {
-                        (exports.update as () => void)();
-                    } catch (error) {
-                        const errorMsg = error instanceof Error ? error.message : 'Runtime error';
-                        this.updateState({ lastError: errorMsg });
-                        this.callbacks.onError?.(errorMsg);
-                        this.stop();
-                        return;
+            // Update FPS calculation (meaningless for a single step)
+            if (!isStep) {
+                this.fps = Math.round(1000 / elapsed);
+            }
+
+            if (this.state.isRewinding) {
+                // Show earlier snapshots instead of running the game
+                this.rewindFrame();
+            } else {
+                this.frameCount++;
+
+                // Update input state in memory
+                this.pollControllers();
+                this.updateInputMemory();
+
+                // Call update function
+                if (this.instance) {
+                    const exports = this.instance.exports;
+                    if (typeof exports.update === 'function') {
+                        try {
+                            (exports.update as () => void)();
+                        } catch (error) {
+                            const errorMsg = error instanceof Error ? error.message : 'Runtime error';
+                            this.updateState({ lastError: errorMsg });
+                            this.callbacks.onError?.(errorMsg);
+                            this.stop();
+                            return;
+                        }
                     }
                 }
+
+                if (this.playback && this.playback.frame >= replayFrameCount(this.playback.replay)) {
+                    this.finishReplay();
+                }
+                this.takeRewindSnapshot();
+
+                // Play this frame's sound
+                this.audio?.renderFrame();
             }
 
             // Render framebuffer
@@ -322,13 +556,134 @@ export class Wasm4Runtime {
         if (!this.memory) return;
         const mem = new DataView(this.memory.buffer);
 
-        mem.setUint8(GAMEPAD1, this.gamepad[0] ?? 0);
-        mem.setUint8(GAMEPAD2, this.gamepad[1] ?? 0);
-        mem.setUint8(GAMEPAD3, this.gamepad[2] ?? 0);
-        mem.setUint8(GAMEPAD4, this.gamepad[3] ?? 0);
-        mem.setInt16(MOUSE_X, this.mouseX, true);
-        mem.setInt16(MOUSE_Y, this.mouseY, true);
-        mem.setUint8(MOUSE_BUTTONS, this.mouseButtons);
+        const input = this.readInput();
+        if (this.recording) {
+            pushInputFrame(this.recording.inputs, input);
+        }
+
+        mem.setUint8(GAMEPAD1, input.gamepads[0] ?? 0);
+        mem.setUint8(GAMEPAD2, input.gamepads[1] ?? 0);
+        mem.setUint8(GAMEPAD3, input.gamepads[2] ?? 0);
+        mem.setUint8(GAMEPAD4, input.gamepads[3] ?? 0);
+        mem.setInt16(MOUSE_X, input.mouseX, true);
+        mem.setInt16(MOUSE_Y, input.mouseY, true);
+        mem.setUint8(MOUSE_BUTTONS, input.mouseButtons);
+    }
+
+    /**
+     * This frame's input: the next frame of a playing replay, or what the players hold
+     */
+    private readInput(): Wasm4InputFrame {
+        if (this.playback) {
+            return readInputFrame(this.playback.replay.inputs, this.playback.frame++);
+        }
+        return {
+            gamepads: this.gamepad.map((buttons, player) => buttons | (this.controllerButtons[player] ?? 0)),
+            mouseX: this.mouseX,
+            mouseY: this.mouseY,
+            mouseButtons: this.mouseButtons,
+        };
+    }
+
+    /**
+     * Remember memory every few frames, for rewinding
+     */
+    private takeRewindSnapshot(): void {
+        if (!this.memory || this.frameCount % REWIND_INTERVAL !== 0) return;
+        this.rewindBuffer.push(new Uint8Array(this.memory.buffer).slice());
+        if (this.rewindBuffer.length > REWIND_CAPACITY) {
+            this.rewindBuffer.shift();
+        }
+    }
+
+    /**
+     * Step back to the previous snapshot; the oldest one stays on screen
+     */
+    private rewindFrame(): void {
+        if (!this.memory || ++this.rewindFrames < REWIND_STEP_FRAMES) return;
+        this.rewindFrames = 0;
+        const snapshot = this.rewindBuffer.length > 1 ? this.rewindBuffer.pop() : this.rewindBuffer[0];
+        if (snapshot) {
+            new Uint8Array(this.memory.buffer).set(snapshot);
+        }
+    }
+
+    /**
+     * Hold or release rewind. Recordings and replays need every frame to run forward,
+     * so rewinding is not available during them.
+     */
+    setRewinding(isRewinding: boolean): void {
+        if (isRewinding === this.state.isRewinding) return;
+        if (isRewinding && (!this.state.isRunning || this.recording || this.playback)) return;
+        this.rewindFrames = REWIND_STEP_FRAMES - 1;
+        this.updateState({ isRewinding });
+    }
+
+    /**
+     * Start recording every frame's input from the current state
+     */
+    startRecording(): boolean {
+        const state = this.snapshotState();
+        if (!state || this.playback || this.state.isRewinding) return false;
+        this.recording = { state, inputs: [] };
+        this.updateState({ isRecording: true });
+        return true;
+    }
+
+    /**
+     * Stop recording and return the replay, or null if nothing was being recorded
+     */
+    stopRecording(): Wasm4Replay | null {
+        if (!this.recording || !this.memory) return null;
+        const replay: Wasm4Replay = {
+            cartridge: this.cartridgeChecksum,
+            state: this.recording.state,
+            inputs: Uint8Array.from(this.recording.inputs),
+            checksum: checksum(new Uint8Array(this.memory.buffer)),
+        };
+        this.recording = null;
+        this.updateState({ isRecording: false });
+        return replay;
+    }
+
+    /**
+     * Whether a replay was recorded with the loaded cartridge
+     */
+    isReplayFor(replay: Wasm4Replay): boolean {
+        return this.instance !== null && replay.cartridge === this.cartridgeChecksum;
+    }
+
+    /**
+     * Restore a replay's starting state and feed it the recorded input, frame by frame,
+     * ignoring the players until it ends. Replays never change the game's saved disk.
+     * Replays recorded with another cartridge are refused.
+     */
+    playReplay(replay: Wasm4Replay): boolean {
+        if (this.recording || this.state.isRewinding || !this.isReplayFor(replay)) return false;
+        const diskBefore = this.playback?.diskBefore ?? this.disk;
+        if (!this.restoreState(replay.state)) return false;
+
+        this.playback = { replay, frame: 0, diskBefore };
+        this.rewindBuffer = [];
+        this.updateState({ isReplaying: true });
+        return true;
+    }
+
+    /**
+     * Stop a replay early; the game carries on from where it got to
+     */
+    stopReplay(): void {
+        if (!this.playback) return;
+        this.disk = this.playback.diskBefore;
+        this.playback = null;
+        this.updateState({ isReplaying: false });
+    }
+
+    private finishReplay(): void {
+        if (!this.playback || !this.memory) return;
+        const matched = checksum(new Uint8Array(this.memory.buffer)) === this.playback.replay.checksum;
+        this.stopReplay();
+        this.callbacks.onReplayEnd?.(matched);
     }
 
     /**
@@ -364,7 +719,7 @@ export class Wasm4Runtime {
     /**
      * Get current palette from memory
      */
-    private getPalette(): number[] {
+    getPalette(): number[] {
         if (!this.memory) return DEFAULT_PALETTE;
         const mem = new DataView(this.memory.buffer);
         return [
@@ -384,6 +739,51 @@ export class Wasm4Runtime {
 
         window.addEventListener('keydown', this.keyDownHandler);
         window.addEventListener('keyup', this.keyUpHandler);
+
+        this.controllersHandler = () => {
+            this.startAudio();
+            this.callbacks.onControllersChange?.(this.getControllers().map(gamepad => gamepad.id));
+        };
+        window.addEventListener('gamepadconnected', this.controllersHandler);
+        window.addEventListener('gamepaddisconnected', this.controllersHandler);
+    }
+
+    /**
+     * Connected controllers, one per player in the order they were plugged in
+     */
+    private getControllers(): Gamepad[] {
+        if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return [];
+        return Array.from(navigator.getGamepads())
+            .filter((gamepad): gamepad is Gamepad => gamepad !== null && gamepad.connected)
+            .slice(0, PLAYER_COUNT);
+    }
+
+    /**
+     * Read the buttons held on each connected controller (the Gamepad API has no events
+     * for buttons, so this runs every frame)
+     */
+    private pollControllers(): void {
+        this.controllerButtons.fill(0);
+        this.getControllers().forEach((gamepad, player) => {
+            this.controllerButtons[player] = readControllerButtons(gamepad);
+        });
+    }
+
+    /**
+     * Replace the keys each player presses buttons with
+     */
+    setKeyBindings(bindings: KeyBindings[]): void {
+        this.keyMap.clear();
+        bindings.slice(0, PLAYER_COUNT).forEach((playerBindings, player) => {
+            for (const [button, codes] of Object.entries(playerBindings)) {
+                for (const code of codes ?? []) {
+                    const bound = this.keyMap.get(code) ?? [];
+                    bound.push({ player, button: Number(button) });
+                    this.keyMap.set(code, bound);
+                }
+            }
+        });
+        this.gamepad.fill(0);
     }
 
     /**
@@ -406,46 +806,20 @@ export class Wasm4Runtime {
     private handleKeyEvent(e: KeyboardEvent, isDown: boolean): void {
         if (!this.state.isRunning) return;
 
-        let button = 0;
-        switch (e.code) {
-            case 'KeyX':
-            case 'KeyV':
-            case 'Space':
-            case 'Period':
-                button = BUTTON_1;
-                break;
-            case 'KeyZ':
-            case 'KeyC':
-            case 'KeyN':
-            case 'Comma':
-                button = BUTTON_2;
-                break;
-            case 'ArrowUp':
-            case 'KeyW':
-                button = BUTTON_UP;
-                break;
-            case 'ArrowDown':
-            case 'KeyS':
-                button = BUTTON_DOWN;
-                break;
-            case 'ArrowLeft':
-            case 'KeyA':
-                button = BUTTON_LEFT;
-                break;
-            case 'ArrowRight':
-            case 'KeyD':
-                button = BUTTON_RIGHT;
-                break;
-            default:
-                return;
-        }
+        const bound = this.keyMap.get(e.code);
+        if (!bound) return;
 
         e.preventDefault();
 
         if (isDown) {
-            this.gamepad[0] = (this.gamepad[0] ?? 0) | button;
-        } else {
-            this.gamepad[0] = (this.gamepad[0] ?? 0) & ~button;
+            this.startAudio();
+        }
+        for (const { player, button } of bound) {
+            if (button === REWIND_BUTTON) {
+                this.setRewinding(isDown);
+            } else {
+                this.setGamepadButton(player, button, isDown);
+            }
         }
     }
 
@@ -453,7 +827,7 @@ export class Wasm4Runtime {
      * Set gamepad button state (for virtual controls)
      */
     setGamepadButton(player: number, button: number, pressed: boolean): void {
-        if (player < 0 || player > 3) return;
+        if (player < 0 || player >= PLAYER_COUNT) return;
         if (pressed) {
             this.gamepad[player] = (this.gamepad[player] ?? 0) | button;
         } else {
@@ -481,6 +855,61 @@ export class Wasm4Runtime {
         }
     }
 
+    /**
+     * A copy of the cartridge's disk
+     */
+    getDisk(): Uint8Array {
+        return this.disk.slice();
+    }
+
+    /**
+     * Copy a range of WASM memory for inspection, or null when no cartridge is loaded
+     */
+    readMemory(address: number, length: number): Uint8Array | null {
+        if (!this.memory) return null;
+        const mem = new Uint8Array(this.memory.buffer);
+        return mem.slice(address, address + length);
+    }
+
+    /**
+     * Mute or unmute the cartridge's sound
+     */
+    setMuted(muted: boolean): void {
+        this.isMuted = muted;
+        this.audio?.setMuted(muted);
+    }
+
+    /**
+     * Start sound output. Browsers only allow an audio context to run after the user
+     * interacted with the page, so this is tried on load and again on input.
+     */
+    private startAudio(): void {
+        if (!this.audio) {
+            if (typeof AudioContext === 'undefined') return;
+            try {
+                this.audio = new Wasm4Audio(new AudioContext());
+            } catch (error) {
+                console.warn('[Wasm4Runtime] Audio unavailable:', error);
+                return;
+            }
+            this.audio.setMuted(this.isMuted);
+            const { context } = this.audio;
+            const updateRunning = () => {
+                const isRunning = context.state === 'running';
+                if (isRunning && !this.isAudioRunning) this.callbacks.onAudioReady?.();
+                this.isAudioRunning = isRunning;
+            };
+            context.onstatechange = updateRunning;
+            updateRunning();
+        }
+        const { context } = this.audio;
+        if (context.state === 'suspended' && context instanceof AudioContext) {
+            context.resume().catch(() => {
+                // Still waiting for a user gesture; the next key press tries again
+            });
+        }
+    }
+
     /**
      * Capture current frame as a Blob (for thumbnails/icons)
      */
@@ -511,14 +940,54 @@ export class Wasm4Runtime {
 
     /**
      * Export current game state as a Blob (F098)
-     * This exports the entire WASM memory for save states.
+     * This exports the entire WASM memory, then the disk's length (2 bytes, little-endian)
+     * and its bytes.
      */
     exportState(): Blob | null {
+        const state = this.snapshotState();
+        return state ? new Blob([state], { type: 'application/octet-stream' }) : null;
+    }
+
+    /**
+     * The bytes of exportState()
+     */
+    private snapshotState(): Uint8Array | null {
         if (!this.memory) return null;
 
         // Export the entire memory buffer
         const memoryData = new Uint8Array(this.memory.buffer);
-        return new Blob([memoryData], { type: 'application/octet-stream' });
+        const state = new Uint8Array(memoryData.length + 2 + this.disk.length);
+        state.set(memoryData);
+        new DataView(state.buffer).setUint16(memoryData.length, this.disk.length, true);
+        state.set(this.disk, memoryData.length + 2);
+        return state;
+    }
+
+    /**
+     * Restore memory, and the disk if the state has one, from exported state bytes
+     */
+    private restoreState(savedData: Uint8Array): boolean {
+        if (!this.memory) return false;
+        const memoryData = new Uint8Array(this.memory.buffer);
+
+        // Validate size matches; states saved before disks hold memory only
+        const hasDisk = savedData.length > memoryData.length;
+        const diskLength =
+            savedData.length >= memoryData.length + 2
+                ? new DataView(savedData.buffer, savedData.byteOffset).getUint16(memoryData.length, true)
+                : 0;
+        const expectedLength = hasDisk ? memoryData.length + 2 + diskLength : memoryData.length;
+        if (savedData.length !== expectedLength || diskLength > DISK_SIZE) {
+            console.error('[Wasm4Runtime] Save state size mismatch');
+            return false;
+        }
+
+        // Restore memory and disk
+        memoryData.set(savedData.subarray(0, memoryData.length));
+        if (hasDisk) {
+            this.disk = savedData.slice(memoryData.length + 2);
+        }
+        return true;
     }
 
     /**
@@ -526,21 +995,16 @@ export class Wasm4Runtime {
      * This restores the entire WASM memory from a save state.
      */
     async importState(stateBlob: Blob): Promise<boolean> {
-        if (!this.memory) return false;
+        // A recording or replay only holds together if nothing jumps in between frames
+        if (!this.memory || this.recording || this.playback) return false;
 
         try {
-            const arrayBuffer = await stateBlob.arrayBuffer();
-            const savedData = new Uint8Array(arrayBuffer);
-            const memoryData = new Uint8Array(this.memory.buffer);
-
-            // Validate size matches
-            if (savedData.length !== memoryData.length) {
-                console.error('[Wasm4Runtime] Save state size mismatch');
-                return false;
+            const savedData = new Uint8Array(await stateBlob.arrayBuffer());
+            const diskBefore = this.disk;
+            if (!this.restoreState(savedData)) return false;
+            if (this.disk !== diskBefore) {
+                this.callbacks.onDiskWrite?.(this.getDisk());
             }
-
-            // Restore memory
-            memoryData.set(savedData);
             return true;
         } catch (error) {
             console.error('[Wasm4Runtime] Failed to import state:', error);
@@ -560,10 +1024,16 @@ export class Wasm4Runtime {
         if (this.keyUpHandler) {
             window.removeEventListener('keyup', this.keyUpHandler);
         }
+        if (this.controllersHandler) {
+            window.removeEventListener('gamepadconnected', this.controllersHandler);
+            window.removeEventListener('gamepaddisconnected', this.controllersHandler);
+        }
 
-        if (this.audioCtx) {
-            this.audioCtx.close();
-            this.audioCtx = null;
+        if (this.audio) {
+            const { context } = this.audio;
+            if (context instanceof AudioContext) void context.close();
+            this.audio = null;
+            this.isAudioRunning = false;
         }
 
         this.canvas = null;
@@ -1620,53 +2090,64 @@ export class Wasm4Runtime {
     }
 
     // Sound
-    private tone(_frequency: number, _duration: number, _volume: number, _flags: number): void {
-        // TODO: Implement sound synthesis
+    private tone(frequency: number, duration: number, volume: number, flags: number): void {
+        this.audio?.apu.tone(frequency, duration, volume, flags);
     }
 
     // Storage
-    private diskr(_destPtr: number, _size: number): number {
-        // TODO: Implement disk read
-        return 0;
+    /**
+     * Copy up to `size` bytes of the disk into memory; returns the number of bytes read
+     */
+    private diskr(destPtr: number, size: number): number {
+        const ptr = destPtr >>> 0;
+        if (!this.memory || ptr > this.memory.buffer.byteLength) return 0;
+        const length = Math.min(size >>> 0, this.disk.length, this.memory.buffer.byteLength - ptr);
+        new Uint8Array(this.memory.buffer, ptr, length).set(this.disk.subarray(0, length));
+        return length;
     }
 
-    private diskw(_srcPtr: number, _size: number): number {
-        // TODO: Implement disk write
-        return 0;
+    /**
+     * Replace the disk with up to 1024 bytes of memory; returns the number of bytes written
+     */
+    private diskw(srcPtr: number, size: number): number {
+        const ptr = srcPtr >>> 0;
+        if (!this.memory || ptr > this.memory.buffer.byteLength) return 0;
+        const length = Math.min(size >>> 0, DISK_SIZE, this.memory.buffer.byteLength - ptr);
+        this.disk = new Uint8Array(this.memory.buffer, ptr, length).slice();
+        if (!this.playback) {
+            this.callbacks.onDiskWrite?.(this.getDisk());
+        }
+        return length;
     }
 
     // Debug
+    private emitTrace(message: string): void {
+        console.log('[WASM-4]', message);
+        this.callbacks.onTrace?.(message);
+    }
+
     private trace(strPtr: number): void {
         if (!this.memory) return;
-        const mem = new Uint8Array(this.memory.buffer);
-        let str = '';
-        for (let i = strPtr; i < mem.length; i++) {
-            const char = mem[i];
-            if (!char) break;
-            str += String.fromCharCode(char);
-        }
-        console.log('[WASM-4]', str);
+        this.emitTrace(readCString(new Uint8Array(this.memory.buffer), strPtr >>> 0));
     }
 
     private traceUtf8(strPtr: number, byteLength: number): void {
         if (!this.memory) return;
         const mem = new Uint8Array(this.memory.buffer);
         const bytes = mem.slice(strPtr, strPtr + byteLength);
-        const str = new TextDecoder().decode(bytes);
-        console.log('[WASM-4]', str);
+        this.emitTrace(new TextDecoder().decode(bytes));
     }
 
     private traceUtf16(strPtr: number, byteLength: number): void {
         if (!this.memory) return;
         const mem = new Uint8Array(this.memory.buffer);
         const bytes = mem.slice(strPtr, strPtr + byteLength);
-        const str = new TextDecoder('utf-16le').decode(bytes);
-        console.log('[WASM-4]', str);
+        this.emitTrace(new TextDecoder('utf-16le').decode(bytes));
     }
 
-    private tracef(_fmtPtr: number, _stackPtr: number): void {
-        // TODO: Implement formatted trace
-        console.log('[WASM-4] tracef called');
+    private tracef(fmtPtr: number, stackPtr: number): void {
+        if (!this.memory) return;
+        this.emitTrace(formatTracef(this.memory.buffer, fmtPtr, stackPtr));
     }
 }
 
@@ -7,3 +7,4 @@
 export { Arcade } from './Arcade';
 export { Wasm4Runtime } from './Wasm4Runtime';
 export * from './Wasm4Runtime';
+export * from './Wasm4Apu';
@@ -0,0 +1,60 @@
+import React from 'react';
+import { FormField, Select } from '../../components/ui';
+import { usePhoneMode } from '../../hooks';
+import { formatReminderLead, getEventReminders } from '../../utils/calendarEvents';
+import type { EventScheduleFields } from './types';
+
+interface RemindersFieldProps {
+    value: EventScheduleFields;
+    onChange: (patch: Partial<EventScheduleFields>) => void;
+}
+
+/** Reminder times offered, in minutes before the start */
+const REMINDER_CHOICES = [0, 5, 10, 15, 30, 60, 120, 1440];
+
+const formatReminder = (minutes: number) => (minutes === 0 ? 'At start time' : `${formatReminderLead(minutes)} before`);
+
+/**
+ * RemindersField - Notifications before an event starts
+ */
+export const RemindersField: React.FC<RemindersFieldProps> = ({ value, onChange }) => {
+    const isPhone = usePhoneMode();
+    const reminders = getEventReminders(value);
+    const available = REMINDER_CHOICES.filter(minutes => !reminders.includes(minutes));
+
+    const setReminders = (next: number[]) => onChange({ reminders: [...new Set(next)].sort((a, b) => a - b) });
+
+    return (
+        <FormField label="Reminders">
+            <div className="flex flex-wrap items-center gap-1.5">
+                {reminders.map(minutes => (
+                    <span
+                        key={minutes}
+                        className="flex items-center gap-1 pl-2.5 pr-1 h-7 rounded-full bg-white/10 text-xs text-white/80"
+                    >
+                        <span className="material-symbols-outlined text-[14px] text-white/50">notifications</span>
+                        {formatReminder(minutes)}
+                        <button
+                            type="button"
+                            onClick={() => setReminders(reminders.filter(m => m !== minutes))}
+                            className="w-5 h-5 rounded-full hover:bg-white/10 text-white/50 hover:text-white flex items-center justify-center"
+                            title="Remove reminder"
+                        >
+                            <span className="material-symbols-outlined text-[14px]">close</span>
+                        </button>
+                    </span>
+                ))}
+                {available.length > 0 && (
+                    <Select
+                        aria-label="Add reminder"
+                        value=""
+                        placeholder="Add reminder"
+                        options={available.map(minutes => ({ value: String(minutes), label: formatReminder(minutes) }))}
+                        onChange={minutes => setReminders([...reminders, Number(minutes)])}
+                        size={isPhone ? 'md' : 'sm'}
+                    />
+                )}
+            </div>
+        </FormField>
+    );
+};
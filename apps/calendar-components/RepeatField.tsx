@@ -0,0 +1,231 @@
+import React, { useMemo } from 'react';
+import { FormField, Select } from '../../components/ui';
+import { usePhoneMode } from '../../hooks';
+import { fromYmd, toYmd } from '../../utils/dateUtils';
+import { describeRecurrence, getEventRule } from '../../utils/calendarEvents';
+import {
+    formatRecurrenceRule,
+    parseDateTime,
+    toDate,
+    WEEKDAYS,
+    type ICalFrequency,
+    type RecurrenceRule,
+} from '../../utils/ical';
+import type { EventScheduleFields } from './types';
+
+interface RepeatFieldProps {
+    value: EventScheduleFields;
+    onChange: (patch: Partial<EventScheduleFields>) => void;
+}
+
+type RepeatChoice = 'none' | 'custom' | Extract<ICalFrequency, 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'>;
+type EndChoice = 'never' | 'until' | 'count';
+
+const UNITS: Record<string, string> = { DAILY: 'days', WEEKLY: 'weeks', MONTHLY: 'months', YEARLY: 'years' };
+
+const WEEKDAY_INITIALS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const PHONE_INPUT_CLASS =
+    'w-full h-11 px-3 rounded-lg bg-black/30 border border-white/10 text-sm focus:outline-none focus:border-primary';
+const INPUT_CLASS =
+    'w-full h-9 px-3 rounded-lg bg-black/30 border border-white/10 text-sm text-white/80 focus:outline-none focus:border-primary/60 focus:ring-1 focus:ring-primary/30';
+
+/**
+ * Whether the editor can show a rule without losing parts of it
+ */
+const isSimpleRule = (rule: RecurrenceRule) =>
+    rule.freq in UNITS &&
+    !rule.bySecond &&
+    !rule.byMinute &&
+    !rule.byHour &&
+    !rule.byMonthDay &&
+    !rule.byYearDay &&
+    !rule.byWeekNo &&
+    !rule.byMonth &&
+    !rule.bySetPos &&
+    (!rule.byDay || (rule.freq === 'WEEKLY' && rule.byDay.every(day => !day.ordinal)));
+
+const formatDateLabel = (ymd: string) =>
+    fromYmd(ymd).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * RepeatField - How an event repeats, and which occurrences are skipped.
+ * Rules the editor cannot show (imported from other calendars) are kept as they are
+ * unless a different repeat is picked.
+ */
+export const RepeatField: React.FC<RepeatFieldProps> = ({ value, onChange }) => {
+    const isPhone = usePhoneMode();
+    const inputClassName = isPhone ? PHONE_INPUT_CLASS : INPUT_CLASS;
+    const rule = useMemo(() => getEventRule(value), [value]);
+    const simple = rule !== null && isSimpleRule(rule);
+    const choice: RepeatChoice = !rule ? 'none' : simple ? (rule.freq as RepeatChoice) : 'custom';
+    const endChoice: EndChoice = rule?.until ? 'until' : rule?.count ? 'count' : 'never';
+    const exdates = value.exdates ?? [];
+
+    const setRule = (next: RecurrenceRule | null) =>
+        onChange(next ? { rrule: formatRecurrenceRule(next) } : { rrule: undefined, exdates: undefined });
+
+    const updateRule = (patch: Partial<RecurrenceRule>) => {
+        if (rule) setRule({ ...rule, ...patch });
+    };
+
+    const handleChoice = (next: RepeatChoice) => {
+        if (next === 'custom') return;
+        if (next === 'none') {
+            setRule(null);
+            return;
+        }
+        setRule({ freq: next, interval: 1, wkst: 'MO', until: rule?.until, count: rule?.count });
+    };
+
+    const handleEndChoice = (next: EndChoice) => {
+        if (next === 'never') updateRule({ until: undefined, count: undefined });
+        if (next === 'until') {
+            // Default to a month after the first occurrence
+            const until = fromYmd(value.date);
+            until.setMonth(until.getMonth() + 1);
+            updateRule({ until: parseDateTime(toYmd(until).replace(/-/g, '')), count: undefined });
+        }
+        if (next === 'count') updateRule({ until: undefined, count: 10 });
+    };
+
+    const toggleWeekday = (index: number) => {
+        if (!rule) return;
+        const weekday = WEEKDAYS[index];
+        if (!weekday) return;
+        // Without BYDAY a weekly event repeats on the weekday it starts on
+        const current = rule.byDay?.map(day => day.weekday) ?? [WEEKDAYS[fromYmd(value.date).getDay()] ?? 'MO'];
+        const next = current.includes(weekday) ? current.filter(day => day !== weekday) : [...current, weekday];
+        const sorted = WEEKDAYS.filter(day => next.includes(day));
+        updateRule({ byDay: sorted.length > 0 ? sorted.map(day => ({ weekday: day })) : undefined });
+    };
+
+    const selectedWeekdays = rule?.byDay?.map(day => day.weekday) ?? [WEEKDAYS[fromYmd(value.date).getDay()]];
+
+    return (
+        <div className="flex flex-col gap-3">
+            <div className="grid grid-cols-2 gap-3">
+                <FormField label="Repeat">
+                    <Select
+                        value={choice}
+                        onChange={handleChoice}
+                        options={[
+                            { value: 'none', label: 'Does not repeat' },
+                            { value: 'DAILY', label: 'Daily' },
+                            { value: 'WEEKLY', label: 'Weekly' },
+                            { value: 'MONTHLY', label: 'Monthly' },
+                            { value: 'YEARLY', label: 'Yearly' },
+                            ...(choice === 'custom'
+                                ? [{ value: 'custom' as const, label: describeRecurrence(value) ?? 'Custom' }]
+                                : []),
+                        ]}
+                        size={isPhone ? 'lg' : 'md'}
+                        className="w-full"
+                    />
+                </FormField>
+                {rule && simple && (
+                    <FormField label={`Every (${UNITS[rule.freq]})`}>
+                        <input
+                            type="number"
+                            min={1}
+                            max={99}
+                            value={rule.interval}
+                            onChange={e =>
+                                updateRule({ interval: Math.max(1, Math.floor(Number(e.target.value)) || 1) })
+                            }
+                            className={inputClassName}
+                        />
+                    </FormField>
+                )}
+            </div>
+
+            {rule && simple && rule.freq === 'WEEKLY' && (
+                <div className="flex gap-1.5" role="group" aria-label="Repeat on">
+                    {WEEKDAY_INITIALS.map((initial, index) => {
+                        const active = selectedWeekdays.includes(WEEKDAYS[index]);
+                        return (
+                            <button
+                                key={index}
+                                type="button"
+                                onClick={() => toggleWeekday(index)}
+                                aria-pressed={active}
+                                title={WEEKDAYS[index]}
+                                className={`w-8 h-8 rounded-full text-xs font-medium ${active ? 'bg-primary text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'}`}
+                            >
+                                {initial}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {rule && simple && (
+                <div className="grid grid-cols-2 gap-3">
+                    <FormField label="Ends">
+                        <Select
+                            value={endChoice}
+                            onChange={handleEndChoice}
+                            options={[
+                                { value: 'never', label: 'Never' },
+                                { value: 'until', label: 'On date' },
+                                { value: 'count', label: 'After' },
+                            ]}
+                            size={isPhone ? 'lg' : 'md'}
+                            className="w-full"
+                        />
+                    </FormField>
+                    {rule.until && (
+                        <FormField label="Last date">
+                            <input
+                                type="date"
+                                value={toYmd(toDate(rule.until))}
+                                min={value.date}
+                                onChange={e => {
+                                    if (e.target.value)
+                                        updateRule({ until: parseDateTime(e.target.value.replace(/-/g, '')) });
+                                }}
+                                className={inputClassName}
+                            />
+                        </FormField>
+                    )}
+                    {!rule.until && rule.count !== undefined && (
+                        <FormField label="Occurrences">
+                            <input
+                                type="number"
+                                min={1}
+                                max={999}
+                                value={rule.count}
+                                onChange={e =>
+                                    updateRule({ count: Math.max(1, Math.floor(Number(e.target.value)) || 1) })
+                                }
+                                className={inputClassName}
+                            />
+                        </FormField>
+                    )}
+                </div>
+            )}
+
+            {rule && exdates.length > 0 && (
+                <div className="text-xs text-white/60 flex flex-wrap items-center gap-1.5">
+                    <span>Skipped:</span>
+                    {exdates.map(ymd => (
+                        <span key={ymd} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-white/10">
+                            {formatDateLabel(ymd)}
+                            <button
+                                type="button"
+                                onClick={() => {
+                                    const rest = exdates.filter(day => day !== ymd);
+                                    onChange({ exdates: rest.length > 0 ? rest : undefined });
+                                }}
+                                className="text-white/50 hover:text-white"
+                                title="Restore this occurrence"
+                            >
+                                <span className="material-symbols-outlined text-[14px]">undo</span>
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,389 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { addDays, fromYmd, pad2, toYmd } from '../../utils/dateUtils';
+import { getOccurrenceDays, type CalendarOccurrence } from '../../utils/calendarEvents';
+
+/** Height of one hour in pixels */
+const HOUR_HEIGHT = 48;
+/** Drags snap to this many minutes */
+const SNAP_MINUTES = 15;
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60_000;
+
+interface TimelineViewProps {
+    /** Days to show as columns (YYYY-MM-DD): seven for the week view, one for the day view */
+    days: string[];
+    occurrences: CalendarOccurrence[];
+    todayYmd: string;
+    formatTime: (hm: string) => string;
+    /** Called after dragging across empty time, or clicking it for a one-hour event */
+    onCreate: (date: string, startTime: string, endTime: string) => void;
+    /** Called after dragging an event; `startTime` is omitted for all-day events */
+    onMove: (occurrence: CalendarOccurrence, date: string, startTime?: string) => void;
+    onSelect: (occurrence: CalendarOccurrence) => void;
+    onSelectDay: (date: string) => void;
+}
+
+type DragState =
+    | { kind: 'create'; dayIndex: number; startMinute: number; currentMinute: number }
+    | {
+          kind: 'move';
+          occurrence: CalendarOccurrence;
+          originDayIndex: number;
+          originMinute: number;
+          dayIndex: number;
+          currentMinute: number;
+      };
+
+interface Segment {
+    occurrence: CalendarOccurrence;
+    top: number;
+    height: number;
+    lane: number;
+    lanes: number;
+}
+
+const snap = (minute: number) => Math.round(minute / SNAP_MINUTES) * SNAP_MINUTES;
+
+const clampMinute = (minute: number) => Math.min(DAY_MINUTES, Math.max(0, minute));
+
+const minuteToHm = (minute: number) => `${pad2(Math.floor(minute / 60) % 24)}:${pad2(minute % 60)}`;
+
+/**
+ * Place a day's timed occurrences, splitting overlapping ones into side-by-side lanes
+ */
+const layoutDay = (day: string, occurrences: CalendarOccurrence[]): Segment[] => {
+    const dayStart = fromYmd(day).getTime();
+    const dayEnd = addDays(fromYmd(day), 1).getTime();
+    const segments = occurrences
+        .filter(
+            o =>
+                !o.event.allDay &&
+                o.start.getTime() < dayEnd &&
+                Math.max(o.end.getTime(), o.start.getTime() + 1) > dayStart
+        )
+        .map(occurrence => {
+            const start = Math.max(occurrence.start.getTime(), dayStart);
+            const end = Math.min(Math.max(occurrence.end.getTime(), start + SNAP_MINUTES * MINUTE_MS), dayEnd);
+            return { occurrence, start, end, lane: 0 };
+        })
+        .sort((a, b) => a.start - b.start || b.end - a.end);
+
+    const laneEnds: number[] = [];
+    for (const segment of segments) {
+        const free = laneEnds.findIndex(end => end <= segment.start);
+        segment.lane = free === -1 ? laneEnds.length : free;
+        laneEnds[segment.lane] = segment.end;
+    }
+    return segments.map(({ occurrence, start, end, lane }) => ({
+        occurrence,
+        top: ((start - dayStart) / MINUTE_MS / 60) * HOUR_HEIGHT,
+        height: Math.max(((end - start) / MINUTE_MS / 60) * HOUR_HEIGHT, 18),
+        lane,
+        lanes: laneEnds.length,
+    }));
+};
+
+/**
+ * TimelineView - Week and day views: an all-day row above hour-by-hour columns.
+ * Drag across empty time to create an event; drag an event to move it.
+ */
+export const TimelineView: React.FC<TimelineViewProps> = ({
+    days,
+    occurrences,
+    todayYmd,
+    formatTime,
+    onCreate,
+    onMove,
+    onSelect,
+    onSelectDay,
+}) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const bodyRef = useRef<HTMLDivElement>(null);
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [now, setNow] = useState(() => new Date());
+
+    // Start at working hours
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = 8 * HOUR_HEIGHT;
+    }, []);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 60_000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const segmentsByDay = useMemo(() => days.map(day => layoutDay(day, occurrences)), [days, occurrences]);
+
+    const allDayByDay = useMemo(
+        () => days.map(day => occurrences.filter(o => o.event.allDay && getOccurrenceDays(o).includes(day))),
+        [days, occurrences]
+    );
+
+    const getSlot = (event: React.PointerEvent) => {
+        const rect = bodyRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return { dayIndex: 0, minute: 0 };
+        const dayIndex = Math.min(
+            days.length - 1,
+            Math.max(0, Math.floor(((event.clientX - rect.left) / rect.width) * days.length))
+        );
+        const minute = clampMinute(((event.clientY - rect.top) / HOUR_HEIGHT) * 60);
+        return { dayIndex, minute };
+    };
+
+    const handleBackgroundPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (event.button !== 0) return;
+        const { dayIndex, minute } = getSlot(event);
+        const start = Math.floor(minute / SNAP_MINUTES) * SNAP_MINUTES;
+        event.currentTarget.setPointerCapture?.(event.pointerId);
+        setDrag({ kind: 'create', dayIndex, startMinute: start, currentMinute: start });
+    };
+
+    const handleEventPointerDown = (event: React.PointerEvent, occurrence: CalendarOccurrence) => {
+        if (event.button !== 0) return;
+        event.stopPropagation();
+        const { dayIndex, minute } = getSlot(event);
+        bodyRef.current?.setPointerCapture?.(event.pointerId);
+        setDrag({
+            kind: 'move',
+            occurrence,
+            originDayIndex: dayIndex,
+            originMinute: minute,
+            dayIndex,
+            currentMinute: minute,
+        });
+    };
+
+    const handlePointerMove = (event: React.PointerEvent) => {
+        if (!drag) return;
+        const { dayIndex, minute } = getSlot(event);
+        setDrag(
+            prev =>
+                prev && { ...prev, dayIndex: prev.kind === 'move' ? dayIndex : prev.dayIndex, currentMinute: minute }
+        );
+    };
+
+    /** Where a moved event would start, or null if it has not moved */
+    const getMovedStart = (state: Extract<DragState, { kind: 'move' }>): Date | null => {
+        const offset = snap(state.currentMinute - state.originMinute);
+        const dayOffset = state.dayIndex - state.originDayIndex;
+        if (offset === 0 && dayOffset === 0) return null;
+        const start = addDays(state.occurrence.start, dayOffset);
+        start.setTime(start.getTime() + offset * MINUTE_MS);
+        return start;
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        setDrag(null);
+        if (drag.kind === 'create') {
+            const day = days[drag.dayIndex];
+            if (!day) return;
+            const end = snap(drag.currentMinute);
+            const from = Math.min(drag.startMinute, end);
+            const to = Math.max(drag.startMinute, end);
+            // A click (or a drag shorter than a slot) creates a one-hour event
+            const length = to - from >= SNAP_MINUTES ? to - from : 60;
+            const startMinute = Math.min(from, DAY_MINUTES - length);
+            onCreate(day, minuteToHm(startMinute), minuteToHm(Math.min(startMinute + length, DAY_MINUTES - 1)));
+            return;
+        }
+        const start = getMovedStart(drag);
+        if (!start) {
+            onSelect(drag.occurrence);
+            return;
+        }
+        onMove(drag.occurrence, toYmd(start), `${pad2(start.getHours())}:${pad2(start.getMinutes())}`);
+    };
+
+    const renderPreview = (dayIndex: number) => {
+        if (!drag || drag.dayIndex !== dayIndex) return null;
+        if (drag.kind === 'create') {
+            const end = snap(drag.currentMinute);
+            const from = Math.min(drag.startMinute, end);
+            const to = Math.max(drag.startMinute, end, from + SNAP_MINUTES);
+            return (
+                <div
+                    className="absolute left-1 right-1 rounded-md bg-primary/30 border border-primary/60 pointer-events-none text-[10px] px-1.5 text-white/90"
+                    style={{ top: (from / 60) * HOUR_HEIGHT, height: ((to - from) / 60) * HOUR_HEIGHT }}
+                >
+                    {formatTime(minuteToHm(from))} – {formatTime(minuteToHm(Math.min(to, DAY_MINUTES - 1)))}
+                </div>
+            );
+        }
+        const start = getMovedStart(drag);
+        if (!start) return null;
+        const minutes = start.getHours() * 60 + start.getMinutes();
+        const length = (drag.occurrence.end.getTime() - drag.occurrence.start.getTime()) / MINUTE_MS;
+        return (
+            <div
+                className="absolute left-1 right-1 rounded-md border-2 border-dashed border-primary/70 bg-primary/10 pointer-events-none text-[10px] px-1.5 text-white/90"
+                style={{
+                    top: (minutes / 60) * HOUR_HEIGHT,
+                    height: (Math.max(Math.min(length, DAY_MINUTES - minutes), SNAP_MINUTES) / 60) * HOUR_HEIGHT,
+                }}
+            >
+                {formatTime(`${pad2(start.getHours())}:${pad2(start.getMinutes())}`)} · {drag.occurrence.event.title}
+            </div>
+        );
+    };
+
+    const nowMinute = now.getHours() * 60 + now.getMinutes();
+    const gridColumns = { gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` };
+
+    return (
+        <div className="h-full flex flex-col min-h-0 select-none">
+            {/* Day headers */}
+            <div className="flex shrink-0 pl-14 pr-2">
+                <div className="flex-1 grid" style={gridColumns}>
+                    {days.map(day => {
+                        const date = fromYmd(day);
+                        const isToday = day === todayYmd;
+                        return (
+                            <button
+                                key={day}
+                                type="button"
+                                onClick={() => onSelectDay(day)}
+                                className="py-2 flex flex-col items-center hover:bg-white/5 rounded-lg"
+                            >
+                                <span className="text-[11px] text-white/50">
+                                    {date.toLocaleDateString(undefined, { weekday: 'short' })}
+                                </span>
+                                <span
+                                    className={`text-lg font-medium w-8 h-8 flex items-center justify-center rounded-full ${isToday ? 'bg-primary text-white' : 'text-white/80'}`}
+                                >
+                                    {date.getDate()}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* All-day events; drop one on another day to move it */}
+            <div className="flex shrink-0 border-b border-white/10 pl-14 pr-2 relative">
+                <span className="absolute left-2 top-1.5 text-[10px] text-white/40">All day</span>
+                <div className="flex-1 grid min-h-[28px]" style={gridColumns}>
+                    {days.map((day, dayIndex) => (
+                        <div
+                            key={day}
+                            className="p-0.5 flex flex-col gap-0.5 border-l border-white/5"
+                            onDragOver={event => event.preventDefault()}
+                            onDrop={event => {
+                                event.preventDefault();
+                                const key = event.dataTransfer.getData('text/plain');
+                                const occurrence = allDayByDay.flat().find(o => `${o.event.id}@${o.date}` === key);
+                                if (occurrence && occurrence.date !== day) {
+                                    // Keep the grabbed day under the pointer
+                                    const grabbed = Number(event.dataTransfer.getData('application/x-day-offset')) || 0;
+                                    const target = addDays(fromYmd(day), -grabbed);
+                                    onMove(occurrence, toYmd(target));
+                                }
+                            }}
+                        >
+                            {(allDayByDay[dayIndex] ?? []).map(occurrence => (
+                                <button
+                                    key={`${occurrence.event.id}@${occurrence.date}`}
+                                    type="button"
+                                    draggable
+                                    onDragStart={event => {
+                                        event.dataTransfer.setData(
+                                            'text/plain',
+                                            `${occurrence.event.id}@${occurrence.date}`
+                                        );
+                                        event.dataTransfer.setData(
+                                            'application/x-day-offset',
+                                            String(getOccurrenceDays(occurrence).indexOf(day))
+                                        );
+                                    }}
+                                    onClick={() => onSelect(occurrence)}
+                                    className="text-[10px] text-left px-1.5 py-0.5 rounded bg-primary/30 text-white/90 truncate hover:bg-primary/40"
+                                    title={occurrence.event.title}
+                                >
+                                    {occurrence.event.title}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Hours */}
+            <div ref={scrollRef} className="flex-1 min-h-0 overflow-y-auto pr-2">
+                <div className="flex relative" style={{ height: 24 * HOUR_HEIGHT }}>
+                    <div className="w-14 shrink-0 relative">
+                        {Array.from({ length: 23 }, (_, i) => i + 1).map(hour => (
+                            <span
+                                key={hour}
+                                className="absolute right-2 -translate-y-1/2 text-[10px] text-white/40"
+                                style={{ top: hour * HOUR_HEIGHT }}
+                            >
+                                {formatTime(`${pad2(hour)}:00`)}
+                            </span>
+                        ))}
+                    </div>
+                    <div
+                        ref={bodyRef}
+                        className="flex-1 grid relative cursor-crosshair"
+                        style={gridColumns}
+                        onPointerDown={handleBackgroundPointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        data-testid="calendar-timeline"
+                    >
+                        {days.map((day, dayIndex) => (
+                            <div key={day} className="relative border-l border-white/5">
+                                {Array.from({ length: 24 }, (_, hour) => (
+                                    <div
+                                        key={hour}
+                                        className="absolute left-0 right-0 border-t border-white/5"
+                                        style={{ top: hour * HOUR_HEIGHT }}
+                                    />
+                                ))}
+                                {(segmentsByDay[dayIndex] ?? []).map(segment => {
+                                    const { occurrence } = segment;
+                                    const isDragged =
+                                        drag?.kind === 'move' &&
+                                        drag.occurrence.event.id === occurrence.event.id &&
+                                        drag.occurrence.date === occurrence.date;
+                                    return (
+                                        <div
+                                            key={`${occurrence.event.id}@${occurrence.date}`}
+                                            role="button"
+                                            tabIndex={0}
+                                            onPointerDown={event => handleEventPointerDown(event, occurrence)}
+                                            onKeyDown={event => {
+                                                if (event.key === 'Enter') onSelect(occurrence);
+                                            }}
+                                            className={`absolute rounded-md px-1.5 py-0.5 text-[11px] leading-tight overflow-hidden cursor-grab border border-primary/50 bg-primary/25 hover:bg-primary/35 text-white/90 ${isDragged ? 'opacity-40' : ''}`}
+                                            style={{
+                                                top: segment.top,
+                                                height: segment.height,
+                                                left: `calc(${(segment.lane / segment.lanes) * 100}% + 2px)`,
+                                                width: `calc(${100 / segment.lanes}% - 4px)`,
+                                            }}
+                                            title={occurrence.event.title}
+                                        >
+                                            <div className="font-medium truncate">{occurrence.event.title}</div>
+                                            <div className="text-white/60 truncate">
+                                                {formatTime(occurrence.event.startTime)}
+                                                {occurrence.event.location ? ` · ${occurrence.event.location}` : ''}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                                {day === todayYmd && (
+                                    <div
+                                        className="absolute left-0 right-0 h-0.5 bg-red-400 pointer-events-none"
+                                        style={{ top: (nowMinute / 60) * HOUR_HEIGHT }}
+                                    />
+                                )}
+                                {renderPreview(dayIndex)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
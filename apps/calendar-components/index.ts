@@ -0,0 +1,8 @@
+/**
+ * Calendar app components
+ * @module apps/calendar
+ */
+export { TimelineView } from './TimelineView';
+export { RepeatField } from './RepeatField';
+export { RemindersField } from './RemindersField';
+export type { CalendarView, EventDraft, EventScheduleFields } from './types';
@@ -0,0 +1,20 @@
+import type { CalendarEvent } from '../../utils/calendarEvents';
+
+/**
+ * CalendarView - Layouts of the Calendar's main area
+ */
+export type CalendarView = 'month' | 'week' | 'day';
+
+/**
+ * EventDraft - In-progress event edits before saving
+ */
+export type EventDraft = Omit<CalendarEvent, 'id'> & {
+    id?: string;
+    /** For an occurrence of a recurring event, the day it was opened from */
+    occurrenceDate?: string;
+};
+
+/**
+ * The recurrence and reminder fields of a draft
+ */
+export type EventScheduleFields = Pick<CalendarEvent, 'date' | 'allDay' | 'rrule' | 'exdates' | 'reminders'>;
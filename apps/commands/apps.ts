@@ -0,0 +1,86 @@
+/**
+ * Terminal commands for installed app packages
+ */
+import { completePath } from '../../utils/shell';
+import type { TerminalCommand } from '../../utils/shell';
+import { isVfsError, resolvePath } from '../../utils/vfs';
+import {
+    getPackagedAppId,
+    installAppPackageFromFile,
+    installAppPackageFromUrl,
+    isAppPackageError,
+    uninstallAppPackage,
+} from '../../utils/appPackages';
+
+export const appCommand: TerminalCommand = {
+    name: 'app',
+    description: 'Install, list and remove app packages',
+    subcommands: [
+        {
+            name: 'ls',
+            description: 'List installed app packages',
+            args: [],
+            run: async ({ services, stdout }) => {
+                const packages = await services.db.$appPackages.orderBy('name').toArray();
+                if (packages.length === 0) {
+                    stdout('No apps installed.');
+                    return 0;
+                }
+                packages.forEach(pkg => stdout(`  ${pkg.id.padEnd(24)} ${pkg.version.padEnd(10)} ${pkg.name}`));
+                return 0;
+            },
+        },
+        {
+            name: 'install',
+            description: 'Install or update a package from a file or URL',
+            args: [{ name: 'path-or-url' }],
+            complete: completePath,
+            run: async ({ args, cwd, services, stdout, stderr }) => {
+                const source = args[0] ?? '';
+                try {
+                    const record = /^https?:\/\//.test(source)
+                        ? await installAppPackageFromUrl(services.db, source)
+                        : await installAppPackageFromFile(services.db, resolvePath(cwd, source));
+                    stdout(`Installed ${record.name} ${record.version} (${record.id})`);
+                    return 0;
+                } catch (error) {
+                    if (!isAppPackageError(error) && !isVfsError(error)) throw error;
+                    stderr(`app: ${error.message}`);
+                    return 1;
+                }
+            },
+        },
+        {
+            name: 'open',
+            description: 'Open an installed app',
+            args: [{ name: 'id' }],
+            complete: async (_args, { services }) => (await services.db.$appPackages.toArray()).map(pkg => pkg.id),
+            run: async ({ args, services, stderr }) => {
+                const id = args[0] ?? '';
+                if (!(await services.db.$appPackages.get(id))) {
+                    stderr(`app: not installed: ${id}`);
+                    return 1;
+                }
+                services.openWindow(getPackagedAppId(id));
+                return 0;
+            },
+        },
+        {
+            name: 'rm',
+            description: 'Uninstall an app package',
+            args: [{ name: 'id' }],
+            complete: async (_args, { services }) => (await services.db.$appPackages.toArray()).map(pkg => pkg.id),
+            run: async ({ args, services, stdout, stderr }) => {
+                const id = args[0] ?? '';
+                const pkg = await services.db.$appPackages.get(id);
+                if (!pkg) {
+                    stderr(`app: not installed: ${id}`);
+                    return 1;
+                }
+                await uninstallAppPackage(services.db, id);
+                stdout(`Uninstalled ${pkg.name}`);
+                return 0;
+            },
+        },
+    ],
+};
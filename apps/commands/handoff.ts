@@ -0,0 +1,37 @@
+/**
+ * Terminal commands for the Handoff app
+ */
+import type { TerminalCommand } from '../../utils/shell';
+import type { HandoffItem } from '../../types';
+import { storageService } from '../../utils/storage';
+import { DEVICE_LABEL_KEY, getDeviceId } from '../../hooks/useHandoff';
+
+export const handoffCommand: TerminalCommand = {
+    name: 'handoff',
+    description: 'Send links and text to your other devices',
+    subcommands: [
+        {
+            name: 'send',
+            description: 'Queue a URL or text for your other devices',
+            args: [{ name: 'url-or-text', variadic: true }],
+            run: async ({ args, services, stdout }) => {
+                const text = args.join(' ');
+                const isUrl = /^https?:\/\//.test(text);
+                const item: Omit<HandoffItem, 'id'> = {
+                    kind: isUrl ? 'url' : 'text',
+                    target: isUrl ? text : '',
+                    text,
+                    title: isUrl ? new URL(text).hostname : undefined,
+                    targetCategory: 'any',
+                    createdAt: Date.now(),
+                    createdByDeviceId: getDeviceId(),
+                    createdByLabel: (await storageService.get<string>(DEVICE_LABEL_KEY)) ?? 'Browser',
+                    status: 'new',
+                };
+                // Let Dexie Cloud auto-generate the ID when using @id schema
+                await services.db.handoffItems.add(item as HandoffItem);
+                stdout(`Sent ${item.kind === 'url' ? 'link' : 'text'} to the handoff queue.`);
+            },
+        },
+    ],
+};
@@ -0,0 +1,9 @@
+/**
+ * Terminal commands contributed by apps (see `commands` in apps/registry.ts)
+ */
+export { todoCommand } from './todo';
+export { mailCommand } from './mail';
+export { handoffCommand } from './handoff';
+export { wallpaperCommand } from './wallpaper';
+export { appCommand } from './apps';
+export { workspaceCommand } from './workspace';
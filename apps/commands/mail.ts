@@ -0,0 +1,40 @@
+/**
+ * Terminal commands for the Mail app
+ */
+import type { TerminalCommand } from '../../utils/shell';
+import type { MailFolderId } from '../../utils/storage/db';
+
+const FOLDERS: MailFolderId[] = ['inbox', 'sent', 'drafts', 'trash'];
+
+export const mailCommand: TerminalCommand = {
+    name: 'mail',
+    description: 'Read mail from the terminal',
+    subcommands: [
+        {
+            name: 'ls',
+            description: 'List messages in a folder (default: inbox)',
+            args: [{ name: 'folder', optional: true, description: FOLDERS.join(', ') }],
+            complete: () => FOLDERS,
+            run: async ({ args, services, stdout, stderr }) => {
+                const folder = (args[0] ?? 'inbox').toLowerCase() as MailFolderId;
+                if (!FOLDERS.includes(folder)) {
+                    stderr(`Unknown folder: ${args[0]}`);
+                    return 1;
+                }
+
+                const emails = await services.db.emails.where('folderId').equals(folder).reverse().sortBy('date');
+                if (emails.length === 0) {
+                    stdout(`No messages in ${folder}.`);
+                    return 0;
+                }
+
+                emails.forEach(email => {
+                    const date = new Date(email.date).toLocaleDateString();
+                    const peer = folder === 'sent' || folder === 'drafts' ? email.to.join(', ') : email.from;
+                    stdout(`${email.isRead ? ' ' : '*'} ${date.padEnd(10)}  ${peer.padEnd(28)}  ${email.subject}`);
+                });
+                return 0;
+            },
+        },
+    ],
+};
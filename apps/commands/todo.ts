@@ -0,0 +1,78 @@
+/**
+ * Terminal commands for the Todo List app
+ */
+import type { TerminalCommand } from '../../utils/shell';
+import type { TodoRecord, Windows15DexieDB } from '../../utils/storage/db';
+import { generateUuid } from '../../utils/uuid';
+
+/**
+ * Todos in the order the Todo List shows them
+ */
+const getSortedTodos = async (db: Windows15DexieDB): Promise<TodoRecord[]> => {
+    const todos = await db.todos.toArray();
+    const order = (todo: TodoRecord) => (typeof todo.sortOrder === 'number' ? todo.sortOrder : todo.createdAt);
+    return todos.sort((a, b) => order(a) - order(b));
+};
+
+export const todoCommand: TerminalCommand = {
+    name: 'todo',
+    description: 'Manage the todo list',
+    subcommands: [
+        {
+            name: 'ls',
+            description: 'List todos with their numbers',
+            args: [],
+            run: async ({ services, stdout }) => {
+                const todos = await getSortedTodos(services.db);
+                if (todos.length === 0) {
+                    stdout('No todos.');
+                    return 0;
+                }
+                todos.forEach((todo, index) => {
+                    stdout(`${String(index + 1).padStart(3)}. [${todo.completed ? 'x' : ' '}] ${todo.text}`);
+                });
+                return 0;
+            },
+        },
+        {
+            name: 'add',
+            description: 'Add a todo to the top of the list',
+            args: [{ name: 'text', variadic: true }],
+            run: async ({ args, services, stdout }) => {
+                const todos = await getSortedTodos(services.db);
+                const first = todos[0];
+                const now = Date.now();
+                const text = args.join(' ');
+                await services.db.todos.add({
+                    id: `tds${generateUuid()}`,
+                    text,
+                    completed: false,
+                    sortOrder: first ? (first.sortOrder ?? first.createdAt) - 1 : 0,
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                stdout(`Added: ${text}`);
+            },
+        },
+        {
+            name: 'done',
+            description: 'Mark a todo as completed',
+            args: [{ name: 'number', description: 'Number shown by "todo ls"' }],
+            complete: async (_args, { services }) => {
+                const todos = await getSortedTodos(services.db);
+                return todos.map((todo, index) => (todo.completed ? '' : String(index + 1))).filter(Boolean);
+            },
+            run: async ({ args, services, stdout, stderr }) => {
+                const todos = await getSortedTodos(services.db);
+                const todo = todos[Number(args[0]) - 1];
+                if (!todo) {
+                    stderr(`No todo number ${args[0]}.`);
+                    return 1;
+                }
+                await services.db.todos.update(todo.id, { completed: true, updatedAt: Date.now() });
+                stdout(`Completed: ${todo.text}`);
+                return 0;
+            },
+        },
+    ],
+};
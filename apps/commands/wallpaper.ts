@@ -0,0 +1,42 @@
+/**
+ * Terminal commands for wallpapers
+ */
+import type { TerminalCommand } from '../../utils/shell';
+import { WALLPAPERS } from '../../utils/constants';
+
+/** Wallpaper names as typed in the terminal (`desert-dunes`) */
+const toSlug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+export const wallpaperCommand: TerminalCommand = {
+    name: 'wallpaper',
+    description: 'List or change the desktop wallpaper',
+    subcommands: [
+        {
+            name: 'ls',
+            description: 'List built-in wallpapers',
+            args: [],
+            run: ({ stdout }) => {
+                WALLPAPERS.forEach(wallpaper => stdout(`  ${toSlug(wallpaper.name).padEnd(18)} ${wallpaper.name}`));
+            },
+        },
+        {
+            name: 'set',
+            description: 'Set the wallpaper by name or image URL',
+            args: [{ name: 'name-or-url' }],
+            complete: () => WALLPAPERS.map(wallpaper => toSlug(wallpaper.name)),
+            run: async ({ args, services, stdout, stderr }) => {
+                const value = args[0] ?? '';
+                const wallpaper = WALLPAPERS.find(w => toSlug(w.name) === toSlug(value));
+                const url = wallpaper?.url ?? (/^https?:\/\//.test(value) ? value : null);
+                if (!url) {
+                    stderr(`Unknown wallpaper: ${value}`);
+                    stderr('Use "wallpaper ls" to see available wallpapers.');
+                    return 1;
+                }
+                await services.setWallpaper(url);
+                stdout(`Wallpaper changed to: ${wallpaper?.name ?? url}`);
+                return 0;
+            },
+        },
+    ],
+};
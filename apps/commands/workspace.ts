@@ -0,0 +1,74 @@
+/**
+ * Terminal commands for named workspaces
+ */
+import type { TerminalCommand } from '../../utils/shell';
+import { deleteWorkspace, listWorkspaces } from '../../utils/workspaces';
+
+const completeWorkspaceNames: TerminalCommand['complete'] = async (_args, { services }) =>
+    (await listWorkspaces(services.db)).map(workspace => workspace.name);
+
+export const workspaceCommand: TerminalCommand = {
+    name: 'workspace',
+    description: 'Save and open named sets of windows',
+    subcommands: [
+        {
+            name: 'ls',
+            description: 'List saved workspaces',
+            args: [],
+            run: async ({ services, stdout }) => {
+                const workspaces = await listWorkspaces(services.db);
+                if (workspaces.length === 0) {
+                    stdout('No workspaces saved.');
+                    return 0;
+                }
+                workspaces.forEach(workspace => {
+                    const count = workspace.snapshot.windows.length;
+                    stdout(`  ${workspace.name.padEnd(24)} ${count} window${count === 1 ? '' : 's'}`);
+                });
+                return 0;
+            },
+        },
+        {
+            name: 'save',
+            description: 'Save the windows on this desktop and the wallpaper',
+            args: [{ name: 'name', variadic: true }],
+            complete: completeWorkspaceNames,
+            run: async ({ args, services, stdout }) => {
+                const name = args.join(' ');
+                await services.saveWorkspace(name);
+                stdout(`Saved workspace: ${name}`);
+                return 0;
+            },
+        },
+        {
+            name: 'open',
+            description: 'Replace the windows on this desktop with a saved workspace',
+            args: [{ name: 'name', variadic: true }],
+            complete: completeWorkspaceNames,
+            run: async ({ args, services, stdout, stderr }) => {
+                const name = args.join(' ');
+                if (!(await services.openWorkspace(name))) {
+                    stderr(`No such workspace: ${name}`);
+                    return 1;
+                }
+                stdout(`Opened workspace: ${name}`);
+                return 0;
+            },
+        },
+        {
+            name: 'rm',
+            description: 'Delete a saved workspace',
+            args: [{ name: 'name', variadic: true }],
+            complete: completeWorkspaceNames,
+            run: async ({ args, services, stdout, stderr }) => {
+                const name = args.join(' ');
+                if (!(await deleteWorkspace(services.db, name))) {
+                    stderr(`No such workspace: ${name}`);
+                    return 1;
+                }
+                stdout(`Deleted workspace: ${name}`);
+                return 0;
+            },
+        },
+    ],
+};
@@ -0,0 +1,94 @@
+import React from 'react';
+import type { EmailFolderRecord, MailAccountRecord, MailFolderId } from '../../utils/storage/db';
+
+interface AccountFoldersProps {
+    accounts: MailAccountRecord[];
+    /** Server folders that are not system folders, of every account */
+    folders: EmailFolderRecord[];
+    /** Null while a label is shown */
+    activeMailbox: MailFolderId | null;
+    counts: Partial<Record<MailFolderId, { unread: number }>>;
+    isSyncing: boolean;
+    onSelect: (folderId: MailFolderId) => void;
+    onSync: () => void;
+}
+
+const formatSyncTime = (timestamp: number | undefined) =>
+    timestamp
+        ? `Last synced ${new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`
+        : 'Not synced yet';
+
+/**
+ * AccountFolders - Mail accounts in the sidebar, with their other server folders
+ */
+export const AccountFolders: React.FC<AccountFoldersProps> = ({
+    accounts,
+    folders,
+    activeMailbox,
+    counts,
+    isSyncing,
+    onSelect,
+    onSync,
+}) => (
+    <>
+        {accounts.map(account => (
+            <div key={account.id} className="mt-4 flex flex-col gap-1">
+                <div className="px-3 flex items-center justify-between gap-2 text-[11px] uppercase tracking-wide text-white/40">
+                    <span className="truncate" title={account.email}>
+                        {account.name || account.email}
+                    </span>
+                    <span className="flex items-center gap-1 normal-case">
+                        {account.lastError && (
+                            <span
+                                className="material-symbols-outlined text-[16px] text-red-400"
+                                title={account.lastError}
+                                role="img"
+                                aria-label={`Sync failed: ${account.lastError}`}
+                            >
+                                error
+                            </span>
+                        )}
+                        <button
+                            onClick={onSync}
+                            disabled={isSyncing}
+                            className="w-6 h-6 rounded hover:bg-white/10 text-white/50 hover:text-white flex items-center justify-center disabled:opacity-50"
+                            title={isSyncing ? 'Syncing…' : formatSyncTime(account.lastSyncedAt)}
+                            aria-label="Sync mail"
+                        >
+                            <span
+                                className={`material-symbols-outlined text-[16px] ${isSyncing ? 'animate-spin' : ''}`}
+                            >
+                                sync
+                            </span>
+                        </button>
+                    </span>
+                </div>
+                {folders
+                    .filter(folder => folder.accountId === account.id)
+                    .map(folder => {
+                        const isActive = folder.id === activeMailbox;
+                        const unread = counts[folder.id]?.unread ?? 0;
+                        return (
+                            <button
+                                key={folder.id}
+                                onClick={() => onSelect(folder.id)}
+                                className={`px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors ${isActive ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5 hover:text-white'}`}
+                            >
+                                <span className="flex items-center gap-3 min-w-0">
+                                    <span className="material-symbols-outlined text-[18px]">folder</span>
+                                    <span className="truncate">{folder.name}</span>
+                                </span>
+                                {unread > 0 && (
+                                    <span
+                                        className={`text-[10px] px-2 py-0.5 rounded-full ${isActive ? 'bg-white/20' : 'bg-white/10'}`}
+                                    >
+                                        {unread}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
+            </div>
+        ))}
+    </>
+);
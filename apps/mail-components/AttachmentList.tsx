@@ -0,0 +1,35 @@
+import React from 'react';
+import type { EmailAttachmentInfo } from '../../utils/storage/db';
+import { formatFileSize } from '../../utils/wallpaperValidator';
+
+interface AttachmentListProps {
+    attachments: EmailAttachmentInfo[];
+    onSave: (attachment: EmailAttachmentInfo) => void;
+}
+
+/**
+ * AttachmentList - The attached files of a message, each saved into Files on click.
+ * Inline images shown in the body are left out.
+ */
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onSave }) => {
+    const files = attachments.filter(attachment => !attachment.inline);
+    if (files.length === 0) return null;
+
+    return (
+        <div className="mt-6 flex flex-wrap gap-2" data-testid="mail-attachments">
+            {files.map(attachment => (
+                <button
+                    key={attachment.id}
+                    onClick={() => onSave(attachment)}
+                    title="Save to Files"
+                    className="max-w-64 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-xs text-white/80 flex items-center gap-2"
+                >
+                    <span className="material-symbols-outlined text-[18px] text-white/50">attach_file</span>
+                    <span className="truncate">{attachment.filename}</span>
+                    <span className="text-white/40 shrink-0">{formatFileSize(attachment.size)}</span>
+                    <span className="material-symbols-outlined text-[16px] text-white/40">download</span>
+                </button>
+            ))}
+        </div>
+    );
+};
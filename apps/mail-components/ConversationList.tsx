@@ -0,0 +1,55 @@
+import React from 'react';
+import type { EmailRecord } from '../../utils/storage/db';
+
+interface ConversationListProps {
+    /** Messages of the conversation, oldest first */
+    messages: EmailRecord[];
+    selectedId: string;
+    onOpen: (email: EmailRecord) => void;
+}
+
+const formatShortTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+
+/**
+ * ConversationList - The other messages of a conversation, below the one being read
+ */
+export const ConversationList: React.FC<ConversationListProps> = ({ messages, selectedId, onOpen }) => (
+    <div className="mt-8 border-t border-white/10 pt-4" data-testid="mail-conversation">
+        <div className="text-xs text-white/50 mb-2 flex items-center gap-2">
+            <span className="material-symbols-outlined text-[16px]">forum</span>
+            Conversation · {messages.length} messages
+        </div>
+        <div className="flex flex-col gap-1">
+            {messages.map(email => {
+                const isSelected = email.id === selectedId;
+                const preview =
+                    email.body
+                        .split('\n')
+                        .map(line => line.trim())
+                        .find(line => line && !line.startsWith('>')) ?? '';
+                return (
+                    <button
+                        key={email.id}
+                        onClick={() => onOpen(email)}
+                        disabled={isSelected}
+                        className={`text-left px-3 py-2 rounded-lg text-xs transition-colors ${isSelected ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5'}`}
+                    >
+                        <div className="flex items-center justify-between gap-3">
+                            <span className={`truncate ${email.isRead ? '' : 'font-semibold text-white'}`}>
+                                {email.from}
+                            </span>
+                            <span className="text-[10px] text-white/40 shrink-0">{formatShortTime(email.date)}</span>
+                        </div>
+                        {preview && <div className="mt-0.5 text-white/40 truncate">{preview}</div>}
+                    </button>
+                );
+            })}
+        </div>
+    </div>
+);
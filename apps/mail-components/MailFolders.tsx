@@ -0,0 +1,126 @@
+import React from 'react';
+import type { EmailFolderRecord, EmailLabelRecord, MailFolderId } from '../../utils/storage/db';
+
+interface MailFoldersProps {
+    /** Folders created in Mail */
+    folders: EmailFolderRecord[];
+    labels: EmailLabelRecord[];
+    activeMailbox: MailFolderId | null;
+    activeLabelId: string | null;
+    counts: Partial<Record<MailFolderId, { unread: number }>>;
+    onSelectFolder: (folderId: MailFolderId) => void;
+    onSelectLabel: (labelId: string) => void;
+    onCreateFolder: () => void;
+    onRenameFolder: (folder: EmailFolderRecord) => void;
+    onDeleteFolder: (folder: EmailFolderRecord) => void;
+    onCreateLabel: () => void;
+    onDeleteLabel: (label: EmailLabelRecord) => void;
+}
+
+const SectionHeader: React.FC<{ title: string; addLabel: string; onAdd: () => void }> = ({
+    title,
+    addLabel,
+    onAdd,
+}) => (
+    <div className="px-3 flex items-center justify-between gap-2 text-[11px] uppercase tracking-wide text-white/40">
+        <span>{title}</span>
+        <button
+            onClick={onAdd}
+            className="w-6 h-6 rounded hover:bg-white/10 text-white/50 hover:text-white flex items-center justify-center"
+            title={addLabel}
+            aria-label={addLabel}
+        >
+            <span className="material-symbols-outlined text-[16px]">add</span>
+        </button>
+    </div>
+);
+
+const itemClassName = (isActive: boolean) =>
+    `group flex-1 min-w-0 px-3 py-2 rounded-lg text-sm flex items-center justify-between transition-colors ${isActive ? 'bg-white/10 text-white' : 'text-white/70 hover:bg-white/5 hover:text-white'}`;
+
+const iconButtonClassName =
+    'w-6 h-6 shrink-0 rounded hover:bg-white/10 text-white/40 hover:text-white items-center justify-center hidden group-hover/item:flex';
+
+/**
+ * MailFolders - Folders and labels created in Mail, in the sidebar
+ */
+export const MailFolders: React.FC<MailFoldersProps> = ({
+    folders,
+    labels,
+    activeMailbox,
+    activeLabelId,
+    counts,
+    onSelectFolder,
+    onSelectLabel,
+    onCreateFolder,
+    onRenameFolder,
+    onDeleteFolder,
+    onCreateLabel,
+    onDeleteLabel,
+}) => (
+    <>
+        <div className="mt-4 flex flex-col gap-1" data-testid="mail-custom-folders">
+            <SectionHeader title="Folders" addLabel="New folder" onAdd={onCreateFolder} />
+            {folders.map(folder => {
+                const unread = counts[folder.id]?.unread ?? 0;
+                return (
+                    <div key={folder.id} className="group/item flex items-center gap-1">
+                        <button
+                            onClick={() => onSelectFolder(folder.id)}
+                            className={itemClassName(folder.id === activeMailbox)}
+                        >
+                            <span className="flex items-center gap-3 min-w-0">
+                                <span className="material-symbols-outlined text-[18px]">folder</span>
+                                <span className="truncate">{folder.name}</span>
+                            </span>
+                            {unread > 0 && (
+                                <span className="text-[10px] px-2 py-0.5 rounded-full bg-white/10">{unread}</span>
+                            )}
+                        </button>
+                        <button
+                            onClick={() => onRenameFolder(folder)}
+                            className={iconButtonClassName}
+                            aria-label={`Rename ${folder.name}`}
+                        >
+                            <span className="material-symbols-outlined text-[14px]">edit</span>
+                        </button>
+                        <button
+                            onClick={() => onDeleteFolder(folder)}
+                            className={iconButtonClassName}
+                            aria-label={`Delete ${folder.name}`}
+                        >
+                            <span className="material-symbols-outlined text-[14px]">delete</span>
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="mt-4 flex flex-col gap-1" data-testid="mail-labels">
+            <SectionHeader title="Labels" addLabel="New label" onAdd={onCreateLabel} />
+            {labels.map(label => (
+                <div key={label.id} className="group/item flex items-center gap-1">
+                    <button
+                        onClick={() => onSelectLabel(label.id)}
+                        className={itemClassName(label.id === activeLabelId)}
+                    >
+                        <span className="flex items-center gap-3 min-w-0">
+                            <span
+                                className="w-2.5 h-2.5 mx-1 rounded-full shrink-0"
+                                style={{ backgroundColor: label.color }}
+                            />
+                            <span className="truncate">{label.name}</span>
+                        </span>
+                    </button>
+                    <button
+                        onClick={() => onDeleteLabel(label)}
+                        className={iconButtonClassName}
+                        aria-label={`Delete ${label.name}`}
+                    >
+                        <span className="material-symbols-outlined text-[14px]">delete</span>
+                    </button>
+                </div>
+            ))}
+        </div>
+    </>
+);
@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDb } from '../../context/DbContext';
+import { buildEmailDocument, getAttachmentBlob, sanitizeEmailHtml } from '../../utils/mail';
+import type { EmailRecord } from '../../utils/storage/db';
+
+interface MessageBodyProps {
+    email: EmailRecord;
+    className?: string;
+}
+
+const toDataUrl = (blob: Blob) =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error ?? new Error('Could not read attachment'));
+        reader.readAsDataURL(blob);
+    });
+
+/**
+ * MessageBody - The body of a message: plain text, or sanitized HTML in a sandboxed frame
+ *
+ * Inline images are shown as data URLs, as the frame's opaque origin cannot load the
+ * desktop's object URLs. Remote images stay blocked until the reader allows them.
+ * Key it by message so that choice is not carried over to the next message.
+ */
+export const MessageBody: React.FC<MessageBodyProps> = ({ email, className = '' }) => {
+    const db = useDb();
+    const [allowRemoteImages, setAllowRemoteImages] = useState(false);
+    const [cidUrls, setCidUrls] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const inline = (email.attachments ?? []).filter(attachment => attachment.contentId);
+        if (!email.html || inline.length === 0) return;
+
+        let cancelled = false;
+        void Promise.all(
+            inline.map(async attachment => {
+                const blob = await getAttachmentBlob(db, attachment.id);
+                return blob && attachment.contentId ? [[attachment.contentId, await toDataUrl(blob)] as const] : [];
+            })
+        )
+            .then(entries => {
+                if (!cancelled) setCidUrls(Object.fromEntries(entries.flat()));
+            })
+            .catch(error => console.error('Failed to load inline images:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [db, email.html, email.attachments]);
+
+    const sanitized = useMemo(
+        () => (email.html ? sanitizeEmailHtml(email.html, { cidUrls, allowRemoteImages }) : null),
+        [email.html, cidUrls, allowRemoteImages]
+    );
+
+    if (!sanitized) {
+        return (
+            <div className={`text-sm text-white/80 whitespace-pre-wrap leading-relaxed ${className}`}>{email.body}</div>
+        );
+    }
+
+    return (
+        <div className={`flex flex-col gap-2 ${className}`} data-testid="mail-html-body">
+            {sanitized.blockedImages > 0 && (
+                <div className="px-3 py-2 rounded-lg bg-white/5 text-xs text-white/60 flex items-center justify-between gap-3">
+                    <span className="flex items-center gap-2">
+                        <span className="material-symbols-outlined text-[16px]">hide_image</span>
+                        Remote images were blocked to protect your privacy.
+                    </span>
+                    <button
+                        onClick={() => setAllowRemoteImages(true)}
+                        className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white/90 shrink-0"
+                    >
+                        Show images
+                    </button>
+                </div>
+            )}
+            <iframe
+                title={email.subject || 'Message'}
+                sandbox="allow-popups allow-popups-to-escape-sandbox"
+                srcDoc={buildEmailDocument(sanitized.html)}
+                className="w-full h-[60vh] rounded-lg border-0 bg-white"
+            />
+        </div>
+    );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Select } from '../../components/ui';
+import type { EmailLabelRecord, EmailRecord, MailFolderId } from '../../utils/storage/db';
+
+interface MessageToolsProps {
+    email: EmailRecord;
+    /** Folders the message can be moved to */
+    folders: { id: MailFolderId; label: string }[];
+    labels: EmailLabelRecord[];
+    onMove: (folderId: MailFolderId) => void;
+    onSetFlagged: (isFlagged: boolean) => void;
+    onSetLabel: (labelId: string, hasLabel: boolean) => void;
+}
+
+/**
+ * MessageTools - Flag, label and move the message being read
+ */
+export const MessageTools: React.FC<MessageToolsProps> = ({
+    email,
+    folders,
+    labels,
+    onMove,
+    onSetFlagged,
+    onSetLabel,
+}) => {
+    const [isLabelMenuOpen, setIsLabelMenuOpen] = useState(false);
+
+    return (
+        <>
+            <button
+                onClick={() => onSetFlagged(!email.isFlagged)}
+                className={`w-8 h-8 rounded-lg flex items-center justify-center hover:bg-white/10 ${email.isFlagged ? 'text-orange-400' : 'text-white/70'}`}
+                aria-label={email.isFlagged ? 'Clear flag' : 'Flag'}
+                aria-pressed={email.isFlagged === true}
+                title={email.isFlagged ? 'Clear flag' : 'Flag'}
+            >
+                <span
+                    className="material-symbols-outlined text-[18px]"
+                    style={email.isFlagged ? { fontVariationSettings: "'FILL' 1" } : undefined}
+                >
+                    flag
+                </span>
+            </button>
+            <div className="relative">
+                <button
+                    onClick={() => setIsLabelMenuOpen(open => !open)}
+                    className="w-8 h-8 rounded-lg flex items-center justify-center text-white/70 hover:bg-white/10"
+                    aria-label="Labels"
+                    aria-expanded={isLabelMenuOpen}
+                    title="Labels"
+                >
+                    <span className="material-symbols-outlined text-[18px]">label</span>
+                </button>
+                {isLabelMenuOpen && (
+                    <div className="absolute right-0 top-9 z-20 w-48 p-1 rounded-lg bg-[#202020] border border-white/10 shadow-xl">
+                        {labels.length === 0 ? (
+                            <div className="px-3 py-2 text-xs text-white/50">No labels yet</div>
+                        ) : (
+                            labels.map(label => {
+                                const hasLabel = email.labels?.includes(label.id) ?? false;
+                                return (
+                                    <button
+                                        key={label.id}
+                                        onClick={() => onSetLabel(label.id, !hasLabel)}
+                                        className="w-full px-3 py-1.5 rounded text-xs text-white/80 hover:bg-white/10 flex items-center gap-2"
+                                        role="menuitemcheckbox"
+                                        aria-checked={hasLabel}
+                                    >
+                                        <span
+                                            className="w-2.5 h-2.5 rounded-full shrink-0"
+                                            style={{ backgroundColor: label.color }}
+                                        />
+                                        <span className="flex-1 text-left truncate">{label.name}</span>
+                                        {hasLabel && (
+                                            <span className="material-symbols-outlined text-[14px]">check</span>
+                                        )}
+                                    </button>
+                                );
+                            })
+                        )}
+                    </div>
+                )}
+            </div>
+            <Select
+                size="sm"
+                value={email.folderId}
+                options={folders.map(folder => ({ value: folder.id, label: folder.label }))}
+                onChange={folderId => folderId !== email.folderId && onMove(folderId)}
+                aria-label="Move to folder"
+                className="w-36"
+            />
+        </>
+    );
+};
+
+/**
+ * Colored chips for the labels of a message
+ */
+export const LabelChips: React.FC<{ labelIds: string[] | undefined; labels: EmailLabelRecord[] }> = ({
+    labelIds,
+    labels,
+}) => {
+    const shown = labels.filter(label => labelIds?.includes(label.id));
+    if (shown.length === 0) return null;
+    return (
+        <span className="flex items-center gap-1 min-w-0">
+            {shown.map(label => (
+                <span
+                    key={label.id}
+                    className="px-1.5 rounded text-[10px] text-white truncate"
+                    style={{ backgroundColor: label.color }}
+                >
+                    {label.name}
+                </span>
+            ))}
+        </span>
+    );
+};
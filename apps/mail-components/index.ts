@@ -0,0 +1,10 @@
+/**
+ * Mail app components
+ * @module apps/mail
+ */
+export { AccountFolders } from './AccountFolders';
+export { AttachmentList } from './AttachmentList';
+export { ConversationList } from './ConversationList';
+export { MailFolders } from './MailFolders';
+export { MessageBody } from './MessageBody';
+export { LabelChips, MessageTools } from './MessageTools';
@@ -7,10 +7,15 @@ import { NoteDraft, NoteRecord } from './types';
 import { useConfirmDialog, ConfirmDialog } from '../../components/ui/ConfirmDialog';
 import { useNotification, useSound } from '../../hooks';
 
+interface NotesPanelProps {
+    /** Note to select, e.g. when opened from search */
+    initialNoteId?: string;
+}
+
 /**
  * NotesPanel - Cloud-synced notes view with list and editor
  */
-export const NotesPanel: React.FC = () => {
+export const NotesPanel: React.FC<NotesPanelProps> = ({ initialNoteId }) => {
     const db = useDb();
     const { value: notesRaw, isLoading } = useDexieLiveQuery(
         () => db.notes.orderBy('updatedAt').reverse().toArray(),
@@ -18,7 +23,7 @@ export const NotesPanel: React.FC = () => {
     );
     const notes = useMemo(() => ensureArray(notesRaw as NoteRecord[] | null), [notesRaw]);
 
-    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(initialNoteId ?? null);
     const [draft, setDraft] = useState<NoteDraft>({ title: '', content: '' });
     const [search, setSearch] = useState('');
 
@@ -32,6 +37,13 @@ export const NotesPanel: React.FC = () => {
     const selectedNoteContent = selectedNote?.content ?? '';
     const selectedNoteUpdatedAt = selectedNote?.updatedAt ?? 0;
 
+    // Select the requested note, also when an open Notepad is asked for another one
+    useEffect(() => {
+        if (!initialNoteId) return;
+        setSelectedId(initialNoteId);
+        setSearch('');
+    }, [initialNoteId]);
+
     // Auto-select first note if none selected
     useEffect(() => {
         if (selectedId) return;
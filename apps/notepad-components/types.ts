@@ -32,6 +32,8 @@ export interface NotepadProps {
     initialFileId?: string;
     /** Name of file being opened */
     initialFileName?: string;
+    /** ID of a note to show in the notes view */
+    initialNoteId?: string;
     /** Window ID for dynamic title updates */
     windowId?: string;
 }
@@ -1,4 +1,9 @@
 import React, { ComponentType, LazyExoticComponent } from 'react';
+import type { TerminalCommand } from '../utils/shell';
+import type { IntentFilter } from '../utils/intents';
+import type { Permission } from '../utils/permissions';
+import { analyzeClipboardContent } from '../utils/clipboardAnalyzer';
+import { appCommand, handoffCommand, mailCommand, todoCommand, wallpaperCommand, workspaceCommand } from './commands';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyProps = any;
@@ -23,8 +28,18 @@ export interface AppConfig {
     defaultHeight?: number;
     /** File extensions this app can open (e.g., ['.txt', '.md']) */
     fileAssociations?: string[];
+    /** Terminal commands contributed by this app (registered on boot) */
+    commands?: TerminalCommand[];
+    /** Intents this app handles (see utils/intents); it receives them as its `intent` prop */
+    intents?: IntentFilter[];
+    /** Permissions the app may request (see utils/permissions) */
+    permissions?: Permission[];
+    /** Allow only one window of the app; opening it again focuses that window */
+    singleInstance?: boolean;
 }
 
+const SHARE_INTENTS: IntentFilter[] = [{ action: 'share:text' }, { action: 'share:url' }];
+
 /**
  * Central registry of all available applications.
  * Each app is lazily loaded for optimal code splitting.
@@ -45,6 +60,7 @@ export const APP_REGISTRY: AppConfig[] = [
         icon: 'public',
         color: 'bg-blue-400',
         component: React.lazy(() => import('./Browser').then(m => ({ default: m.Browser }))),
+        intents: [{ action: 'share:url' }],
     },
     {
         id: 'mail',
@@ -54,6 +70,8 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./Mail').then(m => ({ default: m.Mail }))),
         defaultWidth: 1000,
         defaultHeight: 680,
+        commands: [mailCommand],
+        intents: SHARE_INTENTS,
     },
     {
         id: 'calendar',
@@ -80,6 +98,10 @@ export const APP_REGISTRY: AppConfig[] = [
         color: 'bg-blue-300',
         component: React.lazy(() => import('./Notepad').then(m => ({ default: m.Notepad }))),
         fileAssociations: ['.txt', '.md', '.log', '.cfg', '.ini', '.xml', '.html', '.css', '.js', '.ts'],
+        intents: [
+            { action: 'share:text', toProps: ({ text }) => ({ initialContent: text }) },
+            { action: 'view:json', toProps: ({ json }) => ({ initialContent: json }) },
+        ],
     },
     {
         id: 'settings',
@@ -87,6 +109,8 @@ export const APP_REGISTRY: AppConfig[] = [
         icon: 'settings',
         color: 'bg-gray-400',
         component: React.lazy(() => import('./Settings').then(m => ({ default: m.Settings }))),
+        commands: [appCommand],
+        singleInstance: true,
     },
     {
         id: 'spreadsheet',
@@ -106,6 +130,9 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./Terminal').then(m => ({ default: m.Terminal }))),
         defaultWidth: 700,
         defaultHeight: 450,
+        commands: [workspaceCommand],
+        // One window holds every tab and pane; its layout is stored as a single record
+        singleInstance: true,
     },
     {
         id: 'systeminfo',
@@ -125,6 +152,13 @@ export const APP_REGISTRY: AppConfig[] = [
         defaultWidth: 800,
         defaultHeight: 600,
         fileAssociations: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.bmp', '.ico'],
+        intents: [
+            {
+                action: 'share:url',
+                accepts: ({ url }) => analyzeClipboardContent(url).type === 'image-url',
+                toProps: ({ url }) => ({ initialSrc: url }),
+            },
+        ],
     },
     {
         id: 'timer',
@@ -171,6 +205,7 @@ export const APP_REGISTRY: AppConfig[] = [
         defaultWidth: 700,
         defaultHeight: 550,
         fileAssociations: ['.json'],
+        intents: [{ action: 'view:json' }],
     },
     {
         id: 'wordcounter',
@@ -207,6 +242,7 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./TodoList').then(m => ({ default: m.TodoList }))),
         defaultWidth: 450,
         defaultHeight: 550,
+        commands: [todoCommand],
     },
     {
         id: 'passwordgenerator',
@@ -225,6 +261,7 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./ColorPicker').then(m => ({ default: m.ColorPicker }))),
         defaultWidth: 400,
         defaultHeight: 550,
+        intents: [{ action: 'pick:color' }],
     },
     {
         id: 'qrgenerator',
@@ -243,6 +280,7 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./RecycleBin').then(m => ({ default: m.RecycleBin }))),
         defaultWidth: 700,
         defaultHeight: 500,
+        singleInstance: true,
     },
     {
         id: 'wallpaperstudio',
@@ -252,6 +290,9 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./WallpaperStudio').then(m => ({ default: m.WallpaperStudio }))),
         defaultWidth: 1000,
         defaultHeight: 680,
+        commands: [wallpaperCommand],
+        permissions: ['microphone'],
+        singleInstance: true,
     },
     {
         id: 'arcade',
@@ -259,6 +300,7 @@ export const APP_REGISTRY: AppConfig[] = [
         icon: 'sports_esports',
         color: 'bg-purple-600',
         component: React.lazy(() => import('./arcade').then(m => ({ default: m.Arcade }))),
+        fileAssociations: ['.wasm'],
         defaultWidth: 600,
         defaultHeight: 700,
     },
@@ -279,6 +321,13 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./YoutubePlayer').then(m => ({ default: m.YoutubePlayer }))),
         defaultWidth: 900,
         defaultHeight: 600,
+        intents: [
+            {
+                action: 'share:url',
+                accepts: ({ url }) => analyzeClipboardContent(url).type === 'youtube-url',
+                toProps: ({ url }) => ({ initialUrl: url }),
+            },
+        ],
     },
     {
         id: 'gistexplorer',
@@ -306,6 +355,9 @@ export const APP_REGISTRY: AppConfig[] = [
         component: React.lazy(() => import('./Handoff').then(m => ({ default: m.Handoff }))),
         defaultWidth: 900,
         defaultHeight: 600,
+        commands: [handoffCommand],
+        intents: SHARE_INTENTS,
+        singleInstance: true,
     },
 ];
 
@@ -0,0 +1,84 @@
+/**
+ * AppPermissions - Per-app permissions page in Settings > Apps
+ *
+ * Lists the permissions an app declares with the user's decision for each.
+ * Changes apply immediately to running apps.
+ */
+import React from 'react';
+import { useDb } from '../../context';
+import { Button, Icon, Select } from '../../components/ui';
+import type { AppConfig } from '../../types';
+import { PERMISSIONS, resetPermissions, setPermissionState } from '../../utils/permissions';
+import type { Permission, PermissionState } from '../../utils/permissions';
+import { useDexieLiveQuery } from '../../utils/storage/react';
+
+const STATE_OPTIONS: { label: string; value: PermissionState }[] = [
+    { label: 'Ask', value: 'prompt' },
+    { label: 'Allow', value: 'granted' },
+    { label: 'Block', value: 'denied' },
+];
+
+interface AppPermissionsProps {
+    app: AppConfig;
+    onBack: () => void;
+}
+
+export const AppPermissions: React.FC<AppPermissionsProps> = ({ app, onBack }) => {
+    const db = useDb();
+    const { value: records } = useDexieLiveQuery(
+        () => db.$appPermissions.where('appId').equals(app.id).toArray(),
+        [db, app.id]
+    );
+    const stateOf = (permission: Permission): PermissionState =>
+        records?.find(record => record.permission === permission)?.state ?? 'prompt';
+    const permissions = app.permissions ?? [];
+
+    return (
+        <div className="max-w-2xl">
+            <button onClick={onBack} className="flex items-center gap-1 text-sm text-white/60 hover:text-white mb-4">
+                <Icon name="arrow_back" size="sm" />
+                Apps
+            </button>
+            <h1 className="text-2xl md:text-3xl font-light mb-2 md:mb-3">{app.title}</h1>
+            <p className="text-sm text-white/60 mb-6 md:mb-8">
+                Choose what this app may do. Changes take effect immediately.
+            </p>
+
+            <section className="mb-6 md:mb-8">
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="shield" className="text-blue-400" />
+                    Permissions
+                </h2>
+                {permissions.length === 0 ? (
+                    <p className="text-sm text-white/40">This app doesn&apos;t use any permissions.</p>
+                ) : (
+                    <ul className="bg-black/20 rounded-xl divide-y divide-white/5" aria-label="Permissions">
+                        {permissions.map(permission => (
+                            <li key={permission} className="flex items-center gap-3 p-3">
+                                <Icon name={PERMISSIONS[permission].icon} className="text-white/60" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium">{PERMISSIONS[permission].label}</div>
+                                    <div className="text-xs text-white/40">{PERMISSIONS[permission].description}</div>
+                                </div>
+                                <Select
+                                    size="sm"
+                                    value={stateOf(permission)}
+                                    options={STATE_OPTIONS}
+                                    onChange={state => void setPermissionState(db, app.id, permission, state)}
+                                    aria-label={PERMISSIONS[permission].label}
+                                />
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            {permissions.length > 0 && (
+                <Button variant="secondary" onClick={() => void resetPermissions(db, app.id)}>
+                    <Icon name="restart_alt" size="sm" />
+                    Reset permissions
+                </Button>
+            )}
+        </div>
+    );
+};
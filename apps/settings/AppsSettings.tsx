@@ -0,0 +1,218 @@
+/**
+ * AppsSettings - Built-in apps and installed app packages
+ *
+ * Installs packages from a URL or a `.w15app` file, and lists, opens and
+ * uninstalls the installed ones. Apps that declare permissions open their
+ * permissions page from here.
+ */
+import React, { useState } from 'react';
+import { useDb } from '../../context';
+import { useOS } from '../../context/OSContext';
+import { Button, ConfirmDialog, EmptyState, Icon, TextInput, useConfirmDialog } from '../../components/ui';
+import { FilePickerModal } from '../../components/FilePickerModal';
+import { useFilePicker, useNotification } from '../../hooks';
+import {
+    APP_PACKAGE_EXTENSION,
+    getPackageIdFromAppId,
+    getPackagedAppId,
+    installAppPackage,
+    installAppPackageFromUrl,
+    isAppPackageError,
+    parseAppPackage,
+    uninstallAppPackage,
+} from '../../utils/appPackages';
+import type { AppPackageRecord } from '../../utils/storage/db';
+import { useDexieLiveQuery } from '../../utils/storage/react';
+import { ensureArray } from '../../utils';
+import { AppPermissions } from './AppPermissions';
+
+export const AppsSettings: React.FC = () => {
+    const db = useDb();
+    const { apps, openWindow } = useOS();
+    const notify = useNotification();
+    const filePicker = useFilePicker();
+    const { confirm, dialogProps } = useConfirmDialog();
+    const [url, setUrl] = useState('');
+    const [isInstalling, setIsInstalling] = useState(false);
+    const [permissionsAppId, setPermissionsAppId] = useState<string | null>(null);
+
+    const { value: packagesRaw } = useDexieLiveQuery(() => db.$appPackages.orderBy('name').toArray(), [db]);
+    const packages = ensureArray(packagesRaw);
+    const builtInApps = apps
+        .filter(app => getPackageIdFromAppId(app.id) === null)
+        .sort((a, b) => a.title.localeCompare(b.title));
+
+    const permissionsApp = apps.find(app => app.id === permissionsAppId);
+    if (permissionsApp) {
+        return <AppPermissions app={permissionsApp} onBack={() => setPermissionsAppId(null)} />;
+    }
+
+    const install = async (task: () => Promise<AppPackageRecord>) => {
+        setIsInstalling(true);
+        try {
+            const record = await task();
+            notify.success(`Installed ${record.name} ${record.version}`);
+            return true;
+        } catch (error) {
+            notify.error(isAppPackageError(error) ? error.message : 'Failed to install app');
+            return false;
+        } finally {
+            setIsInstalling(false);
+        }
+    };
+
+    const handleInstallFromUrl = async () => {
+        if (await install(() => installAppPackageFromUrl(db, url.trim()))) setUrl('');
+    };
+
+    const handleInstallFromFile = async () => {
+        const file = await filePicker.open({ extensions: [APP_PACKAGE_EXTENSION], title: 'Install App' });
+        if (!file) return;
+        await install(async () => installAppPackage(db, parseAppPackage(file.content ?? ''), file.name));
+    };
+
+    const handleUninstall = async (record: AppPackageRecord) => {
+        const confirmed = await confirm({
+            title: 'Uninstall App',
+            message: `Uninstall "${record.name}"? Open windows of this app will stop working.`,
+            variant: 'danger',
+            confirmLabel: 'Uninstall',
+        });
+        if (!confirmed) return;
+        await uninstallAppPackage(db, record.id);
+        notify.info(`Uninstalled ${record.name}`);
+    };
+
+    return (
+        <div className="max-w-2xl">
+            <h1 className="text-2xl md:text-3xl font-light mb-2 md:mb-3">Apps</h1>
+            <p className="text-sm text-white/60 mb-6 md:mb-8">
+                Install app packages and manage the apps available on this device.
+            </p>
+
+            {/* Install */}
+            <section className="mb-6 md:mb-8">
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="download" className="text-blue-400" />
+                    Install an app
+                </h2>
+                <div className="bg-black/20 rounded-xl p-3 md:p-4 space-y-3">
+                    <div className="flex gap-2">
+                        <div className="flex-1">
+                            <TextInput
+                                value={url}
+                                onChange={e => setUrl(e.target.value)}
+                                placeholder={`https://example.com/app${APP_PACKAGE_EXTENSION}`}
+                                aria-label="Package URL"
+                            />
+                        </div>
+                        <Button
+                            variant="primary"
+                            onClick={() => void handleInstallFromUrl()}
+                            disabled={isInstalling || !url.trim()}
+                        >
+                            Install
+                        </Button>
+                    </div>
+                    <Button variant="secondary" onClick={() => void handleInstallFromFile()} disabled={isInstalling}>
+                        <Icon name="folder_open" size="sm" />
+                        Install from file…
+                    </Button>
+                    <p className="text-xs text-white/40">
+                        Installed apps run in a sandbox. They can set their window title and badge and copy text;
+                        anything else needs your permission.
+                    </p>
+                </div>
+            </section>
+
+            {/* Installed packages */}
+            <section className="mb-6 md:mb-8">
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="extension" className="text-purple-400" />
+                    Installed apps
+                </h2>
+                {packages.length === 0 ? (
+                    <EmptyState icon="extension" title="No apps installed" />
+                ) : (
+                    <ul className="bg-black/20 rounded-xl divide-y divide-white/5" aria-label="Installed apps">
+                        {packages.map(record => (
+                            <li key={record.id} className="flex items-center gap-3 p-3">
+                                {record.icon ? (
+                                    <img src={record.icon} alt="" className="w-8 h-8 rounded-lg object-contain" />
+                                ) : (
+                                    <Icon name="extension" className="w-8 text-center text-white/60" />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium">
+                                        {record.name} <span className="text-white/40">{record.version}</span>
+                                    </div>
+                                    <div className="text-xs text-white/40 truncate" title={record.source}>
+                                        {record.source} · Installed {new Date(record.installedAt).toLocaleDateString()}
+                                    </div>
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => openWindow(getPackagedAppId(record.id))}
+                                >
+                                    Open
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    icon="shield"
+                                    aria-label={`${record.name} permissions`}
+                                    onClick={() => setPermissionsAppId(getPackagedAppId(record.id))}
+                                />
+                                <Button size="sm" variant="danger" onClick={() => void handleUninstall(record)}>
+                                    Uninstall
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            {/* Built-in apps */}
+            <section>
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="apps" className="text-green-400" />
+                    Built-in apps
+                </h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {builtInApps.map(app =>
+                        app.permissions?.length ? (
+                            <button
+                                key={app.id}
+                                onClick={() => setPermissionsAppId(app.id)}
+                                className="flex items-center gap-2 p-2 rounded-lg bg-black/20 hover:bg-white/10 text-sm text-left"
+                                title="Permissions"
+                            >
+                                <Icon name={app.icon} size="sm" className="text-white/60" />
+                                <span className="truncate flex-1">{app.title}</span>
+                                <Icon name="shield" size="sm" className="text-white/40" />
+                            </button>
+                        ) : (
+                            <div key={app.id} className="flex items-center gap-2 p-2 rounded-lg bg-black/20 text-sm">
+                                <Icon name={app.icon} size="sm" className="text-white/60" />
+                                <span className="truncate">{app.title}</span>
+                            </div>
+                        )
+                    )}
+                </div>
+            </section>
+
+            <ConfirmDialog {...dialogProps} />
+            {filePicker.state.isOpen && (
+                <FilePickerModal
+                    state={filePicker.state}
+                    onNavigateTo={filePicker.navigateTo}
+                    onSelectFile={filePicker.selectFile}
+                    onSetFileName={filePicker.setFileName}
+                    onConfirm={filePicker.confirm}
+                    onCancel={filePicker.cancel}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,420 @@
+/**
+ * MailRulesSettings - Rules Mail runs on new messages
+ *
+ * Lists, orders and edits the mail rules. Rules run top to bottom on new Inbox
+ * messages; Mail can also run them on a folder from its message list.
+ */
+import React, { useState } from 'react';
+import { useDb } from '../../context';
+import {
+    Button,
+    Checkbox,
+    ConfirmDialog,
+    EmptyState,
+    FormField,
+    Icon,
+    Select,
+    TextInput,
+    useConfirmDialog,
+} from '../../components/ui';
+import { useNotification } from '../../hooks';
+import {
+    deleteMailRule,
+    isSystemMailFolder,
+    moveMailRule,
+    saveMailRule,
+    SYSTEM_MAIL_FOLDERS,
+    type MailRuleInput,
+} from '../../utils/mail';
+import type {
+    MailFolderId,
+    MailRuleAction,
+    MailRuleCondition,
+    MailRuleField,
+    MailRuleOperator,
+    MailRuleRecord,
+} from '../../utils/storage/db';
+import { useDexieLiveQuery } from '../../utils/storage/react';
+import { ensureArray } from '../../utils';
+import { required, validateValue } from '../../utils/validation';
+
+type RuleDraft = { id?: string; input: MailRuleInput };
+
+const FIELD_OPTIONS: { value: MailRuleField; label: string }[] = [
+    { value: 'from', label: 'From' },
+    { value: 'to', label: 'To' },
+    { value: 'subject', label: 'Subject' },
+    { value: 'body', label: 'Body' },
+];
+
+const OPERATOR_OPTIONS: { value: MailRuleOperator; label: string }[] = [
+    { value: 'contains', label: 'contains' },
+    { value: 'notContains', label: 'does not contain' },
+    { value: 'equals', label: 'is' },
+    { value: 'startsWith', label: 'starts with' },
+    { value: 'endsWith', label: 'ends with' },
+];
+
+const ACTION_LABELS: Record<MailRuleAction['type'], string> = {
+    move: 'Move to folder',
+    markRead: 'Mark as read',
+    flag: 'Flag',
+    label: 'Add label',
+    notify: 'Notify me',
+};
+
+const SYSTEM_FOLDER_NAMES: Record<string, string> = {
+    inbox: 'Inbox',
+    sent: 'Sent',
+    drafts: 'Drafts',
+    trash: 'Trash',
+};
+
+const EMPTY_CONDITION: MailRuleCondition = { field: 'from', operator: 'contains', value: '' };
+
+const EMPTY_RULE: MailRuleInput = {
+    name: '',
+    enabled: true,
+    match: 'all',
+    conditions: [EMPTY_CONDITION],
+    actions: [{ type: 'markRead' }],
+    stopProcessing: false,
+};
+
+const toInput = (rule: MailRuleRecord): MailRuleInput => ({
+    name: rule.name,
+    enabled: rule.enabled,
+    match: rule.match,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    stopProcessing: rule.stopProcessing,
+});
+
+/** What is missing in a draft, or null if it can be saved */
+const validateDraft = ({ input }: RuleDraft): string | null =>
+    validateValue(input.name.trim(), required('Name the rule')) ??
+    validateValue(
+        input.conditions.length > 0 && input.conditions.every(condition => condition.value.trim()),
+        required('Fill in every condition')
+    ) ??
+    validateValue(input.actions.length > 0, required('Add an action'));
+
+export const MailRulesSettings: React.FC = () => {
+    const db = useDb();
+    const notify = useNotification();
+    const { confirm, dialogProps } = useConfirmDialog();
+    const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+    const { value: rulesRaw } = useDexieLiveQuery(() => db.emailRules.orderBy('order').toArray(), [db]);
+    const { value: foldersRaw } = useDexieLiveQuery(() => db.emailFolders.toCollection().sortBy('name'), [db]);
+    const { value: labelsRaw } = useDexieLiveQuery(() => db.emailLabels.orderBy('name').toArray(), [db]);
+    const { value: accountsRaw } = useDexieLiveQuery(() => db.$mailAccounts.orderBy('createdAt').toArray(), [db]);
+    const rules = ensureArray(rulesRaw);
+    const folders = ensureArray(foldersRaw);
+    const labels = ensureArray(labelsRaw);
+    const accounts = ensureArray(accountsRaw);
+
+    const folderOptions: { value: MailFolderId; label: string }[] = [
+        ...SYSTEM_MAIL_FOLDERS.filter(folderId => folderId !== 'drafts').map(folderId => ({
+            value: folderId as MailFolderId,
+            label: SYSTEM_FOLDER_NAMES[folderId] ?? folderId,
+        })),
+        ...folders.filter(folder => folder.type === 'custom').map(folder => ({ value: folder.id, label: folder.name })),
+        ...folders
+            .filter(folder => folder.type !== 'custom')
+            .map(folder => ({
+                value: folder.id,
+                label: `${accounts.find(account => account.id === folder.accountId)?.name ?? 'Account'} / ${folder.name}`,
+            })),
+    ];
+    const actionTypes = (Object.keys(ACTION_LABELS) as MailRuleAction['type'][]).filter(
+        type => type !== 'label' || labels.length > 0
+    );
+
+    const draftError = draft ? validateDraft(draft) : null;
+
+    const update = (patch: Partial<MailRuleInput>) =>
+        setDraft(prev => (prev ? { ...prev, input: { ...prev.input, ...patch } } : prev));
+
+    const updateCondition = (index: number, patch: Partial<MailRuleCondition>) =>
+        draft &&
+        update({
+            conditions: draft.input.conditions.map((condition, i) =>
+                i === index ? { ...condition, ...patch } : condition
+            ),
+        });
+
+    const setAction = (index: number, action: MailRuleAction) =>
+        draft && update({ actions: draft.input.actions.map((current, i) => (i === index ? action : current)) });
+
+    /** A new action of a type, pointing at the first folder or label */
+    const createAction = (type: MailRuleAction['type']): MailRuleAction => {
+        switch (type) {
+            case 'move':
+                return { type, folderId: folderOptions[0]?.value ?? 'inbox' };
+            case 'label':
+                return { type, labelId: labels[0]?.id ?? '' };
+            default:
+                return { type };
+        }
+    };
+
+    const describeAction = (action: MailRuleAction) => {
+        switch (action.type) {
+            case 'move':
+                return `move to ${
+                    isSystemMailFolder(action.folderId)
+                        ? SYSTEM_FOLDER_NAMES[action.folderId]
+                        : (folderOptions.find(option => option.value === action.folderId)?.label ?? 'a folder')
+                }`;
+            case 'label':
+                return `label ${labels.find(label => label.id === action.labelId)?.name ?? ''}`.trim();
+            default:
+                return ACTION_LABELS[action.type].toLowerCase();
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft || draftError) return;
+        const record = await saveMailRule(
+            db,
+            {
+                ...draft.input,
+                conditions: draft.input.conditions.map(condition => ({ ...condition, value: condition.value.trim() })),
+            },
+            draft.id
+        );
+        notify.success(draft.id ? `Updated ${record.name}` : `Added ${record.name}`);
+        setDraft(null);
+    };
+
+    const handleDelete = async (rule: MailRuleRecord) => {
+        const confirmed = await confirm({
+            title: 'Delete Mail Rule',
+            message: `Delete "${rule.name}"? Messages it already sorted stay where they are.`,
+            variant: 'danger',
+            confirmLabel: 'Delete',
+        });
+        if (!confirmed) return;
+        await deleteMailRule(db, rule.id);
+        notify.info(`Deleted ${rule.name}`);
+    };
+
+    return (
+        <>
+            <section className="mb-6 md:mb-8">
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="rule" className="text-green-400" />
+                    Rules
+                </h2>
+                {rules.length === 0 ? (
+                    <EmptyState icon="rule" title="No mail rules" />
+                ) : (
+                    <ul className="bg-black/20 rounded-xl divide-y divide-white/5" aria-label="Mail rules">
+                        {rules.map((rule, index) => (
+                            <li key={rule.id} className="flex items-center gap-3 p-3">
+                                <div className="flex-1 min-w-0">
+                                    <Checkbox
+                                        checked={rule.enabled}
+                                        onChange={enabled =>
+                                            void saveMailRule(db, { ...toInput(rule), enabled }, rule.id)
+                                        }
+                                        label={rule.name}
+                                        labelClassName={`font-medium truncate ${rule.enabled ? '' : 'text-white/40'}`}
+                                    />
+                                    <div className="text-xs text-white/40 truncate">
+                                        {rule.actions.map(describeAction).join(', ') || 'No actions'}
+                                        {rule.stopProcessing && ' · then stop'}
+                                    </div>
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    icon="arrow_upward"
+                                    aria-label={`Move ${rule.name} up`}
+                                    disabled={index === 0}
+                                    onClick={() => void moveMailRule(db, rule.id, -1)}
+                                />
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    icon="arrow_downward"
+                                    aria-label={`Move ${rule.name} down`}
+                                    disabled={index === rules.length - 1}
+                                    onClick={() => void moveMailRule(db, rule.id, 1)}
+                                />
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => setDraft({ id: rule.id, input: toInput(rule) })}
+                                >
+                                    Edit
+                                </Button>
+                                <Button size="sm" variant="danger" onClick={() => void handleDelete(rule)}>
+                                    Delete
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {!draft && (
+                    <Button
+                        variant="secondary"
+                        icon="add"
+                        className="mt-3"
+                        onClick={() => setDraft({ input: { ...EMPTY_RULE } })}
+                    >
+                        Add rule
+                    </Button>
+                )}
+            </section>
+
+            {draft && (
+                <section className="mb-6 md:mb-8" aria-label={draft.id ? 'Edit rule' : 'New rule'}>
+                    <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                        <Icon name="edit_note" className="text-green-400" />
+                        {draft.id ? 'Edit rule' : 'New rule'}
+                    </h2>
+                    <div className="bg-black/20 rounded-xl p-3 md:p-4 space-y-3">
+                        <FormField label="Rule name" id="mail-rule-name">
+                            <TextInput
+                                id="mail-rule-name"
+                                value={draft.input.name}
+                                placeholder="e.g. Newsletters"
+                                onChange={e => update({ name: e.target.value })}
+                            />
+                        </FormField>
+
+                        <div className="flex items-center gap-2 text-sm text-white/70">
+                            When
+                            <Select
+                                size="sm"
+                                value={draft.input.match}
+                                options={[
+                                    { value: 'all', label: 'all' },
+                                    { value: 'any', label: 'any' },
+                                ]}
+                                onChange={match => update({ match })}
+                                aria-label="Match"
+                            />
+                            of these are true:
+                        </div>
+                        <ul className="space-y-2" aria-label="Conditions">
+                            {draft.input.conditions.map((condition, index) => (
+                                <li key={index} className="flex flex-wrap items-center gap-2">
+                                    <Select
+                                        size="sm"
+                                        value={condition.field}
+                                        options={FIELD_OPTIONS}
+                                        onChange={field => updateCondition(index, { field })}
+                                        aria-label="Field"
+                                    />
+                                    <Select
+                                        size="sm"
+                                        value={condition.operator}
+                                        options={OPERATOR_OPTIONS}
+                                        onChange={operator => updateCondition(index, { operator })}
+                                        aria-label="Operator"
+                                    />
+                                    <TextInput
+                                        value={condition.value}
+                                        onChange={e => updateCondition(index, { value: e.target.value })}
+                                        aria-label="Value"
+                                        className="flex-1 min-w-[8rem]"
+                                    />
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        icon="close"
+                                        aria-label="Remove condition"
+                                        onClick={() =>
+                                            update({ conditions: draft.input.conditions.filter((_, i) => i !== index) })
+                                        }
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                        <Button
+                            size="sm"
+                            variant="secondary"
+                            icon="add"
+                            onClick={() => update({ conditions: [...draft.input.conditions, { ...EMPTY_CONDITION }] })}
+                        >
+                            Add condition
+                        </Button>
+
+                        <div className="text-sm text-white/70">Then:</div>
+                        <ul className="space-y-2" aria-label="Actions">
+                            {draft.input.actions.map((action, index) => (
+                                <li key={index} className="flex flex-wrap items-center gap-2">
+                                    <Select
+                                        size="sm"
+                                        value={action.type}
+                                        options={actionTypes.map(type => ({ value: type, label: ACTION_LABELS[type] }))}
+                                        onChange={type => setAction(index, createAction(type))}
+                                        aria-label="Action"
+                                    />
+                                    {action.type === 'move' && (
+                                        <Select
+                                            size="sm"
+                                            value={action.folderId}
+                                            options={folderOptions}
+                                            onChange={folderId => setAction(index, { type: 'move', folderId })}
+                                            aria-label="Folder"
+                                        />
+                                    )}
+                                    {action.type === 'label' && (
+                                        <Select
+                                            size="sm"
+                                            value={action.labelId}
+                                            options={labels.map(label => ({ value: label.id, label: label.name }))}
+                                            onChange={labelId => setAction(index, { type: 'label', labelId })}
+                                            aria-label="Label"
+                                        />
+                                    )}
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        icon="close"
+                                        aria-label="Remove action"
+                                        onClick={() =>
+                                            update({ actions: draft.input.actions.filter((_, i) => i !== index) })
+                                        }
+                                    />
+                                </li>
+                            ))}
+                        </ul>
+                        <Button
+                            size="sm"
+                            variant="secondary"
+                            icon="add"
+                            onClick={() => update({ actions: [...draft.input.actions, { type: 'markRead' }] })}
+                        >
+                            Add action
+                        </Button>
+
+                        <Checkbox
+                            checked={draft.input.stopProcessing}
+                            onChange={stopProcessing => update({ stopProcessing })}
+                            label="Don't run later rules on matching messages"
+                        />
+                        {draftError && <p className="text-xs text-white/50">{draftError}</p>}
+                        <p className="text-xs text-white/40">
+                            Moves to an account's server folders only apply to that account's messages.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <Button variant="primary" onClick={() => void handleSave()} disabled={!!draftError}>
+                                Save
+                            </Button>
+                            <Button variant="ghost" onClick={() => setDraft(null)}>
+                                Cancel
+                            </Button>
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            <ConfirmDialog {...dialogProps} />
+        </>
+    );
+};
@@ -0,0 +1,261 @@
+/**
+ * MailSettings - Mail accounts reached through a local mail bridge
+ *
+ * Adds, edits, tests and removes the accounts Mail syncs. Accounts (with their
+ * passwords) stay on this device; downloaded messages sync like other mail.
+ * The mail rules are edited below the accounts.
+ */
+import React, { useState } from 'react';
+import { useDb } from '../../context';
+import {
+    Button,
+    Checkbox,
+    ConfirmDialog,
+    EmptyState,
+    FormField,
+    Icon,
+    TextInput,
+    useConfirmDialog,
+} from '../../components/ui';
+import { useNotification } from '../../hooks';
+import {
+    createMailTransport,
+    DEFAULT_BRIDGE_URL,
+    isMailTransportError,
+    removeMailAccount,
+    saveMailAccount,
+    type MailAccountInput,
+} from '../../utils/mail';
+import type { MailAccountRecord } from '../../utils/storage/db';
+import { useDexieLiveQuery } from '../../utils/storage/react';
+import { ensureArray } from '../../utils';
+import { email, required, url, validateValue } from '../../utils/validation';
+import { MailRulesSettings } from './MailRulesSettings';
+
+type AccountDraft = { id?: string; input: MailAccountInput };
+
+const EMPTY_ACCOUNT: MailAccountInput = {
+    name: '',
+    email: '',
+    displayName: '',
+    bridgeUrl: DEFAULT_BRIDGE_URL,
+    imapHost: '',
+    imapPort: 993,
+    smtpHost: '',
+    smtpPort: 465,
+    secure: true,
+    username: '',
+    password: '',
+};
+
+const toInput = (account: MailAccountRecord): MailAccountInput => ({
+    name: account.name,
+    email: account.email,
+    displayName: account.displayName,
+    bridgeUrl: account.bridgeUrl,
+    imapHost: account.imapHost,
+    imapPort: account.imapPort,
+    smtpHost: account.smtpHost,
+    smtpPort: account.smtpPort,
+    secure: account.secure,
+    username: account.username,
+    password: account.password,
+});
+
+/** What is missing or wrong in a draft, or null if it can be saved */
+const validateDraft = ({ input }: AccountDraft): string | null =>
+    validateValue(input.email.trim(), [required('Enter your email address'), email('Enter a valid email address')]) ??
+    validateValue(input.bridgeUrl.trim(), [required('Enter the bridge URL'), url('Enter a valid bridge URL')]) ??
+    validateValue(input.imapHost.trim() && input.smtpHost.trim(), required('Enter the IMAP and SMTP servers'));
+
+export const MailSettings: React.FC = () => {
+    const db = useDb();
+    const notify = useNotification();
+    const { confirm, dialogProps } = useConfirmDialog();
+    const [draft, setDraft] = useState<AccountDraft | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const { value: accountsRaw } = useDexieLiveQuery(() => db.$mailAccounts.orderBy('createdAt').toArray(), [db]);
+    const accounts = ensureArray(accountsRaw);
+
+    const draftError = draft ? validateDraft(draft) : null;
+
+    const update = (patch: Partial<MailAccountInput>) =>
+        setDraft(prev => (prev ? { ...prev, input: { ...prev.input, ...patch } } : prev));
+
+    const normalized = (input: MailAccountInput): MailAccountInput => ({
+        ...input,
+        name: input.name.trim() || input.email.trim(),
+        email: input.email.trim(),
+        displayName: input.displayName.trim(),
+        bridgeUrl: input.bridgeUrl.trim(),
+        imapHost: input.imapHost.trim(),
+        smtpHost: input.smtpHost.trim(),
+        username: input.username.trim() || input.email.trim(),
+    });
+
+    const handleTest = async () => {
+        if (!draft || draftError) return;
+        setIsTesting(true);
+        const now = Date.now();
+        const transport = createMailTransport({
+            ...normalized(draft.input),
+            id: draft.id ?? 'test',
+            transport: 'bridge',
+            createdAt: now,
+            updatedAt: now,
+        });
+        try {
+            const folders = await transport.listFolders();
+            notify.success(`Connected: ${folders.length} ${folders.length === 1 ? 'folder' : 'folders'} on the server`);
+        } catch (error) {
+            notify.error(isMailTransportError(error) ? error.message : 'Could not connect to the mail bridge');
+        } finally {
+            await transport.close();
+            setIsTesting(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft || draftError) return;
+        const record = await saveMailAccount(db, normalized(draft.input), draft.id);
+        notify.success(draft.id ? `Updated ${record.name}` : `Added ${record.name}`);
+        setDraft(null);
+    };
+
+    const handleRemove = async (account: MailAccountRecord) => {
+        const confirmed = await confirm({
+            title: 'Remove Mail Account',
+            message: `Remove "${account.name}"? Its downloaded messages are removed from Mail; they stay on the server.`,
+            variant: 'danger',
+            confirmLabel: 'Remove',
+        });
+        if (!confirmed) return;
+        await removeMailAccount(db, account.id);
+        notify.info(`Removed ${account.name}`);
+    };
+
+    const field = (label: string, key: keyof MailAccountInput, props: React.ComponentProps<typeof TextInput> = {}) =>
+        draft && (
+            <FormField label={label} id={`mail-account-${key}`}>
+                <TextInput
+                    id={`mail-account-${key}`}
+                    value={String(draft.input[key])}
+                    onChange={e =>
+                        update({ [key]: props.type === 'number' ? Number(e.target.value) || 0 : e.target.value })
+                    }
+                    {...props}
+                />
+            </FormField>
+        );
+
+    return (
+        <div className="max-w-2xl">
+            <h1 className="text-2xl md:text-3xl font-light mb-2 md:mb-3">Mail</h1>
+            <p className="text-sm text-white/60 mb-6 md:mb-8">
+                Connect Mail to IMAP/SMTP accounts through the mail bridge running on this computer.
+            </p>
+
+            <section className="mb-6 md:mb-8">
+                <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                    <Icon name="alternate_email" className="text-blue-400" />
+                    Accounts
+                </h2>
+                {accounts.length === 0 ? (
+                    <EmptyState icon="mail" title="No mail accounts" />
+                ) : (
+                    <ul className="bg-black/20 rounded-xl divide-y divide-white/5" aria-label="Mail accounts">
+                        {accounts.map(account => (
+                            <li key={account.id} className="flex items-center gap-3 p-3">
+                                <Icon name="mail" className="w-8 text-center text-white/60" />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-medium truncate">{account.name}</div>
+                                    <div
+                                        className={`text-xs truncate ${account.lastError ? 'text-red-300' : 'text-white/40'}`}
+                                    >
+                                        {account.lastError
+                                            ? account.lastError
+                                            : account.lastSyncedAt
+                                              ? `${account.email} · Synced ${new Date(account.lastSyncedAt).toLocaleString()}`
+                                              : `${account.email} · Not synced yet`}
+                                    </div>
+                                </div>
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => setDraft({ id: account.id, input: toInput(account) })}
+                                >
+                                    Edit
+                                </Button>
+                                <Button size="sm" variant="danger" onClick={() => void handleRemove(account)}>
+                                    Remove
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {!draft && (
+                    <Button
+                        variant="secondary"
+                        icon="add"
+                        className="mt-3"
+                        onClick={() => setDraft({ input: { ...EMPTY_ACCOUNT } })}
+                    >
+                        Add account
+                    </Button>
+                )}
+            </section>
+
+            {draft && (
+                <section className="mb-6 md:mb-8" aria-label={draft.id ? 'Edit account' : 'New account'}>
+                    <h2 className="text-base md:text-lg font-medium mb-3 md:mb-4 flex items-center gap-2">
+                        <Icon name="manage_accounts" className="text-purple-400" />
+                        {draft.id ? 'Edit account' : 'New account'}
+                    </h2>
+                    <div className="bg-black/20 rounded-xl p-3 md:p-4 space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {field('Email address', 'email', { type: 'email', placeholder: 'you@example.com' })}
+                            {field('Your name', 'displayName', { placeholder: 'Shown to recipients' })}
+                            {field('Account name', 'name', { placeholder: 'e.g. Work' })}
+                            {field('Bridge URL', 'bridgeUrl', { type: 'url' })}
+                            {field('IMAP server', 'imapHost', { placeholder: 'imap.example.com' })}
+                            {field('IMAP port', 'imapPort', { type: 'number' })}
+                            {field('SMTP server', 'smtpHost', { placeholder: 'smtp.example.com' })}
+                            {field('SMTP port', 'smtpPort', { type: 'number' })}
+                            {field('User name', 'username', { placeholder: 'Defaults to the email address' })}
+                            {field('Password', 'password', { type: 'password', autoComplete: 'off' })}
+                        </div>
+                        <Checkbox
+                            checked={draft.input.secure}
+                            onChange={secure => update({ secure })}
+                            label="Use TLS for IMAP and SMTP"
+                        />
+                        {draftError && <p className="text-xs text-white/50">{draftError}</p>}
+                        <p className="text-xs text-white/40">
+                            The password is kept on this device only and sent to the bridge to log in.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <Button variant="primary" onClick={() => void handleSave()} disabled={!!draftError}>
+                                Save
+                            </Button>
+                            <Button
+                                variant="secondary"
+                                onClick={() => void handleTest()}
+                                disabled={!!draftError || isTesting}
+                            >
+                                {isTesting ? 'Testing…' : 'Test connection'}
+                            </Button>
+                            <Button variant="ghost" onClick={() => setDraft(null)}>
+                                Cancel
+                            </Button>
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            <MailRulesSettings />
+
+            <ConfirmDialog {...dialogProps} />
+        </div>
+    );
+};
@@ -0,0 +1,1255 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { useLocalization, useSystemInfo, useNetwork } from '../../context';
+import { useDb } from '../../context/DbContext';
+import { useOS } from '../../context/OSContext';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useTerminalPreferences, useContextMenu, useCopyToClipboard, usePhoneMode, useWorkspaces } from '../../hooks';
+import { ContextMenu } from '../../components/ContextMenu';
+import { TERMINAL_THEMES } from '../../types/terminal';
+import type { TerminalSessionRecord } from '../../utils/storage/db';
+import { vfs, isVfsError, resolvePath, splitPath } from '../../utils/vfs';
+import {
+    runScript,
+    splitLines,
+    terminalCommands,
+    formatCommandUsage,
+    EXIT_NOT_FOUND,
+    SHELL_COMMAND_SOURCE,
+} from '../../utils/shell';
+import type { ShellEnvironment, ShellIO, TerminalServices } from '../../utils/shell';
+import type { OutputLine, TerminalPaneAction } from './types';
+
+export interface TerminalPaneProps {
+    /** Stored session that this pane continues */
+    session: TerminalSessionRecord & { id: number };
+    /** Whether this pane receives keyboard input */
+    isFocused: boolean;
+    onFocus: (sessionId: number) => void;
+    /** Reports the working directory, used for tab and window titles */
+    onCwdChange: (sessionId: number, path: string) => void;
+    onAction: (sessionId: number, action: TerminalPaneAction) => void;
+}
+
+interface TerminalContextData {
+    hasSelection: boolean;
+}
+
+const MAX_HISTORY = 500;
+
+// Built-in terminal commands shown by help and offered by tab completion.
+// Apps contribute further commands through the terminalCommands registry.
+const BUILTIN_COMMANDS: Array<{ name: string; description: string }> = [
+    { name: 'help', description: 'Display this help message (help <command> for details)' },
+    { name: 'date', description: 'Display current date' },
+    { name: 'time', description: 'Display current time' },
+    { name: 'echo', description: 'Display a message' },
+    { name: 'clear', description: 'Clear the screen' },
+    { name: 'cls', description: 'Clear the screen' },
+    { name: 'whoami', description: 'Display current user' },
+    { name: 'ls', description: 'List directory contents' },
+    { name: 'dir', description: 'List directory contents' },
+    { name: 'pwd', description: 'Print working directory' },
+    { name: 'cd', description: 'Change directory' },
+    { name: 'mkdir', description: 'Create a new directory' },
+    { name: 'touch', description: 'Create a new file' },
+    { name: 'cat', description: 'Display file contents' },
+    { name: 'export', description: 'Export session to file, or set variables (export NAME=value)' },
+    { name: 'env', description: 'List environment variables' },
+    { name: 'unset', description: 'Remove an environment variable' },
+    { name: 'sh', description: 'Run a script file (also: source, ./script.sh)' },
+    { name: 'source', description: 'Run a script file in the current session' },
+    { name: 'alias', description: 'Define or list command aliases' },
+    { name: 'unalias', description: 'Remove a command alias' },
+    { name: 'theme', description: 'Change terminal color scheme' },
+    { name: 'fontsize', description: 'Change terminal font size (10-18)' },
+    { name: 'font', description: 'Change terminal font family' },
+    { name: 'notepad', description: 'Open Notepad app (optionally with filename)' },
+    { name: 'calc', description: 'Open Calculator app' },
+    { name: 'calculator', description: 'Open Calculator app' },
+    { name: 'browser', description: 'Open Browser app (optionally with URL)' },
+    { name: 'calendar', description: 'Open Calendar app' },
+    { name: 'start', description: 'Launch any Windows15 app by ID' },
+    { name: 'ver', description: 'Display OS version' },
+    { name: 'hostname', description: 'Display computer name' },
+    { name: 'ping', description: 'Test network connectivity to a host' },
+    { name: 'ipconfig', description: 'Display network configuration' },
+];
+
+// Convert the prompt's path segments into a VFS working directory
+const toVfsPath = (segments: string[]): string => `/${segments.join('/')}`;
+
+// Display a VFS path the way the prompt shows it (C:\Documents\notes)
+const toPromptPath = (path: string): string => `C:\\${splitPath(path).join('\\')}`;
+
+const DEFAULT_ENV: ShellEnvironment = { HOME: '/', USER: 'Guest', PWD: '/' };
+
+const parseOutput = (json: string): OutputLine[] => {
+    try {
+        const lines: unknown = JSON.parse(json);
+        return Array.isArray(lines) ? (lines as OutputLine[]) : [];
+    } catch {
+        return [];
+    }
+};
+
+const parseEnv = (json: string | undefined, cwd: string): ShellEnvironment => {
+    let env: ShellEnvironment = DEFAULT_ENV;
+    try {
+        if (json) env = JSON.parse(json) as ShellEnvironment;
+    } catch {
+        // Fall back to the defaults
+    }
+    return { ...env, PWD: cwd };
+};
+
+/**
+ * A single Terminal session: output buffer, prompt, working directory and history cursor.
+ * The Terminal window arranges panes into tabs and splits.
+ */
+export const TerminalPane: React.FC<TerminalPaneProps> = ({
+    session,
+    isFocused,
+    onFocus,
+    onCwdChange,
+    onAction: onWindowAction,
+}) => {
+    const { formatDateLong, formatTimeLong } = useLocalization();
+    const db = useDb();
+    const { openWindow, apps, setWallpaper } = useOS();
+    const { osBuild } = useSystemInfo();
+    const { isOnline, effectiveType, ip, latency } = useNetwork();
+    const { preferences, currentTheme, setTheme, setFontSize, setFontFamily, availableThemes, availableFonts } =
+        useTerminalPreferences();
+    const isPhone = usePhoneMode();
+
+    // F246: Enforce minimum font size on phone for readability
+    const effectiveFontSize = isPhone ? Math.max(preferences.fontSize, 14) : preferences.fontSize;
+
+    const [input, setInput] = useState('');
+    // A session that was never saved starts with the banner
+    const [output, setOutput] = useState<OutputLine[]>(() =>
+        session.output
+            ? parseOutput(session.output)
+            : [
+                  { id: 0, type: 'output', text: `Windows15 Command Prompt [Version 15.0.${osBuild}]` },
+                  { id: 1, type: 'output', text: '(c) 2025 Windows15 Corporation. All rights reserved.' },
+                  { id: 2, type: 'output', text: '' },
+              ]
+    );
+    const [historyIndex, setHistoryIndex] = useState(session.historyIndex ?? -1);
+    const [currentPath, setCurrentPath] = useState<string[]>(() => splitPath(session.cwd ?? '/'));
+    const [suggestions, setSuggestions] = useState<string[]>([]);
+    const [suggestionIndex, setSuggestionIndex] = useState(-1);
+    const outputRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    // Continue line IDs from the highest restored one
+    const idCounter = useRef(Math.max(2, ...output.map(line => line.id)) + 1);
+    const saveTimerRef = useRef<number | null>(null);
+    // Shell state is kept in refs so that commands chained on one line see each other's changes
+    const cwdRef = useRef(session.cwd ?? '/');
+    const envRef = useRef<ShellEnvironment>(parseEnv(session.env, cwdRef.current));
+    const lastStatusRef = useRef(0);
+    const sessionId = session.id;
+    const onAction = (action: TerminalPaneAction) => onWindowAction(sessionId, action);
+
+    const {
+        menu: contextMenu,
+        open: openContextMenu,
+        close: closeContextMenu,
+        menuProps,
+        menuRef,
+    } = useContextMenu<TerminalContextData>();
+
+    // Save session periodically and on unmount
+    useEffect(() => {
+        if (!db) return;
+
+        const saveSession = async () => {
+            try {
+                await db.$terminalSessions.update(sessionId, {
+                    output: JSON.stringify(output),
+                    cwd: cwdRef.current,
+                    env: JSON.stringify(envRef.current),
+                    historyIndex,
+                    updatedAt: Date.now(),
+                });
+            } catch (error) {
+                console.error('Failed to save terminal session:', error);
+            }
+        };
+
+        // Clear any existing timer
+        if (saveTimerRef.current) {
+            clearTimeout(saveTimerRef.current);
+        }
+
+        // Schedule save after 2 seconds of inactivity
+        saveTimerRef.current = window.setTimeout(() => {
+            void saveSession();
+        }, 2000);
+
+        // Save on unmount
+        return () => {
+            if (saveTimerRef.current) {
+                clearTimeout(saveTimerRef.current);
+            }
+            void saveSession();
+        };
+    }, [db, sessionId, output, currentPath, historyIndex]);
+
+    // Load command history from IndexedDB
+    const commandHistory = useLiveQuery(
+        async () => {
+            if (!db) return [];
+            const history = await db.$terminalHistory.orderBy('executedAt').toArray();
+            return history.map(h => h.command);
+        },
+        [db],
+        []
+    );
+
+    // Load aliases from IndexedDB
+    const aliases = useLiveQuery(
+        async () => {
+            if (!db) return {};
+            const aliasRecords = await db.$terminalAliases.toArray();
+            return Object.fromEntries(aliasRecords.map(a => [a.name, a.command]));
+        },
+        [db],
+        {}
+    );
+
+    useEffect(() => {
+        if (outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [output]);
+
+    const { copy, paste } = useCopyToClipboard();
+
+    const getSelectedText = (): string => {
+        return window.getSelection()?.toString() || '';
+    };
+
+    const copyToClipboard = async (text: string): Promise<void> => {
+        const ok = await copy(text);
+        if (!ok) console.error('Failed to copy to clipboard');
+    };
+
+    const pasteFromClipboard = async (): Promise<void> => {
+        const text = await paste();
+        if (text === null) {
+            console.error('Failed to read from clipboard');
+            return;
+        }
+        setInput(prev => prev + text);
+    };
+
+    const handleContextMenu = (e: React.MouseEvent) => {
+        const selection = getSelectedText();
+        openContextMenu(e, { hasSelection: selection.length > 0 });
+    };
+
+    const handleCopySelection = async () => {
+        const selection = getSelectedText();
+        if (selection) {
+            await copyToClipboard(selection);
+        }
+        closeContextMenu();
+    };
+
+    const handleCopyAll = async () => {
+        const allText = output.map(line => line.text).join('\n');
+        await copyToClipboard(allText);
+        closeContextMenu();
+    };
+
+    const handlePaste = async () => {
+        await pasteFromClipboard();
+        closeContextMenu();
+        inputRef.current?.focus();
+    };
+
+    const handleSelectAll = () => {
+        if (outputRef.current) {
+            const range = document.createRange();
+            range.selectNodeContents(outputRef.current);
+            const selection = window.getSelection();
+            selection?.removeAllRanges();
+            selection?.addRange(range);
+        }
+        closeContextMenu();
+    };
+
+    const handleClearTerminal = () => {
+        setOutput([]);
+        closeContextMenu();
+    };
+
+    const addOutput = (text: string, type: 'command' | 'output' | 'error' = 'output') => {
+        setOutput(prev => [...prev, { id: idCounter.current++, type, text }]);
+    };
+
+    const getCurrentPrompt = useCallback(() => {
+        return toPromptPath(toVfsPath(currentPath));
+    }, [currentPath]);
+
+    const changeDirectory = (path: string) => {
+        cwdRef.current = path;
+        envRef.current.PWD = path;
+        setCurrentPath(splitPath(path));
+    };
+
+    // Report the working directory for tab and window titles
+    useEffect(() => {
+        onCwdChange(sessionId, toVfsPath(currentPath));
+    }, [sessionId, currentPath, onCwdChange]);
+
+    useEffect(() => {
+        if (isFocused) inputRef.current?.focus();
+    }, [isFocused]);
+
+    const { saveWorkspace, openWorkspace } = useWorkspaces();
+    const services: TerminalServices = { db, openWindow, setWallpaper, saveWorkspace, openWorkspace };
+
+    /**
+     * Complete the word under the cursor. Returns full input lines so the caller can replace the input.
+     * Only the last command of a pipeline or chain is completed.
+     */
+    const getCommandSuggestions = async (input: string): Promise<string[]> => {
+        const segmentStart = Math.max(input.lastIndexOf('|'), input.lastIndexOf('&'), input.lastIndexOf(';')) + 1;
+        const words = input.slice(segmentStart).trimStart().split(/\s+/);
+        const current = words[words.length - 1] ?? '';
+        const head = input.slice(0, input.length - current.length);
+
+        let candidates: string[];
+        if (words.length <= 1) {
+            const names = [
+                ...BUILTIN_COMMANDS.map(builtin => builtin.name),
+                ...terminalCommands.list().map(c => c.name),
+            ];
+            candidates = names.filter(name => name.startsWith(current.toLowerCase()));
+        } else {
+            candidates = await terminalCommands.complete(words, { cwd: cwdRef.current, env: envRef.current, services });
+        }
+        return candidates.map(candidate => head + candidate);
+    };
+
+    const exportSession = useCallback(() => {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const filename = `terminal-session-${timestamp}.txt`;
+        const content = output.map(line => line.text).join('\n');
+        const blob = new Blob([content], { type: 'text/plain' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = filename;
+        a.click();
+        URL.revokeObjectURL(url);
+    }, [output]);
+
+    const executeCommand = async (cmd: string) => {
+        const trimmed = cmd.trim();
+        if (!trimmed) return;
+
+        addOutput(`${getCurrentPrompt()}>${trimmed}`, 'command');
+
+        // Expand aliases
+        let expandedCmd = trimmed;
+        const firstWord = trimmed.split(' ')[0]?.toLowerCase();
+        if (firstWord && aliases && typeof aliases === 'object' && firstWord in aliases) {
+            const aliasValue = aliases[firstWord as keyof typeof aliases];
+            const restOfCommand = trimmed.substring(firstWord.length).trim();
+            expandedCmd = restOfCommand ? `${aliasValue} ${restOfCommand}` : aliasValue;
+        }
+
+        // Save command to database with FIFO eviction
+        if (db) {
+            try {
+                // Add new command to history
+                await db.$terminalHistory.add({
+                    command: trimmed,
+                    executedAt: Date.now(),
+                });
+
+                // Enforce MAX_HISTORY limit (FIFO eviction)
+                const count = await db.$terminalHistory.count();
+                if (count > MAX_HISTORY) {
+                    const oldest = await db.$terminalHistory
+                        .orderBy('executedAt')
+                        .limit(count - MAX_HISTORY)
+                        .toArray();
+                    const oldestIds = oldest.map(h => h.id).filter((id): id is number => id !== undefined);
+                    await db.$terminalHistory.bulkDelete(oldestIds);
+                }
+            } catch (error) {
+                console.error('Failed to save terminal history:', error);
+            }
+        }
+
+        setHistoryIndex(-1);
+
+        lastStatusRef.current = await runScript(
+            expandedCmd,
+            {
+                env: envRef.current,
+                cwd: () => cwdRef.current,
+                runCommand,
+                lastStatus: lastStatusRef.current,
+            },
+            {
+                stdout: text => addOutput(text),
+                stderr: text => addOutput(text, 'error'),
+            }
+        );
+        addOutput('');
+    };
+
+    /**
+     * Run a single command of a pipeline. Output goes through the shell streams so it can be piped or redirected;
+     * the exit status is 1 when the command reported an error.
+     */
+    const runCommand = async (argv: string[], io: ShellIO): Promise<number> => {
+        let status = 0;
+        const addOutput = (text: string, type: 'output' | 'error' = 'output') => {
+            if (type === 'error') {
+                status = 1;
+                io.stderr(text);
+            } else {
+                io.stdout(text);
+            }
+        };
+
+        const command = (argv[0] ?? '').toLowerCase();
+        const args = argv.slice(1).join(' ');
+
+        switch (command) {
+            case 'help': {
+                const topic = argv[1]?.toLowerCase();
+                const registered = topic ? terminalCommands.get(topic) : undefined;
+                if (registered) {
+                    addOutput(registered.description);
+                    addOutput('');
+                    addOutput(`Usage: ${formatCommandUsage(registered)}`);
+                    registered.args?.forEach(arg => {
+                        addOutput(`  ${arg.name.padEnd(14)} ${arg.description ?? ''}`.trimEnd());
+                    });
+                    registered.subcommands?.forEach(sub => {
+                        addOutput(`  ${formatCommandUsage(sub, registered.name).padEnd(28)} - ${sub.description}`);
+                    });
+                    break;
+                }
+                if (topic && !BUILTIN_COMMANDS.some(builtin => builtin.name === topic)) {
+                    addOutput(`No help available for: ${topic}`, 'error');
+                    break;
+                }
+
+                addOutput('Available commands:');
+                BUILTIN_COMMANDS.forEach(builtin => addOutput(`  ${builtin.name.padEnd(10)} - ${builtin.description}`));
+
+                const registeredCommands = terminalCommands.list();
+                const utilities = registeredCommands.filter(command => command.source === SHELL_COMMAND_SOURCE);
+                const appCommands = registeredCommands.filter(command => command.source !== SHELL_COMMAND_SOURCE);
+                if (utilities.length > 0) {
+                    addOutput('');
+                    addOutput('File and text utilities:');
+                    utilities.forEach(command => {
+                        addOutput(`  ${formatCommandUsage(command).padEnd(36)} - ${command.description}`);
+                    });
+                }
+                if (appCommands.length > 0) {
+                    addOutput('');
+                    addOutput('App commands:');
+                    appCommands.forEach(command => {
+                        addOutput(`  ${formatCommandUsage(command).padEnd(28)} - ${command.description}`);
+                    });
+                }
+                addOutput('');
+                addOutput('Commands can be combined with | pipes, > and >> redirection, && and ||.');
+                addOutput('Ctrl+Shift+T opens a tab, Ctrl+Shift+D/E splits the pane, Ctrl+Shift+W closes it.');
+                break;
+            }
+            case 'date':
+                addOutput(`The current date is: ${formatDateLong(new Date())}`);
+                break;
+            case 'time':
+                addOutput(`The current time is: ${formatTimeLong(new Date())}`);
+                break;
+            case 'echo':
+                addOutput(args || '');
+                break;
+            case 'clear':
+            case 'cls':
+                setOutput([]);
+                break;
+            case 'whoami':
+                addOutput('WINDOWS15\\Guest');
+                break;
+            case 'ls':
+            case 'dir': {
+                try {
+                    const target = resolvePath(cwdRef.current, args);
+                    const folder = await vfs.stat(target);
+
+                    if (!folder || !folder.isDirectory) {
+                        addOutput('The system cannot find the path specified.', 'error');
+                        break;
+                    }
+
+                    const children = await vfs.readdir(folder.path);
+
+                    // Piped or redirected output lists one name per line, like ls without a terminal
+                    if (!io.isTerminal) {
+                        children.forEach(item => addOutput(item.name));
+                        break;
+                    }
+
+                    addOutput(' Volume in drive C has no label.');
+                    addOutput(' Volume Serial Number is WIN15-2025');
+                    addOutput('');
+                    addOutput(` Directory of ${toPromptPath(folder.path)}`);
+                    addOutput('');
+                    addOutput(`${formatDateLong(new Date())}  ${formatTimeLong(new Date())}    <DIR>          .`);
+                    if (folder.path !== '/') {
+                        addOutput(`${formatDateLong(new Date())}  ${formatTimeLong(new Date())}    <DIR>          ..`);
+                    }
+
+                    let fileCount = 0;
+                    let dirCount = 0;
+
+                    children.forEach(item => {
+                        const date = formatDateLong(new Date());
+                        const time = formatTimeLong(new Date());
+                        if (item.isDirectory) {
+                            addOutput(`${date}  ${time}    <DIR>          ${item.name}`);
+                            dirCount++;
+                        } else {
+                            const size = `${item.size} bytes`;
+                            addOutput(`${date}  ${time}    ${size.padStart(14)}  ${item.name}`);
+                            fileCount++;
+                        }
+                    });
+
+                    addOutput(`               ${fileCount} File(s)`);
+                    addOutput(`               ${dirCount + 2} Dir(s)   256,000,000 bytes free`);
+                } catch {
+                    addOutput('Error accessing filesystem', 'error');
+                }
+                break;
+            }
+            case 'pwd':
+                addOutput(toPromptPath(cwdRef.current));
+                break;
+            case 'cd': {
+                if (!args) {
+                    addOutput(toPromptPath(cwdRef.current));
+                    break;
+                }
+
+                try {
+                    const folder = await vfs.stat(resolvePath(cwdRef.current, args));
+                    if (!folder || !folder.isDirectory) {
+                        addOutput('The system cannot find the path specified.', 'error');
+                        break;
+                    }
+
+                    changeDirectory(folder.path);
+                } catch {
+                    addOutput('Error accessing filesystem', 'error');
+                }
+                break;
+            }
+            case 'mkdir': {
+                if (!args) {
+                    addOutput('The syntax of the command is incorrect.', 'error');
+                    break;
+                }
+
+                try {
+                    const created = await vfs.mkdir(resolvePath(cwdRef.current, args));
+                    addOutput(`Directory created: ${created.name}`);
+                } catch (error) {
+                    if (isVfsError(error, 'EEXIST')) {
+                        addOutput('A subdirectory or file already exists with that name.', 'error');
+                    } else if (isVfsError(error, 'ENOENT') || isVfsError(error, 'ENOTDIR')) {
+                        addOutput('The system cannot find the path specified.', 'error');
+                    } else if (isVfsError(error, 'EINVAL')) {
+                        addOutput('The syntax of the command is incorrect.', 'error');
+                    } else {
+                        addOutput('Error creating directory', 'error');
+                    }
+                }
+                break;
+            }
+            case 'touch': {
+                if (!args) {
+                    addOutput('The syntax of the command is incorrect.', 'error');
+                    break;
+                }
+
+                try {
+                    const target = resolvePath(cwdRef.current, args);
+                    if (await vfs.exists(target)) {
+                        addOutput('A file or directory already exists with that name.', 'error');
+                        break;
+                    }
+
+                    const created = await vfs.writeFile(target, '');
+                    addOutput(`File created: ${created.name}`);
+                } catch (error) {
+                    if (isVfsError(error, 'ENOENT') || isVfsError(error, 'ENOTDIR')) {
+                        addOutput('The system cannot find the path specified.', 'error');
+                    } else if (isVfsError(error, 'EINVAL')) {
+                        addOutput('The syntax of the command is incorrect.', 'error');
+                    } else {
+                        addOutput('Error creating file', 'error');
+                    }
+                }
+                break;
+            }
+            case 'cat': {
+                const files = argv.slice(1);
+                if (files.length === 0) {
+                    // Pass piped input through (`ls | cat`)
+                    if (io.stdin) {
+                        splitLines(io.stdin).forEach(line => addOutput(line));
+                    } else {
+                        addOutput('The syntax of the command is incorrect.', 'error');
+                    }
+                    break;
+                }
+
+                for (const file of files) {
+                    try {
+                        splitLines(await vfs.readFile(resolvePath(cwdRef.current, file))).forEach(line =>
+                            addOutput(line)
+                        );
+                    } catch (error) {
+                        if (isVfsError(error, 'EISDIR')) {
+                            addOutput('Access is denied.', 'error');
+                        } else if (isVfsError(error, 'ENOENT') || isVfsError(error, 'ENOTDIR')) {
+                            addOutput('The system cannot find the file specified.', 'error');
+                        } else {
+                            addOutput('Error reading file', 'error');
+                        }
+                    }
+                }
+                break;
+            }
+            case 'ver':
+                addOutput('');
+                addOutput(`Windows15 [Version 15.0.${osBuild}]`);
+                break;
+            case 'hostname':
+                addOutput('DESKTOP-WIN15');
+                break;
+            case 'ping': {
+                const host = args.trim();
+                if (!host) {
+                    addOutput('Usage: ping <hostname>', 'error');
+                    break;
+                }
+
+                if (!isOnline) {
+                    addOutput(
+                        `Ping request could not find host ${host}. Please check the name and try again.`,
+                        'error'
+                    );
+                    break;
+                }
+
+                addOutput('');
+                addOutput(`Pinging ${host} with 32 bytes of data:`);
+
+                // Simulate 4 ping responses with random jitter
+                const baseLatency = latency ?? 50;
+                for (let i = 0; i < 4; i++) {
+                    const jitter = Math.floor((Math.random() - 0.5) * 20);
+                    const time = Math.max(1, baseLatency + jitter);
+                    addOutput(`Reply from ${host}: bytes=32 time=${time}ms TTL=64`);
+                }
+
+                addOutput('');
+                addOutput(`Ping statistics for ${host}:`);
+                addOutput('    Packets: Sent = 4, Received = 4, Lost = 0 (0% loss)');
+                addOutput('Approximate round trip times in milli-seconds:');
+                const min = Math.max(1, baseLatency - 10);
+                const max = baseLatency + 10;
+                const avg = baseLatency;
+                addOutput(`    Minimum = ${min}ms, Maximum = ${max}ms, Average = ${avg}ms`);
+                break;
+            }
+            case 'ipconfig': {
+                addOutput('');
+                addOutput('Windows IP Configuration');
+                addOutput('');
+                addOutput('Ethernet adapter Local Area Connection:');
+                addOutput('');
+                addOutput('   Connection-specific DNS Suffix  . :');
+                addOutput(`   Link-local IPv4 Address. . . . . . : ${ip}`);
+                addOutput('   Subnet Mask . . . . . . . . . . . : 255.255.255.0');
+                addOutput('   Default Gateway . . . . . . . . . : 192.168.1.1');
+                addOutput('');
+                addOutput('Network Status:');
+                addOutput(`   Connected . . . . . . . . . . . . : ${isOnline ? 'Yes' : 'No'}`);
+                addOutput(`   Connection Type . . . . . . . . . : ${effectiveType}`);
+                if (latency !== null) {
+                    addOutput(`   Latency . . . . . . . . . . . . . : ${latency}ms`);
+                }
+                break;
+            }
+            case 'theme': {
+                const themeArg = args.trim().toLowerCase();
+                if (!themeArg) {
+                    // Show current theme and list available themes
+                    addOutput(`Current theme: ${preferences.theme}`);
+                    addOutput('');
+                    addOutput('Available themes:');
+                    availableThemes.forEach(theme => {
+                        const marker = theme.name === preferences.theme ? ' (active)' : '';
+                        addOutput(`  ${theme.name.padEnd(12)} - ${theme.displayName}${marker}`);
+                    });
+                    addOutput('');
+                    addOutput('Usage: theme <name>');
+                    break;
+                }
+
+                // Try to set the theme
+                if (TERMINAL_THEMES[themeArg]) {
+                    if (await setTheme(themeArg)) {
+                        addOutput(`Theme changed to: ${themeArg}`);
+                    } else {
+                        addOutput('Failed to save theme preference.', 'error');
+                    }
+                } else {
+                    addOutput(`Unknown theme: ${themeArg}`, 'error');
+                    addOutput('Use "theme" to see available themes.');
+                }
+                break;
+            }
+            case 'fontsize': {
+                const sizeArg = args.trim();
+                if (!sizeArg) {
+                    addOutput(`Current font size: ${preferences.fontSize}px`);
+                    addOutput('Usage: fontsize <10-18>');
+                    break;
+                }
+
+                const size = parseInt(sizeArg, 10);
+                if (isNaN(size) || size < 10 || size > 18) {
+                    addOutput('Font size must be between 10 and 18.', 'error');
+                    break;
+                }
+
+                if (await setFontSize(size)) {
+                    addOutput(`Font size changed to: ${size}px`);
+                } else {
+                    addOutput('Failed to save font size preference.', 'error');
+                }
+                break;
+            }
+            case 'font': {
+                const fontArg = args.trim();
+                if (!fontArg) {
+                    addOutput(`Current font: ${preferences.fontFamily}`);
+                    addOutput('');
+                    addOutput('Available fonts:');
+                    availableFonts.forEach(font => {
+                        const marker = font === preferences.fontFamily ? ' (active)' : '';
+                        addOutput(`  ${font}${marker}`);
+                    });
+                    addOutput('');
+                    addOutput('Usage: font <name>');
+                    break;
+                }
+
+                // Find matching font (case-insensitive)
+                const matchedFont = availableFonts.find(f => f.toLowerCase() === fontArg.toLowerCase());
+                if (matchedFont) {
+                    if (await setFontFamily(matchedFont)) {
+                        addOutput(`Font changed to: ${matchedFont}`);
+                    } else {
+                        addOutput('Failed to save font preference.', 'error');
+                    }
+                } else {
+                    addOutput(`Unknown font: ${fontArg}`, 'error');
+                    addOutput('Use "font" to see available fonts.');
+                }
+                break;
+            }
+            case 'export':
+                exportSession();
+                addOutput('Terminal session exported successfully.');
+                break;
+            case 'alias': {
+                if (!db) {
+                    addOutput('Database not available.', 'error');
+                    break;
+                }
+
+                if (!args) {
+                    // List all aliases
+                    if (aliases && Object.keys(aliases).length > 0) {
+                        addOutput('Defined aliases:');
+                        Object.entries(aliases).forEach(([name, cmd]) => {
+                            addOutput(`  ${name}='${cmd}'`);
+                        });
+                    } else {
+                        addOutput('No aliases defined.');
+                    }
+                    break;
+                }
+
+                // Define a new alias: alias name='command'
+                const match = args.match(/^(\w+)=(.+)$/);
+                if (!match) {
+                    addOutput('Usage: alias name=command', 'error');
+                    break;
+                }
+
+                const [, aliasName, aliasCmd] = match;
+                if (!aliasName || !aliasCmd) {
+                    addOutput('Usage: alias name=command', 'error');
+                    break;
+                }
+
+                // Remove quotes if present
+                const cleanCmd = aliasCmd.replace(/^['"]|['"]$/g, '');
+
+                try {
+                    const now = Date.now();
+                    await db.$terminalAliases.put({
+                        name: aliasName.toLowerCase(),
+                        command: cleanCmd,
+                        createdAt: now,
+                        updatedAt: now,
+                    });
+                    addOutput(`Alias created: ${aliasName}='${cleanCmd}'`);
+                } catch {
+                    addOutput('Failed to create alias.', 'error');
+                }
+                break;
+            }
+            case 'unalias': {
+                if (!db) {
+                    addOutput('Database not available.', 'error');
+                    break;
+                }
+
+                if (!args) {
+                    addOutput('Usage: unalias <name>', 'error');
+                    break;
+                }
+
+                const aliasName = args.trim().toLowerCase();
+                try {
+                    await db.$terminalAliases.delete(aliasName);
+                    addOutput(`Alias removed: ${aliasName}`);
+                } catch {
+                    addOutput('Failed to remove alias.', 'error');
+                }
+                break;
+            }
+            case 'notepad': {
+                const filename = args.trim();
+                if (filename) {
+                    // TODO: Pass filename to Notepad app
+                    openWindow('notepad', { filename });
+                    addOutput(`Opening Notepad with file: ${filename}`);
+                } else {
+                    openWindow('notepad');
+                    addOutput('Opening Notepad...');
+                }
+                break;
+            }
+            case 'calc':
+            case 'calculator':
+                openWindow('calculator');
+                addOutput('Opening Calculator...');
+                break;
+            case 'browser': {
+                const url = args.trim();
+                if (url) {
+                    // TODO: Pass URL to Browser app
+                    openWindow('browser', { url });
+                    addOutput(`Opening Browser with URL: ${url}`);
+                } else {
+                    openWindow('browser');
+                    addOutput('Opening Browser...');
+                }
+                break;
+            }
+            case 'calendar':
+                openWindow('calendar');
+                addOutput('Opening Calendar...');
+                break;
+            case 'start': {
+                if (!args) {
+                    addOutput('Usage: start <app-id>', 'error');
+                    addOutput('Available apps:');
+                    apps.forEach(app => {
+                        addOutput(`  ${app.id.padEnd(15)} - ${app.title}`);
+                    });
+                    break;
+                }
+
+                const appId = args.trim().toLowerCase();
+                const app = apps.find(a => a.id === appId);
+                if (!app) {
+                    addOutput(`App not found: ${appId}`, 'error');
+                    break;
+                }
+
+                openWindow(appId);
+                addOutput(`Opening ${app.title}...`);
+                break;
+            }
+            default: {
+                // Commands contributed through the registry
+                const registeredStatus = await terminalCommands.execute(argv, {
+                    ...io,
+                    env: envRef.current,
+                    cwd: cwdRef.current,
+                    services,
+                });
+                if (registeredStatus !== null) return registeredStatus;
+
+                addOutput(`'${command}' is not recognized as an internal or external command,`, 'error');
+                addOutput('operable program or batch file.', 'error');
+                status = EXIT_NOT_FOUND;
+            }
+        }
+        return status;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // Tab and pane shortcuts
+        if (e.ctrlKey && e.shiftKey && ['D', 'E', 'T', 'W'].includes(e.key)) {
+            e.preventDefault();
+            if (e.key === 'D') onAction({ type: 'split', direction: 'horizontal' });
+            else if (e.key === 'E') onAction({ type: 'split', direction: 'vertical' });
+            else if (e.key === 'T') onAction({ type: 'newTab' });
+            else onAction({ type: 'closePane' });
+            return;
+        }
+        if (e.ctrlKey && (e.key === 'PageDown' || e.key === 'PageUp')) {
+            e.preventDefault();
+            onAction({ type: 'cycleTab', offset: e.key === 'PageDown' ? 1 : -1 });
+            return;
+        }
+
+        // Tab: Trigger command completion
+        if (e.key === 'Tab') {
+            e.preventDefault();
+
+            if (suggestions.length > 0 && suggestionIndex >= 0) {
+                // Cycle through suggestions
+                const nextIndex = (suggestionIndex + 1) % suggestions.length;
+                setSuggestionIndex(nextIndex);
+                setInput(suggestions[nextIndex] + ' ');
+                return;
+            }
+
+            void getCommandSuggestions(input).then(matches => {
+                if (matches.length === 0) {
+                    // No matches
+                    return;
+                } else if (matches.length === 1) {
+                    // Single match - auto-complete
+                    setInput(matches[0] + ' ');
+                    setSuggestions([]);
+                    setSuggestionIndex(-1);
+                } else {
+                    // Multiple matches - show suggestions
+                    setSuggestions(matches);
+                    setSuggestionIndex(0);
+                    setInput(matches[0] + ' ');
+                }
+            });
+            return;
+        }
+
+        // Escape: Clear suggestions
+        if (e.key === 'Escape') {
+            setSuggestions([]);
+            setSuggestionIndex(-1);
+            return;
+        }
+
+        // Ctrl+C: Copy selection or do nothing (don't interrupt)
+        if (e.ctrlKey && e.key === 'c') {
+            const selection = getSelectedText();
+            if (selection) {
+                e.preventDefault();
+                void copyToClipboard(selection);
+            }
+            return;
+        }
+
+        // Ctrl+V: Paste from clipboard
+        if (e.ctrlKey && e.key === 'v') {
+            e.preventDefault();
+            void pasteFromClipboard();
+            return;
+        }
+
+        // Ctrl+Shift+C: Copy all output
+        if (e.ctrlKey && e.shiftKey && e.key === 'C') {
+            e.preventDefault();
+            void handleCopyAll();
+            return;
+        }
+
+        if (e.key === 'Enter') {
+            void executeCommand(input);
+            setInput('');
+            setSuggestions([]);
+            setSuggestionIndex(-1);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            // Clear suggestions when navigating history
+            setSuggestions([]);
+            setSuggestionIndex(-1);
+            if (commandHistory && commandHistory.length > 0) {
+                const newIndex = historyIndex === -1 ? commandHistory.length - 1 : Math.max(0, historyIndex - 1);
+                setHistoryIndex(newIndex);
+                setInput(commandHistory[newIndex] ?? '');
+            }
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            // Clear suggestions when navigating history
+            setSuggestions([]);
+            setSuggestionIndex(-1);
+            if (commandHistory && historyIndex !== -1) {
+                const newIndex = historyIndex + 1;
+                if (newIndex >= commandHistory.length) {
+                    setHistoryIndex(-1);
+                    setInput('');
+                } else {
+                    setHistoryIndex(newIndex);
+                    setInput(commandHistory[newIndex] ?? '');
+                }
+            }
+        }
+    };
+
+    const handleInputChange = (value: string) => {
+        setInput(value);
+        // Clear suggestions when user types
+        setSuggestions([]);
+        setSuggestionIndex(-1);
+    };
+
+    return (
+        <div
+            className="h-full w-full min-h-0 min-w-0 flex flex-col text-sm relative"
+            style={{
+                backgroundColor: currentTheme.backgroundColor,
+                fontFamily: preferences.fontFamily,
+                fontSize: `${effectiveFontSize}px`,
+            }}
+            onClick={() => {
+                onFocus(sessionId);
+                inputRef.current?.focus();
+            }}
+            onContextMenu={handleContextMenu}
+        >
+            <div ref={outputRef} className="flex-1 overflow-y-auto p-3 select-text touch-scroll">
+                {output.map(line => (
+                    <div
+                        key={line.id}
+                        className="whitespace-pre-wrap"
+                        style={{
+                            color:
+                                line.type === 'command'
+                                    ? currentTheme.commandColor
+                                    : line.type === 'error'
+                                      ? currentTheme.errorColor
+                                      : currentTheme.textColor,
+                        }}
+                    >
+                        {line.text || '\u00A0'}
+                    </div>
+                ))}
+            </div>
+            {/* F246: Larger touch-friendly input area on phone */}
+            <div className={`relative flex items-center ${isPhone ? 'p-4 min-h-[52px]' : 'p-3 pt-0'}`}>
+                <span style={{ color: currentTheme.promptColor }}>{getCurrentPrompt()}&gt;</span>
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={input}
+                    onChange={e => handleInputChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    className={`flex-1 bg-transparent outline-none ml-1 ${isPhone ? 'min-h-[44px]' : ''}`}
+                    style={{
+                        color: currentTheme.textColor,
+                        caretColor: currentTheme.textColor,
+                        fontFamily: preferences.fontFamily,
+                        fontSize: `${effectiveFontSize}px`,
+                    }}
+                    spellCheck={false}
+                />
+                {/* Tab completion suggestions - F246: max-height for phone */}
+                {suggestions.length > 0 && (
+                    <div
+                        className={`absolute bottom-full left-0 mb-1 bg-gray-800 border border-gray-600 rounded shadow-lg py-1 z-50 min-w-[200px] ${isPhone ? 'max-h-[50vh] overflow-y-auto w-full' : ''}`}
+                    >
+                        <div
+                            className={`${isPhone ? 'px-4 py-2' : 'px-3 py-1'} text-xs text-gray-400 border-b border-gray-600`}
+                        >
+                            {isPhone
+                                ? `${suggestions.length} matches`
+                                : `Press Tab to cycle (${suggestions.length} matches)`}
+                        </div>
+                        {suggestions.map((suggestion, idx) => (
+                            <div
+                                key={suggestion}
+                                className={`${isPhone ? 'px-4 py-3 min-h-[44px] flex items-center' : 'px-3 py-1'} ${
+                                    idx === suggestionIndex
+                                        ? 'bg-blue-600 text-white'
+                                        : 'text-gray-300 hover:bg-gray-700'
+                                }`}
+                                onClick={isPhone ? () => setInput(suggestion) : undefined}
+                            >
+                                {suggestion}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Context Menu */}
+            {contextMenu && (
+                <ContextMenu ref={menuRef} position={contextMenu.position} onClose={closeContextMenu} {...menuProps}>
+                    {contextMenu.data?.hasSelection && (
+                        <ContextMenu.Item icon="content_copy" onClick={handleCopySelection}>
+                            Copy
+                        </ContextMenu.Item>
+                    )}
+                    <ContextMenu.Item icon="content_paste" onClick={handlePaste}>
+                        Paste
+                    </ContextMenu.Item>
+                    <ContextMenu.Item icon="select_all" onClick={handleCopyAll}>
+                        Copy All Output
+                    </ContextMenu.Item>
+                    <ContextMenu.Item icon="select_all" onClick={handleSelectAll}>
+                        Select All
+                    </ContextMenu.Item>
+                    <ContextMenu.Separator />
+                    <ContextMenu.Item
+                        icon="tab"
+                        onClick={() => {
+                            onAction({ type: 'newTab' });
+                            closeContextMenu();
+                        }}
+                    >
+                        New Tab
+                    </ContextMenu.Item>
+                    <ContextMenu.Item
+                        icon="vertical_split"
+                        onClick={() => {
+                            onAction({ type: 'split', direction: 'horizontal' });
+                            closeContextMenu();
+                        }}
+                    >
+                        Split Right
+                    </ContextMenu.Item>
+                    <ContextMenu.Item
+                        icon="horizontal_split"
+                        onClick={() => {
+                            onAction({ type: 'split', direction: 'vertical' });
+                            closeContextMenu();
+                        }}
+                    >
+                        Split Down
+                    </ContextMenu.Item>
+                    <ContextMenu.Item
+                        icon="close"
+                        onClick={() => {
+                            onAction({ type: 'closePane' });
+                            closeContextMenu();
+                        }}
+                    >
+                        Close Pane
+                    </ContextMenu.Item>
+                    <ContextMenu.Separator />
+                    {/* Theme submenu */}
+                    <ContextMenu.Submenu icon="palette" label="Theme">
+                        {availableThemes.map(theme => (
+                            <ContextMenu.Item
+                                key={theme.name}
+                                onClick={() => {
+                                    void setTheme(theme.name);
+                                    closeContextMenu();
+                                }}
+                            >
+                                <span className="flex items-center gap-2 w-full">
+                                    <span
+                                        className="w-3 h-3 rounded-full border border-gray-500"
+                                        style={{ backgroundColor: theme.textColor }}
+                                    />
+                                    {theme.displayName.split(' ')[0]}
+                                    {preferences.theme === theme.name && (
+                                        <span className="material-symbols-outlined text-sm ml-auto">check</span>
+                                    )}
+                                </span>
+                            </ContextMenu.Item>
+                        ))}
+                    </ContextMenu.Submenu>
+                    {/* Font Size submenu */}
+                    <ContextMenu.Submenu icon="format_size" label={`Font Size (${preferences.fontSize}px)`}>
+                        {[10, 12, 14, 16, 18].map(size => (
+                            <ContextMenu.Item
+                                key={size}
+                                onClick={() => {
+                                    void setFontSize(size);
+                                    closeContextMenu();
+                                }}
+                            >
+                                <span className="flex items-center gap-2 w-full">
+                                    {size}px
+                                    {preferences.fontSize === size && (
+                                        <span className="material-symbols-outlined text-sm ml-auto">check</span>
+                                    )}
+                                </span>
+                            </ContextMenu.Item>
+                        ))}
+                    </ContextMenu.Submenu>
+                    {/* Font Family submenu */}
+                    <ContextMenu.Submenu icon="text_fields" label="Font">
+                        {availableFonts.map(font => (
+                            <ContextMenu.Item
+                                key={font}
+                                onClick={() => {
+                                    void setFontFamily(font);
+                                    closeContextMenu();
+                                }}
+                            >
+                                <span className="flex items-center gap-2 w-full" style={{ fontFamily: font }}>
+                                    {font}
+                                    {preferences.fontFamily === font && (
+                                        <span className="material-symbols-outlined text-sm ml-auto">check</span>
+                                    )}
+                                </span>
+                            </ContextMenu.Item>
+                        ))}
+                    </ContextMenu.Submenu>
+                    <ContextMenu.Separator />
+                    <ContextMenu.Item
+                        icon="download"
+                        onClick={() => {
+                            exportSession();
+                            closeContextMenu();
+                        }}
+                    >
+                        Export Session
+                    </ContextMenu.Item>
+                    <ContextMenu.Item icon="clear_all" onClick={handleClearTerminal}>
+                        Clear
+                    </ContextMenu.Item>
+                </ContextMenu>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { TerminalTheme } from '../../types/terminal';
+import type { SplitDirection, TerminalTab } from './types';
+
+export interface TerminalTabBarProps {
+    tabs: TerminalTab[];
+    activeTabId: string;
+    /** Title of each tab, by tab ID */
+    titles: Record<string, string>;
+    theme: TerminalTheme;
+    onSelect: (tabId: string) => void;
+    onClose: (tabId: string) => void;
+    onNewTab: () => void;
+    onSplit: (direction: SplitDirection) => void;
+}
+
+/**
+ * Tab strip of a Terminal window with new-tab and split buttons
+ */
+export const TerminalTabBar: React.FC<TerminalTabBarProps> = ({
+    tabs,
+    activeTabId,
+    titles,
+    theme,
+    onSelect,
+    onClose,
+    onNewTab,
+    onSplit,
+}) => {
+    return (
+        <div
+            className="flex items-center gap-1 px-1 pt-1 text-xs border-b border-white/10 select-none"
+            style={{ backgroundColor: theme.backgroundColor, color: theme.textColor }}
+        >
+            <div role="tablist" className="flex items-center gap-1 flex-1 min-w-0 overflow-x-auto">
+                {tabs.map(tab => {
+                    const isActive = tab.id === activeTabId;
+                    return (
+                        <div
+                            key={tab.id}
+                            role="tab"
+                            aria-selected={isActive}
+                            tabIndex={-1}
+                            className={`group flex items-center gap-1 pl-3 pr-1 py-1 rounded-t cursor-pointer max-w-[180px] ${
+                                isActive ? 'bg-white/15' : 'opacity-60 hover:opacity-100 hover:bg-white/5'
+                            }`}
+                            onClick={() => onSelect(tab.id)}
+                            onAuxClick={e => {
+                                if (e.button === 1) onClose(tab.id);
+                            }}
+                        >
+                            <span className="truncate">{titles[tab.id] ?? 'Terminal'}</span>
+                            <button
+                                className="rounded hover:bg-white/20 leading-none p-0.5"
+                                title="Close tab"
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onClose(tab.id);
+                                }}
+                            >
+                                <span className="material-symbols-outlined text-sm">close</span>
+                            </button>
+                        </div>
+                    );
+                })}
+                <button className="rounded hover:bg-white/15 p-1 leading-none" title="New tab" onClick={onNewTab}>
+                    <span className="material-symbols-outlined text-sm">add</span>
+                </button>
+            </div>
+            <button
+                className="rounded hover:bg-white/15 p-1 leading-none"
+                title="Split right"
+                onClick={() => onSplit('horizontal')}
+            >
+                <span className="material-symbols-outlined text-sm">vertical_split</span>
+            </button>
+            <button
+                className="rounded hover:bg-white/15 p-1 leading-none"
+                title="Split down"
+                onClick={() => onSplit('vertical')}
+            >
+                <span className="material-symbols-outlined text-sm">horizontal_split</span>
+            </button>
+        </div>
+    );
+};
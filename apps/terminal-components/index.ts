@@ -0,0 +1,18 @@
+/**
+ * Terminal app components
+ * @module apps/terminal
+ */
+export { TerminalPane } from './TerminalPane';
+export type { TerminalPaneProps } from './TerminalPane';
+export { TerminalTabBar } from './TerminalTabBar';
+export type { TerminalTabBarProps } from './TerminalTabBar';
+export { createTab, getSessionIds, getPaneRects, splitPane, removePane, parseWindowLayout } from './layout';
+export type {
+    OutputLine,
+    SplitDirection,
+    PaneLayout,
+    PaneRect,
+    TerminalTab,
+    TerminalWindowLayout,
+    TerminalPaneAction,
+} from './types';
@@ -0,0 +1,129 @@
+/**
+ * Pure helpers for Terminal tab and split-pane layouts
+ * @module apps/terminal-components/layout
+ */
+import { generateUuid } from '../../utils/uuid';
+import type { PaneLayout, PaneRect, SplitDirection, TerminalTab, TerminalWindowLayout } from './types';
+
+/**
+ * Create a tab holding a single session
+ */
+export const createTab = (sessionId: number): TerminalTab => ({
+    id: generateUuid(),
+    layout: { type: 'pane', sessionId },
+    focusedSessionId: sessionId,
+});
+
+/**
+ * Session IDs of all panes in a layout, in reading order
+ */
+export const getSessionIds = (layout: PaneLayout): number[] => {
+    if (layout.type === 'pane') return [layout.sessionId];
+    return [...getSessionIds(layout.children[0]), ...getSessionIds(layout.children[1])];
+};
+
+/**
+ * Position of every pane in percent of the tab area. Panes are laid out flat
+ * rather than nested so that splitting never remounts an existing pane.
+ */
+export const getPaneRects = (
+    layout: PaneLayout,
+    area: Omit<PaneRect, 'sessionId'> = { left: 0, top: 0, width: 100, height: 100 }
+): PaneRect[] => {
+    if (layout.type === 'pane') return [{ sessionId: layout.sessionId, ...area }];
+
+    const [first, second] = layout.children;
+    if (layout.direction === 'horizontal') {
+        const width = area.width / 2;
+        return [
+            ...getPaneRects(first, { ...area, width }),
+            ...getPaneRects(second, { ...area, left: area.left + width, width }),
+        ];
+    }
+    const height = area.height / 2;
+    return [
+        ...getPaneRects(first, { ...area, height }),
+        ...getPaneRects(second, { ...area, top: area.top + height, height }),
+    ];
+};
+
+/**
+ * Split the pane showing `sessionId`, placing `newSessionId` after it
+ */
+export const splitPane = (
+    layout: PaneLayout,
+    sessionId: number,
+    direction: SplitDirection,
+    newSessionId: number
+): PaneLayout => {
+    if (layout.type === 'pane') {
+        if (layout.sessionId !== sessionId) return layout;
+        return { type: 'split', direction, children: [layout, { type: 'pane', sessionId: newSessionId }] };
+    }
+    return {
+        ...layout,
+        children: [
+            splitPane(layout.children[0], sessionId, direction, newSessionId),
+            splitPane(layout.children[1], sessionId, direction, newSessionId),
+        ],
+    };
+};
+
+/**
+ * Remove the pane showing `sessionId`; its sibling takes the freed space
+ *
+ * @returns The remaining layout, or null when the last pane was removed
+ */
+export const removePane = (layout: PaneLayout, sessionId: number): PaneLayout | null => {
+    if (layout.type === 'pane') return layout.sessionId === sessionId ? null : layout;
+
+    const first = removePane(layout.children[0], sessionId);
+    const second = removePane(layout.children[1], sessionId);
+    if (!first) return second;
+    if (!second) return first;
+    return { ...layout, children: [first, second] };
+};
+
+const isPaneLayout = (value: unknown): value is PaneLayout => {
+    if (!value || typeof value !== 'object') return false;
+    const layout = value as Record<string, unknown>;
+    if (layout.type === 'pane') return typeof layout.sessionId === 'number';
+    return (
+        layout.type === 'split' &&
+        (layout.direction === 'horizontal' || layout.direction === 'vertical') &&
+        Array.isArray(layout.children) &&
+        layout.children.length === 2 &&
+        layout.children.every(isPaneLayout)
+    );
+};
+
+/**
+ * Parse a stored window layout, dropping anything malformed
+ *
+ * @returns The layout, or null if nothing usable is left
+ */
+export const parseWindowLayout = (json: string): TerminalWindowLayout | null => {
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (!value || typeof value !== 'object' || !Array.isArray((value as TerminalWindowLayout).tabs)) return null;
+
+    const stored = value as TerminalWindowLayout;
+    const tabs = stored.tabs.filter(
+        (tab): tab is TerminalTab => !!tab && typeof tab.id === 'string' && isPaneLayout(tab.layout)
+    );
+    const [firstTab] = tabs;
+    if (!firstTab) return null;
+
+    return {
+        tabs: tabs.map(tab => {
+            const sessionIds = getSessionIds(tab.layout);
+            const focused = sessionIds.includes(tab.focusedSessionId) ? tab.focusedSessionId : sessionIds[0];
+            return { ...tab, focusedSessionId: focused as number };
+        }),
+        activeTabId: tabs.some(tab => tab.id === stored.activeTabId) ? stored.activeTabId : firstTab.id,
+    };
+};
@@ -0,0 +1,59 @@
+/**
+ * A line in a Terminal pane's output buffer
+ */
+export interface OutputLine {
+    id: number;
+    type: 'command' | 'output' | 'error';
+    text: string;
+}
+
+/**
+ * How a split arranges its two children:
+ * `horizontal` places them side by side, `vertical` stacks them.
+ */
+export type SplitDirection = 'horizontal' | 'vertical';
+
+/**
+ * Layout of the panes inside a tab: a single session or a split of two layouts
+ */
+export type PaneLayout =
+    | { type: 'pane'; sessionId: number }
+    | { type: 'split'; direction: SplitDirection; children: [PaneLayout, PaneLayout] };
+
+/**
+ * Placement of a pane within its tab, in percent
+ */
+export interface PaneRect {
+    sessionId: number;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * A Terminal tab
+ */
+export interface TerminalTab {
+    id: string;
+    layout: PaneLayout;
+    /** Session whose pane receives keyboard input */
+    focusedSessionId: number;
+}
+
+/**
+ * Tabs and panes of a Terminal window, stored as JSON in its `$terminalSessions` record
+ */
+export interface TerminalWindowLayout {
+    tabs: TerminalTab[];
+    activeTabId: string;
+}
+
+/**
+ * Window-level actions a pane can trigger from its keyboard shortcuts and context menu
+ */
+export type TerminalPaneAction =
+    | { type: 'split'; direction: SplitDirection }
+    | { type: 'newTab' }
+    | { type: 'closePane' }
+    | { type: 'cycleTab'; offset: number };
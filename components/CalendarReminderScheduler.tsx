@@ -0,0 +1,15 @@
+import React from 'react';
+import { useCalendarEvents, useCalendarReminders } from '../hooks';
+
+/**
+ * CalendarReminderScheduler - Keeps Calendar reminders scheduled in the notification center
+ *
+ * This component should be mounted at the top level (e.g., in App.tsx), so reminders
+ * are scheduled whether or not the Calendar is open.
+ */
+export const CalendarReminderScheduler: React.FC = () => {
+    const { events, isLoading } = useCalendarEvents();
+    useCalendarReminders(isLoading ? null : events);
+
+    return null;
+};
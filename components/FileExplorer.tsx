@@ -158,8 +158,10 @@ export const FileExplorer = () => {
             }
         }
 
-        // For image types
-        if (target.type === 'image' && target.src) {
+        // For image types (Blob-backed images are read from the VFS by the viewer)
+        if (target.type === 'image' && target.hasBlob) {
+            openWindow('imageviewer', { initialFileId: target.id, initialFileName: target.name });
+        } else if (target.type === 'image' && target.src) {
             openWindow('imageviewer', { initialSrc: target.src });
         }
     };
@@ -155,7 +155,7 @@ export const FilePickerModal: React.FC<FilePickerModalProps> = ({
             delete next.size;
         } else {
             next.content = content;
-            next.size = `${content.length} chars`;
+            next.size = new Blob([content]).size;
             delete next.src;
         }
 
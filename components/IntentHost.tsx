@@ -0,0 +1,138 @@
+import React, { useCallback, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { APP_REGISTRY } from '../apps/registry';
+import { useOS } from '../context/OSContext';
+import { useAppEvent, useFilePicker, useNotification } from '../hooks';
+import { FilePickerModal } from './FilePickerModal';
+import { INTENT_LABELS, findIntentHandlers, getIntentProps, resolveIntent } from '../utils/intents';
+import type { Intent, IntentHandlerApp, IntentMatch, ResultIntentAction } from '../utils/intents';
+
+/**
+ * Built-in handler for `pick:file`, shown alongside any app that also handles it
+ */
+const SYSTEM_FILE_PICKER: IntentHandlerApp = {
+    id: 'system:filepicker',
+    title: 'Files',
+    icon: 'folder_open',
+    color: 'bg-yellow-400',
+    intents: [{ action: 'pick:file' }],
+};
+
+interface IntentHostProps {
+    /** Apps to resolve intents against (defaults to the app registry) */
+    apps?: IntentHandlerApp[];
+}
+
+/**
+ * IntentHost - Delivers intents dispatched on the app event bus
+ *
+ * Opens the only matching app directly, shows a chooser when several apps match,
+ * and answers `pick:file` with the system file picker. Mount once at the top level.
+ */
+export const IntentHost: React.FC<IntentHostProps> = ({ apps = APP_REGISTRY }) => {
+    const { openWindow } = useOS();
+    const notify = useNotification();
+    const filePicker = useFilePicker();
+    const [choice, setChoice] = useState<{ intent: Intent; matches: IntentMatch[] } | null>(null);
+
+    const deliver = useCallback(
+        (intent: Intent, { app, filter }: IntentMatch) => {
+            if (app.id === SYSTEM_FILE_PICKER.id && intent.action === 'pick:file') {
+                const { extensions, title } = (intent as Intent<'pick:file'>).data;
+                void filePicker
+                    .open({ extensions, title })
+                    .then(file => resolveIntent(intent as Intent<'pick:file'>, file));
+                return;
+            }
+            openWindow(app.id, getIntentProps(filter, intent));
+        },
+        [openWindow, filePicker]
+    );
+
+    const cancel = (intent: Intent) => resolveIntent(intent as Intent<ResultIntentAction>, null);
+
+    useAppEvent('intent:start', ({ intent, appId }) => {
+        const matches = findIntentHandlers([...apps, SYSTEM_FILE_PICKER], intent);
+        const target = matches.find(match => match.app.id === appId);
+        const [only] = matches;
+
+        if (target) {
+            deliver(intent, target);
+        } else if (matches.length === 1 && only) {
+            deliver(intent, only);
+        } else if (matches.length === 0) {
+            notify.warning(`No app can ${INTENT_LABELS[intent.action].toLowerCase()}`);
+            cancel(intent);
+        } else {
+            // A newer request replaces one still waiting for a choice
+            if (choice) cancel(choice.intent);
+            setChoice({ intent, matches });
+        }
+    });
+
+    const choose = (match: IntentMatch | null) => {
+        if (!choice) return;
+        if (match) deliver(choice.intent, match);
+        else cancel(choice.intent);
+        setChoice(null);
+    };
+
+    return (
+        <>
+            {choice &&
+                createPortal(
+                    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+                        <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={() => choose(null)} />
+                        <div
+                            role="dialog"
+                            aria-label="Open with"
+                            className="relative w-full max-w-sm rounded-xl overflow-hidden shadow-2xl glass-panel"
+                        >
+                            <div className="h-12 px-4 flex items-center justify-between border-b border-white/10 bg-black/30">
+                                <div className="text-sm font-medium text-white/90">
+                                    {INTENT_LABELS[choice.intent.action]} with…
+                                </div>
+                                <button
+                                    onClick={() => choose(null)}
+                                    className="w-8 h-8 rounded-lg hover:bg-white/10 text-white/70 flex items-center justify-center"
+                                    title="Cancel"
+                                >
+                                    <span className="material-symbols-outlined text-[18px]">close</span>
+                                </button>
+                            </div>
+                            <div className="p-2 flex flex-col gap-1">
+                                {choice.matches.map(match => (
+                                    <button
+                                        key={match.app.id}
+                                        onClick={() => choose(match)}
+                                        className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/10 text-left text-sm text-white/90"
+                                    >
+                                        <span
+                                            className={`w-8 h-8 rounded-lg flex items-center justify-center ${match.app.color}`}
+                                        >
+                                            <span className="material-symbols-outlined text-[18px] text-white">
+                                                {match.app.icon}
+                                            </span>
+                                        </span>
+                                        {match.app.title}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>,
+                    document.body
+                )}
+
+            {filePicker.state.isOpen && (
+                <FilePickerModal
+                    state={filePicker.state}
+                    onNavigateTo={filePicker.navigateTo}
+                    onSelectFile={filePicker.selectFile}
+                    onSetFileName={filePicker.setFileName}
+                    onConfirm={filePicker.confirm}
+                    onCancel={filePicker.cancel}
+                />
+            )}
+        </>
+    );
+};
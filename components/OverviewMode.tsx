@@ -8,13 +8,18 @@
  * - Keyboard navigation (arrow keys, Enter, Esc)
  * - Click to focus window
  * - Subtle 3D depth in 3D mode
+ * - Virtual desktop strip: switch, create, rename and delete desktops, and drop
+ *   window cards on a desktop to move the window there
  */
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { useOS, useWindowSpace } from '../context';
+import { useOS, useVirtualDesktops, useWindowSpace } from '../context';
 import { usePhoneMode } from '../hooks';
-import { WindowState } from '../types';
+import { VirtualDesktop, WindowState } from '../types';
 import { APP_REGISTRY } from '../apps';
 
+/** Drag data type carrying a window ID from a window card to a desktop tile */
+const WINDOW_DRAG_TYPE = 'application/x-windows15-window';
+
 interface OverviewModeProps {
     /** Whether overview is visible */
     isOpen: boolean;
@@ -48,6 +53,11 @@ const WindowCard: React.FC<{
     return (
         <button
             type="button"
+            draggable
+            onDragStart={e => {
+                e.dataTransfer.setData(WINDOW_DRAG_TYPE, window.id);
+                e.dataTransfer.effectAllowed = 'move';
+            }}
             onClick={onClick}
             onMouseEnter={onMouseEnter}
             className={`
@@ -83,18 +93,108 @@ const WindowCard: React.FC<{
     );
 };
 
+/**
+ * Desktop tile in the virtual desktop strip. Double-click renames; window cards
+ * dropped on the tile move to that desktop.
+ */
+const DesktopTile: React.FC<{
+    desktop: VirtualDesktop;
+    isActive: boolean;
+    windowCount: number;
+    canDelete: boolean;
+}> = ({ desktop, isActive, windowCount, canDelete }) => {
+    const { moveWindowToDesktop } = useOS();
+    const { switchDesktop, renameDesktop, deleteDesktop } = useVirtualDesktops();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [isDropTarget, setIsDropTarget] = useState(false);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDropTarget(false);
+        const windowId = e.dataTransfer.getData(WINDOW_DRAG_TYPE);
+        if (windowId) moveWindowToDesktop(windowId, desktop.id);
+    };
+
+    return (
+        <div
+            className={`
+                group relative flex flex-col items-center justify-center w-36 h-20 rounded-xl glass-panel border transition-all
+                ${isActive ? 'border-primary ring-2 ring-primary' : 'border-white/10'}
+                ${isDropTarget ? 'scale-105 bg-white/10' : ''}
+            `}
+            onDragOver={e => {
+                if (!e.dataTransfer.types.includes(WINDOW_DRAG_TYPE)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                setIsDropTarget(true);
+            }}
+            onDragLeave={() => setIsDropTarget(false)}
+            onDrop={handleDrop}
+        >
+            {isRenaming ? (
+                <input
+                    autoFocus
+                    defaultValue={desktop.name}
+                    aria-label="Desktop name"
+                    className="w-28 px-2 py-1 rounded bg-black/40 text-white text-sm text-center outline-none focus:ring-1 focus:ring-primary"
+                    onFocus={e => e.currentTarget.select()}
+                    onBlur={e => {
+                        renameDesktop(desktop.id, e.currentTarget.value);
+                        setIsRenaming(false);
+                    }}
+                    onKeyDown={e => {
+                        // Keep Enter and Escape from reaching the overview's keyboard navigation
+                        e.stopPropagation();
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                        if (e.key === 'Escape') setIsRenaming(false);
+                    }}
+                />
+            ) : (
+                <button
+                    type="button"
+                    className="absolute inset-0 flex flex-col items-center justify-center rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                    onClick={() => switchDesktop(desktop.id)}
+                    onDoubleClick={() => setIsRenaming(true)}
+                    title="Double-click to rename"
+                >
+                    <span className="text-white text-sm font-medium truncate max-w-[8rem]">{desktop.name}</span>
+                    <span className="text-white/50 text-xs">
+                        {windowCount} window{windowCount !== 1 ? 's' : ''}
+                    </span>
+                </button>
+            )}
+            {canDelete && !isRenaming && (
+                <button
+                    type="button"
+                    aria-label={`Delete ${desktop.name}`}
+                    className="absolute top-1 right-1 w-5 h-5 flex items-center justify-center rounded-full bg-black/40 text-white/70 hover:bg-red-500 hover:text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                    onClick={() => deleteDesktop(desktop.id)}
+                >
+                    <span className="material-symbols-outlined text-sm">close</span>
+                </button>
+            )}
+        </div>
+    );
+};
+
 /**
  * Overview mode overlay component
  */
 export const OverviewMode: React.FC<OverviewModeProps> = ({ isOpen, onClose, onSelectWindow }) => {
-    const { windows } = useOS();
+    const { windows, desktopWindows } = useOS();
+    const { desktops, activeDesktopId, createDesktop } = useVirtualDesktops();
     const { is3DMode } = useWindowSpace();
     const isPhone = usePhoneMode();
     const [selectedIndex, setSelectedIndex] = useState(0);
     const containerRef = useRef<HTMLDivElement>(null);
 
-    // Filter to non-minimized windows only
-    const visibleWindows = windows.filter(w => !w.isMinimized);
+    // Filter to non-minimized windows on the active desktop only
+    const visibleWindows = desktopWindows.filter(w => !w.isMinimized);
+
+    // Keep the selection in range when switching desktops or moving windows away
+    useEffect(() => {
+        setSelectedIndex(prev => Math.min(prev, Math.max(0, visibleWindows.length - 1)));
+    }, [visibleWindows.length]);
 
     // Reset selection when opening
     useEffect(() => {
@@ -239,6 +339,29 @@ export const OverviewMode: React.FC<OverviewModeProps> = ({ isOpen, onClose, onS
                 </div>
             )}
 
+            {/* Virtual desktops */}
+            {!isPhone && (
+                <div className="absolute bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-3">
+                    {desktops.map(desktop => (
+                        <DesktopTile
+                            key={desktop.id}
+                            desktop={desktop}
+                            isActive={desktop.id === activeDesktopId}
+                            windowCount={windows.filter(w => w.desktopId === desktop.id).length}
+                            canDelete={desktops.length > 1}
+                        />
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => createDesktop()}
+                        className="flex flex-col items-center justify-center w-20 h-20 rounded-xl border border-dashed border-white/20 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                    >
+                        <span className="material-symbols-outlined">add</span>
+                        <span className="text-xs">New desktop</span>
+                    </button>
+                </div>
+            )}
+
             {/* Footer hint */}
             <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex gap-4 text-xs text-white/40">
                 <span>
@@ -0,0 +1,49 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConfirmDialog } from './ui';
+import { useAppEvent } from '../hooks';
+import { PERMISSIONS, respondToPermissionRequest } from '../utils/permissions';
+import type { PermissionRequest } from '../utils/permissions';
+
+/**
+ * PermissionPrompt - Asks the user to allow or block app permission requests
+ *
+ * Listens for `permission:request` on the app event bus and shows one prompt at a
+ * time; requests arriving meanwhile wait in order. Mount once at the top level.
+ * Requests still waiting when it unmounts are closed unanswered.
+ */
+export const PermissionPrompt: React.FC = () => {
+    const [queue, setQueue] = useState<PermissionRequest[]>([]);
+    const [current] = queue;
+    const queueRef = useRef(queue);
+    queueRef.current = queue;
+
+    useEffect(() => {
+        return () => queueRef.current.forEach(request => respondToPermissionRequest(request, null));
+    }, []);
+
+    useAppEvent('permission:request', ({ request }) => {
+        setQueue(prev => [...prev, request]);
+    });
+
+    const answer = (granted: boolean) => {
+        if (!current) return;
+        respondToPermissionRequest(current, granted);
+        setQueue(prev => prev.slice(1));
+    };
+
+    const info = current ? PERMISSIONS[current.permission] : null;
+
+    return (
+        <ConfirmDialog
+            open={!!current}
+            title={current && info ? `Allow ${current.appTitle} to ${info.label.toLowerCase()}?` : ''}
+            message={info ? `${info.description} You can change this later in Settings > Apps.` : ''}
+            icon={info?.icon}
+            variant="warning"
+            confirmLabel="Allow"
+            cancelLabel="Don't allow"
+            onConfirm={() => answer(true)}
+            onCancel={() => answer(false)}
+        />
+    );
+};
@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useDb } from '../context';
+import { useFilePicker, useNotification, useWindowInstance } from '../hooks';
+import { FilePickerModal } from './FilePickerModal';
+import { AppConfig } from '../types';
+import {
+    createBridgeMessage,
+    createSandboxDocument,
+    getPackagedAppId,
+    getRecordManifest,
+    handleBridgeRequest,
+    isBridgeMessage,
+} from '../utils/appPackages';
+import type { BridgeServices } from '../utils/appPackages';
+import { copyTextToClipboard, readTextFromClipboard } from '../utils/clipboard';
+import { requestIntent } from '../utils/intents';
+import { getPermissionState, requestPermission } from '../utils/permissions';
+import type { Permission, PermissionHolder } from '../utils/permissions';
+import type { AppPackageRecord } from '../utils/storage/db';
+import { useDexieLiveQuery } from '../utils/storage/react';
+
+interface SandboxedAppProps {
+    /** ID of the installed package to run */
+    packageId: string;
+    windowId?: string;
+}
+
+/**
+ * SandboxedApp - Runs an installed app package in a sandboxed iframe
+ *
+ * The frame gets an opaque origin (no `allow-same-origin`) and reaches the OS only
+ * through the postMessage bridge in `utils/appPackages/bridge`. Guarded bridge calls
+ * check the app's permissions on every call, so revoking one applies at once. The frame
+ * reloads when the package is updated or its `network` permission changes. A frame that
+ * navigates away from its srcdoc is no longer the app, so the bridge stops answering it.
+ */
+export const SandboxedApp: React.FC<SandboxedAppProps> = ({ packageId, windowId }) => {
+    const db = useDb();
+    const notify = useNotification();
+    const filePicker = useFilePicker();
+    const { setTitle, setBadge } = useWindowInstance(windowId ?? '');
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const loadedFramesRef = useRef(new WeakSet<HTMLIFrameElement>());
+    const navigatedFrameRef = useRef<Window | null>(null);
+    const appId = getPackagedAppId(packageId);
+    const { value: record, isLoading } = useDexieLiveQuery(
+        () => db.$appPackages.get(packageId).then(pkg => pkg ?? null),
+        [db, packageId]
+    );
+    const { value: networkState } = useDexieLiveQuery(() => getPermissionState(db, appId, 'network'), [db, appId]);
+
+    const holder = useMemo<PermissionHolder | null>(
+        () => (record ? { id: appId, title: record.name, permissions: getRecordManifest(record).permissions } : null),
+        [record, appId]
+    );
+
+    // Ask for network access up front, since it decides how the frame is built
+    useEffect(() => {
+        if (holder && networkState === 'prompt') void requestPermission(db, holder, 'network');
+    }, [db, holder, networkState]);
+
+    const services = useMemo<BridgeServices>(
+        () => ({
+            'window.setTitle': ({ title }) => setTitle(title),
+            'window.setBadge': ({ count }) => setBadge(count),
+            'notifications.show': ({ message, type = 'info' }) => notify[type](`${record?.name}: ${message}`),
+            'clipboard.writeText': ({ text }) => copyTextToClipboard(text),
+            'clipboard.readText': () => readTextFromClipboard(),
+            'files.pick': async options => {
+                const file = await requestIntent('pick:file', options, { sourceAppId: appId });
+                return file ? { name: file.name, content: file.content } : null;
+            },
+            'files.save': async ({ content, fileName, title }) => {
+                const file = await filePicker.save({ content, defaultFileName: fileName, title });
+                return file ? { name: file.name } : null;
+            },
+        }),
+        [setTitle, setBadge, notify, record?.name, appId, filePicker]
+    );
+    const servicesRef = useRef(services);
+    servicesRef.current = services;
+    const holderRef = useRef(holder);
+    holderRef.current = holder;
+
+    const bundle = record?.bundle;
+    useEffect(() => {
+        if (bundle === undefined) return;
+
+        const handleMessage = (event: MessageEvent) => {
+            const frame = frameRef.current?.contentWindow;
+            if (!frame || event.source !== frame || !isBridgeMessage(event.data, packageId)) return;
+            if (navigatedFrameRef.current === frame) return;
+            // The frame's origin is opaque ("null"), so replies can only target "*";
+            // they are still delivered to this frame alone, unless it navigated meanwhile
+            const reply = (message: unknown) => {
+                if (navigatedFrameRef.current !== frame) frame.postMessage(message, '*');
+            };
+            if (event.data.kind === 'hello') {
+                reply(createBridgeMessage(packageId, 'boot', { bundle }));
+            } else if (event.data.kind === 'request') {
+                const authorize = (permission: Permission) => {
+                    const app = holderRef.current;
+                    return app ? requestPermission(db, app, permission) : Promise.resolve(false);
+                };
+                void handleBridgeRequest(servicesRef.current, event.data, authorize).then(reply);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, [bundle, packageId, db]);
+
+    // The first load is the srcdoc itself; any later load means the app navigated its frame
+    const handleFrameLoad = (event: React.SyntheticEvent<HTMLIFrameElement>) => {
+        const frame = event.currentTarget;
+        if (loadedFramesRef.current.has(frame)) {
+            navigatedFrameRef.current = frame.contentWindow;
+        } else {
+            loadedFramesRef.current.add(frame);
+        }
+    };
+
+    if (isLoading || networkState === undefined) return null;
+
+    if (!record) {
+        return (
+            <div className="h-full flex flex-col items-center justify-center gap-2 bg-background-dark text-white/60">
+                <span className="material-symbols-outlined text-4xl">extension_off</span>
+                <p className="text-sm">This app is no longer installed.</p>
+            </div>
+        );
+    }
+
+    const network = networkState === 'granted';
+    return (
+        <>
+            <iframe
+                key={`${record.updatedAt}:${network}`}
+                ref={frameRef}
+                title={record.name}
+                sandbox={network ? 'allow-scripts allow-forms allow-modals' : 'allow-scripts allow-modals'}
+                srcDoc={createSandboxDocument(packageId, { network })}
+                onLoad={handleFrameLoad}
+                className="w-full h-full border-0 bg-white"
+            />
+            {filePicker.state.isOpen && (
+                <FilePickerModal
+                    state={filePicker.state}
+                    onNavigateTo={filePicker.navigateTo}
+                    onSelectFile={filePicker.selectFile}
+                    onSetFileName={filePicker.setFileName}
+                    onConfirm={filePicker.confirm}
+                    onCancel={filePicker.cancel}
+                />
+            )}
+        </>
+    );
+};
+
+/**
+ * Registry entry for an installed package
+ */
+export const createPackagedAppConfig = (record: AppPackageRecord): AppConfig => {
+    const manifest = getRecordManifest(record);
+    return {
+        id: getPackagedAppId(record.id),
+        title: record.name,
+        icon: manifest.symbol ?? 'extension',
+        iconUrl: record.icon,
+        color: manifest.color ?? 'bg-slate-500',
+        component: props => <SandboxedApp {...(props as { windowId?: string })} packageId={record.id} />,
+        defaultWidth: manifest.defaultWidth,
+        defaultHeight: manifest.defaultHeight,
+        permissions: manifest.permissions,
+    };
+};
@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { useHandoff } from '../hooks/useHandoff';
 import { useNotification } from '../hooks/useNotification';
-import { useOS } from '../context/OSContext';
+import { startIntent } from '../utils/intents';
 
 /**
  * ShareReceiver - Component for receiving iOS Share Sheet deep links (F255-F258)
@@ -17,7 +17,6 @@ import { useOS } from '../context/OSContext';
 export function ShareReceiver() {
     const { send, isLoading: isHandoffLoading } = useHandoff();
     const { notify } = useNotification();
-    const { openApp } = useOS();
     const processedRef = useRef(false);
 
     useEffect(() => {
@@ -74,10 +73,18 @@ export function ShareReceiver() {
                     variant: 'success',
                 });
 
-                // Open Handoff app if requested (F257)
+                // Open Handoff app if requested (F257). The item is already sent, so
+                // Handoff only comes to the front instead of pre-filling its composer.
                 if (parsed.openHandoff) {
+                    const options = { appId: 'handoff', sourceAppId: 'handoff' };
                     // Small delay to ensure the item is visible
-                    setTimeout(() => openApp('handoff'), 100);
+                    setTimeout(() => {
+                        if (parsed.kind === 'url') {
+                            startIntent('share:url', { url: parsed.target, title: parsed.title }, options);
+                        } else {
+                            startIntent('share:text', { text: parsed.text, title: parsed.title }, options);
+                        }
+                    }, 100);
                 }
             })
             .catch(error => {
@@ -95,7 +102,7 @@ export function ShareReceiver() {
                 // Clean URL after processing (F257)
                 cleanupURL();
             });
-    }, [send, notify, openApp, isHandoffLoading]);
+    }, [send, notify, isHandoffLoading]);
 
     // This component renders nothing
     return null;
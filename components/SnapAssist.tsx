@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { WindowState } from '../types';
+import { getSnapRect } from '../utils';
+import type { SnapSlot } from '../utils';
+
+interface SnapAssistProps {
+    /** Empty slots of the layout; the first is being filled */
+    slots: SnapSlot[];
+    /** Windows that can go into the slot, most recently used first */
+    candidates: WindowState[];
+    onSelect: (windowId: string) => void;
+    onDismiss: () => void;
+}
+
+/**
+ * Snap assist: after a window snaps into part of a layout, offers the other open
+ * windows to fill the layout's next empty slot. Clicking elsewhere or pressing
+ * Escape leaves the remaining slots empty.
+ */
+export const SnapAssist: React.FC<SnapAssistProps> = ({ slots, candidates, onSelect, onDismiss }) => {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onDismiss();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onDismiss]);
+
+    const [slot, ...laterSlots] = slots;
+    if (!slot) return null;
+    const { x, y, width, height } = getSnapRect(slot);
+
+    return (
+        <div className="fixed inset-0 z-[9998]" onClick={onDismiss}>
+            {laterSlots.map(later => {
+                const rect = getSnapRect(later);
+                return (
+                    <div
+                        key={later}
+                        className="absolute rounded-lg border-2 border-dashed border-white/20 bg-black/20"
+                        style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+                        aria-hidden="true"
+                    />
+                );
+            })}
+            <div
+                role="listbox"
+                aria-label="Choose a window for this space"
+                className="absolute p-4 rounded-lg glass-panel ring-2 ring-blue-400/60 overflow-y-auto animate-fade-in"
+                style={{ left: x, top: y, width, height }}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="grid grid-cols-[repeat(auto-fill,minmax(140px,1fr))] gap-3">
+                    {candidates.map(w => (
+                        <button
+                            key={w.id}
+                            role="option"
+                            aria-selected={false}
+                            onClick={() => onSelect(w.id)}
+                            className="flex flex-col items-center gap-2 p-3 rounded-lg bg-black/30 hover:bg-white/10 focus-visible:bg-white/10 ring-1 ring-white/10 text-white/90 transition-colors"
+                        >
+                            <span className="material-symbols-outlined text-3xl" aria-hidden="true">
+                                {w.dynamicIcon ?? w.icon}
+                            </span>
+                            <span className="text-xs truncate w-full text-center">{w.dynamicTitle ?? w.title}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { SNAP_LAYOUTS, getSlotFraction } from '../utils';
+import type { SnapLayout, SnapSlot } from '../utils';
+
+/** Flyout width in pixels, for keeping it on screen */
+const FLYOUT_WIDTH = 292;
+const VIEWPORT_MARGIN = 8;
+
+interface SnapLayoutsFlyoutProps {
+    /** Bounds of the maximize button the flyout hangs from */
+    // eslint-disable-next-line no-undef
+    anchor: DOMRect;
+    /** Called with the layout and the slot of it that was picked */
+    onSelect: (layout: SnapLayout, slot: SnapSlot) => void;
+    onMouseEnter?: () => void;
+    onMouseLeave?: () => void;
+}
+
+/**
+ * Snap layouts flyout shown when hovering a window's maximize button.
+ *
+ * Each layout is a miniature of the work area split into its slots; picking a slot
+ * snaps the window there and lets snap assist fill the layout's other slots.
+ * Rendered in a portal so small windows don't clip it.
+ */
+export const SnapLayoutsFlyout: React.FC<SnapLayoutsFlyoutProps> = ({ anchor, onSelect, onMouseEnter, onMouseLeave }) =>
+    createPortal(
+        <div
+            role="menu"
+            aria-label="Snap layouts"
+            style={{
+                top: anchor.bottom + 4,
+                left: Math.max(VIEWPORT_MARGIN, anchor.right - FLYOUT_WIDTH),
+                width: FLYOUT_WIDTH,
+            }}
+            className="fixed z-[9999] grid grid-cols-3 gap-2 p-3 glass-panel rounded-xl shadow-2xl ring-1 ring-white/10 animate-fade-in-up"
+            onPointerDown={e => e.stopPropagation()}
+            onMouseEnter={onMouseEnter}
+            onMouseLeave={onMouseLeave}
+        >
+            {SNAP_LAYOUTS.map(layout => (
+                <div
+                    key={layout.id}
+                    role="group"
+                    aria-label={layout.label}
+                    className="relative w-20 h-12 rounded-md bg-black/20"
+                >
+                    {layout.slots.map(slot => {
+                        const { x, y, width, height } = getSlotFraction(slot);
+                        return (
+                            <button
+                                key={slot}
+                                role="menuitem"
+                                aria-label={`${layout.label}: ${slot.replace(/-/g, ' ')}`}
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    onSelect(layout, slot);
+                                }}
+                                className="absolute p-0.5 group"
+                                style={{
+                                    left: `${x * 100}%`,
+                                    top: `${y * 100}%`,
+                                    width: `${width * 100}%`,
+                                    height: `${height * 100}%`,
+                                }}
+                            >
+                                <span className="block w-full h-full rounded-sm bg-white/20 group-hover:bg-blue-400 group-focus-visible:bg-blue-400 transition-colors" />
+                            </button>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>,
+        document.body
+    );
@@ -1,7 +1,8 @@
 import React from 'react';
-import { getWindowMaxRect } from '../utils';
+import { getSnapRect, getWindowMaxRect } from '../utils';
+import type { SnapZone } from '../utils';
 
-export type SnapZone = 'left' | 'right' | 'top' | 'none';
+export type { SnapZone };
 
 interface SnapZoneOverlayProps {
     /** Which snap zone is currently active */
@@ -12,46 +13,19 @@ interface SnapZoneOverlayProps {
  * Visual overlay that appears when dragging a window near screen edges
  * to indicate snap zones for window tiling (F212).
  *
- * Shows a semi-transparent blue overlay in the area where the window will snap to.
+ * Shows a semi-transparent blue overlay in the area where the window will snap to:
+ * a half along the left and right edges, a quarter in their corners, or the whole
+ * work area along the top.
  */
 export const SnapZoneOverlay: React.FC<SnapZoneOverlayProps> = ({ zone }) => {
     if (zone === 'none') return null;
 
-    const { x, y, width, height } = getWindowMaxRect();
-    const halfWidth = width / 2;
-
-    const getZoneStyles = (): React.CSSProperties => {
-        switch (zone) {
-            case 'left':
-                return {
-                    left: x,
-                    top: y,
-                    width: halfWidth,
-                    height,
-                };
-            case 'right':
-                return {
-                    left: x + halfWidth,
-                    top: y,
-                    width: halfWidth,
-                    height,
-                };
-            case 'top':
-                return {
-                    left: x,
-                    top: y,
-                    width,
-                    height,
-                };
-            default:
-                return {};
-        }
-    };
+    const { x, y, width, height } = zone === 'top' ? getWindowMaxRect() : getSnapRect(zone);
 
     return (
         <div
-            className="fixed z-[9999] pointer-events-none bg-blue-500/30 border-4 border-blue-400 rounded-lg animate-fade-in"
-            style={getZoneStyles()}
+            className="fixed z-[9999] pointer-events-none bg-blue-500/30 border-4 border-blue-400 rounded-lg animate-fade-in transition-all duration-150"
+            style={{ left: x, top: y, width, height }}
             aria-hidden="true"
         />
     );
@@ -3,13 +3,68 @@ import { useOS } from '../context/OSContext';
 import { useStartMenu } from '../context/StartMenuContext';
 import { useUserProfile } from '../context/UserProfileContext';
 import { ContextMenu } from './ContextMenu';
-import { useContextMenu, useHandoff, useNotification, usePhoneMode, useOrientation } from '../hooks';
+import {
+    useContextMenu,
+    useDesktopSearch,
+    useHandoff,
+    useNotification,
+    usePhoneMode,
+    useOrientation,
+    useWorkspaces,
+} from '../hooks';
 import { Icon } from './ui';
+import { getDefaultAppForExtension, getFileExtension } from '../apps/registry';
+import { copyTextToClipboard } from '../utils/clipboard';
+import { SEARCH_CATEGORIES } from '../utils/search';
+import type { DesktopSearchResult, SearchCategory, SearchDocument, SnippetSegment } from '../utils/search';
+import { readFile, stat } from '../utils/vfs';
+
+/**
+ * An app's icon: its image for installed packages, otherwise its Material Symbol
+ */
+const AppGlyph: React.FC<{ app: { icon: string; iconUrl?: string; color: string } }> = ({ app }) =>
+    app.iconUrl ? (
+        <img src={app.iconUrl} alt="" className="w-3/4 h-3/4 object-contain" />
+    ) : (
+        <span className={`material-symbols-outlined ${app.color.replace('bg-', 'text-')}`}>{app.icon}</span>
+    );
+
+/**
+ * Text with the parts matching the search query highlighted
+ */
+const Highlighted: React.FC<{ segments: SnippetSegment[] }> = ({ segments }) => (
+    <>
+        {segments.map((segment, index) =>
+            segment.match ? (
+                <mark key={index} className="bg-transparent text-blue-300 font-semibold">
+                    {segment.text}
+                </mark>
+            ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+            )
+        )}
+    </>
+);
+
+/** Most content results shown in the Start Menu */
+const CONTENT_RESULT_LIMIT = 30;
 
 export const StartMenu = () => {
-    const { apps, openWindow } = useOS();
-    const { isStartMenuOpen, toggleStartMenu, pinnedApps, isPinned, pinApp, unpinApp, showAllApps, toggleAllApps } =
-        useStartMenu();
+    const { apps, openWindow, openNewWindow } = useOS();
+    const {
+        isStartMenuOpen,
+        toggleStartMenu,
+        closeStartMenu,
+        pinnedApps,
+        isPinned,
+        pinApp,
+        unpinApp,
+        showAllApps,
+        toggleAllApps,
+    } = useStartMenu();
+    const { workspaces, saveWorkspace, openWorkspace, deleteWorkspace } = useWorkspaces();
+    // Name being typed for a new workspace, or null when not saving one
+    const [newWorkspaceName, setNewWorkspaceName] = useState<string | null>(null);
     const { profile, getInitials } = useUserProfile();
     const { send, clearArchived } = useHandoff();
     const notify = useNotification();
@@ -67,6 +122,23 @@ export const StartMenu = () => {
         [openWindow, send, clearArchived, notify]
     );
 
+    const handleSaveWorkspace = async () => {
+        const name = newWorkspaceName?.trim();
+        setNewWorkspaceName(null);
+        if (!name) return;
+        try {
+            await saveWorkspace(name);
+            notify.success(`Saved workspace "${name}"`);
+        } catch {
+            notify.error('Failed to save workspace');
+        }
+    };
+
+    const handleOpenWorkspace = async (name: string) => {
+        closeStartMenu();
+        if (!(await openWorkspace(name))) notify.error(`Workspace "${name}" no longer exists`);
+    };
+
     const {
         menu: contextMenu,
         open: openContextMenu,
@@ -100,6 +172,87 @@ export const StartMenu = () => {
         return [...appResults, ...actionResults];
     }, [apps, searchQuery, handoffActions]);
 
+    // Notes, documents, mail and other content, grouped by category. Groups are
+    // ordered by their best result, and keyboard selection follows display order.
+    const { results: contentResults, isIndexing } = useDesktopSearch(searchQuery, { limit: CONTENT_RESULT_LIMIT });
+    const contentGroups = useMemo(() => {
+        const groups = new Map<SearchCategory, DesktopSearchResult[]>();
+        for (const result of contentResults) {
+            const group = groups.get(result.document.category) ?? [];
+            group.push(result);
+            groups.set(result.document.category, group);
+        }
+        return [...groups];
+    }, [contentResults]);
+    const orderedContentResults = useMemo(() => contentGroups.flatMap(([, results]) => results), [contentGroups]);
+    const appResultCount = searchResults?.length ?? 0;
+    const resultCount = appResultCount + orderedContentResults.length;
+
+    const openFile = useCallback(
+        async (path: string) => {
+            const file = await stat(path);
+            if (!file) {
+                notify.error('This file no longer exists');
+                return;
+            }
+            const defaultApp = file.type === 'document' ? getDefaultAppForExtension(getFileExtension(file.name)) : null;
+            if (defaultApp) {
+                openWindow(defaultApp.id, {
+                    initialContent: await readFile(path),
+                    initialFileId: file.id,
+                    initialFileName: file.name,
+                });
+            } else if (file.type === 'image' && file.isBinary) {
+                openWindow('imageviewer', { initialFileId: file.id, initialFileName: file.name });
+            } else {
+                openWindow('explorer');
+            }
+        },
+        [openWindow, notify]
+    );
+
+    const openSearchResult = useCallback(
+        async (document: SearchDocument) => {
+            const { target } = document;
+            if (target.kind === 'app') {
+                openWindow(target.appId, target.props);
+            } else if (target.kind === 'file') {
+                await openFile(target.path);
+            } else if (await copyTextToClipboard(target.text)) {
+                notify.success('Copied to clipboard');
+            } else {
+                notify.error('Failed to copy');
+            }
+        },
+        [openWindow, openFile, notify]
+    );
+
+    /** Label of the action that opening a result performs */
+    const describeTarget = (document: SearchDocument) => {
+        const { target } = document;
+        if (target.kind === 'copy') return 'Copy';
+        const appId =
+            target.kind === 'app'
+                ? target.appId
+                : (getDefaultAppForExtension(getFileExtension(document.title))?.id ?? 'explorer');
+        const app = apps.find(candidate => candidate.id === appId);
+        return app ? `Open in ${app.title}` : 'Open';
+    };
+
+    const activateResult = useCallback(
+        (index: number) => {
+            const appResult = searchResults?.[index];
+            if (appResult) {
+                void appResult.action();
+            } else {
+                const contentResult = orderedContentResults[index - appResultCount];
+                if (contentResult) void openSearchResult(contentResult.document);
+            }
+            setSearchQuery('');
+        },
+        [searchResults, orderedContentResults, appResultCount, openSearchResult]
+    );
+
     // Focus search input when start menu opens
     useEffect(() => {
         if (isStartMenuOpen && searchInputRef.current) {
@@ -125,24 +278,20 @@ export const StartMenu = () => {
     const handleSearchKeyDown = useCallback(
         (e: React.KeyboardEvent) => {
             // Only handle navigation when search results are visible
-            if (!searchResults || searchResults.length === 0) return;
+            if (!searchResults || resultCount === 0) return;
 
             if (e.key === 'ArrowDown') {
                 e.preventDefault();
-                setSelectedIndex(prev => (prev + 1) % searchResults.length);
+                setSelectedIndex(prev => (prev + 1) % resultCount);
             } else if (e.key === 'ArrowUp') {
                 e.preventDefault();
-                setSelectedIndex(prev => (prev - 1 + searchResults.length) % searchResults.length);
+                setSelectedIndex(prev => (prev - 1 + resultCount) % resultCount);
             } else if (e.key === 'Enter') {
                 e.preventDefault();
-                const selected = searchResults[selectedIndex];
-                if (selected) {
-                    selected.action();
-                    setSearchQuery('');
-                }
+                activateResult(selectedIndex);
             }
         },
-        [searchResults, selectedIndex, openWindow]
+        [searchResults, resultCount, selectedIndex, activateResult]
     );
 
     const handleContextMenu = useCallback(
@@ -247,19 +396,19 @@ export const StartMenu = () => {
                 <div className="flex-1 min-h-0 px-6 py-4 overflow-y-auto touch-scroll" onClick={closeContextMenu}>
                     <div className="flex justify-between items-center mb-4">
                         <span className="text-sm font-semibold text-white/90">Results for "{searchQuery}"</span>
-                        <span className="text-xs text-white/50">{searchResults.length} found</span>
+                        <span className="text-xs text-white/50">
+                            {isIndexing ? 'Indexing… ' : ''}
+                            {resultCount} found
+                        </span>
                     </div>
-                    {searchResults.length > 0 ? (
+                    {searchResults.length > 0 && (
                         <div className="flex flex-col gap-1" role="group" aria-label="Search results">
                             {searchResults.map((app, index) => (
                                 <button
                                     key={app.id}
                                     data-testid={`app-${app.id}`}
                                     role="menuitem"
-                                    onClick={() => {
-                                        app.action();
-                                        setSearchQuery('');
-                                    }}
+                                    onClick={() => activateResult(index)}
                                     onContextMenu={e => !app.isAction && handleContextMenu(e, app.id)}
                                     className={`flex items-center gap-3 p-2 [@media(pointer:coarse)]:p-3 rounded hover:bg-white/10 group transition-colors text-left ${
                                         index === selectedIndex ? 'bg-white/10 ring-2 ring-blue-400/50' : ''
@@ -269,11 +418,7 @@ export const StartMenu = () => {
                                         className={`w-8 h-8 [@media(pointer:coarse)]:w-10 [@media(pointer:coarse)]:h-10 rounded-lg flex items-center justify-center ${app.color} bg-opacity-20 text-xl`}
                                         aria-hidden="true"
                                     >
-                                        <span
-                                            className={`material-symbols-outlined ${app.color.replace('bg-', 'text-')}`}
-                                        >
-                                            {app.icon}
-                                        </span>
+                                        <AppGlyph app={app} />
                                     </div>
                                     <div className="flex flex-col">
                                         <span className="text-sm text-white/90 font-medium">{app.title}</span>
@@ -289,10 +434,61 @@ export const StartMenu = () => {
                                 </button>
                             ))}
                         </div>
-                    ) : (
+                    )}
+                    {contentGroups.map(([category, results]) => (
+                        <div
+                            key={category}
+                            className="flex flex-col gap-1 mt-4"
+                            role="group"
+                            aria-label={SEARCH_CATEGORIES[category].label}
+                        >
+                            <span className="text-[10px] text-white/40 uppercase tracking-wider px-2">
+                                {SEARCH_CATEGORIES[category].label}
+                            </span>
+                            {results.map(result => {
+                                const index = appResultCount + orderedContentResults.indexOf(result);
+                                return (
+                                    <button
+                                        key={result.document.id}
+                                        role="menuitem"
+                                        onClick={() => activateResult(index)}
+                                        className={`flex items-center gap-3 p-2 [@media(pointer:coarse)]:p-3 rounded hover:bg-white/10 group transition-colors text-left ${
+                                            index === selectedIndex ? 'bg-white/10 ring-2 ring-blue-400/50' : ''
+                                        }`}
+                                    >
+                                        <div
+                                            className="w-8 h-8 [@media(pointer:coarse)]:w-10 [@media(pointer:coarse)]:h-10 rounded-lg flex items-center justify-center bg-white/5 text-white/60 shrink-0"
+                                            aria-hidden="true"
+                                        >
+                                            <Icon name={SEARCH_CATEGORIES[category].icon} />
+                                        </div>
+                                        <div className="flex flex-col min-w-0 flex-1">
+                                            <span className="text-sm text-white/90 font-medium truncate">
+                                                <Highlighted segments={result.title} />
+                                            </span>
+                                            {result.snippet.length > 0 && (
+                                                <span className="text-xs text-white/50 line-clamp-2">
+                                                    <Highlighted segments={result.snippet} />
+                                                </span>
+                                            )}
+                                            {result.document.detail && (
+                                                <span className="text-[10px] text-white/30 truncate">
+                                                    {result.document.detail}
+                                                </span>
+                                            )}
+                                        </div>
+                                        <span className="text-[10px] text-white/40 shrink-0 opacity-0 group-hover:opacity-100">
+                                            {describeTarget(result.document)}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    ))}
+                    {resultCount === 0 && (
                         <div className="text-center text-white/50 py-8">
                             <Icon name="search_off" size="xl" className="text-4xl mb-2 block" />
-                            <span>No apps found matching</span>
+                            <span>Nothing found matching</span>
                             <span className="block text-white/30 mt-1">"{searchQuery}"</span>
                         </div>
                     )}
@@ -339,11 +535,7 @@ export const StartMenu = () => {
                                             className={`w-8 h-8 [@media(pointer:coarse)]:w-10 [@media(pointer:coarse)]:h-10 rounded-lg flex items-center justify-center ${app.color} bg-opacity-20 text-xl`}
                                             aria-hidden="true"
                                         >
-                                            <span
-                                                className={`material-symbols-outlined ${app.color.replace('bg-', 'text-')}`}
-                                            >
-                                                {app.icon}
-                                            </span>
+                                            <AppGlyph app={app} />
                                         </div>
                                         <span className="text-sm text-white/90 font-medium">{app.title}</span>
                                         {isPinned(app.id) && (
@@ -374,11 +566,7 @@ export const StartMenu = () => {
                                             className={`w-10 h-10 [@media(pointer:coarse)]:w-12 [@media(pointer:coarse)]:h-12 rounded-lg flex items-center justify-center ${app.color} bg-opacity-20 text-2xl [@media(pointer:coarse)]:text-3xl`}
                                             aria-hidden="true"
                                         >
-                                            <span
-                                                className={`material-symbols-outlined ${app.color.replace('bg-', 'text-')}`}
-                                            >
-                                                {app.icon}
-                                            </span>
+                                            <AppGlyph app={app} />
                                         </div>
                                         <span className="text-xs text-white/80 text-center font-medium">
                                             {app.title}
@@ -414,6 +602,69 @@ export const StartMenu = () => {
                                 </div>
                             </div>
                         )}
+
+                        {!showAllApps && (
+                            <div className="mt-6">
+                                <div className="flex justify-between items-center mb-3">
+                                    <span className="text-sm font-semibold text-white/90">Workspaces</span>
+                                    {newWorkspaceName === null && (
+                                        <button
+                                            onClick={() => setNewWorkspaceName('')}
+                                            className="bg-white/10 text-white/80 text-xs px-3 py-1 rounded hover:bg-white/20 flex items-center gap-1"
+                                        >
+                                            <Icon name="add" size="sm" />
+                                            Save current
+                                        </button>
+                                    )}
+                                </div>
+                                {newWorkspaceName !== null && (
+                                    <input
+                                        autoFocus
+                                        value={newWorkspaceName}
+                                        onChange={e => setNewWorkspaceName(e.target.value)}
+                                        onKeyDown={e => {
+                                            e.stopPropagation();
+                                            if (e.key === 'Enter') handleSaveWorkspace();
+                                            if (e.key === 'Escape') setNewWorkspaceName(null);
+                                        }}
+                                        onBlur={() => setNewWorkspaceName(null)}
+                                        placeholder="Workspace name, then Enter"
+                                        aria-label="Workspace name"
+                                        className="w-full mb-3 px-3 py-1.5 rounded bg-black/30 text-sm text-white placeholder-white/40 outline-none focus:ring-1 focus:ring-blue-400"
+                                    />
+                                )}
+                                <div className="flex flex-wrap gap-2" role="group" aria-label="Workspaces">
+                                    {workspaces.map(workspace => (
+                                        <div
+                                            key={workspace.id}
+                                            className="group flex items-center rounded-full bg-white/10 hover:bg-white/20 transition-colors"
+                                        >
+                                            <button
+                                                role="menuitem"
+                                                onClick={() => handleOpenWorkspace(workspace.name)}
+                                                title={`${workspace.snapshot.windows.length} windows`}
+                                                className="flex items-center gap-1.5 pl-3 pr-1 py-1 text-xs text-white/90"
+                                            >
+                                                <Icon name="dashboard" size="sm" />
+                                                {workspace.name}
+                                            </button>
+                                            <button
+                                                aria-label={`Delete workspace ${workspace.name}`}
+                                                onClick={() => deleteWorkspace(workspace.name)}
+                                                className="pr-2 pl-1 py-1 text-white/40 hover:text-white opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                                            >
+                                                <Icon name="close" size="sm" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    {workspaces.length === 0 && newWorkspaceName === null && (
+                                        <span className="text-xs text-white/50">
+                                            Save the open windows to come back to them later.
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </>
             )}
@@ -432,6 +683,17 @@ export const StartMenu = () => {
                     >
                         {contextMenu.data && isPinned(contextMenu.data) ? 'Unpin from Start' : 'Pin to Start'}
                     </ContextMenu.Item>
+                    {!apps.find(app => app.id === contextMenu.data)?.singleInstance && (
+                        <ContextMenu.Item
+                            icon="add"
+                            onClick={() => {
+                                if (contextMenu.data) openNewWindow(contextMenu.data);
+                                closeContextMenu();
+                            }}
+                        >
+                            New window
+                        </ContextMenu.Item>
+                    )}
                 </ContextMenu>
             )}
 
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, memo, useMemo, useCallback } from 'react';
 import { useLocalization, useOS, useNotificationCenter } from '../context';
-import { useHandoffItems, usePhoneMode, useOrientation } from '../hooks';
+import { useContextMenu, useHandoffItems, usePhoneMode, useOrientation } from '../hooks';
+import { WindowState } from '../types';
+import { ContextMenu } from './ContextMenu';
 import { SyncStatus } from './SyncStatus';
 import { NotificationCenter } from './NotificationCenter';
+import { TaskbarWindowPicker } from './TaskbarWindowPicker';
 import { Tooltip } from './ui';
 
 // Pinned apps configuration - static list
@@ -17,8 +20,30 @@ const PINNED_APPS = [
     'settings',
 ] as const;
 
+/**
+ * The other windows snapped together with a window, or nothing if it is not in a snap group of two or more
+ */
+const getSnapGroupMembers = (windows: WindowState[], window: WindowState | undefined): WindowState[] => {
+    const groupId = window?.snap?.groupId;
+    if (!groupId) return [];
+    const members = windows.filter(w => w.snap?.groupId === groupId);
+    return members.length > 1 ? members : [];
+};
+
 export const Taskbar = () => {
-    const { toggleStartMenu, isStartMenuOpen, apps, openWindow, windows, minimizeWindow } = useOS();
+    const {
+        toggleStartMenu,
+        isStartMenuOpen,
+        apps,
+        openWindow,
+        openNewWindow,
+        closeWindow,
+        focusWindow,
+        // The taskbar lists the windows of the active virtual desktop
+        desktopWindows: windows,
+        minimizeWindow,
+        setSnapGroupMinimized,
+    } = useOS();
     const { formatTimeShort, formatDateShort } = useLocalization();
     const { toggle: toggleNotifications, unreadCount, isOpen: isNotificationCenterOpen } = useNotificationCenter();
     const isPhone = usePhoneMode();
@@ -33,14 +58,94 @@ export const Taskbar = () => {
         return () => clearInterval(timer);
     }, []);
 
-    // Memoize click handlers to prevent TaskbarIcon re-renders
-    const openWindowHandlers = useMemo(() => {
-        const handlers: Record<string, () => void> = {};
-        PINNED_APPS.forEach(id => {
-            handlers[id] = () => openWindow(id);
+    const [pickerAppId, setPickerAppId] = useState<string | null>(null);
+    const {
+        menu: contextMenu,
+        open: openContextMenu,
+        close: closeContextMenu,
+        menuProps,
+        menuRef: contextMenuRef,
+    } = useContextMenu<string>();
+
+    // One button per app: pinned apps, then other running apps in the order they were opened
+    const taskbarAppIds = useMemo(() => {
+        const ids: string[] = [...PINNED_APPS];
+        windows.forEach(w => {
+            if (!ids.includes(w.appId)) ids.push(w.appId);
         });
-        return handlers;
-    }, [openWindow]);
+        return ids;
+    }, [windows]);
+
+    const windowsByApp = useMemo(() => {
+        const groups = new Map<string, WindowState[]>();
+        windows.forEach(w => groups.set(w.appId, [...(groups.get(w.appId) ?? []), w]));
+        // Most recently focused first
+        groups.forEach(group => group.sort((a, b) => b.zIndex - a.zIndex));
+        return groups;
+    }, [windows]);
+
+    /**
+     * Bring a snapped window back together with its snap group, or minimize the group
+     * when it is already in front. Returns false for windows outside a snap group.
+     */
+    const toggleSnapGroup = useCallback(
+        (w: WindowState) => {
+            const members = getSnapGroupMembers(windows, w);
+            const groupId = w.snap?.groupId;
+            if (!groupId || members.length === 0) return false;
+
+            const topZIndex = Math.max(...windows.filter(other => !other.isMinimized).map(other => other.zIndex));
+            const isInFront = members.every(m => !m.isMinimized) && w.zIndex === topZIndex;
+            setSnapGroupMinimized(groupId, isInFront);
+            if (!isInFront) focusWindow(w.id);
+            return true;
+        },
+        [windows, setSnapGroupMinimized, focusWindow]
+    );
+
+    // Stable handlers keep the memoized TaskbarIcons from re-rendering every clock tick.
+    // Shift+click opens another window; a group of windows opens the thumbnail picker.
+    const handleIconClick = useCallback(
+        (appId: string, e: React.MouseEvent) => {
+            const appWindows = windowsByApp.get(appId) ?? [];
+            if (e.shiftKey) {
+                openNewWindow(appId);
+            } else if (appWindows.length > 1) {
+                setPickerAppId(prev => (prev === appId ? null : appId));
+            } else if (!appWindows[0] || !toggleSnapGroup(appWindows[0])) {
+                openWindow(appId);
+            }
+        },
+        [openWindow, openNewWindow, windowsByApp, toggleSnapGroup]
+    );
+
+    const handleIconContextMenu = useCallback(
+        (appId: string, e: React.MouseEvent) => {
+            setPickerAppId(null);
+            openContextMenu(e, appId);
+        },
+        [openContextMenu]
+    );
+
+    const runMenuAction = (action: () => void) => {
+        action();
+        closeContextMenu();
+    };
+
+    const dismissPicker = useCallback(() => setPickerAppId(null), []);
+
+    const selectPickedWindow = useCallback(
+        (w: WindowState) => {
+            setPickerAppId(null);
+            if (w.snap?.groupId && getSnapGroupMembers(windows, w).length > 0) {
+                setSnapGroupMinimized(w.snap.groupId, false);
+            } else if (w.isMinimized) {
+                minimizeWindow(w.id);
+            }
+            focusWindow(w.id);
+        },
+        [windows, minimizeWindow, focusWindow, setSnapGroupMinimized]
+    );
 
     // Memoize minimize all handler
     const handleMinimizeAll = useCallback(() => {
@@ -192,33 +297,46 @@ export const Taskbar = () => {
 
                     <div className="w-px h-8 bg-white/10 mx-1"></div>
 
-                    {/* App Icons (Pinned + Open) */}
+                    {/* App Icons (Pinned + Open), one per app with its windows grouped */}
                     <div className="flex gap-1 md:gap-2 [@media(pointer:coarse)]:gap-2">
-                        {/* Render Pinned Apps */}
-                        {PINNED_APPS.map(id => {
+                        {taskbarAppIds.map(id => {
                             const app = apps.find(a => a.id === id);
                             if (!app) return null;
-                            const appWindow = windows.find(w => w.appId === id);
-                            const isOpen = appWindow && !appWindow.isMinimized;
-                            const isRunning = !!appWindow;
-                            // Get badge count from the window state (F148) or Handoff unread count (F203)
-                            const badge =
-                                id === 'handoff'
-                                    ? newHandoffCount || appWindow?.badge || null
-                                    : (appWindow?.badge ?? null);
+                            const appWindows = windowsByApp.get(id) ?? [];
+                            const appWindow = appWindows[0];
+                            const isOpen = appWindows.some(w => !w.isMinimized);
+                            // Badge counts from the window states (F148) or Handoff unread count (F203)
+                            const windowBadges = appWindows.reduce((sum, w) => sum + (w.badge ?? 0), 0) || null;
+                            const badge = id === 'handoff' ? newHandoffCount || windowBadges : windowBadges;
 
                             return (
-                                <TaskbarIcon
-                                    key={id}
-                                    icon={appWindow?.dynamicIcon ?? app.icon}
-                                    title={appWindow?.dynamicTitle ?? app.title}
-                                    colorClass={app.color.replace('bg-', 'text-')}
-                                    active={isOpen}
-                                    running={isRunning}
-                                    onClick={openWindowHandlers[id]}
-                                    filled={true}
-                                    badge={badge}
-                                />
+                                <div key={id} className="relative">
+                                    <TaskbarIcon
+                                        appId={id}
+                                        icon={appWindow?.dynamicIcon ?? app.icon}
+                                        title={
+                                            appWindows.length > 1
+                                                ? `${app.title} - ${appWindows.length} windows`
+                                                : (appWindow?.dynamicTitle ?? app.title)
+                                        }
+                                        colorClass={app.color.replace('bg-', 'text-')}
+                                        active={isOpen}
+                                        windowCount={appWindows.length}
+                                        onClick={handleIconClick}
+                                        onContextMenu={handleIconContextMenu}
+                                        filled={true}
+                                        badge={badge}
+                                    />
+                                    {pickerAppId === id && appWindows.length > 1 && (
+                                        <TaskbarWindowPicker
+                                            app={app}
+                                            windows={appWindows}
+                                            onSelect={selectPickedWindow}
+                                            onCloseWindow={w => closeWindow(w.id)}
+                                            onDismiss={dismissPicker}
+                                        />
+                                    )}
+                                </div>
                             );
                         })}
                     </div>
@@ -283,6 +401,63 @@ export const Taskbar = () => {
                     </div>
                 </div>
             )}
+            {/* App button context menu */}
+            {contextMenu &&
+                (() => {
+                    const app = apps.find(a => a.id === contextMenu.data);
+                    if (!app) return null;
+                    const appWindows = windowsByApp.get(app.id) ?? [];
+                    const topWindow = appWindows[0];
+                    const snapGroup = getSnapGroupMembers(windows, topWindow);
+                    const snapGroupId = topWindow?.snap?.groupId;
+                    const isSnapGroupMinimized = snapGroup.every(w => w.isMinimized);
+                    return (
+                        <ContextMenu
+                            ref={contextMenuRef}
+                            position={contextMenu.position}
+                            onClose={closeContextMenu}
+                            {...menuProps}
+                        >
+                            <ContextMenu.Label>{app.title}</ContextMenu.Label>
+                            {appWindows.length === 0 || app.singleInstance ? (
+                                <ContextMenu.Item
+                                    icon="open_in_new"
+                                    onClick={() => runMenuAction(() => openWindow(app.id))}
+                                >
+                                    Open
+                                </ContextMenu.Item>
+                            ) : (
+                                <ContextMenu.Item icon="add" onClick={() => runMenuAction(() => openNewWindow(app.id))}>
+                                    New window
+                                </ContextMenu.Item>
+                            )}
+                            {snapGroupId && snapGroup.length > 0 && (
+                                <ContextMenu.Item
+                                    icon="space_dashboard"
+                                    onClick={() =>
+                                        runMenuAction(() => setSnapGroupMinimized(snapGroupId, !isSnapGroupMinimized))
+                                    }
+                                >
+                                    {isSnapGroupMinimized
+                                        ? `Restore snap group (${snapGroup.length})`
+                                        : `Minimize snap group (${snapGroup.length})`}
+                                </ContextMenu.Item>
+                            )}
+                            {appWindows.length > 0 && (
+                                <>
+                                    <ContextMenu.Separator />
+                                    <ContextMenu.Item
+                                        icon="close"
+                                        danger
+                                        onClick={() => runMenuAction(() => appWindows.forEach(w => closeWindow(w.id)))}
+                                    >
+                                        {appWindows.length > 1 ? 'Close all windows' : 'Close window'}
+                                    </ContextMenu.Item>
+                                </>
+                            )}
+                        </ContextMenu>
+                    );
+                })()}
             {/* Notification Center Panel (F157) */}
             <NotificationCenter />
         </div>
@@ -290,11 +465,14 @@ export const Taskbar = () => {
 };
 
 interface TaskbarIconProps {
+    appId: string;
     icon: string;
     title?: string;
     active?: boolean;
-    running?: boolean;
-    onClick?: () => void;
+    /** Number of open windows; more than one shows a second indicator dot */
+    windowCount: number;
+    onClick: (appId: string, e: React.MouseEvent) => void;
+    onContextMenu: (appId: string, e: React.MouseEvent) => void;
     colorClass?: string;
     filled?: boolean;
     /** Badge count to display (F148) */
@@ -306,11 +484,13 @@ interface TaskbarIconProps {
  * Memoized to prevent re-renders when other taskbar items change.
  */
 const TaskbarIcon: React.FC<TaskbarIconProps> = memo(function TaskbarIcon({
+    appId,
     icon,
     title,
     active,
-    running,
+    windowCount,
     onClick,
+    onContextMenu,
     colorClass = 'text-white',
     filled,
     badge,
@@ -321,7 +501,8 @@ const TaskbarIcon: React.FC<TaskbarIconProps> = memo(function TaskbarIcon({
     return (
         <Tooltip content={title || 'App'} position="top">
             <button
-                onClick={onClick}
+                onClick={e => onClick(appId, e)}
+                onContextMenu={e => onContextMenu(appId, e)}
                 className={`relative w-10 h-10 [@media(pointer:coarse)]:w-12 [@media(pointer:coarse)]:h-12 rounded-lg flex items-center justify-center hover:bg-white/10 transition-all hover:-translate-y-1 group ${active ? 'bg-white/10' : ''}`}
             >
                 <span
@@ -330,11 +511,14 @@ const TaskbarIcon: React.FC<TaskbarIconProps> = memo(function TaskbarIcon({
                 >
                     {icon}
                 </span>
-                {running && (
-                    <div
-                        className="absolute -bottom-1 w-1 h-1 bg-white/80 rounded-full transition-all duration-300"
-                        style={{ width: active ? '16px' : '4px', borderRadius: active ? '2px' : '50%' }}
-                    ></div>
+                {windowCount > 0 && (
+                    <div className="absolute -bottom-1 flex gap-0.5">
+                        <div
+                            className="h-1 bg-white/80 rounded-full transition-all duration-300"
+                            style={{ width: active ? '16px' : '4px', borderRadius: active ? '2px' : '50%' }}
+                        ></div>
+                        {windowCount > 1 && <div className="w-1 h-1 bg-white/50 rounded-full"></div>}
+                    </div>
                 )}
                 {/* Badge (F148) */}
                 {badgeText && (
@@ -0,0 +1,103 @@
+import React, { useEffect, useRef } from 'react';
+import { AppConfig, WindowState } from '../types';
+
+/** Largest thumbnail frame, in pixels */
+const THUMBNAIL_WIDTH = 144;
+const THUMBNAIL_HEIGHT = 80;
+
+interface TaskbarWindowPickerProps {
+    app: AppConfig;
+    /** The app's open windows */
+    windows: WindowState[];
+    /** Bring a window to the front */
+    onSelect: (window: WindowState) => void;
+    /** Close a window */
+    onCloseWindow: (window: WindowState) => void;
+    /** Hide the picker */
+    onDismiss: () => void;
+}
+
+/**
+ * TaskbarWindowPicker - Thumbnails of an app's windows above its taskbar button
+ *
+ * Shown when a grouped taskbar button has more than one window. Like the cards in
+ * OverviewMode, thumbnails are static: a frame in the window's proportions with its
+ * icon and title. Clicking elsewhere or pressing Escape dismisses the picker.
+ */
+export const TaskbarWindowPicker: React.FC<TaskbarWindowPickerProps> = ({
+    app,
+    windows,
+    onSelect,
+    onCloseWindow,
+    onDismiss,
+}) => {
+    const ref = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        // The taskbar button shares the picker's parent and toggles it itself
+        const handleClickOutside = (e: MouseEvent) => {
+            if (!ref.current?.parentElement?.contains(e.target as Node)) onDismiss();
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onDismiss();
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [onDismiss]);
+
+    const sorted = [...windows].sort((a, b) => (a.instance ?? 1) - (b.instance ?? 1));
+    const colorClass = app.color.replace('bg-', 'text-');
+
+    return (
+        <div
+            ref={ref}
+            role="menu"
+            aria-label={`${app.title} windows`}
+            className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 flex gap-2 p-2 glass-panel rounded-xl shadow-2xl ring-1 ring-white/10 animate-fade-in-up"
+        >
+            {sorted.map(w => {
+                const scale = Math.min(THUMBNAIL_WIDTH / w.size.width, THUMBNAIL_HEIGHT / w.size.height);
+                const title = w.dynamicTitle ?? w.title;
+                return (
+                    <div key={w.id} className="relative group">
+                        <button
+                            role="menuitem"
+                            onClick={() => onSelect(w)}
+                            className={`flex flex-col items-center gap-1.5 p-2 rounded-lg hover:bg-white/10 transition-colors w-40 ${w.isMinimized ? 'opacity-60' : ''}`}
+                        >
+                            <div
+                                className="flex items-center justify-center"
+                                style={{ width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT }}
+                                aria-hidden="true"
+                            >
+                                <div
+                                    className="flex flex-col rounded-md overflow-hidden border border-white/20 bg-black/30"
+                                    style={{ width: w.size.width * scale, height: w.size.height * scale }}
+                                >
+                                    <div className="h-2 bg-white/15 shrink-0" />
+                                    <div className="flex-1 flex items-center justify-center">
+                                        <span className={`material-symbols-outlined text-2xl ${colorClass}`}>
+                                            {w.dynamicIcon ?? w.icon}
+                                        </span>
+                                    </div>
+                                </div>
+                            </div>
+                            <span className="text-xs text-white/90 truncate w-full text-center">{title}</span>
+                        </button>
+                        <button
+                            onClick={() => onCloseWindow(w)}
+                            aria-label={`Close ${title}`}
+                            className="absolute top-1 right-1 w-5 h-5 rounded flex items-center justify-center bg-black/40 text-white/70 hover:bg-red-500 hover:text-white opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                        >
+                            <span className="material-symbols-outlined text-sm">close</span>
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
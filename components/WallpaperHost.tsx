@@ -14,6 +14,7 @@ import { WallpaperScheduler } from '../utils/WallpaperScheduler';
 import { getViewportSize } from '../utils';
 import { createShaderRuntime, getPreferredRuntime, type RuntimeType } from '../runtime';
 import { AudioAnalyzer, type AnalyzerState } from '../utils/audio';
+import { usePermission } from '../hooks/usePermission';
 
 interface WallpaperHostProps {
     /** Fallback image URL when no live wallpaper is active */
@@ -84,6 +85,8 @@ export const WallpaperHost: React.FC<WallpaperHostProps> = ({ fallbackImage, bat
     const [runtimeType, setRuntimeType] = useState<RuntimeType>('none');
     const [runtimeError, setRuntimeError] = useState<string | null>(null);
     const [audioState, setAudioState] = useState<AnalyzerState>('inactive');
+    // Audio-reactive mode is configured in Wallpaper Studio, which holds the microphone permission
+    const { granted: microphoneGranted } = usePermission('wallpaperstudio', 'microphone');
 
     // Refs for values needed in render loop but shouldn't trigger re-init
     const settingsRef = useRef(settings);
@@ -115,7 +118,7 @@ export const WallpaperHost: React.FC<WallpaperHostProps> = ({ fallbackImage, bat
     // Handle audio reactive mode (F092)
     useEffect(() => {
         const setupAudioAnalyzer = async () => {
-            if (settings.audioReactive && isLiveWallpaperActive) {
+            if (settings.audioReactive && isLiveWallpaperActive && microphoneGranted) {
                 // Create and start audio analyzer
                 if (!audioAnalyzerRef.current) {
                     audioAnalyzerRef.current = new AudioAnalyzer({
@@ -141,7 +144,7 @@ export const WallpaperHost: React.FC<WallpaperHostProps> = ({ fallbackImage, bat
                 audioAnalyzerRef.current = null;
             }
         };
-    }, [settings.audioReactive, settings.micSensitivity, isLiveWallpaperActive]);
+    }, [settings.audioReactive, settings.micSensitivity, isLiveWallpaperActive, microphoneGranted]);
 
     // Update audio analyzer sensitivity when setting changes
     useEffect(() => {
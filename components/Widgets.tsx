@@ -1,20 +1,10 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useLocalization, useOS, useWindowSpace } from '../context';
-import { STORAGE_KEYS, storageService, useDexieLiveQuery } from '../utils/storage';
-import { ensureArray } from '../utils';
 import { formatTemperature } from '../utils/localization';
 import { SystemStatusWidget } from './SystemStatusWidget';
 import { Icon } from './ui';
-import { usePhoneMode } from '../hooks';
-
-type CalendarEvent = {
-    id: string;
-    title: string;
-    date: string; // YYYY-MM-DD
-    allDay: boolean;
-    startTime: string; // HH:MM
-    endTime: string; // HH:MM
-};
+import { useCalendarEvents, usePhoneMode } from '../hooks';
+import { addDaysYmd, expandCalendarEvents, getEventReminders, getOccurrenceDays } from '../utils/calendarEvents';
 
 interface WidgetWeather {
     temp: number;
@@ -51,7 +41,6 @@ const weatherCodeToInfo: Record<number, { icon: string; condition: string }> = {
 
 const pad2 = (value: number) => value.toString().padStart(2, '0');
 const toYmd = (date: Date) => `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
-const toHm = (date: Date) => `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
 const fromYmd = (ymd: string) => {
     const [y, m, d] = ymd.split('-').map(Number);
     if (!y || !m || !d) return new Date();
@@ -64,11 +53,11 @@ export const Widgets: React.FC = () => {
     const { unitSystem, formatTimeShortFromHm } = useLocalization();
     const { is3DMode, toggle3DMode, prefersReducedMotion } = useWindowSpace();
     const [currentDate, setCurrentDate] = useState(new Date());
-    const { value: calendarEventsRaw } = useDexieLiveQuery(
-        () => storageService.get<CalendarEvent[]>(STORAGE_KEYS.calendarEvents),
-        [STORAGE_KEYS.calendarEvents]
-    );
-    const calendarEvents = useMemo(() => ensureArray(calendarEventsRaw), [calendarEventsRaw]);
+    // Events that may occur from the start of this month to a year from today
+    const monthStartYmd = toYmd(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1));
+    const { events: calendarEvents } = useCalendarEvents({
+        range: { start: monthStartYmd, end: addDaysYmd(toYmd(currentDate), 366) },
+    });
     const [weather, setWeather] = useState<WidgetWeather>({
         temp: 22,
         high: 24,
@@ -139,29 +128,25 @@ export const Widgets: React.FC = () => {
 
     const formatTime = (hm: string) => formatTimeShortFromHm(hm);
 
+    // Next occurrence within a year: all-day events still running today, or timed events yet to start
     const nextEvent = useMemo(() => {
-        const todayKey = toYmd(currentDate);
-        const nowTimeKey = toHm(currentDate);
-
-        const upcoming = calendarEvents
-            .filter(event => {
-                if (event.date > todayKey) return true;
-                if (event.date < todayKey) return false;
-                if (event.allDay) return true;
-                return event.startTime >= nowTimeKey;
-            })
-            .slice()
-            .sort((a, b) => {
-                const dateSort = a.date.localeCompare(b.date);
-                if (dateSort !== 0) return dateSort;
-                const aTime = a.allDay ? '00:00' : a.startTime;
-                const bTime = b.allDay ? '00:00' : b.startTime;
-                return aTime.localeCompare(bTime);
-            });
-
+        const yearAhead = new Date(currentDate);
+        yearAhead.setFullYear(yearAhead.getFullYear() + 1);
+        const upcoming = expandCalendarEvents(calendarEvents, { start: currentDate, end: yearAhead }).filter(
+            occurrence => occurrence.event.allDay || occurrence.start >= currentDate
+        );
         return upcoming[0] ?? null;
     }, [calendarEvents, currentDate]);
 
+    // Days of this month with at least one occurrence
+    const eventDays = useMemo(() => {
+        const monthStart = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
+        const monthEnd = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1);
+        return new Set(
+            expandCalendarEvents(calendarEvents, { start: monthStart, end: monthEnd }).flatMap(getOccurrenceDays)
+        );
+    }, [calendarEvents, currentDate]);
+
     // F237: Hide widgets on phone-sized viewports to maximize app space
     // Must be placed after all hooks to satisfy Rules of Hooks
     if (isPhone) {
@@ -203,14 +188,21 @@ export const Widgets: React.FC = () => {
     for (let i = 1; i <= daysInMonth; i++) {
         const isToday = i === today;
         const cellDate = new Date(year, monthIndex, i);
+        const hasEvents = eventDays.has(toYmd(cellDate));
         calendarDays.push(
             <button
                 key={`day-${i}`}
                 type="button"
                 onClick={() => openCalendar(toYmd(cellDate))}
-                className={`${isToday ? 'bg-primary text-white rounded-full w-6 h-6 flex items-center justify-center mx-auto shadow-lg shadow-primary/50' : 'hover:text-white cursor-pointer'}`}
+                className={`relative ${isToday ? 'bg-primary text-white rounded-full w-6 h-6 flex items-center justify-center mx-auto shadow-lg shadow-primary/50' : 'hover:text-white cursor-pointer'}`}
+                title={hasEvents ? 'Has events' : undefined}
             >
                 {i}
+                {hasEvents && (
+                    <span
+                        className={`absolute left-1/2 -translate-x-1/2 -bottom-1 w-1 h-1 rounded-full ${isToday ? 'bg-white' : 'bg-primary'}`}
+                    />
+                )}
             </button>
         );
     }
@@ -306,19 +298,33 @@ export const Widgets: React.FC = () => {
                     {nextEvent ? (
                         <button
                             type="button"
-                            onClick={() => openCalendar(nextEvent.date)}
+                            onClick={() =>
+                                openCalendar(nextEvent.date < toYmd(currentDate) ? toYmd(currentDate) : nextEvent.date)
+                            }
                             className="w-full flex items-center gap-3 text-left hover:bg-white/5 rounded-lg p-2 -m-2 transition-colors"
                         >
                             <div className="w-1 h-8 rounded-full bg-purple-500"></div>
                             <div className="flex flex-col min-w-0">
-                                <span className="text-xs text-white/90 font-medium truncate">{nextEvent.title}</span>
-                                <span className="text-[10px] text-white/50 truncate">
-                                    {nextEvent.date === toYmd(currentDate)
+                                <span className="text-xs text-white/90 font-medium truncate">
+                                    {nextEvent.event.title}
+                                </span>
+                                <span className="text-[10px] text-white/50 truncate flex items-center gap-1">
+                                    {nextEvent.date <= toYmd(currentDate)
                                         ? ''
                                         : `${fromYmd(nextEvent.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} · `}
-                                    {nextEvent.allDay
+                                    {nextEvent.event.allDay
                                         ? 'All day'
-                                        : `${formatTime(nextEvent.startTime)} - ${formatTime(nextEvent.endTime)}`}
+                                        : `${formatTime(nextEvent.event.startTime)} - ${formatTime(nextEvent.event.endTime)}`}
+                                    {nextEvent.event.rrule && (
+                                        <span className="material-symbols-outlined text-[11px]" title="Repeats">
+                                            repeat
+                                        </span>
+                                    )}
+                                    {getEventReminders(nextEvent.event).length > 0 && (
+                                        <span className="material-symbols-outlined text-[11px]" title="Reminder set">
+                                            notifications
+                                        </span>
+                                    )}
                                 </span>
                             </div>
                         </button>
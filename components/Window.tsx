@@ -1,10 +1,19 @@
 import React, { useState, useEffect, useRef, Suspense, memo, cloneElement, isValidElement, useCallback } from 'react';
-import { useOS, useWindowSpace } from '../context/OSContext';
+import { useOS, useVirtualDesktops, useWindowSpace } from '../context/OSContext';
 import { WindowState } from '../types';
 import { AppLoadingSkeleton } from './AppLoadingSkeleton';
 import { ErrorBoundary } from './ErrorBoundary';
+import { SnapLayoutsFlyout } from './SnapLayoutsFlyout';
+import { ContextMenu } from './ContextMenu';
 import { WINDOW } from '../utils/constants';
-import { usePinchGesture, useTouchDevice, useAppEmit, useVirtualKeyboard, usePhoneMode } from '../hooks';
+import {
+    usePinchGesture,
+    useTouchDevice,
+    useAppEmit,
+    useVirtualKeyboard,
+    usePhoneMode,
+    useContextMenu,
+} from '../hooks';
 
 interface WindowProps {
     window: WindowState;
@@ -14,6 +23,10 @@ interface WindowProps {
 
 type ResizeDirection = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw' | null;
 
+/** Hover time before the snap layouts flyout opens, and grace time before it closes */
+const SNAP_FLYOUT_OPEN_DELAY = 500;
+const SNAP_FLYOUT_CLOSE_DELAY = 250;
+
 /**
  * Custom comparison function for Window memoization.
  * Only re-renders when window properties that affect rendering change.
@@ -32,6 +45,7 @@ const areWindowPropsEqual = (prevProps: WindowProps, nextProps: WindowProps): bo
         prev.dynamicTitle === next.dynamicTitle &&
         prev.dynamicIcon === next.dynamicIcon &&
         prev.badge === next.badge &&
+        prev.desktopId === next.desktopId &&
         prev.position.x === next.position.x &&
         prev.position.y === next.position.y &&
         prev.size.width === next.size.width &&
@@ -47,8 +61,23 @@ const areWindowPropsEqual = (prevProps: WindowProps, nextProps: WindowProps): bo
  * Supports 3D mode with depth transforms (F087) and tilt on drag (F093).
  */
 export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZIndex = window.zIndex }) {
-    const { closeWindow, minimizeWindow, toggleMaximizeWindow, focusWindow, resizeWindow, updateWindowPosition } =
-        useOS();
+    const {
+        closeWindow,
+        minimizeWindow,
+        toggleMaximizeWindow,
+        focusWindow,
+        resizeWindow,
+        updateWindowPosition,
+        moveWindowToDesktop,
+    } = useOS();
+    const { desktops, createDesktop } = useVirtualDesktops();
+    const {
+        menu: titleBarMenu,
+        open: openTitleBarMenu,
+        close: closeTitleBarMenu,
+        menuProps: titleBarMenuProps,
+        menuRef: titleBarMenuRef,
+    } = useContextMenu<string>();
     const {
         is3DMode,
         getWindowTransform,
@@ -91,7 +120,15 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
     const pinchStartSizeRef = useRef({ width: 0, height: 0 });
     const isTouchDevice = useTouchDevice();
     const contentRef = useRef<HTMLDivElement>(null);
-    const emit = useAppEmit(); // For snap zone communication (F212)
+    // For snap zone communication (F212)
+    const emitDragMove = useAppEmit('window:drag:move');
+    const emitDragEnd = useAppEmit('window:drag:end');
+    const emitSnap = useAppEmit('window:snap');
+    // eslint-disable-next-line no-undef
+    const maximizeButtonRef = useRef<HTMLButtonElement>(null);
+    // eslint-disable-next-line no-undef
+    const [snapFlyoutAnchor, setSnapFlyoutAnchor] = useState<DOMRect | null>(null);
+    const snapFlyoutTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     useEffect(() => {
         if (window.isMaximized) {
@@ -106,6 +143,39 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
         setSize(restoreSizeRef.current);
     }, [window.isMaximized]);
 
+    // Follow geometry set from outside the window, e.g. by snapping
+    useEffect(() => {
+        if (window.isMaximized || isDraggingRef.current) return;
+        const nextPosition = { x: window.position.x, y: window.position.y };
+        const nextSize = { width: window.size.width, height: window.size.height };
+        positionRef.current = restorePositionRef.current = nextPosition;
+        sizeRef.current = restoreSizeRef.current = nextSize;
+        setPosition(nextPosition);
+        setSize(nextSize);
+    }, [window.isMaximized, window.position.x, window.position.y, window.size.width, window.size.height]);
+
+    useEffect(() => {
+        return () => {
+            if (snapFlyoutTimerRef.current) clearTimeout(snapFlyoutTimerRef.current);
+        };
+    }, []);
+
+    const scheduleSnapFlyout = (open: boolean) => {
+        if (snapFlyoutTimerRef.current) clearTimeout(snapFlyoutTimerRef.current);
+        snapFlyoutTimerRef.current = setTimeout(
+            () =>
+                setSnapFlyoutAnchor(prev =>
+                    open ? (prev ?? maximizeButtonRef.current?.getBoundingClientRect() ?? null) : null
+                ),
+            open ? SNAP_FLYOUT_OPEN_DELAY : SNAP_FLYOUT_CLOSE_DELAY
+        );
+    };
+
+    const runTitleBarAction = (action: () => void) => {
+        action();
+        closeTitleBarMenu();
+    };
+
     // Auto-maximize when switching to phone mode (F226)
     useEffect(() => {
         if (isPhone && !window.isMaximized) {
@@ -275,7 +345,8 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
         };
 
         // Emit window drag position for snap zone detection (F212)
-        emit('window:drag:move', {
+        emitDragMove({
+            windowId: window.id,
             x: e.clientX,
             y: e.clientY,
             isMaximized: window.isMaximized,
@@ -316,9 +387,6 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
         setIsDragging(false);
         isDraggingRef.current = false;
 
-        // Emit drag end for snap zone application (F212)
-        emit('window:drag:end', { windowId: window.id });
-
         // Reset tilt with smooth animation (F093)
         if (shouldTilt) {
             tiltRef.current = { rotateX: 0, rotateY: 0 };
@@ -340,6 +408,9 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
 
         updateWindowPosition(window.id, positionRef.current);
 
+        // Emit drag end for snap zone application (F212), after the drop position so a snap wins
+        emitDragEnd({ windowId: window.id });
+
         try {
             e.currentTarget.releasePointerCapture(e.pointerId);
         } catch {}
@@ -569,6 +640,7 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
                     onPointerUp={endDrag}
                     onPointerCancel={endDrag}
                     onDoubleClick={() => toggleMaximizeWindow(window.id)}
+                    onContextMenu={e => openTitleBarMenu(e, window.id)}
                 >
                     <div className="flex items-center gap-3 min-w-0 flex-shrink">
                         <span
@@ -599,19 +671,39 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
                                 minimize
                             </span>
                         </button>
-                        <button
-                            aria-label={window.isMaximized ? 'Restore window' : 'Maximize window'}
-                            onPointerDown={e => e.stopPropagation()}
-                            onClick={e => {
-                                e.stopPropagation();
-                                toggleMaximizeWindow(window.id);
-                            }}
-                            className="w-8 h-8 flex items-center justify-center rounded hover:bg-white/10 text-white/70 transition-colors"
+                        <div
+                            className="relative"
+                            onMouseEnter={() => !isPhone && scheduleSnapFlyout(true)}
+                            onMouseLeave={() => scheduleSnapFlyout(false)}
                         >
-                            <span className="material-symbols-outlined text-[16px]" aria-hidden="true">
-                                {window.isMaximized ? 'close_fullscreen' : 'crop_square'}
-                            </span>
-                        </button>
+                            <button
+                                ref={maximizeButtonRef}
+                                aria-label={window.isMaximized ? 'Restore window' : 'Maximize window'}
+                                aria-haspopup="menu"
+                                onPointerDown={e => e.stopPropagation()}
+                                onClick={e => {
+                                    e.stopPropagation();
+                                    setSnapFlyoutAnchor(null);
+                                    toggleMaximizeWindow(window.id);
+                                }}
+                                className="w-8 h-8 flex items-center justify-center rounded hover:bg-white/10 text-white/70 transition-colors"
+                            >
+                                <span className="material-symbols-outlined text-[16px]" aria-hidden="true">
+                                    {window.isMaximized ? 'close_fullscreen' : 'crop_square'}
+                                </span>
+                            </button>
+                            {snapFlyoutAnchor && (
+                                <SnapLayoutsFlyout
+                                    anchor={snapFlyoutAnchor}
+                                    onSelect={(layout, slot) => {
+                                        setSnapFlyoutAnchor(null);
+                                        emitSnap({ windowId: window.id, slot, layoutId: layout.id });
+                                    }}
+                                    onMouseEnter={() => scheduleSnapFlyout(true)}
+                                    onMouseLeave={() => scheduleSnapFlyout(false)}
+                                />
+                            )}
+                        </div>
                         <button
                             aria-label="Close window"
                             onPointerDown={e => e.stopPropagation()}
@@ -708,6 +800,55 @@ export const Window: React.FC<WindowProps> = memo(function Window({ window, maxZ
                     />
                 </>
             )}
+
+            {/* Title bar context menu */}
+            {titleBarMenu && (
+                <ContextMenu
+                    ref={titleBarMenuRef}
+                    position={titleBarMenu.position}
+                    onClose={closeTitleBarMenu}
+                    {...titleBarMenuProps}
+                >
+                    <ContextMenu.Item
+                        icon="minimize"
+                        onClick={() => runTitleBarAction(() => minimizeWindow(window.id))}
+                    >
+                        Minimize
+                    </ContextMenu.Item>
+                    <ContextMenu.Item
+                        icon={window.isMaximized ? 'close_fullscreen' : 'crop_square'}
+                        onClick={() => runTitleBarAction(() => toggleMaximizeWindow(window.id))}
+                    >
+                        {window.isMaximized ? 'Restore' : 'Maximize'}
+                    </ContextMenu.Item>
+                    <ContextMenu.Submenu icon="desktop_windows" label="Move to">
+                        {desktops
+                            .filter(d => d.id !== window.desktopId)
+                            .map(d => (
+                                <ContextMenu.Item
+                                    key={d.id}
+                                    onClick={() => runTitleBarAction(() => moveWindowToDesktop(window.id, d.id))}
+                                >
+                                    {d.name}
+                                </ContextMenu.Item>
+                            ))}
+                        <ContextMenu.Item
+                            icon="add"
+                            onClick={() => runTitleBarAction(() => moveWindowToDesktop(window.id, createDesktop()))}
+                        >
+                            New desktop
+                        </ContextMenu.Item>
+                    </ContextMenu.Submenu>
+                    <ContextMenu.Separator />
+                    <ContextMenu.Item
+                        icon="close"
+                        danger
+                        onClick={() => runTitleBarAction(() => closeWindow(window.id))}
+                    >
+                        Close
+                    </ContextMenu.Item>
+                </ContextMenu>
+            )}
         </div>
     );
 }, areWindowPropsEqual);
@@ -56,6 +56,24 @@ vi.mock('../../hooks/useHandoff', () => ({
     }),
 }));
 
+// Mock useDesktopSearch hook
+vi.mock('../../hooks/useDesktopSearch', () => ({
+    useDesktopSearch: () => ({
+        results: [],
+        isIndexing: false,
+    }),
+}));
+
+// Mock useWorkspaces hook
+vi.mock('../../hooks/useWorkspaces', () => ({
+    useWorkspaces: () => ({
+        workspaces: [],
+        saveWorkspace: vi.fn(),
+        openWorkspace: vi.fn(),
+        deleteWorkspace: vi.fn(),
+    }),
+}));
+
 // Mock useTranslation hook
 vi.mock('../../hooks/useTranslation', () => ({
     useTranslation: () => ({
@@ -23,6 +23,11 @@ vi.mock('../../context/OSContext', () => ({
         focusWindow: mockFocusWindow,
         resizeWindow: mockResizeWindow,
         updateWindowPosition: mockUpdateWindowPosition,
+        moveWindowToDesktop: vi.fn(),
+    }),
+    useVirtualDesktops: () => ({
+        desktops: [{ id: 'desktop-1', name: 'Desktop 1' }],
+        createDesktop: vi.fn(),
     }),
     useWindowSpace: () => ({
         is3DMode: false,
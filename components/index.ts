@@ -4,6 +4,7 @@
 
 export { AppLoadingSkeleton } from './AppLoadingSkeleton';
 export { AriaLiveProvider, useAriaLive } from './AriaLiveRegion';
+export { CalendarReminderScheduler } from './CalendarReminderScheduler';
 export { ContextMenu } from './ContextMenu';
 export type {
     ContextMenuProps,
@@ -19,6 +20,7 @@ export { FilePickerModal } from './FilePickerModal';
 export { GestureHandler } from './GestureHandler';
 export { HandoffNotificationListener } from './HandoffNotificationListener';
 export { InstallButton } from './InstallButton';
+export { IntentHost } from './IntentHost';
 export {
     SkeletonBlock,
     SkeletonList,
@@ -34,10 +36,14 @@ export { LoginScreen } from './LoginScreen';
 export { NotificationCenter } from './NotificationCenter';
 export { NotificationToast } from './NotificationToast';
 export { OverviewMode } from './OverviewMode';
+export { PermissionPrompt } from './PermissionPrompt';
 export { PWAUpdatePrompt } from './PWAUpdatePrompt';
 export { ReconnectingToast } from './ReconnectingToast';
+export { SandboxedApp, createPackagedAppConfig } from './SandboxedApp';
 export { Screensaver } from './Screensaver';
 export { ShareReceiver } from './ShareReceiver';
+export { SnapAssist } from './SnapAssist';
+export { SnapLayoutsFlyout } from './SnapLayoutsFlyout';
 export { SnapZoneOverlay } from './SnapZoneOverlay';
 export type { SnapZone } from './SnapZoneOverlay';
 export { StartMenu } from './StartMenu';
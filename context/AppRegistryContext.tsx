@@ -21,6 +21,11 @@ interface AppRegistryContextType {
      * @param config - Application configuration
      */
     registerApp: (config: AppConfig) => void;
+    /**
+     * Remove a registered application (e.g. an uninstalled app package)
+     * @param appId - The application ID to remove
+     */
+    unregisterApp: (appId: string) => void;
     /**
      * Get an application by its ID
      * @param appId - The application ID to look up
@@ -80,6 +85,10 @@ export const AppRegistryProvider: React.FC<AppRegistryProviderProps> = ({ childr
         });
     }, []);
 
+    const unregisterApp = useCallback((appId: string) => {
+        setApps(prev => prev.filter(a => a.id !== appId));
+    }, []);
+
     const getApp = useCallback(
         (appId: string) => {
             return apps.find(a => a.id === appId);
@@ -87,5 +96,9 @@ export const AppRegistryProvider: React.FC<AppRegistryProviderProps> = ({ childr
         [apps]
     );
 
-    return <AppRegistryContext.Provider value={{ apps, registerApp, getApp }}>{children}</AppRegistryContext.Provider>;
+    return (
+        <AppRegistryContext.Provider value={{ apps, registerApp, unregisterApp, getApp }}>
+            {children}
+        </AppRegistryContext.Provider>
+    );
 };
@@ -7,6 +7,7 @@
 import React, { createContext, useContext, ReactNode } from 'react';
 import { AppRegistryProvider, useAppRegistry } from './AppRegistryContext';
 import { WallpaperProvider, useWallpaper } from './WallpaperContext';
+import { VirtualDesktopProvider } from './VirtualDesktopContext';
 import { StartMenuProvider, useStartMenu } from './StartMenuContext';
 import { WindowProvider, useWindowManager } from './WindowContext';
 import { LocalizationProvider } from './LocalizationContext';
@@ -22,15 +23,22 @@ import { ClipboardProvider } from './ClipboardContext';
 interface OSContextType {
     // Window management
     windows: ReturnType<typeof useWindowManager>['windows'];
+    desktopWindows: ReturnType<typeof useWindowManager>['desktopWindows'];
     openWindow: ReturnType<typeof useWindowManager>['openWindow'];
+    openNewWindow: ReturnType<typeof useWindowManager>['openNewWindow'];
     closeWindow: ReturnType<typeof useWindowManager>['closeWindow'];
     minimizeWindow: ReturnType<typeof useWindowManager>['minimizeWindow'];
     toggleMaximizeWindow: ReturnType<typeof useWindowManager>['toggleMaximizeWindow'];
     focusWindow: ReturnType<typeof useWindowManager>['focusWindow'];
     resizeWindow: ReturnType<typeof useWindowManager>['resizeWindow'];
     updateWindowPosition: ReturnType<typeof useWindowManager>['updateWindowPosition'];
+    snapWindow: ReturnType<typeof useWindowManager>['snapWindow'];
+    unsnapWindow: ReturnType<typeof useWindowManager>['unsnapWindow'];
+    setSnapGroupMinimized: ReturnType<typeof useWindowManager>['setSnapGroupMinimized'];
+    moveWindowToDesktop: ReturnType<typeof useWindowManager>['moveWindowToDesktop'];
     // App registry
     registerApp: ReturnType<typeof useAppRegistry>['registerApp'];
+    unregisterApp: ReturnType<typeof useAppRegistry>['unregisterApp'];
     apps: ReturnType<typeof useAppRegistry>['apps'];
     // Wallpaper
     activeWallpaper: ReturnType<typeof useWallpaper>['activeWallpaper'];
@@ -64,15 +72,22 @@ const OSContextBridge: React.FC<{ children: ReactNode }> = ({ children }) => {
     const value: OSContextType = {
         // Window management
         windows: windowManager.windows,
+        desktopWindows: windowManager.desktopWindows,
         openWindow: windowManager.openWindow,
+        openNewWindow: windowManager.openNewWindow,
         closeWindow: windowManager.closeWindow,
         minimizeWindow: windowManager.minimizeWindow,
         toggleMaximizeWindow: windowManager.toggleMaximizeWindow,
         focusWindow: windowManager.focusWindow,
         resizeWindow: windowManager.resizeWindow,
         updateWindowPosition: windowManager.updateWindowPosition,
+        snapWindow: windowManager.snapWindow,
+        unsnapWindow: windowManager.unsnapWindow,
+        setSnapGroupMinimized: windowManager.setSnapGroupMinimized,
+        moveWindowToDesktop: windowManager.moveWindowToDesktop,
         // App registry
         registerApp: appRegistry.registerApp,
+        unregisterApp: appRegistry.unregisterApp,
         apps: appRegistry.apps,
         // Wallpaper
         activeWallpaper: wallpaper.activeWallpaper,
@@ -94,21 +109,23 @@ export const OSProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
         <AppRegistryProvider>
             <StartMenuProvider>
                 <LocalizationProvider>
-                    <WallpaperProvider>
-                        <ScreensaverProvider>
-                            <WindowSpaceProvider>
-                                <SystemInfoProvider>
-                                    <NetworkProvider>
-                                        <ClipboardProvider>
-                                            <WindowProvider>
-                                                <OSContextBridge>{children}</OSContextBridge>
-                                            </WindowProvider>
-                                        </ClipboardProvider>
-                                    </NetworkProvider>
-                                </SystemInfoProvider>
-                            </WindowSpaceProvider>
-                        </ScreensaverProvider>
-                    </WallpaperProvider>
+                    <VirtualDesktopProvider>
+                        <WallpaperProvider>
+                            <ScreensaverProvider>
+                                <WindowSpaceProvider>
+                                    <SystemInfoProvider>
+                                        <NetworkProvider>
+                                            <ClipboardProvider>
+                                                <WindowProvider>
+                                                    <OSContextBridge>{children}</OSContextBridge>
+                                                </WindowProvider>
+                                            </ClipboardProvider>
+                                        </NetworkProvider>
+                                    </SystemInfoProvider>
+                                </WindowSpaceProvider>
+                            </ScreensaverProvider>
+                        </WallpaperProvider>
+                    </VirtualDesktopProvider>
                 </LocalizationProvider>
             </StartMenuProvider>
         </AppRegistryProvider>
@@ -118,6 +135,7 @@ export const OSProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
 // Re-export individual hooks for direct access
 export { useAppRegistry } from './AppRegistryContext';
 export { useWallpaper } from './WallpaperContext';
+export { useVirtualDesktops, PRIMARY_DESKTOP_ID } from './VirtualDesktopContext';
 export { useStartMenu } from './StartMenuContext';
 export { useWindowManager } from './WindowContext';
 export { useLocalization } from './LocalizationContext';
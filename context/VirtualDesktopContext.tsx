@@ -0,0 +1,197 @@
+/**
+ * VirtualDesktopContext - Virtual desktops and which one is active
+ *
+ * Holds the list of desktops and the active desktop. Windows record the desktop
+ * they are on (see WindowContext) and each desktop can have its own wallpaper
+ * (see WallpaperContext). There is always at least one desktop.
+ *
+ * @module context/VirtualDesktopContext
+ */
+import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useRef } from 'react';
+import { VirtualDesktop } from '../types';
+import { storageService } from '../utils/storage';
+import { generateUuid } from '../utils/uuid';
+
+const KV_KEY_DESKTOPS = 'windows15.os.desktops';
+
+/** The desktop that exists before any others are created */
+export const PRIMARY_DESKTOP_ID = 'desktop-1';
+
+const DEFAULT_DESKTOPS: VirtualDesktop[] = [{ id: PRIMARY_DESKTOP_ID, name: 'Desktop 1' }];
+
+type SavedDesktops = { desktops: VirtualDesktop[]; activeDesktopId: string };
+
+const isVirtualDesktop = (value: unknown): value is VirtualDesktop =>
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as VirtualDesktop).id === 'string' &&
+    typeof (value as VirtualDesktop).name === 'string';
+
+interface VirtualDesktopContextType {
+    /** Desktops in display order */
+    desktops: VirtualDesktop[];
+    activeDesktopId: string;
+    /** Whether saved desktops have been loaded */
+    isLoaded: boolean;
+    /**
+     * Add a desktop at the end of the list
+     * @param name - Display name; defaults to "Desktop N"
+     * @returns The new desktop's ID
+     */
+    createDesktop: (name?: string) => string;
+    renameDesktop: (id: string, name: string) => void;
+    /**
+     * Remove a desktop. Removing the active desktop switches to its neighbour,
+     * and windows left on a removed desktop move to the active one.
+     * The last remaining desktop cannot be removed.
+     */
+    deleteDesktop: (id: string) => void;
+    switchDesktop: (id: string) => void;
+    /**
+     * Switch to the desktop `offset` places left (negative) or right (positive) of the active one
+     * @returns The desktop switched to, or null at either end of the list
+     */
+    switchDesktopBy: (offset: number) => VirtualDesktop | null;
+}
+
+const VirtualDesktopContext = createContext<VirtualDesktopContextType | undefined>(undefined);
+
+/**
+ * Hook to access virtual desktops
+ */
+export const useVirtualDesktops = () => {
+    const context = useContext(VirtualDesktopContext);
+    if (!context) {
+        throw new Error('useVirtualDesktops must be used within a VirtualDesktopProvider');
+    }
+    return context;
+};
+
+interface VirtualDesktopProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Provider for virtual desktops
+ */
+export const VirtualDesktopProvider: React.FC<VirtualDesktopProviderProps> = ({ children }) => {
+    const [state, setState] = useState<SavedDesktops>({
+        desktops: DEFAULT_DESKTOPS,
+        activeDesktopId: PRIMARY_DESKTOP_ID,
+    });
+    const [isLoaded, setIsLoaded] = useState(false);
+    // Latest state for callbacks that return a value computed from it
+    const stateRef = useRef(state);
+    stateRef.current = state;
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const saved = await storageService.get<SavedDesktops>(KV_KEY_DESKTOPS);
+                const desktops = Array.isArray(saved?.desktops) ? saved.desktops.filter(isVirtualDesktop) : [];
+                if (saved && desktops.length > 0) {
+                    const activeDesktopId = desktops.some(d => d.id === saved.activeDesktopId)
+                        ? saved.activeDesktopId
+                        : (desktops[0]?.id ?? PRIMARY_DESKTOP_ID);
+                    setState({ desktops, activeDesktopId });
+                }
+            } catch (error) {
+                console.error('Failed to load virtual desktops:', error);
+            } finally {
+                setIsLoaded(true);
+            }
+        };
+        load();
+    }, []);
+
+    const update = useCallback((updater: (prev: SavedDesktops) => SavedDesktops) => {
+        setState(prev => {
+            const next = updater(prev);
+            if (next !== prev) storageService.set(KV_KEY_DESKTOPS, next).catch(() => undefined);
+            return next;
+        });
+    }, []);
+
+    const createDesktop = useCallback(
+        (name?: string) => {
+            const id = generateUuid();
+            update(prev => {
+                // Number new desktops past the highest default name in use
+                const numbers = prev.desktops.map(d => Number(/^Desktop (\d+)$/.exec(d.name)?.[1] ?? 0));
+                const desktop = {
+                    id,
+                    name: name?.trim() || `Desktop ${Math.max(prev.desktops.length, ...numbers) + 1}`,
+                };
+                return { ...prev, desktops: [...prev.desktops, desktop] };
+            });
+            return id;
+        },
+        [update]
+    );
+
+    const renameDesktop = useCallback(
+        (id: string, name: string) => {
+            const trimmed = name.trim();
+            if (!trimmed) return;
+            update(prev => ({
+                ...prev,
+                desktops: prev.desktops.map(d => (d.id === id ? { ...d, name: trimmed } : d)),
+            }));
+        },
+        [update]
+    );
+
+    const deleteDesktop = useCallback(
+        (id: string) => {
+            update(prev => {
+                const index = prev.desktops.findIndex(d => d.id === id);
+                if (index < 0 || prev.desktops.length <= 1) return prev;
+                const desktops = prev.desktops.filter(d => d.id !== id);
+                const neighbour = desktops[Math.max(0, index - 1)];
+                const activeDesktopId =
+                    prev.activeDesktopId === id ? (neighbour?.id ?? PRIMARY_DESKTOP_ID) : prev.activeDesktopId;
+                return { desktops, activeDesktopId };
+            });
+        },
+        [update]
+    );
+
+    const switchDesktop = useCallback(
+        (id: string) => {
+            update(prev =>
+                prev.activeDesktopId !== id && prev.desktops.some(d => d.id === id)
+                    ? { ...prev, activeDesktopId: id }
+                    : prev
+            );
+        },
+        [update]
+    );
+
+    const switchDesktopBy = useCallback(
+        (offset: number) => {
+            const { desktops, activeDesktopId } = stateRef.current;
+            const target = desktops[desktops.findIndex(d => d.id === activeDesktopId) + offset];
+            if (!target) return null;
+            switchDesktop(target.id);
+            return target;
+        },
+        [switchDesktop]
+    );
+
+    return (
+        <VirtualDesktopContext.Provider
+            value={{
+                desktops: state.desktops,
+                activeDesktopId: state.activeDesktopId,
+                isLoaded,
+                createDesktop,
+                renameDesktop,
+                deleteDesktop,
+                switchDesktop,
+                switchDesktopBy,
+            }}
+        >
+            {children}
+        </VirtualDesktopContext.Provider>
+    );
+};
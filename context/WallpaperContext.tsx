@@ -1,5 +1,8 @@
 /**
  * WallpaperContext - Handles wallpaper/theme management
+ *
+ * The primary virtual desktop uses the saved wallpaper; other desktops can have their
+ * own, and show the primary desktop's wallpaper until one is set.
  */
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { WALLPAPERS } from '../utils/constants';
@@ -7,10 +10,15 @@ import { getSetting } from '../utils/fileSystem';
 import { storageService } from '../utils/storage';
 import type { WallpaperManifest, WallpaperSettings } from '../types/wallpaper';
 import { DEFAULT_WALLPAPER_SETTINGS } from '../types/wallpaper';
+import { PRIMARY_DESKTOP_ID, useVirtualDesktops } from './VirtualDesktopContext';
 
 const KV_KEY_WALLPAPER = 'windows15.os.wallpaper';
 const KV_KEY_WALLPAPER_MANIFEST = 'windows15.os.wallpaperManifest';
 const KV_KEY_WALLPAPER_SETTINGS = 'wallpaperSettings';
+const KV_KEY_DESKTOP_WALLPAPERS = 'windows15.os.desktopWallpapers';
+
+/** Wallpaper of a desktop other than the primary one */
+type DesktopWallpaper = { wallpaper: string; manifest: WallpaperManifest | null };
 
 const normalizeWallpaperSettings = (value: unknown): WallpaperSettings => {
     const base = DEFAULT_WALLPAPER_SETTINGS;
@@ -70,8 +78,10 @@ interface WallpaperProviderProps {
  * Provider for wallpaper management
  */
 export const WallpaperProvider: React.FC<WallpaperProviderProps> = ({ children }) => {
-    const [activeWallpaper, setActiveWallpaperState] = useState(WALLPAPERS[0]?.url ?? '');
-    const [activeManifest, setActiveManifest] = useState<WallpaperManifest | null>(null);
+    const { desktops, activeDesktopId, isLoaded: desktopsLoaded } = useVirtualDesktops();
+    const [primaryWallpaper, setPrimaryWallpaper] = useState(WALLPAPERS[0]?.url ?? '');
+    const [primaryManifest, setPrimaryManifest] = useState<WallpaperManifest | null>(null);
+    const [desktopWallpapers, setDesktopWallpapers] = useState<Record<string, DesktopWallpaper>>({});
     const [settings, setSettingsState] = useState<WallpaperSettings>(DEFAULT_WALLPAPER_SETTINGS);
 
     useEffect(() => {
@@ -80,9 +90,9 @@ export const WallpaperProvider: React.FC<WallpaperProviderProps> = ({ children }
                 // Try to load manifest first (for shader wallpapers)
                 const savedManifest = await storageService.get<WallpaperManifest>(KV_KEY_WALLPAPER_MANIFEST);
                 if (savedManifest) {
-                    setActiveManifest(savedManifest);
+                    setPrimaryManifest(savedManifest);
                     if (savedManifest.preview) {
-                        setActiveWallpaperState(savedManifest.preview);
+                        setPrimaryWallpaper(savedManifest.preview);
                     }
                     return;
                 }
@@ -90,11 +100,11 @@ export const WallpaperProvider: React.FC<WallpaperProviderProps> = ({ children }
                 // Fall back to URL-based wallpaper (legacy/image wallpapers)
                 const savedWallpaper = await storageService.get<string>(KV_KEY_WALLPAPER);
                 if (savedWallpaper) {
-                    setActiveWallpaperState(savedWallpaper);
+                    setPrimaryWallpaper(savedWallpaper);
                 } else {
                     const legacyWallpaper = await getSetting<string>('wallpaper');
                     if (legacyWallpaper) {
-                        setActiveWallpaperState(legacyWallpaper);
+                        setPrimaryWallpaper(legacyWallpaper);
                         storageService.set(KV_KEY_WALLPAPER, legacyWallpaper).catch(() => undefined);
                     }
                 }
@@ -105,6 +115,31 @@ export const WallpaperProvider: React.FC<WallpaperProviderProps> = ({ children }
         loadWallpaper();
     }, []);
 
+    useEffect(() => {
+        storageService
+            .get<Record<string, DesktopWallpaper>>(KV_KEY_DESKTOP_WALLPAPERS)
+            .then(saved => {
+                if (saved && typeof saved === 'object') setDesktopWallpapers(saved);
+            })
+            .catch(error => console.error('Failed to load desktop wallpapers:', error));
+    }, []);
+
+    // Forget the wallpapers of removed desktops
+    useEffect(() => {
+        if (!desktopsLoaded) return;
+        setDesktopWallpapers(prev => {
+            const kept = Object.entries(prev).filter(([id]) => desktops.some(d => d.id === id));
+            if (kept.length === Object.keys(prev).length) return prev;
+            const next = Object.fromEntries(kept);
+            storageService.set(KV_KEY_DESKTOP_WALLPAPERS, next).catch(() => undefined);
+            return next;
+        });
+    }, [desktops, desktopsLoaded]);
+
+    const desktopWallpaper = activeDesktopId === PRIMARY_DESKTOP_ID ? undefined : desktopWallpapers[activeDesktopId];
+    const activeWallpaper = desktopWallpaper?.wallpaper || primaryWallpaper;
+    const activeManifest = desktopWallpaper ? desktopWallpaper.manifest : primaryManifest;
+
     useEffect(() => {
         const loadSettings = async () => {
             try {
@@ -124,23 +159,34 @@ export const WallpaperProvider: React.FC<WallpaperProviderProps> = ({ children }
         return unsubscribe;
     }, []);
 
-    const setWallpaper = useCallback(async (urlOrManifest: string | WallpaperManifest) => {
-        if (typeof urlOrManifest === 'string') {
-            // Image wallpaper - just a URL
-            setActiveWallpaperState(urlOrManifest);
-            setActiveManifest(null);
-            await storageService.set(KV_KEY_WALLPAPER, urlOrManifest);
-            await storageService.remove(KV_KEY_WALLPAPER_MANIFEST);
-        } else {
-            // Shader/scene wallpaper - full manifest
-            setActiveManifest(urlOrManifest);
-            if (urlOrManifest.preview) {
-                setActiveWallpaperState(urlOrManifest.preview);
+    const setWallpaper = useCallback(
+        async (urlOrManifest: string | WallpaperManifest) => {
+            if (activeDesktopId !== PRIMARY_DESKTOP_ID) {
+                const entry: DesktopWallpaper =
+                    typeof urlOrManifest === 'string'
+                        ? { wallpaper: urlOrManifest, manifest: null }
+                        : { wallpaper: urlOrManifest.preview || '', manifest: urlOrManifest };
+                const next = { ...desktopWallpapers, [activeDesktopId]: entry };
+                setDesktopWallpapers(next);
+                await storageService.set(KV_KEY_DESKTOP_WALLPAPERS, next);
+            } else if (typeof urlOrManifest === 'string') {
+                // Image wallpaper - just a URL
+                setPrimaryWallpaper(urlOrManifest);
+                setPrimaryManifest(null);
+                await storageService.set(KV_KEY_WALLPAPER, urlOrManifest);
+                await storageService.remove(KV_KEY_WALLPAPER_MANIFEST);
+            } else {
+                // Shader/scene wallpaper - full manifest
+                setPrimaryManifest(urlOrManifest);
+                if (urlOrManifest.preview) {
+                    setPrimaryWallpaper(urlOrManifest.preview);
+                }
+                await storageService.set(KV_KEY_WALLPAPER_MANIFEST, urlOrManifest);
+                await storageService.set(KV_KEY_WALLPAPER, urlOrManifest.preview || '');
             }
-            await storageService.set(KV_KEY_WALLPAPER_MANIFEST, urlOrManifest);
-            await storageService.set(KV_KEY_WALLPAPER, urlOrManifest.preview || '');
-        }
-    }, []);
+        },
+        [activeDesktopId, desktopWallpapers]
+    );
 
     const updateSettings = useCallback((update: Partial<WallpaperSettings>) => {
         setSettingsState(prev => {
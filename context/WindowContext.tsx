@@ -6,33 +6,80 @@
  *
  * @module context/WindowContext
  */
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react';
-import { WindowState } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback, useMemo } from 'react';
+import { AppConfig, WindowState } from '../types';
 import { getWindowStates, WindowStateRecord } from '../utils/fileSystem';
 import { storageService } from '../utils/storage';
 import { soundService } from '../utils/soundService';
 import { useAppRegistry } from './AppRegistryContext';
 import { useStartMenu } from './StartMenuContext';
+import { useVirtualDesktops } from './VirtualDesktopContext';
 import { usePhoneMode } from '../hooks/usePhoneMode';
 import { Z_INDEX } from '../utils/constants';
+import { getSnapRect, SnapSlot } from '../utils/snapLayouts';
+import type { WorkspaceWindow } from '../utils/workspaces';
 
 const KV_KEYS = {
     openWindows: 'windows15.os.openWindows',
     windowStates: 'windows15.os.windowStates',
 } as const;
 
+/**
+ * A window to reopen in the next session. Sessions saved before multi-instance
+ * windows stored plain app IDs, which mean instance 1.
+ */
+type OpenWindowRecord = { appId: string; instance: number };
+
+const toOpenWindowRecord = (saved: unknown): OpenWindowRecord | null => {
+    if (typeof saved === 'string') return { appId: saved, instance: 1 };
+    if (saved && typeof saved === 'object' && typeof (saved as OpenWindowRecord).appId === 'string') {
+        const { appId, instance } = saved as OpenWindowRecord;
+        return { appId, instance: typeof instance === 'number' && instance >= 1 ? instance : 1 };
+    }
+    return null;
+};
+
+const isSameInstance = (record: { appId: string; instance?: number }, appId: string, instance: number) =>
+    record.appId === appId && (record.instance ?? 1) === instance;
+
+/**
+ * Lowest instance number not taken by an open window of the app
+ */
+const getFreeInstance = (windows: WindowState[], appId: string): number => {
+    const taken = new Set(windows.filter(w => w.appId === appId).map(w => w.instance ?? 1));
+    let instance = 1;
+    while (taken.has(instance)) instance++;
+    return instance;
+};
+
+/**
+ * The app's window that was focused last
+ */
+const getTopWindow = (windows: WindowState[], appId: string): WindowState | undefined =>
+    windows.filter(w => w.appId === appId).sort((a, b) => b.zIndex - a.zIndex)[0];
+
 /**
  * Window management context interface
  */
 interface WindowContextType {
-    /** Currently open windows */
+    /** Currently open windows, on every virtual desktop */
     windows: WindowState[];
+    /** Open windows on the active virtual desktop */
+    desktopWindows: WindowState[];
     /**
-     * Open a new window for an application
+     * Open an application, or focus its most recently used window if it is already open.
+     * Focusing a window on another virtual desktop switches to that desktop.
      * @param appId - The registered application ID
      * @param contentProps - Optional props to pass to the app component
      */
     openWindow: (appId: string, contentProps?: Record<string, unknown>) => void;
+    /**
+     * Open another window of an application, even if it is already open.
+     * Apps marked `singleInstance` focus their existing window instead.
+     * @param appId - The registered application ID
+     * @param contentProps - Optional props to pass to the app component
+     */
+    openNewWindow: (appId: string, contentProps?: Record<string, unknown>) => void;
     /**
      * Close a window by ID
      * @param id - The window instance ID
@@ -66,6 +113,35 @@ interface WindowContextType {
      * @param position - New position coordinates
      */
     updateWindowPosition: (id: string, position: { x: number; y: number }) => void;
+    /**
+     * Tile a window into a snap slot of the work area
+     * @param id - The window instance ID
+     * @param slot - The slot to fill
+     * @param options - `groupId` joins the window to a snap group
+     */
+    snapWindow: (id: string, slot: SnapSlot, options?: { groupId?: string }) => void;
+    /**
+     * Take a window out of its snap slot, back to its size and position before snapping
+     * @param id - The window instance ID
+     */
+    unsnapWindow: (id: string) => void;
+    /**
+     * Minimize or restore every window of a snap group
+     * @param groupId - The snap group ID
+     * @param minimized - Whether to minimize or restore the group
+     */
+    setSnapGroupMinimized: (groupId: string, minimized: boolean) => void;
+    /**
+     * Move a window to another virtual desktop
+     * @param id - The window instance ID
+     * @param desktopId - The target desktop ID
+     */
+    moveWindowToDesktop: (id: string, desktopId: string) => void;
+    /**
+     * Replace the windows on the active desktop with a saved layout (see utils/workspaces)
+     * @param layout - Windows to open, back to front
+     */
+    restoreWindowLayout: (layout: WorkspaceWindow[]) => void;
     /**
      * Set dynamic title for a window (F148)
      * @param id - The window instance ID
@@ -124,6 +200,7 @@ interface WindowProviderProps {
 export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
     const { apps, getApp } = useAppRegistry();
     const { closeStartMenu } = useStartMenu();
+    const { desktops, activeDesktopId, isLoaded: desktopsLoaded, switchDesktop } = useVirtualDesktops();
     const isPhone = usePhoneMode();
 
     const [windows, setWindows] = useState<WindowState[]>([]);
@@ -131,8 +208,13 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
 
     const nextZIndexRef = useRef(Z_INDEX.WINDOW_BASE);
     const savedWindowStatesRef = useRef<WindowStateRecord[]>([]);
-    const openAppIdsRef = useRef<string[]>([]);
+    const openWindowsRef = useRef<OpenWindowRecord[]>([]);
     const sessionRestoredRef = useRef(false);
+    // Latest values for callbacks that run inside state updaters
+    const activeDesktopIdRef = useRef(activeDesktopId);
+    activeDesktopIdRef.current = activeDesktopId;
+    const windowsRef = useRef(windows);
+    windowsRef.current = windows;
 
     const getNextZIndex = () => nextZIndexRef.current++;
 
@@ -142,7 +224,7 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
             try {
                 const [savedStates, savedOpenApps] = await Promise.all([
                     storageService.get<WindowStateRecord[]>(KV_KEYS.windowStates),
-                    storageService.get<string[]>(KV_KEYS.openWindows),
+                    storageService.get<unknown[]>(KV_KEYS.openWindows),
                 ]);
 
                 if (Array.isArray(savedStates)) {
@@ -155,8 +237,10 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
                     }
                 }
 
-                if (Array.isArray(savedOpenApps) && savedOpenApps.length > 0) {
-                    openAppIdsRef.current = savedOpenApps;
+                if (Array.isArray(savedOpenApps)) {
+                    openWindowsRef.current = savedOpenApps
+                        .map(toOpenWindowRecord)
+                        .filter((record): record is OpenWindowRecord => record !== null);
                 }
             } catch (error) {
                 console.error('Failed to initialize window states:', error);
@@ -170,12 +254,13 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
     const persistWindowStates = useCallback((windowsToSave: WindowState[]) => {
         const states: WindowStateRecord[] = windowsToSave.map(w => ({
             appId: w.appId,
-            state: { position: w.position, size: w.size },
+            instance: w.instance ?? 1,
+            state: { position: w.position, size: w.size, desktopId: w.desktopId },
         }));
 
-        const existingAppIds = new Set(states.map(s => s.appId));
+        // Keep the geometry of closed instances for when they are opened again
         savedWindowStatesRef.current.forEach(saved => {
-            if (!existingAppIds.has(saved.appId)) {
+            if (!states.some(s => isSameInstance(s, saved.appId, saved.instance ?? 1))) {
                 states.push(saved);
             }
         });
@@ -185,58 +270,110 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
         storageService
             .set(
                 KV_KEYS.openWindows,
-                windowsToSave.map(w => w.appId)
+                windowsToSave.map((w): OpenWindowRecord => ({ appId: w.appId, instance: w.instance ?? 1 }))
             )
             .catch(() => undefined);
     }, []);
 
+    /**
+     * Create the window state for an instance, placed where that instance was last.
+     * New windows open on the active desktop unless `desktopId` says otherwise.
+     */
+    const createWindow = useCallback(
+        (
+            app: AppConfig,
+            instance: number,
+            options: {
+                contentProps?: Record<string, unknown>;
+                offset: number;
+                isMaximized: boolean;
+                desktopId?: string;
+            }
+        ): WindowState => {
+            const savedState = savedWindowStatesRef.current.find(s => isSameInstance(s, app.id, instance));
+            return {
+                id: globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2, 11),
+                appId: app.id,
+                instance,
+                title: instance === 1 ? app.title : `${app.title} (${instance})`,
+                icon: app.icon,
+                component: <app.component {...options.contentProps} />,
+                isOpen: true,
+                isMinimized: false,
+                isMaximized: options.isMaximized,
+                zIndex: getNextZIndex(),
+                desktopId: options.desktopId ?? activeDesktopIdRef.current,
+                position: savedState?.state?.position ?? { x: 50 + options.offset, y: 50 + options.offset },
+                size: savedState?.state?.size ?? {
+                    width: app.defaultWidth ?? 800,
+                    height: app.defaultHeight ?? 600,
+                },
+            };
+        },
+        []
+    );
+
     // Restore session
     useEffect(() => {
-        if (sessionRestoredRef.current || !isInitialized || apps.length === 0 || openAppIdsRef.current.length === 0)
+        if (sessionRestoredRef.current || !isInitialized || apps.length === 0 || openWindowsRef.current.length === 0)
             return;
         sessionRestoredRef.current = true;
 
-        const appsToRestore = openAppIdsRef.current.filter(appId => apps.find(a => a.id === appId));
+        const windowsToRestore = openWindowsRef.current.filter(({ appId }) => apps.find(a => a.id === appId));
 
-        appsToRestore.forEach((appId, index) => {
+        windowsToRestore.forEach(({ appId, instance }, index) => {
             setTimeout(() => {
                 const app = apps.find(a => a.id === appId);
                 if (!app) return;
 
-                const savedState = savedWindowStatesRef.current.find(s => s.appId === appId);
-
                 setWindows(prev => {
-                    if (prev.find(w => w.appId === appId)) return prev;
-
-                    const newWindow: WindowState = {
-                        id: globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2, 11),
-                        appId: app.id,
-                        title: app.title,
-                        icon: app.icon,
-                        component: <app.component />,
-                        isOpen: true,
-                        isMinimized: false,
-                        isMaximized: false,
-                        zIndex: getNextZIndex(),
-                        position: savedState?.state?.position ?? { x: 50 + index * 20, y: 50 + index * 20 },
-                        size: savedState?.state?.size ?? {
-                            width: app.defaultWidth ?? 800,
-                            height: app.defaultHeight ?? 600,
-                        },
-                    };
-                    return [...prev, newWindow];
+                    const isOpen = app.singleInstance
+                        ? prev.some(w => w.appId === appId)
+                        : prev.some(w => isSameInstance(w, appId, instance));
+                    if (isOpen) return prev;
+                    // Restored windows go back to the desktop they were on
+                    const desktopId = savedWindowStatesRef.current.find(s => isSameInstance(s, appId, instance))?.state
+                        ?.desktopId;
+                    return [
+                        ...prev,
+                        createWindow(app, instance, { offset: index * 20, isMaximized: false, desktopId }),
+                    ];
                 });
             }, index * 50);
         });
-    }, [apps, isInitialized]);
+    }, [apps, isInitialized, createWindow]);
+
+    /**
+     * Add a window for the app's lowest free instance number
+     */
+    const launchWindow = useCallback(
+        (prevWindows: WindowState[], app: AppConfig, contentProps?: Record<string, unknown>) => {
+            const newWindow = createWindow(app, getFreeInstance(prevWindows, app.id), {
+                contentProps,
+                offset: prevWindows.length * 20,
+                // Auto-maximize on phone-sized viewports (F226)
+                isMaximized: isPhone,
+            });
+            const newWindows = [...prevWindows, newWindow];
+            persistWindowStates(newWindows);
+            soundService.play('open');
+            return newWindows;
+        },
+        [createWindow, persistWindowStates, isPhone]
+    );
 
     const openWindow = useCallback(
         (appId: string, contentProps?: Record<string, unknown>) => {
             const app = getApp(appId);
             if (!app) return;
 
+            const existingDesktopId = getTopWindow(windowsRef.current, appId)?.desktopId;
+            if (existingDesktopId && existingDesktopId !== activeDesktopIdRef.current) {
+                switchDesktop(existingDesktopId);
+            }
+
             setWindows(prevWindows => {
-                const existing = prevWindows.find(w => w.appId === appId);
+                const existing = getTopWindow(prevWindows, appId);
                 if (existing) {
                     return prevWindows.map(w => {
                         if (w.id !== existing.id) return w;
@@ -248,38 +385,26 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
                         };
                     });
                 }
+                return launchWindow(prevWindows, app, contentProps);
+            });
+            closeStartMenu();
+        },
+        [getApp, launchWindow, closeStartMenu, switchDesktop]
+    );
 
-                const offset = prevWindows.length * 20;
-                const savedState = savedWindowStatesRef.current.find(s => s.appId === appId);
+    const openNewWindow = useCallback(
+        (appId: string, contentProps?: Record<string, unknown>) => {
+            const app = getApp(appId);
+            if (!app) return;
+            if (app.singleInstance) {
+                openWindow(appId, contentProps);
+                return;
+            }
 
-                // Auto-maximize on phone-sized viewports (F226)
-                const shouldMaximize = isPhone;
-
-                const newWindow: WindowState = {
-                    id: globalThis.crypto?.randomUUID?.() ?? Math.random().toString(36).slice(2, 11),
-                    appId: app.id,
-                    title: app.title,
-                    icon: app.icon,
-                    component: <app.component {...contentProps} />,
-                    isOpen: true,
-                    isMinimized: false,
-                    isMaximized: shouldMaximize,
-                    zIndex: getNextZIndex(),
-                    position: savedState?.state?.position ?? { x: 50 + offset, y: 50 + offset },
-                    size: savedState?.state?.size ?? {
-                        width: app.defaultWidth ?? 800,
-                        height: app.defaultHeight ?? 600,
-                    },
-                };
-
-                const newWindows = [...prevWindows, newWindow];
-                persistWindowStates(newWindows);
-                soundService.play('open');
-                return newWindows;
-            });
+            setWindows(prevWindows => launchWindow(prevWindows, app, contentProps));
             closeStartMenu();
         },
-        [getApp, persistWindowStates, closeStartMenu, isPhone]
+        [getApp, openWindow, launchWindow, closeStartMenu]
     );
 
     const closeWindow = useCallback(
@@ -287,10 +412,18 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
             setWindows(prev => {
                 const windowToClose = prev.find(w => w.id === id);
                 if (windowToClose) {
-                    const existingIndex = savedWindowStatesRef.current.findIndex(s => s.appId === windowToClose.appId);
+                    const instance = windowToClose.instance ?? 1;
+                    const existingIndex = savedWindowStatesRef.current.findIndex(s =>
+                        isSameInstance(s, windowToClose.appId, instance)
+                    );
                     const newRecord: WindowStateRecord = {
                         appId: windowToClose.appId,
-                        state: { position: windowToClose.position, size: windowToClose.size },
+                        instance,
+                        state: {
+                            position: windowToClose.position,
+                            size: windowToClose.size,
+                            desktopId: windowToClose.desktopId,
+                        },
                     };
 
                     if (existingIndex >= 0) {
@@ -345,7 +478,55 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
     const updateWindowPosition = useCallback(
         (id: string, position: { x: number; y: number }) => {
             setWindows(prev => {
-                const updated = prev.map(w => (w.id !== id ? w : { ...w, position }));
+                const updated = prev.map(w => {
+                    if (w.id !== id) return w;
+                    // Moving a snapped window takes it out of its slot and snap group
+                    const moved = w.position.x !== position.x || w.position.y !== position.y;
+                    return { ...w, position, snap: moved ? undefined : w.snap };
+                });
+                persistWindowStates(updated);
+                return updated;
+            });
+        },
+        [persistWindowStates]
+    );
+
+    const snapWindow = useCallback(
+        (id: string, slot: SnapSlot, options: { groupId?: string } = {}) => {
+            const { x, y, width, height } = getSnapRect(slot);
+            setWindows(prev => {
+                const updated = prev.map(w =>
+                    w.id !== id
+                        ? w
+                        : {
+                              ...w,
+                              position: { x, y },
+                              size: { width, height },
+                              isMaximized: false,
+                              isMinimized: false,
+                              zIndex: getNextZIndex(),
+                              snap: {
+                                  slot,
+                                  groupId: options.groupId,
+                                  restore: w.snap?.restore ?? { position: w.position, size: w.size },
+                              },
+                          }
+                );
+                persistWindowStates(updated);
+                return updated;
+            });
+        },
+        [persistWindowStates]
+    );
+
+    const unsnapWindow = useCallback(
+        (id: string) => {
+            setWindows(prev => {
+                const updated = prev.map(w => {
+                    if (w.id !== id || !w.snap) return w;
+                    const { position, size } = w.snap.restore;
+                    return { ...w, position, size, snap: undefined };
+                });
                 persistWindowStates(updated);
                 return updated;
             });
@@ -353,6 +534,76 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
         [persistWindowStates]
     );
 
+    const setSnapGroupMinimized = useCallback((groupId: string, minimized: boolean) => {
+        setWindows(prev => {
+            // Restored members come to the front in their previous stacking order
+            const members = prev
+                .filter(w => w.snap?.groupId === groupId)
+                .sort((a, b) => a.zIndex - b.zIndex)
+                .map(w => w.id);
+            const zIndexes = new Map(minimized ? [] : members.map(id => [id, getNextZIndex()]));
+            return prev.map(w =>
+                members.includes(w.id) ? { ...w, isMinimized: minimized, zIndex: zIndexes.get(w.id) ?? w.zIndex } : w
+            );
+        });
+        soundService.play('minimize');
+    }, []);
+
+    const moveWindowToDesktop = useCallback(
+        (id: string, desktopId: string) => {
+            setWindows(prev => {
+                const updated = prev.map(w => (w.id === id ? { ...w, desktopId } : w));
+                persistWindowStates(updated);
+                return updated;
+            });
+        },
+        [persistWindowStates]
+    );
+
+    const restoreWindowLayout = useCallback(
+        (layout: WorkspaceWindow[]) => {
+            setWindows(prev => {
+                const updated = prev.filter(w => w.desktopId !== activeDesktopIdRef.current);
+                layout.forEach(entry => {
+                    const app = getApp(entry.appId);
+                    // Single-instance apps already open on another desktop stay there
+                    if (!app || (app.singleInstance && updated.some(w => w.appId === app.id))) return;
+                    const instance = updated.some(w => isSameInstance(w, app.id, entry.instance))
+                        ? getFreeInstance(updated, app.id)
+                        : entry.instance;
+                    updated.push({
+                        ...createWindow(app, instance, { offset: 0, isMaximized: entry.isMaximized }),
+                        position: entry.position,
+                        size: entry.size,
+                    });
+                });
+                persistWindowStates(updated);
+                return updated;
+            });
+            soundService.play('open');
+        },
+        [getApp, createWindow, persistWindowStates]
+    );
+
+    // Windows left on a deleted desktop move to the active one
+    useEffect(() => {
+        if (!desktopsLoaded) return;
+        setWindows(prev => {
+            const orphaned = prev.some(w => !desktops.some(d => d.id === w.desktopId));
+            if (!orphaned) return prev;
+            const updated = prev.map(w =>
+                desktops.some(d => d.id === w.desktopId) ? w : { ...w, desktopId: activeDesktopId }
+            );
+            persistWindowStates(updated);
+            return updated;
+        });
+    }, [desktops, activeDesktopId, desktopsLoaded, persistWindowStates]);
+
+    const desktopWindows = useMemo(
+        () => windows.filter(w => w.desktopId === activeDesktopId),
+        [windows, activeDesktopId]
+    );
+
     const setWindowTitle = useCallback((id: string, title: string | null) => {
         setWindows(prev => prev.map(w => (w.id === id ? { ...w, dynamicTitle: title } : w)));
     }, []);
@@ -371,13 +622,20 @@ export const WindowProvider: React.FC<WindowProviderProps> = ({ children }) => {
         <WindowContext.Provider
             value={{
                 windows,
+                desktopWindows,
                 openWindow,
+                openNewWindow,
                 closeWindow,
                 minimizeWindow,
                 toggleMaximizeWindow,
                 focusWindow,
                 resizeWindow,
                 updateWindowPosition,
+                snapWindow,
+                unsnapWindow,
+                setSnapGroupMinimized,
+                moveWindowToDesktop,
+                restoreWindowLayout,
                 setWindowTitle,
                 setWindowIcon,
                 setWindowBadge,
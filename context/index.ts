@@ -15,6 +15,7 @@ export { OSProvider, useOS } from './OSContext';
 // Individual focused contexts (can be used directly for better tree-shaking)
 export { AppRegistryProvider, useAppRegistry } from './AppRegistryContext';
 export { WallpaperProvider, useWallpaper } from './WallpaperContext';
+export { VirtualDesktopProvider, useVirtualDesktops, PRIMARY_DESKTOP_ID } from './VirtualDesktopContext';
 export { StartMenuProvider, useStartMenu } from './StartMenuContext';
 export { WindowProvider, useWindowManager } from './WindowContext';
 export { LocalizationProvider, useLocalization } from './LocalizationContext';
@@ -181,6 +181,6 @@ test.describe('Start Menu Keyboard Navigation', () => {
         await searchInput.press('Enter');
 
         // Should still be in search view with no results message
-        await expect(page.locator('text="No apps found matching"')).toBeVisible();
+        await expect(page.locator('text="Nothing found matching"')).toBeVisible();
     });
 });
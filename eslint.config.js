@@ -37,6 +37,7 @@ export default [
             globals: {
                 // Browser globals
                 window: 'readonly',
+                Window: 'readonly',
                 document: 'readonly',
                 navigator: 'readonly',
                 console: 'readonly',
@@ -53,7 +54,10 @@ export default [
                 HTMLSelectElement: 'readonly',
                 HTMLDivElement: 'readonly',
                 HTMLCanvasElement: 'readonly',
+                HTMLPreElement: 'readonly',
                 HTMLIFrameElement: 'readonly',
+                Element: 'readonly',
+                DOMParser: 'readonly',
                 MouseEvent: 'readonly',
                 KeyboardEvent: 'readonly',
                 Event: 'readonly',
@@ -94,8 +98,12 @@ export default [
                 ServiceWorkerRegistration: 'readonly',
                 IDBDatabase: 'readonly',
                 IDBOpenDBRequest: 'readonly',
+                IDBObjectStore: 'readonly',
+                IDBRequest: 'readonly',
+                IDBTransactionMode: 'readonly',
                 EventListener: 'readonly',
                 BroadcastChannel: 'readonly',
+                WebSocket: 'readonly',
                 __dirname: 'readonly',
                 // WebGPU globals
                 GPUDevice: 'readonly',
@@ -121,6 +129,9 @@ export default [
                 ImageData: 'readonly',
                 // Audio globals
                 AudioContext: 'readonly',
+                BaseAudioContext: 'readonly',
+                GainNode: 'readonly',
+                Gamepad: 'readonly',
                 AnalyserNode: 'readonly',
                 MediaStream: 'readonly',
                 MediaStreamAudioSourceNode: 'readonly',
@@ -5,7 +5,10 @@
 export { useAsyncAction } from './useAsyncAction';
 export type { UseAsyncActionResult, UseAsyncActionOptions } from './useAsyncAction';
 export { useDebounce } from './useDebounce';
+export { useDesktopSearch } from './useDesktopSearch';
 export { useAppEvent, useAppEmit, useEventBus } from './useEventBus';
+export { useIntentHandler, useIntentResult } from './useIntent';
+export { usePermission } from './usePermission';
 export { useHotkey, useHotkeys, getShortcutLabel } from './useHotkeys';
 export type { UseHotkeysOptions } from './useHotkeys';
 export { useStandardHotkeys } from './useStandardHotkeys';
@@ -25,6 +28,8 @@ export { useWindowResize } from './useWindowResize';
 export type { Size, ResizeDirection, UseWindowResizeOptions, UseWindowResizeResult } from './useWindowResize';
 export { useWindowPersistence } from './useWindowPersistence';
 export type { UseWindowPersistenceResult } from './useWindowPersistence';
+export { useWorkspaces } from './useWorkspaces';
+export type { UseWorkspacesResult } from './useWorkspaces';
 export { useTerminalPreferences } from './useTerminalPreferences';
 export { useContextMenu } from './useContextMenu';
 export type {
@@ -34,6 +39,11 @@ export type {
     UseContextMenuResult,
 } from './useContextMenu';
 export { useCopyToClipboard } from './useCopyToClipboard';
+export { useCalendarEvents } from './useCalendarEvents';
+export type { UseCalendarEventsOptions, UseCalendarEventsResult } from './useCalendarEvents';
+export { useCalendarReminders } from './useCalendarReminders';
+export { useMailSync } from './useMailSync';
+export type { UseMailSyncResult } from './useMailSync';
 export { useNotification } from './useNotification';
 export type { NotificationOptions, UseNotificationReturn } from './useNotification';
 export { useSearchFilter } from './useSearchFilter';
@@ -57,5 +67,7 @@ export { usePhoneMode } from './usePhoneMode';
 export { useOrientation } from './useOrientation';
 export type { Orientation } from './useOrientation';
 export { useViewportCssVars } from './useViewportCssVars';
+export { useWindowTiling } from './useWindowTiling';
+export type { SnapAssistState } from './useWindowTiling';
 export { useShareTarget, useShareTargetWithClear, formatSharedContent } from './useShareTarget';
 export type { SharedContent } from './useShareTarget';
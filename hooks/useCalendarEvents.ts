@@ -0,0 +1,77 @@
+/**
+ * useCalendarEvents - Calendar events from the cloud-synced `calendarEvents` table
+ *
+ * Events come from a live query, so the Calendar, the desktop widget and search all
+ * follow edits made in any of them or synced from another device.
+ *
+ * @module hooks/useCalendarEvents
+ *
+ * @example
+ * ```tsx
+ * const { events, setEvents } = useCalendarEvents({ seed: seedEvents });
+ * setEvents(deleteOccurrence(events, occurrence));
+ *
+ * // Only events that may occur this month
+ * const { events } = useCalendarEvents({ range: { start: '2026-03-01', end: '2026-03-31' } });
+ * ```
+ */
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useDb } from '../context/DbContext';
+import { ensureArray } from '../utils/ensureArray';
+import { useDexieLiveQuery } from '../utils/storage/react';
+import type { CalendarEventRecord } from '../utils/storage/db';
+import {
+    listCalendarEvents,
+    saveCalendarEvents,
+    seedCalendarEvents,
+    type CalendarEvent,
+} from '../utils/calendarEvents';
+
+export interface UseCalendarEventsOptions {
+    /** Only load events with an occurrence that may fall in this range (YYYY-MM-DD, inclusive) */
+    range?: { start: string; end: string };
+    /** Sample events for the calendar's first run (see `seedCalendarEvents`); give them fixed ids */
+    seed?: () => CalendarEvent[];
+}
+
+export interface UseCalendarEventsResult {
+    /** Events sorted by their first day */
+    events: CalendarEventRecord[];
+    isLoading: boolean;
+    /** Store an edited copy of `events`: changed events are written and missing ones deleted */
+    setEvents: (events: CalendarEvent[]) => void;
+}
+
+export function useCalendarEvents({ range, seed }: UseCalendarEventsOptions = {}): UseCalendarEventsResult {
+    const db = useDb();
+    const start = range?.start;
+    const end = range?.end;
+    const { value, isLoading } = useDexieLiveQuery(
+        () => listCalendarEvents(db, start && end ? { start, end } : undefined),
+        [db, start, end]
+    );
+    const events = useMemo(() => ensureArray(value), [value]);
+
+    // Try once per mount; seedCalendarEvents decides whether this is the first run
+    const seedRef = useRef(seed);
+    const hasSeededRef = useRef(false);
+    useEffect(() => {
+        const seedFn = seedRef.current;
+        if (!seedFn || isLoading || hasSeededRef.current) return;
+        hasSeededRef.current = true;
+        seedCalendarEvents(db, seedFn).catch(error =>
+            console.error('[useCalendarEvents] Error seeding events:', error)
+        );
+    }, [db, isLoading]);
+
+    const setEvents = useCallback(
+        (next: CalendarEvent[]) => {
+            saveCalendarEvents(db, events, next).catch(error =>
+                console.error('[useCalendarEvents] Error saving events:', error)
+            );
+        },
+        [db, events]
+    );
+
+    return { events, isLoading, setEvents };
+}
@@ -0,0 +1,103 @@
+/**
+ * useCalendarReminders - Schedule Calendar reminders in the notification center
+ *
+ * Reminders due in the next week are scheduled through NotificationContext, and the
+ * horizon moves forward on an hourly re-check. CalendarReminderScheduler mounts this
+ * once at the top level, so reminders fire even when the Calendar is closed.
+ * Pending reminders are matched to events by time, title and message: when an event
+ * moves or is deleted its stale reminders are dismissed and new ones scheduled.
+ *
+ * @module hooks/useCalendarReminders
+ */
+import { useEffect, useRef } from 'react';
+import { useDb, useLocalization, useNotificationCenter } from '../context';
+import { useTranslation } from './useTranslation';
+import { pad2 } from '../utils/dateUtils';
+import {
+    formatReminderLead,
+    getUpcomingReminders,
+    type CalendarEvent,
+    type CalendarReminder,
+} from '../utils/calendarEvents';
+
+/** How far ahead reminders are scheduled */
+const REMINDER_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Re-check this often, so reminders further out get scheduled as the horizon moves */
+const RESYNC_INTERVAL_MS = 60 * 60 * 1000;
+
+const CALENDAR_APP_ID = 'calendar';
+
+const toHm = (date: Date) => `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+
+const reminderKey = (at: number, title: string, message: string) => `${at}\n${title}\n${message}`;
+
+/**
+ * Keep scheduled notifications in step with the reminders of `events`
+ * @param events - The calendar's events, or null while they are loading
+ */
+export function useCalendarReminders(events: CalendarEvent[] | null): void {
+    const db = useDb();
+    const { schedule, dismiss } = useNotificationCenter();
+    const { formatTimeShortFromHm } = useLocalization();
+    const { t } = useTranslation('calendar');
+    // Serialize syncs so a quick series of edits cannot schedule a reminder twice
+    const syncRef = useRef<Promise<void>>(Promise.resolve());
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const describe = ({ occurrence, minutesBefore }: CalendarReminder) => {
+            const { event, start } = occurrence;
+            const time = formatTimeShortFromHm(toHm(start));
+            const when = event.allDay
+                ? t('reminderAllDay')
+                : minutesBefore === 0
+                  ? t('reminderNow', { time })
+                  : t('reminderIn', { lead: formatReminderLead(minutesBefore), time });
+            return event.location ? `${when} - ${event.location}` : when;
+        };
+
+        const sync = async () => {
+            if (cancelled || !events) return;
+            const now = Date.now();
+            const wanted = new Map(
+                getUpcomingReminders(events, new Date(now), new Date(now + REMINDER_HORIZON_MS)).map(reminder => {
+                    const message = describe(reminder);
+                    const title = reminder.occurrence.event.title;
+                    return [reminderKey(reminder.at.getTime(), title, message), { reminder, title, message }];
+                })
+            );
+            const pending = await db.notifications
+                .where('scheduledFor')
+                .above(now)
+                .filter(notification => notification.appId === CALENDAR_APP_ID && !notification.triggeredAt)
+                .toArray();
+            if (cancelled) return;
+
+            const scheduled = new Set<string>();
+            for (const notification of pending) {
+                const key = reminderKey(notification.scheduledFor ?? 0, notification.title, notification.message);
+                if (wanted.has(key) && !scheduled.has(key)) scheduled.add(key);
+                else await dismiss(notification.id);
+            }
+            for (const [key, { reminder, title, message }] of wanted) {
+                if (scheduled.has(key)) continue;
+                await schedule(reminder.at, title, message, { appId: CALENDAR_APP_ID });
+            }
+        };
+
+        const queueSync = () => {
+            syncRef.current = syncRef.current.then(sync).catch(error => {
+                console.error('Failed to schedule calendar reminders:', error);
+            });
+        };
+
+        queueSync();
+        const interval = setInterval(queueSync, RESYNC_INTERVAL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [db, events, schedule, dismiss, formatTimeShortFromHm, t]);
+}
@@ -0,0 +1,60 @@
+/**
+ * useDesktopSearch - Live desktop-wide search results for a query
+ *
+ * The shared search service is started by the first non-empty query, so nothing is
+ * indexed until someone searches. Results refresh whenever the index changes,
+ * including while it is still being built.
+ *
+ * @module hooks/useDesktopSearch
+ *
+ * @example
+ * ```tsx
+ * const { results, isIndexing } = useDesktopSearch(query, { limit: 20 });
+ * ```
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { useDb } from '../context/DbContext';
+import { getSearchService } from '../utils/search';
+import type { DesktopSearchOptions, DesktopSearchResult, SearchService } from '../utils/search';
+
+interface UseDesktopSearchResult {
+    results: DesktopSearchResult[];
+    /** Whether the index is still being built for the first time */
+    isIndexing: boolean;
+}
+
+export function useDesktopSearch(query: string, options: DesktopSearchOptions = {}): UseDesktopSearchResult {
+    const db = useDb();
+    const [service, setService] = useState<SearchService | null>(null);
+    const [version, setVersion] = useState(0);
+    const [isIndexing, setIsIndexing] = useState(false);
+    const hasQuery = query.trim() !== '';
+
+    useEffect(() => {
+        if (hasQuery && !service) setService(getSearchService(db));
+    }, [db, hasQuery, service]);
+
+    useEffect(() => {
+        if (!service) return;
+        let active = true;
+        setIsIndexing(true);
+        void service.ready.then(() => {
+            if (active) setIsIndexing(false);
+        });
+        const unsubscribe = service.subscribe(() => setVersion(v => v + 1));
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [service]);
+
+    const { limit, categories } = options;
+    const results = useMemo(
+        () => (service && hasQuery ? service.search(query, { limit, categories }) : []),
+        // `version` re-runs the search when the index changes
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [service, query, hasQuery, limit, categories, version]
+    );
+
+    return { results, isIndexing };
+}
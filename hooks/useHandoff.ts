@@ -10,6 +10,21 @@ import { usePersistedState } from './usePersistedState';
  */
 const DEVICE_ID_KEY = 'windows15_device_id';
 
+/** Persisted-state key of the human-readable device label (F195) */
+export const DEVICE_LABEL_KEY = 'windows15_device_label';
+
+/**
+ * Read this device's ID from localStorage, generating it on first use
+ */
+export function getDeviceId(): string {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+}
+
 /**
  * useDeviceId - Hook for managing device identity in localStorage (local-only)
  *
@@ -23,12 +38,7 @@ function useDeviceId(): { deviceId: string; isLoading: boolean } {
 
     useEffect(() => {
         // Read from localStorage (synchronous, but we use effect to ensure SSR safety)
-        let id = localStorage.getItem(DEVICE_ID_KEY);
-        if (!id) {
-            id = crypto.randomUUID();
-            localStorage.setItem(DEVICE_ID_KEY, id);
-        }
-        setDeviceId(id);
+        setDeviceId(getDeviceId());
         setIsLoading(false);
     }, []);
 
@@ -46,7 +56,7 @@ export function useHandoff() {
     const { deviceId, isLoading: isIdLoading } = useDeviceId();
 
     // Get or generate device label (F195)
-    const { value: deviceLabel, setValue: setDeviceLabel } = usePersistedState('windows15_device_label', 'Browser');
+    const { value: deviceLabel, setValue: setDeviceLabel } = usePersistedState(DEVICE_LABEL_KEY, 'Browser');
 
     // Get or generate device category (F195)
     const { value: deviceCategory, setValue: setDeviceCategory } = usePersistedState(
@@ -0,0 +1,78 @@
+/**
+ * Hooks for apps that receive intents through their `intent` prop
+ * @module hooks/useIntent
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isIntent, resolveIntent } from '../utils/intents';
+import type { Intent, IntentAction, IntentResults, ResultIntentAction } from '../utils/intents';
+
+/**
+ * Run a handler once for each received intent of the given action.
+ *
+ * @param intent - The app's `intent` prop
+ * @param action - Action to handle
+ * @param handler - Called with the intent; the latest handler is always used
+ *
+ * @example
+ * ```tsx
+ * useIntentHandler(intent, 'share:url', ({ data }) => navigateTo(data.url));
+ * ```
+ */
+export function useIntentHandler<A extends IntentAction>(
+    intent: Intent | undefined,
+    action: A,
+    handler: (intent: Intent<A>) => void
+): void {
+    const handlerRef = useRef(handler);
+    handlerRef.current = handler;
+    const handledIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!isIntent(intent, action) || handledIdRef.current === intent.id) return;
+        handledIdRef.current = intent.id;
+        handlerRef.current(intent);
+    }, [intent, action]);
+}
+
+/**
+ * Track an intent whose caller awaits a result.
+ * The intent is cancelled if the app unmounts (e.g. its window closes) or
+ * receives another intent before answering.
+ *
+ * @param intent - The app's `intent` prop
+ * @param action - Action the app answers
+ * @returns The unanswered intent (or null) and functions to answer or cancel it
+ *
+ * @example
+ * ```tsx
+ * const { pending, reply, cancel } = useIntentResult(intent, 'pick:color');
+ * {pending && <button onClick={() => reply({ color: hex })}>Use color</button>}
+ * ```
+ */
+export function useIntentResult<A extends ResultIntentAction>(intent: Intent | undefined, action: A) {
+    const [answeredId, setAnsweredId] = useState<string | null>(null);
+    const pending = isIntent(intent, action) && intent.expectsResult && answeredId !== intent.id ? intent : null;
+
+    useEffect(() => {
+        if (!pending) return;
+        return () => resolveIntent(pending, null);
+    }, [pending]);
+
+    const reply = useCallback(
+        (result: IntentResults[A]) => {
+            if (!pending) return;
+            resolveIntent(pending, result);
+            setAnsweredId(pending.id);
+        },
+        [pending]
+    );
+
+    const cancel = useCallback(() => {
+        if (!pending) return;
+        resolveIntent(pending, null);
+        setAnsweredId(pending.id);
+    }, [pending]);
+
+    return { pending, reply, cancel };
+}
@@ -0,0 +1,133 @@
+/**
+ * useMailSync - Keep mail accounts synced while Mail is open
+ *
+ * Opens one transport per account and syncs each account on open, every few minutes
+ * and whenever its server reports a change. The open transports are also used for
+ * changes that go to the server: read flags, moves, deletes and sending. Mail rules
+ * with a notify action post to the notification center.
+ *
+ * @module hooks/useMailSync
+ *
+ * @example
+ * ```tsx
+ * const { accounts, isSyncing, syncNow, getRemote } = useMailSync();
+ * await moveEmail(db, email, 'trash', getRemote(email.accountId));
+ * ```
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useDb } from '../context/DbContext';
+import { useNotificationCenter } from '../context/NotificationContext';
+import { ensureArray } from '../utils/ensureArray';
+import { createMailTransport, syncMailAccount, type MailRemote, type MailTransport } from '../utils/mail';
+import type { MailAccountRecord } from '../utils/storage/db';
+import { useDexieLiveQuery } from '../utils/storage/react';
+
+/** Sync this often even without change notifications from the server */
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface UseMailSyncResult {
+    accounts: MailAccountRecord[];
+    isSyncing: boolean;
+    /** Sync every account now */
+    syncNow: () => Promise<void>;
+    /** An account with its open transport, or null for messages of no (or a removed) account */
+    getRemote: (accountId: string | undefined) => MailRemote | null;
+}
+
+export function useMailSync(): UseMailSyncResult {
+    const db = useDb();
+    const { notify } = useNotificationCenter();
+    const { value } = useDexieLiveQuery(() => db.$mailAccounts.orderBy('createdAt').toArray(), [db]);
+    const accounts = useMemo(() => ensureArray(value), [value]);
+    const transportsRef = useRef(new Map<string, { version: number; transport: MailTransport }>());
+    const runningRef = useRef(new Map<string, Promise<void>>());
+    const [runningCount, setRunningCount] = useState(0);
+
+    /** The account's transport, replaced when the account has been edited */
+    const getTransport = useCallback((account: MailAccountRecord): MailTransport => {
+        const transports = transportsRef.current;
+        const current = transports.get(account.id);
+        if (current?.version === account.updatedAt) return current.transport;
+        void current?.transport.close();
+        const transport = createMailTransport(account);
+        transports.set(account.id, { version: account.updatedAt, transport });
+        return transport;
+    }, []);
+
+    const syncAccount = useCallback(
+        (accountId: string): Promise<void> => {
+            const running = runningRef.current.get(accountId);
+            if (running) return running;
+
+            const run = async () => {
+                // Sync from the stored record: the sync state changes with every sync
+                const account = await db.$mailAccounts.get(accountId);
+                if (!account) return;
+                try {
+                    await syncMailAccount(db, account, getTransport(account), {
+                        onNotify: (email, rule) =>
+                            void notify(rule.name || 'Mail rule', `${email.from}: ${email.subject || '(no subject)'}`, {
+                                appId: 'mail',
+                            }),
+                    });
+                } catch {
+                    // Saved as the account's lastError and shown in Mail
+                }
+            };
+            setRunningCount(count => count + 1);
+            const task = run().finally(() => {
+                runningRef.current.delete(accountId);
+                setRunningCount(count => count - 1);
+            });
+            runningRef.current.set(accountId, task);
+            return task;
+        },
+        [db, getTransport, notify]
+    );
+
+    // Sync state updates change `accounts` too; only added, edited or removed accounts reconnect
+    const connectionKey = accounts.map(account => `${account.id}:${account.updatedAt}`).join(',');
+
+    useEffect(() => {
+        const transports = transportsRef.current;
+        const ids = new Set(accounts.map(account => account.id));
+        for (const [id, entry] of transports) {
+            if (ids.has(id)) continue;
+            void entry.transport.close();
+            transports.delete(id);
+        }
+
+        const stopWatching = accounts.map(account => {
+            void syncAccount(account.id);
+            return getTransport(account).watch?.(() => void syncAccount(account.id)) ?? (() => {});
+        });
+        const interval = setInterval(() => accounts.forEach(account => void syncAccount(account.id)), SYNC_INTERVAL_MS);
+        return () => {
+            stopWatching.forEach(stop => stop());
+            clearInterval(interval);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [connectionKey, getTransport, syncAccount]);
+
+    useEffect(() => {
+        const transports = transportsRef.current;
+        return () => {
+            transports.forEach(entry => void entry.transport.close());
+            transports.clear();
+        };
+    }, []);
+
+    const syncNow = useCallback(async () => {
+        await Promise.all(accounts.map(account => syncAccount(account.id)));
+    }, [accounts, syncAccount]);
+
+    const getRemote = useCallback(
+        (accountId: string | undefined): MailRemote | null => {
+            const account = accountId ? accounts.find(candidate => candidate.id === accountId) : undefined;
+            return account ? { account, transport: getTransport(account) } : null;
+        },
+        [accounts, getTransport]
+    );
+
+    return { accounts, isSyncing: runningCount > 0, syncNow, getRemote };
+}
@@ -0,0 +1,45 @@
+/**
+ * usePermission - Live state of an app permission, and a function to request it
+ *
+ * The state updates as soon as the decision changes anywhere (a prompt, or
+ * Settings > Apps), so components can stop using a service the moment it is revoked.
+ *
+ * @module hooks/usePermission
+ *
+ * @example
+ * ```tsx
+ * const microphone = usePermission('wallpaperstudio', 'microphone');
+ * const enable = async () => {
+ *     if (await microphone.request()) startListening();
+ * };
+ * {microphone.state === 'denied' && <p>Microphone blocked in Settings</p>}
+ * ```
+ */
+import { useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useDb } from '../context/DbContext';
+import { useAppRegistry } from '../context/AppRegistryContext';
+import { getPermissionState, requestPermission } from '../utils/permissions';
+import type { Permission, PermissionState } from '../utils/permissions';
+
+interface UsePermissionResult {
+    /** Current decision, or undefined while loading */
+    state: PermissionState | undefined;
+    /** Whether the permission is currently granted */
+    granted: boolean;
+    /** Prompt the user if they have not decided yet; resolves to whether it is granted */
+    request: () => Promise<boolean>;
+}
+
+export function usePermission(appId: string, permission: Permission): UsePermissionResult {
+    const db = useDb();
+    const { getApp } = useAppRegistry();
+    const state = useLiveQuery(() => getPermissionState(db, appId, permission), [db, appId, permission]);
+
+    const request = useCallback(async () => {
+        const app = getApp(appId);
+        return app ? requestPermission(db, app, permission) : false;
+    }, [db, getApp, appId, permission]);
+
+    return { state, granted: state === 'granted', request };
+}
@@ -11,9 +11,9 @@
  *
  * @example
  * ```tsx
- * const { items: events, setItems: setEvents, isLoading } = useSeededCollection(
- *   STORAGE_KEYS.calendarEvents,
- *   seedEvents
+ * const { items: recipes, setItems: setRecipes, isLoading } = useSeededCollection(
+ *   'windows15.recipes',
+ *   seedRecipes
  * );
  * ```
  *
@@ -0,0 +1,175 @@
+/**
+ * useWindowTiling - Desktop-side window tiling: snap zones, snap assist and snap keys
+ *
+ * Listens for title bar drags and snap layout picks from windows, snaps the window,
+ * and when the snap starts a layout, keeps a snap assist state that offers the other
+ * windows for the layout's empty slots. Windows placed through snap assist share a
+ * snap group.
+ *
+ * @module hooks/useWindowTiling
+ *
+ * @example
+ * ```tsx
+ * const { snapZone, snapAssist, fillSnapAssistSlot, dismissSnapAssist, snapFocusedWindow } = useWindowTiling();
+ *
+ * useHotkeys({ 'meta+left': () => snapFocusedWindow('left') });
+ * ```
+ */
+import { useCallback, useState } from 'react';
+import { useWindowManager } from '../context/WindowContext';
+import { WindowState } from '../types';
+import {
+    SNAP_LAYOUTS,
+    detectSnapZone,
+    findSnapLayout,
+    getKeyboardSnapTarget,
+    type SnapDirection,
+    type SnapLayout,
+    type SnapSlot,
+    type SnapZone,
+} from '../utils/snapLayouts';
+import { generateUuid } from '../utils/uuid';
+import { useAppEvent } from './useEventBus';
+
+export interface SnapAssistState {
+    layout: SnapLayout;
+    groupId: string;
+    /** Slots still to fill, in order; the first one is offered next */
+    emptySlots: SnapSlot[];
+    /** Windows already placed in the layout */
+    placedWindowIds: string[];
+}
+
+interface UseWindowTilingResult {
+    /** Zone under the pointer while a window is dragged */
+    snapZone: SnapZone;
+    snapAssist: SnapAssistState | null;
+    /** Windows snap assist can offer for the next empty slot */
+    snapAssistCandidates: WindowState[];
+    /** Put a window in the next empty slot of the layout */
+    fillSnapAssistSlot: (windowId: string) => void;
+    dismissSnapAssist: () => void;
+    /** Move the focused window as Win+Arrow does */
+    snapFocusedWindow: (direction: SnapDirection) => void;
+}
+
+export function useWindowTiling(): UseWindowTilingResult {
+    // Only windows on the active virtual desktop take part in tiling
+    const {
+        desktopWindows: windows,
+        snapWindow,
+        unsnapWindow,
+        toggleMaximizeWindow,
+        minimizeWindow,
+    } = useWindowManager();
+    const [snapZone, setSnapZone] = useState<SnapZone>('none');
+    const [snapAssist, setSnapAssist] = useState<SnapAssistState | null>(null);
+
+    /**
+     * Snap a window and, when it starts a layout with room for more windows, open snap assist
+     */
+    const snapIntoLayout = useCallback(
+        (windowId: string, slot: SnapSlot, layout: SnapLayout | undefined) => {
+            const groupId = generateUuid();
+            snapWindow(windowId, slot, { groupId });
+
+            const emptySlots = layout?.slots.filter(s => s !== slot) ?? [];
+            const hasCandidates = windows.some(w => w.id !== windowId);
+            setSnapAssist(
+                layout && emptySlots.length > 0 && hasCandidates
+                    ? { layout, groupId, emptySlots, placedWindowIds: [windowId] }
+                    : null
+            );
+        },
+        [snapWindow, windows]
+    );
+
+    // Listen for window drag position updates (F212)
+    useAppEvent('window:drag:move', ({ x, y, isMaximized }) => {
+        setSnapZone(isMaximized ? 'none' : detectSnapZone({ x, y }));
+    });
+
+    // Listen for window drag end to apply snap (F212)
+    useAppEvent('window:drag:end', ({ windowId }) => {
+        if (snapZone === 'top') {
+            toggleMaximizeWindow(windowId);
+        } else if (snapZone !== 'none') {
+            snapIntoLayout(windowId, snapZone, findSnapLayout([snapZone]));
+        }
+        setSnapZone('none');
+    });
+
+    // Slots picked in a window's snap layouts flyout
+    useAppEvent('window:snap', ({ windowId, slot, layoutId }) => {
+        snapIntoLayout(
+            windowId,
+            slot,
+            SNAP_LAYOUTS.find(layout => layout.id === layoutId)
+        );
+    });
+
+    const snapAssistCandidates = snapAssist
+        ? windows.filter(w => !snapAssist.placedWindowIds.includes(w.id)).sort((a, b) => b.zIndex - a.zIndex)
+        : [];
+
+    const fillSnapAssistSlot = useCallback(
+        (windowId: string) => {
+            if (!snapAssist) return;
+            const [slot, ...emptySlots] = snapAssist.emptySlots;
+            if (!slot) return;
+            snapWindow(windowId, slot, { groupId: snapAssist.groupId });
+
+            const placedWindowIds = [...snapAssist.placedWindowIds, windowId];
+            const hasCandidates = windows.some(w => !placedWindowIds.includes(w.id));
+            setSnapAssist(
+                emptySlots.length > 0 && hasCandidates ? { ...snapAssist, emptySlots, placedWindowIds } : null
+            );
+        },
+        [snapAssist, snapWindow, windows]
+    );
+
+    const dismissSnapAssist = useCallback(() => setSnapAssist(null), []);
+
+    const snapFocusedWindow = useCallback(
+        (direction: SnapDirection) => {
+            const focused = windows
+                .filter(w => !w.isMinimized)
+                .reduce<WindowState | null>((top, w) => (!top || w.zIndex > top.zIndex ? w : top), null);
+            if (!focused) return;
+
+            const target = getKeyboardSnapTarget(
+                { snapSlot: focused.snap?.slot, isMaximized: focused.isMaximized },
+                direction
+            );
+            switch (target) {
+                case 'maximize':
+                    if (!focused.isMaximized) toggleMaximizeWindow(focused.id);
+                    break;
+                case 'restore':
+                    if (focused.isMaximized) toggleMaximizeWindow(focused.id);
+                    else unsnapWindow(focused.id);
+                    break;
+                case 'minimize':
+                    minimizeWindow(focused.id);
+                    break;
+                default:
+                    // Moving between slots keeps the window in its snap group
+                    if (focused.snap) {
+                        snapWindow(focused.id, target, { groupId: focused.snap.groupId });
+                    } else {
+                        snapIntoLayout(focused.id, target, findSnapLayout([target]));
+                    }
+            }
+        },
+        [windows, toggleMaximizeWindow, unsnapWindow, minimizeWindow, snapWindow, snapIntoLayout]
+    );
+
+    return {
+        snapZone,
+        snapAssist,
+        snapAssistCandidates,
+        fillSnapAssistSlot,
+        dismissSnapAssist,
+        snapFocusedWindow,
+    };
+}
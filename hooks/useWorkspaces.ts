@@ -0,0 +1,77 @@
+/**
+ * useWorkspaces - Save and open named workspaces
+ *
+ * Saving captures the windows on the active desktop, their apps' state and the
+ * wallpaper; opening one puts them all back. See utils/workspaces.ts.
+ *
+ * @module hooks/useWorkspaces
+ *
+ * @example
+ * ```tsx
+ * const { workspaces, saveWorkspace, openWorkspace } = useWorkspaces();
+ *
+ * await saveWorkspace('coding');
+ * await openWorkspace('writing');
+ * ```
+ */
+import { useCallback } from 'react';
+import { useDb } from '../context/DbContext';
+import { useWallpaper } from '../context/WallpaperContext';
+import { useWindowManager } from '../context/WindowContext';
+import { ensureArray } from '../utils/ensureArray';
+import { useDexieLiveQuery } from '../utils/storage/react';
+import {
+    captureWorkspaceSnapshot,
+    deleteWorkspace as deleteWorkspaceRecord,
+    getWorkspace,
+    listWorkspaces,
+    restoreWorkspaceAppState,
+    saveWorkspace as saveWorkspaceRecord,
+    type Workspace,
+} from '../utils/workspaces';
+
+export interface UseWorkspacesResult {
+    /** Saved workspaces, sorted by name */
+    workspaces: Workspace[];
+    /** Save the current windows and wallpaper, replacing a workspace with the same name */
+    saveWorkspace: (name: string) => Promise<void>;
+    /**
+     * Open a workspace in place of the windows on the active desktop
+     * @returns false if there is no workspace with that name
+     */
+    openWorkspace: (name: string) => Promise<boolean>;
+    /** @returns false if there is no workspace with that name */
+    deleteWorkspace: (name: string) => Promise<boolean>;
+}
+
+export function useWorkspaces(): UseWorkspacesResult {
+    const db = useDb();
+    const { desktopWindows, restoreWindowLayout } = useWindowManager();
+    const { activeWallpaper, activeManifest, setWallpaper } = useWallpaper();
+    const { value } = useDexieLiveQuery(() => listWorkspaces(db), [db]);
+
+    const saveWorkspace = useCallback(
+        async (name: string) => {
+            const snapshot = await captureWorkspaceSnapshot(db, desktopWindows, activeManifest ?? activeWallpaper);
+            await saveWorkspaceRecord(db, name, snapshot);
+        },
+        [db, desktopWindows, activeManifest, activeWallpaper]
+    );
+
+    const openWorkspace = useCallback(
+        async (name: string) => {
+            const workspace = await getWorkspace(db, name);
+            if (!workspace) return false;
+            // App state goes first so apps open with it
+            await restoreWorkspaceAppState(db, workspace.snapshot);
+            restoreWindowLayout(workspace.snapshot.windows);
+            if (workspace.snapshot.wallpaper) await setWallpaper(workspace.snapshot.wallpaper);
+            return true;
+        },
+        [db, restoreWindowLayout, setWallpaper]
+    );
+
+    const deleteWorkspace = useCallback((name: string) => deleteWorkspaceRecord(db, name), [db]);
+
+    return { workspaces: ensureArray(value), saveWorkspace, openWorkspace, deleteWorkspace };
+}
@@ -1,7 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
-import { migrateLegacyLocalStorageToDexieKv } from './utils/storage';
+import { migrateCalendarEventsToDexieTable, migrateLegacyLocalStorageToDexieKv } from './utils/storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -16,6 +16,11 @@ const bootstrap = async () => {
     } catch {
         // Best-effort; app still works without legacy migration.
     }
+    try {
+        await migrateCalendarEventsToDexieTable();
+    } catch (error) {
+        console.error('Failed to move calendar events:', error);
+    }
 
     root.render(
         <React.StrictMode>
@@ -6,40 +6,47 @@ import { Terminal } from '../apps/Terminal';
 import { DbProvider } from '../context/DbContext';
 import { LocalizationProvider } from '../context/LocalizationContext';
 import { db } from '../utils/storage/db';
+import { vfs } from '../utils/vfs';
+import { terminalCommands } from '../utils/shell';
 
-const mockDb = vi.hoisted(() => ({
-    $terminalHistory: {
-        add: vi.fn(),
-        count: vi.fn(() => Promise.resolve(0)),
-        orderBy: vi.fn(() => ({
-            toArray: vi.fn(() => Promise.resolve([])),
-            limit: vi.fn(() => ({
+const mockDb = vi.hoisted(() => {
+    let nextSessionId = 1;
+    return {
+        $terminalHistory: {
+            add: vi.fn(),
+            count: vi.fn(() => Promise.resolve(0)),
+            orderBy: vi.fn(() => ({
                 toArray: vi.fn(() => Promise.resolve([])),
-            })),
-        })),
-        bulkDelete: vi.fn(),
-    },
-    $terminalSessions: {
-        add: vi.fn(() => Promise.resolve(1)),
-        update: vi.fn(() => Promise.resolve(1)),
-        orderBy: vi.fn(() => ({
-            reverse: vi.fn(() => ({
                 limit: vi.fn(() => ({
                     toArray: vi.fn(() => Promise.resolve([])),
                 })),
             })),
-        })),
-    },
-    $terminalAliases: {
-        toArray: vi.fn(() => Promise.resolve([])),
-        put: vi.fn(),
-        delete: vi.fn(),
-    },
-    kv: {
-        get: vi.fn(() => Promise.resolve(null)),
-        put: vi.fn(),
-    },
-}));
+            bulkDelete: vi.fn(),
+        },
+        $terminalSessions: {
+            add: vi.fn(() => Promise.resolve(nextSessionId++)),
+            update: vi.fn(() => Promise.resolve(1)),
+            bulkDelete: vi.fn(() => Promise.resolve()),
+            orderBy: vi.fn(() => ({
+                reverse: vi.fn(() => ({
+                    toArray: vi.fn(() => Promise.resolve([])),
+                    limit: vi.fn(() => ({
+                        toArray: vi.fn(() => Promise.resolve([])),
+                    })),
+                })),
+            })),
+        },
+        $terminalAliases: {
+            toArray: vi.fn(() => Promise.resolve([])),
+            put: vi.fn(),
+            delete: vi.fn(),
+        },
+        kv: {
+            get: vi.fn(() => Promise.resolve(null)),
+            put: vi.fn(),
+        },
+    };
+});
 
 // Mock the database with all required exports
 vi.mock('../utils/storage/db', async importOriginal => {
@@ -94,6 +101,16 @@ vi.mock('../context/WindowContext', () => ({
     }),
 }));
 
+// Mock useWorkspaces hook
+vi.mock('../hooks/useWorkspaces', () => ({
+    useWorkspaces: () => ({
+        workspaces: [],
+        saveWorkspace: vi.fn(),
+        openWorkspace: vi.fn(),
+        deleteWorkspace: vi.fn(),
+    }),
+}));
+
 // Mock SystemInfoContext module (F160)
 vi.mock('../context/SystemInfoContext', () => ({
     useSystemInfo: () => ({
@@ -146,6 +163,7 @@ const renderTerminal = async () => {
     await waitFor(() => {
         expect(db.$terminalSessions.orderBy).toHaveBeenCalled();
     });
+    await screen.findByRole('textbox');
     return result;
 };
 
@@ -295,3 +313,87 @@ describe('Terminal - Command History Persistence (F076)', () => {
         expect(db.$terminalHistory.add).not.toHaveBeenCalled();
     });
 });
+
+describe('Terminal - Shell', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('pipes ls output and redirects it into a file', async () => {
+        await vfs.writeFile('/Documents/readme.md', '# Readme');
+        await vfs.writeFile('/Documents/todo.md', '- [ ] ship');
+
+        const user = userEvent.setup();
+        await renderTerminal();
+
+        const input = screen.getByRole('textbox');
+        await user.type(input, 'cd Documents && ls | cat > list.txt && cat list.txt | cat{Enter}');
+
+        await waitFor(async () => {
+            expect(await vfs.readFile('/Documents/list.txt')).toContain('readme.md\n');
+        });
+        expect(await screen.findByText('todo.md')).toBeInTheDocument();
+        expect(screen.getByText('C:\\Documents>')).toBeInTheDocument();
+    });
+
+    it('runs registered app commands and lists them in help', async () => {
+        const unregister = terminalCommands.register(
+            {
+                name: 'greet',
+                description: 'Print a greeting',
+                args: [{ name: 'name' }],
+                run: ({ args, stdout }) => {
+                    stdout(`Hello, ${args[0]}!`);
+                },
+            },
+            'test'
+        );
+
+        try {
+            const user = userEvent.setup();
+            await renderTerminal();
+
+            const input = screen.getByRole('textbox');
+            await user.type(input, 'greet Ada | cat{Enter}');
+            expect(await screen.findByText('Hello, Ada!')).toBeInTheDocument();
+
+            await user.type(input, 'greet{Enter}');
+            expect(await screen.findByText('Usage: greet <name>')).toBeInTheDocument();
+
+            await user.type(input, 'help{Enter}');
+            expect(await screen.findByText(/greet <name>\s+- Print a greeting/)).toBeInTheDocument();
+        } finally {
+            unregister();
+        }
+    });
+});
+
+describe('Terminal - Tabs and split panes', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('gives each pane and tab its own session', async () => {
+        await vfs.writeFile('/Documents/notes.txt', '');
+        const user = userEvent.setup();
+        await renderTerminal();
+        expect(screen.getAllByRole('tab')).toHaveLength(1);
+
+        await user.click(screen.getByTitle('Split right'));
+        await waitFor(() => expect(screen.getAllByRole('textbox')).toHaveLength(2));
+
+        const [first, second] = screen.getAllByRole('textbox');
+        await user.type(second as HTMLElement, 'cd Documents{Enter}');
+        expect(await screen.findByText('C:\\Documents>')).toBeInTheDocument();
+        await user.type(first as HTMLElement, 'pwd{Enter}');
+        expect(await screen.findByText('C:\\>pwd')).toBeInTheDocument();
+
+        await user.click(screen.getByTitle('New tab'));
+        await waitFor(() => expect(screen.getAllByRole('tab')).toHaveLength(2));
+        expect(screen.getAllByRole('tab')[1]).toHaveAttribute('aria-selected', 'true');
+        expect(db.$terminalSessions.update).toHaveBeenCalledWith(
+            expect.any(Number),
+            expect.objectContaining({ layout: expect.stringContaining('"direction":"horizontal"') })
+        );
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createTab,
+    getPaneRects,
+    getSessionIds,
+    parseWindowLayout,
+    removePane,
+    splitPane,
+} from '../../apps/terminal-components';
+
+describe('Terminal pane layout', () => {
+    it('splits and removes panes', () => {
+        const tab = createTab(1);
+        const split = splitPane(splitPane(tab.layout, 1, 'horizontal', 2), 2, 'vertical', 3);
+        expect(getSessionIds(split)).toEqual([1, 2, 3]);
+        expect(getPaneRects(split)).toEqual([
+            { sessionId: 1, left: 0, top: 0, width: 50, height: 100 },
+            { sessionId: 2, left: 50, top: 0, width: 50, height: 50 },
+            { sessionId: 3, left: 50, top: 50, width: 50, height: 50 },
+        ]);
+
+        const removed = removePane(split, 1);
+        expect(removed).toEqual({
+            type: 'split',
+            direction: 'vertical',
+            children: [
+                { type: 'pane', sessionId: 2 },
+                { type: 'pane', sessionId: 3 },
+            ],
+        });
+        expect(removePane({ type: 'pane', sessionId: 4 }, 4)).toBeNull();
+    });
+
+    it('parses stored layouts and drops malformed tabs', () => {
+        const tab = createTab(5);
+        const json = JSON.stringify({
+            tabs: [
+                { id: 'broken', layout: { type: 'split', children: [] } },
+                { ...tab, focusedSessionId: 99 },
+            ],
+            activeTabId: 'broken',
+        });
+        expect(parseWindowLayout(json)).toEqual({
+            tabs: [{ ...tab, focusedSessionId: 5 }],
+            activeTabId: tab.id,
+        });
+        expect(parseWindowLayout('not json')).toBeNull();
+        expect(parseWindowLayout('{"tabs":[]}')).toBeNull();
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * Shared fixtures for the WASM-4 runtime tests: a runtime on a stubbed canvas and
+ * helpers for hand-assembling small cartridges
+ */
+import { vi } from 'vitest';
+import { Wasm4Runtime } from '../../apps/arcade/Wasm4Runtime';
+import type { Wasm4Callbacks } from '../../apps/arcade/Wasm4Runtime';
+
+/** "\0asm" magic and version 1, which every module starts with */
+export const WASM_HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+
+/** The smallest valid WebAssembly module, enough to drive frames */
+export const EMPTY_CARTRIDGE = new Uint8Array(WASM_HEADER).buffer;
+
+/** Signed LEB128, as used by i32.const and section sizes */
+export const leb = (value: number): number[] => {
+    const bytes: number[] = [];
+    for (;;) {
+        const byte = value & 0x7f;
+        value >>= 7;
+        const done = (value === 0 && !(byte & 0x40)) || (value === -1 && byte & 0x40);
+        bytes.push(done ? byte : byte | 0x80);
+        if (done) return bytes;
+    }
+};
+
+export const i32Const = (value: number) => [0x41, ...leb(value)];
+export const name = (text: string) => [text.length, ...Array.from(text, char => char.charCodeAt(0))];
+export const section = (id: number, content: number[]) => [id, ...leb(content.length), ...content];
+
+/**
+ * A runtime drawing to a canvas whose 2D context is stubbed (jsdom has none).
+ * Callers dispose it and restore mocks after each test.
+ */
+export const createTestRuntime = (callbacks?: Wasm4Callbacks): Wasm4Runtime => {
+    const context = {
+        imageSmoothingEnabled: true,
+        createImageData: (width: number, height: number) => ({
+            width,
+            height,
+            data: new Uint8ClampedArray(width * height * 4),
+        }),
+        putImageData: () => {},
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as never);
+    const runtime = new Wasm4Runtime();
+    runtime.init(document.createElement('canvas'), callbacks);
+    return runtime;
+};
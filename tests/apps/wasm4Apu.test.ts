@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+    TONE_MODE1,
+    TONE_MODE3,
+    TONE_NOISE,
+    TONE_NOTE_MODE,
+    TONE_PAN_LEFT,
+    TONE_PULSE1,
+    TONE_PULSE2,
+    TONE_TRIANGLE,
+    Wasm4Apu,
+    Wasm4Audio,
+} from '../../apps/arcade/Wasm4Apu';
+
+const PULSE_MAX = 0x1333 / 0x8000;
+
+/** Render frames, calling `onFrame` before each like a cartridge's update() */
+const renderFrames = (apu: Wasm4Apu, frames: number, onFrame?: (frame: number) => void) => {
+    const left: number[] = [];
+    const right: number[] = [];
+    for (let frame = 0; frame < frames; frame++) {
+        onFrame?.(frame);
+        const length = apu.getFrameLength();
+        const l = new Float32Array(length);
+        const r = new Float32Array(length);
+        apu.writeSamples(l, r);
+        apu.tick();
+        left.push(...l);
+        right.push(...r);
+    }
+    return { left, right };
+};
+
+const peak = (samples: number[]) => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+/** Rising zero crossings, i.e. waveform periods */
+const periods = (samples: number[]) =>
+    samples.reduce((count, sample, i) => (i > 0 && (samples[i - 1] ?? 0) < 0 && sample >= 0 ? count + 1 : count), 0);
+
+/**
+ * Just enough of OfflineAudioContext to mix scheduled buffers (jsdom has no Web Audio)
+ */
+class TestOfflineAudioContext {
+    readonly currentTime = 0;
+    readonly destination = {};
+    private gain = { gain: { value: 1 }, connect: () => {} };
+    private started: { buffer: { getChannelData: (channel: number) => Float32Array }; when: number }[] = [];
+
+    constructor(
+        readonly numberOfChannels: number,
+        readonly length: number,
+        readonly sampleRate: number
+    ) {}
+
+    createGain() {
+        return this.gain;
+    }
+
+    createBuffer(numberOfChannels: number, length: number) {
+        const data = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+        return { length, getChannelData: (channel: number) => data[channel] ?? new Float32Array(0) };
+    }
+
+    createBufferSource() {
+        const source = {
+            buffer: null as ReturnType<TestOfflineAudioContext['createBuffer']> | null,
+            connect: () => {},
+            start: (when = 0) => {
+                if (source.buffer) this.started.push({ buffer: source.buffer, when });
+            },
+        };
+        return source;
+    }
+
+    startRendering() {
+        const output = Array.from({ length: this.numberOfChannels }, () => new Float32Array(this.length));
+        for (const { buffer, when } of this.started) {
+            const offset = Math.round(when * this.sampleRate);
+            output.forEach((channel, index) =>
+                buffer.getChannelData(index).forEach((sample, i) => {
+                    if (offset + i < channel.length) channel[offset + i] = sample * this.gain.gain.value;
+                })
+            );
+        }
+        return Promise.resolve({ getChannelData: (channel: number) => output[channel] ?? new Float32Array(0) });
+    }
+}
+
+describe('Wasm4Apu', () => {
+    it('renders one sixtieth of a second per frame', () => {
+        const apu = new Wasm4Apu(22050);
+        const lengths = Array.from({ length: 60 }, () => {
+            const length = apu.getFrameLength();
+            apu.tick();
+            return length;
+        });
+
+        expect(new Set(lengths)).toEqual(new Set([367, 368]));
+        expect(lengths.reduce((sum, length) => sum + length, 0)).toBe(22050);
+        expect(new Wasm4Apu(44100).getFrameLength()).toBe(735);
+    });
+
+    it('plays pulse waves with the requested duty cycle', () => {
+        const duty = (flags: number) => {
+            const apu = new Wasm4Apu();
+            const { left } = renderFrames(apu, 1, () => apu.tone(441, 1, 100, flags));
+            return left.filter(sample => sample > 0).length / left.length;
+        };
+
+        expect(duty(TONE_PULSE1 | TONE_MODE3)).toBeCloseTo(0.5, 1);
+        expect(duty(TONE_PULSE2 | TONE_MODE1)).toBeCloseTo(0.125, 1);
+    });
+
+    it('sustains a tone for its duration in frames', () => {
+        const apu = new Wasm4Apu();
+        const { left } = renderFrames(apu, 3, frame => frame === 0 && apu.tone(440, 2, 100, TONE_PULSE1));
+
+        expect(peak(left.slice(0, 735 * 2))).toBeCloseTo(PULSE_MAX, 3);
+        expect(peak(left.slice(735 * 2))).toBe(0);
+        expect(periods(left.slice(0, 735 * 2))).toBe(14);
+    });
+
+    it('plays a tone without duration for one frame', () => {
+        const apu = new Wasm4Apu();
+        const { left } = renderFrames(apu, 2, frame => frame === 0 && apu.tone(440, 0, 50, TONE_PULSE1));
+
+        expect(peak(left.slice(0, 735))).toBeCloseTo(PULSE_MAX / 2, 3);
+        expect(peak(left.slice(735))).toBe(0);
+    });
+
+    it('shapes the volume with attack, decay, sustain and release', () => {
+        const apu = new Wasm4Apu();
+        // 10 frames attack to full volume, 10 decay to 50%, 10 sustain, 10 release
+        const duration = (10 << 24) | (10 << 16) | (10 << 8) | 10;
+        const { left } = renderFrames(apu, 41, frame => frame === 0 && apu.tone(441, duration, 50, TONE_PULSE1));
+        const frameAt = (frame: number) => peak(left.slice(735 * frame, 735 * (frame + 1)));
+
+        expect(frameAt(0)).toBeLessThan(PULSE_MAX * 0.15);
+        expect(frameAt(9)).toBeCloseTo(PULSE_MAX, 2);
+        expect(frameAt(25)).toBeCloseTo(PULSE_MAX / 2, 3);
+        expect(frameAt(39)).toBeLessThan(PULSE_MAX * 0.1);
+        expect(frameAt(40)).toBe(0);
+    });
+
+    it('slides the frequency over the tone', () => {
+        const apu = new Wasm4Apu();
+        const { left } = renderFrames(apu, 60, frame => frame === 0 && apu.tone(220 | (880 << 16), 60, 100, 0));
+
+        expect(periods(left.slice(0, 735 * 6))).toBeLessThan(periods(left.slice(735 * 54)));
+    });
+
+    it('plays MIDI notes in note mode', () => {
+        const apu = new Wasm4Apu();
+        const { left } = renderFrames(apu, 60, frame => frame === 0 && apu.tone(69, 60, 100, TONE_NOTE_MODE));
+
+        expect(periods(left)).toBeGreaterThanOrEqual(439);
+        expect(periods(left)).toBeLessThanOrEqual(440);
+    });
+
+    it('pans channels and mixes the triangle and noise', () => {
+        const apu = new Wasm4Apu();
+        const { left, right } = renderFrames(apu, 1, () => {
+            apu.tone(440, 1, 100, TONE_TRIANGLE | TONE_PAN_LEFT);
+        });
+        const noisy = new Wasm4Apu();
+        const noise = renderFrames(noisy, 1, () => noisy.tone(1000, 1, 100, TONE_NOISE)).left;
+
+        expect(peak(left)).toBeCloseTo(0.25, 2);
+        expect(peak(right)).toBe(0);
+        expect(new Set(noise.map(sample => Math.sign(sample)))).toEqual(new Set([-1, 1]));
+        expect(peak(noise)).toBeCloseTo(PULSE_MAX, 3);
+    });
+});
+
+describe('Wasm4Audio', () => {
+    it('schedules one buffer per frame back to back on an offline context', async () => {
+        const frames = 4;
+        const context = new TestOfflineAudioContext(2, 735 * frames, 44100);
+        const audio = new Wasm4Audio(context as unknown as BaseAudioContext, { latency: 0, maxLatency: Infinity });
+        const reference = new Wasm4Apu(44100);
+        const play = (apu: Wasm4Apu, frame: number) => frame === 1 && apu.tone(300, 2, 80, TONE_PULSE1 | TONE_MODE3);
+
+        for (let frame = 0; frame < frames; frame++) {
+            play(audio.apu, frame);
+            audio.renderFrame();
+        }
+        const rendered = await context.startRendering();
+
+        const expected = renderFrames(reference, frames, frame => play(reference, frame));
+        expect(Array.from(rendered.getChannelData(0))).toEqual(Array.from(Float32Array.from(expected.left)));
+        expect(peak(Array.from(rendered.getChannelData(1).slice(0, 735)))).toBe(0);
+        expect(peak(Array.from(rendered.getChannelData(1).slice(735, 735 * 3)))).toBeGreaterThan(0);
+    });
+
+    it('mutes its output', async () => {
+        const context = new TestOfflineAudioContext(2, 735, 44100);
+        const audio = new Wasm4Audio(context as unknown as BaseAudioContext, { latency: 0 });
+
+        audio.setMuted(true);
+        audio.apu.tone(440, 1, 100, TONE_PULSE1);
+        audio.renderFrame();
+
+        expect(peak(Array.from((await context.startRendering()).getChannelData(0)))).toBe(0);
+    });
+});
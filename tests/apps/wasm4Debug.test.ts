@@ -0,0 +1,126 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { formatTracef, MEMORY_REGIONS, Wasm4Runtime } from '../../apps/arcade/Wasm4Runtime';
+import { formatHexDump } from '../../apps/arcade/DebugPanel';
+import { createTestRuntime, EMPTY_CARTRIDGE } from './wasm4-test-utils';
+
+const FMT_PTR = 0x100;
+const ARG_PTR = 0x200;
+const STRING_PTR = 0x300;
+
+/** Memory holding a format string and its packed arguments */
+const traceMemory = (fmt: string, writeArgs: (args: DataView) => void) => {
+    const buffer = new ArrayBuffer(0x400);
+    const mem = new Uint8Array(buffer);
+    const bytesOf = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+    mem.set(bytesOf(fmt), FMT_PTR);
+    mem.set(bytesOf('player'), STRING_PTR);
+    writeArgs(new DataView(buffer, ARG_PTR));
+    return buffer;
+};
+
+describe('formatTracef', () => {
+    it('formats integers, hex, characters and strings', () => {
+        const buffer = traceMemory('%s at %d,%d: %c %x', args => {
+            args.setInt32(0, STRING_PTR, true);
+            args.setInt32(4, 12, true);
+            args.setInt32(8, -3, true);
+            args.setInt32(12, 'A'.charCodeAt(0), true);
+            args.setInt32(16, -1, true);
+        });
+
+        expect(formatTracef(buffer, FMT_PTR, ARG_PTR)).toBe('player at 12,-3: A ffffffff');
+    });
+
+    it('reads doubles from 8-byte aligned slots', () => {
+        const buffer = traceMemory('%d %f', args => {
+            args.setInt32(0, 7, true);
+            args.setFloat64(8, 2.5, true);
+        });
+
+        expect(formatTracef(buffer, FMT_PTR, ARG_PTR)).toBe('7 2.5');
+    });
+
+    it('keeps literal and unknown specifiers and marks missing arguments', () => {
+        const buffer = traceMemory('100%% %q %d', () => {});
+
+        expect(formatTracef(buffer, FMT_PTR, ARG_PTR)).toBe('100% %q 0');
+        expect(formatTracef(buffer, FMT_PTR, buffer.byteLength - 2)).toBe('100% %q ?');
+    });
+});
+
+describe('formatHexDump', () => {
+    it('formats 16 bytes per row with offsets and printable text', () => {
+        const data = new Uint8Array(18);
+        data.set(new TextEncoder().encode('HI'), 0);
+        data[17] = 0xff;
+
+        expect(formatHexDump(data)).toEqual([
+            `0000  48 49 ${'00 '.repeat(13)}00  HI..............`,
+            `0010  00 ff${' '.repeat(42)}  ..`,
+        ]);
+    });
+
+    it('numbers rows from a base address', () => {
+        expect(formatHexDump(new Uint8Array(20), 0xa0).map(row => row.slice(0, 4))).toEqual(['00a0', '00b0']);
+    });
+
+    it('has no rows for an empty disk', () => {
+        expect(formatHexDump(new Uint8Array(0))).toEqual([]);
+    });
+});
+
+describe('Wasm4Runtime debugging', () => {
+    let runtime: Wasm4Runtime | null = null;
+
+    const loadRuntime = async () => {
+        runtime = createTestRuntime();
+        await runtime.loadCartridge(EMPTY_CARTRIDGE);
+        return runtime;
+    };
+
+    afterEach(() => {
+        runtime?.dispose();
+        runtime = null;
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('steps exactly one frame while paused', async () => {
+        vi.useFakeTimers();
+        const runtime = await loadRuntime();
+        runtime.pause();
+        const pausedAt = runtime.getState().frameCount;
+
+        vi.advanceTimersByTime(500);
+        expect(runtime.getState().frameCount).toBe(pausedAt);
+
+        runtime.stepFrame();
+        vi.advanceTimersByTime(500);
+        expect(runtime.getState().frameCount).toBe(pausedAt + 1);
+        expect(runtime.getState().isPaused).toBe(true);
+    });
+
+    it('ignores steps while running', async () => {
+        vi.useFakeTimers();
+        const runtime = await loadRuntime();
+        runtime.stepFrame();
+        runtime.pause();
+        const pausedAt = runtime.getState().frameCount;
+
+        vi.advanceTimersByTime(500);
+        expect(runtime.getState().frameCount).toBe(pausedAt);
+    });
+
+    it('reads memory regions', async () => {
+        const runtime = await loadRuntime();
+        const palette = MEMORY_REGIONS.find(region => region.name === 'PALETTE');
+        const framebuffer = MEMORY_REGIONS.find(region => region.name === 'FRAMEBUFFER');
+
+        const bytes = runtime.readMemory(palette?.address ?? 0, palette?.size ?? 0);
+        expect(new DataView(bytes?.buffer ?? new ArrayBuffer(4)).getUint32(0, true)).toBe(0xe0f8cf);
+        expect(runtime.readMemory(framebuffer?.address ?? 0, framebuffer?.size ?? 0)).toHaveLength(6400);
+
+        runtime.stop();
+        expect(runtime.readMemory(0, 16)).toBeNull();
+    });
+});
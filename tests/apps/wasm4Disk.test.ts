@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { DISK_SIZE, Wasm4Runtime } from '../../apps/arcade/Wasm4Runtime';
+import { createTestRuntime, i32Const, leb, name, section, WASM_HEADER } from './wasm4-test-utils';
+
+const MESSAGE = 'hello';
+const MESSAGE_PTR = 0x4000;
+const READ_PTR = 0x5000;
+const DISKW_RESULT = 0x5100;
+const DISKR_RESULT = 0x5104;
+
+/**
+ * A cartridge whose start() reads 8 bytes of disk to READ_PTR, then writes `writeSize`
+ * bytes from MESSAGE_PTR to the disk if given, storing what both calls return
+ */
+const diskCartridge = (writeSize?: number): ArrayBuffer => {
+    const body = [
+        0x00, // no locals
+        ...i32Const(DISKR_RESULT),
+        ...i32Const(READ_PTR),
+        ...i32Const(8),
+        0x10,
+        0x00, // call diskr
+        0x36,
+        0x02,
+        0x00, // i32.store
+        ...(writeSize === undefined
+            ? []
+            : [
+                  ...i32Const(DISKW_RESULT),
+                  ...i32Const(MESSAGE_PTR),
+                  ...i32Const(writeSize),
+                  0x10,
+                  0x01, // call diskw
+                  0x36,
+                  0x02,
+                  0x00, // i32.store
+              ]),
+        0x0b,
+    ];
+    const bytes = [
+        ...WASM_HEADER,
+        ...section(1, [0x02, 0x60, 0x02, 0x7f, 0x7f, 0x01, 0x7f, 0x60, 0x00, 0x00]),
+        ...section(2, [
+            0x03,
+            ...name('env'),
+            ...name('memory'),
+            0x02,
+            0x01,
+            0x01,
+            0x01,
+            ...name('env'),
+            ...name('diskr'),
+            0x00,
+            0x00,
+            ...name('env'),
+            ...name('diskw'),
+            0x00,
+            0x00,
+        ]),
+        ...section(3, [0x01, 0x01]),
+        ...section(7, [0x01, ...name('start'), 0x00, 0x02]),
+        ...section(10, [0x01, ...leb(body.length), ...body]),
+        ...section(11, [0x01, 0x00, ...i32Const(MESSAGE_PTR), 0x0b, ...name(MESSAGE)]),
+    ];
+    return new Uint8Array(bytes).buffer;
+};
+
+const bytesOf = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+/** WASM-4 memory from an exported state */
+const memoryOf = async (state: Blob | null) => new DataView((await state?.arrayBuffer()) ?? new ArrayBuffer(0));
+
+describe('Wasm4Runtime disk', () => {
+    let runtime: Wasm4Runtime | null = null;
+
+    const startRuntime = (onDiskWrite?: (disk: Uint8Array) => void) => {
+        runtime = createTestRuntime({ onDiskWrite });
+        return runtime;
+    };
+
+    afterEach(() => {
+        runtime?.dispose();
+        runtime = null;
+        vi.restoreAllMocks();
+    });
+
+    it('reads the disk a cartridge saved before', async () => {
+        const runtime = startRuntime();
+        await runtime.loadCartridge(diskCartridge(), bytesOf('hi'));
+
+        const memory = await memoryOf(runtime.exportState());
+        expect(memory.getInt32(DISKR_RESULT, true)).toBe(2);
+        expect(new Uint8Array(memory.buffer, READ_PTR, 3)).toEqual(new Uint8Array([0x68, 0x69, 0]));
+    });
+
+    it('replaces the disk on write and reports it', async () => {
+        const onDiskWrite = vi.fn();
+        const runtime = startRuntime(onDiskWrite);
+        await runtime.loadCartridge(diskCartridge(MESSAGE.length), bytesOf('old save'));
+
+        const memory = await memoryOf(runtime.exportState());
+        expect(memory.getInt32(DISKW_RESULT, true)).toBe(MESSAGE.length);
+        expect(runtime.getDisk()).toEqual(bytesOf(MESSAGE));
+        expect(onDiskWrite).toHaveBeenCalledWith(bytesOf(MESSAGE));
+    });
+
+    it('caps the disk at 1024 bytes', async () => {
+        const runtime = startRuntime();
+        await runtime.loadCartridge(diskCartridge(2000), new Uint8Array(2000));
+
+        const memory = await memoryOf(runtime.exportState());
+        expect(memory.getInt32(DISKR_RESULT, true)).toBe(8);
+        expect(memory.getInt32(DISKW_RESULT, true)).toBe(DISK_SIZE);
+        expect(runtime.getDisk()).toHaveLength(DISK_SIZE);
+    });
+
+    it('keeps the disk in save states', async () => {
+        const onDiskWrite = vi.fn();
+        const runtime = startRuntime(onDiskWrite);
+        await runtime.loadCartridge(diskCartridge(), bytesOf('level 3'));
+        const state = runtime.exportState();
+
+        await runtime.loadCartridge(diskCartridge());
+        expect(runtime.getDisk()).toHaveLength(0);
+        expect(await runtime.importState(state ?? new Blob())).toBe(true);
+
+        expect(runtime.getDisk()).toEqual(bytesOf('level 3'));
+        expect(onDiskWrite).toHaveBeenCalledWith(bytesOf('level 3'));
+    });
+
+    it('imports save states made before disks, keeping the current disk', async () => {
+        const runtime = startRuntime();
+        await runtime.loadCartridge(diskCartridge(), bytesOf('scores'));
+        const memoryOnly = (await runtime.exportState()?.arrayBuffer())?.slice(0, 65536) ?? new ArrayBuffer(0);
+
+        expect(await runtime.importState(new Blob([memoryOnly]))).toBe(true);
+        expect(runtime.getDisk()).toEqual(bytesOf('scores'));
+        expect(await runtime.importState(new Blob([memoryOnly, new Uint8Array([0xff, 0xff])]))).toBe(false);
+    });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    BUTTON_1,
+    BUTTON_2,
+    BUTTON_DOWN,
+    BUTTON_LEFT,
+    BUTTON_RIGHT,
+    BUTTON_UP,
+    DEFAULT_KEY_BINDINGS,
+    MEMORY_REGIONS,
+    readControllerButtons,
+    REWIND_BUTTON,
+    Wasm4Runtime,
+} from '../../apps/arcade/Wasm4Runtime';
+import { bindKey, keyLabel } from '../../apps/arcade/ControlsEditor';
+import { createTestRuntime, EMPTY_CARTRIDGE } from './wasm4-test-utils';
+const GAMEPAD = MEMORY_REGIONS.find(region => region.name === 'GAMEPAD');
+
+/** A standard-mapping controller with the given buttons held and stick position */
+const controller = (pressed: number[], axes = [0, 0], id = 'Test Controller') =>
+    ({
+        id,
+        connected: true,
+        axes,
+        buttons: Array.from({ length: 17 }, (_, index) => ({ pressed: pressed.includes(index) })),
+    }) as unknown as Gamepad;
+
+describe('readControllerButtons', () => {
+    it('maps face buttons and the d-pad', () => {
+        expect(readControllerButtons(controller([0]))).toBe(BUTTON_1);
+        expect(readControllerButtons(controller([2]))).toBe(BUTTON_2);
+        expect(readControllerButtons(controller([12, 15]))).toBe(BUTTON_UP | BUTTON_RIGHT);
+    });
+
+    it('maps the left stick past the deadzone', () => {
+        expect(readControllerButtons(controller([], [-0.9, 0.8]))).toBe(BUTTON_LEFT | BUTTON_DOWN);
+        expect(readControllerButtons(controller([], [0.3, -0.3]))).toBe(0);
+    });
+});
+
+describe('bindKey', () => {
+    it('moves a key to the new player and button', () => {
+        const bindings = bindKey(DEFAULT_KEY_BINDINGS, 1, BUTTON_UP, 'KeyW');
+
+        expect(bindings[0]?.[BUTTON_UP]).toEqual(['ArrowUp']);
+        expect(bindings[1]?.[BUTTON_UP]).toEqual(['KeyW']);
+        expect(bindings).toHaveLength(4);
+    });
+
+    it('labels keys briefly', () => {
+        expect(['KeyQ', 'Digit7', 'ArrowLeft', 'ShiftLeft'].map(keyLabel)).toEqual(['Q', '7', '←', 'ShiftLeft']);
+    });
+});
+
+describe('Wasm4Runtime input', () => {
+    let runtime: Wasm4Runtime | null = null;
+
+    const loadRuntime = async () => {
+        vi.useFakeTimers();
+        runtime = createTestRuntime();
+        await runtime.loadCartridge(EMPTY_CARTRIDGE);
+        return runtime;
+    };
+
+    /** GAMEPAD1..4 as the cartridge sees them after the next frame */
+    const gamepads = (runtime: Wasm4Runtime) => {
+        vi.advanceTimersByTime(50);
+        return Array.from(runtime.readMemory(GAMEPAD?.address ?? 0, GAMEPAD?.size ?? 0) ?? []);
+    };
+
+    const press = (code: string, type: 'keydown' | 'keyup' = 'keydown') =>
+        window.dispatchEvent(new KeyboardEvent(type, { code }));
+
+    afterEach(() => {
+        runtime?.dispose();
+        runtime = null;
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    it('drives player 1 with the default keys', async () => {
+        const runtime = await loadRuntime();
+
+        press('KeyX');
+        press('ArrowLeft');
+        expect(gamepads(runtime)).toEqual([BUTTON_1 | BUTTON_LEFT, 0, 0, 0]);
+
+        press('KeyX', 'keyup');
+        expect(gamepads(runtime)).toEqual([BUTTON_LEFT, 0, 0, 0]);
+    });
+
+    it('drives other players with rebound keys', async () => {
+        const runtime = await loadRuntime();
+        runtime.setKeyBindings(bindKey(DEFAULT_KEY_BINDINGS, 3, BUTTON_2, 'KeyX'));
+
+        press('KeyX');
+        press('KeyW');
+        expect(gamepads(runtime)).toEqual([BUTTON_UP, 0, 0, BUTTON_2]);
+    });
+
+    it('rewinds while the rewind key is held, which can be rebound', async () => {
+        const runtime = await loadRuntime();
+        expect(DEFAULT_KEY_BINDINGS[0]?.[REWIND_BUTTON]).toEqual(['Backspace']);
+
+        press('Backspace');
+        expect(runtime.getState().isRewinding).toBe(true);
+        press('Backspace', 'keyup');
+        expect(runtime.getState().isRewinding).toBe(false);
+
+        runtime.setKeyBindings(bindKey(DEFAULT_KEY_BINDINGS, 0, BUTTON_1, 'Backspace'));
+        press('Backspace');
+        expect(runtime.getState().isRewinding).toBe(false);
+        expect(gamepads(runtime)).toEqual([BUTTON_1, 0, 0, 0]);
+    });
+
+    it('maps connected controllers to players in order', async () => {
+        const pads: (Gamepad | null)[] = [controller([0]), null, controller([13])];
+        vi.stubGlobal('navigator', { ...navigator, getGamepads: () => pads });
+        const runtime = await loadRuntime();
+        runtime.setGamepadButton(1, BUTTON_RIGHT, true);
+
+        expect(gamepads(runtime)).toEqual([BUTTON_1, BUTTON_DOWN | BUTTON_RIGHT, 0, 0]);
+
+        pads[0] = null;
+        expect(gamepads(runtime)).toEqual([BUTTON_DOWN, BUTTON_RIGHT, 0, 0]);
+    });
+
+    it('reports controllers being connected', async () => {
+        vi.stubGlobal('navigator', { ...navigator, getGamepads: () => [controller([], [0, 0], 'Pad A')] });
+        const onControllersChange = vi.fn();
+        runtime = createTestRuntime({ onControllersChange });
+
+        window.dispatchEvent(new Event('gamepadconnected'));
+        expect(onControllersChange).toHaveBeenCalledWith(['Pad A']);
+    });
+});
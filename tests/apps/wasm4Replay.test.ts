@@ -0,0 +1,195 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { BUTTON_1, BUTTON_RIGHT, Wasm4Runtime } from '../../apps/arcade/Wasm4Runtime';
+import {
+    checksum,
+    decodeReplay,
+    encodeReplay,
+    INPUT_FRAME_SIZE,
+    pushInputFrame,
+    readInputFrame,
+    replayFrameCount,
+    type Wasm4Replay,
+} from '../../apps/arcade/Wasm4Replay';
+import { createTestRuntime, EMPTY_CARTRIDGE, i32Const, leb, name, section, WASM_HEADER } from './wasm4-test-utils';
+
+const HASH_PTR = 0x3000;
+const GAMEPAD1 = 0x16;
+
+/**
+ * A cartridge whose update() folds GAMEPAD1 into a running hash, so any difference in
+ * input, on any frame, changes its memory: hash = hash * 31 + gamepad
+ */
+const HASH_CARTRIDGE = (() => {
+    const body = [
+        0x00, // no locals
+        ...i32Const(HASH_PTR),
+        ...[...i32Const(HASH_PTR), 0x28, 0x02, 0x00], // i32.load
+        ...[...i32Const(31), 0x6c], // i32.mul
+        ...[...i32Const(GAMEPAD1), 0x2d, 0x00, 0x00, 0x6a], // i32.load8_u, i32.add
+        ...[0x36, 0x02, 0x00], // i32.store
+        0x0b,
+    ];
+    return new Uint8Array([
+        ...WASM_HEADER,
+        ...section(1, [0x01, 0x60, 0x00, 0x00]),
+        ...section(2, [0x01, ...name('env'), ...name('memory'), 0x02, 0x01, 0x01, 0x01]),
+        ...section(3, [0x01, 0x00]),
+        ...section(7, [0x01, ...name('update'), 0x00, 0x00]),
+        ...section(10, [0x01, ...leb(body.length), ...body]),
+    ]).buffer;
+})();
+
+describe('replay files', () => {
+    const replay: Wasm4Replay = {
+        cartridge: 0x12345678,
+        state: new Uint8Array([1, 2, 3]),
+        inputs: new Uint8Array(0),
+        checksum: 0xdeadbeef,
+    };
+
+    it('round-trips cartridge, state, input and checksum', () => {
+        const inputs: number[] = [];
+        pushInputFrame(inputs, { gamepads: [1, 2, 3, 4], mouseX: -5, mouseY: 159, mouseButtons: 2 });
+        pushInputFrame(inputs, { gamepads: [0, 0, 0, 128], mouseX: 0, mouseY: 0, mouseButtons: 0 });
+
+        const decoded = decodeReplay(encodeReplay({ ...replay, inputs: Uint8Array.from(inputs) }));
+
+        expect(decoded?.state).toEqual(replay.state);
+        expect(decoded?.checksum).toBe(0xdeadbeef);
+        expect(decoded?.cartridge).toBe(0x12345678);
+        expect(decoded && replayFrameCount(decoded)).toBe(2);
+        expect(decoded && readInputFrame(decoded.inputs, 0)).toEqual({
+            gamepads: [1, 2, 3, 4],
+            mouseX: -5,
+            mouseY: 159,
+            mouseButtons: 2,
+        });
+    });
+
+    it('rejects files that are not replays or are cut short', () => {
+        const encoded = encodeReplay({ ...replay, inputs: new Uint8Array(INPUT_FRAME_SIZE) });
+
+        expect(decodeReplay(new TextEncoder().encode('W4RX and some more bytes'))).toBeNull();
+        expect(decodeReplay(encoded.slice(0, -1))).toBeNull();
+        expect(decodeReplay(encoded.slice(0, 8))).toBeNull();
+    });
+
+    it('hashes with FNV-1a', () => {
+        expect(checksum(new Uint8Array(0))).toBe(0x811c9dc5);
+        expect(checksum(Uint8Array.from([0x61]))).toBe(0xe40c292c);
+    });
+});
+
+describe('Wasm4Runtime rewind and replays', () => {
+    let runtime: Wasm4Runtime | null = null;
+    const onReplayEnd = vi.fn();
+
+    const loadRuntime = async () => {
+        vi.useFakeTimers();
+        runtime = createTestRuntime({ onReplayEnd });
+        await runtime.loadCartridge(HASH_CARTRIDGE);
+        return runtime;
+    };
+
+    const hashOf = (runtime: Wasm4Runtime) =>
+        new DataView(runtime.readMemory(HASH_PTR, 4)?.buffer ?? new ArrayBuffer(4)).getUint32(0, true);
+
+    /** Run about a second of frames, changing the held buttons every few frames */
+    const play = (runtime: Wasm4Runtime, buttons: number[]) => {
+        for (const [index, button] of buttons.entries()) {
+            runtime.setGamepadButton(0, 0xff, false);
+            runtime.setGamepadButton(0, button, true);
+            vi.advanceTimersByTime(100 + index * 7);
+        }
+    };
+
+    afterEach(() => {
+        runtime?.dispose();
+        runtime = null;
+        onReplayEnd.mockReset();
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('plays a recording back to the same state', async () => {
+        const runtime = await loadRuntime();
+        play(runtime, [BUTTON_1, 0]);
+
+        expect(runtime.startRecording()).toBe(true);
+        play(runtime, [BUTTON_RIGHT, BUTTON_1 | BUTTON_RIGHT, 0, BUTTON_1, BUTTON_RIGHT]);
+        const recorded = runtime.stopRecording();
+        const recordedHash = hashOf(runtime);
+        const replay = recorded && decodeReplay(encodeReplay(recorded));
+        if (!replay) throw new Error('No replay recorded');
+        expect(replayFrameCount(replay)).toBeGreaterThan(20);
+
+        play(runtime, [BUTTON_1, BUTTON_1]);
+        expect(hashOf(runtime)).not.toBe(recordedHash);
+
+        runtime.setGamepadButton(0, BUTTON_1, true);
+        expect(runtime.playReplay(replay)).toBe(true);
+        expect(runtime.getState().isReplaying).toBe(true);
+        vi.advanceTimersByTime(2000);
+
+        expect(onReplayEnd).toHaveBeenCalledWith(true);
+        expect(runtime.getState().isReplaying).toBe(false);
+    });
+
+    it('reports replays that end somewhere else', async () => {
+        const runtime = await loadRuntime();
+        runtime.startRecording();
+        play(runtime, [BUTTON_1, 0, BUTTON_RIGHT]);
+        const replay = runtime.stopRecording();
+        if (!replay) throw new Error('No replay recorded');
+
+        const inputs = replay.inputs.slice();
+        inputs[INPUT_FRAME_SIZE * 3] = BUTTON_RIGHT | BUTTON_1;
+        runtime.playReplay({ ...replay, inputs });
+        vi.advanceTimersByTime(2000);
+
+        expect(onReplayEnd).toHaveBeenCalledWith(false);
+    });
+
+    it('refuses replays recorded with another cartridge', async () => {
+        const runtime = await loadRuntime();
+        runtime.startRecording();
+        play(runtime, [BUTTON_1]);
+        const replay = runtime.stopRecording();
+        if (!replay) throw new Error('No replay recorded');
+
+        await runtime.loadCartridge(EMPTY_CARTRIDGE);
+        expect(runtime.isReplayFor(replay)).toBe(false);
+        expect(runtime.playReplay(replay)).toBe(false);
+        expect(runtime.getState().isReplaying).toBe(false);
+    });
+
+    it('rewinds to earlier states while held', async () => {
+        const runtime = await loadRuntime();
+        const seen = new Set<number>();
+        for (let frame = 0; frame < 120; frame++) {
+            runtime.setGamepadButton(0, frame % 2 ? BUTTON_1 : BUTTON_RIGHT, true);
+            vi.advanceTimersByTime(17);
+            seen.add(hashOf(runtime));
+            runtime.setGamepadButton(0, 0xff, false);
+        }
+        const latest = hashOf(runtime);
+
+        runtime.setRewinding(true);
+        vi.advanceTimersByTime(500);
+        const rewound = hashOf(runtime);
+        runtime.setRewinding(false);
+
+        expect(rewound).not.toBe(latest);
+        expect(seen.has(rewound)).toBe(true);
+    });
+
+    it('does not rewind or load states during a recording', async () => {
+        const runtime = await loadRuntime();
+        const state = runtime.exportState();
+        runtime.startRecording();
+
+        runtime.setRewinding(true);
+        expect(runtime.getState().isRewinding).toBe(false);
+        expect(await runtime.importState(state ?? new Blob())).toBe(false);
+    });
+});
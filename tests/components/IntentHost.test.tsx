@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { IntentHost } from '../../components/IntentHost';
+import { DbProvider, NotificationProvider } from '../../context';
+import { requestIntent, startIntent } from '../../utils/intents';
+import type { IntentHandlerApp } from '../../utils/intents';
+
+const openWindow = vi.fn();
+
+vi.mock('../../context/OSContext', async importOriginal => ({
+    ...(await importOriginal<typeof import('../../context/OSContext')>()),
+    useOS: () => ({ openWindow }),
+}));
+
+const apps: IntentHandlerApp[] = [
+    { id: 'browser', title: 'Browser', icon: 'public', color: 'bg-blue-400', intents: [{ action: 'share:url' }] },
+    {
+        id: 'handoff',
+        title: 'Handoff',
+        icon: 'sync_alt',
+        color: 'bg-indigo-500',
+        intents: [{ action: 'share:url', toProps: ({ url }) => ({ sharedText: url }) }],
+    },
+];
+
+const renderHost = () =>
+    render(
+        <DbProvider>
+            <NotificationProvider>
+                <IntentHost apps={apps} />
+            </NotificationProvider>
+        </DbProvider>
+    );
+
+describe('IntentHost', () => {
+    beforeEach(() => {
+        openWindow.mockClear();
+    });
+
+    it('asks which app to use when several match', async () => {
+        const user = userEvent.setup();
+        renderHost();
+
+        const intent = startIntent('share:url', { url: 'https://example.com' });
+        await user.click(await screen.findByRole('button', { name: /Handoff/ }));
+
+        expect(openWindow).toHaveBeenCalledWith('handoff', { sharedText: 'https://example.com', intent });
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    it('delivers directly to a targeted app', () => {
+        renderHost();
+        const intent = startIntent('share:url', { url: 'https://example.com' }, { appId: 'browser' });
+        expect(openWindow).toHaveBeenCalledWith('browser', { intent });
+    });
+
+    it('answers with null when no app can handle the request', async () => {
+        renderHost();
+        await expect(requestIntent('pick:color', {})).resolves.toBeNull();
+        expect(openWindow).not.toHaveBeenCalled();
+    });
+});
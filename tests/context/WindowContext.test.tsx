@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import React from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { WindowProvider, useWindowManager } from '../../context/WindowContext';
+import { VirtualDesktopProvider, useVirtualDesktops } from '../../context/VirtualDesktopContext';
+import type { AppConfig } from '../../types';
+import { db } from '../../utils/storage/db';
+
+const Blank = () => null;
+
+const apps: AppConfig[] = [
+    { id: 'notepad', title: 'Notepad', icon: 'description', color: 'bg-blue-500', component: Blank },
+    {
+        id: 'settings',
+        title: 'Settings',
+        icon: 'settings',
+        color: 'bg-gray-500',
+        component: Blank,
+        singleInstance: true,
+    },
+];
+
+vi.mock('../../context/AppRegistryContext', () => ({
+    useAppRegistry: () => ({ apps, getApp: (id: string) => apps.find(app => app.id === id) }),
+}));
+
+vi.mock('../../context/StartMenuContext', () => ({
+    useStartMenu: () => ({ closeStartMenu: () => undefined }),
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <VirtualDesktopProvider>
+        <WindowProvider>{children}</WindowProvider>
+    </VirtualDesktopProvider>
+);
+
+describe('WindowContext instances', () => {
+    // Start each test without a saved session to restore
+    beforeEach(async () => {
+        await db.kv.clear();
+    });
+
+    it('opens numbered windows per app and reuses freed instance numbers', () => {
+        const { result } = renderHook(() => useWindowManager(), { wrapper });
+
+        act(() => result.current.openWindow('notepad'));
+        act(() => result.current.openWindow('notepad'));
+        expect(result.current.windows).toHaveLength(1);
+
+        act(() => result.current.openNewWindow('notepad'));
+        act(() => result.current.openNewWindow('notepad'));
+        expect(result.current.windows.map(w => [w.instance, w.title])).toEqual([
+            [1, 'Notepad'],
+            [2, 'Notepad (2)'],
+            [3, 'Notepad (3)'],
+        ]);
+
+        const second = result.current.windows[1];
+        act(() => result.current.closeWindow(second?.id ?? ''));
+        act(() => result.current.openNewWindow('notepad'));
+        expect(result.current.windows.map(w => w.instance)).toEqual([1, 3, 2]);
+    });
+
+    it('keeps single-instance apps to one window', () => {
+        const { result } = renderHook(() => useWindowManager(), { wrapper });
+
+        act(() => result.current.openNewWindow('settings'));
+        act(() => result.current.openNewWindow('settings'));
+        expect(result.current.windows).toHaveLength(1);
+    });
+
+    it('snaps windows and minimizes and restores snap groups together', () => {
+        const { result } = renderHook(() => useWindowManager(), { wrapper });
+
+        act(() => result.current.openWindow('notepad'));
+        act(() => result.current.openNewWindow('notepad'));
+        const [first, second] = result.current.windows.map(w => w.id);
+        const before = result.current.windows[0];
+
+        act(() => result.current.snapWindow(first ?? '', 'left', { groupId: 'pair' }));
+        act(() => result.current.snapWindow(second ?? '', 'right', { groupId: 'pair' }));
+        expect(result.current.windows.map(w => w.snap?.slot)).toEqual(['left', 'right']);
+
+        act(() => result.current.setSnapGroupMinimized('pair', true));
+        expect(result.current.windows.every(w => w.isMinimized)).toBe(true);
+        act(() => result.current.setSnapGroupMinimized('pair', false));
+        expect(result.current.windows.some(w => w.isMinimized)).toBe(false);
+
+        act(() => result.current.unsnapWindow(first ?? ''));
+        expect(result.current.windows[0]).toMatchObject({ snap: undefined, size: before?.size });
+    });
+
+    it('keeps windows on their virtual desktop and rehomes them when a desktop is deleted', async () => {
+        const { result } = renderHook(() => ({ ...useWindowManager(), ...useVirtualDesktops() }), { wrapper });
+        await waitFor(() => expect(result.current.isLoaded).toBe(true));
+
+        act(() => result.current.openWindow('notepad'));
+        const primaryId = result.current.activeDesktopId;
+        let secondId = '';
+        act(() => {
+            secondId = result.current.createDesktop();
+        });
+        act(() => result.current.switchDesktop(secondId));
+        act(() => result.current.openWindow('settings'));
+        expect(result.current.desktopWindows.map(w => w.appId)).toEqual(['settings']);
+
+        // Opening an app whose window is on another desktop switches to that desktop
+        act(() => result.current.openWindow('notepad'));
+        expect(result.current.activeDesktopId).toBe(primaryId);
+        expect(result.current.desktopWindows.map(w => w.appId)).toEqual(['notepad']);
+
+        const notepad = result.current.windows.find(w => w.appId === 'notepad');
+        act(() => result.current.moveWindowToDesktop(notepad?.id ?? '', secondId));
+        expect(result.current.desktopWindows).toHaveLength(0);
+
+        act(() => result.current.deleteDesktop(secondId));
+        await waitFor(() => expect(result.current.desktopWindows).toHaveLength(2));
+        expect(result.current.windows.every(w => w.desktopId === primaryId)).toBe(true);
+    });
+
+    it('replaces the windows on the active desktop with a saved layout', () => {
+        const { result } = renderHook(() => useWindowManager(), { wrapper });
+        act(() => result.current.openWindow('settings'));
+
+        const geometry = { position: { x: 10, y: 20 }, size: { width: 300, height: 200 } };
+        act(() =>
+            result.current.restoreWindowLayout([
+                { appId: 'notepad', instance: 2, isMaximized: false, ...geometry },
+                { appId: 'missing', instance: 1, isMaximized: false, ...geometry },
+                { appId: 'notepad', instance: 1, isMaximized: true, ...geometry },
+            ])
+        );
+        expect(result.current.windows.map(w => [w.appId, w.instance, w.isMaximized])).toEqual([
+            ['notepad', 2, false],
+            ['notepad', 1, true],
+        ]);
+        expect(result.current.windows[0]).toMatchObject(geometry);
+    });
+});
@@ -5,6 +5,7 @@
 import 'fake-indexeddb/auto';
 import '@testing-library/jest-dom/vitest';
 import { beforeAll, beforeEach, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
 
 // Mock localStorage for tests
 const localStorageMock = (() => {
@@ -31,6 +32,9 @@ Object.defineProperty(window, 'localStorage', {
     value: localStorageMock,
 });
 
+// Use Node's Blob (jsdom's lacks arrayBuffer() and cannot be stored in fake-indexeddb)
+Object.defineProperty(globalThis, 'Blob', { value: NodeBlob, writable: true, configurable: true });
+
 // Mock pointer capture methods (not available in jsdom)
 window.Element.prototype.setPointerCapture = vi.fn();
 window.Element.prototype.releasePointerCapture = vi.fn();
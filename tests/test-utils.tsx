@@ -10,15 +10,22 @@ import { vi } from 'vitest';
 export const mockOSContext = {
     // Window management
     windows: [],
+    desktopWindows: [],
     openWindow: vi.fn(),
+    openNewWindow: vi.fn(),
     closeWindow: vi.fn(),
     minimizeWindow: vi.fn(),
     toggleMaximizeWindow: vi.fn(),
     focusWindow: vi.fn(),
     resizeWindow: vi.fn(),
     updateWindowPosition: vi.fn(),
+    snapWindow: vi.fn(),
+    unsnapWindow: vi.fn(),
+    setSnapGroupMinimized: vi.fn(),
+    moveWindowToDesktop: vi.fn(),
     // App registry
     registerApp: vi.fn(),
+    unregisterApp: vi.fn(),
     apps: [
         { id: 'notepad', title: 'Notepad', icon: 'edit_note', color: 'bg-yellow-500' },
         { id: 'calculator', title: 'Calculator', icon: 'calculate', color: 'bg-blue-500' },
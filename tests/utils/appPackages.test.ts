@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    createBridgeMessage,
+    createSandboxDocument,
+    handleBridgeRequest,
+    installAppPackage,
+    isAppPackageError,
+    isBridgeMessage,
+    parseAppPackage,
+    uninstallAppPackage,
+} from '../../utils/appPackages';
+import type { AppPackageErrorCode, BridgeServices } from '../../utils/appPackages';
+import { db } from '../../utils/storage/db';
+
+const packageText = (manifest: Record<string, unknown>, extra: Record<string, unknown> = {}) =>
+    JSON.stringify({ manifest, bundle: 'export default root => { root.textContent = "hi"; };', ...extra });
+
+const expectPackageError = (text: string, code: AppPackageErrorCode) => {
+    try {
+        parseAppPackage(text);
+    } catch (error) {
+        expect(isAppPackageError(error, code)).toBe(true);
+        return error as Error;
+    }
+    throw new Error('expected parseAppPackage to throw');
+};
+
+describe('app packages', () => {
+    it('parses and validates package documents', () => {
+        const pkg = parseAppPackage(
+            packageText(
+                { id: 'team-timer', name: 'Team Timer', version: '1.2.0' },
+                { icon: 'data:image/png;base64,AA' }
+            )
+        );
+        expect(pkg.manifest.name).toBe('Team Timer');
+        expect(pkg.icon).toBe('data:image/png;base64,AA');
+
+        expectPackageError('not json', 'EPARSE');
+        const error = expectPackageError(
+            packageText({ id: 'Team Timer', name: '', version: 'latest' }, { icon: 'javascript:alert(1)' }),
+            'EMANIFEST'
+        );
+        expect(error.message).toContain('Field "id"');
+        expect(error.message).toContain('version');
+        expect(error.message).toContain('Field "icon"');
+        expectPackageError(JSON.stringify({ manifest: { id: 'a', name: 'A', version: '1' } }), 'EMANIFEST');
+    });
+
+    it('installs, updates and uninstalls packages', async () => {
+        const v1 = parseAppPackage(packageText({ id: 'notes-plus', name: 'Notes+', version: '1.0.0' }));
+        const installed = await installAppPackage(db, v1, '/Downloads/notes.w15app');
+
+        const v2 = parseAppPackage(packageText({ id: 'notes-plus', name: 'Notes+', version: '1.1.0' }));
+        const updated = await installAppPackage(db, v2, 'https://example.com/notes.w15app');
+        expect(updated.installedAt).toBe(installed.installedAt);
+        expect(await db.$appPackages.get('notes-plus')).toMatchObject({
+            version: '1.1.0',
+            source: 'https://example.com/notes.w15app',
+        });
+
+        await uninstallAppPackage(db, 'notes-plus');
+        expect(await db.$appPackages.get('notes-plus')).toBeUndefined();
+    });
+
+    it('answers bridge requests without letting apps break the host', async () => {
+        const services = {
+            'window.setTitle': vi.fn(),
+            'clipboard.readText': vi.fn(() => Promise.reject(new Error('denied'))),
+        } as unknown as BridgeServices;
+        const authorize = vi.fn(() => Promise.resolve(true));
+        const request = (payload: unknown) =>
+            handleBridgeRequest(services, createBridgeMessage('timer', 'request', payload, '7'), authorize);
+
+        expect(await request({ method: 'window.setTitle', params: { title: 'Lap 2' } })).toMatchObject({
+            kind: 'response',
+            requestId: '7',
+            payload: { ok: true, result: null },
+        });
+        expect(services['window.setTitle']).toHaveBeenCalledWith({ title: 'Lap 2' });
+
+        expect((await request({ method: 'window.setTitle', params: { title: 42 } })).payload).toEqual({
+            ok: false,
+            error: 'Invalid parameters for window.setTitle',
+        });
+        expect((await request({ method: 'storage.dump' })).payload).toEqual({
+            ok: false,
+            error: 'Unknown method: storage.dump',
+        });
+        expect((await request({ method: 'clipboard.readText' })).payload).toEqual({ ok: false, error: 'denied' });
+        expect(authorize).toHaveBeenCalledWith('clipboard-read');
+
+        authorize.mockResolvedValue(false);
+        expect((await request({ method: 'clipboard.readText' })).payload).toEqual({
+            ok: false,
+            error: 'Permission denied: clipboard-read',
+        });
+        expect(services['clipboard.readText']).toHaveBeenCalledTimes(1);
+
+        expect(isBridgeMessage(createBridgeMessage('timer', 'hello'), 'timer')).toBe(true);
+        expect(isBridgeMessage(createBridgeMessage('other', 'hello'), 'timer')).toBe(false);
+        expect(isBridgeMessage({ appId: 'timer', kind: 'hello' }, 'timer')).toBe(false);
+    });
+
+    it('blocks network access and form submissions without the network permission', () => {
+        const policy = (network: boolean) =>
+            new DOMParser()
+                .parseFromString(createSandboxDocument('timer', { network }), 'text/html')
+                .querySelector('meta[http-equiv="Content-Security-Policy"]')
+                ?.getAttribute('content');
+
+        expect(policy(false)).toContain("connect-src 'none'");
+        expect(policy(false)).toContain("form-action 'none'");
+        expect(policy(true)).toContain('connect-src https:');
+        expect(policy(true)).toContain('form-action https:');
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { clearArcadeDisk, loadArcadeDisk, saveArcadeDisk } from '../../utils/arcadeDisks';
+import { db } from '../../utils/storage/db';
+
+describe('arcade disks', () => {
+    afterEach(async () => {
+        await db.$arcadeDisks.clear();
+    });
+
+    it('loads an empty disk for games that never saved', async () => {
+        expect(await loadArcadeDisk(db, 'snake')).toEqual(new Uint8Array(0));
+    });
+
+    it('saves, replaces and clears a game disk', async () => {
+        await saveArcadeDisk(db, 'snake', new Uint8Array([1, 2, 3]));
+        const first = await db.$arcadeDisks.get('snake');
+
+        await saveArcadeDisk(db, 'snake', new Uint8Array([4]));
+        const second = await db.$arcadeDisks.get('snake');
+
+        expect(await loadArcadeDisk(db, 'snake')).toEqual(new Uint8Array([4]));
+        expect(second?.createdAt).toBe(first?.createdAt);
+        expect(second?.updatedAt).toBeGreaterThanOrEqual(first?.updatedAt ?? 0);
+
+        await clearArcadeDisk(db, 'snake');
+        expect(await loadArcadeDisk(db, 'snake')).toEqual(new Uint8Array(0));
+    });
+
+    it('keeps each game disk separate', async () => {
+        await saveArcadeDisk(db, 'snake', new Uint8Array([1]));
+        await saveArcadeDisk(db, 'tetris', new Uint8Array([2]));
+        await clearArcadeDisk(db, 'snake');
+
+        expect(await loadArcadeDisk(db, 'tetris')).toEqual(new Uint8Array([2]));
+    });
+});
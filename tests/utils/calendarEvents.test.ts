@@ -0,0 +1,233 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+    calendarEventsFromICalendar,
+    calendarEventsToICalendar,
+    deleteOccurrence,
+    describeRecurrence,
+    expandCalendarEvents,
+    getUpcomingReminders,
+    listCalendarEvents,
+    rescheduleOccurrence,
+    saveCalendarEvents,
+    seedCalendarEvents,
+    type CalendarEvent,
+} from '../../utils/calendarEvents';
+import { parseICalendar, serializeICalendar } from '../../utils/ical';
+import { db } from '../../utils/storage/db';
+import { STORAGE_KEYS } from '../../utils/storage/localStorage';
+import { migrateCalendarEventsToDexieTable } from '../../utils/storage/migrations';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/ical', name), 'utf8');
+
+const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id: 'standup',
+    title: 'Stand-up',
+    date: '2026-03-02',
+    allDay: false,
+    startTime: '09:30',
+    endTime: '09:45',
+    location: '',
+    notes: '',
+    ...overrides,
+});
+
+const march = { start: new Date(2026, 2, 1), end: new Date(2026, 3, 1) };
+
+const dates = (events: CalendarEvent[], range = march) =>
+    expandCalendarEvents(events, range).map(occurrence => occurrence.date);
+
+describe('expandCalendarEvents', () => {
+    it('repeats on the rule weekdays and skips exception dates', () => {
+        const event = makeEvent({
+            rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260318',
+            exdates: ['2026-03-09'],
+        });
+        expect(dates([event])).toEqual(['2026-03-02', '2026-03-04', '2026-03-11', '2026-03-16', '2026-03-18']);
+    });
+
+    it('keeps multi-day events as one occurrence and ignores unreadable rules', () => {
+        const trip = makeEvent({ id: 'trip', allDay: true, date: '2026-03-30', endDate: '2026-04-02' });
+        const broken = makeEvent({ id: 'broken', date: '2026-03-05', rrule: 'INTERVAL=2' });
+        const [brokenOccurrence, tripOccurrence] = expandCalendarEvents([trip, broken], march).sort((a, b) =>
+            a.event.id.localeCompare(b.event.id)
+        );
+        expect(brokenOccurrence?.date).toBe('2026-03-05');
+        expect(tripOccurrence).toMatchObject({ date: '2026-03-30', endDate: '2026-04-02' });
+        expect(tripOccurrence?.end).toEqual(new Date(2026, 3, 3));
+    });
+});
+
+describe('rescheduleOccurrence and deleteOccurrence', () => {
+    it('moves a single event, keeping its length', () => {
+        const event = makeEvent({ endTime: '10:30' });
+        const [occurrence] = expandCalendarEvents([event], march);
+        if (!occurrence) throw new Error('missing occurrence');
+        expect(rescheduleOccurrence([event], occurrence, '2026-03-03', '23:30')).toEqual([
+            { ...event, date: '2026-03-03', endDate: '2026-03-04', startTime: '23:30', endTime: '00:30' },
+        ]);
+    });
+
+    it('splits a moved occurrence off its series', () => {
+        const series = makeEvent({ rrule: 'FREQ=DAILY;COUNT=3', reminders: [15] });
+        const second = expandCalendarEvents([series], march)[1];
+        if (!second) throw new Error('missing occurrence');
+
+        const moved = rescheduleOccurrence([series], second, '2026-03-03', '14:00');
+        expect(moved).toHaveLength(2);
+        expect(moved[0]).toMatchObject({ id: 'standup', exdates: ['2026-03-03'] });
+        expect(moved[1]).toMatchObject({ title: 'Stand-up', date: '2026-03-03', startTime: '14:00', reminders: [15] });
+        expect(moved[1]?.rrule).toBeUndefined();
+        expect(moved[1]?.id).not.toBe('standup');
+        expect(expandCalendarEvents(moved, march).map(o => `${o.date} ${o.event.startTime}`)).toEqual([
+            '2026-03-02 09:30',
+            '2026-03-03 14:00',
+            '2026-03-04 09:30',
+        ]);
+
+        expect(dates(deleteOccurrence([series], second))).toEqual(['2026-03-02', '2026-03-04']);
+        expect(deleteOccurrence([makeEvent()], { event: makeEvent(), date: '2026-03-02' })).toEqual([]);
+    });
+});
+
+describe('getUpcomingReminders', () => {
+    it('reminds timed events 5 minutes ahead unless reminders are set', () => {
+        const events = [
+            makeEvent({ rrule: 'FREQ=DAILY' }),
+            makeEvent({ id: 'review', date: '2026-03-03', startTime: '11:00', reminders: [0, 60] }),
+            makeEvent({ id: 'holiday', date: '2026-03-03', allDay: true }),
+        ];
+        const reminders = getUpcomingReminders(events, new Date(2026, 2, 2, 12), new Date(2026, 2, 3, 12));
+        expect(reminders.map(r => [r.occurrence.event.id, r.at.getHours(), r.at.getMinutes()])).toEqual([
+            ['standup', 9, 25],
+            ['review', 10, 0],
+            ['review', 11, 0],
+        ]);
+    });
+});
+
+describe('iCalendar import and export', () => {
+    it('imports a moved occurrence as its own event and alarms as reminders', () => {
+        const [standup, moved] = calendarEventsFromICalendar(parseICalendar(fixture('google.ics')));
+        expect(standup).toMatchObject({
+            title: 'Stand-up',
+            date: '2026-03-02',
+            location: 'Room 4, Floor 2',
+            rrule: 'FREQ=WEEKLY;COUNT=8;BYDAY=MO,WE;WKST=SU',
+            exdates: ['2026-03-04', '2026-03-11'],
+            reminders: [10],
+        });
+        expect(moved).toMatchObject({ title: 'Stand-up (moved)', date: '2026-03-11' });
+        expect(moved?.rrule).toBeUndefined();
+    });
+
+    it('round-trips recurring and all-day events through an .ics file', () => {
+        const events = [
+            makeEvent({ rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20260601', exdates: ['2026-03-16'] }),
+            makeEvent({
+                id: 'offsite',
+                allDay: true,
+                date: '2026-03-12',
+                endDate: '2026-03-14',
+                startTime: '00:00',
+                endTime: '23:59',
+                reminders: [1440],
+            }),
+        ];
+        const text = serializeICalendar(calendarEventsToICalendar(events));
+        const imported = calendarEventsFromICalendar(parseICalendar(text));
+
+        expect(imported.map(({ id: _id, rrule: _rrule, ...rest }) => rest)).toEqual(
+            events.map(({ id: _id, rrule: _rrule, ...rest }) => ({ ...rest, reminders: rest.reminders ?? [5] }))
+        );
+        const year = { start: new Date(2026, 0, 1), end: new Date(2027, 0, 1) };
+        expect(dates(imported, year)).toEqual(dates(events, year));
+    });
+});
+
+describe('describeRecurrence', () => {
+    it('describes common rules and falls back for complex ones', () => {
+        expect(describeRecurrence(makeEvent())).toBeNull();
+        expect(describeRecurrence(makeEvent({ rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE' }))).toBe(
+            'Every 2 weeks on Mon, Wed'
+        );
+        expect(describeRecurrence(makeEvent({ rrule: 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=6' }))).toBe(
+            'Every month on last Fri, 6 times'
+        );
+        expect(describeRecurrence(makeEvent({ rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' }))).toBe(
+            'Custom repeat'
+        );
+    });
+});
+
+describe('calendarEvents table', () => {
+    afterEach(async () => {
+        await db.calendarEvents.clear();
+        await db.kv.bulkDelete([STORAGE_KEYS.calendarEvents, STORAGE_KEYS.calendarSeeded]);
+    });
+
+    it('moves events out of the kv blob once', async () => {
+        await db.kv.put({
+            key: STORAGE_KEYS.calendarEvents,
+            valueJson: JSON.stringify([
+                { id: 'dentist', title: 'Dentist', date: '2026-03-02' },
+                makeEvent({ rrule: 'FREQ=DAILY;COUNT=3' }),
+                { title: 'No id' },
+            ]),
+            updatedAt: 1000,
+        });
+
+        expect(await migrateCalendarEventsToDexieTable(db)).toBe(2);
+        expect(await db.kv.get(STORAGE_KEYS.calendarEvents)).toBeUndefined();
+        expect(await db.calendarEvents.get('dentist')).toMatchObject({
+            allDay: false,
+            startTime: '09:00',
+            location: '',
+            lastDate: '2026-03-02',
+            createdAt: 1000,
+        });
+        expect((await db.calendarEvents.get('standup'))?.lastDate).toBe('2026-03-04');
+        expect(await migrateCalendarEventsToDexieTable(db)).toBe(0);
+    });
+
+    it('seeds sample events on the first run only', async () => {
+        const seed = () => [makeEvent({ id: 'sample' })];
+
+        expect(await seedCalendarEvents(db, seed)).toBe(true);
+        expect(await seedCalendarEvents(db, seed)).toBe(false);
+        expect((await listCalendarEvents(db)).map(event => event.id)).toEqual(['sample']);
+
+        // Deleting every event does not bring the samples back
+        await db.calendarEvents.clear();
+        expect(await seedCalendarEvents(db, seed)).toBe(false);
+        expect(await db.calendarEvents.count()).toBe(0);
+    });
+
+    it('does not seed calendars that had events before', async () => {
+        await db.kv.put({ key: STORAGE_KEYS.calendarEvents, valueJson: '[]', updatedAt: 1000 });
+        await migrateCalendarEventsToDexieTable(db);
+
+        expect(await seedCalendarEvents(db, () => [makeEvent()])).toBe(false);
+        expect(await db.calendarEvents.count()).toBe(0);
+    });
+
+    it('saves edits and lists the events that may occur in a range', async () => {
+        const weekly = makeEvent({ rrule: 'FREQ=WEEKLY' });
+        const trip = makeEvent({ id: 'trip', allDay: true, date: '2026-03-30', endDate: '2026-04-02' });
+        const april = makeEvent({ id: 'april', date: '2026-04-10' });
+        await saveCalendarEvents(db, [], [april, trip, weekly]);
+
+        const ids = async (range?: { start: string; end: string }) =>
+            (await listCalendarEvents(db, range)).map(event => event.id);
+        expect(await ids()).toEqual(['standup', 'trip', 'april']);
+        expect(await ids({ start: '2026-04-01', end: '2026-04-05' })).toEqual(['standup', 'trip']);
+        expect(await ids({ start: '2026-02-01', end: '2026-02-28' })).toEqual([]);
+
+        const created = (await db.calendarEvents.get('standup'))?.createdAt;
+        const stored = await listCalendarEvents(db);
+        await saveCalendarEvents(db, stored, [{ ...weekly, title: 'Daily sync' }, trip]);
+        expect(await ids()).toEqual(['standup', 'trip']);
+        expect(await db.calendarEvents.get('standup')).toMatchObject({ title: 'Daily sync', createdAt: created });
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createCommandRegistry, formatCommandUsage, EXIT_USAGE } from '../../utils/shell';
+import type { TerminalCommand, TerminalServices } from '../../utils/shell';
+
+const services = {} as TerminalServices;
+
+const noteCommand: TerminalCommand = {
+    name: 'note',
+    description: 'Manage notes',
+    subcommands: [
+        {
+            name: 'add',
+            description: 'Add a note',
+            args: [{ name: 'text', variadic: true }],
+            run: ({ args, stdout }) => {
+                stdout(`added ${args.join(' ')}`);
+            },
+        },
+        {
+            name: 'open',
+            description: 'Open a note',
+            args: [{ name: 'name' }, { name: 'mode', optional: true }],
+            complete: () => ['alpha', 'beta', 'alpine'],
+            run: ({ args, stdout }) => {
+                stdout(args.join(','));
+                return 3;
+            },
+        },
+    ],
+};
+
+const execute = async (registry: ReturnType<typeof createCommandRegistry>, argv: string[], stdin = '') => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const status = await registry.execute(argv, {
+        stdin,
+        stdout: line => stdout.push(line),
+        stderr: line => stderr.push(line),
+        isTerminal: true,
+        env: {},
+        cwd: '/',
+        services,
+    });
+    return { status, stdout, stderr };
+};
+
+describe('command registry', () => {
+    it('registers, lists and unregisters commands', () => {
+        const registry = createCommandRegistry();
+        const unregister = registry.register({ ...noteCommand, name: 'Note' }, 'notepad');
+
+        expect(registry.get('NOTE')?.source).toBe('notepad');
+        expect(registry.list().map(command => command.name)).toEqual(['note']);
+
+        unregister();
+        expect(registry.get('note')).toBeUndefined();
+    });
+
+    it('keeps the newer command when an older registration is removed', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const registry = createCommandRegistry();
+        const first = registry.register(noteCommand, 'a');
+        registry.register(noteCommand, 'b');
+
+        first();
+        expect(registry.get('note')?.source).toBe('b');
+        expect(warn).toHaveBeenCalledOnce();
+        warn.mockRestore();
+    });
+
+    it('dispatches subcommands and returns their exit status', async () => {
+        const registry = createCommandRegistry();
+        registry.register(noteCommand);
+
+        expect(await execute(registry, ['note', 'add', 'buy', 'milk'])).toEqual({
+            status: 0,
+            stdout: ['added buy milk'],
+            stderr: [],
+        });
+        expect((await execute(registry, ['note', 'open', 'alpha', 'ro'])).status).toBe(3);
+        expect((await execute(registry, ['unknown'])).status).toBeNull();
+    });
+
+    it('prints usage for missing subcommands and wrong argument counts', async () => {
+        const registry = createCommandRegistry();
+        registry.register(noteCommand);
+
+        expect(await execute(registry, ['note'])).toMatchObject({
+            status: EXIT_USAGE,
+            stderr: ['Usage: note <add|open>'],
+        });
+        expect(await execute(registry, ['note', 'add'])).toMatchObject({
+            status: EXIT_USAGE,
+            stderr: ['Usage: note add <text...>'],
+        });
+        expect(await execute(registry, ['note', 'open', 'a', 'b', 'c'])).toMatchObject({
+            status: EXIT_USAGE,
+            stderr: ['Usage: note open <name> [mode]'],
+        });
+    });
+
+    it('completes command names, subcommands and arguments', async () => {
+        const registry = createCommandRegistry();
+        registry.register(noteCommand);
+        const context = { cwd: '/', env: {}, services };
+
+        expect(await registry.complete(['no'], context)).toEqual(['note']);
+        expect(await registry.complete(['note', ''], context)).toEqual(['add', 'open']);
+        expect(await registry.complete(['note', 'o'], context)).toEqual(['open']);
+        expect(await registry.complete(['note', 'open', 'al'], context)).toEqual(['alpha', 'alpine']);
+        expect(await registry.complete(['note', 'add', ''], context)).toEqual([]);
+    });
+
+    it('formats usage lines', () => {
+        expect(formatCommandUsage(noteCommand)).toBe('note <add|open>');
+        expect(formatCommandUsage({ name: 'x', description: '', usage: 'x [--all]' })).toBe('x [--all]');
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { vfs } from '../../utils/vfs';
+import { runScript, terminalCommands, completePath } from '../../utils/shell';
+import type { ShellCommandRunner, TerminalServices } from '../../utils/shell';
+
+const services = {} as TerminalServices;
+
+/**
+ * Host with `echo` plus the registered utilities
+ */
+const runCommand: ShellCommandRunner = async (argv, io, env) => {
+    if (argv[0] === 'echo') {
+        io.stdout(argv.slice(1).join(' '));
+        return 0;
+    }
+    const status = await terminalCommands.execute(argv, { ...io, env, cwd: '/Work', services });
+    if (status === null) {
+        io.stderr(`${argv[0]}: not found`);
+        return 127;
+    }
+    return status;
+};
+
+const run = async (source: string) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const status = await runScript(
+        source,
+        { env: {}, cwd: () => '/Work', runCommand },
+        { stdout: line => stdout.push(line), stderr: line => stderr.push(line) }
+    );
+    return { status, stdout, stderr };
+};
+
+describe('shell utilities', () => {
+    beforeAll(async () => {
+        await vfs.writeFile('/Work/fruit.txt', 'banana\nApple\ncherry\napple\napple\n', { recursive: true });
+        await vfs.writeFile('/Work/src/main.ts', 'const apple = 1;\nexport default apple;\n', { recursive: true });
+        await vfs.writeFile('/Work/src/util/readme.md', '# Utils\n', { recursive: true });
+    });
+
+    it('greps with regex, -i, -n and -r', async () => {
+        expect((await run('grep ^a fruit.txt')).stdout).toEqual(['apple', 'apple']);
+        expect((await run('grep -in "^a" fruit.txt')).stdout).toEqual(['2:Apple', '4:apple', '5:apple']);
+        expect((await run('grep -r apple src')).stdout).toEqual([
+            'src/main.ts:const apple = 1;',
+            'src/main.ts:export default apple;',
+        ]);
+        expect((await run('grep kiwi fruit.txt')).status).toBe(1);
+        expect((await run('grep "(" fruit.txt')).status).toBe(2);
+        expect((await run('grep x src')).stderr).toEqual(['grep: src: Is a directory']);
+    });
+
+    it('filters stdin with head, tail, sort, uniq and wc', async () => {
+        expect((await run('head -n 2 fruit.txt')).stdout).toEqual(['banana', 'Apple']);
+        expect((await run('tail -2 fruit.txt')).stdout).toEqual(['apple', 'apple']);
+        expect((await run('tail -n +4 fruit.txt')).stdout).toEqual(['apple', 'apple']);
+        expect((await run('sort -f fruit.txt | uniq -ci')).stdout).toEqual([
+            '      3 Apple',
+            '      1 banana',
+            '      1 cherry',
+        ]);
+        expect((await run('sort -ru fruit.txt')).stdout).toEqual(['cherry', 'banana', 'apple', 'Apple']);
+        expect((await run('wc fruit.txt')).stdout).toEqual(['      5       5      32 fruit.txt']);
+        expect((await run('grep apple fruit.txt | wc -l')).stdout).toEqual(['      2']);
+        expect((await run('head -n 1 < fruit.txt')).stdout).toEqual(['banana']);
+    });
+
+    it('finds files by name and type', async () => {
+        expect((await run('find . -name "*.md"')).stdout).toEqual(['./src/util/readme.md']);
+        expect((await run('find . -name "*.MD"')).stdout).toEqual([]);
+        expect((await run('find . -iname "*.MD"')).stdout).toEqual(['./src/util/readme.md']);
+        expect((await run('find src -type d')).stdout).toEqual(['src', 'src/util']);
+        expect((await run('find missing')).status).toBe(1);
+    });
+
+    it('copies, moves and removes through the Recycle Bin', async () => {
+        await run('cp fruit.txt copy.txt && mv copy.txt moved.txt');
+        expect(await vfs.readFile('/Work/moved.txt')).toContain('banana');
+        expect(await vfs.exists('/Work/copy.txt')).toBe(false);
+
+        expect((await run('cp src backup')).stderr).toEqual(["cp: -r not specified; omitting directory 'src'"]);
+        await run('cp -r src backup');
+        expect(await vfs.readFile('/Work/backup/util/readme.md')).toBe('# Utils\n');
+
+        expect((await run('rm backup')).stderr).toEqual(["rm: cannot remove 'backup': Is a directory"]);
+        const result = await run('rm -r backup moved.txt && rm -f nothing.txt');
+        expect(result.status).toBe(0);
+        expect(await vfs.exists('/Work/backup')).toBe(false);
+        expect(await vfs.readFile('/Recycle Bin/moved.txt')).toContain('banana');
+    });
+
+    it('renames by case alone with mv', async () => {
+        await vfs.writeFile('/Work/case.txt', 'case');
+
+        const result = await run('mv case.txt Case.txt');
+        expect(result).toMatchObject({ status: 0, stderr: [] });
+        expect((await vfs.stat('/Work/case.txt'))?.path).toBe('/Work/Case.txt');
+
+        expect((await run('mv Case.txt Case.txt')).stderr).toEqual(["mv: 'Case.txt' and 'Case.txt' are the same file"]);
+        expect((await run('cp Case.txt CASE.txt')).stderr).toEqual(["cp: 'Case.txt' and 'CASE.txt' are the same file"]);
+        await vfs.remove('/Work/Case.txt', { permanent: true });
+    });
+
+    it('prints a folder tree', async () => {
+        expect((await run('tree src')).stdout).toEqual([
+            'src',
+            '├── main.ts',
+            '└── util',
+            '    └── readme.md',
+            '',
+            '1 directory, 2 files',
+        ]);
+    });
+
+    it('completes paths relative to the working directory', async () => {
+        const context = { cwd: '/Work', env: {}, services };
+        expect(await completePath(['src/'], context)).toEqual(['src/main.ts', 'src/util/']);
+        expect(await terminalCommands.complete(['grep', 'apple', 'fr'], context)).toEqual(['fruit.txt']);
+    });
+});
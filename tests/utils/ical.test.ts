@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+    expandEvents,
+    expandRecurrence,
+    foldLine,
+    isICalError,
+    parseDateTime,
+    parseICalendar,
+    parseRecurrenceRule,
+    serializeICalendar,
+    toDate,
+    unfoldLines,
+} from '../../utils/ical';
+
+const fixture = (name: string) => readFileSync(join(__dirname, '../fixtures/ical', name), 'utf8');
+
+const encoder = new TextEncoder();
+
+const isoStarts = (text: string, start: string, end: string) => {
+    const calendar = parseICalendar(text);
+    return expandEvents(calendar.events, { start: new Date(start), end: new Date(end) }, calendar.timezones).map(
+        occurrence => [occurrence.start.toISOString(), occurrence.event.summary]
+    );
+};
+
+describe('iCalendar content lines', () => {
+    it('folds at 75 octets without splitting characters and unfolds back', () => {
+        const line = `DESCRIPTION:${'é'.repeat(30)}${'x'.repeat(60)}—end`;
+        const folded = foldLine(line);
+        folded.split('\r\n').forEach(part => expect(encoder.encode(part).length).toBeLessThanOrEqual(75));
+        expect(unfoldLines(folded)).toEqual([line]);
+    });
+});
+
+describe('parseICalendar', () => {
+    it('reads text, alarms, exceptions and overrides from a Google Calendar export', () => {
+        const calendar = parseICalendar(fixture('google.ics'));
+        expect(calendar.method).toBe('PUBLISH');
+        expect(calendar.timezones.map(tz => tz.tzid)).toEqual(['America/New_York']);
+
+        const [standup, moved] = calendar.events;
+        expect(standup?.summary).toBe('Stand-up');
+        expect(standup?.location).toBe('Room 4, Floor 2');
+        expect(standup?.description).toBe(
+            "Stand-up for the platform team, twice a week.\n\nAgenda: blockers; what shipped; what's next. " +
+                "Join from the café if you're remote — the link is in the room."
+        );
+        expect(standup?.start).toMatchObject({ hour: 9, minute: 30, tzid: 'America/New_York' });
+        expect(standup?.rrule).toMatchObject({ freq: 'WEEKLY', count: 8, wkst: 'SU' });
+        expect(standup?.exdates).toHaveLength(1);
+        expect(standup?.alarms[0]).toMatchObject({
+            action: 'DISPLAY',
+            trigger: { type: 'relative', related: 'START', duration: { negative: true, minutes: 10 } },
+        });
+        expect(moved?.recurrenceId).toMatchObject({ day: 11, hour: 9, minute: 30 });
+    });
+
+    it('reads all-day, zoned and categorised events from an Outlook export', () => {
+        const calendar = parseICalendar(fixture('outlook.ics'));
+        const [offsite, steering] = calendar.events;
+        expect(offsite?.start).toMatchObject({ isDate: true, day: 12 });
+        expect(offsite?.end).toMatchObject({ isDate: true, day: 15 });
+        expect(steering?.start.tzid).toBe('W. Europe Standard Time');
+        expect(steering?.categories).toEqual(['Management', 'Planning']);
+        expect(steering?.properties.map(p => p.name)).toContain('PRIORITY');
+    });
+
+    it('rejects text without a calendar and malformed values', () => {
+        expect(() => parseICalendar('hello')).toThrow();
+        try {
+            parseICalendar('BEGIN:VEVENT\r\nEND:VEVENT\r\n');
+        } catch (error) {
+            expect(isICalError(error, 'EPARSE')).toBe(true);
+        }
+        expect(() => parseRecurrenceRule('INTERVAL=2')).toThrow();
+        expect(() => parseDateTime('20261340')).toThrow();
+    });
+});
+
+describe('serializeICalendar', () => {
+    it.each(['google.ics', 'outlook.ics'])('round-trips %s', name => {
+        const parsed = parseICalendar(fixture(name));
+        const written = serializeICalendar(parsed);
+
+        expect(written.endsWith('\r\n')).toBe(true);
+        written.split('\r\n').forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+        expect(parseICalendar(written)).toEqual(parsed);
+        expect(serializeICalendar(parseICalendar(written))).toBe(written);
+    });
+});
+
+describe('expandEvents', () => {
+    it('expands a weekly rule across a DST change with EXDATE and a moved occurrence', () => {
+        expect(isoStarts(fixture('google.ics'), '2026-03-01T00:00:00Z', '2026-04-01T00:00:00Z')).toEqual([
+            ['2026-03-02T14:30:00.000Z', 'Stand-up'],
+            // 9:30 EDT after the March 8 change
+            ['2026-03-09T13:30:00.000Z', 'Stand-up'],
+            ['2026-03-11T15:00:00.000Z', 'Stand-up (moved)'],
+            ['2026-03-16T13:30:00.000Z', 'Stand-up'],
+            ['2026-03-18T13:30:00.000Z', 'Stand-up'],
+            ['2026-03-23T13:30:00.000Z', 'Stand-up'],
+            // COUNT=8 includes the excluded March 4
+            ['2026-03-25T13:30:00.000Z', 'Stand-up'],
+        ]);
+    });
+
+    it('resolves a Windows time zone from its VTIMEZONE and stops at UNTIL', () => {
+        const starts = isoStarts(fixture('outlook.ics'), '2026-10-13T00:00:00Z', '2027-06-01T00:00:00Z').filter(
+            ([, summary]) => summary === 'Steering committee'
+        );
+        expect(starts.map(([iso]) => iso)).toEqual([
+            '2026-10-13T12:00:00.000Z',
+            '2026-11-10T13:00:00.000Z',
+            '2026-12-08T13:00:00.000Z',
+            '2027-01-12T13:00:00.000Z',
+        ]);
+    });
+
+    it('keeps multi-day all-day events as one occurrence spanning their days', () => {
+        const calendar = parseICalendar(fixture('outlook.ics'));
+        const [offsite] = expandEvents(
+            calendar.events,
+            { start: new Date(2026, 9, 13), end: new Date(2026, 9, 14) },
+            calendar.timezones
+        );
+        expect(offsite?.event.summary).toBe('Offsite');
+        expect(offsite?.isAllDay).toBe(true);
+        expect(offsite?.start).toEqual(new Date(2026, 9, 12));
+        expect(offsite?.end).toEqual(new Date(2026, 9, 15));
+    });
+
+    it('uses IANA zones without a VTIMEZONE and resolves DST gaps and overlaps', () => {
+        expect(toDate(parseDateTime('20260308T023000', 'America/New_York')).toISOString()).toBe(
+            '2026-03-08T07:30:00.000Z'
+        );
+        expect(toDate(parseDateTime('20261101T013000', 'America/New_York')).toISOString()).toBe(
+            '2026-11-01T05:30:00.000Z'
+        );
+    });
+});
+
+describe('expandRecurrence', () => {
+    const expand = (start: string, rule: string, count = 5) =>
+        expandRecurrence(Date.parse(`${start}Z`), parseRecurrenceRule(rule), { end: Date.parse('2030-01-01Z') })
+            .slice(0, count)
+            .map(ms => new Date(ms).toISOString().slice(0, 10));
+
+    it('handles ordinals, negative month days and BYSETPOS', () => {
+        expect(expand('2026-01-30T10:00:00', 'FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')).toEqual([
+            '2026-01-30',
+            '2026-02-27',
+            '2026-03-27',
+        ]);
+        expect(expand('2026-01-31T10:00:00', 'FREQ=MONTHLY;BYMONTHDAY=-1', 3)).toEqual([
+            '2026-01-31',
+            '2026-02-28',
+            '2026-03-31',
+        ]);
+        // Last weekday of the month
+        expect(expand('2026-01-30T10:00:00', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', 3)).toEqual([
+            '2026-01-30',
+            '2026-02-27',
+            '2026-03-31',
+        ]);
+        expect(expand('2024-02-29T10:00:00', 'FREQ=YEARLY;UNTIL=20290101', 5)).toEqual(['2024-02-29', '2028-02-29']);
+    });
+});
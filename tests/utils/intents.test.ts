@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { appEventBus } from '../../utils/eventBus';
+import { findIntentHandlers, getIntentProps, requestIntent, resolveIntent, startIntent } from '../../utils/intents';
+import type { Intent, IntentHandlerApp } from '../../utils/intents';
+
+const app = (id: string, intents: IntentHandlerApp['intents']): IntentHandlerApp => ({
+    id,
+    title: id,
+    icon: 'apps',
+    color: 'bg-gray-400',
+    intents,
+});
+
+describe('intents', () => {
+    afterEach(() => {
+        appEventBus.clear('intent:start');
+    });
+
+    it('finds handlers by action and filter', () => {
+        const apps = [
+            app('browser', [{ action: 'share:url' }]),
+            app('images', [{ action: 'share:url', accepts: ({ url }) => url.endsWith('.png') }]),
+            app('notepad', [{ action: 'share:text', toProps: ({ text }) => ({ initialContent: text }) }]),
+        ];
+
+        const photo = startIntent('share:url', { url: 'https://example.com/cat.png' });
+        expect(findIntentHandlers(apps, photo).map(match => match.app.id)).toEqual(['browser', 'images']);
+        const page = startIntent('share:url', { url: 'https://example.com' });
+        expect(findIntentHandlers(apps, page).map(match => match.app.id)).toEqual(['browser']);
+
+        const text = startIntent('share:text', { text: 'hello' });
+        const [match] = findIntentHandlers(apps, text);
+        expect(match?.app.id).toBe('notepad');
+        expect(getIntentProps(match?.filter ?? { action: 'share:text' }, text)).toEqual({
+            initialContent: 'hello',
+            intent: text,
+        });
+    });
+
+    it('resolves requests with the first answer only', async () => {
+        appEventBus.on('intent:start', ({ intent }) => {
+            const request = intent as Intent<'pick:color'>;
+            resolveIntent(request, { color: '#ff0000' });
+            resolveIntent(request, { color: '#00ff00' });
+        });
+        await expect(requestIntent('pick:color', {})).resolves.toEqual({ color: '#ff0000' });
+
+        appEventBus.clear('intent:start');
+        appEventBus.on('intent:start', ({ intent }) => resolveIntent(intent as Intent<'pick:file'>, null));
+        await expect(requestIntent('pick:file', { extensions: ['.txt'] })).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,830 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import {
+    applyMailRules,
+    createBridgeTransport,
+    createMailFolder,
+    createMailLabel,
+    deleteEmail,
+    deleteMailFolder,
+    deleteMailLabel,
+    exportEmailsToMbox,
+    exportEmailToEml,
+    getMailFileFormat,
+    getReplyHeaders,
+    getReplySubject,
+    getRemoteFolderId,
+    getSentCopyFields,
+    groupConversations,
+    importMailFile,
+    isMailTransportError,
+    matchesMailRule,
+    moveEmail,
+    moveMailRule,
+    parseMessageIds,
+    removeMailAccount,
+    runMailRules,
+    sanitizeEmailHtml,
+    saveAttachmentToFiles,
+    saveMailAccount,
+    saveMailRule,
+    setEmailLabel,
+    setEmailRead,
+    syncMailAccount,
+    type FetchedMailMessage,
+    type MailFolderInfo,
+    type MailRemote,
+    type MailRuleInput,
+    type MailTransport,
+} from '../../utils/mail';
+import { parseMailMessage, splitMbox } from '../../utils/mime';
+import { db, type EmailRecord, type MailAccountRecord } from '../../utils/storage/db';
+import { vfs } from '../../utils/vfs';
+
+interface MockFolder {
+    info: MailFolderInfo;
+    uidValidity: number;
+    nextUid: number;
+    messages: FetchedMailMessage[];
+}
+
+/**
+ * A mail bridge with in-memory IMAP folders, speaking the bridge's HTTP API
+ */
+function createMockBridge() {
+    const folders = new Map<string, MockFolder>();
+    const tokens = new Set<string>();
+    const requests: string[] = [];
+    const sent: unknown[] = [];
+    let logins = 0;
+
+    const addFolder = (info: MailFolderInfo) =>
+        folders.set(info.path, { info, uidValidity: 1, nextUid: 1, messages: [] });
+    const folder = (path: string): MockFolder => {
+        const found = folders.get(path);
+        if (!found) throw new Error(`No mock folder ${path}`);
+        return found;
+    };
+    const deliver = (path: string, message: Omit<FetchedMailMessage, 'uid' | 'seen'> & { seen?: boolean }) => {
+        const target = folder(path);
+        const stored = { seen: false, ...message, uid: target.nextUid++ };
+        target.messages.push(stored);
+        return stored;
+    };
+
+    addFolder({ path: 'INBOX', name: 'Inbox' });
+    addFolder({ path: 'Sent Items', name: 'Sent Items', specialUse: 'sent' });
+    addFolder({ path: 'Deleted', name: 'Deleted', specialUse: 'trash' });
+    addFolder({ path: 'Projects', name: 'Projects' });
+
+    const readBody = async (req: IncomingMessage) => {
+        let text = '';
+        for await (const chunk of req) text += String(chunk);
+        return text ? (JSON.parse(text) as Record<string, unknown>) : {};
+    };
+
+    const server: Server = createServer((req, res) => {
+        const reply = (status: number, body?: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(body === undefined ? '' : JSON.stringify(body));
+        };
+        void (async () => {
+            const url = new URL(req.url ?? '/', 'http://bridge');
+            requests.push(`${req.method} ${url.pathname}${url.search}`);
+            const body = await readBody(req);
+
+            if (url.pathname === '/v1/session' && req.method === 'POST') {
+                if (body.password !== 'secret') return reply(401, { error: 'Invalid credentials' });
+                const token = `token-${++logins}`;
+                tokens.add(token);
+                return reply(200, { token });
+            }
+            const token = req.headers.authorization?.replace(/^Bearer /, '');
+            if (!token || !tokens.has(token)) return reply(401, { error: 'No session' });
+            if (url.pathname === '/v1/session') {
+                tokens.delete(token);
+                return reply(204);
+            }
+            if (url.pathname === '/v1/folders') {
+                return reply(200, { folders: [...folders.values()].map(folder => folder.info) });
+            }
+            if (url.pathname === '/v1/send') {
+                if ((body.to as string[]).some(address => address.startsWith('reject@'))) {
+                    return reply(550, { error: 'Recipient rejected' });
+                }
+                sent.push(body);
+                return reply(204);
+            }
+
+            const match = /^\/v1\/folders\/([^/]+)\/(messages|flags|move|delete)$/.exec(url.pathname);
+            const folder = match?.[1] ? folders.get(decodeURIComponent(match[1])) : undefined;
+            if (!match || !folder) return reply(404, { error: 'No such folder' });
+            const uids = new Set((body.uids as number[] | undefined) ?? []);
+            switch (match[2]) {
+                case 'messages': {
+                    const since = Number(url.searchParams.get('since') ?? 0);
+                    const messages = folder.messages.filter(message => message.uid > since);
+                    return reply(200, { uidValidity: folder.uidValidity, messages });
+                }
+                case 'flags':
+                    folder.messages.forEach(message => {
+                        if (uids.has(message.uid)) message.seen = body.seen === true;
+                    });
+                    return reply(204);
+                case 'move': {
+                    const moving = folder.messages.filter(message => uids.has(message.uid));
+                    folder.messages = folder.messages.filter(message => !uids.has(message.uid));
+                    moving.forEach(message => deliver(body.to as string, message));
+                    return reply(204);
+                }
+                default:
+                    folder.messages = folder.messages.filter(message => !uids.has(message.uid));
+                    return reply(204);
+            }
+        })();
+    });
+
+    return {
+        folders,
+        folder,
+        tokens,
+        requests,
+        sent,
+        deliver,
+        get logins() {
+            return logins;
+        },
+        async start(): Promise<string> {
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        },
+        stop: () => new Promise<void>(resolve => server.close(() => resolve())),
+    };
+}
+
+type MockBridge = ReturnType<typeof createMockBridge>;
+
+const accountInput = (bridgeUrl: string) => ({
+    name: 'Work',
+    email: 'me@example.com',
+    displayName: 'Me',
+    bridgeUrl,
+    imapHost: 'imap.example.com',
+    imapPort: 993,
+    smtpHost: 'smtp.example.com',
+    smtpPort: 465,
+    secure: true,
+    username: 'me@example.com',
+    password: 'secret',
+});
+
+const testEmail = (fields: Partial<EmailRecord>): EmailRecord => ({
+    id: `email-${Math.random()}`,
+    folderId: 'inbox',
+    from: 'ann@example.com',
+    to: ['me@example.com'],
+    subject: 'Hello',
+    body: '',
+    date: 1,
+    isRead: false,
+    createdAt: 1,
+    updatedAt: 1,
+    ...fields,
+});
+
+/** Add a local message, letting the table assign its id */
+const addEmail = async (fields: Partial<EmailRecord>): Promise<EmailRecord> => {
+    const { id: _id, ...email } = testEmail(fields);
+    const id = await db.emails.add(email as EmailRecord);
+    const added = await db.emails.get(id);
+    if (!added) throw new Error('The message was not added');
+    return added;
+};
+
+const rule = (conditions: MailRuleInput['conditions'], actions: MailRuleInput['actions']): MailRuleInput => ({
+    name: 'Rule',
+    enabled: true,
+    match: 'all',
+    conditions,
+    actions,
+    stopProcessing: false,
+});
+
+describe('mail bridge', () => {
+    let bridge: MockBridge;
+    let bridgeUrl: string;
+    let account: MailAccountRecord;
+    let transport: MailTransport;
+
+    const remote = (): MailRemote => ({ account, transport });
+    const sync = async () => {
+        const result = await syncMailAccount(db, account, transport);
+        account = (await db.$mailAccounts.get(account.id)) ?? account;
+        return result;
+    };
+    const inFolder = (folderId: string) =>
+        db.emails
+            .where('folderId')
+            .equals(folderId)
+            .sortBy('date')
+            .then(emails => emails.filter(email => email.accountId === account.id));
+
+    beforeEach(async () => {
+        bridge = createMockBridge();
+        bridgeUrl = await bridge.start();
+        account = await saveMailAccount(db, accountInput(bridgeUrl));
+        transport = createBridgeTransport(account);
+    });
+
+    afterEach(async () => {
+        await transport.close();
+        await bridge.stop();
+        await db.emails.clear();
+        await db.emailFolders.clear();
+        await db.emailRules.clear();
+        await db.$mailAccounts.clear();
+    });
+
+    describe('createBridgeTransport', () => {
+        it('logs in once and sends the session token with each request', async () => {
+            const folders = await transport.listFolders();
+            await transport.fetchMessages('INBOX');
+
+            expect(folders.map(folder => folder.path)).toEqual(['INBOX', 'Sent Items', 'Deleted', 'Projects']);
+            expect(folders[1]).toEqual({ path: 'Sent Items', name: 'Sent Items', specialUse: 'sent' });
+            expect(bridge.logins).toBe(1);
+        });
+
+        it('logs in again when the bridge forgets the session', async () => {
+            await transport.listFolders();
+            bridge.tokens.clear();
+
+            await expect(transport.listFolders()).resolves.toHaveLength(4);
+            expect(bridge.logins).toBe(2);
+        });
+
+        it('ends the session on close', async () => {
+            await transport.listFolders();
+            await transport.close();
+
+            expect(bridge.tokens.size).toBe(0);
+            expect(bridge.requests).toContain('DELETE /v1/session');
+        });
+
+        it('reports failures with error codes', async () => {
+            const wrongPassword = createBridgeTransport({ ...account, password: 'nope' });
+            const unreachable = createBridgeTransport({ ...account, bridgeUrl: 'http://127.0.0.1:1' });
+
+            await expect(wrongPassword.listFolders()).rejects.toSatisfy(error => isMailTransportError(error, 'EAUTH'));
+            await expect(unreachable.listFolders()).rejects.toSatisfy(error => isMailTransportError(error, 'ECONNECT'));
+            await expect(transport.fetchMessages('Nowhere')).rejects.toSatisfy(error =>
+                isMailTransportError(error, 'ENOTFOUND')
+            );
+            await expect(
+                transport.send({
+                    from: 'me@example.com',
+                    to: ['reject@example.com'],
+                    subject: 'Hi',
+                    body: '',
+                    messageId: 'x@example.com',
+                })
+            ).rejects.toThrow('Recipient rejected');
+        });
+
+        it('calls back when the bridge reports a changed folder', async () => {
+            const sockets: { url: string; onmessage: ((event: { data: string }) => void) | null }[] = [];
+            class FakeWebSocket {
+                onmessage: ((event: { data: string }) => void) | null = null;
+                constructor(public url: string) {
+                    sockets.push(this);
+                }
+                close() {}
+            }
+            const watching = createBridgeTransport(account, {
+                WebSocket: FakeWebSocket as unknown as typeof WebSocket,
+            });
+            const changed: string[] = [];
+
+            const stop = watching.watch?.(path => changed.push(path));
+            await expect.poll(() => sockets.length).toBe(1);
+            sockets[0]?.onmessage?.({ data: JSON.stringify({ type: 'changed', path: 'INBOX' }) });
+            sockets[0]?.onmessage?.({ data: 'not json' });
+            stop?.();
+            await watching.close();
+
+            expect(sockets[0]?.url).toMatch(/^ws:\/\/127\.0\.0\.1:\d+\/v1\/events\?token=token-\d$/);
+            expect(changed).toEqual(['INBOX']);
+        });
+    });
+
+    describe('syncMailAccount', () => {
+        it('maps server folders and threads fetched messages', async () => {
+            bridge.deliver('INBOX', {
+                messageId: '<a@example.com>',
+                from: 'Ann <ann@example.com>',
+                to: ['me@example.com'],
+                subject: 'Plan',
+                body: 'First',
+                date: 1000,
+            });
+            bridge.deliver('Projects', {
+                messageId: '<b@example.com>',
+                inReplyTo: '<a@example.com>',
+                references: ['<a@example.com>'],
+                from: 'Bob <bob@example.com>',
+                to: ['me@example.com'],
+                subject: 'Re: Plan',
+                body: 'Second',
+                date: 2000,
+                seen: true,
+            });
+
+            const result = await sync();
+
+            expect(result).toEqual({ added: 2, unread: 1 });
+            expect(account.specialFolders).toEqual({ inbox: 'INBOX', sent: 'Sent Items', trash: 'Deleted' });
+            expect(account.lastSyncedAt).toBeTypeOf('number');
+            const folders = await db.emailFolders.where('accountId').equals(account.id).toArray();
+            expect(folders.map(folder => folder.id)).toEqual([getRemoteFolderId(account.id, 'Projects')]);
+
+            const [first] = await inFolder('inbox');
+            const [reply] = await inFolder(getRemoteFolderId(account.id, 'Projects'));
+            expect(first).toMatchObject({ messageId: 'a@example.com', threadId: 'a@example.com', remoteUid: 1 });
+            expect(reply).toMatchObject({
+                messageId: 'b@example.com',
+                inReplyTo: 'a@example.com',
+                references: ['a@example.com'],
+                threadId: 'a@example.com',
+                isRead: true,
+            });
+        });
+
+        it('fetches only new messages on the next sync', async () => {
+            bridge.deliver('INBOX', { from: 'a@example.com', to: [], subject: 'One', body: '', date: 1 });
+            await sync();
+            bridge.deliver('INBOX', { from: 'a@example.com', to: [], subject: 'Two', body: '', date: 2 });
+
+            const result = await sync();
+
+            expect(result.added).toBe(1);
+            expect(bridge.requests).toContain('GET /v1/folders/INBOX/messages?since=1');
+            expect((await inFolder('inbox')).map(email => email.subject)).toEqual(['One', 'Two']);
+        });
+
+        it('matches messages up again when the folder UIDs are reassigned', async () => {
+            bridge.deliver('INBOX', { messageId: '<one@x>', from: 'a@x', to: [], subject: 'One', body: '', date: 1 });
+            await sync();
+            const inbox = bridge.folder('INBOX');
+            inbox.uidValidity = 2;
+            inbox.messages = inbox.messages.map(message => ({ ...message, uid: 7 }));
+
+            const result = await sync();
+
+            expect(result.added).toBe(0);
+            const emails = await inFolder('inbox');
+            expect(emails).toHaveLength(1);
+            expect(emails[0]?.remoteUid).toBe(7);
+            expect(account.syncState?.INBOX).toEqual({ uidValidity: 2, lastUid: 7 });
+        });
+
+        it('removes folders that are gone from the server', async () => {
+            bridge.deliver('Projects', { from: 'a@x', to: [], subject: 'Old', body: '', date: 1 });
+            await sync();
+            bridge.folders.delete('Projects');
+
+            await sync();
+
+            expect(await db.emailFolders.where('accountId').equals(account.id).count()).toBe(0);
+            expect(await inFolder(getRemoteFolderId(account.id, 'Projects'))).toHaveLength(0);
+        });
+
+        it('saves the error that stopped a sync', async () => {
+            const failing = createBridgeTransport({ ...account, password: 'nope' });
+
+            await expect(syncMailAccount(db, account, failing)).rejects.toSatisfy(error =>
+                isMailTransportError(error, 'EAUTH')
+            );
+            expect((await db.$mailAccounts.get(account.id))?.lastError).toBe('Invalid credentials');
+        });
+
+        it('runs the rules on new Inbox messages', async () => {
+            await saveMailRule(db, {
+                ...rule([{ field: 'from', operator: 'contains', value: 'news@' }], [{ type: 'markRead' }]),
+                name: 'Newsletters',
+            });
+            await saveMailRule(db, {
+                ...rule(
+                    [{ field: 'subject', operator: 'startsWith', value: '[proj]' }],
+                    [{ type: 'move', folderId: getRemoteFolderId(account.id, 'Projects') }, { type: 'notify' }]
+                ),
+                name: 'Projects',
+            });
+            bridge.deliver('INBOX', {
+                messageId: '<r1@x>',
+                from: 'news@shop.example',
+                to: [],
+                subject: 'Sale',
+                body: '',
+                date: 1,
+            });
+            bridge.deliver('INBOX', {
+                messageId: '<r2@x>',
+                from: 'ann@example.com',
+                to: [],
+                subject: '[Proj] Plan',
+                body: '',
+                date: 2,
+            });
+            bridge.deliver('INBOX', {
+                messageId: '<r3@x>',
+                from: 'bob@example.com',
+                to: [],
+                subject: 'Lunch?',
+                body: '',
+                date: 3,
+            });
+            const notified: string[] = [];
+
+            const result = await syncMailAccount(db, account, transport, {
+                onNotify: (email, matched) => notified.push(`${matched.name}: ${email.subject}`),
+            });
+            await sync();
+
+            expect(result).toEqual({ added: 3, unread: 1 });
+            expect(notified).toEqual(['Projects: [Proj] Plan']);
+            expect(bridge.folder('INBOX').messages.map(message => [message.subject, message.seen])).toEqual([
+                ['Sale', true],
+                ['Lunch?', false],
+            ]);
+            expect(bridge.folder('Projects').messages.map(message => message.subject)).toEqual(['[Proj] Plan']);
+            expect((await inFolder(getRemoteFolderId(account.id, 'Projects'))).map(email => email.subject)).toEqual([
+                '[Proj] Plan',
+            ]);
+            expect(await inFolder('inbox')).toHaveLength(2);
+        });
+    });
+
+    describe('server changes', () => {
+        const firstInboxEmail = async (): Promise<EmailRecord> => {
+            bridge.deliver('INBOX', { messageId: '<m@x>', from: 'a@x', to: [], subject: 'Hello', body: '', date: 1 });
+            await sync();
+            const [email] = await inFolder('inbox');
+            if (!email) throw new Error('The message was not synced');
+            return email;
+        };
+
+        it('sets the seen flag on the server', async () => {
+            const email = await firstInboxEmail();
+
+            await setEmailRead(db, email, true, remote());
+
+            expect(bridge.folder('INBOX').messages[0]?.seen).toBe(true);
+            expect((await db.emails.get(email.id))?.isRead).toBe(true);
+        });
+
+        it('moves messages on the server without adding them twice', async () => {
+            const email = await firstInboxEmail();
+
+            await moveEmail(db, email, 'trash', remote());
+            await sync();
+
+            expect(bridge.folder('INBOX').messages).toHaveLength(0);
+            expect(bridge.folder('Deleted').messages).toHaveLength(1);
+            const trash = await inFolder('trash');
+            expect(trash).toHaveLength(1);
+            expect(trash[0]).toMatchObject({ id: email.id, remotePath: 'Deleted', remoteUid: 1, trashedFrom: 'inbox' });
+        });
+
+        it('deletes messages on the server', async () => {
+            const email = await firstInboxEmail();
+
+            await deleteEmail(db, email, remote());
+
+            expect(bridge.folder('INBOX').messages).toHaveLength(0);
+            expect(await db.emails.get(email.id)).toBeUndefined();
+        });
+
+        it('adopts the server copy of a sent message', async () => {
+            await sync();
+            const message = {
+                from: 'Me <me@example.com>',
+                to: ['ann@example.com'],
+                subject: 'Hi',
+                body: 'Hello',
+                messageId: 'sent-1@example.com',
+            };
+            await transport.send(message);
+            const id = await db.emails.add({
+                ...message,
+                folderId: 'sent',
+                date: 5,
+                isRead: true,
+                threadId: message.messageId,
+                ...getSentCopyFields(account),
+                createdAt: 5,
+                updatedAt: 5,
+            } as EmailRecord);
+            bridge.deliver('Sent Items', { ...message, messageId: `<${message.messageId}>`, date: 5, seen: true });
+
+            await sync();
+
+            expect(bridge.sent).toEqual([message]);
+            const sentFolder = await inFolder('sent');
+            expect(sentFolder).toHaveLength(1);
+            expect(sentFolder[0]).toMatchObject({ id, remotePath: 'Sent Items', remoteUid: 1 });
+        });
+
+        it('removes an account with its downloaded mail', async () => {
+            await firstInboxEmail();
+
+            await removeMailAccount(db, account.id);
+
+            expect(await db.emails.where('accountId').equals(account.id).count()).toBe(0);
+            expect(await db.$mailAccounts.get(account.id)).toBeUndefined();
+        });
+    });
+});
+
+describe('mail threading', () => {
+    it('groups messages into conversations, most recently active first', () => {
+        const emails = [
+            testEmail({ subject: 'Plan', threadId: 'plan', date: 1, isRead: true }),
+            testEmail({ subject: 'Lunch', threadId: 'lunch', date: 2 }),
+            testEmail({ subject: 'Re: Plan', threadId: 'plan', date: 3 }),
+        ];
+
+        const conversations = groupConversations(emails);
+
+        expect(
+            conversations.map(({ threadId, messages, latest, unread }) => [
+                threadId,
+                messages.map(email => email.date),
+                latest.subject,
+                unread,
+            ])
+        ).toEqual([
+            ['plan', [1, 3], 'Re: Plan', 1],
+            ['lunch', [2], 'Lunch', 1],
+        ]);
+    });
+
+    it('parses Message-ID lists', () => {
+        expect(parseMessageIds('<a@x> <b@x>\r\n <c@x>')).toEqual(['a@x', 'b@x', 'c@x']);
+        expect(parseMessageIds('')).toEqual([]);
+    });
+
+    it('builds reply headers and subjects', () => {
+        expect(getReplyHeaders({ messageId: 'b@x', inReplyTo: 'a@x' })).toEqual({
+            inReplyTo: 'b@x',
+            references: ['a@x', 'b@x'],
+        });
+        expect(getReplyHeaders({})).toEqual({});
+        expect(getReplySubject('Plan')).toBe('Re: Plan');
+        expect(getReplySubject('RE: Plan')).toBe('RE: Plan');
+    });
+});
+
+describe('mail folders and labels', () => {
+    afterEach(async () => {
+        await db.emails.clear();
+        await db.emailFolders.clear();
+        await db.emailLabels.clear();
+        await db.emailRules.clear();
+    });
+
+    it('moves the messages of a deleted folder to Trash and out of rules', async () => {
+        const folder = await createMailFolder(db, '  Receipts ');
+        const email = await addEmail({ folderId: folder.id });
+        const saved = await saveMailRule(
+            db,
+            rule(
+                [{ field: 'subject', operator: 'contains', value: 'receipt' }],
+                [{ type: 'move', folderId: folder.id }, { type: 'flag' }]
+            )
+        );
+
+        await deleteMailFolder(db, folder.id);
+
+        expect(folder).toMatchObject({ name: 'Receipts', type: 'custom' });
+        expect(folder.id).toMatch(/^custom:/);
+        expect(await db.emailFolders.get(folder.id)).toBeUndefined();
+        const trashed = await db.emails.get(email.id);
+        expect(trashed?.folderId).toBe('trash');
+        expect(trashed?.trashedFrom).toBeUndefined();
+        expect((await db.emailRules.get(saved.id))?.actions).toEqual([{ type: 'flag' }]);
+    });
+
+    it('labels messages and takes a deleted label off them', async () => {
+        const work = await createMailLabel(db, 'Work');
+        const home = await createMailLabel(db, 'Home', '#22c55e');
+        const email = await addEmail({});
+        await setEmailLabel(db, email, work.id, true);
+        await setEmailLabel(db, (await db.emails.get(email.id)) ?? email, home.id, true);
+        expect((await db.emails.where('labels').equals(work.id).first())?.id).toBe(email.id);
+
+        await deleteMailLabel(db, work.id);
+
+        expect((await db.emails.get(email.id))?.labels).toEqual([home.id]);
+        expect(await db.emailLabels.count()).toBe(1);
+    });
+});
+
+describe('mail rules', () => {
+    afterEach(async () => {
+        await db.emails.clear();
+        await db.emailFolders.clear();
+        await db.emailLabels.clear();
+        await db.emailRules.clear();
+    });
+
+    it('matches all or any conditions, case-insensitively', () => {
+        const email = testEmail({
+            from: 'News <NEWS@shop.example>',
+            to: ['me@example.com', 'team@example.com'],
+            subject: 'Weekly deals',
+        });
+        const fromShop = { field: 'from', operator: 'contains', value: 'news@shop' } as const;
+        const aboutPlans = { field: 'subject', operator: 'equals', value: 'plans' } as const;
+
+        expect(matchesMailRule({ match: 'all', conditions: [fromShop, aboutPlans] }, email)).toBe(false);
+        expect(matchesMailRule({ match: 'any', conditions: [fromShop, aboutPlans] }, email)).toBe(true);
+        expect(matchesMailRule({ match: 'all', conditions: [] }, email)).toBe(false);
+        expect(
+            matchesMailRule(
+                { match: 'all', conditions: [{ field: 'to', operator: 'notContains', value: 'team@' }] },
+                email
+            )
+        ).toBe(false);
+        expect(
+            matchesMailRule(
+                { match: 'all', conditions: [{ field: 'subject', operator: 'endsWith', value: 'DEALS' }] },
+                email
+            )
+        ).toBe(true);
+    });
+
+    it('runs actions in rule order and stops where a rule says so', async () => {
+        const folder = await createMailFolder(db, 'Shopping');
+        const label = await createMailLabel(db, 'Deals');
+        const fromShop = [{ field: 'from', operator: 'contains', value: 'shop' }] as const;
+        const first = await saveMailRule(db, rule([...fromShop], [{ type: 'label', labelId: label.id }]));
+        await saveMailRule(db, {
+            ...rule([...fromShop], [{ type: 'move', folderId: folder.id }, { type: 'markRead' }, { type: 'notify' }]),
+            stopProcessing: true,
+        });
+        await saveMailRule(db, rule([...fromShop], [{ type: 'flag' }]));
+        await saveMailRule(db, { ...rule([...fromShop], [{ type: 'flag' }]), enabled: false });
+        const shop = await addEmail({ from: 'deals@shop.example' });
+        const other = await addEmail({ from: 'ann@example.com' });
+        const notified: string[] = [];
+
+        const { emails, matched } = await applyMailRules(db, [shop, other], {
+            onNotify: email => notified.push(email.subject),
+        });
+
+        expect(matched).toBe(1);
+        expect(emails[0]).toMatchObject({ folderId: folder.id, isRead: true, labels: [label.id] });
+        expect(emails[0]?.isFlagged).toBeUndefined();
+        expect(emails[1]).toEqual(other);
+        expect(notified).toEqual([shop.subject]);
+
+        await moveMailRule(db, first.id, 1);
+        expect((await db.emailRules.orderBy('order').first())?.actions[0]?.type).toBe('move');
+    });
+
+    it('runs the rules on a folder on demand', async () => {
+        await saveMailRule(
+            db,
+            rule([{ field: 'body', operator: 'contains', value: 'unsubscribe' }], [{ type: 'flag' }])
+        );
+        await addEmail({ body: 'To unsubscribe, click here' });
+        await addEmail({ body: 'To unsubscribe, click here', folderId: 'sent' });
+        await addEmail({ body: 'Hello' });
+
+        const { matched } = await runMailRules(db, 'inbox');
+
+        expect(matched).toBe(1);
+        expect(await db.emails.filter(email => email.isFlagged === true).count()).toBe(1);
+    });
+
+    it('does not move messages to another account or a missing folder', async () => {
+        await saveMailRule(
+            db,
+            rule(
+                [{ field: 'subject', operator: 'contains', value: 'hello' }],
+                [
+                    { type: 'move', folderId: getRemoteFolderId('other-account', 'Projects') },
+                    { type: 'move', folderId: 'custom:gone' },
+                ]
+            )
+        );
+        const email = await addEmail({ accountId: 'my-account' });
+
+        const { emails } = await applyMailRules(db, [email]);
+
+        expect(emails[0]?.folderId).toBe('inbox');
+    });
+});
+
+describe('mail files', () => {
+    const fixture = (name: string) => new Uint8Array(readFileSync(join(__dirname, '../fixtures/mime', name)));
+
+    afterEach(async () => {
+        await db.emails.clear();
+        await db.$emailAttachments.clear();
+    });
+
+    it('recognizes mail files by extension', () => {
+        expect(getMailFileFormat('Saved.EML')).toBe('eml');
+        expect(getMailFileFormat('archive.mbox')).toBe('mbox');
+        expect(getMailFileFormat('notes.txt')).toBeNull();
+    });
+
+    it('imports an mbox as a thread and skips messages already imported', async () => {
+        const added = await importMailFile(db, fixture('thread.mbox'), 'mbox', 'inbox');
+
+        expect(added.map(email => email.subject)).toEqual(['Offsite plan', 'Re: Offsite plan', 'Re: Offsite plan']);
+        expect(added.every(email => email.folderId === 'inbox' && email.isRead)).toBe(true);
+        expect(new Set(added.map(email => email.threadId))).toEqual(new Set(['plan-1@example.com']));
+
+        expect(await importMailFile(db, fixture('thread.mbox'), 'mbox', 'inbox')).toEqual([]);
+        expect(await db.emails.count()).toBe(3);
+    });
+
+    it('keeps the HTML body and attachments of an imported message', async () => {
+        const [email] = await importMailFile(db, fixture('newsletter.eml'), 'eml', 'inbox');
+        if (!email) throw new Error('Nothing imported');
+
+        expect(email.to).toEqual(['Doe, Jane <jane@example.com>', 'me@example.com', 'Léa <lea@example.com>']);
+        expect(email.html).toContain('cid:logo@example.org');
+        expect(email.attachments?.map(({ filename, inline }) => [filename, inline ?? false])).toEqual([
+            ['attachment-1.png', true],
+            ['menü (2024).pdf', false],
+        ]);
+        expect(await db.$emailAttachments.where('emailId').equals(email.id).count()).toBe(2);
+
+        const exported = parseMailMessage(await exportEmailToEml(db, email));
+        expect(exported).toMatchObject({ messageId: 'news-42@example.org', subject: email.subject, html: email.html });
+        expect(exported.attachments.map(attachment => attachment.filename)).toEqual([
+            'attachment-1.png',
+            'menü (2024).pdf',
+        ]);
+
+        await deleteEmail(db, email);
+        expect(await db.$emailAttachments.count()).toBe(0);
+    });
+
+    it('exports messages as an mbox, oldest first', async () => {
+        const added = await importMailFile(db, fixture('thread.mbox'), 'mbox', 'inbox');
+
+        const mbox = await exportEmailsToMbox(db, [...added].reverse());
+
+        const ids = splitMbox(mbox).map(source => parseMailMessage(source).messageId);
+        expect(ids).toEqual(['plan-1@example.com', 'plan-2@example.com', 'plan-3@example.com']);
+    });
+
+    it('saves attachments into the file system', async () => {
+        const [email] = await importMailFile(db, fixture('newsletter.eml'), 'eml', 'inbox');
+        const pdf = email?.attachments?.[1];
+        if (!pdf) throw new Error('No attachment');
+
+        const first = await saveAttachmentToFiles(db, pdf, '/Work/Mail');
+        const second = await saveAttachmentToFiles(db, pdf, '/Work/Mail');
+
+        expect(first).toBe('/Work/Mail/menü (2024).pdf');
+        expect(second).not.toBe(first);
+        expect(new TextDecoder().decode((await vfs.readFileBytes(first ?? '')).slice(0, 8))).toBe('%PDF-1.4');
+
+        await db.$emailAttachments.clear();
+        expect(await saveAttachmentToFiles(db, pdf, '/Work/Mail')).toBeNull();
+    });
+});
+
+describe('sanitizeEmailHtml', () => {
+    const html =
+        parseMailMessage(new Uint8Array(readFileSync(join(__dirname, '../fixtures/mime/newsletter.eml')))).html ?? '';
+
+    it('removes scripts, handlers and unsafe links and blocks remote images', () => {
+        const { html: clean, blockedImages } = sanitizeEmailHtml(html, {
+            cidUrls: { 'logo@example.org': 'blob:logo' },
+        });
+        const doc = new DOMParser().parseFromString(clean, 'text/html');
+
+        expect(doc.querySelector('script')).toBeNull();
+        expect(clean).not.toMatch(/onclick|javascript:|tracker/i);
+        expect(doc.querySelector('img[alt="Logo"]')?.getAttribute('src')).toBe('blob:logo');
+        expect(doc.querySelector('a[href^="https:"]')?.getAttribute('rel')).toBe('noopener noreferrer');
+        expect(blockedImages).toBeGreaterThan(0);
+        expect(doc.querySelector('style')?.textContent).not.toContain('url(');
+    });
+
+    it('loads remote images when allowed', () => {
+        const { html: clean, blockedImages } = sanitizeEmailHtml(html, { allowRemoteImages: true });
+
+        expect(blockedImages).toBe(0);
+        expect(clean).toContain('tracker');
+    });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+    decodeHeaderValue,
+    decodeQuotedPrintable,
+    encodeHeaderText,
+    encodeQuotedPrintable,
+    isMimeError,
+    parseAddressList,
+    parseHeaderValue,
+    parseMailMessage,
+    parseMimeEntity,
+    serializeMailMessage,
+    serializeMbox,
+    splitMbox,
+    type MailMessage,
+} from '../../utils/mime';
+
+const fixture = (name: string) => new Uint8Array(readFileSync(join(__dirname, '../fixtures/mime', name)));
+
+const decoder = new TextDecoder();
+
+const message = (overrides: Partial<MailMessage> = {}): MailMessage => ({
+    messageId: 'one@example.com',
+    references: [],
+    from: 'Zoë Ångström <zoe@example.com>',
+    to: ['Doe, Jane <jane@example.com>'],
+    cc: [],
+    subject: 'Café menu — 2024',
+    date: Date.UTC(2024, 0, 2, 9, 30),
+    text: 'Hello\nFrom the café.\n',
+    attachments: [],
+    ...overrides,
+});
+
+describe('MIME encodings', () => {
+    it('decodes encoded words, joining adjacent ones and keeping plain text', () => {
+        expect(decodeHeaderValue('=?UTF-8?Q?Men=C3=BC?= =?UTF-8?Q?_card?= for =?ISO-8859-1?B?Y2Fm6Q==?=')).toBe(
+            'Menü card for café'
+        );
+        // A character split across two encoded words
+        expect(decodeHeaderValue('=?UTF-8?B?w6k=?= =?UTF-8?B?w6k=?=')).toBe('éé');
+        expect(decodeHeaderValue('Plain subject')).toBe('Plain subject');
+    });
+
+    it('round-trips header text and quoted-printable bodies', () => {
+        const subject = 'Überraschung: a very long subject line that needs more than one encoded word — ✓';
+        const encoded = encodeHeaderText(subject);
+        expect(encoded).toMatch(/^[\x20-\x7e]+$/);
+        expect(decodeHeaderValue(encoded)).toBe(subject);
+
+        const text = `Grüße =\n${'x'.repeat(100)}\ntrailing space `;
+        const qp = encodeQuotedPrintable(text);
+        qp.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+        expect(decoder.decode(decodeQuotedPrintable(qp)).replace(/\r\n/g, '\n')).toBe(text);
+    });
+
+    it('reads parameters, including RFC 2231 continuations and charsets', () => {
+        expect(parseHeaderValue('text/plain; charset="us-ascii"; format=flowed')).toEqual({
+            value: 'text/plain',
+            params: { charset: 'us-ascii', format: 'flowed' },
+        });
+        expect(
+            parseHeaderValue('attachment; filename*0*=UTF-8\'\'r%C3%A9sum; filename*1="e final.pdf"').params.filename
+        ).toBe('résume final.pdf');
+    });
+
+    it('reads address lists with quoted and encoded names', () => {
+        expect(parseAddressList('"Doe, Jane" <jane@example.com>, =?UTF-8?Q?L=C3=A9a?= <lea@x>, bob@x (Bob)')).toEqual([
+            'Doe, Jane <jane@example.com>',
+            'Léa <lea@x>',
+            'bob@x',
+        ]);
+    });
+});
+
+describe('parseMailMessage', () => {
+    it('reads headers, alternative bodies, inline images and attachments', () => {
+        const mail = parseMailMessage(fixture('newsletter.eml'));
+
+        expect(mail.from).toBe('Café Crème <news@example.org>');
+        expect(mail.to).toEqual(['Doe, Jane <jane@example.com>', 'me@example.com']);
+        expect(mail.cc).toEqual(['Léa <lea@example.com>']);
+        expect(mail.subject).toBe('Menü for the week — résumé');
+        expect(mail.messageId).toBe('news-42@example.org');
+        expect(mail.date).toBe(Date.UTC(2024, 0, 2, 9, 30));
+        expect(mail.text).toContain("This week's menü is ready.");
+        expect(mail.text).toContain('so it stays under seventy-six characters.');
+        expect(mail.html).toContain('<img src="cid:logo@example.org" alt="Logo">');
+
+        const [logo, pdf] = mail.attachments;
+        expect(logo).toMatchObject({ mimeType: 'image/png', contentId: 'logo@example.org', inline: true });
+        expect(decoder.decode(logo?.content.slice(1, 4))).toBe('PNG');
+        expect(pdf).toMatchObject({ filename: 'menü (2024).pdf', mimeType: 'application/pdf', inline: false });
+        expect(decoder.decode(pdf?.content.slice(0, 8))).toBe('%PDF-1.4');
+    });
+
+    it('reads a plain message without MIME headers', () => {
+        const mail = parseMailMessage('From: a@x\nSubject: Hi\n\nJust text.\n');
+        expect(mail).toMatchObject({ from: 'a@x', subject: 'Hi', text: 'Just text.\n', attachments: [] });
+        expect(mail.html).toBeUndefined();
+    });
+
+    it('rejects text that is not a message', () => {
+        expect(() => parseMimeEntity('\nno headers here')).toThrow(
+            expect.objectContaining({ name: 'MimeError', code: 'EPARSE' })
+        );
+        try {
+            parseMimeEntity('');
+        } catch (error) {
+            expect(isMimeError(error, 'EPARSE')).toBe(true);
+        }
+    });
+});
+
+describe('serializeMailMessage', () => {
+    it('writes 7-bit MIME that reads back the same', () => {
+        const original = message({
+            inReplyTo: 'zero@example.com',
+            references: ['zero@example.com'],
+            html: '<p>Hello <img src="cid:dot@x"></p>',
+            attachments: [
+                {
+                    filename: 'dot.png',
+                    mimeType: 'image/png',
+                    content: Uint8Array.of(1, 2, 3),
+                    contentId: 'dot@x',
+                    inline: true,
+                },
+                {
+                    filename: 'notes — final.txt',
+                    mimeType: 'text/plain',
+                    content: new TextEncoder().encode('ünïcode'),
+                    inline: false,
+                },
+            ],
+        });
+
+        const eml = serializeMailMessage(original);
+
+        expect(eml).toMatch(/^[\t\n\r\x20-\x7e]*$/);
+        expect(eml.split('\r\n').every(line => line.length <= 998)).toBe(true);
+        expect(eml).toContain('Content-Type: multipart/mixed');
+        expect(eml).toContain('Content-Type: multipart/related');
+        expect(eml).toContain('From: =?UTF-8?B?');
+        expect(eml).toContain('To: "Doe, Jane" <jane@example.com>');
+
+        const read = parseMailMessage(eml);
+        expect(read).toMatchObject({
+            messageId: 'one@example.com',
+            inReplyTo: 'zero@example.com',
+            references: ['zero@example.com'],
+            from: original.from,
+            to: original.to,
+            subject: original.subject,
+            date: original.date,
+            html: original.html,
+        });
+        expect(read.text.replace(/\r\n/g, '\n')).toBe(original.text);
+        expect(read.attachments.map(({ filename, inline }) => [filename, inline])).toEqual([
+            ['dot.png', true],
+            ['notes — final.txt', false],
+        ]);
+        expect(decoder.decode(read.attachments[1]?.content)).toBe('ünïcode');
+    });
+});
+
+describe('mbox', () => {
+    it('splits messages and removes From quoting', () => {
+        const messages = splitMbox(fixture('thread.mbox')).map(source => parseMailMessage(source));
+
+        expect(messages.map(mail => mail.messageId)).toEqual([
+            'plan-1@example.com',
+            'plan-2@example.com',
+            'plan-3@example.com',
+        ]);
+        expect(messages[0]?.text).toBe('Where should we go?\nFrom the look of it, somewhere warm.\n');
+        expect(messages[1]?.text).toContain('\n>From experience');
+        expect(messages[2]?.inReplyTo).toBe('plan-2@example.com');
+    });
+
+    it('round-trips messages with From lines in their bodies', () => {
+        const sources = [
+            serializeMailMessage(message({ text: 'From here on\n>From there\n' })),
+            serializeMailMessage(message({ messageId: 'two@example.com', text: 'Second' })),
+        ];
+
+        const mbox = serializeMbox(sources.map(source => ({ source, sender: 'Zoë <zoe@example.com>', date: 0 })));
+
+        expect(mbox.startsWith('From zoe@example.com Thu Jan  1 00:00:00 1970\n')).toBe(true);
+        expect(mbox).toContain('\n>From here on\n>>From there\n');
+        const read = splitMbox(mbox).map(source => parseMailMessage(source));
+        // The line break ending the message is part of its body
+        expect(read.map(mail => mail.text)).toEqual(['From here on\n>From there\n\n', 'Second\n']);
+    });
+
+    it('rejects files that are not mbox files', () => {
+        expect(() => splitMbox('Subject: hi\n\nbody')).toThrow(expect.objectContaining({ code: 'EPARSE' }));
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { appEventBus } from '../../utils/eventBus';
+import {
+    getPermissionState,
+    requestPermission,
+    resetPermissions,
+    respondToPermissionRequest,
+    setPermissionState,
+} from '../../utils/permissions';
+import type { PermissionHolder, PermissionRequest } from '../../utils/permissions';
+import { db } from '../../utils/storage/db';
+
+const app: PermissionHolder = { id: 'package:recorder', title: 'Recorder', permissions: ['microphone', 'network'] };
+
+describe('permissions', () => {
+    afterEach(async () => {
+        appEventBus.clear('permission:request');
+        await resetPermissions(db, app.id);
+    });
+
+    it('prompts once per decision and shares concurrent prompts', async () => {
+        const prompts: PermissionRequest[] = [];
+        appEventBus.on('permission:request', ({ request }) => prompts.push(request));
+
+        const first = requestPermission(db, app, 'microphone');
+        const second = requestPermission(db, app, 'microphone');
+        await vi.waitFor(() => expect(prompts).toHaveLength(1));
+        expect(prompts[0]).toMatchObject({ appId: app.id, appTitle: 'Recorder', permission: 'microphone' });
+
+        respondToPermissionRequest(prompts[0] as PermissionRequest, true);
+        await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+        await expect(requestPermission(db, app, 'microphone')).resolves.toBe(true);
+        expect(prompts).toHaveLength(1);
+    });
+
+    it('denies without storing a decision when no prompt answers', async () => {
+        await expect(requestPermission(db, app, 'microphone')).resolves.toBe(false);
+
+        const prompts: PermissionRequest[] = [];
+        appEventBus.on('permission:request', ({ request }) => prompts.push(request));
+        const answer = requestPermission(db, app, 'microphone');
+        await vi.waitFor(() => expect(prompts).toHaveLength(1));
+        respondToPermissionRequest(prompts[0] as PermissionRequest, null);
+
+        await expect(answer).resolves.toBe(false);
+        expect(await getPermissionState(db, app.id, 'microphone')).toBe('prompt');
+    });
+
+    it('denies undeclared and revoked permissions without prompting', async () => {
+        appEventBus.on('permission:request', () => {
+            throw new Error('unexpected prompt');
+        });
+
+        await expect(requestPermission(db, app, 'clipboard-read')).resolves.toBe(false);
+
+        await setPermissionState(db, app.id, 'network', 'granted');
+        await expect(requestPermission(db, app, 'network')).resolves.toBe(true);
+        await setPermissionState(db, app.id, 'network', 'denied');
+        await expect(requestPermission(db, app, 'network')).resolves.toBe(false);
+
+        await setPermissionState(db, app.id, 'network', 'prompt');
+        expect(await getPermissionState(db, app.id, 'network')).toBe('prompt');
+    });
+});
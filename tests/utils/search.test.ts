@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createSearchIndex, createSearchService, createSnippet, highlightText, tokenize } from '../../utils/search';
+import type { SearchService } from '../../utils/search';
+import { db } from '../../utils/storage/db';
+import type { NoteRecord } from '../../utils/storage/db';
+import { vfs } from '../../utils/vfs';
+
+describe('search index', () => {
+    it('tokenizes, matches prefixes and ranks titles and exact words first', () => {
+        expect(tokenize('Crème Brûlée, 2 servings!')).toEqual(['creme', 'brulee', '2', 'servings']);
+
+        const index = createSearchIndex();
+        index.add({ id: 'title', title: 'Budget review', body: 'Numbers for the quarter' });
+        index.add({ id: 'body', title: 'Meeting notes', body: 'We discussed the budget at length' });
+        index.add({ id: 'prefix', title: 'Budgeting tips', body: 'Spend less' });
+
+        expect(index.search('budget').map(hit => hit.document.id)).toEqual(['title', 'prefix', 'body']);
+        expect(index.search('budg quart').map(hit => hit.document.id)).toEqual(['title']);
+        expect(index.search('café')).toEqual([]);
+
+        index.add({ id: 'body', title: 'Meeting notes', body: 'Café plans' });
+        expect(index.search('cafe').map(hit => hit.document.id)).toEqual(['body']);
+        expect(index.search('budget')).toHaveLength(2);
+
+        index.remove('title');
+        expect(index.search('quarter')).toEqual([]);
+        expect(index.size).toBe(2);
+    });
+
+    it('highlights matches and cuts snippets around the first one', () => {
+        expect(highlightText('Plan the Café opening', ['cafe'])).toEqual([
+            { text: 'Plan the ', match: false },
+            { text: 'Café', match: true },
+            { text: ' opening', match: false },
+        ]);
+
+        const text = `${'lorem ipsum '.repeat(20)}the deadline is Friday\n\n${'dolor sit '.repeat(20)}`;
+        const snippet = createSnippet(text, ['deadline'], 60);
+        const joined = snippet.map(segment => segment.text).join('');
+        expect(joined.startsWith('…')).toBe(true);
+        expect(joined.endsWith('…')).toBe(true);
+        expect(snippet.find(segment => segment.match)?.text).toBe('deadline');
+        expect(joined).not.toContain('\n');
+    });
+});
+
+describe('search service', () => {
+    let service: SearchService | null = null;
+
+    afterEach(async () => {
+        service?.dispose();
+        service = null;
+        await db.notes.clear();
+        await db.calendarEvents.clear();
+        await db.$clipboardHistory.clear();
+    });
+
+    it('indexes existing records and follows later writes', async () => {
+        const now = Date.now();
+        const note = (title: string, content: string) =>
+            db.notes.add({ title, content, createdAt: now, updatedAt: now } as NoteRecord);
+        const groceries = await note('Groceries', 'milk and eggs');
+
+        service = createSearchService(db);
+        await service.ready;
+        const search = (query: string) => service?.search(query).map(result => result.document.id) ?? [];
+
+        const [result] = service.search('eggs');
+        expect(result?.document).toMatchObject({
+            id: `note:${groceries}`,
+            category: 'notes',
+            target: { kind: 'app', appId: 'notepad', props: { initialNoteId: groceries } },
+        });
+        expect(result?.snippet).toContainEqual({ text: 'eggs', match: true });
+
+        await db.notes.update(groceries, { content: 'bread only' });
+        expect(search('eggs')).toEqual([]);
+        expect(search('bread')).toEqual([`note:${groceries}`]);
+
+        const recipe = await note('Bread recipe', '');
+        expect(search('bread')).toEqual([`note:${recipe}`, `note:${groceries}`]);
+
+        await db.notes.delete(groceries);
+        expect(search('bread')).toEqual([`note:${recipe}`]);
+
+        await db.calendarEvents.put({
+            id: 'e1',
+            title: 'Dentist',
+            date: '2026-03-02',
+            allDay: false,
+            startTime: '09:00',
+            endTime: '10:00',
+            location: 'Main Street',
+            notes: '',
+            lastDate: '2026-03-02',
+            createdAt: now,
+            updatedAt: now,
+        });
+        expect(service.search('dentist', { categories: ['calendar'] })[0]?.document.target).toEqual({
+            kind: 'app',
+            appId: 'calendar',
+            props: { initialDate: '2026-03-02' },
+        });
+
+        await vfs.writeFile('/Documents/search-test.md', 'Quarterly zeppelin report');
+        await vi.waitFor(() => expect(search('zeppelin')).toHaveLength(1));
+        expect(service.search('zeppelin')[0]?.document.target).toEqual({
+            kind: 'file',
+            path: '/Documents/search-test.md',
+        });
+
+        await vfs.remove('/Documents/search-test.md');
+        await vi.waitFor(() => expect(search('zeppelin')).toEqual([]));
+    });
+
+    it('drops records that stop being searchable when updated', async () => {
+        service = createSearchService(db);
+        await service.ready;
+        const search = (query: string) => service?.search(query).map(result => result.document.id) ?? [];
+
+        const copied = await db.$clipboardHistory.add({
+            content: 'tracking number 1Z999',
+            contentType: 'text',
+            preview: 'tracking number 1Z999',
+            copiedAt: Date.now(),
+        });
+        expect(search('tracking')).toEqual([`clipboard:${copied}`]);
+
+        await db.$clipboardHistory.update(copied, { contentType: 'image' });
+        expect(search('tracking')).toEqual([]);
+    });
+});
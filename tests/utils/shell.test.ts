@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { vfs } from '../../utils/vfs';
+import { parseScript, isShellSyntaxError, runScript, splitLines } from '../../utils/shell';
+import type { ShellCommandRunner, ShellContext } from '../../utils/shell';
+
+/**
+ * Minimal command set standing in for the Terminal's commands
+ */
+const runCommand: ShellCommandRunner = async (argv, io) => {
+    const [name, ...args] = argv;
+    switch (name) {
+        case 'echo':
+            io.stdout(args.join(' '));
+            return 0;
+        case 'cat':
+            if (args.length === 0) {
+                splitLines(io.stdin).forEach(io.stdout);
+                return 0;
+            }
+            for (const file of args) {
+                splitLines(await vfs.readFile(file.startsWith('/') ? file : `/Documents/${file}`)).forEach(io.stdout);
+            }
+            return 0;
+        case 'grep': {
+            const lines = splitLines(io.stdin).filter(line => line.includes(args[0] ?? ''));
+            lines.forEach(io.stdout);
+            return lines.length > 0 ? 0 : 1;
+        }
+        case 'fail':
+            io.stderr('failed');
+            return 1;
+        default:
+            io.stderr(`${name}: not found`);
+            return 127;
+    }
+};
+
+const run = async (source: string, context: Partial<ShellContext> = {}) => {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const status = await runScript(
+        source,
+        { env: {}, cwd: () => '/Documents', runCommand, ...context },
+        { stdout: line => stdout.push(line), stderr: line => stderr.push(line) }
+    );
+    return { status, stdout, stderr };
+};
+
+describe('shell parser', () => {
+    it('parses pipelines, redirects and chains', () => {
+        const script = parseScript('ls | grep md > list.txt && cat list.txt; echo done');
+
+        expect(script.statements).toHaveLength(2);
+        const [first] = script.statements;
+        expect(first?.first.commands).toHaveLength(2);
+        expect(first?.first.commands[1]?.redirects[0]?.operator).toBe('>');
+        expect(first?.rest[0]?.operator).toBe('&&');
+    });
+
+    it('keeps quoting and recognizes leading assignments', () => {
+        const [statement] = parseScript(`A=1 echo 'a $B' "c $B" d\\ e`).statements;
+        const command = statement?.first.commands[0];
+
+        expect(command?.assignments.map(a => a.name)).toEqual(['A']);
+        expect(command?.words).toHaveLength(4);
+        expect(command?.words[1]?.parts).toEqual([{ type: 'text', value: 'a $B', quoted: true }]);
+        expect(command?.words[2]?.parts[1]).toEqual({ type: 'variable', name: 'B', quoted: true });
+    });
+
+    it('keeps backslashes in Windows paths', () => {
+        const [statement] = parseScript('cd C:\\Documents\\notes').statements;
+        expect(statement?.first.commands[0]?.words[1]?.parts).toEqual([
+            { type: 'text', value: 'C:\\Documents\\notes', quoted: false },
+        ]);
+    });
+
+    it('reports syntax errors', () => {
+        expect(() => parseScript('echo "open')).toThrow(/unterminated/);
+        let error: unknown;
+        try {
+            parseScript('| grep x');
+        } catch (caught) {
+            error = caught;
+        }
+        expect(isShellSyntaxError(error)).toBe(true);
+        expect(() => parseScript('echo >')).toThrow(/unexpected end/);
+    });
+});
+
+describe('shell interpreter', () => {
+    it('pipes output between commands and redirects into VFS files', async () => {
+        await vfs.writeFile('/Documents/names.txt', 'readme.md\nnotes.txt\ntodo.md\n');
+
+        const result = await run('cat names.txt | grep md > list.txt && cat list.txt');
+
+        expect(result.status).toBe(0);
+        expect(result.stdout).toEqual(['readme.md', 'todo.md']);
+        expect(await vfs.readFile('/Documents/list.txt')).toBe('readme.md\ntodo.md\n');
+    });
+
+    it('appends with >> and reads stdin with <', async () => {
+        await run('echo one > log.txt; echo two >> log.txt');
+        const result = await run('grep t < log.txt');
+
+        expect(await vfs.readFile('/Documents/log.txt')).toBe('one\ntwo\n');
+        expect(result.stdout).toEqual(['two']);
+    });
+
+    it('short-circuits && and || on exit status', async () => {
+        const result = await run('fail && echo skipped || echo recovered; echo $?');
+
+        expect(result.stdout).toEqual(['recovered', '0']);
+        expect(result.stderr).toEqual(['failed']);
+    });
+
+    it('expands variables set by export and assignments', async () => {
+        const env: Record<string, string> = {};
+        const result = await run('export NAME=World && GREETING=Hello; echo "$GREETING, ${NAME}!" \'$NAME\'', { env });
+
+        expect(result.stdout).toEqual(['Hello, World! $NAME']);
+        expect(env).toEqual({ NAME: 'World', GREETING: 'Hello' });
+    });
+
+    it('scopes prefix assignments to a single command', async () => {
+        const env: Record<string, string> = {};
+        await run('TEMP=1 echo x', { env });
+        expect(env).toEqual({});
+    });
+
+    it('runs script files with positional parameters', async () => {
+        await vfs.writeFile(
+            '/Documents/greet.sh',
+            '# greet everyone\nexport LAST=$1\necho "hi $1 ($#)"\nfail || echo "done with $0"\n'
+        );
+
+        const env: Record<string, string> = {};
+        const result = await run('./greet.sh Ada', { env });
+        expect(result.stdout).toEqual(['hi Ada (1)', 'done with ./greet.sh']);
+        // `sh`-style execution does not leak variables, `source` does
+        expect(env.LAST).toBeUndefined();
+
+        await run('source greet.sh Grace', { env });
+        expect(env.LAST).toBe('Grace');
+    });
+
+    it('expands unquoted globs relative to the working directory', async () => {
+        await vfs.writeFile('/Documents/a.md', 'A');
+        await vfs.writeFile('/Documents/b.md', 'B');
+
+        expect((await run('echo *.md')).stdout).toEqual(['a.md b.md']);
+        expect((await run("echo '*.md'")).stdout).toEqual(['*.md']);
+        expect((await run('echo *.none')).stdout).toEqual(['*.none']);
+    });
+
+    it('reports syntax errors with status 2', async () => {
+        const result = await run('echo "unterminated');
+        expect(result.status).toBe(2);
+        expect(result.stderr[0]).toMatch(/^syntax error/);
+    });
+});
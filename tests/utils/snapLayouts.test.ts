@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { detectSnapZone, findSnapLayout, getKeyboardSnapTarget, getSnapRect } from '../../utils/snapLayouts';
+
+const area = { x: 0, y: 0, width: 1200, height: 800 };
+
+describe('snap layouts', () => {
+    it('maps slots to work area rectangles', () => {
+        expect(getSnapRect('right', area)).toEqual({ x: 600, y: 0, width: 600, height: 800 });
+        expect(getSnapRect('bottom-left', { ...area, y: 40 })).toEqual({ x: 0, y: 440, width: 600, height: 400 });
+        expect(getSnapRect('center-third', area)).toEqual({ x: 400, y: 0, width: 400, height: 800 });
+        expect(findSnapLayout(['top-right'])?.id).toBe('half-and-quarters');
+        expect(findSnapLayout(['left'])?.id).toBe('halves');
+    });
+
+    it('detects edge, corner and maximize zones while dragging', () => {
+        expect(detectSnapZone({ x: 5, y: 400 }, area)).toBe('left');
+        expect(detectSnapZone({ x: 1195, y: 10 }, area)).toBe('top-right');
+        expect(detectSnapZone({ x: 5, y: 790 }, area)).toBe('bottom-left');
+        expect(detectSnapZone({ x: 600, y: 5 }, area)).toBe('top');
+        expect(detectSnapZone({ x: 600, y: 400 }, area)).toBe('none');
+    });
+
+    it('moves windows between slots with the arrow keys', () => {
+        const free = { isMaximized: false };
+        expect(getKeyboardSnapTarget(free, 'left')).toBe('left');
+        expect(getKeyboardSnapTarget(free, 'up')).toBe('maximize');
+        expect(getKeyboardSnapTarget(free, 'down')).toBe('minimize');
+        expect(getKeyboardSnapTarget({ isMaximized: true }, 'down')).toBe('restore');
+        expect(getKeyboardSnapTarget({ ...free, snapSlot: 'left' }, 'up')).toBe('top-left');
+        expect(getKeyboardSnapTarget({ ...free, snapSlot: 'top-left' }, 'right')).toBe('top-right');
+        expect(getKeyboardSnapTarget({ ...free, snapSlot: 'right' }, 'left')).toBe('restore');
+        expect(getKeyboardSnapTarget({ ...free, snapSlot: 'bottom-right' }, 'down')).toBe('restore');
+    });
+});
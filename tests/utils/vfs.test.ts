@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { FileSystemItem } from '../../types';
+import {
+    getFiles,
+    getRecycleBinContents,
+    restoreFromRecycleBin,
+    subscribeToFileSystem,
+    STORE_NAMES,
+} from '../../utils/fileSystem';
+import {
+    vfs,
+    isVfsError,
+    normalizePath,
+    resolvePath,
+    dirname,
+    basename,
+    extname,
+    globSegmentToRegExp,
+} from '../../utils/vfs';
+
+const LEGACY_TREE: FileSystemItem[] = [
+    {
+        id: 'root',
+        name: 'Root',
+        type: 'folder',
+        children: [
+            { id: 'desktop', name: 'Desktop', type: 'folder', children: [] },
+            {
+                id: 'documents',
+                name: 'Documents',
+                type: 'folder',
+                children: [{ id: 'legacy-note', name: 'Legacy.txt', type: 'document', content: 'from v1' }],
+            },
+            { id: 'recycleBin', name: 'Recycle Bin', type: 'folder', children: [] },
+        ],
+    },
+];
+
+/**
+ * Create a version 1 database with the nested tree layout before the module opens it
+ */
+const seedLegacyDatabase = (): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open('windows15-fs', 1);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore('files', { keyPath: 'id' });
+            LEGACY_TREE.forEach(item => store.put(item));
+        };
+        request.onsuccess = () => {
+            request.result.close();
+            resolve();
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+describe('vfs path helpers', () => {
+    it('normalizes separators, dot segments and drive prefixes', () => {
+        expect(normalizePath('C:\\Documents\\..\\Pictures\\')).toBe('/Pictures');
+        expect(normalizePath('/a/./b//c/')).toBe('/a/b/c');
+        expect(normalizePath('/..')).toBe('/');
+    });
+
+    it('resolves relative input against a working directory', () => {
+        expect(resolvePath('/Documents', 'notes/todo.md')).toBe('/Documents/notes/todo.md');
+        expect(resolvePath('/Documents', '../Pictures')).toBe('/Pictures');
+        expect(resolvePath('/Documents', '/Music')).toBe('/Music');
+        expect(resolvePath('/Documents', '')).toBe('/Documents');
+    });
+
+    it('splits paths into dirname, basename and extension', () => {
+        expect(dirname('/a/b/c.TXT')).toBe('/a/b');
+        expect(dirname('/a')).toBe('/');
+        expect(basename('/a/b/c.TXT')).toBe('c.TXT');
+        expect(extname('/a/b/c.TXT')).toBe('txt');
+        expect(extname('/a/.hidden')).toBe('');
+    });
+
+    it('converts glob segments to case-insensitive patterns', () => {
+        expect(globSegmentToRegExp('*.md').test('README.MD')).toBe(true);
+        expect(globSegmentToRegExp('note?.txt').test('note1.txt')).toBe(true);
+        expect(globSegmentToRegExp('[!a]*').test('apple')).toBe(false);
+        expect(globSegmentToRegExp('a.b').test('axb')).toBe(false);
+    });
+});
+
+describe('vfs operations', () => {
+    beforeAll(async () => {
+        await seedLegacyDatabase();
+    });
+
+    it('migrates the nested v1 tree into per-node records', async () => {
+        expect(await vfs.readFile('/Documents/Legacy.txt')).toBe('from v1');
+
+        const files = await getFiles();
+        const root = files.find(file => file.id === 'root');
+        const documents = root?.children?.find(child => child.id === 'documents');
+        expect(documents?.children?.map(child => child.id)).toContain('legacy-note');
+    });
+
+    it('creates nested folders with mkdir -p and writes files', async () => {
+        await vfs.mkdir('/Documents/notes/2025', { recursive: true });
+        const written = await vfs.writeFile('/Documents/notes/todo.md', '- ship VFS');
+
+        expect(written.path).toBe('/Documents/notes/todo.md');
+        expect(written.size).toBe(10);
+        expect(await vfs.readFile('/documents/NOTES/todo.md')).toBe('- ship VFS');
+
+        const entries = await vfs.readdir('/Documents/notes');
+        expect(entries.map(entry => entry.name)).toEqual(['2025', 'todo.md']);
+    });
+
+    it('appends to existing files and creates parents on request', async () => {
+        await vfs.writeFile('/Documents/logs/app.log', 'one\n', { recursive: true });
+        await vfs.writeFile('/Documents/logs/app.log', 'two\n', { append: true });
+        expect(await vfs.readFile('/Documents/logs/app.log')).toBe('one\ntwo\n');
+    });
+
+    it('raises errno-style errors', async () => {
+        await expect(vfs.readFile('/Documents/missing.txt')).rejects.toSatisfy(error => isVfsError(error, 'ENOENT'));
+        await expect(vfs.readFile('/Documents')).rejects.toSatisfy(error => isVfsError(error, 'EISDIR'));
+        await expect(vfs.mkdir('/Documents')).rejects.toSatisfy(error => isVfsError(error, 'EEXIST'));
+        await expect(vfs.writeFile('/Nope/file.txt', 'x')).rejects.toSatisfy(error => isVfsError(error, 'ENOENT'));
+        expect(await vfs.stat('/Documents/Legacy.txt/child')).toBeNull();
+    });
+
+    it('renames, moves and copies while keeping node identity on move', async () => {
+        await vfs.writeFile('/Documents/draft.txt', 'draft');
+        const renamed = await vfs.rename('/Documents/draft.txt', 'final.txt');
+        const moved = await vfs.move('/Documents/final.txt', '/Desktop');
+
+        expect(moved.id).toBe(renamed.id);
+        expect(moved.path).toBe('/Desktop/final.txt');
+        expect(await vfs.exists('/Documents/final.txt')).toBe(false);
+
+        const copied = await vfs.copy('/Documents/notes', '/Desktop/notes-copy');
+        expect(copied.id).not.toBe((await vfs.stat('/Documents/notes'))?.id);
+        expect(await vfs.readFile('/Desktop/notes-copy/todo.md')).toBe('- ship VFS');
+
+        await expect(vfs.move('/Documents/notes', '/Documents/notes/2025')).rejects.toSatisfy(error =>
+            isVfsError(error, 'EINVAL')
+        );
+    });
+
+    it('renames by case alone on move', async () => {
+        const { id } = await vfs.writeFile('/Documents/case.txt', 'case');
+
+        const moved = await vfs.move('/Documents/case.txt', '/Documents/Case.txt');
+        expect(moved).toMatchObject({ id, path: '/Documents/Case.txt' });
+        expect((await vfs.readdir('/Documents')).map(entry => entry.name)).toContain('Case.txt');
+        await expect(vfs.copy('/Documents/Case.txt', '/Documents/CASE.txt')).rejects.toSatisfy(error =>
+            isVfsError(error, 'EEXIST')
+        );
+    });
+
+    it('matches glob patterns including **', async () => {
+        await vfs.writeFile('/Documents/notes/2025/jan.md', '# Jan');
+
+        expect(await vfs.glob('/Documents/notes/*.md')).toEqual(['/Documents/notes/todo.md']);
+        expect(await vfs.glob('**/*.md', { cwd: '/Documents' })).toEqual([
+            '/Documents/notes/2025/jan.md',
+            '/Documents/notes/todo.md',
+        ]);
+    });
+
+    it('stores Blob content with byte sizes and drops it on text overwrite', async () => {
+        const bytes = new Uint8Array([0x00, 0x61, 0x73, 0x6d, 0xff]);
+        const written = await vfs.writeFile('/Desktop/game.wasm', new Blob([bytes], { type: 'application/wasm' }));
+
+        expect(written.size).toBe(5);
+        expect(written.isBinary).toBe(true);
+        expect(written.mimeType).toBe('application/wasm');
+        expect(Array.from(await vfs.readFileBytes('/Desktop/game.wasm'))).toEqual(Array.from(bytes));
+        expect((await vfs.readFileBlobById(written.id)).size).toBe(5);
+
+        const copied = await vfs.copy('/Desktop/game.wasm', '/Documents/game.wasm');
+        expect(copied.isBinary).toBe(true);
+        expect(Array.from(await vfs.readFileBytes('/Documents/game.wasm'))).toEqual(Array.from(bytes));
+
+        const overwritten = await vfs.writeFile('/Desktop/game.wasm', 'text');
+        expect(overwritten.isBinary).toBe(false);
+        expect(await vfs.readFile('/Desktop/game.wasm')).toBe('text');
+        expect((await vfs.readFileBlob('/Documents/game.wasm')).size).toBe(5);
+    });
+
+    it('suggests a free path for name collisions', async () => {
+        expect(await vfs.getAvailablePath('/Desktop/new.png')).toBe('/Desktop/new.png');
+        expect(await vfs.getAvailablePath('/Desktop/game.wasm')).toBe('/Desktop/game (2).wasm');
+    });
+
+    it('removes items through the Recycle Bin', async () => {
+        await vfs.writeFile('/Documents/trash/old.txt', 'old', { recursive: true });
+
+        await expect(vfs.remove('/Documents/trash')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+        await vfs.remove('/Documents/trash', { recursive: true });
+
+        expect(await vfs.exists('/Documents/trash')).toBe(false);
+        const binned = await vfs.stat('/Recycle Bin/trash');
+        expect(binned?.isDirectory).toBe(true);
+        expect(await vfs.readFile('/Recycle Bin/trash/old.txt')).toBe('old');
+
+        // Removing from the Recycle Bin deletes for good
+        await vfs.remove('/Recycle Bin/trash', { recursive: true });
+        expect(await vfs.exists('/Recycle Bin/trash')).toBe(false);
+        await expect(vfs.remove('/Recycle Bin')).rejects.toMatchObject({ code: 'EINVAL' });
+    });
+
+    it('restores removed files to their original folder', async () => {
+        const { id } = await vfs.writeFile('/Documents/keep.txt', 'keep');
+        await vfs.remove('/Documents/keep.txt');
+        expect((await getRecycleBinContents()).map(item => item.deletedFrom)).toContain('documents');
+
+        await restoreFromRecycleBin(id);
+        expect(await vfs.readFile('/Documents/keep.txt')).toBe('keep');
+    });
+
+    it('takes files moved out of the Recycle Bin out of it for good', async () => {
+        await vfs.writeFile('/Documents/moved.txt', 'moved');
+        await vfs.remove('/Documents/moved.txt');
+        await vfs.move('/Recycle Bin/moved.txt', '/Desktop');
+
+        expect((await getRecycleBinContents()).map(item => item.name)).not.toContain('moved.txt');
+        // Removing it again goes through the Recycle Bin instead of deleting for good
+        await vfs.remove('/Desktop/moved.txt');
+        expect(await vfs.readFile('/Recycle Bin/moved.txt')).toBe('moved');
+    });
+
+    it('reports the changed path to file system subscribers', async () => {
+        const changes: Array<string | undefined> = [];
+        const unsubscribe = subscribeToFileSystem(STORE_NAMES.files, (_key, path) => changes.push(path));
+
+        await vfs.writeFile('/Desktop/hello.txt', 'hi');
+        unsubscribe();
+
+        expect(changes).toEqual(['/Desktop/hello.txt']);
+    });
+});
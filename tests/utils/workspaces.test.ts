@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    captureWorkspaceSnapshot,
+    deleteWorkspace,
+    getWorkspace,
+    listWorkspaces,
+    parseWorkspaceSnapshot,
+    restoreWorkspaceAppState,
+    saveWorkspace,
+} from '../../utils/workspaces';
+import { db } from '../../utils/storage/db';
+import type { WindowState } from '../../types';
+
+const window = (appId: string, zIndex: number, instance = 1): WindowState => ({
+    id: `${appId}-${instance}`,
+    appId,
+    instance,
+    title: appId,
+    icon: 'apps',
+    component: null,
+    isOpen: true,
+    isMinimized: false,
+    isMaximized: false,
+    zIndex,
+    position: { x: zIndex, y: zIndex },
+    size: { width: 640, height: 480 },
+});
+
+describe('workspaces', () => {
+    afterEach(async () => {
+        await db.workspaces.clear();
+        await db.appState.clear();
+    });
+
+    it('captures windows back to front with their app state', async () => {
+        await db.appState.put({ appId: 'notepad', state: '{"file":"/Work/todo.txt"}', updatedAt: 1 });
+        const snapshot = await captureWorkspaceSnapshot(
+            db,
+            [window('notepad', 12), window('terminal', 10), window('notepad', 11, 2)],
+            'https://example.com/wall.jpg'
+        );
+
+        expect(snapshot.windows.map(w => [w.appId, w.instance])).toEqual([
+            ['terminal', 1],
+            ['notepad', 2],
+            ['notepad', 1],
+        ]);
+        expect(snapshot.appState).toEqual({ notepad: '{"file":"/Work/todo.txt"}' });
+        expect(snapshot.wallpaper).toBe('https://example.com/wall.jpg');
+    });
+
+    it('saves, replaces and deletes workspaces by name', async () => {
+        const snapshot = await captureWorkspaceSnapshot(db, [window('notepad', 10)], '');
+        await saveWorkspace(db, 'Writing', snapshot);
+        await saveWorkspace(db, 'coding', { ...snapshot, windows: [] });
+        await saveWorkspace(db, 'writing', { ...snapshot, appState: { notepad: '{}' } });
+
+        expect((await listWorkspaces(db)).map(w => w.name)).toEqual(['coding', 'writing']);
+        const writing = await getWorkspace(db, 'WRITING');
+        expect(writing?.snapshot.appState).toEqual({ notepad: '{}' });
+
+        await restoreWorkspaceAppState(db, writing?.snapshot ?? snapshot);
+        expect((await db.appState.get('notepad'))?.state).toBe('{}');
+
+        await expect(deleteWorkspace(db, 'coding')).resolves.toBe(true);
+        await expect(deleteWorkspace(db, 'coding')).resolves.toBe(false);
+        await expect(saveWorkspace(db, '  ', snapshot)).rejects.toThrow();
+    });
+
+    it('drops malformed entries from stored snapshots', () => {
+        const snapshot = parseWorkspaceSnapshot(
+            JSON.stringify({ windows: [{ appId: 'notepad' }, window('calculator', 3)], appState: { a: 1, b: '{}' } })
+        );
+        expect(snapshot.windows.map(w => w.appId)).toEqual(['calculator']);
+        expect(snapshot.appState).toEqual({ b: '{}' });
+        expect(parseWorkspaceSnapshot('not json')).toEqual({ windows: [], appState: {}, wallpaper: '' });
+    });
+});
@@ -3,6 +3,8 @@
  * @module types
  */
 import { ReactNode } from 'react';
+import type { Permission } from './utils/permissions';
+import type { SnapSlot } from './utils/snapLayouts';
 
 /**
  * Represents a file or folder in the file system.
@@ -19,8 +21,12 @@ export interface FileSystemItem {
     content?: string;
     /** Source URL for media files (images, videos, audio) */
     src?: string;
-    /** Human-readable file size (e.g., "2.5 MB") */
-    size?: string;
+    /** File size in bytes */
+    size?: number;
+    /** MIME type of the file content (e.g., "image/png") */
+    mimeType?: string;
+    /** Whether the file content is stored as a Blob in the file system blob store */
+    hasBlob?: boolean;
     /** Last modified date string */
     date?: string;
     /** Child items for folders */
@@ -54,6 +60,11 @@ export interface WindowState {
     id: string;
     /** ID of the application displayed in this window */
     appId: string;
+    /**
+     * Instance number among the app's windows, starting at 1. Window geometry is
+     * remembered per app and instance number.
+     */
+    instance?: number;
     /** Window title displayed in title bar and taskbar */
     title: string;
     /** Material Symbols icon name */
@@ -87,6 +98,31 @@ export interface WindowState {
      * Set to null or 0 to hide badge
      */
     badge?: number | null;
+    /** Tiling slot the window is snapped to, if any */
+    snap?: WindowSnap;
+    /** Virtual desktop the window is on */
+    desktopId?: string;
+}
+
+/**
+ * A virtual desktop: a separate set of windows with its own wallpaper
+ */
+export interface VirtualDesktop {
+    id: string;
+    name: string;
+}
+
+/**
+ * A window's place in a tiling layout.
+ * Windows snapped together through snap assist share a snap group, which the
+ * taskbar minimizes and restores as one.
+ */
+export interface WindowSnap {
+    slot: SnapSlot;
+    /** Snap group shared with the other windows of the layout */
+    groupId?: string;
+    /** Geometry before snapping, used when the window is restored */
+    restore: { position: { x: number; y: number }; size: { width: number; height: number } };
 }
 
 /**
@@ -100,6 +136,8 @@ export interface AppConfig {
     title: string;
     /** Material Symbols icon name */
     icon: string;
+    /** Icon image URL, shown instead of `icon` where supported (installed app packages) */
+    iconUrl?: string;
     /** Tailwind color class for icon styling */
     color: string;
     /** React component factory for the application */
@@ -108,6 +146,10 @@ export interface AppConfig {
     defaultWidth?: number;
     /** Default window height when opening the app */
     defaultHeight?: number;
+    /** Permissions the app may request (see utils/permissions) */
+    permissions?: Permission[];
+    /** Allow only one window of the app; opening it again focuses that window */
+    singleInstance?: boolean;
 }
 
 /**
@@ -0,0 +1,245 @@
+/**
+ * postMessage bridge between a sandboxed packaged app and the OS
+ *
+ * Packaged apps run in an `<iframe sandbox="allow-scripts">` without `allow-same-origin`,
+ * so they get an opaque origin and no access to the OS's storage or DOM. Every message
+ * in either direction uses the envelope below. The host only accepts messages whose
+ * `source` is the app's own iframe and whose `appId` matches the package.
+ *
+ * 1. The frame posts `hello` once its bootstrap script runs.
+ * 2. The host answers with `boot`, carrying the bundle source.
+ * 3. The frame imports the bundle and calls its default export with the root element
+ *    and the OS API; API calls travel as `request` and are answered by `response`.
+ *
+ * @module utils/appPackages/bridge
+ */
+
+import type { Permission } from '../permissions';
+
+export const BRIDGE_PROTOCOL = 'windows15-bridge/v1';
+
+export type BridgeMessageKind = 'hello' | 'boot' | 'request' | 'response';
+
+/**
+ * Message envelope used in both directions
+ */
+export interface BridgeMessage {
+    protocol: typeof BRIDGE_PROTOCOL;
+    appId: string;
+    kind: BridgeMessageKind;
+    /** Correlates a `response` with its `request` */
+    requestId?: string;
+    payload?: unknown;
+}
+
+/**
+ * OS services exposed to packaged apps, with their parameters and results
+ */
+export interface BridgeMethods {
+    'window.setTitle': { params: { title: string | null }; result: void };
+    'window.setBadge': { params: { count: number | null }; result: void };
+    'notifications.show': {
+        params: { message: string; type?: 'success' | 'error' | 'warning' | 'info' };
+        result: void;
+    };
+    'clipboard.writeText': { params: { text: string }; result: boolean };
+    'clipboard.readText': { params: Record<string, never>; result: string | null };
+    'files.pick': {
+        params: { extensions?: string[]; title?: string };
+        result: { name: string; content?: string } | null;
+    };
+    'files.save': {
+        params: { content: string; fileName?: string; title?: string };
+        result: { name: string } | null;
+    };
+}
+
+export type BridgeMethod = keyof BridgeMethods;
+
+/**
+ * Host implementation of each bridge method
+ */
+export type BridgeServices = {
+    [M in BridgeMethod]: (
+        params: BridgeMethods[M]['params']
+    ) => BridgeMethods[M]['result'] | Promise<BridgeMethods[M]['result']>;
+};
+
+/**
+ * Payload of a `response`: either a result or an error message
+ */
+export type BridgeResponse = { ok: true; result: unknown } | { ok: false; error: string };
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+// Shape checks for untrusted request parameters
+const PARAM_CHECKS: Record<BridgeMethod, (params: Record<string, unknown>) => boolean> = {
+    'window.setTitle': ({ title }) => title === null || (isString(title) && title.length <= 256),
+    'window.setBadge': ({ count }) => count === null || (typeof count === 'number' && Number.isFinite(count)),
+    'notifications.show': ({ message, type }) =>
+        isString(message) && isOptional(type, t => ['success', 'error', 'warning', 'info'].includes(t as string)),
+    'clipboard.writeText': ({ text }) => isString(text),
+    'clipboard.readText': () => true,
+    'files.pick': ({ extensions, title }) =>
+        isOptional(extensions, e => Array.isArray(e) && e.every(isString)) && isOptional(title, isString),
+    'files.save': ({ content, fileName, title }) =>
+        isString(content) && isOptional(fileName, isString) && isOptional(title, isString),
+};
+
+/**
+ * Permission each guarded bridge method needs (see utils/permissions)
+ */
+export const BRIDGE_PERMISSIONS: Partial<Record<BridgeMethod, Permission>> = {
+    'notifications.show': 'notifications',
+    'clipboard.readText': 'clipboard-read',
+    'files.pick': 'files:read',
+    'files.save': 'files:write',
+};
+
+/**
+ * Bridge methods available to packaged apps
+ */
+export const BRIDGE_METHODS = Object.keys(PARAM_CHECKS) as BridgeMethod[];
+
+const isBridgeMethod = (method: unknown): method is BridgeMethod =>
+    isString(method) && Object.prototype.hasOwnProperty.call(PARAM_CHECKS, method);
+
+/**
+ * Check that a received value is a bridge message for the given package
+ */
+export function isBridgeMessage(value: unknown, appId: string): value is BridgeMessage {
+    if (!value || typeof value !== 'object') return false;
+    const message = value as Record<string, unknown>;
+    return message.protocol === BRIDGE_PROTOCOL && message.appId === appId && isString(message.kind);
+}
+
+/**
+ * Build a message addressed to a packaged app
+ */
+export const createBridgeMessage = (
+    appId: string,
+    kind: BridgeMessageKind,
+    payload?: unknown,
+    requestId?: string
+): BridgeMessage => ({ protocol: BRIDGE_PROTOCOL, appId, kind, requestId, payload });
+
+/**
+ * Run a `request` from a packaged app against the host services
+ *
+ * Unknown methods, malformed parameters, denied permissions and service failures are
+ * answered with an error response rather than thrown, so a misbehaving app cannot
+ * break the host.
+ *
+ * @param authorize - Decides whether the app may use a permission; called for every guarded request
+ */
+export async function handleBridgeRequest(
+    services: BridgeServices,
+    message: BridgeMessage,
+    authorize: (permission: Permission) => Promise<boolean> = () => Promise.resolve(false)
+): Promise<BridgeMessage> {
+    const reply = (response: BridgeResponse) =>
+        createBridgeMessage(message.appId, 'response', response, message.requestId);
+
+    const { method, params = {} } = (message.payload ?? {}) as { method?: unknown; params?: unknown };
+    if (!isBridgeMethod(method)) {
+        return reply({ ok: false, error: `Unknown method: ${String(method)}` });
+    }
+    if (!params || typeof params !== 'object' || !PARAM_CHECKS[method](params as Record<string, unknown>)) {
+        return reply({ ok: false, error: `Invalid parameters for ${method}` });
+    }
+    const permission = BRIDGE_PERMISSIONS[method];
+    if (permission && !(await authorize(permission))) {
+        return reply({ ok: false, error: `Permission denied: ${permission}` });
+    }
+
+    try {
+        const service = services[method] as (params: unknown) => unknown;
+        return reply({ ok: true, result: (await service(params)) ?? null });
+    } catch (error) {
+        return reply({ ok: false, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+// Runs inside the frame: exposes the OS API and loads the bundle sent with `boot`
+const BOOTSTRAP = `
+const pending = new Map();
+let nextId = 0;
+const post = (kind, payload, requestId) => parent.postMessage({ protocol: PROTOCOL, appId: APP_ID, kind, requestId, payload }, '*');
+const call = (method, params = {}) => new Promise((resolve, reject) => {
+    const requestId = String(++nextId);
+    pending.set(requestId, { resolve, reject });
+    post('request', { method, params }, requestId);
+});
+const os = Object.freeze({
+    setTitle: title => call('window.setTitle', { title }),
+    setBadge: count => call('window.setBadge', { count }),
+    notify: (message, type) => call('notifications.show', { message, type }),
+    clipboard: Object.freeze({
+        writeText: text => call('clipboard.writeText', { text }),
+        readText: () => call('clipboard.readText'),
+    }),
+    pickFile: (options = {}) => call('files.pick', options),
+    saveFile: (content, options = {}) => call('files.save', { ...options, content }),
+});
+window.windows15 = os;
+let booted = false;
+addEventListener('message', async event => {
+    const message = event.data;
+    if (event.source !== parent || !message || message.protocol !== PROTOCOL || message.appId !== APP_ID) return;
+    if (message.kind === 'response') {
+        const request = pending.get(message.requestId);
+        if (!request) return;
+        pending.delete(message.requestId);
+        if (message.payload.ok) request.resolve(message.payload.result);
+        else request.reject(new Error(message.payload.error));
+    } else if (message.kind === 'boot' && !booted) {
+        booted = true;
+        const url = URL.createObjectURL(new Blob([message.payload.bundle], { type: 'text/javascript' }));
+        try {
+            const module = await import(url);
+            if (typeof module.default === 'function') await module.default(document.getElementById('root'), os);
+        } catch (error) {
+            document.getElementById('root').textContent = 'This app failed to start: ' + error;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+});
+post('hello');
+`;
+
+/**
+ * HTML for a packaged app's iframe `srcdoc`
+ *
+ * @param options.network - Whether the app may load remote resources or submit forms (the `network` permission)
+ */
+export function createSandboxDocument(appId: string, { network = false }: { network?: boolean } = {}): string {
+    // Escape "<" so values can never close the inline script
+    const constant = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+    const csp = [
+        "default-src 'none'",
+        "script-src 'unsafe-inline' blob:",
+        "style-src 'unsafe-inline'",
+        network ? 'img-src data: blob: https:' : 'img-src data: blob:',
+        network ? 'connect-src https:' : "connect-src 'none'",
+        network ? 'form-action https:' : "form-action 'none'",
+    ].join('; ');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta http-equiv="Content-Security-Policy" content="${csp}" />
+<style>html, body { margin: 0; height: 100%; font-family: system-ui, sans-serif; } #root { height: 100%; }</style>
+</head>
+<body>
+<div id="root"></div>
+<script>
+const PROTOCOL = ${constant(BRIDGE_PROTOCOL)};
+const APP_ID = ${constant(appId)};
+${BOOTSTRAP}
+</script>
+</body>
+</html>`;
+}
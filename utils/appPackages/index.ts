@@ -0,0 +1,6 @@
+/**
+ * Third-party app packages barrel exports
+ */
+export * from './manifest';
+export * from './installer';
+export * from './bridge';
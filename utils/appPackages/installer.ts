@@ -0,0 +1,105 @@
+/**
+ * Installing, updating and removing app packages
+ *
+ * Packages are stored in the local-only `$appPackages` table. Installing a package
+ * whose ID is already installed replaces it (an update) and keeps its install date.
+ *
+ * @module utils/appPackages/installer
+ *
+ * @example
+ * ```ts
+ * await installAppPackageFromUrl(db, 'https://tools.example.com/timer.w15app');
+ * await installAppPackageFromFile(db, '/Downloads/timer.w15app');
+ * await uninstallAppPackage(db, 'timer');
+ * ```
+ */
+import type { AppPackageRecord, Windows15DexieDB } from '../storage/db';
+import { resetPermissions } from '../permissions';
+import { readFile } from '../vfs';
+import { AppPackage, AppPackageManifest, createAppPackageError, parseAppPackage } from './manifest';
+
+/**
+ * Prefix of the registry IDs of packaged apps, keeping them apart from built-in app IDs
+ */
+export const PACKAGED_APP_PREFIX = 'package:';
+
+/**
+ * Registry app ID of an installed package
+ */
+export const getPackagedAppId = (packageId: string): string => `${PACKAGED_APP_PREFIX}${packageId}`;
+
+/**
+ * Package ID of a packaged app's registry ID, or null for built-in apps
+ */
+export const getPackageIdFromAppId = (appId: string): string | null =>
+    appId.startsWith(PACKAGED_APP_PREFIX) ? appId.slice(PACKAGED_APP_PREFIX.length) : null;
+
+/**
+ * The manifest stored with an installed package
+ */
+export const getRecordManifest = (record: AppPackageRecord): AppPackageManifest =>
+    JSON.parse(record.manifest) as AppPackageManifest;
+
+/**
+ * Store a parsed package, replacing any installed version
+ *
+ * @param source - URL or VFS path the package came from, shown in Settings
+ */
+export async function installAppPackage(
+    db: Windows15DexieDB,
+    pkg: AppPackage,
+    source: string
+): Promise<AppPackageRecord> {
+    const now = Date.now();
+    const existing = await db.$appPackages.get(pkg.manifest.id);
+    const record: AppPackageRecord = {
+        id: pkg.manifest.id,
+        name: pkg.manifest.name,
+        version: pkg.manifest.version,
+        manifest: JSON.stringify(pkg.manifest),
+        bundle: pkg.bundle,
+        icon: pkg.icon,
+        source,
+        installedAt: existing?.installedAt ?? now,
+        updatedAt: now,
+    };
+    await db.$appPackages.put(record);
+    return record;
+}
+
+/**
+ * Download and install a package document
+ *
+ * @throws {AppPackageError} If the download fails or the package is invalid
+ */
+export async function installAppPackageFromUrl(db: Windows15DexieDB, url: string): Promise<AppPackageRecord> {
+    let text: string;
+    try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        text = await response.text();
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw createAppPackageError('EFETCH', `Could not download package: ${reason}`);
+    }
+    return installAppPackage(db, parseAppPackage(text), url);
+}
+
+/**
+ * Install a package document stored in the virtual file system
+ *
+ * @throws {VfsError} If the file cannot be read
+ * @throws {AppPackageError} If the package is invalid
+ */
+export async function installAppPackageFromFile(db: Windows15DexieDB, path: string): Promise<AppPackageRecord> {
+    const text = await readFile(path);
+    return installAppPackage(db, parseAppPackage(text), path);
+}
+
+/**
+ * Remove an installed package and forget its permission decisions
+ */
+export async function uninstallAppPackage(db: Windows15DexieDB, packageId: string): Promise<void> {
+    await db.$appPackages.delete(packageId);
+    await resetPermissions(db, getPackagedAppId(packageId));
+}
@@ -0,0 +1,187 @@
+/**
+ * App package format and validation
+ *
+ * A package is a single JSON document (conventionally `*.w15app`) holding the manifest,
+ * the ES module bundle as source text, and an optional icon as a data URL:
+ *
+ * ```json
+ * {
+ *     "manifest": { "id": "team-timer", "name": "Team Timer", "version": "1.0.0" },
+ *     "bundle": "export default (root, os) => { root.textContent = 'Hello'; os.setTitle('Hi'); };",
+ *     "icon": "data:image/svg+xml;base64,..."
+ * }
+ * ```
+ *
+ * @module utils/appPackages/manifest
+ */
+
+import { PERMISSIONS, isPermission } from '../permissions';
+import type { Permission } from '../permissions';
+
+/**
+ * Package manifest
+ */
+export interface AppPackageManifest {
+    /** Unique package ID (lowercase letters, numbers and hyphens) */
+    id: string;
+    /** Display name shown in the Start Menu and window title */
+    name: string;
+    /** Package version (e.g. `1.2.0`) */
+    version: string;
+    description?: string;
+    author?: string;
+    /** Material Symbols icon name, used when the package has no icon image */
+    symbol?: string;
+    /** Tailwind color class for the icon tile */
+    color?: string;
+    /** Default window width when opening the app */
+    defaultWidth?: number;
+    /** Default window height when opening the app */
+    defaultHeight?: number;
+    /** Permissions the app may request; the user is asked before each is first used */
+    permissions?: Permission[];
+}
+
+/**
+ * A parsed, validated package
+ */
+export interface AppPackage {
+    manifest: AppPackageManifest;
+    /** ES module source; its default export is called with the root element and the OS API */
+    bundle: string;
+    /** Icon image as a `data:image/...` URL */
+    icon?: string;
+}
+
+/**
+ * Error codes raised while reading or installing a package
+ */
+export type AppPackageErrorCode = 'EPARSE' | 'EMANIFEST' | 'ESIZE' | 'EFETCH';
+
+/**
+ * Error thrown by package operations, carrying a machine-readable code
+ */
+export type AppPackageError = Error & { code: AppPackageErrorCode };
+
+const ERROR_CODES: AppPackageErrorCode[] = ['EPARSE', 'EMANIFEST', 'ESIZE', 'EFETCH'];
+
+/**
+ * Create an {@link AppPackageError}
+ */
+export const createAppPackageError = (code: AppPackageErrorCode, message: string): AppPackageError => {
+    const error = new Error(message) as AppPackageError;
+    error.name = 'AppPackageError';
+    error.code = code;
+    return error;
+};
+
+/**
+ * Check whether an unknown error is an {@link AppPackageError}, optionally with a specific code
+ */
+export const isAppPackageError = (error: unknown, code?: AppPackageErrorCode): error is AppPackageError => {
+    if (!(error instanceof Error) || error.name !== 'AppPackageError') return false;
+    const errorCode = (error as AppPackageError).code;
+    return code ? errorCode === code : ERROR_CODES.includes(errorCode);
+};
+
+/**
+ * File extension of package documents
+ */
+export const APP_PACKAGE_EXTENSION = '.w15app';
+
+/**
+ * Maximum size of a package document (2MB)
+ */
+export const MAX_APP_PACKAGE_BYTES = 2 * 1024 * 1024;
+
+const MAX_STRING_LENGTH = 256;
+
+const OPTIONAL_STRING_FIELDS = ['description', 'author', 'symbol', 'color'] as const;
+
+/**
+ * Validate a package manifest
+ *
+ * @returns The list of problems; empty when the manifest is valid
+ */
+export function validateAppManifest(manifest: unknown): string[] {
+    if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+        return ['Manifest must be a JSON object'];
+    }
+
+    const m = manifest as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof m.id !== 'string' || !/^[a-z0-9-]+$/.test(m.id)) {
+        errors.push('Field "id" must only contain lowercase letters, numbers, and hyphens');
+    } else if (m.id.length > 64) {
+        errors.push('Field "id" exceeds maximum length of 64 characters');
+    }
+
+    if (typeof m.name !== 'string' || m.name.trim().length === 0) {
+        errors.push('Missing or invalid required field: name (must be a string)');
+    } else if (m.name.length > MAX_STRING_LENGTH) {
+        errors.push(`Field "name" exceeds maximum length of ${MAX_STRING_LENGTH} characters`);
+    }
+
+    if (typeof m.version !== 'string' || !/^\d+(\.\d+){0,2}([-+][\w.-]+)?$/.test(m.version)) {
+        errors.push('Missing or invalid required field: version (e.g. "1.0.0")');
+    }
+
+    for (const field of OPTIONAL_STRING_FIELDS) {
+        const value = m[field];
+        if (value !== undefined && (typeof value !== 'string' || value.length > MAX_STRING_LENGTH)) {
+            errors.push(`Field "${field}" must be a string of at most ${MAX_STRING_LENGTH} characters`);
+        }
+    }
+
+    for (const field of ['defaultWidth', 'defaultHeight'] as const) {
+        const value = m[field];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 200)) {
+            errors.push(`Field "${field}" must be an integer of at least 200`);
+        }
+    }
+
+    if (m.permissions !== undefined && (!Array.isArray(m.permissions) || !m.permissions.every(isPermission))) {
+        errors.push(`Field "permissions" must be an array of: ${Object.keys(PERMISSIONS).join(', ')}`);
+    }
+
+    return errors;
+}
+
+/**
+ * Parse and validate a package document
+ *
+ * @throws {AppPackageError} If the document is malformed or its manifest is invalid
+ */
+export function parseAppPackage(text: string): AppPackage {
+    if (text.length > MAX_APP_PACKAGE_BYTES) {
+        throw createAppPackageError('ESIZE', `Package exceeds the ${MAX_APP_PACKAGE_BYTES / 1024 / 1024}MB limit`);
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw createAppPackageError('EPARSE', 'Package is not valid JSON');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw createAppPackageError('EPARSE', 'Package must be a JSON object');
+    }
+
+    const { manifest, bundle, icon } = data as Record<string, unknown>;
+    const errors = validateAppManifest(manifest);
+    if (typeof bundle !== 'string' || bundle.trim().length === 0) {
+        errors.push('Missing or invalid required field: bundle (must be ES module source)');
+    }
+    if (
+        icon !== undefined &&
+        (typeof icon !== 'string' || !/^data:image\/(png|jpeg|webp|gif|svg\+xml)[;,]/.test(icon))
+    ) {
+        errors.push('Field "icon" must be a data:image URL');
+    }
+    if (errors.length > 0) {
+        throw createAppPackageError('EMANIFEST', `Invalid app package:\n${errors.join('\n')}`);
+    }
+
+    return { manifest: manifest as AppPackageManifest, bundle: bundle as string, icon: icon as string | undefined };
+}
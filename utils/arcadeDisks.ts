@@ -0,0 +1,36 @@
+/**
+ * Arcade cartridge disks
+ *
+ * WASM-4 gives every cartridge 1024 bytes of persistent storage (diskr/diskw), where
+ * games keep high scores and progress. Each game's bytes are one record in the
+ * local-only `$arcadeDisks` table, next to its save states in `$arcadeSaves`.
+ *
+ * @module utils/arcadeDisks
+ */
+import type { Windows15DexieDB } from './storage/db';
+
+/**
+ * The disk a game saved, empty if it never wrote one
+ */
+export async function loadArcadeDisk(db: Windows15DexieDB, gameId: string): Promise<Uint8Array> {
+    const record = await db.$arcadeDisks.get(gameId);
+    return record ? new Uint8Array(record.data) : new Uint8Array(0);
+}
+
+/**
+ * Keep the bytes a game wrote to its disk
+ */
+export async function saveArcadeDisk(db: Windows15DexieDB, gameId: string, data: Uint8Array): Promise<void> {
+    const now = Date.now();
+    await db.transaction('rw', db.$arcadeDisks, async () => {
+        const existing = await db.$arcadeDisks.get(gameId);
+        await db.$arcadeDisks.put({ gameId, data, createdAt: existing?.createdAt ?? now, updatedAt: now });
+    });
+}
+
+/**
+ * Erase a game's disk, as if it was never played
+ */
+export async function clearArcadeDisk(db: Windows15DexieDB, gameId: string): Promise<void> {
+    await db.$arcadeDisks.delete(gameId);
+}
@@ -0,0 +1,508 @@
+/**
+ * Calendar events
+ *
+ * Events are stored as local dates and wall-clock times in the cloud-synced
+ * `calendarEvents` table. Recurring events keep an RFC 5545 RRULE, so rules imported
+ * from other calendars survive unchanged; the iCalendar engine in utils/ical expands
+ * them into occurrences and maps events to and from .ics files.
+ *
+ * @module utils/calendarEvents
+ */
+import { addDays, fromYmd, pad2, toYmd } from './dateUtils';
+import {
+    createTimezone,
+    durationFromMinutes,
+    durationToMs,
+    expandEvents,
+    formatRecurrenceRule,
+    fromDate,
+    getEventBounds,
+    getLocalTimeZone,
+    isSupportedTimeZone,
+    parseRecurrenceRule,
+    toDate,
+    type ICalAlarm,
+    type ICalDateTime,
+    type ICalendar,
+    type ICalEvent,
+    type ICalTimezone,
+    type RecurrenceRule,
+} from './ical';
+import type { CalendarEventRecord, Windows15DexieDB } from './storage/db';
+import { STORAGE_KEYS } from './storage/localStorage';
+import { generateUuid } from './uuid';
+
+/**
+ * An event as the Calendar edits it; the stored record adds `lastDate` and timestamps
+ */
+export type CalendarEvent = Omit<CalendarEventRecord, 'lastDate' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * One occurrence of an event in local time
+ */
+export interface CalendarOccurrence {
+    /** The stored event; for recurring events, the whole series */
+    event: CalendarEvent;
+    /** First day of this occurrence, YYYY-MM-DD */
+    date: string;
+    /** Last day of this occurrence, YYYY-MM-DD */
+    endDate: string;
+    start: Date;
+    /** Exclusive end */
+    end: Date;
+}
+
+/**
+ * A reminder due for one occurrence
+ */
+export interface CalendarReminder {
+    occurrence: CalendarOccurrence;
+    minutesBefore: number;
+    at: Date;
+}
+
+/** Timed events saved before reminders existed are reminded 5 minutes ahead */
+const DEFAULT_REMINDERS = [5];
+
+/** `lastDate` of a series without an end */
+const OPEN_ENDED_DATE = '9999-12-31';
+
+const MINUTE_MS = 60_000;
+
+const toHm = (date: Date) => `${pad2(date.getHours())}:${pad2(date.getMinutes())}`;
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export const addDaysYmd = (ymd: string, days: number): string => toYmd(addDays(fromYmd(ymd), days));
+
+/**
+ * How long before the start a reminder goes off: "5 minutes", "1 hour", "2 days"
+ */
+export const formatReminderLead = (minutes: number): string => {
+    const [value, unit] =
+        minutes % 1440 === 0
+            ? [minutes / 1440, 'day']
+            : minutes % 60 === 0
+              ? [minutes / 60, 'hour']
+              : [minutes, 'minute'];
+    return `${value} ${unit}${value === 1 ? '' : 's'}`;
+};
+
+/**
+ * Minutes before the start at which an event reminds
+ */
+export const getEventReminders = (event: Pick<CalendarEvent, 'allDay' | 'reminders'>): number[] =>
+    event.reminders ?? (event.allDay ? [] : DEFAULT_REMINDERS);
+
+/**
+ * An event's recurrence rule, or null if it does not repeat (or the rule is unreadable)
+ */
+export const getEventRule = (event: Pick<CalendarEvent, 'rrule'>): RecurrenceRule | null => {
+    if (!event.rrule) return null;
+    try {
+        return parseRecurrenceRule(event.rrule);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Every day an occurrence covers, from its first to its last day
+ */
+export const getOccurrenceDays = (occurrence: Pick<CalendarOccurrence, 'date' | 'endDate'>): string[] => {
+    const days = [occurrence.date];
+    let day = occurrence.date;
+    while (day < occurrence.endDate && days.length < 366) {
+        day = addDaysYmd(day, 1);
+        days.push(day);
+    }
+    return days;
+};
+
+/**
+ * The date and time fields for an event running from `start` to `end`
+ */
+const toEventFields = (
+    start: Date,
+    end: Date,
+    allDay: boolean
+): Pick<CalendarEvent, 'date' | 'endDate' | 'startTime' | 'endTime'> => {
+    // Exclusive ends at midnight belong to the previous day
+    const endsAtMidnight = end > start && end.getHours() === 0 && end.getMinutes() === 0;
+    const last = endsAtMidnight ? new Date(end.getTime() - MINUTE_MS) : end;
+    const date = toYmd(start);
+    const endDate = toYmd(last);
+    return {
+        date,
+        endDate: endDate > date ? endDate : undefined,
+        startTime: allDay ? '00:00' : toHm(start),
+        endTime: allDay ? '23:59' : toHm(last),
+    };
+};
+
+const ymdToICal = (ymd: string, time?: string, tzid?: string): ICalDateTime => {
+    const [year = 1970, month = 1, day = 1] = ymd.split('-').map(Number);
+    const [hour = 0, minute = 0] = time ? time.split(':').map(Number) : [];
+    return { year, month, day, hour, minute, second: 0, isDate: !time, utc: false, ...(time && tzid ? { tzid } : {}) };
+};
+
+/**
+ * Map an event to a VEVENT. Timed events are written as wall times in `tzid`, or as
+ * floating times without one.
+ */
+export const toICalEvent = (event: CalendarEvent, tzid?: string): ICalEvent => {
+    const at = (ymd: string, time: string) => (event.allDay ? ymdToICal(ymd) : ymdToICal(ymd, time, tzid));
+    const rule = getEventRule(event);
+    if (rule?.until?.isDate && !event.allDay) {
+        // UNTIL must be a date-time like DTSTART, and in UTC when DTSTART has a zone
+        const { year, month, day } = rule.until;
+        rule.until = tzid
+            ? fromDate(new Date(year, month - 1, day, 23, 59, 59))
+            : { ...rule.until, isDate: false, hour: 23, minute: 59, second: 59 };
+    }
+    const lastDay = event.endDate ?? event.date;
+    return {
+        uid: event.id,
+        summary: event.title,
+        description: event.notes,
+        location: event.location,
+        start: at(event.date, event.startTime),
+        // All-day ends are exclusive: the day after the last day
+        end: event.allDay ? ymdToICal(addDaysYmd(lastDay, 1)) : ymdToICal(lastDay, event.endTime, tzid),
+        ...(rule ? { rrule: rule } : {}),
+        rdates: [],
+        exdates: rule ? (event.exdates ?? []).map(ymd => at(ymd, event.startTime)) : [],
+        categories: [],
+        alarms: getEventReminders(event).map(minutes => ({
+            action: 'DISPLAY',
+            trigger: { type: 'relative', duration: durationFromMinutes(-minutes), related: 'START' },
+            description: event.title,
+            properties: [],
+        })),
+        properties: [],
+    };
+};
+
+/**
+ * Minutes before the start at which an alarm goes off, or null for alarms after it
+ */
+const getAlarmLead = (alarm: ICalAlarm, start: Date, end: Date, timezones: ICalTimezone[]): number | null => {
+    const { trigger } = alarm;
+    const at =
+        trigger.type === 'absolute'
+            ? toDate(trigger.at, timezones).getTime()
+            : (trigger.related === 'END' ? end : start).getTime() + durationToMs(trigger.duration);
+    const minutes = Math.round((start.getTime() - at) / MINUTE_MS);
+    return minutes >= 0 ? minutes : null;
+};
+
+/**
+ * Map a VEVENT to an event in local time
+ */
+export const fromICalEvent = (event: ICalEvent, timezones: ICalTimezone[] = []): CalendarEvent => {
+    const { start, end } = getEventBounds(event, timezones);
+    const reminders = event.alarms
+        .map(alarm => getAlarmLead(alarm, start, end, timezones))
+        .filter((minutes): minutes is number => minutes !== null);
+    return {
+        id: generateUuid(),
+        title: event.summary || 'Untitled event',
+        ...toEventFields(start, end, event.start.isDate),
+        allDay: event.start.isDate,
+        location: event.location,
+        notes: event.description,
+        ...(event.rrule ? { rrule: formatRecurrenceRule(event.rrule) } : {}),
+        ...(event.rrule && event.exdates.length > 0
+            ? { exdates: event.exdates.map(exdate => toYmd(toDate(exdate, timezones))) }
+            : {}),
+        reminders: [...new Set(reminders)].sort((a, b) => a - b),
+    };
+};
+
+/**
+ * Import the events of a calendar. An occurrence changed in the source calendar
+ * (RECURRENCE-ID) becomes its own event, skipped in its series.
+ */
+export const calendarEventsFromICalendar = (calendar: ICalendar): CalendarEvent[] => {
+    const { timezones } = calendar;
+    const series = new Map<string, CalendarEvent>();
+    const imported: CalendarEvent[] = [];
+    for (const event of calendar.events) {
+        if (event.recurrenceId) continue;
+        const mapped = fromICalEvent(event, timezones);
+        imported.push(mapped);
+        if (event.rrule) series.set(event.uid, mapped);
+    }
+    for (const override of calendar.events) {
+        if (!override.recurrenceId) continue;
+        const master = series.get(override.uid);
+        if (master) master.exdates = [...(master.exdates ?? []), toYmd(toDate(override.recurrenceId, timezones))];
+        if (override.status !== 'CANCELLED') imported.push(fromICalEvent(override, timezones));
+    }
+    return imported;
+};
+
+/**
+ * Build a calendar for export. Timed events are written in the local time zone,
+ * described by a VTIMEZONE so other apps read them correctly.
+ */
+export const calendarEventsToICalendar = (events: CalendarEvent[]): ICalendar => {
+    const tzid = getLocalTimeZone();
+    const years = events
+        .flatMap(event => [event.date, event.endDate ?? event.date])
+        .map(ymd => Number(ymd.slice(0, 4)));
+    const timezones =
+        events.length > 0 && isSupportedTimeZone(tzid)
+            ? [createTimezone(tzid, Math.min(...years), Math.max(...years))]
+            : [];
+    return {
+        prodId: '-//Windows15//Calendar//EN',
+        version: '2.0',
+        events: events.map(event => toICalEvent(event, timezones[0]?.tzid)),
+        timezones,
+        properties: [{ name: 'CALSCALE', params: {}, value: 'GREGORIAN' }],
+    };
+};
+
+/**
+ * Expand events into the occurrences that overlap a range, sorted by start
+ */
+export const expandCalendarEvents = (
+    events: CalendarEvent[],
+    range: { start: Date; end: Date }
+): CalendarOccurrence[] => {
+    const byId = new Map(events.map(event => [event.id, event]));
+    return expandEvents(
+        events.map(event => toICalEvent(event)),
+        range
+    ).flatMap(occurrence => {
+        const event = byId.get(occurrence.event.uid);
+        if (!event) return [];
+        const { start, end } = occurrence;
+        const fields = toEventFields(start, end, occurrence.isAllDay);
+        return [{ event, date: fields.date, endDate: fields.endDate ?? fields.date, start, end }];
+    });
+};
+
+/**
+ * Reminders due in a time range, soonest first
+ */
+export const getUpcomingReminders = (events: CalendarEvent[], from: Date, to: Date): CalendarReminder[] => {
+    const longestLead = Math.max(0, ...events.flatMap(getEventReminders));
+    return expandCalendarEvents(events, { start: from, end: new Date(to.getTime() + longestLead * MINUTE_MS) })
+        .flatMap(occurrence =>
+            getEventReminders(occurrence.event).map(minutesBefore => ({
+                occurrence,
+                minutesBefore,
+                at: new Date(occurrence.start.getTime() - minutesBefore * MINUTE_MS),
+            }))
+        )
+        .filter(reminder => reminder.at >= from && reminder.at < to)
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+/**
+ * Skip one occurrence of a recurring event
+ */
+const skipOccurrence = (
+    events: CalendarEvent[],
+    occurrence: Pick<CalendarOccurrence, 'event' | 'date'>
+): CalendarEvent[] =>
+    events.map(e =>
+        e.id === occurrence.event.id ? { ...e, exdates: [...new Set([...(e.exdates ?? []), occurrence.date])] } : e
+    );
+
+/**
+ * Move an occurrence to a new day, and for timed events a new start time, keeping its
+ * length. A single event moves as a whole; an occurrence of a recurring event is split
+ * off as its own event and skipped in the series.
+ */
+export const rescheduleOccurrence = (
+    events: CalendarEvent[],
+    occurrence: CalendarOccurrence,
+    date: string,
+    startTime?: string
+): CalendarEvent[] => {
+    const { event } = occurrence;
+    const start = fromYmd(date);
+    if (!event.allDay) {
+        const [hours = 0, minutes = 0] = (startTime ?? event.startTime).split(':').map(Number);
+        start.setHours(hours, minutes, 0, 0);
+    }
+    const end = event.allDay
+        ? addDays(start, getOccurrenceDays(occurrence).length)
+        : new Date(start.getTime() + occurrence.end.getTime() - occurrence.start.getTime());
+    const fields = toEventFields(start, end, event.allDay);
+
+    if (!event.rrule) return events.map(e => (e.id === event.id ? { ...e, ...fields } : e));
+    const single: CalendarEvent = { ...event, ...fields, id: generateUuid(), rrule: undefined, exdates: undefined };
+    return [...skipOccurrence(events, occurrence), single];
+};
+
+/**
+ * Delete one occurrence: a single event is removed, a recurring event skips that date
+ */
+export const deleteOccurrence = (
+    events: CalendarEvent[],
+    occurrence: Pick<CalendarOccurrence, 'event' | 'date'>
+): CalendarEvent[] =>
+    occurrence.event.rrule
+        ? skipOccurrence(events, occurrence)
+        : events.filter(event => event.id !== occurrence.event.id);
+
+const WEEKDAY_LABELS: Record<string, string> = {
+    SU: 'Sun',
+    MO: 'Mon',
+    TU: 'Tue',
+    WE: 'Wed',
+    TH: 'Thu',
+    FR: 'Fri',
+    SA: 'Sat',
+};
+
+const ORDINAL_LABELS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', 5: '5th', [-1]: 'last' };
+
+const FREQUENCY_UNITS: Record<string, string> = {
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+};
+
+/**
+ * Describe an event's repetition, e.g. "Every 2 weeks on Mon, Wed until Mar 5, 2026"
+ * @returns null if the event does not repeat
+ */
+export const describeRecurrence = (event: Pick<CalendarEvent, 'rrule'>): string | null => {
+    const rule = getEventRule(event);
+    if (!rule) return null;
+    const unit = FREQUENCY_UNITS[rule.freq];
+    const extraParts =
+        rule.bySetPos || rule.byMonthDay || rule.byYearDay || rule.byWeekNo || rule.byHour || rule.byMinute;
+    if (!unit || extraParts) return 'Custom repeat';
+
+    let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+    if (rule.byDay) {
+        const days = rule.byDay.map(({ weekday, ordinal }) =>
+            ordinal
+                ? `${ORDINAL_LABELS[ordinal] ?? `${ordinal}th`} ${WEEKDAY_LABELS[weekday]}`
+                : WEEKDAY_LABELS[weekday]
+        );
+        text += ` on ${days.join(', ')}`;
+    }
+    if (rule.until) {
+        const until = toDate(rule.until);
+        text += ` until ${until.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    } else if (rule.count) {
+        text += `, ${rule.count} times`;
+    }
+    return text;
+};
+
+/**
+ * The last day any occurrence of an event covers, for range queries on `lastDate`
+ */
+export const getEventLastDate = (event: CalendarEvent): string => {
+    const rule = getEventRule(event);
+    if (!rule) return event.endDate ?? event.date;
+    if (!rule.until && rule.count === undefined) return OPEN_ENDED_DATE;
+    const occurrences = expandCalendarEvents([{ ...event, exdates: undefined }], {
+        start: fromYmd(event.date),
+        end: new Date(9999, 0, 1),
+    });
+    return occurrences[occurrences.length - 1]?.endDate ?? event.date;
+};
+
+/**
+ * Stored events, or with a range (YYYY-MM-DD, inclusive) only those with an
+ * occurrence that may fall inside it
+ */
+export async function listCalendarEvents(
+    db: Windows15DexieDB,
+    range?: { start: string; end: string }
+): Promise<CalendarEventRecord[]> {
+    if (!range) return db.calendarEvents.orderBy('date').toArray();
+    return db.calendarEvents
+        .where('lastDate')
+        .aboveOrEqual(range.start)
+        .and(record => record.date <= range.end)
+        .sortBy('date');
+}
+
+/**
+ * An event's own fields, without the ones the table adds or optional fields left unset
+ */
+const pickEventFields = (event: CalendarEvent): CalendarEvent => {
+    const { id, title, date, endDate, allDay, startTime, endTime, location, notes, rrule, exdates, reminders } = event;
+    return {
+        id,
+        title,
+        date,
+        ...(endDate ? { endDate } : {}),
+        allDay,
+        startTime,
+        endTime,
+        location,
+        notes,
+        ...(rrule ? { rrule } : {}),
+        ...(rrule && exdates?.length ? { exdates } : {}),
+        ...(reminders ? { reminders } : {}),
+    };
+};
+
+/**
+ * Store an edited list of events: changed and new events are written, missing ones
+ * deleted. Edits are made on the whole list, so the Calendar's helpers stay pure.
+ */
+export async function saveCalendarEvents(
+    db: Windows15DexieDB,
+    previous: CalendarEvent[],
+    next: CalendarEvent[]
+): Promise<void> {
+    const now = Date.now();
+    const before = new Map(previous.map(event => [event.id, event]));
+    const nextIds = new Set(next.map(event => event.id));
+    const changed = next.filter(event => {
+        const old = before.get(event.id);
+        return !old || JSON.stringify(pickEventFields(old)) !== JSON.stringify(pickEventFields(event));
+    });
+    const removed = previous.filter(event => !nextIds.has(event.id)).map(event => event.id);
+
+    await db.transaction('rw', db.calendarEvents, async () => {
+        const existing = await db.calendarEvents.bulkGet(changed.map(event => event.id));
+        await db.calendarEvents.bulkPut(
+            changed.map((event, index) => ({
+                ...pickEventFields(event),
+                lastDate: getEventLastDate(event),
+                createdAt: existing[index]?.createdAt ?? now,
+                updatedAt: now,
+            }))
+        );
+        await db.calendarEvents.bulkDelete(removed);
+    });
+}
+
+/**
+ * Record that this calendar has had events, so samples are never added to it again.
+ * The flag lives in the synced kv table, so it covers the user's other devices too.
+ */
+export async function markCalendarSeeded(db: Windows15DexieDB): Promise<void> {
+    await db.kv.put({ key: STORAGE_KEYS.calendarSeeded, valueJson: 'true', updatedAt: Date.now() });
+}
+
+/**
+ * Add sample events on a calendar's first run only: not once samples were added, events
+ * were migrated or any events exist, even if the user has deleted them all since.
+ * Samples should have fixed ids, so devices that seed before their first sync converge.
+ * @returns Whether the samples were added
+ */
+export async function seedCalendarEvents(db: Windows15DexieDB, seed: () => CalendarEvent[]): Promise<boolean> {
+    return db.transaction('rw', db.kv, db.calendarEvents, async () => {
+        if (await db.kv.get(STORAGE_KEYS.calendarSeeded)) return false;
+        await markCalendarSeeded(db);
+        if ((await db.calendarEvents.count()) > 0) return false;
+        await saveCalendarEvents(db, [], seed());
+        return true;
+    });
+}
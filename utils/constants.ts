@@ -198,14 +198,14 @@ export const INITIAL_FILES: FileSystemItem[] = [
                 name: 'Documents',
                 type: 'folder',
                 children: [
-                    { id: 'd1', name: 'Resume.docx', type: 'document', size: '15 KB', date: 'Aug 1, 2023' },
-                    { id: 'd2', name: 'Budget_2024.xlsx', type: 'document', size: '32 KB', date: 'Nov 10, 2023' },
-                    { id: 'f1', name: 'Project_Alpha.pdf', type: 'document', size: '2.4 MB', date: 'Oct 24, 2023' },
+                    { id: 'd1', name: 'Resume.docx', type: 'document', size: 15360, date: 'Aug 1, 2023' },
+                    { id: 'd2', name: 'Budget_2024.xlsx', type: 'document', size: 32768, date: 'Nov 10, 2023' },
+                    { id: 'f1', name: 'Project_Alpha.pdf', type: 'document', size: 2516582, date: 'Oct 24, 2023' },
                     {
                         id: 'd3',
                         name: 'Notes.txt',
                         type: 'document',
-                        size: '1 KB',
+                        size: 65,
                         date: 'Today',
                         content: 'Todo list:\n- Fix window dragging\n- Add start menu\n- Buy groceries',
                     },
@@ -220,7 +220,7 @@ export const INITIAL_FILES: FileSystemItem[] = [
                         id: 'p1',
                         name: 'Sunset.png',
                         type: 'image',
-                        size: '1.2 MB',
+                        size: 1258291,
                         date: 'Jun 15, 2023',
                         src: 'https://images.unsplash.com/photo-1616036740227-3d9d383dce34?auto=format&fit=crop&w=800&q=80',
                     },
@@ -228,7 +228,7 @@ export const INITIAL_FILES: FileSystemItem[] = [
                         id: 'p2',
                         name: 'Mountain.jpg',
                         type: 'image',
-                        size: '2.8 MB',
+                        size: 2936013,
                         date: 'Jul 22, 2023',
                         src: 'https://images.unsplash.com/photo-1519681393784-d120267933ba?auto=format&fit=crop&w=800&q=80',
                     },
@@ -236,7 +236,7 @@ export const INITIAL_FILES: FileSystemItem[] = [
                         id: 'f2',
                         name: 'Vacation.jpg',
                         type: 'image',
-                        size: '4.1 MB',
+                        size: 4299161,
                         date: 'Sep 12, 2023',
                         src: 'https://images.unsplash.com/photo-1476514525535-07fb3b4ae5f1?auto=format&fit=crop&w=800&q=80',
                     },
@@ -246,7 +246,9 @@ export const INITIAL_FILES: FileSystemItem[] = [
                 id: 'music',
                 name: 'Music',
                 type: 'folder',
-                children: [{ id: 'm1', name: 'Synthwave_Mix.mp3', type: 'audio', size: '12 MB', date: 'Jan 10, 2023' }],
+                children: [
+                    { id: 'm1', name: 'Synthwave_Mix.mp3', type: 'audio', size: 12582912, date: 'Jan 10, 2023' },
+                ],
             },
             {
                 id: 'recycleBin',
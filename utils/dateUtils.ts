@@ -56,6 +56,34 @@ export const fromYmd = (ymd: string): Date => {
  */
 export const addMonths = (date: Date, delta: number): Date => new Date(date.getFullYear(), date.getMonth() + delta, 1);
 
+/**
+ * Adds a number of days to a date, keeping the local time of day
+ * @param date - The starting date
+ * @param delta - Number of days to add (can be negative)
+ * @returns A new Date object
+ * @example
+ * ```ts
+ * addDays(new Date(2024, 0, 31), 1) // Date(2024, 1, 1)
+ * ```
+ */
+export const addDays = (date: Date, delta: number): Date => {
+    const result = new Date(date);
+    result.setDate(result.getDate() + delta);
+    return result;
+};
+
+/**
+ * Gets the Sunday that starts the week containing a date
+ * @param date - Any day of the week
+ * @returns Midnight on that week's Sunday
+ * @example
+ * ```ts
+ * startOfWeek(new Date(2024, 0, 17)) // Date(2024, 0, 14)
+ * ```
+ */
+export const startOfWeek = (date: Date): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+
 /**
  * Builds a calendar grid for the specified month
  * Returns 42 cells (6 weeks × 7 days) including days from previous/next months
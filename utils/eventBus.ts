@@ -30,6 +30,10 @@
  * ```
  */
 
+import type { Intent } from './intents';
+import type { PermissionRequest } from './permissions';
+import type { SnapSlot } from './snapLayouts';
+
 /**
  * Event handler callback type
  */
@@ -69,6 +73,12 @@ export interface EventBus<Events extends Record<string, unknown>> {
      */
     once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void;
 
+    /**
+     * Whether anything is subscribed to an event
+     * @param event - Event name
+     */
+    hasListeners<K extends keyof Events>(event: K): boolean;
+
     /**
      * Remove all handlers for an event or all events
      * @param event - Optional event name. If omitted, clears all events.
@@ -140,6 +150,8 @@ export function createEventBus<Events extends Record<string, unknown>>(): EventB
         return on(event, onceHandler);
     };
 
+    const hasListeners = <K extends keyof Events>(event: K): boolean => handlers.has(event);
+
     const clear = <K extends keyof Events>(event?: K): void => {
         if (event !== undefined) {
             handlers.delete(event);
@@ -148,7 +160,7 @@ export function createEventBus<Events extends Record<string, unknown>>(): EventB
         }
     };
 
-    return { on, off, emit, once, clear };
+    return { on, off, emit, once, hasListeners, clear };
 }
 
 // ============================================================================
@@ -165,6 +177,12 @@ export interface AppEvents {
     'window:closed': { windowId: string; appId: string };
     /** Emitted when a window gains focus */
     'window:focused': { windowId: string };
+    /** Emitted while a window is dragged by its title bar, with the pointer position */
+    'window:drag:move': { windowId: string; x: number; y: number; isMaximized: boolean };
+    /** Emitted when a title bar drag ends */
+    'window:drag:end': { windowId: string };
+    /** Emitted to snap a window into a slot; `layoutId` starts snap assist for the layout's other slots */
+    'window:snap': { windowId: string; slot: SnapSlot; layoutId?: string };
     /** Emitted when theme changes */
     'theme:changed': { theme: 'light' | 'dark' | 'system' };
     /** Emitted when wallpaper changes */
@@ -175,6 +193,14 @@ export interface AppEvents {
     'sync:status': { status: 'syncing' | 'synced' | 'offline' | 'error' };
     /** Emitted to request file open in an app */
     'file:open': { appId: string; fileId: string; fileName?: string; content?: string };
+    /** Emitted to dispatch an intent; `appId` targets one app directly */
+    'intent:start': { intent: Intent; appId?: string };
+    /** Emitted when an intent is answered; `result` is null when it was cancelled */
+    'intent:result': { intentId: string; result: unknown };
+    /** Emitted to ask the user whether an app may use a permission */
+    'permission:request': { request: PermissionRequest };
+    /** Emitted when the user answers a permission prompt; `granted` is null when it closed unanswered */
+    'permission:response': { requestId: string; granted: boolean | null };
     /** Index signature for constraint compatibility */
     [key: string]: unknown;
 }
@@ -18,9 +18,9 @@ export interface DroppedFileResult {
     suggestedAppId?: string;
     /** The original filename */
     originalName: string;
-    /** The file content (text or data URL) */
-    content: string;
-    /** Whether the file is binary (stored as data URL) */
+    /** The file content (text, or the original Blob for binary files) */
+    content: string | Blob;
+    /** Whether the file is binary (stored as a Blob) */
     isBinary: boolean;
 }
 
@@ -132,19 +132,8 @@ function readFileAsText(file: File): Promise<string> {
 }
 
 /**
- * Read a file as data URL (for binary files)
- */
-function readFileAsDataURL(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = () => reject(new Error('Failed to read file'));
-        reader.readAsDataURL(file);
-    });
-}
-
-/**
- * Process a single dropped file and return a FileSystemItem
+ * Process a single dropped file and return a FileSystemItem.
+ * Binary files keep their bytes as a Blob so they can be written to the VFS blob store.
  */
 export async function processDroppedFile(file: File): Promise<DroppedFileResult> {
     const ext = getFileExtension(file.name);
@@ -152,30 +141,23 @@ export async function processDroppedFile(file: File): Promise<DroppedFileResult>
     const isTextBased = isTextBasedExtension(ext);
     const isBinary = !isTextBased;
 
-    let content: string;
-
-    if (isTextBased) {
-        // Read text-based files as text
-        content = await readFileAsText(file);
-    } else {
-        // Read binary files as data URL
-        content = await readFileAsDataURL(file);
-    }
+    // Text-based files are read as text, binary files keep the original Blob
+    const content: string | Blob = isTextBased ? await readFileAsText(file) : file;
 
     // Create the file system item
     const fileItem: FileSystemItem = {
         id: `file-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
         name: file.name,
         type: fileType,
-        size: formatFileSize(file.size),
+        size: file.size,
+        mimeType: file.type || undefined,
         date: new Date().toLocaleDateString(),
     };
 
-    // Set appropriate content field based on file type
-    if (fileType === 'image' || fileType === 'video' || fileType === 'audio') {
-        fileItem.src = content; // Binary content as data URL
+    if (typeof content === 'string') {
+        fileItem.content = content;
     } else {
-        fileItem.content = content; // Text content
+        fileItem.hasBlob = true;
     }
 
     // Get suggested app
@@ -199,19 +181,6 @@ export async function processDroppedFiles(files: globalThis.FileList | File[]):
     return results;
 }
 
-/**
- * Format file size in human-readable format
- */
-function formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 Bytes';
-
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-}
-
 /**
  * Check if a drag event contains files
  */
@@ -10,15 +10,22 @@ import { FileSystemItem, WindowState } from '../types';
 import { DEFAULT_DESKTOP_SHORTCUTS, INITIAL_FILES } from './constants';
 
 const DB_NAME = 'windows15-fs';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
+/** Logical store name used for file change notifications */
 const STORE_FILES = 'files';
+/** Per-node object store (one record per file or folder, replaces the nested v1 'files' store) */
+const STORE_NODES = 'nodes';
+/** Binary file content keyed by node ID */
+const STORE_BLOBS = 'blobs';
 const STORE_SETTINGS = 'settings';
 const STORE_WINDOW_STATES = 'windowStates';
 
+const INDEX_PARENT_ID = 'parentId';
+
 const FS_SYNC_EVENT = 'windows15:fs-sync';
 
-type FsSyncDetail = { store: string; key?: string };
+type FsSyncDetail = { store: string; key?: string; path?: string };
 
 const SYSTEM_FOLDER_NAMES: Record<string, string> = {
     desktop: 'Desktop',
@@ -46,10 +53,86 @@ export interface SettingRecord {
 export interface WindowStateRecord {
     /** Application ID */
     appId: string;
+    /** Window instance number (1 when absent, as in records saved before multi-instance windows) */
+    instance?: number;
     /** Partial window state (position, size, etc.) */
     state: Partial<WindowState>;
 }
 
+/**
+ * Flat storage record for a single file system node.
+ *
+ * The nested `children` array of {@link FileSystemItem} is replaced by a
+ * `parentId` pointer plus a sibling `order`, so a single write only touches
+ * the affected nodes instead of rewriting the whole tree.
+ */
+export interface FileSystemNodeRecord extends Omit<FileSystemItem, 'children'> {
+    /** ID of the containing folder, or null for top-level trees (e.g. 'root') */
+    parentId: string | null;
+    /** Position among siblings */
+    order: number;
+}
+
+/**
+ * Binary content of a file node, stored separately from the node metadata
+ */
+export interface FileBlobRecord {
+    /** ID of the owning file node */
+    id: string;
+    /** File content */
+    blob: Blob;
+}
+
+/**
+ * Changes applied atomically by {@link commitFileNodes}
+ */
+export interface FileNodeCommit {
+    /** Node records to insert or replace */
+    put?: FileSystemNodeRecord[];
+    /** IDs of nodes to delete (their blobs are deleted too) */
+    remove?: string[];
+    /** Blob content to insert or replace */
+    putBlobs?: FileBlobRecord[];
+    /** IDs of nodes whose blob content should be dropped */
+    removeBlobs?: string[];
+    /** Key and path reported to {@link subscribeToFileSystem} listeners */
+    change?: { key?: string; path?: string };
+}
+
+const SIZE_UNITS: Record<string, number> = {
+    b: 1,
+    byte: 1,
+    bytes: 1,
+    char: 1,
+    chars: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+};
+
+/**
+ * Convert a pre-v3 human-readable size ("2.4 MB", "0 bytes") into bytes
+ */
+const parseLegacySize = (size: unknown): number | undefined => {
+    if (typeof size === 'number') return size;
+    if (typeof size !== 'string') return undefined;
+    const match = size.trim().match(/^([\d.]+)\s*([a-z]+)?$/i);
+    if (!match) return undefined;
+    const unit = SIZE_UNITS[(match[2] ?? 'b').toLowerCase()];
+    return unit ? Math.round(parseFloat(match[1] ?? '0') * unit) : undefined;
+};
+
+const withByteSize = <T extends { size?: unknown }>(record: T): T => {
+    const size = parseLegacySize(record.size);
+    const next = { ...record };
+    if (size === undefined) {
+        delete next.size;
+    } else {
+        next.size = size;
+    }
+    return next;
+};
+
 /**
  * Check if IndexedDB is available in the current environment
  */
@@ -60,9 +143,9 @@ const canUseIndexedDB = (): boolean => {
 /**
  * Dispatch a sync event to notify listeners of file system changes
  */
-const dispatchSyncEvent = (store: string, key?: string): void => {
+const dispatchSyncEvent = (store: string, key?: string, path?: string): void => {
     try {
-        globalThis.dispatchEvent(new CustomEvent<FsSyncDetail>(FS_SYNC_EVENT, { detail: { store, key } }));
+        globalThis.dispatchEvent(new CustomEvent<FsSyncDetail>(FS_SYNC_EVENT, { detail: { store, key, path } }));
     } catch {
         // Ignore environments without CustomEvent
     }
@@ -71,22 +154,26 @@ const dispatchSyncEvent = (store: string, key?: string): void => {
 /**
  * Subscribe to file system changes in a specific store
  *
+ * For the 'files' store, `path` is the POSIX-style path of the changed node
+ * (e.g. `/Documents/notes/todo.md`) when it is known. Bulk tree rewrites
+ * through {@link saveFiles} notify without a key or path.
+ *
  * @param store - The store name to watch ('files', 'settings', 'windowStates')
  * @param listener - Callback invoked when the store changes
  * @returns Unsubscribe function
  *
  * @example
  * ```tsx
- * const unsubscribe = subscribeToFileSystem('files', (key) => {
- *   console.log('File changed:', key);
+ * const unsubscribe = subscribeToFileSystem('files', (key, path) => {
+ *   console.log('File changed:', key, path);
  * });
  * ```
  */
-export const subscribeToFileSystem = (store: string, listener: (key?: string) => void): (() => void) => {
+export const subscribeToFileSystem = (store: string, listener: (key?: string, path?: string) => void): (() => void) => {
     const handleCustom = (event: Event) => {
         const detail = (event as CustomEvent<FsSyncDetail>).detail;
         if (detail?.store !== store) return;
-        listener(detail.key);
+        listener(detail.key, detail.path);
     };
 
     try {
@@ -135,9 +222,36 @@ export const initDB = (): Promise<IDBDatabase> => {
 
         request.onupgradeneeded = event => {
             const db = (event.target as IDBOpenDBRequest).result;
+            const transaction = (event.target as IDBOpenDBRequest).transaction;
+
+            if (!db.objectStoreNames.contains(STORE_NODES)) {
+                const nodeStore = db.createObjectStore(STORE_NODES, { keyPath: 'id' });
+                nodeStore.createIndex(INDEX_PARENT_ID, INDEX_PARENT_ID, { unique: false });
+            }
+
+            if (!db.objectStoreNames.contains(STORE_BLOBS)) {
+                db.createObjectStore(STORE_BLOBS, { keyPath: 'id' });
+            }
 
-            if (!db.objectStoreNames.contains(STORE_FILES)) {
-                db.createObjectStore(STORE_FILES, { keyPath: 'id' });
+            // v1 -> v2: split the nested tree records into per-node records
+            if (db.objectStoreNames.contains(STORE_FILES) && transaction) {
+                const legacyRequest = transaction.objectStore(STORE_FILES).getAll();
+                legacyRequest.onsuccess = () => {
+                    const nodeStore = transaction.objectStore(STORE_NODES);
+                    flattenTree(legacyRequest.result as FileSystemItem[]).forEach(record => {
+                        nodeStore.put(withByteSize(record));
+                    });
+                    db.deleteObjectStore(STORE_FILES);
+                };
+            } else if (event.oldVersion === 2 && transaction) {
+                // v2 -> v3: human-readable size strings become byte counts
+                const cursorRequest = transaction.objectStore(STORE_NODES).openCursor();
+                cursorRequest.onsuccess = () => {
+                    const cursor = cursorRequest.result;
+                    if (!cursor) return;
+                    cursor.update(withByteSize(cursor.value as FileSystemNodeRecord));
+                    cursor.continue();
+                };
             }
 
             if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
@@ -156,6 +270,169 @@ const getDB = async (): Promise<IDBDatabase> => {
     return initDB();
 };
 
+/**
+ * Convert a nested tree into flat node records
+ */
+const flattenTree = (files: FileSystemItem[], parentId: string | null = null): FileSystemNodeRecord[] => {
+    return files.flatMap((file, order) => {
+        const { children, ...rest } = file;
+        const record: FileSystemNodeRecord = { ...rest, parentId, order };
+        return [record, ...(children ? flattenTree(children, file.id) : [])];
+    });
+};
+
+/**
+ * Assemble flat node records back into a nested tree
+ */
+const buildTree = (records: FileSystemNodeRecord[]): FileSystemItem[] => {
+    const byParent = new Map<string | null, FileSystemNodeRecord[]>();
+    records.forEach(record => {
+        const siblings = byParent.get(record.parentId) ?? [];
+        siblings.push(record);
+        byParent.set(record.parentId, siblings);
+    });
+
+    const toItems = (parentId: string | null, seen: Set<string>): FileSystemItem[] =>
+        (byParent.get(parentId) ?? [])
+            .sort((a, b) => a.order - b.order)
+            .filter(record => !seen.has(record.id))
+            .map(({ parentId: _parentId, order: _order, ...rest }) => {
+                seen.add(rest.id);
+                const item: FileSystemItem = { ...rest };
+                const children = toItems(rest.id, seen);
+                if (rest.type === 'folder' || children.length > 0) {
+                    item.children = children;
+                }
+                return item;
+            });
+
+    return toItems(null, new Set());
+};
+
+const runNodeRequest = async <T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+    const db = await getDB();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NODES, mode);
+        const request = createRequest(transaction.objectStore(STORE_NODES));
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as T);
+    });
+};
+
+/**
+ * Read a single file system node without its descendants
+ *
+ * @param id - Node ID
+ * @returns The node record, or null if it does not exist
+ */
+export const getFileNode = async (id: string): Promise<FileSystemNodeRecord | null> => {
+    const record = await runNodeRequest<FileSystemNodeRecord | undefined>('readonly', store => store.get(id));
+    return record ?? null;
+};
+
+/**
+ * Read the direct children of a folder node, in display order
+ *
+ * @param parentId - Folder node ID
+ * @returns Child node records sorted by sibling order
+ */
+export const getChildNodes = async (parentId: string): Promise<FileSystemNodeRecord[]> => {
+    const records = await runNodeRequest<FileSystemNodeRecord[]>('readonly', store =>
+        store.index(INDEX_PARENT_ID).getAll(parentId)
+    );
+    return records.sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Read every node record in the file system
+ */
+export const getAllFileNodes = async (): Promise<FileSystemNodeRecord[]> => {
+    return runNodeRequest<FileSystemNodeRecord[]>('readonly', store => store.getAll());
+};
+
+/**
+ * Read the Blob content of a file node
+ *
+ * @param id - File node ID
+ * @returns The stored Blob, or null if the file has no binary content
+ */
+export const getFileBlob = async (id: string): Promise<Blob | null> => {
+    const db = await getDB();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_BLOBS, 'readonly');
+        const request = transaction.objectStore(STORE_BLOBS).get(id);
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+            const record = request.result as FileBlobRecord | undefined;
+            resolve(record?.blob ?? null);
+        };
+    });
+};
+
+/**
+ * Write and delete node records and their blobs in a single transaction, then notify subscribers
+ */
+export const commitFileNodes = async ({
+    put = [],
+    remove = [],
+    putBlobs = [],
+    removeBlobs = [],
+    change = {},
+}: FileNodeCommit): Promise<void> => {
+    const db = await getDB();
+
+    await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction([STORE_NODES, STORE_BLOBS], 'readwrite');
+        const nodeStore = transaction.objectStore(STORE_NODES);
+        const blobStore = transaction.objectStore(STORE_BLOBS);
+
+        remove.forEach(id => {
+            nodeStore.delete(id);
+            blobStore.delete(id);
+        });
+        removeBlobs.forEach(id => blobStore.delete(id));
+        put.forEach(record => nodeStore.put(record));
+        putBlobs.forEach(record => blobStore.put(record));
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+
+    dispatchSyncEvent(STORE_FILES, change.key, change.path);
+};
+
+/**
+ * Resolve the POSIX-style path of a node inside the 'root' tree
+ *
+ * @returns The path (e.g. `/Documents/Notes.txt`), or undefined for nodes outside 'root'
+ */
+const getPathForId = (files: FileSystemItem[], id: string): string | undefined => {
+    const root = files.find(file => file.id === 'root');
+    if (!root) return undefined;
+    if (id === 'root') return '/';
+
+    const walk = (items: FileSystemItem[], prefix: string): string | undefined => {
+        for (const item of items) {
+            const path = `${prefix}/${item.name}`;
+            if (item.id === id) return path;
+            if (item.children) {
+                const found = walk(item.children, path);
+                if (found) return found;
+            }
+        }
+        return undefined;
+    };
+
+    return walk(root.children ?? [], '');
+};
+
 const findFileById = (files: FileSystemItem[], id: string): FileSystemItem | null => {
     for (const file of files) {
         if (file.id === id) return file;
@@ -359,53 +636,40 @@ const ensureDesktopShortcuts = (files: FileSystemItem[]): FileSystemItem[] | nul
 };
 
 export const getFiles = async (): Promise<FileSystemItem[]> => {
-    const db = await getDB();
+    const records = await getAllFileNodes();
 
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_FILES, 'readonly');
-        const store = transaction.objectStore(STORE_FILES);
-        const request = store.getAll();
+    if (records.length === 0) {
+        await saveFiles(INITIAL_FILES);
+        return INITIAL_FILES;
+    }
 
-        request.onerror = () => reject(request.error);
-        request.onsuccess = async () => {
-            const files = request.result as FileSystemItem[];
-            if (files.length === 0) {
-                await saveFiles(INITIAL_FILES);
-                resolve(INITIAL_FILES);
-            } else {
-                const migrated = ensureDesktopShortcuts(files);
-                if (migrated) {
-                    await saveFiles(migrated);
-                    resolve(migrated);
-                } else {
-                    resolve(files);
-                }
-            }
-        };
-    });
+    const files = buildTree(records);
+    const migrated = ensureDesktopShortcuts(files);
+    if (migrated) {
+        await saveFiles(migrated);
+        return migrated;
+    }
+    return files;
 };
 
+/**
+ * Persist a full file tree.
+ *
+ * Only nodes that were added, changed or removed compared to the stored tree
+ * are written, so callers may keep passing the whole tree.
+ */
 export const saveFiles = async (files: FileSystemItem[]): Promise<void> => {
-    const db = await getDB();
-
-    return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_FILES, 'readwrite');
-        const store = transaction.objectStore(STORE_FILES);
-
-        const clearRequest = store.clear();
-        clearRequest.onerror = () => reject(clearRequest.error);
-        clearRequest.onsuccess = () => {
-            files.forEach(file => {
-                store.put(file);
-            });
+    const next = flattenTree(files);
+    const existing = new Map((await getAllFileNodes()).map(record => [record.id, record]));
+    const nextIds = new Set(next.map(record => record.id));
 
-            transaction.oncomplete = () => {
-                dispatchSyncEvent(STORE_FILES);
-                resolve();
-            };
-            transaction.onerror = () => reject(transaction.error);
-        };
+    const put = next.filter(record => {
+        const previous = existing.get(record.id);
+        return !previous || JSON.stringify(previous) !== JSON.stringify(record);
     });
+    const remove = [...existing.keys()].filter(id => !nextIds.has(id));
+
+    await commitFileNodes({ put, remove });
 };
 
 export const getFileById = async (id: string): Promise<FileSystemItem | null> => {
@@ -425,14 +689,14 @@ export const saveFile = async (file: FileSystemItem): Promise<void> => {
     }
 
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, file.id);
+    dispatchSyncEvent(STORE_FILES, file.id, getPathForId(updatedFiles, file.id));
 };
 
 export const deleteFile = async (id: string): Promise<void> => {
     const files = await getFiles();
     const updatedFiles = deleteFileFromTree(files, id);
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, id);
+    dispatchSyncEvent(STORE_FILES, id, getPathForId(files, id));
 };
 
 export const addFileToFolder = (
@@ -479,7 +743,7 @@ export const saveFileToFolder = async (file: FileSystemItem, folderId: string =
     }
 
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, file.id);
+    dispatchSyncEvent(STORE_FILES, file.id, getPathForId(updatedFiles, file.id));
 };
 
 export const getSetting = async <T = unknown>(key: string): Promise<T | null> => {
@@ -596,43 +860,44 @@ export const STORE_NAMES = {
     windowStates: STORE_WINDOW_STATES,
 } as const;
 
-// Find parent folder ID of an item
-const findParentFolderId = (files: FileSystemItem[], targetId: string, _parentId: string = 'root'): string | null => {
-    for (const file of files) {
-        if (file.children) {
-            if (file.children.some(child => child.id === targetId)) {
-                return file.id;
-            }
-            const found = findParentFolderId(file.children, targetId, file.id);
-            if (found) return found;
-        }
+/**
+ * Resolve the POSIX-style path of a node by walking its parent pointers
+ *
+ * @returns The path, or undefined for nodes outside the 'root' tree
+ */
+const getNodePath = async (node: FileSystemNodeRecord): Promise<string | undefined> => {
+    const names: string[] = [];
+    let current: FileSystemNodeRecord | null = node;
+    while (current && current.id !== 'root') {
+        names.unshift(current.name);
+        current = current.parentId ? await getFileNode(current.parentId) : null;
     }
-    return null;
+    return current ? `/${names.join('/')}` : undefined;
 };
 
-// Move an item to the recycle bin
+/**
+ * Move an item to the recycle bin, remembering where it came from.
+ * Only the moved node is rewritten; its descendants follow through their parent pointer.
+ */
 export const moveToRecycleBin = async (itemId: string): Promise<void> => {
-    const files = await getFiles();
-    const item = findFileById(files, itemId);
-    if (!item) return;
+    const node = await getFileNode(itemId);
+    if (!node) return;
 
-    const parentFolderId = findParentFolderId(files, itemId);
+    if (!(await getFileNode('recycleBin'))) {
+        await saveFiles(ensureSystemFolder(await getFiles(), 'recycleBin'));
+    }
 
-    // Create a copy of the item with deletion metadata
-    const deletedItem: FileSystemItem = {
-        ...item,
-        deletedFrom: parentFolderId || 'root',
+    const path = await getNodePath(node);
+    const binChildren = await getChildNodes('recycleBin');
+    const deletedItem: FileSystemNodeRecord = {
+        ...node,
+        parentId: 'recycleBin',
+        order: binChildren.reduce((max, child) => Math.max(max, child.order + 1), 0),
+        deletedFrom: node.parentId || 'root',
         deletedAt: new Date().toISOString(),
     };
 
-    // Remove from original location
-    let updatedFiles = deleteFileFromTree(files, itemId);
-
-    // Add to recycle bin
-    updatedFiles = addFileToFolder(updatedFiles, 'recycleBin', deletedItem);
-
-    await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, itemId);
+    await commitFileNodes({ put: [deletedItem], change: { key: itemId, path } });
 };
 
 // Restore an item from the recycle bin to its original location
@@ -659,7 +924,7 @@ export const restoreFromRecycleBin = async (itemId: string): Promise<void> => {
     updatedFiles = addFileToFolder(updatedFiles, targetFolderId, restoredItem);
 
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, itemId);
+    dispatchSyncEvent(STORE_FILES, itemId, getPathForId(updatedFiles, itemId));
 };
 
 // Permanently delete an item (from recycle bin)
@@ -667,7 +932,7 @@ export const permanentlyDelete = async (itemId: string): Promise<void> => {
     const files = await getFiles();
     const updatedFiles = deleteFileFromTree(files, itemId);
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, itemId);
+    dispatchSyncEvent(STORE_FILES, itemId, getPathForId(files, itemId));
 };
 
 // Empty the entire recycle bin
@@ -688,7 +953,7 @@ export const emptyRecycleBin = async (): Promise<void> => {
 
     const updatedFiles = clearRecycleBin(files);
     await saveFiles(updatedFiles);
-    dispatchSyncEvent(STORE_FILES, 'recycleBin');
+    dispatchSyncEvent(STORE_FILES, 'recycleBin', getPathForId(files, 'recycleBin'));
 };
 
 // Get recycle bin contents
@@ -0,0 +1,338 @@
+/**
+ * Read and write iCalendar (.ics) files
+ *
+ * `parseICalendar` builds the model in utils/ical/types.ts from a VCALENDAR;
+ * `serializeICalendar` writes it back with CRLF line breaks and 75-octet folding.
+ * Properties the model has no field for are kept and written back unchanged.
+ *
+ * @module utils/ical/calendar
+ */
+import {
+    escapeText,
+    formatContentLine,
+    parseContentLine,
+    splitTextList,
+    unescapeText,
+    unfoldLines,
+} from './contentLines';
+import { formatRecurrenceRule, parseRecurrenceRule } from './recurrence';
+import {
+    createICalError,
+    type ICalAlarm,
+    type ICalDateTime,
+    type ICalendar,
+    type ICalEvent,
+    type ICalObservance,
+    type ICalProperty,
+    type ICalTimezone,
+} from './types';
+import {
+    formatDateTime,
+    formatDuration,
+    formatUtcOffset,
+    fromWallMs,
+    parseDateTime,
+    parseDuration,
+    parseUtcOffset,
+} from './values';
+
+/**
+ * A component as read from the file, before it is mapped onto the model
+ */
+interface RawComponent {
+    name: string;
+    properties: ICalProperty[];
+    components: RawComponent[];
+}
+
+const readComponents = (text: string): RawComponent[] => {
+    const root: RawComponent = { name: '', properties: [], components: [] };
+    const stack = [root];
+    for (const line of unfoldLines(text)) {
+        const property = parseContentLine(line);
+        const current = stack[stack.length - 1] ?? root;
+        if (property.name === 'BEGIN') {
+            const component: RawComponent = {
+                name: property.value.trim().toUpperCase(),
+                properties: [],
+                components: [],
+            };
+            current.components.push(component);
+            stack.push(component);
+        } else if (property.name === 'END') {
+            if (stack.length === 1 || current.name !== property.value.trim().toUpperCase()) {
+                throw createICalError('EPARSE', `Unexpected END:${property.value}`);
+            }
+            stack.pop();
+        } else {
+            current.properties.push(property);
+        }
+    }
+    if (stack.length > 1) throw createICalError('EPARSE', `Missing END:${stack[stack.length - 1]?.name ?? ''}`);
+    return root.components;
+};
+
+const readDateTime = (property: ICalProperty): ICalDateTime => parseDateTime(property.value, property.params.TZID);
+
+/** DATE and DATE-TIME lists (RDATE, EXDATE); PERIOD values keep only their start */
+const readDateTimeList = (property: ICalProperty): ICalDateTime[] =>
+    property.value
+        .split(',')
+        .filter(Boolean)
+        .map(value => parseDateTime(value.split('/')[0] ?? value, property.params.TZID));
+
+const readAlarm = (component: RawComponent): ICalAlarm | null => {
+    const alarm: Partial<ICalAlarm> & { properties: ICalProperty[] } = { properties: [] };
+    for (const property of component.properties) {
+        switch (property.name) {
+            case 'ACTION':
+                alarm.action = property.value.toUpperCase();
+                break;
+            case 'TRIGGER':
+                alarm.trigger =
+                    property.params.VALUE === 'DATE-TIME'
+                        ? { type: 'absolute', at: parseDateTime(property.value) }
+                        : {
+                              type: 'relative',
+                              duration: parseDuration(property.value),
+                              related: property.params.RELATED === 'END' ? 'END' : 'START',
+                          };
+                break;
+            case 'DESCRIPTION':
+                alarm.description = unescapeText(property.value);
+                break;
+            case 'SUMMARY':
+                alarm.summary = unescapeText(property.value);
+                break;
+            case 'REPEAT':
+                alarm.repeat = Number(property.value);
+                break;
+            case 'DURATION':
+                alarm.duration = parseDuration(property.value);
+                break;
+            default:
+                alarm.properties.push(property);
+        }
+    }
+    if (!alarm.action || !alarm.trigger) return null;
+    return alarm as ICalAlarm;
+};
+
+const readEvent = (component: RawComponent): ICalEvent | null => {
+    const event: Partial<ICalEvent> & Pick<ICalEvent, 'rdates' | 'exdates' | 'categories' | 'properties'> = {
+        uid: '',
+        summary: '',
+        description: '',
+        location: '',
+        rdates: [],
+        exdates: [],
+        categories: [],
+        properties: [],
+    };
+    for (const property of component.properties) {
+        switch (property.name) {
+            case 'UID':
+                event.uid = property.value;
+                break;
+            case 'SUMMARY':
+                event.summary = unescapeText(property.value);
+                break;
+            case 'DESCRIPTION':
+                event.description = unescapeText(property.value);
+                break;
+            case 'LOCATION':
+                event.location = unescapeText(property.value);
+                break;
+            case 'DTSTART':
+                event.start = readDateTime(property);
+                break;
+            case 'DTEND':
+                event.end = readDateTime(property);
+                break;
+            case 'DURATION':
+                event.duration = parseDuration(property.value);
+                break;
+            case 'RRULE':
+                event.rrule = parseRecurrenceRule(property.value);
+                break;
+            case 'RDATE':
+                event.rdates.push(...readDateTimeList(property));
+                break;
+            case 'EXDATE':
+                event.exdates.push(...readDateTimeList(property));
+                break;
+            case 'RECURRENCE-ID':
+                event.recurrenceId = readDateTime(property);
+                break;
+            case 'CATEGORIES':
+                event.categories.push(...splitTextList(property.value));
+                break;
+            case 'STATUS':
+                event.status = property.value.toUpperCase();
+                break;
+            case 'SEQUENCE':
+                event.sequence = Number(property.value);
+                break;
+            case 'DTSTAMP':
+                event.dtstamp = readDateTime(property);
+                break;
+            default:
+                event.properties.push(property);
+        }
+    }
+    // DTSTART is only optional in scheduling messages, which have nothing to show
+    if (!event.start) return null;
+    const alarms = component.components
+        .filter(child => child.name === 'VALARM')
+        .map(readAlarm)
+        .filter((alarm): alarm is ICalAlarm => alarm !== null);
+    return { ...event, start: event.start, alarms } as ICalEvent;
+};
+
+const readTimezone = (component: RawComponent): ICalTimezone | null => {
+    const tzid = component.properties.find(p => p.name === 'TZID')?.value;
+    if (!tzid) return null;
+    const observances = component.components
+        .filter(child => child.name === 'STANDARD' || child.name === 'DAYLIGHT')
+        .map(child => {
+            const find = (name: string) => child.properties.find(p => p.name === name);
+            const start = find('DTSTART');
+            const offsetFrom = find('TZOFFSETFROM');
+            const offsetTo = find('TZOFFSETTO');
+            if (!start || !offsetFrom || !offsetTo) {
+                throw createICalError('EPARSE', `Incomplete ${child.name} observance in ${tzid}`);
+            }
+            const rrule = find('RRULE');
+            const name = find('TZNAME');
+            const observance: ICalObservance = {
+                kind: child.name as ICalObservance['kind'],
+                start: parseDateTime(start.value),
+                offsetFrom: parseUtcOffset(offsetFrom.value),
+                offsetTo: parseUtcOffset(offsetTo.value),
+                rdates: child.properties.filter(p => p.name === 'RDATE').flatMap(readDateTimeList),
+                ...(rrule ? { rrule: parseRecurrenceRule(rrule.value) } : {}),
+                ...(name ? { name: unescapeText(name.value) } : {}),
+            };
+            return observance;
+        });
+    return { tzid, observances };
+};
+
+/**
+ * Parse the first VCALENDAR in a file
+ * @throws {ICalError} EPARSE when the text has no VCALENDAR or is malformed, EVALUE for bad values
+ */
+export const parseICalendar = (text: string): ICalendar => {
+    const calendar = readComponents(text).find(component => component.name === 'VCALENDAR');
+    if (!calendar) throw createICalError('EPARSE', 'No VCALENDAR found');
+
+    const result: ICalendar = { prodId: '', version: '2.0', events: [], timezones: [], properties: [] };
+    for (const property of calendar.properties) {
+        if (property.name === 'PRODID') result.prodId = property.value;
+        else if (property.name === 'VERSION') result.version = property.value;
+        else if (property.name === 'METHOD') result.method = property.value;
+        else result.properties.push(property);
+    }
+    for (const component of calendar.components) {
+        if (component.name === 'VEVENT') {
+            const event = readEvent(component);
+            if (event) result.events.push(event);
+        } else if (component.name === 'VTIMEZONE') {
+            const timezone = readTimezone(component);
+            if (timezone) result.timezones.push(timezone);
+        }
+    }
+    return result;
+};
+
+const dateTimeProperty = (name: string, dt: ICalDateTime): ICalProperty => ({
+    name,
+    params: { ...(dt.isDate ? { VALUE: 'DATE' } : {}), ...(dt.tzid ? { TZID: dt.tzid } : {}) },
+    value: formatDateTime(dt),
+});
+
+const textProperty = (name: string, value: string): ICalProperty => ({ name, params: {}, value: escapeText(value) });
+
+const writeAlarm = (alarm: ICalAlarm): ICalProperty[] => {
+    const { trigger } = alarm;
+    const properties: ICalProperty[] = [
+        { name: 'ACTION', params: {}, value: alarm.action },
+        trigger.type === 'absolute'
+            ? { name: 'TRIGGER', params: { VALUE: 'DATE-TIME' }, value: formatDateTime(trigger.at) }
+            : {
+                  name: 'TRIGGER',
+                  params: trigger.related === 'END' ? { RELATED: 'END' } : {},
+                  value: formatDuration(trigger.duration),
+              },
+    ];
+    if (alarm.description !== undefined) properties.push(textProperty('DESCRIPTION', alarm.description));
+    if (alarm.summary !== undefined) properties.push(textProperty('SUMMARY', alarm.summary));
+    if (alarm.repeat !== undefined) properties.push({ name: 'REPEAT', params: {}, value: String(alarm.repeat) });
+    if (alarm.duration) properties.push({ name: 'DURATION', params: {}, value: formatDuration(alarm.duration) });
+    return properties.concat(alarm.properties);
+};
+
+const writeEvent = (event: ICalEvent): string[] => {
+    const properties: ICalProperty[] = [
+        { name: 'UID', params: {}, value: event.uid },
+        dateTimeProperty('DTSTAMP', event.dtstamp ?? fromWallMs(Date.now(), { isDate: false, utc: true })),
+        dateTimeProperty('DTSTART', event.start),
+    ];
+    if (event.end) properties.push(dateTimeProperty('DTEND', event.end));
+    else if (event.duration) properties.push({ name: 'DURATION', params: {}, value: formatDuration(event.duration) });
+    if (event.recurrenceId) properties.push(dateTimeProperty('RECURRENCE-ID', event.recurrenceId));
+    if (event.rrule) properties.push({ name: 'RRULE', params: {}, value: formatRecurrenceRule(event.rrule) });
+    event.rdates.forEach(rdate => properties.push(dateTimeProperty('RDATE', rdate)));
+    event.exdates.forEach(exdate => properties.push(dateTimeProperty('EXDATE', exdate)));
+    if (event.summary) properties.push(textProperty('SUMMARY', event.summary));
+    if (event.description) properties.push(textProperty('DESCRIPTION', event.description));
+    if (event.location) properties.push(textProperty('LOCATION', event.location));
+    if (event.categories.length > 0) {
+        properties.push({ name: 'CATEGORIES', params: {}, value: event.categories.map(escapeText).join(',') });
+    }
+    if (event.status) properties.push({ name: 'STATUS', params: {}, value: event.status });
+    if (event.sequence !== undefined) properties.push({ name: 'SEQUENCE', params: {}, value: String(event.sequence) });
+
+    return [
+        'BEGIN:VEVENT',
+        ...properties.concat(event.properties).map(formatContentLine),
+        ...event.alarms.flatMap(alarm => ['BEGIN:VALARM', ...writeAlarm(alarm).map(formatContentLine), 'END:VALARM']),
+        'END:VEVENT',
+    ];
+};
+
+const writeTimezone = (timezone: ICalTimezone): string[] => [
+    'BEGIN:VTIMEZONE',
+    formatContentLine({ name: 'TZID', params: {}, value: timezone.tzid }),
+    ...timezone.observances.flatMap(observance => {
+        const properties: ICalProperty[] = [
+            dateTimeProperty('DTSTART', observance.start),
+            { name: 'TZOFFSETFROM', params: {}, value: formatUtcOffset(observance.offsetFrom) },
+            { name: 'TZOFFSETTO', params: {}, value: formatUtcOffset(observance.offsetTo) },
+        ];
+        if (observance.rrule) {
+            properties.push({ name: 'RRULE', params: {}, value: formatRecurrenceRule(observance.rrule) });
+        }
+        observance.rdates.forEach(rdate => properties.push(dateTimeProperty('RDATE', rdate)));
+        if (observance.name) properties.push(textProperty('TZNAME', observance.name));
+        return [`BEGIN:${observance.kind}`, ...properties.map(formatContentLine), `END:${observance.kind}`];
+    }),
+    'END:VTIMEZONE',
+];
+
+/**
+ * Write a calendar as iCalendar text, with CRLF line breaks
+ */
+export const serializeICalendar = (calendar: ICalendar): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        formatContentLine({ name: 'VERSION', params: {}, value: calendar.version }),
+        formatContentLine({ name: 'PRODID', params: {}, value: calendar.prodId }),
+        ...(calendar.method ? [formatContentLine({ name: 'METHOD', params: {}, value: calendar.method })] : []),
+        ...calendar.properties.map(formatContentLine),
+        ...calendar.timezones.flatMap(writeTimezone),
+        ...calendar.events.flatMap(writeEvent),
+        'END:VCALENDAR',
+    ];
+    return `${lines.join('\r\n')}\r\n`;
+};
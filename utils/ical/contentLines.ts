@@ -0,0 +1,141 @@
+/**
+ * iCalendar content lines: folding, property/parameter syntax and TEXT escaping
+ * (RFC 5545 section 3.1 and 3.3.11, parameter escaping from RFC 6868)
+ *
+ * @module utils/ical/contentLines
+ */
+import { createICalError, type ICalProperty } from './types';
+
+/** Longest line in octets, excluding the CRLF */
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Join folded lines: a line starting with a space or tab continues the previous one.
+ * Accepts CRLF and bare LF line breaks.
+ */
+export const unfoldLines = (text: string): string[] =>
+    text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter(line => line.length > 0);
+
+/**
+ * Fold a line into chunks of at most 75 octets, never splitting a character
+ * @returns The folded line, without a trailing CRLF
+ */
+export const foldLine = (line: string): string => {
+    if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts toward their length
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(chunk);
+            chunk = '';
+            octets = 0;
+        }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+};
+
+/**
+ * Escape a TEXT value
+ */
+export const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Unescape a TEXT value
+ */
+export const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * Split a multi-valued TEXT value (CATEGORIES) on unescaped commas and unescape each value
+ */
+export const splitTextList = (value: string): string[] => {
+    const values: string[] = [];
+    let current = '';
+    for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+        if (char === '\\' && i + 1 < value.length) {
+            current += char + value[++i];
+        } else if (char === ',') {
+            values.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    values.push(current);
+    return values.map(unescapeText).filter(v => v.length > 0);
+};
+
+const decodeParamValue = (value: string): string =>
+    value.replace(/\^([n^'])/g, (_match, char: string) => (char === 'n' ? '\n' : char === "'" ? '"' : '^'));
+
+const encodeParamValue = (value: string): string => {
+    const encoded = value.replace(/\^/g, '^^').replace(/\n/g, '^n').replace(/"/g, "^'");
+    return /[;:,]/.test(encoded) ? `"${encoded}"` : encoded;
+};
+
+/**
+ * Parse an unfolded content line: `NAME;PARAM=value;PARAM="quoted":value`.
+ * Names and parameter names are upper-cased; the value is returned as written.
+ * @throws {ICalError} EPARSE when the line has no value
+ */
+export const parseContentLine = (line: string): ICalProperty => {
+    let i = 0;
+    const readName = () => {
+        const start = i;
+        while (i < line.length && line[i] !== ';' && line[i] !== ':' && line[i] !== '=') i++;
+        return line.slice(start, i).trim().toUpperCase();
+    };
+
+    const name = readName();
+    const params: Record<string, string> = {};
+    while (line[i] === ';') {
+        i++;
+        const paramName = readName();
+        if (line[i] !== '=') throw createICalError('EPARSE', `Malformed parameter in line: ${line}`);
+        i++;
+        const values: string[] = [];
+        for (;;) {
+            if (line[i] === '"') {
+                const end = line.indexOf('"', i + 1);
+                if (end < 0) throw createICalError('EPARSE', `Unterminated quoted parameter in line: ${line}`);
+                values.push(line.slice(i + 1, end));
+                i = end + 1;
+            } else {
+                const start = i;
+                while (i < line.length && line[i] !== ';' && line[i] !== ':' && line[i] !== ',') i++;
+                values.push(line.slice(start, i));
+            }
+            if (line[i] !== ',') break;
+            i++;
+        }
+        params[paramName] = values.map(decodeParamValue).join(',');
+    }
+
+    if (!name || line[i] !== ':') throw createICalError('EPARSE', `Malformed content line: ${line}`);
+    return { name, params, value: line.slice(i + 1) };
+};
+
+/**
+ * Format a property as a folded content line (without a trailing CRLF)
+ */
+export const formatContentLine = ({ name, params, value }: ICalProperty): string => {
+    const paramText = Object.entries(params)
+        .map(([key, paramValue]) => `;${key}=${encodeParamValue(paramValue)}`)
+        .join('');
+    return foldLine(`${name}${paramText}:${value}`);
+};
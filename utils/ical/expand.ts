@@ -0,0 +1,149 @@
+/**
+ * Turn events into the occurrences that fall in a date range, applying RRULE, RDATE,
+ * EXDATE and RECURRENCE-ID overrides
+ *
+ * @module utils/ical/expand
+ */
+import { expandRecurrence } from './recurrence';
+import { fromDate, toDate } from './timezones';
+import type { ICalDateTime, ICalEvent, ICalTimezone } from './types';
+import { DAY_MS, durationToMs, fromWallMs, toWallMs } from './values';
+
+/**
+ * One occurrence of an event
+ */
+export interface ICalOccurrence {
+    /** The event, or the override that replaces this occurrence */
+    event: ICalEvent;
+    start: Date;
+    /** Exclusive end */
+    end: Date;
+    /** Start of the occurrence as scheduled by the recurring event (its RECURRENCE-ID) */
+    recurrenceId: ICalDateTime;
+    isAllDay: boolean;
+}
+
+/**
+ * The range to expand, by instant; occurrences that overlap it are returned
+ */
+export interface ICalRange {
+    start: Date;
+    end: Date;
+}
+
+/**
+ * End of an occurrence that starts at `start` (in the event's own zone)
+ */
+const getOccurrenceEnd = (event: ICalEvent, start: ICalDateTime, timezones: ICalTimezone[]): Date => {
+    const startDate = toDate(start, timezones);
+    if (event.end) {
+        if (start.isDate || (event.end.tzid === start.tzid && event.end.utc === start.utc)) {
+            // Same zone: keep the wall-clock length, so a 9:00-10:00 event stays 9:00-10:00
+            const length = toWallMs(event.end) - toWallMs(event.start);
+            return toDate(fromWallMs(toWallMs(start) + length, start), timezones);
+        }
+        return new Date(
+            startDate.getTime() + toDate(event.end, timezones).getTime() - toDate(event.start, timezones).getTime()
+        );
+    }
+    if (event.duration) {
+        // Weeks and days are nominal, the rest is exact
+        const { weeks, days, negative } = event.duration;
+        const nominalMs = (weeks * 7 + days) * DAY_MS * (negative ? -1 : 1);
+        const exactMs = durationToMs(event.duration) - nominalMs;
+        return new Date(toDate(fromWallMs(toWallMs(start) + nominalMs, start), timezones).getTime() + exactMs);
+    }
+    // No end: all-day events last the day, timed events are instants
+    return start.isDate ? toDate(fromWallMs(toWallMs(start) + DAY_MS, start), timezones) : startDate;
+};
+
+/**
+ * Start and end of an event's first occurrence
+ * @param timezones - VTIMEZONE definitions from the calendar
+ */
+export const getEventBounds = (event: ICalEvent, timezones: ICalTimezone[] = []): ICalRange => ({
+    start: toDate(event.start, timezones),
+    end: getOccurrenceEnd(event, event.start, timezones),
+});
+
+/**
+ * A date-time in another zone, re-expressed as wall time in the zone of `template`
+ */
+const toTemplateWallMs = (dt: ICalDateTime, template: ICalDateTime, timezones: ICalTimezone[]): number => {
+    if (dt.isDate || template.isDate || (dt.tzid === template.tzid && dt.utc === template.utc)) return toWallMs(dt);
+    const instant = toDate(dt, timezones);
+    if (template.utc) return instant.getTime();
+    if (!template.tzid) return instant.getTime() - instant.getTimezoneOffset() * 60_000;
+    return toWallMs(fromDate(instant, template.tzid, timezones));
+};
+
+const occurrenceKey = (dt: ICalDateTime, timezones: ICalTimezone[]) =>
+    dt.isDate ? `D${toWallMs(dt)}` : `T${toDate(dt, timezones).getTime()}`;
+
+/**
+ * Expand events into their occurrences overlapping a range, sorted by start
+ * @param timezones - VTIMEZONE definitions from the calendar
+ */
+export const expandEvents = (
+    events: ICalEvent[],
+    range: ICalRange,
+    timezones: ICalTimezone[] = []
+): ICalOccurrence[] => {
+    const overrides = new Map<string, ICalEvent>();
+    events.forEach(event => {
+        if (event.recurrenceId) overrides.set(`${event.uid} ${occurrenceKey(event.recurrenceId, timezones)}`, event);
+    });
+    const masterUids = new Set(events.filter(event => !event.recurrenceId).map(event => event.uid));
+
+    const occurrences: ICalOccurrence[] = [];
+    const addOccurrence = (event: ICalEvent, start: ICalDateTime, recurrenceId: ICalDateTime) => {
+        const startDate = toDate(start, timezones);
+        const end = getOccurrenceEnd(event, start, timezones);
+        // Zero-length events still show up when they start inside the range
+        const overlaps =
+            startDate < range.end &&
+            (end > range.start || (end.getTime() === startDate.getTime() && startDate >= range.start));
+        if (overlaps) occurrences.push({ event, start: startDate, end, recurrenceId, isAllDay: start.isDate });
+    };
+
+    for (const event of events) {
+        if (event.recurrenceId) {
+            // Overrides without their recurring event stand alone
+            if (!masterUids.has(event.uid)) addOccurrence(event, event.start, event.recurrenceId);
+            continue;
+        }
+
+        const startWall = toWallMs(event.start);
+        let wallTimes = [startWall];
+        if (event.rrule) {
+            const { until } = event.rrule;
+            wallTimes = expandRecurrence(startWall, event.rrule, {
+                // Wall time can run up to 14 hours ahead of UTC
+                end: range.end.getTime() + DAY_MS,
+                until:
+                    until && !until.isDate && until.utc !== event.start.utc
+                        ? toTemplateWallMs(until, event.start, timezones)
+                        : undefined,
+            });
+        }
+        event.rdates.forEach(rdate => wallTimes.push(toTemplateWallMs(rdate, event.start, timezones)));
+
+        const excluded = new Set(
+            event.exdates.map(exdate =>
+                occurrenceKey(fromWallMs(toTemplateWallMs(exdate, event.start, timezones), event.start), timezones)
+            )
+        );
+        const seen = new Set<string>();
+        for (const wallMs of wallTimes) {
+            const start = fromWallMs(wallMs, event.start);
+            const key = occurrenceKey(start, timezones);
+            if (excluded.has(key) || seen.has(key)) continue;
+            seen.add(key);
+            const override = overrides.get(`${event.uid} ${key}`);
+            if (override) addOccurrence(override, override.start, start);
+            else addOccurrence(event, start, start);
+        }
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,25 @@
+/**
+ * iCalendar (RFC 5545) reading, writing and recurrence expansion
+ *
+ * @module utils/ical
+ */
+export * from './types';
+export { escapeText, foldLine, unescapeText, unfoldLines } from './contentLines';
+export {
+    durationFromMinutes,
+    durationToMs,
+    formatDateTime,
+    formatDuration,
+    parseDateTime,
+    parseDuration,
+} from './values';
+export {
+    expandRecurrence,
+    formatRecurrenceRule,
+    parseRecurrenceRule,
+    WEEKDAYS,
+    type ExpandRecurrenceOptions,
+} from './recurrence';
+export { createTimezone, fromDate, getLocalTimeZone, isSupportedTimeZone, toDate } from './timezones';
+export { parseICalendar, serializeICalendar } from './calendar';
+export { expandEvents, getEventBounds, type ICalOccurrence, type ICalRange } from './expand';
@@ -0,0 +1,333 @@
+/**
+ * Recurrence rules (RFC 5545 section 3.3.10)
+ *
+ * Rules are expanded on wall-clock times (see utils/ical/values.ts), so "every day at
+ * 9:00" stays at 9:00 across daylight saving changes.
+ *
+ * @module utils/ical/recurrence
+ */
+import { createICalError, type ICalFrequency, type ICalWeekday, type RecurrenceRule } from './types';
+import { DAY_MS, formatDateTime, parseDateTime, toWallMs } from './values';
+
+const FREQUENCIES: ICalFrequency[] = ['SECONDLY', 'MINUTELY', 'HOURLY', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Weekdays in `Date#getUTCDay` order */
+export const WEEKDAYS: ICalWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const BY_DAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+/** Stop expanding after this many periods, for rules that never match */
+const MAX_PERIODS = 100_000;
+
+const parseNumberList = (key: string, value: string): number[] =>
+    value.split(',').map(part => {
+        const n = Number(part);
+        if (!Number.isInteger(n) || (n === 0 && key !== 'BYHOUR' && key !== 'BYMINUTE' && key !== 'BYSECOND')) {
+            throw createICalError('EVALUE', `Invalid ${key} value: ${value}`);
+        }
+        return n;
+    });
+
+/**
+ * Parse an RRULE value
+ * @throws {ICalError} EVALUE when the rule is malformed or has no FREQ
+ */
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+    const parts = new Map<string, string>();
+    value
+        .trim()
+        .split(';')
+        .filter(Boolean)
+        .forEach(part => {
+            const [key = '', partValue = ''] = part.split('=');
+            parts.set(key.toUpperCase(), partValue.toUpperCase());
+        });
+
+    const freq = parts.get('FREQ') as ICalFrequency | undefined;
+    if (!freq || !FREQUENCIES.includes(freq)) throw createICalError('EVALUE', `Invalid RRULE: ${value}`);
+    const interval = Number(parts.get('INTERVAL') ?? 1);
+    if (!Number.isInteger(interval) || interval < 1) throw createICalError('EVALUE', `Invalid RRULE: ${value}`);
+    const wkst = (parts.get('WKST') ?? 'MO') as ICalWeekday;
+    if (!WEEKDAYS.includes(wkst)) throw createICalError('EVALUE', `Invalid RRULE: ${value}`);
+
+    const rule: RecurrenceRule = { freq, interval, wkst };
+    const count = parts.get('COUNT');
+    if (count !== undefined) {
+        rule.count = Number(count);
+        if (!Number.isInteger(rule.count) || rule.count < 1) throw createICalError('EVALUE', `Invalid RRULE: ${value}`);
+    }
+    const until = parts.get('UNTIL');
+    if (until !== undefined) rule.until = parseDateTime(until);
+
+    const byDay = parts.get('BYDAY');
+    if (byDay !== undefined) {
+        rule.byDay = byDay.split(',').map(part => {
+            const match = BY_DAY_PATTERN.exec(part);
+            if (!match) throw createICalError('EVALUE', `Invalid BYDAY value: ${byDay}`);
+            const weekday = match[2] as ICalWeekday;
+            return match[1] ? { weekday, ordinal: Number(match[1]) } : { weekday };
+        });
+    }
+
+    const lists = [
+        ['BYSECOND', 'bySecond'],
+        ['BYMINUTE', 'byMinute'],
+        ['BYHOUR', 'byHour'],
+        ['BYMONTHDAY', 'byMonthDay'],
+        ['BYYEARDAY', 'byYearDay'],
+        ['BYWEEKNO', 'byWeekNo'],
+        ['BYMONTH', 'byMonth'],
+        ['BYSETPOS', 'bySetPos'],
+    ] as const;
+    lists.forEach(([key, field]) => {
+        const list = parts.get(key);
+        if (list !== undefined) rule[field] = parseNumberList(key, list);
+    });
+    return rule;
+};
+
+/**
+ * Format a rule as an RRULE value
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.until) parts.push(`UNTIL=${formatDateTime(rule.until)}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.bySecond) parts.push(`BYSECOND=${rule.bySecond.join(',')}`);
+    if (rule.byMinute) parts.push(`BYMINUTE=${rule.byMinute.join(',')}`);
+    if (rule.byHour) parts.push(`BYHOUR=${rule.byHour.join(',')}`);
+    if (rule.byDay) parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+    if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byYearDay) parts.push(`BYYEARDAY=${rule.byYearDay.join(',')}`);
+    if (rule.byWeekNo) parts.push(`BYWEEKNO=${rule.byWeekNo.join(',')}`);
+    if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.wkst !== 'MO') parts.push(`WKST=${rule.wkst}`);
+    return parts.join(';');
+};
+
+/**
+ * A day, counted in days since 1970-01-01
+ */
+interface DayInfo {
+    dayNum: number;
+    year: number;
+    /** 1-12 */
+    month: number;
+    day: number;
+    /** 0 = Sunday */
+    weekday: number;
+    /** 1-based day of the year */
+    yearDay: number;
+    daysInYear: number;
+    daysInMonth: number;
+}
+
+const dayNumOf = (year: number, month: number, day: number) => Date.UTC(year, month - 1, day) / DAY_MS;
+
+const getDayInfo = (dayNum: number): DayInfo => {
+    const date = new Date(dayNum * DAY_MS);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    return {
+        dayNum,
+        year,
+        month,
+        day: date.getUTCDate(),
+        weekday: date.getUTCDay(),
+        yearDay: dayNum - dayNumOf(year, 1, 1) + 1,
+        daysInYear: dayNumOf(year + 1, 1, 1) - dayNumOf(year, 1, 1),
+        daysInMonth: new Date(Date.UTC(year, month, 0)).getUTCDate(),
+    };
+};
+
+/** Whether `value` (1-based, out of `max`) is in a list of positive or negative positions */
+const matchesPosition = (value: number, max: number, list: number[]) =>
+    list.some(n => (n > 0 ? n === value : max + n + 1 === value));
+
+/** First day of week 1 of a year: the first week with at least four days in the year */
+const getWeekOneStart = (year: number, wkst: number) => {
+    const jan1 = dayNumOf(year, 1, 1);
+    const offset = (getDayInfo(jan1).weekday - wkst + 7) % 7;
+    return offset <= 3 ? jan1 - offset : jan1 - offset + 7;
+};
+
+/** Week number of a day, and the number of weeks in its week-numbering year */
+const getWeekNumber = (info: DayInfo, wkst: number): { week: number; weeksInYear: number } => {
+    let weekYear = info.year;
+    if (info.dayNum < getWeekOneStart(weekYear, wkst)) weekYear--;
+    else if (info.dayNum >= getWeekOneStart(weekYear + 1, wkst)) weekYear++;
+    const start = getWeekOneStart(weekYear, wkst);
+    return {
+        week: Math.floor((info.dayNum - start) / 7) + 1,
+        weeksInYear: (getWeekOneStart(weekYear + 1, wkst) - start) / 7,
+    };
+};
+
+/**
+ * Whether a day passes the rule's day-level BYxxx parts
+ * @param ordinalScope - What BYDAY ordinals count within, or null to ignore them
+ */
+const matchesDay = (info: DayInfo, rule: RecurrenceRule, ordinalScope: 'month' | 'year' | null): boolean => {
+    if (rule.byMonth && !rule.byMonth.includes(info.month)) return false;
+    if (rule.byWeekNo) {
+        const { week, weeksInYear } = getWeekNumber(info, WEEKDAYS.indexOf(rule.wkst));
+        if (!matchesPosition(week, weeksInYear, rule.byWeekNo)) return false;
+    }
+    if (rule.byYearDay && !matchesPosition(info.yearDay, info.daysInYear, rule.byYearDay)) return false;
+    if (rule.byMonthDay && !matchesPosition(info.day, info.daysInMonth, rule.byMonthDay)) return false;
+    if (rule.byDay) {
+        const [position, length] =
+            ordinalScope === 'month' ? [info.day, info.daysInMonth] : [info.yearDay, info.daysInYear];
+        const matched = rule.byDay.some(({ weekday, ordinal }) => {
+            if (WEEKDAYS.indexOf(weekday) !== info.weekday) return false;
+            if (!ordinal || !ordinalScope) return true;
+            return ordinal > 0
+                ? Math.floor((position - 1) / 7) + 1 === ordinal
+                : Math.floor((length - position) / 7) + 1 === -ordinal;
+        });
+        if (!matched) return false;
+    }
+    return true;
+};
+
+/**
+ * The rule with the BYxxx parts RFC 5545 derives from DTSTART when they are missing
+ */
+const withDefaults = (rule: RecurrenceRule, start: DayInfo): RecurrenceRule => {
+    const hasDayParts = rule.byWeekNo || rule.byYearDay || rule.byMonthDay || rule.byDay;
+    switch (rule.freq) {
+        case 'YEARLY':
+            if (hasDayParts) return rule;
+            return { ...rule, byMonth: rule.byMonth ?? [start.month], byMonthDay: [start.day] };
+        case 'MONTHLY':
+            return rule.byMonthDay || rule.byDay ? rule : { ...rule, byMonthDay: [start.day] };
+        case 'WEEKLY':
+            return rule.byDay ? rule : { ...rule, byDay: [{ weekday: WEEKDAYS[start.weekday] ?? 'MO' }] };
+        default:
+            return rule;
+    }
+};
+
+/** Days of the period containing a day, for the day-based frequencies */
+const getPeriodDays = (rule: RecurrenceRule, index: number, start: DayInfo): DayInfo[] => {
+    const range = (from: number, length: number) => Array.from({ length }, (_, i) => getDayInfo(from + i));
+    switch (rule.freq) {
+        case 'YEARLY': {
+            const year = start.year + index * rule.interval;
+            if (rule.byMonth && !rule.byWeekNo && !rule.byYearDay) {
+                // Only the listed months can match
+                return [...rule.byMonth]
+                    .sort((a, b) => a - b)
+                    .flatMap(month => {
+                        const first = dayNumOf(year, month, 1);
+                        return range(first, getDayInfo(first).daysInMonth);
+                    });
+            }
+            return range(dayNumOf(year, 1, 1), dayNumOf(year + 1, 1, 1) - dayNumOf(year, 1, 1));
+        }
+        case 'MONTHLY': {
+            const monthIndex = start.year * 12 + start.month - 1 + index * rule.interval;
+            const first = dayNumOf(Math.floor(monthIndex / 12), (monthIndex % 12) + 1, 1);
+            return range(first, getDayInfo(first).daysInMonth);
+        }
+        case 'WEEKLY': {
+            const weekStart = start.dayNum - ((start.weekday - WEEKDAYS.indexOf(rule.wkst) + 7) % 7);
+            return range(weekStart + index * 7 * rule.interval, 7);
+        }
+        default:
+            return range(start.dayNum + index * rule.interval, 1);
+    }
+};
+
+const cross = (days: number[], hours: number[], minutes: number[], seconds: number[]) =>
+    days.flatMap(day =>
+        hours.flatMap(h => minutes.flatMap(m => seconds.map(s => day * DAY_MS + ((h * 60 + m) * 60 + s) * 1000)))
+    );
+
+export interface ExpandRecurrenceOptions {
+    /** Stop after this wall time (inclusive) */
+    end: number;
+    /** UNTIL as a wall time in the start's zone, when it differs from the rule's own value */
+    until?: number;
+}
+
+/**
+ * Expand a rule into occurrence start times. DTSTART is always the first occurrence.
+ * @param startWallMs - DTSTART in wall milliseconds
+ * @returns Wall milliseconds, ascending
+ */
+export const expandRecurrence = (
+    startWallMs: number,
+    rule: RecurrenceRule,
+    options: ExpandRecurrenceOptions
+): number[] => {
+    const untilMs =
+        options.until ??
+        (rule.until ? toWallMs(rule.until) + (rule.until.isDate ? DAY_MS - 1 : 0) : Number.POSITIVE_INFINITY);
+    const end = Math.min(options.end, untilMs);
+    const limit = rule.count ?? Number.POSITIVE_INFINITY;
+    const results = [startWallMs];
+    if (startWallMs > end) return [];
+
+    const startDay = getDayInfo(Math.floor(startWallMs / DAY_MS));
+    const startDate = new Date(startWallMs);
+    const [hour, minute, second] = [startDate.getUTCHours(), startDate.getUTCMinutes(), startDate.getUTCSeconds()];
+    const effective = withDefaults(rule, startDay);
+    const subDaily = rule.freq === 'HOURLY' || rule.freq === 'MINUTELY' || rule.freq === 'SECONDLY';
+    const ordinalScope =
+        rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && rule.byMonth)
+            ? 'month'
+            : rule.freq === 'YEARLY' && !rule.byWeekNo
+              ? 'year'
+              : null;
+
+    for (let index = 0; index < MAX_PERIODS && results.length < limit; index++) {
+        let candidates: number[];
+        if (subDaily) {
+            const unit = rule.freq === 'HOURLY' ? 3_600_000 : rule.freq === 'MINUTELY' ? 60_000 : 1000;
+            const periodStart = startWallMs + index * rule.interval * unit;
+            if (periodStart > end) break;
+            const period = new Date(periodStart);
+            const info = getDayInfo(Math.floor(periodStart / DAY_MS));
+            const inPeriod =
+                matchesDay(info, effective, null) &&
+                (!rule.byHour || rule.byHour.includes(period.getUTCHours())) &&
+                (rule.freq === 'HOURLY' || !rule.byMinute || rule.byMinute.includes(period.getUTCMinutes())) &&
+                (rule.freq !== 'SECONDLY' || !rule.bySecond || rule.bySecond.includes(period.getUTCSeconds()));
+            if (!inPeriod) continue;
+            candidates = cross(
+                [info.dayNum],
+                [period.getUTCHours()],
+                rule.freq === 'HOURLY' ? (rule.byMinute ?? [period.getUTCMinutes()]) : [period.getUTCMinutes()],
+                rule.freq === 'SECONDLY' ? [period.getUTCSeconds()] : (rule.bySecond ?? [second])
+            );
+        } else {
+            const days = getPeriodDays(effective, index, startDay);
+            if ((days[0]?.dayNum ?? 0) * DAY_MS > end) break;
+            candidates = cross(
+                days.filter(info => matchesDay(info, effective, ordinalScope)).map(info => info.dayNum),
+                rule.byHour ?? [hour],
+                rule.byMinute ?? [minute],
+                rule.bySecond ?? [second]
+            );
+        }
+
+        candidates.sort((a, b) => a - b);
+        if (rule.bySetPos) {
+            const all = candidates;
+            candidates = rule.bySetPos
+                .map(pos => all[pos > 0 ? pos - 1 : all.length + pos])
+                .filter((ms): ms is number => ms !== undefined)
+                .sort((a, b) => a - b);
+        }
+
+        for (const ms of candidates) {
+            if (ms <= startWallMs) continue;
+            if (ms > end || results.length >= limit) return results;
+            results.push(ms);
+        }
+    }
+    return results;
+};
@@ -0,0 +1,210 @@
+/**
+ * Time zone handling for iCalendar date-times
+ *
+ * A TZID is resolved from the calendar's own VTIMEZONE definition when it has one,
+ * otherwise as an IANA zone name through `Intl`. Unknown zones fall back to floating
+ * (local) time. Wall times in a daylight saving gap move forward by the gap's length
+ * and ambiguous wall times take the earlier instant (RFC 5545 section 3.3.5).
+ *
+ * @module utils/ical/timezones
+ */
+import { expandRecurrence } from './recurrence';
+import type { ICalDateTime, ICalObservance, ICalTimezone } from './types';
+import { DAY_MS, MINUTE_MS, fromWallMs, toWallMs } from './values';
+
+/** Minutes east of UTC at an instant */
+type OffsetResolver = (utcMs: number) => number;
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+const getFormatter = (tzid: string): Intl.DateTimeFormat | null => {
+    if (!formatters.has(tzid)) {
+        try {
+            formatters.set(
+                tzid,
+                new Intl.DateTimeFormat('en-US', {
+                    timeZone: tzid,
+                    hourCycle: 'h23',
+                    year: 'numeric',
+                    month: 'numeric',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: 'numeric',
+                    second: 'numeric',
+                })
+            );
+        } catch {
+            formatters.set(tzid, null);
+        }
+    }
+    return formatters.get(tzid) ?? null;
+};
+
+/**
+ * Whether `Intl` knows a time zone name
+ */
+export const isSupportedTimeZone = (tzid: string): boolean => getFormatter(tzid) !== null;
+
+const intlOffsetResolver =
+    (formatter: Intl.DateTimeFormat): OffsetResolver =>
+    utcMs => {
+        const parts: Record<string, number> = {};
+        formatter.formatToParts(new Date(utcMs)).forEach(part => {
+            if (part.type !== 'literal') parts[part.type] = Number(part.value);
+        });
+        const wallMs = Date.UTC(
+            parts.year ?? 1970,
+            (parts.month ?? 1) - 1,
+            parts.day ?? 1,
+            parts.hour ?? 0,
+            parts.minute ?? 0,
+            parts.second ?? 0
+        );
+        return Math.round((wallMs - Math.floor(utcMs / 1000) * 1000) / MINUTE_MS);
+    };
+
+/** Expanded onsets per observance, in UTC milliseconds, up to `horizon` */
+const onsetCache = new WeakMap<ICalObservance, { horizon: number; onsets: number[] }>();
+
+/** Expand onsets this far past the requested instant, so nearby lookups hit the cache */
+const ONSET_HORIZON_MS = 50 * 365 * DAY_MS;
+
+/**
+ * The latest onset of an observance at or before an instant, in UTC milliseconds
+ */
+const getLatestOnset = (observance: ICalObservance, utcMs: number): number | null => {
+    let cached = onsetCache.get(observance);
+    if (!cached || cached.horizon < utcMs) {
+        const horizon = utcMs + ONSET_HORIZON_MS;
+        const offsetMs = observance.offsetFrom * MINUTE_MS;
+        const until = observance.rrule?.until;
+        const startWall = toWallMs(observance.start);
+        const wallTimes = observance.rrule
+            ? expandRecurrence(startWall, observance.rrule, {
+                  end: horizon + offsetMs,
+                  // UNTIL in an observance is in UTC
+                  until: until?.utc ? toWallMs(until) + offsetMs : undefined,
+              })
+            : [startWall];
+        observance.rdates.forEach(rdate => wallTimes.push(toWallMs(rdate)));
+        cached = { horizon, onsets: wallTimes.map(wall => wall - offsetMs).sort((a, b) => a - b) };
+        onsetCache.set(observance, cached);
+    }
+    let latest: number | null = null;
+    for (const onset of cached.onsets) {
+        if (onset > utcMs) break;
+        latest = onset;
+    }
+    return latest;
+};
+
+const vtimezoneOffsetResolver =
+    (timezone: ICalTimezone): OffsetResolver =>
+    utcMs => {
+        let latest: { onset: number; offset: number } | null = null;
+        for (const observance of timezone.observances) {
+            const onset = getLatestOnset(observance, utcMs);
+            if (onset !== null && (!latest || onset > latest.onset)) {
+                latest = { onset, offset: observance.offsetTo };
+            }
+        }
+        if (latest) return latest.offset;
+        // Before the first onset the zone is at the earliest observance's "from" offset
+        const earliest = [...timezone.observances].sort((a, b) => toWallMs(a.start) - toWallMs(b.start))[0];
+        return earliest?.offsetFrom ?? 0;
+    };
+
+/**
+ * How to find UTC offsets for a TZID, or null for floating time
+ */
+const getOffsetResolver = (tzid: string, timezones: ICalTimezone[]): OffsetResolver | null => {
+    const definition = timezones.find(tz => tz.tzid === tzid);
+    if (definition && definition.observances.length > 0) return vtimezoneOffsetResolver(definition);
+    const formatter = getFormatter(tzid);
+    return formatter ? intlOffsetResolver(formatter) : null;
+};
+
+/**
+ * The UTC instant of a wall time in a zone
+ */
+const wallToUtc = (wallMs: number, offsetAt: OffsetResolver): number => {
+    // Offsets either side of any transition near this wall time
+    const before = offsetAt(wallMs - DAY_MS);
+    const after = offsetAt(wallMs + DAY_MS);
+    const valid = [...new Set([before, after])]
+        .map(offset => wallMs - offset * MINUTE_MS)
+        .filter(utcMs => wallMs - offsetAt(utcMs) * MINUTE_MS === utcMs);
+    // Ambiguous: take the earlier instant. In a gap: keep the offset from before it.
+    return valid.length > 0 ? Math.min(...valid) : wallMs - before * MINUTE_MS;
+};
+
+/**
+ * The instant of a date-time. Floating times and DATE values use the host's local time.
+ * @param timezones - VTIMEZONE definitions from the calendar
+ */
+export const toDate = (dt: ICalDateTime, timezones: ICalTimezone[] = []): Date => {
+    if (dt.utc) return new Date(toWallMs(dt));
+    const offsetAt = dt.tzid ? getOffsetResolver(dt.tzid, timezones) : null;
+    if (!offsetAt) return new Date(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second);
+    return new Date(wallToUtc(toWallMs(dt), offsetAt));
+};
+
+/**
+ * Express an instant as a date-time in a zone; without a zone the result is in UTC
+ */
+export const fromDate = (date: Date, tzid?: string, timezones: ICalTimezone[] = []): ICalDateTime => {
+    const offsetAt = tzid ? getOffsetResolver(tzid, timezones) : null;
+    if (!tzid || !offsetAt) return fromWallMs(date.getTime(), { isDate: false, utc: true });
+    return fromWallMs(date.getTime() + offsetAt(date.getTime()) * MINUTE_MS, { isDate: false, utc: false, tzid });
+};
+
+/**
+ * Build a VTIMEZONE for an IANA zone from `Intl`, with one observance per offset change
+ * between the given years (inclusive)
+ */
+export const createTimezone = (tzid: string, fromYear: number, toYear: number): ICalTimezone => {
+    const formatter = getFormatter(tzid);
+    const offsetAt = formatter ? intlOffsetResolver(formatter) : () => 0;
+    const startMs = Date.UTC(fromYear, 0, 1);
+    const endMs = Date.UTC(toYear + 1, 0, 1);
+    const initial = offsetAt(startMs);
+    const observances: ICalObservance[] = [];
+    let previous = initial;
+
+    for (let dayMs = startMs; dayMs < endMs; dayMs += DAY_MS) {
+        const next = offsetAt(dayMs + DAY_MS);
+        if (next === previous) continue;
+        // Narrow the change down to the minute
+        let low = dayMs;
+        let high = dayMs + DAY_MS;
+        while (high - low > MINUTE_MS) {
+            const mid = low + Math.floor((high - low) / MINUTE_MS / 2) * MINUTE_MS;
+            if (offsetAt(mid) === previous) low = mid;
+            else high = mid;
+        }
+        observances.push({
+            kind: next > previous ? 'DAYLIGHT' : 'STANDARD',
+            start: fromWallMs(high + previous * MINUTE_MS, { isDate: false, utc: false }),
+            offsetFrom: previous,
+            offsetTo: next,
+            rdates: [],
+        });
+        previous = next;
+    }
+
+    if (observances.length === 0) {
+        observances.push({
+            kind: 'STANDARD',
+            start: fromWallMs(startMs, { isDate: false, utc: false }),
+            offsetFrom: initial,
+            offsetTo: initial,
+            rdates: [],
+        });
+    }
+    return { tzid, observances };
+};
+
+/**
+ * The host's IANA time zone, e.g. `Europe/Berlin`
+ */
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
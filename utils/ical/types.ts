@@ -0,0 +1,184 @@
+/**
+ * iCalendar (RFC 5545) data model
+ *
+ * @module utils/ical/types
+ */
+
+/**
+ * A DATE or DATE-TIME value as written in the file. Times are wall-clock times in
+ * `tzid`, in UTC when `utc` is set, or floating (the viewer's local time) otherwise.
+ */
+export interface ICalDateTime {
+    year: number;
+    /** 1-12 */
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** DATE value (all-day); the time fields are 0 */
+    isDate: boolean;
+    utc: boolean;
+    tzid?: string;
+}
+
+/**
+ * A DURATION value. Weeks and days are nominal (they follow wall-clock time across
+ * daylight saving changes); hours, minutes and seconds are exact.
+ */
+export interface ICalDuration {
+    negative: boolean;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+}
+
+export type ICalWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export type ICalFrequency = 'SECONDLY' | 'MINUTELY' | 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * A parsed RRULE
+ */
+export interface RecurrenceRule {
+    freq: ICalFrequency;
+    /** Every `interval` periods (default 1) */
+    interval: number;
+    count?: number;
+    until?: ICalDateTime;
+    bySecond?: number[];
+    byMinute?: number[];
+    byHour?: number[];
+    /** Weekdays, with an ordinal for "2nd Tuesday" (`2TU`) or "last Friday" (`-1FR`) */
+    byDay?: { weekday: ICalWeekday; ordinal?: number }[];
+    byMonthDay?: number[];
+    byYearDay?: number[];
+    byWeekNo?: number[];
+    byMonth?: number[];
+    bySetPos?: number[];
+    /** First day of the week (default MO) */
+    wkst: ICalWeekday;
+}
+
+/**
+ * A property kept as written, for properties the model has no field for
+ */
+export interface ICalProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+export type ICalTrigger =
+    | { type: 'relative'; duration: ICalDuration; related: 'START' | 'END' }
+    | { type: 'absolute'; at: ICalDateTime };
+
+/**
+ * A VALARM component
+ */
+export interface ICalAlarm {
+    /** DISPLAY, AUDIO or EMAIL */
+    action: string;
+    trigger: ICalTrigger;
+    description?: string;
+    summary?: string;
+    /** Extra repetitions after the first, `duration` apart */
+    repeat?: number;
+    duration?: ICalDuration;
+    properties: ICalProperty[];
+}
+
+/**
+ * A VEVENT component
+ */
+export interface ICalEvent {
+    uid: string;
+    summary: string;
+    description: string;
+    location: string;
+    start: ICalDateTime;
+    /** Exclusive end; absent when the event has a `duration` or no end at all */
+    end?: ICalDateTime;
+    duration?: ICalDuration;
+    rrule?: RecurrenceRule;
+    rdates: ICalDateTime[];
+    exdates: ICalDateTime[];
+    /** Set on an event that replaces one occurrence of a recurring event with the same UID */
+    recurrenceId?: ICalDateTime;
+    categories: string[];
+    status?: string;
+    sequence?: number;
+    dtstamp?: ICalDateTime;
+    alarms: ICalAlarm[];
+    /** Other properties, written back unchanged */
+    properties: ICalProperty[];
+}
+
+/**
+ * A STANDARD or DAYLIGHT observance of a VTIMEZONE
+ */
+export interface ICalObservance {
+    kind: 'STANDARD' | 'DAYLIGHT';
+    /** Onset as local time before the change */
+    start: ICalDateTime;
+    /** UTC offsets in minutes east of UTC */
+    offsetFrom: number;
+    offsetTo: number;
+    rrule?: RecurrenceRule;
+    rdates: ICalDateTime[];
+    name?: string;
+}
+
+/**
+ * A VTIMEZONE component
+ */
+export interface ICalTimezone {
+    tzid: string;
+    observances: ICalObservance[];
+}
+
+/**
+ * A VCALENDAR object
+ */
+export interface ICalendar {
+    prodId: string;
+    version: string;
+    method?: string;
+    events: ICalEvent[];
+    timezones: ICalTimezone[];
+    /** Other calendar properties (`X-WR-CALNAME`, ...), written back unchanged */
+    properties: ICalProperty[];
+}
+
+/**
+ * Error codes raised while reading iCalendar data
+ */
+export type ICalErrorCode = 'EPARSE' | 'EVALUE';
+
+/**
+ * Error thrown for malformed iCalendar data, carrying a machine-readable code
+ */
+export type ICalError = Error & { code: ICalErrorCode };
+
+const ERROR_CODES: ICalErrorCode[] = ['EPARSE', 'EVALUE'];
+
+/**
+ * Create an {@link ICalError}
+ */
+export const createICalError = (code: ICalErrorCode, message: string): ICalError => {
+    const error = new Error(message) as ICalError;
+    error.name = 'ICalError';
+    error.code = code;
+    return error;
+};
+
+/**
+ * Check whether an unknown error is an {@link ICalError}, optionally with a specific code
+ */
+export const isICalError = (error: unknown, code?: ICalErrorCode): error is ICalError => {
+    if (!(error instanceof Error) || error.name !== 'ICalError') return false;
+    const errorCode = (error as ICalError).code;
+    return code ? errorCode === code : ERROR_CODES.includes(errorCode);
+};
@@ -0,0 +1,160 @@
+/**
+ * iCalendar value types: DATE, DATE-TIME, DURATION and UTC-OFFSET
+ *
+ * Wall-clock times are handled as "wall milliseconds": the time read as if it were
+ * UTC. That keeps date arithmetic free of the host's daylight saving rules; see
+ * utils/ical/timezones.ts for turning wall times into instants.
+ *
+ * @module utils/ical/values
+ */
+import { createICalError, type ICalDateTime, type ICalDuration } from './types';
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+const UTC_OFFSET_PATTERN = /^([+-])(\d{2})(\d{2})(\d{2})?$/;
+
+export const MINUTE_MS = 60_000;
+export const DAY_MS = 86_400_000;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * @param tzid - The property's TZID parameter, ignored for UTC and DATE values
+ * @throws {ICalError} EVALUE when the value is malformed
+ */
+export const parseDateTime = (value: string, tzid?: string): ICalDateTime => {
+    const trimmed = value.trim();
+    const match = DATE_PATTERN.exec(trimmed) ?? DATE_TIME_PATTERN.exec(trimmed);
+    if (!match) throw createICalError('EVALUE', `Invalid date-time: ${value}`);
+    const [year = 0, month = 0, day = 0, hour = 0, minute = 0, second = 0] = match.slice(1, 7).map(Number);
+    const isDate = match.length === 4;
+    const utc = match[7] === 'Z';
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 60) {
+        throw createICalError('EVALUE', `Invalid date-time: ${value}`);
+    }
+    return {
+        year,
+        month,
+        day,
+        hour,
+        minute,
+        second: Math.min(second, 59),
+        isDate,
+        utc,
+        ...(tzid && !utc && !isDate ? { tzid } : {}),
+    };
+};
+
+/**
+ * Format a DATE or DATE-TIME value (the TZID goes in a parameter, not the value)
+ */
+export const formatDateTime = (dt: ICalDateTime): string => {
+    const date = `${pad(dt.year, 4)}${pad(dt.month)}${pad(dt.day)}`;
+    if (dt.isDate) return date;
+    return `${date}T${pad(dt.hour)}${pad(dt.minute)}${pad(dt.second)}${dt.utc ? 'Z' : ''}`;
+};
+
+/**
+ * Parse a DURATION value
+ * @throws {ICalError} EVALUE when the value is malformed
+ */
+export const parseDuration = (value: string): ICalDuration => {
+    const match = DURATION_PATTERN.exec(value.trim());
+    if (!match || value.trim().endsWith('T')) throw createICalError('EVALUE', `Invalid duration: ${value}`);
+    const [weeks, days, hours, minutes, seconds] = match.slice(2, 7).map(part => Number(part ?? 0));
+    return {
+        negative: match[1] === '-',
+        weeks: weeks ?? 0,
+        days: days ?? 0,
+        hours: hours ?? 0,
+        minutes: minutes ?? 0,
+        seconds: seconds ?? 0,
+    };
+};
+
+/**
+ * Format a DURATION value
+ */
+export const formatDuration = (duration: ICalDuration): string => {
+    const { weeks, days, hours, minutes, seconds } = duration;
+    let text = `${duration.negative ? '-' : ''}P`;
+    if (weeks) text += `${weeks}W`;
+    if (days) text += `${days}D`;
+    if (hours || minutes || seconds) {
+        text += 'T';
+        if (hours) text += `${hours}H`;
+        if (minutes) text += `${minutes}M`;
+        if (seconds) text += `${seconds}S`;
+    }
+    return text === 'P' || text === '-P' ? `${text}T0S` : text;
+};
+
+/**
+ * Build a duration from a signed number of minutes
+ */
+export const durationFromMinutes = (totalMinutes: number): ICalDuration => {
+    const negative = totalMinutes < 0;
+    let rest = Math.abs(totalMinutes);
+    const days = Math.floor(rest / 1440);
+    rest -= days * 1440;
+    return { negative, weeks: 0, days, hours: Math.floor(rest / 60), minutes: rest % 60, seconds: 0 };
+};
+
+/**
+ * A duration's length in milliseconds, counting nominal days as 24 hours
+ */
+export const durationToMs = (duration: ICalDuration): number => {
+    const ms =
+        ((duration.weeks * 7 + duration.days) * 86_400 +
+            duration.hours * 3600 +
+            duration.minutes * 60 +
+            duration.seconds) *
+        1000;
+    return duration.negative ? -ms : ms;
+};
+
+/**
+ * Parse a UTC-OFFSET value
+ * @returns Minutes east of UTC
+ * @throws {ICalError} EVALUE when the value is malformed
+ */
+export const parseUtcOffset = (value: string): number => {
+    const match = UTC_OFFSET_PATTERN.exec(value.trim());
+    if (!match) throw createICalError('EVALUE', `Invalid UTC offset: ${value}`);
+    const minutes = Number(match[2]) * 60 + Number(match[3]) + Math.round(Number(match[4] ?? 0) / 60);
+    return match[1] === '-' ? -minutes : minutes;
+};
+
+/**
+ * Format minutes east of UTC as a UTC-OFFSET value
+ */
+export const formatUtcOffset = (minutes: number): string => {
+    const abs = Math.abs(minutes);
+    return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+/**
+ * A date-time's wall-clock time in wall milliseconds
+ */
+export const toWallMs = (dt: ICalDateTime): number =>
+    Date.UTC(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute, dt.second);
+
+/**
+ * Build a date-time from wall milliseconds, keeping the kind and zone of `template`
+ */
+export const fromWallMs = (wallMs: number, template: Pick<ICalDateTime, 'isDate' | 'utc' | 'tzid'>): ICalDateTime => {
+    const date = new Date(wallMs);
+    return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: template.isDate ? 0 : date.getUTCHours(),
+        minute: template.isDate ? 0 : date.getUTCMinutes(),
+        second: template.isDate ? 0 : date.getUTCSeconds(),
+        isDate: template.isDate,
+        utc: template.utc,
+        ...(template.tzid ? { tzid: template.tzid } : {}),
+    };
+};
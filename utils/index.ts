@@ -12,6 +12,68 @@ export { debugSync } from './debugLogger';
 export { createEventBus, appEventBus } from './eventBus';
 export type { EventBus, AppEvents } from './eventBus';
 
+// Intents
+export {
+    startIntent,
+    requestIntent,
+    resolveIntent,
+    isIntent,
+    findIntentHandlers,
+    getIntentProps,
+    INTENT_LABELS,
+} from './intents';
+export type {
+    Intent,
+    IntentAction,
+    IntentData,
+    IntentFilter,
+    IntentHandlerApp,
+    IntentMatch,
+    IntentResults,
+    PickedFile,
+    ResultIntentAction,
+    StartIntentOptions,
+} from './intents';
+
+// Permissions
+export {
+    PERMISSIONS,
+    isPermission,
+    getPermissionState,
+    setPermissionState,
+    resetPermissions,
+    requestPermission,
+    respondToPermissionRequest,
+} from './permissions';
+export type { Permission, PermissionState, PermissionHolder, PermissionRequest } from './permissions';
+
+// Third-party app packages
+export {
+    parseAppPackage,
+    validateAppManifest,
+    createAppPackageError,
+    isAppPackageError,
+    installAppPackage,
+    installAppPackageFromUrl,
+    installAppPackageFromFile,
+    uninstallAppPackage,
+    getPackagedAppId,
+    getPackageIdFromAppId,
+    APP_PACKAGE_EXTENSION,
+} from './appPackages';
+export type { AppPackage, AppPackageManifest, AppPackageError, AppPackageErrorCode } from './appPackages';
+
+// Desktop search
+export { createSearchIndex, createSearchService, getSearchService, SEARCH_CATEGORIES } from './search';
+export type {
+    SearchCategory,
+    SearchDocument,
+    SearchTarget,
+    SearchService,
+    DesktopSearchResult,
+    SnippetSegment,
+} from './search';
+
 // File system utilities
 export * from './fileSystem';
 
@@ -40,3 +102,34 @@ export type { SoundSettings, SystemSound } from './soundService';
 // Viewport utilities
 export type { ViewportSize, WindowMaxInsets, WindowMaxRect } from './viewport';
 export { getViewportSize, getWindowMaxInsets, getWindowMaxRect } from './viewport';
+
+// Window tiling
+export type { SnapSlot, SnapZone, SnapDirection, SnapLayout, KeyboardSnapTarget } from './snapLayouts';
+export {
+    SNAP_LAYOUTS,
+    detectSnapZone,
+    findSnapLayout,
+    getKeyboardSnapTarget,
+    getSlotFraction,
+    getSnapRect,
+} from './snapLayouts';
+
+// Named workspaces
+export type { Workspace, WorkspaceSnapshot, WorkspaceWindow } from './workspaces';
+export {
+    captureWorkspaceSnapshot,
+    deleteWorkspace,
+    getWorkspace,
+    listWorkspaces,
+    parseWorkspaceSnapshot,
+    restoreWorkspaceAppState,
+    saveWorkspace,
+} from './workspaces';
+
+// iCalendar
+export type { ICalendar, ICalEvent, ICalError, ICalErrorCode, ICalOccurrence } from './ical';
+export { createICalError, expandEvents, isICalError, parseICalendar, serializeICalendar } from './ical';
+
+// Virtual file system (path-based API)
+export { vfs, createVfsError, isVfsError } from './vfs';
+export type { VfsStat, VfsError, VfsErrorCode, WriteFileOptions, MkdirOptions, GlobOptions } from './vfs';
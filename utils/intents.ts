@@ -0,0 +1,201 @@
+/**
+ * Intents - typed requests that any app able to handle them can fulfil
+ *
+ * An intent names an action such as `share:text` or `pick:color` and carries typed data.
+ * Apps declare the intents they handle in `AppConfig.intents`. `IntentHost` finds the
+ * matching apps, lets the user choose when several match, and opens the chosen app with
+ * the intent as its `intent` prop. Callers that need an answer use `requestIntent`, which
+ * resolves once the handling app calls `resolveIntent`, or with null when nothing handles
+ * it or the user cancels.
+ *
+ * @module utils/intents
+ *
+ * @example
+ * ```ts
+ * const picked = await requestIntent('pick:color', { initialColor: '#3b82f6' });
+ * if (picked) setAccent(picked.color);
+ *
+ * startIntent('share:url', { url: 'https://example.com' });
+ * ```
+ */
+import { appEventBus } from './eventBus';
+import { generateUuid } from './uuid';
+
+/**
+ * Data carried by each intent action
+ */
+export interface IntentData {
+    'share:text': { text: string; title?: string };
+    'share:url': { url: string; title?: string };
+    'pick:color': { initialColor?: string };
+    'pick:file': { extensions?: string[]; title?: string };
+    'view:json': { json: string; title?: string };
+}
+
+/**
+ * File returned by a `pick:file` intent
+ */
+export interface PickedFile {
+    id: string;
+    name: string;
+    content?: string;
+    /** Folder IDs from the root to the file's parent */
+    path: string[];
+}
+
+/**
+ * Results of the actions that answer their caller
+ */
+export interface IntentResults {
+    'pick:color': { color: string };
+    'pick:file': PickedFile;
+}
+
+export type IntentAction = keyof IntentData;
+export type ResultIntentAction = keyof IntentResults;
+
+/**
+ * A dispatched intent
+ */
+export interface Intent<A extends IntentAction = IntentAction> {
+    id: string;
+    action: A;
+    data: IntentData[A];
+    /** Whether the caller is waiting for `resolveIntent` */
+    expectsResult: boolean;
+    /** App that dispatched the intent */
+    sourceAppId?: string;
+}
+
+/**
+ * Declares that an app handles an action.
+ * `accepts` narrows it to some data (e.g. only image URLs); `toProps` maps the data
+ * onto the app's existing props. The app always receives the intent itself as `intent`.
+ */
+export type IntentFilter = {
+    [A in IntentAction]: {
+        action: A;
+        accepts?: (data: IntentData[A]) => boolean;
+        toProps?: (data: IntentData[A]) => Record<string, unknown>;
+    };
+}[IntentAction];
+
+/**
+ * The parts of an app registration intent resolution needs
+ */
+export interface IntentHandlerApp {
+    id: string;
+    title: string;
+    icon: string;
+    color: string;
+    intents?: IntentFilter[];
+}
+
+/**
+ * An app able to handle a given intent, with the filter that matched
+ */
+export interface IntentMatch<App extends IntentHandlerApp = IntentHandlerApp> {
+    app: App;
+    filter: IntentFilter;
+}
+
+export interface StartIntentOptions {
+    /** Deliver straight to this app when it handles the intent, skipping the chooser */
+    appId?: string;
+    sourceAppId?: string;
+}
+
+// Requests still waiting for an answer; once answered, late cancellations (e.g. on unmount) are ignored
+const pendingIntents = new Set<string>();
+
+/**
+ * Human-readable description of an action, used by the chooser
+ */
+export const INTENT_LABELS: Record<IntentAction, string> = {
+    'share:text': 'Share text',
+    'share:url': 'Share link',
+    'pick:color': 'Pick a color',
+    'pick:file': 'Pick a file',
+    'view:json': 'View JSON',
+};
+
+const createIntent = <A extends IntentAction>(
+    action: A,
+    data: IntentData[A],
+    expectsResult: boolean,
+    options: StartIntentOptions
+): Intent<A> => ({ id: generateUuid(), action, data, expectsResult, sourceAppId: options.sourceAppId });
+
+/**
+ * Dispatch an intent without waiting for a result
+ *
+ * @returns The dispatched intent
+ */
+export function startIntent<A extends IntentAction>(
+    action: A,
+    data: IntentData[A],
+    options: StartIntentOptions = {}
+): Intent<A> {
+    const intent = createIntent(action, data, false, options);
+    appEventBus.emit('intent:start', { intent, appId: options.appId });
+    return intent;
+}
+
+/**
+ * Dispatch an intent and wait for the handling app to answer
+ *
+ * @returns The result, or null if no app handled it or the user cancelled
+ */
+export function requestIntent<A extends ResultIntentAction>(
+    action: A,
+    data: IntentData[A],
+    options: StartIntentOptions = {}
+): Promise<IntentResults[A] | null> {
+    const intent = createIntent(action, data, true, options);
+    pendingIntents.add(intent.id);
+    return new Promise(resolve => {
+        const unsubscribe = appEventBus.on('intent:result', ({ intentId, result }) => {
+            if (intentId !== intent.id) return;
+            unsubscribe();
+            resolve(result as IntentResults[A] | null);
+        });
+        appEventBus.emit('intent:start', { intent, appId: options.appId });
+    });
+}
+
+/**
+ * Answer an intent. Only the first answer counts; pass null to cancel.
+ */
+export function resolveIntent<A extends ResultIntentAction>(intent: Intent<A>, result: IntentResults[A] | null): void {
+    if (!intent.expectsResult || !pendingIntents.delete(intent.id)) return;
+    appEventBus.emit('intent:result', { intentId: intent.id, result });
+}
+
+/**
+ * Narrow an intent to one action
+ */
+export function isIntent<A extends IntentAction>(intent: Intent | undefined, action: A): intent is Intent<A> {
+    return intent?.action === action;
+}
+
+/**
+ * Apps able to handle an intent, in registration order
+ */
+export function findIntentHandlers<App extends IntentHandlerApp>(apps: App[], intent: Intent): IntentMatch<App>[] {
+    return apps.flatMap(app => {
+        const filter = app.intents?.find(
+            candidate =>
+                candidate.action === intent.action &&
+                (!candidate.accepts || (candidate.accepts as (data: unknown) => boolean)(intent.data))
+        );
+        return filter ? [{ app, filter }] : [];
+    });
+}
+
+/**
+ * Props to open the handling app with: the intent itself plus any mapped by the filter
+ */
+export function getIntentProps(filter: IntentFilter, intent: Intent): Record<string, unknown> {
+    const toProps = filter.toProps as ((data: unknown) => Record<string, unknown>) | undefined;
+    return { ...toProps?.(intent.data), intent };
+}
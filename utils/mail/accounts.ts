@@ -0,0 +1,109 @@
+/**
+ * Mail accounts and the local folders of their server folders
+ *
+ * Accounts live in the local-only `$mailAccounts` table, as they hold the password.
+ * Server folders with a special use (Inbox, Sent, Drafts, Trash) map to the system
+ * folders; the others become `remote:<accountId>:<path>` folders.
+ *
+ * @module utils/mail/accounts
+ */
+import type { MailAccountRecord, MailFolderId, SystemMailFolderId, Windows15DexieDB } from '../storage/db';
+import { generateUuid } from '../uuid';
+
+export const REMOTE_FOLDER_PREFIX = 'remote:';
+
+/** Where the bridge listens unless configured otherwise */
+export const DEFAULT_BRIDGE_URL = 'http://localhost:8025';
+
+export const SYSTEM_MAIL_FOLDERS: SystemMailFolderId[] = ['inbox', 'sent', 'drafts', 'trash'];
+
+/**
+ * Account settings edited in Settings
+ */
+export type MailAccountInput = Pick<
+    MailAccountRecord,
+    | 'name'
+    | 'email'
+    | 'displayName'
+    | 'bridgeUrl'
+    | 'imapHost'
+    | 'imapPort'
+    | 'smtpHost'
+    | 'smtpPort'
+    | 'secure'
+    | 'username'
+    | 'password'
+>;
+
+/**
+ * Local folder of a server folder that is not a system folder
+ */
+export const getRemoteFolderId = (accountId: string, path: string): MailFolderId =>
+    `${REMOTE_FOLDER_PREFIX}${accountId}:${path}`;
+
+export const isSystemMailFolder = (folderId: MailFolderId): folderId is SystemMailFolderId =>
+    SYSTEM_MAIL_FOLDERS.includes(folderId as SystemMailFolderId);
+
+/**
+ * Whether a folder is a server folder of an account (other than a system folder)
+ */
+export const isRemoteMailFolder = (folderId: MailFolderId): folderId is `remote:${string}` =>
+    folderId.startsWith(REMOTE_FOLDER_PREFIX);
+
+/**
+ * Server folder path of a local folder for an account, if the server has one
+ */
+export const getRemotePath = (
+    account: Pick<MailAccountRecord, 'id' | 'specialFolders'>,
+    folderId: MailFolderId
+): string | undefined => {
+    if (isSystemMailFolder(folderId)) return account.specialFolders?.[folderId];
+    const prefix = getRemoteFolderId(account.id, '');
+    return folderId.startsWith(prefix) ? folderId.slice(prefix.length) : undefined;
+};
+
+/**
+ * The From header for messages sent from an account
+ */
+export const formatAccountAddress = (account: Pick<MailAccountRecord, 'displayName' | 'email'>): string =>
+    account.displayName.trim() ? `${account.displayName.trim()} <${account.email}>` : account.email;
+
+/**
+ * Add an account, or update one. Pointing an account at another server or user
+ * starts its sync over.
+ */
+export async function saveMailAccount(
+    db: Windows15DexieDB,
+    input: MailAccountInput,
+    id?: string
+): Promise<MailAccountRecord> {
+    const now = Date.now();
+    const existing = id ? await db.$mailAccounts.get(id) : undefined;
+    const sameServer =
+        existing &&
+        existing.bridgeUrl === input.bridgeUrl &&
+        existing.imapHost === input.imapHost &&
+        existing.username === input.username;
+    const record: MailAccountRecord = {
+        ...(sameServer ? existing : {}),
+        ...input,
+        id: existing?.id ?? generateUuid(),
+        transport: existing?.transport ?? 'bridge',
+        lastError: undefined,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+    await db.$mailAccounts.put(record);
+    return record;
+}
+
+/**
+ * Remove an account with its folders and downloaded messages
+ */
+export async function removeMailAccount(db: Windows15DexieDB, accountId: string): Promise<void> {
+    await db.transaction('rw', db.$mailAccounts, db.emailFolders, db.emails, async () => {
+        await db.emails.where('accountId').equals(accountId).delete();
+        await db.emailFolders.where('accountId').equals(accountId).delete();
+        await db.$mailAccounts.delete(accountId);
+    });
+}
@@ -0,0 +1,252 @@
+/**
+ * Mail bridge transport - IMAP/SMTP through a small local HTTP/WebSocket bridge
+ *
+ * Browsers cannot open IMAP or SMTP connections, so a bridge running on the user's
+ * machine holds them and exposes a JSON API. The transport logs in once per account
+ * and sends the session token with every request; a 401 logs in again.
+ *
+ * | Request | Body / query | Response |
+ * | --- | --- | --- |
+ * | `POST /v1/session` | `{ imap, smtp, username, password }` | `{ token }` |
+ * | `DELETE /v1/session` | | |
+ * | `GET /v1/folders` | | `{ folders: MailFolderInfo[] }` |
+ * | `GET /v1/folders/:path/messages` | `?since=<uid>` | `{ uidValidity, messages: FetchedMailMessage[] }` |
+ * | `POST /v1/folders/:path/flags` | `{ uids, seen }` | |
+ * | `POST /v1/folders/:path/move` | `{ uids, to }` | |
+ * | `POST /v1/folders/:path/delete` | `{ uids }` | |
+ * | `POST /v1/send` | `OutgoingMailMessage` | |
+ * | `WS /v1/events?token=` | | `{ type: 'changed', path }` per change |
+ *
+ * Errors are `{ error: string }` with a 4xx/5xx status. `imap` and `smtp` are
+ * `{ host, port, secure }`.
+ *
+ * @module utils/mail/bridgeTransport
+ */
+import type { MailAccountRecord } from '../storage/db';
+import {
+    createMailTransportError,
+    isMailTransportError,
+    type FetchedMailMessage,
+    type FetchMessagesResult,
+    type MailFolderInfo,
+    type MailTransport,
+    type MailTransportErrorCode,
+} from './transport';
+
+export interface BridgeTransportOptions {
+    /** Defaults to the global `fetch` */
+    fetch?: typeof fetch;
+    /** Defaults to the global `WebSocket`; without one, `watch` does nothing */
+    WebSocket?: typeof WebSocket;
+}
+
+const SPECIAL_USES = new Set(['inbox', 'sent', 'drafts', 'trash', 'junk', 'archive']);
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const toFolderInfo = (value: unknown): MailFolderInfo | null => {
+    const folder = value as Partial<MailFolderInfo> | null;
+    if (typeof folder?.path !== 'string' || !folder.path) return null;
+    const specialUse = typeof folder.specialUse === 'string' ? folder.specialUse.toLowerCase() : undefined;
+    return {
+        path: folder.path,
+        name: typeof folder.name === 'string' && folder.name ? folder.name : folder.path,
+        ...(specialUse && SPECIAL_USES.has(specialUse)
+            ? { specialUse: specialUse as MailFolderInfo['specialUse'] }
+            : {}),
+    };
+};
+
+const toFetchedMessage = (value: unknown): FetchedMailMessage | null => {
+    const message = value as Partial<FetchedMailMessage> | null;
+    if (typeof message?.uid !== 'number' || !Number.isInteger(message.uid)) return null;
+    return {
+        uid: message.uid,
+        ...(typeof message.messageId === 'string' ? { messageId: message.messageId } : {}),
+        ...(typeof message.inReplyTo === 'string' ? { inReplyTo: message.inReplyTo } : {}),
+        ...(isStringArray(message.references) ? { references: message.references } : {}),
+        from: typeof message.from === 'string' ? message.from : '',
+        to: isStringArray(message.to) ? message.to : [],
+        subject: typeof message.subject === 'string' ? message.subject : '',
+        body: typeof message.body === 'string' ? message.body : '',
+        date: typeof message.date === 'number' && Number.isFinite(message.date) ? message.date : Date.now(),
+        seen: message.seen === true,
+    };
+};
+
+const errorCodeForStatus = (status: number, failureCode?: MailTransportErrorCode): MailTransportErrorCode => {
+    if (status === 401 || status === 403) return 'EAUTH';
+    return failureCode ?? (status === 404 ? 'ENOTFOUND' : 'EPROTOCOL');
+};
+
+/**
+ * Create a transport for an account reached through a mail bridge
+ */
+export const createBridgeTransport = (
+    account: MailAccountRecord,
+    options: BridgeTransportOptions = {}
+): MailTransport => {
+    const fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    const baseUrl = account.bridgeUrl.trim().replace(/\/+$/, '');
+    let session: Promise<string> | null = null;
+
+    const call = async (method: string, path: string, body: unknown, token: string | null): Promise<Response> => {
+        try {
+            return await fetchImpl(`${baseUrl}${path}`, {
+                method,
+                headers: {
+                    ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                },
+                body: body !== undefined ? JSON.stringify(body) : undefined,
+            });
+        } catch {
+            throw createMailTransportError('ECONNECT', `Cannot reach the mail bridge at ${baseUrl}`);
+        }
+    };
+
+    const readJson = async <T>(response: Response, failureCode?: MailTransportErrorCode): Promise<T> => {
+        const text = await response.text();
+        let value: unknown = undefined;
+        try {
+            value = text ? JSON.parse(text) : undefined;
+        } catch {
+            if (response.ok) throw createMailTransportError('EPROTOCOL', 'The mail bridge sent an invalid response');
+        }
+        if (!response.ok) {
+            const message = (value as { error?: unknown } | undefined)?.error;
+            throw createMailTransportError(
+                errorCodeForStatus(response.status, failureCode),
+                typeof message === 'string' && message ? message : `Mail bridge error (HTTP ${response.status})`
+            );
+        }
+        return value as T;
+    };
+
+    const login = async (): Promise<string> => {
+        const response = await call(
+            'POST',
+            '/v1/session',
+            {
+                imap: { host: account.imapHost, port: account.imapPort, secure: account.secure },
+                smtp: { host: account.smtpHost, port: account.smtpPort, secure: account.secure },
+                username: account.username,
+                password: account.password,
+            },
+            null
+        );
+        const result = await readJson<{ token?: unknown } | undefined>(response);
+        if (typeof result?.token !== 'string') {
+            throw createMailTransportError('EPROTOCOL', 'The mail bridge did not start a session');
+        }
+        return result.token;
+    };
+
+    const getToken = (): Promise<string> => {
+        if (!session) {
+            session = login();
+            // Let the next request try again after a failed login
+            session.catch(() => {
+                session = null;
+            });
+        }
+        return session;
+    };
+
+    const request = async <T>(
+        method: string,
+        path: string,
+        body?: unknown,
+        failureCode?: MailTransportErrorCode
+    ): Promise<T> => {
+        let response = await call(method, path, body, await getToken());
+        if (response.status === 401) {
+            // The bridge forgot the session (restarted or expired): log in once more
+            session = null;
+            response = await call(method, path, body, await getToken());
+        }
+        return readJson<T>(response, failureCode);
+    };
+
+    const folderPath = (path: string) => `/v1/folders/${encodeURIComponent(path)}`;
+
+    return {
+        async listFolders() {
+            const result = await request<{ folders?: unknown }>('GET', '/v1/folders');
+            const folders = Array.isArray(result?.folders) ? result.folders : [];
+            return folders.map(toFolderInfo).filter((folder): folder is MailFolderInfo => folder !== null);
+        },
+
+        async fetchMessages(path, { sinceUid = 0 } = {}) {
+            const result = await request<Partial<Record<keyof FetchMessagesResult, unknown>>>(
+                'GET',
+                `${folderPath(path)}/messages?since=${sinceUid}`
+            );
+            if (typeof result?.uidValidity !== 'number' || !Array.isArray(result.messages)) {
+                throw createMailTransportError('EPROTOCOL', `The mail bridge sent an invalid listing of ${path}`);
+            }
+            const messages = result.messages
+                .map(toFetchedMessage)
+                .filter((message): message is FetchedMailMessage => message !== null && message.uid > sinceUid)
+                .sort((a, b) => a.uid - b.uid);
+            return { uidValidity: result.uidValidity, messages };
+        },
+
+        async setSeen(path, uids, seen) {
+            await request('POST', `${folderPath(path)}/flags`, { uids, seen });
+        },
+
+        async moveMessages(path, uids, toPath) {
+            await request('POST', `${folderPath(path)}/move`, { uids, to: toPath });
+        },
+
+        async deleteMessages(path, uids) {
+            await request('POST', `${folderPath(path)}/delete`, { uids });
+        },
+
+        async send(message) {
+            await request('POST', '/v1/send', message, 'ESEND');
+        },
+
+        watch(onChange) {
+            const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+            if (!WebSocketImpl) return () => {};
+
+            let socket: WebSocket | null = null;
+            let stopped = false;
+            getToken()
+                .then(token => {
+                    if (stopped) return;
+                    const url = `${baseUrl.replace(/^http/, 'ws')}/v1/events?token=${encodeURIComponent(token)}`;
+                    socket = new WebSocketImpl(url);
+                    socket.onmessage = event => {
+                        try {
+                            const data = JSON.parse(String(event.data)) as { type?: unknown; path?: unknown };
+                            if (data.type === 'changed' && typeof data.path === 'string') onChange(data.path);
+                        } catch {
+                            // Ignore messages that are not JSON
+                        }
+                    };
+                })
+                .catch(error => {
+                    if (!isMailTransportError(error)) console.error('[mail bridge] Failed to watch folders:', error);
+                });
+            return () => {
+                stopped = true;
+                socket?.close();
+            };
+        },
+
+        async close() {
+            const current = session;
+            session = null;
+            if (!current) return;
+            try {
+                await call('DELETE', '/v1/session', undefined, await current);
+            } catch {
+                // The session ends with the bridge anyway
+            }
+        },
+    };
+};
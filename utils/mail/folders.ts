@@ -0,0 +1,123 @@
+/**
+ * Folders created in Mail, labels and flags
+ *
+ * Custom folders are `custom:<uuid>` records in `emailFolders` and stay on this device's
+ * synced mail, not on a mail server: moving an account's message into one keeps its
+ * server copy where it was. Labels are kept on the messages as `EmailLabelRecord` ids,
+ * so a message can have several and keeps them when it is moved.
+ *
+ * @module utils/mail/folders
+ */
+import type { EmailFolderRecord, EmailLabelRecord, EmailRecord, MailFolderId, Windows15DexieDB } from '../storage/db';
+import { generateUuid } from '../uuid';
+
+export const CUSTOM_FOLDER_PREFIX = 'custom:';
+
+/** Colors offered for new labels */
+export const LABEL_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export const isCustomMailFolder = (folderId: MailFolderId): folderId is `custom:${string}` =>
+    folderId.startsWith(CUSTOM_FOLDER_PREFIX);
+
+/**
+ * Add a folder
+ */
+export async function createMailFolder(db: Windows15DexieDB, name: string): Promise<EmailFolderRecord> {
+    const now = Date.now();
+    const record: EmailFolderRecord = {
+        id: `${CUSTOM_FOLDER_PREFIX}${generateUuid()}`,
+        name: name.trim(),
+        type: 'custom',
+        createdAt: now,
+        updatedAt: now,
+    };
+    await db.emailFolders.add(record);
+    return record;
+}
+
+export async function renameMailFolder(db: Windows15DexieDB, folderId: MailFolderId, name: string): Promise<void> {
+    if (!isCustomMailFolder(folderId)) return;
+    await db.emailFolders.update(folderId, { name: name.trim(), updatedAt: Date.now() });
+}
+
+/**
+ * Delete a folder. Its messages go to Trash (restored to the Inbox from there), and rules
+ * stop moving messages into it.
+ */
+export async function deleteMailFolder(db: Windows15DexieDB, folderId: MailFolderId): Promise<void> {
+    if (!isCustomMailFolder(folderId)) return;
+    await db.transaction('rw', db.emailFolders, db.emails, db.emailRules, async () => {
+        const now = Date.now();
+        await db.emails
+            .where('folderId')
+            .equals(folderId)
+            .modify({ folderId: 'trash', trashedFrom: undefined, updatedAt: now });
+        await db.emailRules
+            .filter(rule => rule.actions.some(action => action.type === 'move' && action.folderId === folderId))
+            .modify(rule => {
+                rule.actions = rule.actions.filter(action => action.type !== 'move' || action.folderId !== folderId);
+                rule.updatedAt = now;
+            });
+        await db.emailFolders.delete(folderId);
+    });
+}
+
+/**
+ * Add a label
+ */
+export async function createMailLabel(
+    db: Windows15DexieDB,
+    name: string,
+    color = LABEL_COLORS[0] ?? '#3b82f6'
+): Promise<EmailLabelRecord> {
+    const now = Date.now();
+    const record: EmailLabelRecord = { id: generateUuid(), name: name.trim(), color, createdAt: now, updatedAt: now };
+    await db.emailLabels.add(record);
+    return record;
+}
+
+/**
+ * Delete a label, taking it off its messages and out of rules
+ */
+export async function deleteMailLabel(db: Windows15DexieDB, labelId: string): Promise<void> {
+    await db.transaction('rw', db.emailLabels, db.emails, db.emailRules, async () => {
+        const now = Date.now();
+        await db.emails
+            .where('labels')
+            .equals(labelId)
+            .modify(email => {
+                email.labels = email.labels?.filter(id => id !== labelId);
+                email.updatedAt = now;
+            });
+        await db.emailRules
+            .filter(rule => rule.actions.some(action => action.type === 'label' && action.labelId === labelId))
+            .modify(rule => {
+                rule.actions = rule.actions.filter(action => action.type !== 'label' || action.labelId !== labelId);
+                rule.updatedAt = now;
+            });
+        await db.emailLabels.delete(labelId);
+    });
+}
+
+/**
+ * Put a label on a message, or take it off
+ */
+export async function setEmailLabel(
+    db: Windows15DexieDB,
+    email: EmailRecord,
+    labelId: string,
+    hasLabel: boolean
+): Promise<void> {
+    const others = (email.labels ?? []).filter(id => id !== labelId);
+    await db.emails.update(email.id, {
+        labels: hasLabel ? [...others, labelId] : others,
+        updatedAt: Date.now(),
+    });
+}
+
+/**
+ * Flag a message for follow-up, or clear its flag
+ */
+export async function setEmailFlagged(db: Windows15DexieDB, email: EmailRecord, isFlagged: boolean): Promise<void> {
+    await db.emails.update(email.id, { isFlagged, updatedAt: Date.now() });
+}
@@ -0,0 +1,13 @@
+/**
+ * Mail accounts, transports, sync, folders, rules and message files barrel exports
+ */
+export * from './transport';
+export * from './bridgeTransport';
+export * from './registry';
+export * from './accounts';
+export * from './threading';
+export * from './folders';
+export * from './rules';
+export * from './sync';
+export * from './messageFiles';
+export * from './sanitizeHtml';
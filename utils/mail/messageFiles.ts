@@ -0,0 +1,203 @@
+/**
+ * Messages as MIME files: importing .eml and .mbox files into the `emails` table,
+ * exporting messages back, and saving attachments into the file system
+ *
+ * Attachment files are kept in the local-only `$emailAttachments` table; the message
+ * only carries their metadata, so other devices list them without the files.
+ *
+ * @module utils/mail/messageFiles
+ *
+ * @example
+ * ```ts
+ * const added = await importMailFile(db, await vfs.readFileBytes(path), 'mbox', 'inbox');
+ * const mbox = await exportEmailsToMbox(db, added);
+ * await saveAttachmentToFiles(db, email.attachments[0]);
+ * ```
+ */
+import { parseMailMessage, serializeMailMessage, serializeMbox, splitMbox, type MailMessage } from '../mime';
+import type {
+    EmailAttachmentInfo,
+    EmailAttachmentRecord,
+    EmailRecord,
+    MailFolderId,
+    Windows15DexieDB,
+} from '../storage/db';
+import { generateUuid } from '../uuid';
+import { extname, joinPath, vfs } from '../vfs';
+import { htmlToPlainText } from './sanitizeHtml';
+import { resolveThreadId } from './threading';
+
+export type MailFileFormat = 'eml' | 'mbox';
+
+/** Where attachments are saved */
+export const ATTACHMENTS_FOLDER = '/Documents/Mail Attachments';
+
+/**
+ * The format of a mail file by its extension, or null for other files
+ */
+export const getMailFileFormat = (fileName: string): MailFileFormat | null => {
+    const extension = extname(fileName);
+    if (extension === 'eml') return 'eml';
+    if (extension === 'mbox' || extension === 'mbx') return 'mbox';
+    return null;
+};
+
+/**
+ * Import the messages of a file into a folder, threaded with the messages already
+ * stored. Messages already in the folder (by Message-ID) are skipped. Imported
+ * messages are marked read.
+ *
+ * @returns The messages added
+ * @throws {MimeError} EPARSE if the file cannot be read as messages of its format
+ */
+export async function importMailFile(
+    db: Windows15DexieDB,
+    source: string | Uint8Array,
+    format: MailFileFormat,
+    folderId: MailFolderId
+): Promise<EmailRecord[]> {
+    const messages = (format === 'mbox' ? splitMbox(source) : [source]).map(message => parseMailMessage(message));
+
+    return db.transaction('rw', db.emails, db.$emailAttachments, async () => {
+        const inFolder = await db.emails.where('folderId').equals(folderId).toArray();
+        const known = new Set(inFolder.flatMap(email => (email.messageId ? [email.messageId] : [])));
+        const added: EmailRecord[] = [];
+
+        for (const message of messages) {
+            if (message.messageId && known.has(message.messageId)) continue;
+            if (message.messageId) known.add(message.messageId);
+
+            const now = Date.now();
+            const files = message.attachments.map(attachment => ({
+                info: {
+                    id: generateUuid(),
+                    filename: attachment.filename,
+                    mimeType: attachment.mimeType,
+                    size: attachment.content.length,
+                    ...(attachment.contentId ? { contentId: attachment.contentId } : {}),
+                    ...(attachment.inline ? { inline: true } : {}),
+                } satisfies EmailAttachmentInfo,
+                blob: new Blob([attachment.content as Uint8Array<ArrayBuffer>], { type: attachment.mimeType }),
+            }));
+            const headers = {
+                messageId: message.messageId,
+                inReplyTo: message.inReplyTo,
+                references: message.references.length > 0 ? message.references : undefined,
+            };
+            const record = {
+                folderId,
+                from: message.from,
+                to: [...message.to, ...message.cc],
+                subject: message.subject,
+                body: message.text || (message.html ? htmlToPlainText(message.html) : ''),
+                date: message.date ?? now,
+                isRead: true,
+                ...(headers.messageId ? { messageId: headers.messageId } : {}),
+                ...(headers.inReplyTo ? { inReplyTo: headers.inReplyTo } : {}),
+                ...(headers.references ? { references: headers.references } : {}),
+                threadId: await resolveThreadId(db, headers),
+                ...(message.html ? { html: message.html } : {}),
+                ...(files.length > 0 ? { attachments: files.map(file => file.info) } : {}),
+                createdAt: now,
+                updatedAt: now,
+            } as EmailRecord;
+            // Dexie Cloud generates the ID
+            const id = await db.emails.add(record);
+            await db.$emailAttachments.bulkAdd(
+                files.map(
+                    (file): EmailAttachmentRecord => ({
+                        id: file.info.id,
+                        emailId: id,
+                        blob: file.blob,
+                        createdAt: now,
+                    })
+                )
+            );
+            added.push({ ...record, id });
+        }
+        return added;
+    });
+}
+
+/**
+ * A stored message with its attachments, ready to be written as MIME. Attachments
+ * whose files are not on this device are left out.
+ */
+export async function emailToMailMessage(db: Windows15DexieDB, email: EmailRecord): Promise<MailMessage> {
+    const files = await db.$emailAttachments.where('emailId').equals(email.id).toArray();
+    const blobs = new Map(files.map(file => [file.id, file.blob]));
+    const attachments = await Promise.all(
+        (email.attachments ?? []).flatMap(info => {
+            const blob = blobs.get(info.id);
+            if (!blob) return [];
+            return [
+                blob.arrayBuffer().then(buffer => ({
+                    filename: info.filename,
+                    mimeType: info.mimeType,
+                    content: new Uint8Array(buffer),
+                    ...(info.contentId ? { contentId: info.contentId } : {}),
+                    inline: info.inline === true,
+                })),
+            ];
+        })
+    );
+
+    return {
+        messageId: email.messageId,
+        inReplyTo: email.inReplyTo,
+        references: email.references ?? [],
+        from: email.from,
+        to: email.to,
+        cc: [],
+        subject: email.subject,
+        date: email.date,
+        text: email.body,
+        ...(email.html ? { html: email.html } : {}),
+        attachments,
+    };
+}
+
+/**
+ * A message as an .eml file
+ */
+export const exportEmailToEml = async (db: Windows15DexieDB, email: EmailRecord): Promise<string> =>
+    serializeMailMessage(await emailToMailMessage(db, email));
+
+/**
+ * Messages as an .mbox file, oldest first
+ */
+export async function exportEmailsToMbox(db: Windows15DexieDB, emails: EmailRecord[]): Promise<string> {
+    const sorted = [...emails].sort((a, b) => a.date - b.date);
+    const entries = await Promise.all(
+        sorted.map(async email => ({
+            source: serializeMailMessage(await emailToMailMessage(db, email)),
+            sender: email.from,
+            date: email.date,
+        }))
+    );
+    return serializeMbox(entries);
+}
+
+/**
+ * The file of an attachment, or null if it is not on this device
+ */
+export const getAttachmentBlob = async (db: Windows15DexieDB, attachmentId: string): Promise<Blob | null> =>
+    (await db.$emailAttachments.get(attachmentId))?.blob ?? null;
+
+/**
+ * Save an attachment into the file system, next to any file of the same name
+ *
+ * @returns The path of the saved file, or null if the file is not on this device
+ */
+export async function saveAttachmentToFiles(
+    db: Windows15DexieDB,
+    attachment: EmailAttachmentInfo,
+    folder = ATTACHMENTS_FOLDER
+): Promise<string | null> {
+    const blob = await getAttachmentBlob(db, attachment.id);
+    if (!blob) return null;
+    const name = attachment.filename.replace(/[\\/:*?"<>|]/g, '_').trim() || 'attachment';
+    const path = await vfs.getAvailablePath(joinPath(folder, name));
+    const saved = await vfs.writeFile(path, blob, { recursive: true, mimeType: attachment.mimeType });
+    return saved.path;
+}
@@ -0,0 +1,41 @@
+/**
+ * Mail transport registry
+ *
+ * Transports are created per account from a factory keyed by `MailAccountRecord.transport`,
+ * so other back ends can be plugged in next to the bridge transport.
+ *
+ * @module utils/mail/registry
+ *
+ * @example
+ * ```ts
+ * const transport = createMailTransport(account);
+ * const folders = await transport.listFolders();
+ * const { uidValidity, messages } = await transport.fetchMessages('INBOX', { sinceUid: 120 });
+ * await transport.close();
+ * ```
+ */
+import type { MailAccountRecord } from '../storage/db';
+import { createBridgeTransport } from './bridgeTransport';
+import { createMailTransportError, type MailTransport, type MailTransportFactory } from './transport';
+
+const transportFactories = new Map<string, MailTransportFactory>([
+    ['bridge', account => createBridgeTransport(account)],
+]);
+
+/**
+ * Register the factory for a `MailAccountRecord.transport` kind, replacing any registered before
+ */
+export const registerMailTransport = (kind: MailAccountRecord['transport'], factory: MailTransportFactory): void => {
+    transportFactories.set(kind, factory);
+};
+
+/**
+ * Create a transport for an account
+ *
+ * @throws {MailTransportError} ETRANSPORT if no factory is registered for the account's transport
+ */
+export const createMailTransport = (account: MailAccountRecord): MailTransport => {
+    const factory = transportFactories.get(account.transport);
+    if (!factory) throw createMailTransportError('ETRANSPORT', `No mail transport for "${account.transport}"`);
+    return factory(account);
+};
@@ -0,0 +1,229 @@
+/**
+ * Mail rules: actions run on messages that match a rule's conditions
+ *
+ * Rules run in their `order` on new Inbox messages as an account syncs them, and on a
+ * whole folder when asked. Conditions compare the sender, recipients, subject or body
+ * case-insensitively; a rule without conditions matches nothing. Actions move, mark read,
+ * flag, label or notify; moves and read flags go to the server for account messages.
+ *
+ * @module utils/mail/rules
+ *
+ * @example
+ * ```ts
+ * await saveMailRule(db, {
+ *     name: 'Newsletters',
+ *     enabled: true,
+ *     match: 'any',
+ *     conditions: [{ field: 'from', operator: 'contains', value: 'news@' }],
+ *     actions: [{ type: 'move', folderId }, { type: 'markRead' }],
+ *     stopProcessing: false,
+ * });
+ * const { matched } = await runMailRules(db, 'inbox', { getRemote });
+ * ```
+ */
+import type {
+    EmailRecord,
+    MailFolderId,
+    MailRuleAction,
+    MailRuleCondition,
+    MailRuleRecord,
+    Windows15DexieDB,
+} from '../storage/db';
+import { generateUuid } from '../uuid';
+import { getRemoteFolderId, isRemoteMailFolder, isSystemMailFolder } from './accounts';
+import { setEmailFlagged, setEmailLabel } from './folders';
+import { moveEmail, setEmailRead, type MailRemote } from './sync';
+
+/**
+ * Rule settings edited in Settings
+ */
+export type MailRuleInput = Pick<
+    MailRuleRecord,
+    'name' | 'enabled' | 'match' | 'conditions' | 'actions' | 'stopProcessing'
+>;
+
+export interface ApplyMailRulesOptions {
+    /** Rules to run, in order; every enabled rule by default */
+    rules?: MailRuleRecord[];
+    /** The open transport of an account, for changes that go to its server */
+    getRemote?: (accountId: string | undefined) => MailRemote | null;
+    /** Called for each message a rule with a notify action matched */
+    onNotify?: (email: EmailRecord, rule: MailRuleRecord) => void;
+}
+
+export interface MailRulesResult {
+    /** The messages as they are after the rules ran */
+    emails: EmailRecord[];
+    /** Messages that matched at least one rule */
+    matched: number;
+}
+
+const matchesText = (text: string, { operator, value }: MailRuleCondition): boolean => {
+    const haystack = text.toLowerCase();
+    const needle = value.trim().toLowerCase();
+    switch (operator) {
+        case 'contains':
+        case 'notContains':
+            return haystack.includes(needle);
+        case 'equals':
+            return haystack.trim() === needle;
+        case 'startsWith':
+            return haystack.trimStart().startsWith(needle);
+        case 'endsWith':
+            return haystack.trimEnd().endsWith(needle);
+    }
+};
+
+const matchesCondition = (email: EmailRecord, condition: MailRuleCondition): boolean => {
+    const values =
+        condition.field === 'to'
+            ? email.to
+            : [condition.field === 'from' ? email.from : condition.field === 'subject' ? email.subject : email.body];
+    // "Does not contain" must hold for every recipient, the others for any of them
+    return condition.operator === 'notContains'
+        ? !values.some(value => matchesText(value, condition))
+        : values.some(value => matchesText(value, condition));
+};
+
+/**
+ * Whether a message matches a rule's conditions
+ */
+export const matchesMailRule = (rule: Pick<MailRuleRecord, 'match' | 'conditions'>, email: EmailRecord): boolean => {
+    if (rule.conditions.length === 0) return false;
+    return rule.match === 'all'
+        ? rule.conditions.every(condition => matchesCondition(email, condition))
+        : rule.conditions.some(condition => matchesCondition(email, condition));
+};
+
+/**
+ * Enabled rules, in the order they run
+ */
+export const getEnabledMailRules = async (db: Windows15DexieDB): Promise<MailRuleRecord[]> =>
+    (await db.emailRules.orderBy('order').toArray()).filter(rule => rule.enabled);
+
+/**
+ * Whether a message can be moved to a folder: the folder exists, and server folders
+ * belong to the message's account
+ */
+async function canMoveTo(db: Windows15DexieDB, email: EmailRecord, folderId: MailFolderId): Promise<boolean> {
+    if (folderId === email.folderId) return false;
+    if (isSystemMailFolder(folderId)) return true;
+    if (isRemoteMailFolder(folderId) && !folderId.startsWith(getRemoteFolderId(email.accountId ?? '', ''))) {
+        return false;
+    }
+    return (await db.emailFolders.get(folderId)) !== undefined;
+}
+
+async function runAction(
+    db: Windows15DexieDB,
+    email: EmailRecord,
+    action: MailRuleAction,
+    remote: MailRemote | null
+): Promise<EmailRecord> {
+    switch (action.type) {
+        case 'move':
+            if (!(await canMoveTo(db, email, action.folderId))) return email;
+            await moveEmail(db, email, action.folderId, remote);
+            break;
+        case 'markRead':
+            if (email.isRead) return email;
+            await setEmailRead(db, email, true, remote);
+            break;
+        case 'flag':
+            if (email.isFlagged) return email;
+            await setEmailFlagged(db, email, true);
+            break;
+        case 'label':
+            if (email.labels?.includes(action.labelId)) return email;
+            await setEmailLabel(db, email, action.labelId, true);
+            break;
+        case 'notify':
+            return email;
+    }
+    return (await db.emails.get(email.id)) ?? email;
+}
+
+/**
+ * Run rules on messages
+ *
+ * @throws {MailTransportError} If a server does not accept a move or read flag
+ */
+export async function applyMailRules(
+    db: Windows15DexieDB,
+    emails: EmailRecord[],
+    options: ApplyMailRulesOptions = {}
+): Promise<MailRulesResult> {
+    const rules = options.rules ?? (await getEnabledMailRules(db));
+    const result: MailRulesResult = { emails: [], matched: 0 };
+
+    for (const original of emails) {
+        let email = original;
+        let matched = false;
+        for (const rule of rules) {
+            if (!matchesMailRule(rule, email)) continue;
+            matched = true;
+            const remote = options.getRemote?.(email.accountId) ?? null;
+            for (const action of rule.actions) {
+                if (action.type === 'notify') options.onNotify?.(email, rule);
+                email = await runAction(db, email, action, remote);
+            }
+            if (rule.stopProcessing) break;
+        }
+        if (matched) result.matched++;
+        result.emails.push(email);
+    }
+    return result;
+}
+
+/**
+ * Run the enabled rules on every message of a folder
+ *
+ * @throws {MailTransportError} If a server does not accept a move or read flag
+ */
+export async function runMailRules(
+    db: Windows15DexieDB,
+    folderId: MailFolderId,
+    options: ApplyMailRulesOptions = {}
+): Promise<MailRulesResult> {
+    const emails = await db.emails.where('folderId').equals(folderId).sortBy('date');
+    return applyMailRules(db, emails, options);
+}
+
+/**
+ * Add a rule, run after the existing ones, or update one
+ */
+export async function saveMailRule(db: Windows15DexieDB, input: MailRuleInput, id?: string): Promise<MailRuleRecord> {
+    const now = Date.now();
+    const existing = id ? await db.emailRules.get(id) : undefined;
+    const last = existing ? undefined : await db.emailRules.orderBy('order').last();
+    const record: MailRuleRecord = {
+        ...input,
+        name: input.name.trim(),
+        id: existing?.id ?? generateUuid(),
+        order: existing?.order ?? (last ? last.order + 1 : 0),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+    };
+    await db.emailRules.put(record);
+    return record;
+}
+
+/**
+ * Swap a rule with the one before (-1) or after (1) it
+ */
+export async function moveMailRule(db: Windows15DexieDB, id: string, direction: -1 | 1): Promise<void> {
+    await db.transaction('rw', db.emailRules, async () => {
+        const rules = await db.emailRules.orderBy('order').toArray();
+        const index = rules.findIndex(rule => rule.id === id);
+        const rule = rules[index];
+        const other = rules[index + direction];
+        if (!rule || !other) return;
+        const now = Date.now();
+        await db.emailRules.update(rule.id, { order: other.order, updatedAt: now });
+        await db.emailRules.update(other.id, { order: rule.order, updatedAt: now });
+    });
+}
+
+export async function deleteMailRule(db: Windows15DexieDB, id: string): Promise<void> {
+    await db.emailRules.delete(id);
+}
@@ -0,0 +1,246 @@
+/**
+ * Sanitizing the HTML bodies of messages before they are shown
+ *
+ * Only an allowlist of formatting elements and attributes is kept. Scripts, forms,
+ * frames and event handlers are removed, links open in a new window, and `cid:`
+ * images are pointed at the message's inline attachments. Remote images and CSS
+ * `url()`s are blocked unless allowed, as senders use them to track reading.
+ *
+ * The result is shown in a sandboxed frame without scripts (see `buildEmailDocument`),
+ * so a sanitizer gap still cannot run code in the desktop.
+ *
+ * @module utils/mail/sanitizeHtml
+ */
+
+export interface SanitizeEmailHtmlOptions {
+    /** Object URLs of inline attachments by Content-ID */
+    cidUrls?: Record<string, string>;
+    /** Load images from the web */
+    allowRemoteImages?: boolean;
+}
+
+export interface SanitizedEmailHtml {
+    /** Sanitized body markup */
+    html: string;
+    /** Remote images that were blocked */
+    blockedImages: number;
+}
+
+/** Elements removed together with their content */
+const DROPPED_ELEMENTS = new Set([
+    'script',
+    'noscript',
+    'template',
+    'iframe',
+    'frame',
+    'frameset',
+    'object',
+    'embed',
+    'applet',
+    'form',
+    'input',
+    'button',
+    'select',
+    'textarea',
+    'option',
+    'link',
+    'meta',
+    'base',
+    'title',
+    'svg',
+    'math',
+    'audio',
+    'video',
+    'source',
+    'track',
+    'canvas',
+    'dialog',
+]);
+
+/** Elements kept; others are replaced by their content */
+const ALLOWED_ELEMENTS = new Set([
+    'a',
+    'abbr',
+    'address',
+    'b',
+    'blockquote',
+    'br',
+    'caption',
+    'center',
+    'cite',
+    'code',
+    'col',
+    'colgroup',
+    'dd',
+    'del',
+    'div',
+    'dl',
+    'dt',
+    'em',
+    'font',
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'h5',
+    'h6',
+    'hr',
+    'i',
+    'img',
+    'ins',
+    'kbd',
+    'li',
+    'mark',
+    'ol',
+    'p',
+    'pre',
+    'q',
+    's',
+    'small',
+    'span',
+    'strike',
+    'strong',
+    'style',
+    'sub',
+    'sup',
+    'table',
+    'tbody',
+    'td',
+    'tfoot',
+    'th',
+    'thead',
+    'tr',
+    'u',
+    'ul',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+    'align',
+    'alt',
+    'bgcolor',
+    'border',
+    'cellpadding',
+    'cellspacing',
+    'color',
+    'colspan',
+    'dir',
+    'face',
+    'height',
+    'href',
+    'lang',
+    'rowspan',
+    'size',
+    'src',
+    'style',
+    'title',
+    'valign',
+    'width',
+]);
+
+const isRemoteUrl = (value: string) => /^(?:https?:)?\/\//i.test(value.trim());
+
+/**
+ * Make CSS safe to show: no imports, no scripted expressions, and no `url()`
+ * except inline data images (and remote images when allowed)
+ */
+const sanitizeCss = (css: string, allowRemoteImages: boolean, onBlocked: () => void): string =>
+    css
+        .replace(/@import[^;]*;?/gi, '')
+        .replace(/expression\s*\(|behavior\s*:|-moz-binding/gi, 'blocked(')
+        .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote: string, url: string) => {
+            if (/^data:image\//i.test(url)) return match;
+            if (allowRemoteImages && /^https?:/i.test(url)) return match;
+            if (isRemoteUrl(url)) onBlocked();
+            return 'none';
+        });
+
+/**
+ * Sanitize the HTML body of a message
+ */
+export const sanitizeEmailHtml = (html: string, options: SanitizeEmailHtmlOptions = {}): SanitizedEmailHtml => {
+    const { cidUrls = {}, allowRemoteImages = false } = options;
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    let blockedImages = 0;
+    const onBlocked = () => {
+        blockedImages++;
+    };
+
+    const clean = (element: Element) => {
+        for (const child of Array.from(element.children)) {
+            const tag = child.tagName.toLowerCase();
+            if (DROPPED_ELEMENTS.has(tag)) {
+                child.remove();
+                continue;
+            }
+            clean(child);
+            if (!ALLOWED_ELEMENTS.has(tag)) {
+                child.replaceWith(...Array.from(child.childNodes));
+                continue;
+            }
+            if (tag === 'style') {
+                child.textContent = sanitizeCss(child.textContent ?? '', allowRemoteImages, onBlocked);
+                continue;
+            }
+
+            for (const attribute of Array.from(child.attributes)) {
+                const name = attribute.name.toLowerCase();
+                const value = attribute.value.trim();
+                if (!ALLOWED_ATTRIBUTES.has(name)) {
+                    child.removeAttribute(attribute.name);
+                } else if (name === 'style') {
+                    child.setAttribute('style', sanitizeCss(value, allowRemoteImages, onBlocked));
+                } else if (name === 'href' && !/^(?:https?:|mailto:|#)/i.test(value)) {
+                    child.removeAttribute(attribute.name);
+                } else if (name === 'src') {
+                    const cid = /^cid:(.+)$/i.exec(value)?.[1]?.replace(/^<|>$/g, '');
+                    if (cid !== undefined) {
+                        const url = cidUrls[cid];
+                        if (url) child.setAttribute('src', url);
+                        else child.removeAttribute('src');
+                    } else if (isRemoteUrl(value) && !allowRemoteImages) {
+                        child.removeAttribute('src');
+                        blockedImages++;
+                    } else if (!/^data:image\//i.test(value) && !isRemoteUrl(value)) {
+                        child.removeAttribute('src');
+                    }
+                }
+            }
+            if (tag === 'a' && child.hasAttribute('href')) {
+                child.setAttribute('target', '_blank');
+                child.setAttribute('rel', 'noopener noreferrer');
+            }
+        }
+    };
+
+    const styles = Array.from(doc.head.querySelectorAll('style'));
+    const container = doc.createElement('div');
+    styles.forEach(style => container.appendChild(style));
+    container.append(...Array.from(doc.body.childNodes));
+    clean(container);
+    return { html: container.innerHTML, blockedImages };
+};
+
+/**
+ * A standalone document for a sanitized body, for the `srcDoc` of a sandboxed frame.
+ * Its Content-Security-Policy blocks scripts and everything but images and inline styles.
+ */
+export const buildEmailDocument = (sanitizedHtml: string): string =>
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    '<meta http-equiv="Content-Security-Policy" content="default-src \'none\'; img-src data: blob: https: http:; style-src \'unsafe-inline\'">' +
+    '<style>body{margin:0;padding:16px;font:14px/1.5 system-ui,sans-serif;color:#111;background:#fff;word-wrap:break-word}img{max-width:100%;height:auto}</style>' +
+    `</head><body>${sanitizedHtml}</body></html>`;
+
+/**
+ * Plain text of an HTML body, for previews, search and replies
+ */
+export const htmlToPlainText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style, head').forEach(element => element.remove());
+    doc.querySelectorAll('br').forEach(element => element.replaceWith('\n'));
+    doc.querySelectorAll('p, div, tr, li, h1, h2, h3, h4, h5, h6, blockquote').forEach(element => element.append('\n'));
+    return (doc.body.textContent ?? '')
+        .replace(/[ \t\u00a0]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
@@ -0,0 +1,297 @@
+/**
+ * Syncing mail accounts into the `emails` table, and applying changes to server copies
+ *
+ * Sync is IMAP-style: each server folder keeps its UIDVALIDITY and the highest UID
+ * fetched, and only newer messages are fetched next time. Messages moved or sent here
+ * lose their UID until the server reports them again in their new folder, where they
+ * are matched up by Message-ID instead of being added twice.
+ *
+ * @module utils/mail/sync
+ *
+ * @example
+ * ```ts
+ * const transport = createMailTransport(account);
+ * const { added } = await syncMailAccount(db, account, transport);
+ * await moveEmail(db, email, 'trash', { account, transport });
+ * ```
+ */
+import type {
+    EmailRecord,
+    MailAccountRecord,
+    MailFolderId,
+    MailRuleRecord,
+    SystemMailFolderId,
+    Windows15DexieDB,
+} from '../storage/db';
+import { getRemoteFolderId, getRemotePath, SYSTEM_MAIL_FOLDERS } from './accounts';
+import { applyMailRules } from './rules';
+import { normalizeMessageId, resolveThreadId } from './threading';
+import type { FetchedMailMessage, MailFolderInfo, MailTransport } from './transport';
+
+/**
+ * An account with its open transport, for changes that go to the server
+ */
+export interface MailRemote {
+    account: MailAccountRecord;
+    transport: MailTransport;
+}
+
+export interface MailSyncOptions {
+    /** Called for each new message a rule with a notify action matched */
+    onNotify?: (email: EmailRecord, rule: MailRuleRecord) => void;
+}
+
+export interface MailSyncResult {
+    /** Messages added to the `emails` table */
+    added: number;
+    /** Of those, unread ones in the Inbox */
+    unread: number;
+}
+
+const findSpecialFolders = (folders: MailFolderInfo[]): Partial<Record<SystemMailFolderId, string>> => {
+    const special: Partial<Record<SystemMailFolderId, string>> = {};
+    for (const folder of folders) {
+        const use = folder.specialUse;
+        if (use && SYSTEM_MAIL_FOLDERS.includes(use as SystemMailFolderId) && !special[use as SystemMailFolderId]) {
+            special[use as SystemMailFolderId] = folder.path;
+        }
+    }
+    // IMAP names the inbox INBOX even without a special-use flag
+    special.inbox ??= folders.find(folder => folder.path.toUpperCase() === 'INBOX')?.path;
+    return special;
+};
+
+/**
+ * Store the folder records of an account's non-system server folders, dropping
+ * folders (and their messages) that are gone from the server
+ */
+async function syncFolderRecords(
+    db: Windows15DexieDB,
+    account: MailAccountRecord,
+    folders: MailFolderInfo[],
+    specialPaths: Set<string>
+): Promise<void> {
+    const now = Date.now();
+    const remoteFolders = folders.filter(folder => !specialPaths.has(folder.path));
+    const keepIds = new Set(remoteFolders.map(folder => getRemoteFolderId(account.id, folder.path)));
+
+    await db.transaction('rw', db.emailFolders, db.emails, async () => {
+        const stored = await db.emailFolders.where('accountId').equals(account.id).toArray();
+        const storedById = new Map(stored.map(folder => [folder.id, folder]));
+        const gone = stored.filter(folder => !keepIds.has(folder.id)).map(folder => folder.id);
+        if (gone.length > 0) {
+            await db.emails.where('folderId').anyOf(gone).delete();
+            await db.emailFolders.bulkDelete(gone);
+        }
+        await db.emailFolders.bulkPut(
+            remoteFolders
+                .filter(folder => storedById.get(getRemoteFolderId(account.id, folder.path))?.name !== folder.name)
+                .map(folder => {
+                    const id = getRemoteFolderId(account.id, folder.path);
+                    return {
+                        id,
+                        name: folder.name,
+                        type: 'remote' as const,
+                        accountId: account.id,
+                        path: folder.path,
+                        createdAt: storedById.get(id)?.createdAt ?? now,
+                        updatedAt: now,
+                    };
+                })
+        );
+    });
+}
+
+/**
+ * Add fetched messages to a folder, skipping ones already stored
+ * @returns The messages added
+ */
+async function storeFetchedMessages(
+    db: Windows15DexieDB,
+    account: MailAccountRecord,
+    path: string,
+    folderId: MailFolderId,
+    messages: FetchedMailMessage[]
+): Promise<EmailRecord[]> {
+    return db.transaction('rw', db.emails, async () => {
+        const stored = await db.emails.where('[accountId+remotePath]').equals([account.id, path]).toArray();
+        const knownUids = new Set(stored.flatMap(email => (email.remoteUid !== undefined ? [email.remoteUid] : [])));
+        const awaitingUid = new Map(
+            stored.flatMap(email =>
+                email.remoteUid === undefined && email.messageId ? [[email.messageId, email] as const] : []
+            )
+        );
+
+        const added: EmailRecord[] = [];
+        for (const message of messages) {
+            if (knownUids.has(message.uid)) continue;
+            const messageId = normalizeMessageId(message.messageId);
+            const moved = messageId ? awaitingUid.get(messageId) : undefined;
+            if (moved) {
+                awaitingUid.delete(moved.messageId ?? '');
+                await db.emails.update(moved.id, { remoteUid: message.uid, updatedAt: Date.now() });
+                continue;
+            }
+
+            const headers = {
+                messageId,
+                inReplyTo: normalizeMessageId(message.inReplyTo),
+                references: message.references?.flatMap(id => normalizeMessageId(id) ?? []),
+            };
+            const now = Date.now();
+            const record = {
+                folderId,
+                from: message.from,
+                to: message.to,
+                subject: message.subject,
+                body: message.body,
+                date: message.date,
+                isRead: message.seen,
+                ...(headers.messageId ? { messageId: headers.messageId } : {}),
+                ...(headers.inReplyTo ? { inReplyTo: headers.inReplyTo } : {}),
+                ...(headers.references?.length ? { references: headers.references } : {}),
+                threadId: await resolveThreadId(db, headers),
+                accountId: account.id,
+                remotePath: path,
+                remoteUid: message.uid,
+                createdAt: now,
+                updatedAt: now,
+            } as EmailRecord;
+            // Dexie Cloud generates the ID
+            const id = await db.emails.add(record);
+            added.push({ ...record, id });
+        }
+        return added;
+    });
+}
+
+/**
+ * Fetch an account's folders and new messages, and run the mail rules on new Inbox
+ * messages. The account's sync state, or the error that stopped the sync, is saved
+ * on its record.
+ *
+ * @throws {MailTransportError} If the server cannot be reached or refuses a request
+ */
+export async function syncMailAccount(
+    db: Windows15DexieDB,
+    account: MailAccountRecord,
+    transport: MailTransport,
+    options: MailSyncOptions = {}
+): Promise<MailSyncResult> {
+    try {
+        const folders = await transport.listFolders();
+        const specialFolders = findSpecialFolders(folders);
+        const folderIdByPath = new Map<string, MailFolderId>(
+            Object.entries(specialFolders).map(([folderId, path]) => [path, folderId as SystemMailFolderId])
+        );
+        await syncFolderRecords(db, account, folders, new Set(folderIdByPath.keys()));
+
+        const syncState: NonNullable<MailAccountRecord['syncState']> = {};
+        const result: MailSyncResult = { added: 0, unread: 0 };
+        for (const folder of folders) {
+            const folderId = folderIdByPath.get(folder.path) ?? getRemoteFolderId(account.id, folder.path);
+            const previous = account.syncState?.[folder.path];
+            let fetched = await transport.fetchMessages(folder.path, { sinceUid: previous?.lastUid ?? 0 });
+            if (previous && fetched.uidValidity !== previous.uidValidity) {
+                // UIDs were reassigned: forget the old ones and match everything up again
+                await db.emails
+                    .where('[accountId+remotePath]')
+                    .equals([account.id, folder.path])
+                    .modify({ remoteUid: undefined });
+                fetched = await transport.fetchMessages(folder.path);
+            }
+
+            let added = await storeFetchedMessages(db, account, folder.path, folderId, fetched.messages);
+            if (folderId === 'inbox' && added.length > 0) {
+                const remote = { account, transport };
+                ({ emails: added } = await applyMailRules(db, added, {
+                    getRemote: accountId => (accountId === account.id ? remote : null),
+                    onNotify: options.onNotify,
+                }));
+            }
+            result.added += added.length;
+            result.unread += added.filter(email => !email.isRead && email.folderId === 'inbox').length;
+
+            const sameValidity = previous?.uidValidity === fetched.uidValidity;
+            syncState[folder.path] = {
+                uidValidity: fetched.uidValidity,
+                lastUid: Math.max(sameValidity ? previous.lastUid : 0, ...fetched.messages.map(message => message.uid)),
+            };
+        }
+
+        await db.$mailAccounts.update(account.id, {
+            specialFolders,
+            syncState,
+            lastSyncedAt: Date.now(),
+            lastError: undefined,
+        });
+        return result;
+    } catch (error) {
+        await db.$mailAccounts.update(account.id, {
+            lastError: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+    }
+}
+
+const getServerCopy = (email: EmailRecord, remote?: MailRemote | null) =>
+    remote && email.accountId === remote.account.id && email.remotePath && email.remoteUid !== undefined
+        ? { path: email.remotePath, uid: email.remoteUid }
+        : null;
+
+/**
+ * Mark a message read or unread, on the server too for account messages
+ */
+export async function setEmailRead(
+    db: Windows15DexieDB,
+    email: EmailRecord,
+    isRead: boolean,
+    remote?: MailRemote | null
+): Promise<void> {
+    const copy = getServerCopy(email, remote);
+    if (copy && remote) await remote.transport.setSeen(copy.path, [copy.uid], isRead);
+    await db.emails.update(email.id, { isRead, updatedAt: Date.now() });
+}
+
+/**
+ * Move a message to another folder, on the server too when the server has that folder.
+ * Moving to Trash remembers where the message came from.
+ */
+export async function moveEmail(
+    db: Windows15DexieDB,
+    email: EmailRecord,
+    folderId: MailFolderId,
+    remote?: MailRemote | null
+): Promise<void> {
+    const copy = getServerCopy(email, remote);
+    const toPath = remote ? getRemotePath(remote.account, folderId) : undefined;
+    const movesOnServer = copy && remote && toPath && toPath !== copy.path;
+    if (movesOnServer) await remote.transport.moveMessages(copy.path, [copy.uid], toPath);
+
+    await db.emails.update(email.id, {
+        folderId,
+        trashedFrom: folderId === 'trash' ? email.folderId : undefined,
+        ...(movesOnServer ? { remotePath: toPath, remoteUid: undefined } : {}),
+        updatedAt: Date.now(),
+    });
+}
+
+/**
+ * Delete a message for good with its attachment files, on the server too for account messages
+ */
+export async function deleteEmail(db: Windows15DexieDB, email: EmailRecord, remote?: MailRemote | null): Promise<void> {
+    const copy = getServerCopy(email, remote);
+    if (copy && remote) await remote.transport.deleteMessages(copy.path, [copy.uid]);
+    await db.transaction('rw', db.emails, db.$emailAttachments, async () => {
+        await db.$emailAttachments.where('emailId').equals(email.id).delete();
+        await db.emails.delete(email.id);
+    });
+}
+
+/**
+ * Where the sent copy of a message from an account is expected on the server
+ */
+export const getSentCopyFields = (account: MailAccountRecord): Pick<EmailRecord, 'accountId' | 'remotePath'> => ({
+    accountId: account.id,
+    remotePath: account.specialFolders?.sent,
+});
@@ -0,0 +1,113 @@
+/**
+ * Conversation threading by Message-ID, In-Reply-To and References (RFC 5322)
+ *
+ * A message's `threadId` is the Message-ID of the first message in its conversation:
+ * the first References entry, else In-Reply-To, else its own Message-ID. When a parent
+ * is already stored, its thread is used instead, so replies that drop References
+ * still join the right conversation.
+ *
+ * @module utils/mail/threading
+ */
+import type { EmailRecord, Windows15DexieDB } from '../storage/db';
+import { generateUuid } from '../uuid';
+
+export type ThreadHeaders = Pick<EmailRecord, 'messageId' | 'inReplyTo' | 'references'>;
+
+/**
+ * A Message-ID without angle brackets or surrounding space, or undefined if empty
+ */
+export const normalizeMessageId = (value: string | undefined): string | undefined => {
+    const id = value?.trim().replace(/^<|>$/g, '').trim();
+    return id || undefined;
+};
+
+/**
+ * The Message-IDs in a References or In-Reply-To header value, in order
+ */
+export const parseMessageIds = (header: string): string[] =>
+    [...header.matchAll(/<([^<>\s]+)>/g)].flatMap(match => (match[1] ? [match[1]] : []));
+
+/**
+ * A new Message-ID in the sender's domain
+ */
+export const createMessageId = (fromAddress: string): string => {
+    const domain = /@([^\s>]+)/.exec(fromAddress)?.[1] ?? 'windows15.local';
+    return `${generateUuid()}@${domain}`;
+};
+
+/**
+ * The thread a message starts or continues, from its own headers alone
+ */
+export const getThreadRootId = (message: ThreadHeaders): string | undefined =>
+    message.references?.[0] ?? message.inReplyTo ?? message.messageId;
+
+/**
+ * The thread a message belongs to, following a stored parent's thread when there is one
+ */
+export async function resolveThreadId(db: Windows15DexieDB, message: ThreadHeaders): Promise<string | undefined> {
+    const parents = [message.inReplyTo, ...(message.references ?? []).slice().reverse()].filter((id): id is string =>
+        Boolean(id)
+    );
+    if (parents.length > 0) {
+        const stored = await db.emails.where('messageId').anyOf(parents).toArray();
+        for (const parentId of parents) {
+            const parent = stored.find(email => email.messageId === parentId && email.threadId);
+            if (parent?.threadId) return parent.threadId;
+        }
+    }
+    return getThreadRootId(message);
+}
+
+/**
+ * The thread a stored message belongs to; messages without a Message-ID are their own thread
+ */
+export const getEmailThreadId = (email: Pick<EmailRecord, 'id' | 'threadId'>): string => email.threadId ?? email.id;
+
+/**
+ * The messages of one conversation in a message list
+ */
+export interface MailConversation {
+    threadId: string;
+    /** Oldest first */
+    messages: EmailRecord[];
+    latest: EmailRecord;
+    unread: number;
+}
+
+/**
+ * Group messages into conversations, most recently active first
+ */
+export const groupConversations = (emails: EmailRecord[]): MailConversation[] => {
+    const byThread = new Map<string, EmailRecord[]>();
+    for (const email of emails) {
+        const threadId = getEmailThreadId(email);
+        const messages = byThread.get(threadId);
+        if (messages) messages.push(email);
+        else byThread.set(threadId, [email]);
+    }
+
+    return Array.from(byThread, ([threadId, messages]) => {
+        const sorted = [...messages].sort((a, b) => a.date - b.date);
+        return {
+            threadId,
+            messages: sorted,
+            latest: sorted[sorted.length - 1] as EmailRecord,
+            unread: sorted.filter(email => !email.isRead).length,
+        };
+    }).sort((a, b) => b.latest.date - a.latest.date);
+};
+
+/**
+ * Subject of a reply, adding "Re: " once
+ */
+export const getReplySubject = (subject: string): string =>
+    /^\s*re:/i.test(subject) ? subject.trim() : `Re: ${subject.trim() || '(no subject)'}`;
+
+/**
+ * In-Reply-To and References of a reply to a message
+ */
+export const getReplyHeaders = (message: ThreadHeaders): Omit<ThreadHeaders, 'messageId'> => {
+    if (!message.messageId) return {};
+    const references = message.references ?? (message.inReplyTo ? [message.inReplyTo] : []);
+    return { inReplyTo: message.messageId, references: [...references, message.messageId] };
+};
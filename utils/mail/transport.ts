@@ -0,0 +1,98 @@
+/**
+ * Mail transports - how the Mail app talks to a mail server
+ *
+ * A transport offers the IMAP-style operations the Mail app needs (folders, fetching
+ * by UID, flags, moves) and SMTP-style sending. See `registry.ts` for how one is
+ * picked for an account.
+ *
+ * @module utils/mail/transport
+ */
+import type { MailAccountRecord, SystemMailFolderId } from '../storage/db';
+
+/**
+ * Folder on the server. `specialUse` marks the folders that map to the system folders.
+ */
+export interface MailFolderInfo {
+    path: string;
+    name: string;
+    specialUse?: SystemMailFolderId | 'junk' | 'archive';
+}
+
+/**
+ * Message as fetched from a server folder. Message-IDs are without angle brackets.
+ */
+export interface FetchedMailMessage {
+    uid: number;
+    messageId?: string;
+    inReplyTo?: string;
+    references?: string[];
+    from: string;
+    to: string[];
+    subject: string;
+    body: string;
+    date: number;
+    seen: boolean;
+}
+
+export interface FetchMessagesResult {
+    /** Changes when the folder's UIDs are reassigned; UIDs fetched before are then stale */
+    uidValidity: number;
+    messages: FetchedMailMessage[];
+}
+
+/**
+ * Message to send. Its Message-ID is set by the caller, so the sent copy can be threaded.
+ */
+export interface OutgoingMailMessage {
+    from: string;
+    to: string[];
+    subject: string;
+    body: string;
+    messageId: string;
+    inReplyTo?: string;
+    references?: string[];
+}
+
+export interface MailTransport {
+    listFolders(): Promise<MailFolderInfo[]>;
+    /** Messages with a UID above `sinceUid` (all messages without it), in UID order */
+    fetchMessages(path: string, options?: { sinceUid?: number }): Promise<FetchMessagesResult>;
+    setSeen(path: string, uids: number[], seen: boolean): Promise<void>;
+    moveMessages(path: string, uids: number[], toPath: string): Promise<void>;
+    deleteMessages(path: string, uids: number[]): Promise<void>;
+    /** Send a message; the server keeps a copy in its Sent folder */
+    send(message: OutgoingMailMessage): Promise<void>;
+    /** Be told when a folder changes on the server. Returns a function that stops watching. */
+    watch?(onChange: (path: string) => void): () => void;
+    close(): Promise<void>;
+}
+
+export type MailTransportFactory = (account: MailAccountRecord) => MailTransport;
+
+export type MailTransportErrorCode = 'EAUTH' | 'ECONNECT' | 'EPROTOCOL' | 'ENOTFOUND' | 'ESEND' | 'ETRANSPORT';
+
+/**
+ * Error thrown by transports, carrying a machine-readable code
+ */
+export type MailTransportError = Error & { code: MailTransportErrorCode };
+
+const ERROR_CODES: MailTransportErrorCode[] = ['EAUTH', 'ECONNECT', 'EPROTOCOL', 'ENOTFOUND', 'ESEND', 'ETRANSPORT'];
+
+/**
+ * Create a {@link MailTransportError}
+ */
+export const createMailTransportError = (code: MailTransportErrorCode, message: string): MailTransportError => {
+    const error = new Error(message) as MailTransportError;
+    error.name = 'MailTransportError';
+    error.code = code;
+    return error;
+};
+
+/**
+ * Check whether an unknown error is a {@link MailTransportError}, optionally with a specific code
+ */
+export const isMailTransportError = (error: unknown, code?: MailTransportErrorCode): error is MailTransportError => {
+    if (!(error instanceof Error) || error.name !== 'MailTransportError') return false;
+    const errorCode = (error as MailTransportError).code;
+    return code ? errorCode === code : ERROR_CODES.includes(errorCode);
+};
@@ -0,0 +1,200 @@
+/**
+ * MIME encodings: base64 and quoted-printable (RFC 2045), encoded words (RFC 2047)
+ * and charsets
+ *
+ * Messages are handled as binary strings, one character per octet, so 8-bit content
+ * in any charset survives until the part that declares its charset is decoded.
+ *
+ * @module utils/mime/encoding
+ */
+
+/** Longest encoded line in characters, excluding the CRLF */
+const MAX_ENCODED_LINE = 76;
+
+const encoder = new TextEncoder();
+
+/**
+ * Octets as a binary string, one character per octet
+ */
+export const toBinaryString = (bytes: Uint8Array): string => {
+    let result = '';
+    // Chunked to stay below the argument limit of String.fromCharCode
+    for (let index = 0; index < bytes.length; index += 0x8000) {
+        result += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+    }
+    return result;
+};
+
+/**
+ * The octets of a binary string
+ */
+export const fromBinaryString = (binary: string): Uint8Array => {
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index) & 0xff;
+    return bytes;
+};
+
+/**
+ * A message source as a binary string. Text is taken as UTF-8, the way the VFS stores it.
+ */
+export const toMessageBinary = (source: string | Uint8Array): string =>
+    toBinaryString(typeof source === 'string' ? encoder.encode(source) : source);
+
+/**
+ * Decode text in a charset, falling back to UTF-8 for charsets the platform does not know
+ */
+export const decodeCharset = (bytes: Uint8Array, charset = 'utf-8'): string => {
+    try {
+        return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+    } catch {
+        return new TextDecoder().decode(bytes);
+    }
+};
+
+/**
+ * Text of a binary string that may hold raw 8-bit header text: UTF-8 (RFC 6532) when
+ * it is valid UTF-8, else Windows-1252
+ */
+export const decodeRawText = (binary: string): string => {
+    if (!/[\x80-\xff]/.test(binary)) return binary;
+    const bytes = fromBinaryString(binary);
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+        return decodeCharset(bytes, 'windows-1252');
+    }
+};
+
+/**
+ * Decode base64, ignoring line breaks and other characters outside the alphabet
+ */
+export const decodeBase64 = (text: string): Uint8Array => {
+    let clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+    // A lone trailing character carries no whole octet
+    if (clean.length % 4 === 1) clean = clean.slice(0, -1);
+    return fromBinaryString(atob(clean.padEnd(Math.ceil(clean.length / 4) * 4, '=')));
+};
+
+/**
+ * Encode base64 in lines of 76 characters separated by CRLF
+ */
+export const encodeBase64 = (bytes: Uint8Array): string =>
+    (btoa(toBinaryString(bytes)).match(new RegExp(`.{1,${MAX_ENCODED_LINE}}`, 'g')) ?? []).join('\r\n');
+
+/**
+ * Decode quoted-printable, dropping soft line breaks
+ */
+export const decodeQuotedPrintable = (text: string): Uint8Array =>
+    fromBinaryString(
+        text
+            .replace(/[ \t]+(?=\r?\n)/g, '')
+            .replace(/=\r?\n/g, '')
+            .replace(/=([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    );
+
+const hexOctet = (octet: number) => `=${octet.toString(16).toUpperCase().padStart(2, '0')}`;
+
+/**
+ * Encode text as UTF-8 quoted-printable, with CRLF line breaks and soft breaks
+ * keeping lines within 76 characters
+ */
+export const encodeQuotedPrintable = (text: string): string =>
+    text
+        .split(/\r?\n/)
+        .map(line => {
+            const bytes = encoder.encode(line);
+            const tokens = Array.from(bytes, (octet, index) => {
+                const isLast = index === bytes.length - 1;
+                if (octet === 0x3d || octet > 0x7e || (octet < 0x20 && octet !== 0x09)) return hexOctet(octet);
+                // Trailing white space would be stripped in transit
+                if ((octet === 0x20 || octet === 0x09) && isLast) return hexOctet(octet);
+                return String.fromCharCode(octet);
+            });
+            const lines: string[] = [];
+            let current = '';
+            for (const token of tokens) {
+                if (current.length + token.length > MAX_ENCODED_LINE - 1) {
+                    lines.push(`${current}=`);
+                    current = '';
+                }
+                current += token;
+            }
+            lines.push(current);
+            return lines.join('\r\n');
+        })
+        .join('\r\n');
+
+/**
+ * Remove a Content-Transfer-Encoding
+ */
+export const decodeTransferEncoding = (binary: string, encoding = '7bit'): Uint8Array => {
+    switch (encoding.trim().toLowerCase()) {
+        case 'base64':
+            return decodeBase64(binary);
+        case 'quoted-printable':
+            return decodeQuotedPrintable(binary);
+        default:
+            return fromBinaryString(binary);
+    }
+};
+
+const ENCODED_WORD = /=\?([^?\s*]+)(?:\*[^?\s]*)?\?([BbQq])\?([^?\s]*)\?=/g;
+
+const decodeEncodedWordText = (encoding: string, text: string): Uint8Array =>
+    encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+
+/**
+ * Decode a header value: raw 8-bit text and encoded words like `=?UTF-8?B?...?=`.
+ * Adjacent encoded words in one charset are decoded together, so characters split
+ * across them come out whole.
+ */
+export const decodeHeaderValue = (raw: string): string => {
+    const text = decodeRawText(raw);
+    let result = '';
+    let pending: { charset: string; bytes: number[] } | null = null;
+    let last = 0;
+
+    const flush = () => {
+        if (pending) result += decodeCharset(Uint8Array.from(pending.bytes), pending.charset);
+        pending = null;
+    };
+
+    for (const match of text.matchAll(ENCODED_WORD)) {
+        const [word, charset = 'utf-8', encoding = 'B', encoded = ''] = match;
+        const between = text.slice(last, match.index);
+        const bytes = Array.from(decodeEncodedWordText(encoding, encoded));
+        // White space between encoded words is not part of the text
+        const adjacent = last > 0 && /^\s*$/.test(between);
+        if (adjacent && pending && pending.charset.toLowerCase() === charset.toLowerCase()) {
+            pending.bytes.push(...bytes);
+        } else {
+            flush();
+            if (!adjacent) result += between;
+            pending = { charset, bytes };
+        }
+        last = match.index + word.length;
+    }
+    flush();
+    return result + text.slice(last);
+};
+
+/** Longest text encoded into a single encoded word, in octets */
+const MAX_WORD_OCTETS = 45;
+
+/**
+ * Encode header text that is not plain ASCII as UTF-8 encoded words
+ */
+export const encodeHeaderText = (text: string): string => {
+    if (/^[\x20-\x7e]*$/.test(text)) return text;
+    const words: string[] = [];
+    let chunk = '';
+    for (const char of text) {
+        if (encoder.encode(chunk + char).length > MAX_WORD_OCTETS) {
+            words.push(chunk);
+            chunk = '';
+        }
+        chunk += char;
+    }
+    words.push(chunk);
+    return words.map(word => `=?UTF-8?B?${btoa(toBinaryString(encoder.encode(word)))}?=`).join(' ');
+};
@@ -0,0 +1,213 @@
+/**
+ * Header fields: unfolding, parameters (RFC 2045, RFC 2231), address lists and dates
+ * (RFC 5322), and folding when writing
+ *
+ * @module utils/mime/headers
+ */
+import { decodeCharset, decodeHeaderValue, decodeRawText, encodeHeaderText, fromBinaryString } from './encoding';
+import type { MimeHeader, MimeHeaderValue } from './types';
+
+/** Lines are folded to stay within this many characters where possible */
+const MAX_HEADER_LINE = 78;
+
+const encoder = new TextEncoder();
+
+/**
+ * Split an entity into its header fields and body. Folded fields are unfolded;
+ * lines that are not fields (like an mbox "From " line) are skipped.
+ */
+export const splitHeaders = (binary: string): { headers: MimeHeader[]; body: string } => {
+    const end = /\r?\n\r?\n/.exec(binary);
+    const startsWithBody = /^\r?\n/.test(binary);
+    const block = startsWithBody ? '' : end ? binary.slice(0, end.index) : binary;
+    const body = startsWithBody ? binary.replace(/^\r?\n/, '') : end ? binary.slice(end.index + end[0].length) : '';
+
+    const headers: MimeHeader[] = [];
+    for (const line of block.replace(/\r?\n(?=[ \t])/g, '').split(/\r?\n/)) {
+        const colon = line.indexOf(':');
+        if (colon <= 0 || /\s/.test(line.slice(0, colon))) continue;
+        headers.push({ name: line.slice(0, colon), value: line.slice(colon + 1).trim() });
+    }
+    return { headers, body };
+};
+
+/**
+ * The raw value of the first field with a name, compared case-insensitively
+ */
+export const getHeader = (headers: MimeHeader[], name: string): string | undefined =>
+    headers.find(header => header.name.toLowerCase() === name.toLowerCase())?.value;
+
+/**
+ * Split on a separator outside quoted strings, comments and angle brackets
+ */
+const splitOutside = (value: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let quoted = false;
+    let depth = 0;
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index] ?? '';
+        if (quoted && char === '\\') {
+            current += char + (value[++index] ?? '');
+            continue;
+        }
+        if (char === '"') quoted = !quoted;
+        else if (!quoted && (char === '(' || char === '<')) depth++;
+        else if (!quoted && (char === ')' || char === '>')) depth = Math.max(0, depth - 1);
+        if (char === separator && !quoted && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    parts.push(current);
+    return parts;
+};
+
+const unquote = (value: string): string => (/^".*"$/s.test(value) ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value);
+
+/**
+ * Parse a header value with parameters, like Content-Type or Content-Disposition
+ */
+export const parseHeaderValue = (raw: string): MimeHeaderValue => {
+    const [main = '', ...rest] = splitOutside(raw, ';');
+    const simple: Record<string, string> = {};
+    const sections: Record<string, { index: number; value: string; extended: boolean }[]> = {};
+
+    for (const param of rest) {
+        const equals = param.indexOf('=');
+        if (equals <= 0) continue;
+        const key = param.slice(0, equals).trim().toLowerCase();
+        const value = unquote(param.slice(equals + 1).trim());
+        // RFC 2231: name*=charset''value, name*0=..., name*1*=...
+        const match = /^([^*]+)\*(?:(\d+)(\*)?)?$/.exec(key);
+        if (!match?.[1]) {
+            simple[key] = decodeHeaderValue(value);
+            continue;
+        }
+        const extended = match[2] === undefined || match[3] === '*';
+        (sections[match[1]] ??= []).push({ index: Number(match[2] ?? 0), value, extended });
+    }
+
+    for (const [name, parts] of Object.entries(sections)) {
+        parts.sort((a, b) => a.index - b.index);
+        // Only the first section names the charset; later ones are just percent-encoded
+        const first = parts[0];
+        const charset = first?.extended && first.value.includes("'") ? (first.value.split("'")[0] ?? '') : '';
+        const binary = parts
+            .map((part, index) => {
+                const value = index === 0 && charset !== '' ? part.value.split("'").slice(2).join("'") : part.value;
+                return part.extended
+                    ? value.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) =>
+                          String.fromCharCode(parseInt(hex, 16))
+                      )
+                    : value;
+            })
+            .join('');
+        simple[name] = first?.extended
+            ? decodeCharset(fromBinaryString(binary), charset || 'utf-8')
+            : decodeRawText(binary);
+    }
+
+    return { value: main.trim().toLowerCase(), params: simple };
+};
+
+/**
+ * A parameter as written in a header: quoted when needed, RFC 2231-encoded when not ASCII
+ */
+export const formatHeaderParam = (name: string, value: string): string => {
+    if (/^[\x20-\x7e]*$/.test(value)) return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+    const encoded = Array.from(encoder.encode(value), octet =>
+        /[A-Za-z0-9!#$&+\-.^_`|~]/.test(String.fromCharCode(octet))
+            ? String.fromCharCode(octet)
+            : `%${octet.toString(16).toUpperCase().padStart(2, '0')}`
+    ).join('');
+    return `${name}*=UTF-8''${encoded}`;
+};
+
+/**
+ * The mailboxes of an address list header, as `Name <address>` or `address`.
+ * Display names are decoded and unquoted; group names are dropped.
+ */
+export const parseAddressList = (raw: string | undefined): string[] => {
+    if (!raw) return [];
+    // Decoded per mailbox: an encoded display name may hold a comma
+    return splitOutside(raw.replace(/^[^:"<@]*:|;\s*$/g, ''), ',')
+        .map(address =>
+            decodeHeaderValue(
+                address
+                    .replace(/\([^()]*\)/g, '')
+                    .trim()
+                    .replace(/^"((?:[^"\\]|\\.)*)"\s*</, (_match, name: string) => `${name.replace(/\\(.)/g, '$1')} <`)
+            )
+        )
+        .filter(Boolean);
+};
+
+/**
+ * A mailbox as written in an address header: the display name is quoted or encoded when needed
+ */
+export const formatAddress = (mailbox: string): string => {
+    const match = /^(.*?)\s*<([^<>]+)>$/.exec(mailbox.trim());
+    if (!match) return mailbox.trim();
+    const [, name = '', address = ''] = match;
+    if (!name) return `<${address}>`;
+    const display = /^[\x20-\x7e]*$/.test(name)
+        ? /[()<>[\]:;@\\,."]/.test(name)
+            ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+            : name
+        : encodeHeaderText(name);
+    return `${display} <${address}>`;
+};
+
+/**
+ * Read a Date header, or undefined if it is not a date
+ */
+export const parseMailDate = (raw: string | undefined): number | undefined => {
+    if (!raw) return undefined;
+    // Drop comments like "(PST)" and obsolete zone names the Date parser may not know
+    const time = Date.parse(raw.replace(/\([^()]*\)/g, '').trim());
+    return Number.isNaN(time) ? undefined : time;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a timestamp for a Date header, in the local time zone
+ *
+ * @example
+ * formatMailDate(Date.UTC(2024, 0, 2, 9, 30)) // 'Tue, 02 Jan 2024 09:30:00 +0000' in UTC
+ */
+export const formatMailDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const offset = -date.getTimezoneOffset();
+    const zone = `${offset < 0 ? '-' : '+'}${pad2(Math.floor(Math.abs(offset) / 60))}${pad2(Math.abs(offset) % 60)}`;
+    return (
+        `${WEEKDAYS[date.getDay()]}, ${pad2(date.getDate())} ${MONTHS[date.getMonth()]} ${date.getFullYear()} ` +
+        `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())} ${zone}`
+    );
+};
+
+/**
+ * A header field line, folded at white space to keep lines within 78 characters where possible
+ * @returns The field without a trailing CRLF
+ */
+export const formatHeader = (name: string, value: string): string => {
+    const words = `${name}: ${value}`.split(/(?= )/);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        if (line && line.length + word.length > MAX_HEADER_LINE) {
+            lines.push(line);
+            line = word;
+        } else {
+            line += word;
+        }
+    }
+    lines.push(line);
+    return lines.join('\r\n');
+};
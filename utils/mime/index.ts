@@ -0,0 +1,19 @@
+/**
+ * MIME messages (RFC 5322, RFC 2045-2049): .eml and .mbox reading and writing
+ *
+ * @module utils/mime
+ */
+export * from './types';
+export {
+    decodeBase64,
+    decodeHeaderValue,
+    decodeQuotedPrintable,
+    encodeBase64,
+    encodeHeaderText,
+    encodeQuotedPrintable,
+    fromBinaryString,
+    toBinaryString,
+} from './encoding';
+export { formatAddress, formatMailDate, parseAddressList, parseHeaderValue, parseMailDate } from './headers';
+export { getEntityText, parseMailMessage, parseMimeEntity, serializeMailMessage } from './message';
+export { serializeMbox, splitMbox, type MboxEntry } from './mbox';
@@ -0,0 +1,76 @@
+/**
+ * mbox mailbox files: messages separated by "From " lines, with "From " at the start
+ * of a body line quoted as ">From " (the mboxrd variant, which also reads mboxo files)
+ *
+ * @module utils/mime/mbox
+ */
+import { fromBinaryString, toMessageBinary } from './encoding';
+import { createMimeError } from './types';
+
+/**
+ * A message to write to an mbox file
+ */
+export interface MboxEntry {
+    /** The message as written by `serializeMailMessage` */
+    source: string;
+    /** Envelope sender for the "From " line */
+    sender?: string;
+    date?: number;
+}
+
+/**
+ * Split an mbox file into the octets of its messages, with the quoting removed
+ *
+ * @throws {MimeError} EPARSE if the file does not start with a "From " line
+ */
+export const splitMbox = (source: string | Uint8Array): Uint8Array[] => {
+    const lines = toMessageBinary(source).split(/(?<=\n)/);
+    const messages: string[][] = [];
+    let current: string[] | null = null;
+    let previousBlank = true;
+
+    for (const line of lines) {
+        const isBlank = /^\r?\n$/.test(line);
+        if (current === null && isBlank) continue;
+        // A "From " line only separates messages after a blank line, so unquoted body lines stay put
+        if (line.startsWith('From ') && previousBlank) {
+            current = [];
+            messages.push(current);
+        } else if (current === null) {
+            throw createMimeError('EPARSE', 'Not an mbox file: it does not start with a "From " line');
+        } else {
+            current.push(line.replace(/^>(>*From )/, '$1'));
+        }
+        previousBlank = isBlank;
+    }
+
+    // The blank line before the next "From " line separates messages and is not part of them
+    return messages.map(message => fromBinaryString(message.join('').replace(/\r?\n$/, '')));
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+/** asctime-style date of a "From " line, in UTC: `Tue Jan  2 09:30:00 2024` */
+const formatEnvelopeDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const [weekday = '', , month = ''] = date.toUTCString().split(' ');
+    return (
+        `${weekday.replace(',', '')} ${month} ${String(date.getUTCDate()).padStart(2, ' ')} ` +
+        `${pad2(date.getUTCHours())}:${pad2(date.getUTCMinutes())}:${pad2(date.getUTCSeconds())} ${date.getUTCFullYear()}`
+    );
+};
+
+/**
+ * Write messages as an mbox file with LF line breaks
+ */
+export const serializeMbox = (entries: MboxEntry[]): string =>
+    entries
+        .map(({ source, sender, date }) => {
+            const address = /<([^<>\s]+)>/.exec(sender ?? '')?.[1] ?? (sender?.trim() || 'MAILER-DAEMON');
+            const body = source
+                .replace(/\r\n/g, '\n')
+                .replace(/\n?$/, '\n')
+                .replace(/^(>*From )/gm, '>$1');
+            return `From ${address} ${formatEnvelopeDate(date ?? Date.now())}\n${body}\n`;
+        })
+        .join('');
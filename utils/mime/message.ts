@@ -0,0 +1,256 @@
+/**
+ * Read and write MIME messages (.eml)
+ *
+ * `parseMimeEntity` builds the entity tree of a message; `parseMailMessage` reads the
+ * parts a mail app shows from it: the text and HTML bodies of multipart/alternative
+ * and multipart/related, and the attachments. `serializeMailMessage` writes a message
+ * back as 7-bit MIME with CRLF line breaks.
+ *
+ * @module utils/mime/message
+ */
+import {
+    decodeCharset,
+    decodeHeaderValue,
+    decodeTransferEncoding,
+    encodeBase64,
+    encodeHeaderText,
+    encodeQuotedPrintable,
+    toBinaryString,
+    toMessageBinary,
+} from './encoding';
+import {
+    formatAddress,
+    formatHeader,
+    formatHeaderParam,
+    formatMailDate,
+    getHeader,
+    parseAddressList,
+    parseHeaderValue,
+    parseMailDate,
+    splitHeaders,
+} from './headers';
+import { createMimeError, type MailAttachment, type MailMessage, type MimeEntity } from './types';
+
+/** Deeper nesting than this is taken as a malformed (or hostile) message */
+const MAX_DEPTH = 32;
+
+/** Longest line of unencoded text (RFC 5322 allows 998 octets) */
+const MAX_PLAIN_LINE = 998;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseEntity = (binary: string, defaultType: string, depth: number): MimeEntity => {
+    if (depth > MAX_DEPTH) throw createMimeError('EPARSE', 'Message parts are nested too deeply');
+
+    const { headers, body } = splitHeaders(binary);
+    const contentType = parseHeaderValue(getHeader(headers, 'Content-Type') ?? defaultType);
+    const dispositionHeader = getHeader(headers, 'Content-Disposition');
+    const disposition = dispositionHeader ? parseHeaderValue(dispositionHeader) : undefined;
+    const boundary = contentType.params.boundary;
+
+    if (!contentType.value.startsWith('multipart/') || !boundary) {
+        // Without a boundary a multipart cannot be split: show it as text
+        const isLeafType = contentType.value.includes('/') && !contentType.value.startsWith('multipart/');
+        return {
+            headers,
+            contentType: isLeafType ? contentType : { value: 'text/plain', params: {} },
+            disposition,
+            body: decodeTransferEncoding(body, getHeader(headers, 'Content-Transfer-Encoding')),
+            parts: [],
+        };
+    }
+
+    // The line break before a delimiter belongs to the delimiter
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escapeRegExp(boundary)}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+    const childType = contentType.value === 'multipart/digest' ? 'message/rfc822' : 'text/plain';
+    const parts: MimeEntity[] = [];
+    let start: number | null = null;
+    for (const match of body.matchAll(delimiter)) {
+        if (start !== null) {
+            parts.push(parseEntity(body.slice(start, match.index).replace(/^\r?\n/, ''), childType, depth + 1));
+        }
+        if (match[1]) {
+            start = null;
+            break;
+        }
+        start = match.index + match[0].length;
+    }
+    // A missing close delimiter still ends the last part
+    if (start !== null) parts.push(parseEntity(body.slice(start).replace(/^\r?\n/, ''), childType, depth + 1));
+
+    return { headers, contentType, disposition, body: new Uint8Array(), parts };
+};
+
+/**
+ * Parse the entity tree of a message. Text sources are taken as UTF-8.
+ *
+ * @throws {MimeError} EPARSE if the message has no header fields or is nested too deeply
+ */
+export const parseMimeEntity = (source: string | Uint8Array): MimeEntity => {
+    const binary = toMessageBinary(source).replace(/^\xef\xbb\xbf/, '');
+    const entity = parseEntity(binary, 'text/plain', 0);
+    if (entity.headers.length === 0) throw createMimeError('EPARSE', 'Not an email message: no header fields');
+    return entity;
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'text/plain': '.txt',
+    'text/html': '.html',
+    'text/calendar': '.ics',
+    'message/rfc822': '.eml',
+    'application/pdf': '.pdf',
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+};
+
+const normalizeId = (value: string | undefined): string | undefined =>
+    value?.trim().replace(/^<|>$/g, '').trim() || undefined;
+
+/**
+ * Decoded text of a leaf entity, in its declared charset
+ */
+export const getEntityText = (entity: MimeEntity): string =>
+    decodeCharset(entity.body, entity.contentType.params.charset);
+
+/**
+ * Read the headers, bodies and attachments of a message
+ *
+ * @throws {MimeError} EPARSE if the message cannot be read
+ */
+export const parseMailMessage = (source: string | Uint8Array | MimeEntity): MailMessage => {
+    const root = source instanceof Uint8Array || typeof source === 'string' ? parseMimeEntity(source) : source;
+    const header = (name: string) => getHeader(root.headers, name);
+    const texts: string[] = [];
+    const htmls: string[] = [];
+    const attachments: MailAttachment[] = [];
+
+    const visit = (entity: MimeEntity) => {
+        if (entity.parts.length > 0 || entity.contentType.value.startsWith('multipart/')) {
+            entity.parts.forEach(visit);
+            return;
+        }
+        const type = entity.contentType.value;
+        const isAttachment = entity.disposition?.value === 'attachment';
+        if (!isAttachment && type === 'text/plain') {
+            texts.push(getEntityText(entity));
+            return;
+        }
+        if (!isAttachment && type === 'text/html') {
+            htmls.push(getEntityText(entity));
+            return;
+        }
+        const contentId = normalizeId(getHeader(entity.headers, 'Content-ID'));
+        const nested = type === 'message/rfc822' ? splitHeaders(toBinaryString(entity.body.subarray(0, 8192))) : null;
+        const subject = nested ? decodeHeaderValue(getHeader(nested.headers, 'Subject') ?? '') : '';
+        const filename =
+            entity.disposition?.params.filename ??
+            entity.contentType.params.name ??
+            `${subject || `attachment-${attachments.length + 1}`}${EXTENSIONS[type] ?? '.bin'}`;
+        attachments.push({
+            filename: filename.replace(/[\\/]/g, '_'),
+            mimeType: type,
+            content: entity.body,
+            ...(contentId ? { contentId } : {}),
+            inline: !isAttachment && Boolean(contentId),
+        });
+    };
+    visit(root);
+
+    const references = (header('References') ?? '').match(/<[^<>\s]+>/g) ?? [];
+    const inReplyTo = /<[^<>\s]+>/.exec(header('In-Reply-To') ?? '')?.[0];
+    return {
+        messageId: normalizeId(header('Message-ID')),
+        inReplyTo: normalizeId(inReplyTo),
+        references: references.flatMap(id => normalizeId(id) ?? []),
+        from: parseAddressList(header('From'))[0] ?? '',
+        to: parseAddressList(header('To')),
+        cc: parseAddressList(header('Cc')),
+        subject: decodeHeaderValue(header('Subject') ?? ''),
+        date: parseMailDate(header('Date')),
+        text: texts.join('\n\n'),
+        ...(htmls.length > 0 ? { html: htmls.join('\n') } : {}),
+        attachments,
+    };
+};
+
+let boundaryCount = 0;
+
+// "=_" never occurs in base64 or quoted-printable output; the random part keeps 7-bit text from clashing
+const createBoundary = () => `=_w15_${(++boundaryCount).toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+type OutputPart = { headers: [string, string][]; body: string };
+
+const textPart = (text: string, subtype: 'plain' | 'html'): OutputPart => {
+    const lines = text.split(/\r?\n/);
+    const isPlain = /^[\x20-\x7e\t\r\n]*$/.test(text) && lines.every(line => line.length <= MAX_PLAIN_LINE);
+    return {
+        headers: [
+            ['Content-Type', `text/${subtype}; charset=utf-8`],
+            ['Content-Transfer-Encoding', isPlain ? '7bit' : 'quoted-printable'],
+        ],
+        body: isPlain ? lines.join('\r\n') : encodeQuotedPrintable(text),
+    };
+};
+
+const attachmentPart = (attachment: MailAttachment): OutputPart => ({
+    headers: [
+        [
+            'Content-Type',
+            `${attachment.mimeType || 'application/octet-stream'}; ${formatHeaderParam('name', attachment.filename)}`,
+        ],
+        ['Content-Transfer-Encoding', 'base64'],
+        [
+            'Content-Disposition',
+            `${attachment.inline ? 'inline' : 'attachment'}; ${formatHeaderParam('filename', attachment.filename)}`,
+        ],
+        ...(attachment.contentId ? [['Content-ID', `<${attachment.contentId}>`] as [string, string]] : []),
+    ],
+    body: encodeBase64(attachment.content),
+});
+
+const multipart = (subtype: string, parts: OutputPart[]): OutputPart => {
+    const boundary = createBoundary();
+    return {
+        headers: [['Content-Type', `multipart/${subtype}; boundary="${boundary}"`]],
+        body: `${parts.map(part => `--${boundary}\r\n${formatPart(part)}`).join('\r\n')}\r\n--${boundary}--`,
+    };
+};
+
+const formatPart = ({ headers, body }: OutputPart): string =>
+    `${headers.map(([name, value]) => formatHeader(name, value)).join('\r\n')}\r\n\r\n${body}`;
+
+/**
+ * Write a message as MIME: text/plain, multipart/alternative with HTML, multipart/related
+ * for inline images and multipart/mixed for attachments. All output is 7-bit with CRLF
+ * line breaks.
+ */
+export const serializeMailMessage = (message: MailMessage): string => {
+    const inline = message.html ? message.attachments.filter(attachment => attachment.inline) : [];
+    const attached = message.attachments.filter(attachment => !inline.includes(attachment));
+
+    let body = textPart(message.text, 'plain');
+    if (message.html) {
+        const html = textPart(message.html, 'html');
+        body = multipart('alternative', [
+            body,
+            inline.length > 0 ? multipart('related', [html, ...inline.map(attachmentPart)]) : html,
+        ]);
+    }
+    if (attached.length > 0) body = multipart('mixed', [body, ...attached.map(attachmentPart)]);
+
+    const headers: [string, string][] = [
+        ['Date', formatMailDate(message.date ?? Date.now())],
+        ['From', formatAddress(message.from)],
+        ...(message.to.length > 0 ? [['To', message.to.map(formatAddress).join(', ')] as [string, string]] : []),
+        ...(message.cc.length > 0 ? [['Cc', message.cc.map(formatAddress).join(', ')] as [string, string]] : []),
+        ['Subject', encodeHeaderText(message.subject)],
+        ...(message.messageId ? [['Message-ID', `<${message.messageId}>`] as [string, string]] : []),
+        ...(message.inReplyTo ? [['In-Reply-To', `<${message.inReplyTo}>`] as [string, string]] : []),
+        ...(message.references.length > 0
+            ? [['References', message.references.map(id => `<${id}>`).join(' ')] as [string, string]]
+            : []),
+        ['MIME-Version', '1.0'],
+    ];
+    return `${formatPart({ headers: [...headers, ...body.headers], body: body.body })}\r\n`;
+};
@@ -0,0 +1,102 @@
+/**
+ * Internet Message Format (RFC 5322) and MIME (RFC 2045-2049) data model
+ *
+ * @module utils/mime/types
+ */
+
+/**
+ * A header field as written in the message, unfolded but not decoded
+ */
+export interface MimeHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * A header value split into its main value and parameters, e.g. a Content-Type
+ */
+export interface MimeHeaderValue {
+    /** Lowercased main value, e.g. `text/plain` or `attachment` */
+    value: string;
+    /** Parameters by lowercased name, decoded (RFC 2231 continuations and charsets included) */
+    params: Record<string, string>;
+}
+
+/**
+ * One entity of a MIME message: the message itself or one of its body parts
+ */
+export interface MimeEntity {
+    headers: MimeHeader[];
+    contentType: MimeHeaderValue;
+    /** Content-Disposition, if the entity has one */
+    disposition?: MimeHeaderValue;
+    /** Body with the transfer encoding removed; empty for multiparts */
+    body: Uint8Array;
+    /** Body parts of a multipart, in order */
+    parts: MimeEntity[];
+}
+
+/**
+ * A file attached to a message, or an inline image an HTML body refers to by Content-ID
+ */
+export interface MailAttachment {
+    filename: string;
+    mimeType: string;
+    content: Uint8Array;
+    /** Content-ID without angle brackets, for `cid:` references */
+    contentId?: string;
+    inline: boolean;
+}
+
+/**
+ * A message as read by mail apps: the headers they show, the text and HTML bodies
+ * and the attachments
+ */
+export interface MailMessage {
+    /** Message-ID without angle brackets */
+    messageId?: string;
+    inReplyTo?: string;
+    references: string[];
+    from: string;
+    to: string[];
+    cc: string[];
+    subject: string;
+    /** Unix timestamp in milliseconds, if the Date header could be read */
+    date?: number;
+    /** text/plain body; empty if the message only has HTML */
+    text: string;
+    /** text/html body, unsanitized */
+    html?: string;
+    attachments: MailAttachment[];
+}
+
+/**
+ * Error codes raised while reading MIME data
+ */
+export type MimeErrorCode = 'EPARSE' | 'EENCODING';
+
+/**
+ * Error thrown for malformed messages, carrying a machine-readable code
+ */
+export type MimeError = Error & { code: MimeErrorCode };
+
+const ERROR_CODES: MimeErrorCode[] = ['EPARSE', 'EENCODING'];
+
+/**
+ * Create a {@link MimeError}
+ */
+export const createMimeError = (code: MimeErrorCode, message: string): MimeError => {
+    const error = new Error(message) as MimeError;
+    error.name = 'MimeError';
+    error.code = code;
+    return error;
+};
+
+/**
+ * Check whether an unknown error is a {@link MimeError}, optionally with a specific code
+ */
+export const isMimeError = (error: unknown, code?: MimeErrorCode): error is MimeError => {
+    if (!(error instanceof Error) || error.name !== 'MimeError') return false;
+    const errorCode = (error as MimeError).code;
+    return code ? errorCode === code : ERROR_CODES.includes(errorCode);
+};
@@ -0,0 +1,176 @@
+/**
+ * Permissions - per-app consent for sensitive OS services
+ *
+ * Apps declare the permissions they may use (`permissions` in the app registry or an
+ * app package manifest). The first time an app asks for a declared permission the user
+ * is prompted through `PermissionPrompt`; the decision is stored in `$appPermissions`
+ * and can be changed or revoked in Settings > Apps. Undeclared permissions are always
+ * denied. Callers check the stored state on every use, or observe it with a live query,
+ * so revocation applies immediately.
+ *
+ * @module utils/permissions
+ *
+ * @example
+ * ```ts
+ * if (await requestPermission(db, app, 'microphone')) {
+ *     await analyzer.start();
+ * }
+ * ```
+ */
+import { appEventBus } from './eventBus';
+import type { Windows15DexieDB } from './storage/db';
+import { generateUuid } from './uuid';
+
+/**
+ * Permissions an app can declare
+ */
+export type Permission = 'clipboard-read' | 'notifications' | 'files:read' | 'files:write' | 'network' | 'microphone';
+
+/**
+ * `prompt` means the user has not decided yet
+ */
+export type PermissionState = 'granted' | 'denied' | 'prompt';
+
+/**
+ * How each permission is presented to the user
+ */
+export const PERMISSIONS: Record<Permission, { label: string; description: string; icon: string }> = {
+    'clipboard-read': {
+        label: 'Read your clipboard',
+        description: 'See text you copy, including from other apps.',
+        icon: 'content_paste',
+    },
+    notifications: {
+        label: 'Show notifications',
+        description: 'Display notifications on the desktop.',
+        icon: 'notifications',
+    },
+    'files:read': {
+        label: 'Open your files',
+        description: 'Read files you choose in the file picker.',
+        icon: 'folder_open',
+    },
+    'files:write': {
+        label: 'Save files',
+        description: 'Save files to the location you choose in the file picker.',
+        icon: 'save',
+    },
+    network: {
+        label: 'Access the internet',
+        description: 'Send and receive data from websites.',
+        icon: 'public',
+    },
+    microphone: {
+        label: 'Use your microphone',
+        description: 'Listen to audio from your microphone.',
+        icon: 'mic',
+    },
+};
+
+export const isPermission = (value: unknown): value is Permission =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+
+/**
+ * The parts of an app registration permission checks need
+ */
+export interface PermissionHolder {
+    id: string;
+    title: string;
+    permissions?: Permission[];
+}
+
+/**
+ * A pending consent prompt
+ */
+export interface PermissionRequest {
+    id: string;
+    appId: string;
+    appTitle: string;
+    permission: Permission;
+}
+
+// Prompts waiting for an answer, so concurrent requests share one prompt
+const pendingRequests = new Map<string, Promise<boolean>>();
+
+/**
+ * The stored decision for an app's permission
+ */
+export async function getPermissionState(
+    db: Windows15DexieDB,
+    appId: string,
+    permission: Permission
+): Promise<PermissionState> {
+    const record = await db.$appPermissions.get([appId, permission]);
+    return record?.state ?? 'prompt';
+}
+
+/**
+ * Store a decision; `prompt` forgets it so the app asks again
+ */
+export async function setPermissionState(
+    db: Windows15DexieDB,
+    appId: string,
+    permission: Permission,
+    state: PermissionState
+): Promise<void> {
+    if (state === 'prompt') {
+        await db.$appPermissions.delete([appId, permission]);
+    } else {
+        await db.$appPermissions.put({ appId, permission, state, updatedAt: Date.now() });
+    }
+}
+
+/**
+ * Forget every decision for an app
+ */
+export async function resetPermissions(db: Windows15DexieDB, appId: string): Promise<void> {
+    await db.$appPermissions.where('appId').equals(appId).delete();
+}
+
+/**
+ * Whether an app may use a permission, prompting the user if they have not decided yet
+ *
+ * @returns false when the permission is undeclared, denied, the user declines, or no
+ * `PermissionPrompt` is mounted to ask; only answers the user gives are stored
+ */
+export async function requestPermission(
+    db: Windows15DexieDB,
+    app: PermissionHolder,
+    permission: Permission
+): Promise<boolean> {
+    if (!app.permissions?.includes(permission)) return false;
+
+    const state = await getPermissionState(db, app.id, permission);
+    if (state !== 'prompt') return state === 'granted';
+
+    const key = `${app.id}\n${permission}`;
+    const pending = pendingRequests.get(key);
+    if (pending) return pending;
+    if (!appEventBus.hasListeners('permission:request')) return false;
+
+    const request: PermissionRequest = { id: generateUuid(), appId: app.id, appTitle: app.title, permission };
+    const answer = new Promise<boolean | null>(resolve => {
+        const unsubscribe = appEventBus.on('permission:response', ({ requestId, granted }) => {
+            if (requestId !== request.id) return;
+            unsubscribe();
+            resolve(granted);
+        });
+        appEventBus.emit('permission:request', { request });
+    })
+        .then(async granted => {
+            if (granted === null) return false;
+            await setPermissionState(db, app.id, permission, granted ? 'granted' : 'denied');
+            return granted;
+        })
+        .finally(() => pendingRequests.delete(key));
+
+    pendingRequests.set(key, answer);
+    return answer;
+}
+
+/**
+ * Answer a consent prompt; null closes it without a decision, so the app asks again next time
+ */
+export function respondToPermissionRequest(request: PermissionRequest, granted: boolean | null): void {
+    appEventBus.emit('permission:response', { requestId: request.id, granted });
+}
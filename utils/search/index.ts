@@ -0,0 +1,8 @@
+/**
+ * Desktop search barrel exports
+ */
+export * from './tokenizer';
+export * from './snippets';
+export * from './searchIndex';
+export * from './sources';
+export * from './searchService';
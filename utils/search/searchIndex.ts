@@ -0,0 +1,212 @@
+/**
+ * In-memory inverted index with prefix matching and BM25 ranking
+ *
+ * Documents are added, replaced and removed one at a time, so callers can keep the
+ * index in step with their data without rebuilding it. Every query word must match
+ * a document (AND); a word matches indexed words that start with it, but exact
+ * words rank above longer completions and title words above body words.
+ *
+ * @module utils/search/searchIndex
+ *
+ * @example
+ * ```ts
+ * const index = createSearchIndex();
+ * index.add({ id: 'a', title: 'Groceries', body: 'Milk, eggs and bread' });
+ * index.search('gro eg'); // [{ document: { id: 'a', ... }, score: ... }]
+ * ```
+ */
+import { tokenize } from './tokenizer';
+
+/**
+ * The fields the index reads from a document
+ */
+export interface SearchableDocument {
+    id: string;
+    title: string;
+    body: string;
+}
+
+export interface SearchIndexHit<D extends SearchableDocument> {
+    document: D;
+    score: number;
+}
+
+export interface SearchIndexOptions<D extends SearchableDocument> {
+    /** Maximum number of hits (default: all) */
+    limit?: number;
+    /** Only return documents passing this check */
+    filter?: (document: D) => boolean;
+}
+
+export interface SearchIndex<D extends SearchableDocument> {
+    /** Add a document, replacing any document with the same ID */
+    add(document: D): void;
+    /** Remove a document; unknown IDs are ignored */
+    remove(id: string): void;
+    get(id: string): D | undefined;
+    /** IDs of all indexed documents */
+    ids(): string[];
+    clear(): void;
+    /** Hits for `query`, best first */
+    search(query: string, options?: SearchIndexOptions<D>): SearchIndexHit<D>[];
+    readonly size: number;
+}
+
+/** Weight of a title word relative to a body word */
+const TITLE_WEIGHT = 3;
+/** Weight of a prefix completion relative to an exact word */
+const PREFIX_WEIGHT = 0.6;
+/** Maximum number of completions considered for one query word */
+const MAX_PREFIX_EXPANSIONS = 64;
+/** BM25 parameters */
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedEntry<D> {
+    document: D;
+    /** Weighted number of words */
+    length: number;
+    /** Weighted occurrences of each word */
+    frequencies: Map<string, number>;
+}
+
+const countTerms = (document: SearchableDocument) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    const count = (text: string, weight: number) => {
+        for (const token of tokenize(text)) {
+            frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+            length += weight;
+        }
+    };
+    count(document.title, TITLE_WEIGHT);
+    count(document.body, 1);
+    return { frequencies, length };
+};
+
+/**
+ * Create an empty search index
+ */
+export function createSearchIndex<D extends SearchableDocument = SearchableDocument>(): SearchIndex<D> {
+    const entries = new Map<string, IndexedEntry<D>>();
+    const postings = new Map<string, Set<string>>();
+    let totalLength = 0;
+    // Sorted vocabulary for prefix lookups, rebuilt after the vocabulary changes
+    let sortedTerms: string[] | null = null;
+
+    const remove = (id: string) => {
+        const entry = entries.get(id);
+        if (!entry) return;
+        for (const term of entry.frequencies.keys()) {
+            const docs = postings.get(term);
+            docs?.delete(id);
+            if (docs?.size === 0) {
+                postings.delete(term);
+                sortedTerms = null;
+            }
+        }
+        totalLength -= entry.length;
+        entries.delete(id);
+    };
+
+    const add = (document: D) => {
+        remove(document.id);
+        const { frequencies, length } = countTerms(document);
+        for (const term of frequencies.keys()) {
+            let docs = postings.get(term);
+            if (!docs) {
+                docs = new Set();
+                postings.set(term, docs);
+                sortedTerms = null;
+            }
+            docs.add(document.id);
+        }
+        entries.set(document.id, { document, length, frequencies });
+        totalLength += length;
+    };
+
+    /** Indexed words starting with `prefix`, in order */
+    const completions = (prefix: string): string[] => {
+        sortedTerms ??= [...postings.keys()].sort();
+        let low = 0;
+        let high = sortedTerms.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if ((sortedTerms[mid] as string) < prefix) low = mid + 1;
+            else high = mid;
+        }
+        const matches: string[] = [];
+        for (let i = low; i < sortedTerms.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+            const term = sortedTerms[i] as string;
+            if (!term.startsWith(prefix)) break;
+            matches.push(term);
+        }
+        return matches;
+    };
+
+    /** Best score of each document matching one query word */
+    const scoreWord = (word: string): Map<string, number> => {
+        const scores = new Map<string, number>();
+        const averageLength = totalLength / entries.size || 1;
+        for (const term of completions(word)) {
+            const docs = postings.get(term);
+            if (!docs) continue;
+            const idf = Math.log(1 + (entries.size - docs.size + 0.5) / (docs.size + 0.5));
+            const weight = term === word ? 1 : PREFIX_WEIGHT * (word.length / term.length);
+            for (const id of docs) {
+                const entry = entries.get(id) as IndexedEntry<D>;
+                const tf = entry.frequencies.get(term) ?? 0;
+                const norm = tf + K1 * (1 - B + (B * entry.length) / averageLength);
+                const score = weight * idf * ((tf * (K1 + 1)) / norm);
+                if (score > (scores.get(id) ?? 0)) scores.set(id, score);
+            }
+        }
+        return scores;
+    };
+
+    const search = (query: string, options: SearchIndexOptions<D> = {}): SearchIndexHit<D>[] => {
+        const words = [...new Set(tokenize(query))];
+        if (words.length === 0 || entries.size === 0) return [];
+
+        let totals: Map<string, number> | null = null;
+        for (const word of words) {
+            const scores = scoreWord(word);
+            if (!totals) {
+                totals = scores;
+            } else {
+                const next = new Map<string, number>();
+                for (const [id, score] of totals) {
+                    const wordScore = scores.get(id);
+                    if (wordScore !== undefined) next.set(id, score + wordScore);
+                }
+                totals = next;
+            }
+            if (totals.size === 0) return [];
+        }
+
+        const hits: SearchIndexHit<D>[] = [];
+        for (const [id, score] of totals ?? []) {
+            const document = (entries.get(id) as IndexedEntry<D>).document;
+            if (!options.filter || options.filter(document)) hits.push({ document, score });
+        }
+        hits.sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title));
+        return options.limit === undefined ? hits : hits.slice(0, options.limit);
+    };
+
+    return {
+        add,
+        remove,
+        get: id => entries.get(id)?.document,
+        ids: () => [...entries.keys()],
+        clear: () => {
+            entries.clear();
+            postings.clear();
+            totalLength = 0;
+            sortedTerms = null;
+        },
+        search,
+        get size() {
+            return entries.size;
+        },
+    };
+}
@@ -0,0 +1,249 @@
+/**
+ * Desktop-wide search over notes, documents, mail, to-dos, calendar events,
+ * bookmarks and clipboard history
+ *
+ * The service builds one in-memory index when created and then keeps it current:
+ * Dexie table hooks update single records as they are written, and file system
+ * notifications trigger a rescan that only re-reads files whose path, date or size
+ * changed. Subscribers are told when the index changes so visible results can refresh.
+ *
+ * @module utils/search/searchService
+ *
+ * @example
+ * ```ts
+ * const search = getSearchService(db);
+ * await search.ready;
+ * const results = search.search('quarterly report', { limit: 20 });
+ * ```
+ */
+import type { Table } from 'dexie';
+import { subscribeToFileSystem } from '../fileSystem';
+import type { Windows15DexieDB } from '../storage/db';
+import { joinPath, readFile, readdir } from '../vfs';
+import type { VfsStat } from '../vfs';
+import { createSearchIndex } from './searchIndex';
+import { createSnippet, highlightText } from './snippets';
+import type { SnippetSegment } from './snippets';
+import {
+    bookmarkToDocument,
+    calendarEventToDocument,
+    clipboardEntryToDocument,
+    emailToDocument,
+    fileToDocument,
+    noteToDocument,
+    todoToDocument,
+} from './sources';
+import type { SearchCategory, SearchDocument } from './sources';
+import { tokenize } from './tokenizer';
+
+export interface DesktopSearchResult {
+    document: SearchDocument;
+    score: number;
+    /** Title with matching words marked */
+    title: SnippetSegment[];
+    /** Excerpt of the body around the first match */
+    snippet: SnippetSegment[];
+}
+
+export interface DesktopSearchOptions {
+    /** Maximum number of results (default: 50) */
+    limit?: number;
+    /** Only search these categories */
+    categories?: SearchCategory[];
+}
+
+export interface SearchService {
+    /** Resolves once every source has been indexed for the first time */
+    readonly ready: Promise<void>;
+    search(query: string, options?: DesktopSearchOptions): DesktopSearchResult[];
+    /** Call `listener` whenever the index changes; returns an unsubscribe function */
+    subscribe(listener: () => void): () => void;
+    /** Stop watching for changes */
+    dispose(): void;
+}
+
+const DEFAULT_RESULT_LIMIT = 50;
+/** Deleted files stay in the tree until the bin is emptied, but aren't searchable */
+const RECYCLE_BIN_PATH = '/Recycle Bin';
+const TEXT_FILE_TYPES = new Set<VfsStat['type']>(['document', 'code']);
+
+type KeyedRecord = { id?: unknown };
+
+/**
+ * Create a search service over `db` and the virtual file system
+ *
+ * Most callers should use {@link getSearchService}, which shares one service per database.
+ */
+export function createSearchService(db: Windows15DexieDB): SearchService {
+    const index = createSearchIndex<SearchDocument>();
+    const listeners = new Set<() => void>();
+    const cleanups: (() => void)[] = [];
+
+    let notifyScheduled = false;
+    const notify = () => {
+        if (notifyScheduled) return;
+        notifyScheduled = true;
+        queueMicrotask(() => {
+            notifyScheduled = false;
+            listeners.forEach(listener => listener());
+        });
+    };
+
+    const put = (document: SearchDocument | null) => {
+        if (!document) return;
+        index.add(document);
+        notify();
+    };
+
+    const removeWhere = (matches: (id: string) => boolean) => {
+        for (const id of index.ids()) {
+            if (matches(id)) index.remove(id);
+        }
+        notify();
+    };
+
+    /**
+     * Index a table and follow its writes. Every source table is keyed by `id`, which
+     * `++id` tables only know once the record is stored, so it is taken from the key.
+     */
+    const watchTable = async <T extends KeyedRecord, K>(
+        table: Table<T, K>,
+        prefix: string,
+        toDocument: (record: T) => SearchDocument | null
+    ) => {
+        const onCreating = function (this: { onsuccess?: (key: K) => void }, _key: K, record: T) {
+            this.onsuccess = key => put(toDocument({ ...record, id: key }));
+        };
+        // A record can stop being searchable when it changes, e.g. text turning into an image
+        const onUpdating = function (this: { onsuccess?: (record: T) => void }, _changes: unknown, key: K) {
+            this.onsuccess = record => {
+                const document = toDocument(record);
+                if (document) put(document);
+                else removeWhere(id => id === `${prefix}:${String(key)}`);
+            };
+        };
+        const onDeleting = function (this: { onsuccess?: () => void }, key: K) {
+            this.onsuccess = () => removeWhere(id => id === `${prefix}:${String(key)}`);
+        };
+        table.hook('creating', onCreating);
+        table.hook('updating', onUpdating);
+        table.hook('deleting', onDeleting);
+        cleanups.push(() => {
+            table.hook('creating').unsubscribe(onCreating);
+            table.hook('updating').unsubscribe(onUpdating);
+            table.hook('deleting').unsubscribe(onDeleting);
+        });
+
+        for (const record of await table.toArray()) put(toDocument(record));
+    };
+
+    // Path, date and size of each indexed file, to skip re-reading unchanged files
+    const fileVersions = new Map<string, string>();
+
+    const syncFiles = async () => {
+        const seen = new Set<string>();
+        const visit = async (folder: string): Promise<void> => {
+            for (const entry of await readdir(folder)) {
+                const path = joinPath(folder, entry.name);
+                if (path === RECYCLE_BIN_PATH) continue;
+                if (entry.isDirectory) {
+                    await visit(path);
+                    continue;
+                }
+                const id = fileToDocument(entry).id;
+                const version = `${path}|${entry.date ?? ''}|${entry.size}`;
+                seen.add(id);
+                if (fileVersions.get(id) === version) continue;
+
+                const isText = !entry.isBinary && TEXT_FILE_TYPES.has(entry.type);
+                const content = isText ? await readFile(path).catch(() => '') : '';
+                put(fileToDocument({ ...entry, path }, content));
+                fileVersions.set(id, version);
+            }
+        };
+        await visit('/');
+
+        for (const id of fileVersions.keys()) {
+            if (seen.has(id)) continue;
+            fileVersions.delete(id);
+            index.remove(id);
+            notify();
+        }
+    };
+
+    // One scan at a time; changes during a scan queue exactly one more
+    let fileSync: Promise<void> | null = null;
+    let fileSyncQueued = false;
+    const scheduleFileSync = (): Promise<void> => {
+        if (fileSync) {
+            fileSyncQueued = true;
+            return fileSync;
+        }
+        fileSync = (async () => {
+            do {
+                fileSyncQueued = false;
+                await syncFiles();
+            } while (fileSyncQueued);
+        })().finally(() => {
+            fileSync = null;
+        });
+        return fileSync;
+    };
+
+    cleanups.push(subscribeToFileSystem('files', () => void scheduleFileSync().catch(() => undefined)));
+
+    const sources: [string, Promise<void>][] = [
+        ['notes', watchTable(db.notes, 'note', noteToDocument)],
+        ['mail', watchTable(db.emails, 'mail', emailToDocument)],
+        ['todos', watchTable(db.todos, 'todo', todoToDocument)],
+        ['bookmarks', watchTable(db.bookmarks, 'bookmark', bookmarkToDocument)],
+        ['clipboard', watchTable(db.$clipboardHistory, 'clipboard', clipboardEntryToDocument)],
+        ['calendar', watchTable(db.calendarEvents, 'calendar', calendarEventToDocument)],
+        ['files', scheduleFileSync()],
+    ];
+    const ready = Promise.all(
+        sources.map(([name, loading]) =>
+            loading.catch(error => console.error(`[search] Failed to index ${name}:`, error))
+        )
+    ).then(() => undefined);
+
+    return {
+        ready,
+        search: (query, options = {}) => {
+            const terms = tokenize(query);
+            const categories = options.categories;
+            const hits = index.search(query, {
+                limit: options.limit ?? DEFAULT_RESULT_LIMIT,
+                filter: categories ? document => categories.includes(document.category) : undefined,
+            });
+            return hits.map(({ document, score }) => ({
+                document,
+                score,
+                title: highlightText(document.title, terms),
+                snippet: document.body ? createSnippet(document.body, terms) : [],
+            }));
+        },
+        subscribe: listener => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        dispose: () => {
+            cleanups.splice(0).forEach(cleanup => cleanup());
+            listeners.clear();
+        },
+    };
+}
+
+const services = new WeakMap<Windows15DexieDB, SearchService>();
+
+/**
+ * The shared search service of `db`, created on first use
+ */
+export function getSearchService(db: Windows15DexieDB): SearchService {
+    let service = services.get(db);
+    if (!service) {
+        service = createSearchService(db);
+        services.set(db, service);
+    }
+    return service;
+}
@@ -0,0 +1,71 @@
+/**
+ * Highlighted snippets for search results
+ *
+ * @module utils/search/snippets
+ */
+import { splitWords } from './tokenizer';
+
+/**
+ * A piece of displayed text; `match` marks the parts that matched the query
+ */
+export interface SnippetSegment {
+    text: string;
+    match: boolean;
+}
+
+const DEFAULT_SNIPPET_LENGTH = 160;
+
+const matchesTerm = (token: string, terms: string[]) => terms.some(term => token.startsWith(term));
+
+/**
+ * Split text into segments, marking the words that match (or start with) a query term
+ *
+ * @param terms - Normalized query tokens, as returned by `tokenize`
+ */
+export function highlightText(text: string, terms: string[]): SnippetSegment[] {
+    const segments: SnippetSegment[] = [];
+    let offset = 0;
+    const push = (segment: SnippetSegment) => {
+        const last = segments[segments.length - 1];
+        if (last && last.match === segment.match) last.text += segment.text;
+        else if (segment.text) segments.push(segment);
+    };
+
+    for (const word of splitWords(text)) {
+        if (!matchesTerm(word.token, terms)) continue;
+        push({ text: text.slice(offset, word.start), match: false });
+        push({ text: word.text, match: true });
+        offset = word.start + word.text.length;
+    }
+    push({ text: text.slice(offset), match: false });
+    return segments;
+}
+
+/**
+ * A short excerpt of `text` around its first match, with the matches highlighted
+ *
+ * Whitespace is collapsed and cut-off ends are marked with an ellipsis. Without a
+ * match the excerpt is taken from the start of the text.
+ */
+export function createSnippet(text: string, terms: string[], maxLength = DEFAULT_SNIPPET_LENGTH): SnippetSegment[] {
+    const firstMatch = splitWords(text).find(word => matchesTerm(word.token, terms));
+    let start = firstMatch ? Math.max(0, firstMatch.start - Math.floor(maxLength / 4)) : 0;
+    // Don't start in the middle of a word
+    if (start > 0) {
+        const space = text.slice(start, firstMatch?.start).search(/\s/);
+        start = space === -1 ? (firstMatch?.start ?? start) : start + space + 1;
+    }
+    const end = Math.min(text.length, start + maxLength);
+
+    const segments = highlightText(text.slice(start, end), terms).map(segment => ({
+        ...segment,
+        text: segment.text.replace(/\s+/g, ' '),
+    }));
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    if (first && !first.match) first.text = first.text.trimStart();
+    if (last && !last.match) last.text = last.text.trimEnd();
+    if (start > 0) segments.unshift({ text: '…', match: false });
+    if (end < text.length) segments.push({ text: '…', match: false });
+    return segments.filter(segment => segment.text);
+}
@@ -0,0 +1,127 @@
+/**
+ * Searchable data sources and how their records become search documents
+ *
+ * @module utils/search/sources
+ */
+import type {
+    BookmarkRecord,
+    CalendarEventRecord,
+    ClipboardHistoryRecord,
+    EmailRecord,
+    NoteRecord,
+    TodoRecord,
+} from '../storage/db';
+import type { VfsStat } from '../vfs';
+import { dirname } from '../vfs';
+import type { SearchableDocument } from './searchIndex';
+
+export type SearchCategory = 'notes' | 'files' | 'mail' | 'todos' | 'calendar' | 'bookmarks' | 'clipboard';
+
+/**
+ * Display label and icon of each category
+ */
+export const SEARCH_CATEGORIES: Record<SearchCategory, { label: string; icon: string }> = {
+    notes: { label: 'Notes', icon: 'sticky_note_2' },
+    files: { label: 'Documents', icon: 'description' },
+    mail: { label: 'Mail', icon: 'mail' },
+    todos: { label: 'To Do', icon: 'checklist' },
+    calendar: { label: 'Calendar', icon: 'calendar_month' },
+    bookmarks: { label: 'Bookmarks', icon: 'bookmark' },
+    clipboard: { label: 'Clipboard', icon: 'content_paste' },
+};
+
+/**
+ * What opening a result does
+ * - `app`: open an app with props that select the item
+ * - `file`: open a VFS file with its default app
+ * - `copy`: copy text to the clipboard
+ */
+export type SearchTarget =
+    | { kind: 'app'; appId: string; props?: Record<string, unknown> }
+    | { kind: 'file'; path: string }
+    | { kind: 'copy'; text: string };
+
+export interface SearchDocument extends SearchableDocument {
+    category: SearchCategory;
+    /** Secondary line shown with the result (folder, sender, date, ...) */
+    detail?: string;
+    target: SearchTarget;
+}
+
+/**
+ * Longest text indexed per document; the rest is not searchable
+ */
+export const MAX_INDEXED_TEXT_LENGTH = 100_000;
+
+const clip = (text: string) => text.slice(0, MAX_INDEXED_TEXT_LENGTH);
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+export const noteToDocument = (note: NoteRecord): SearchDocument => ({
+    id: `note:${note.id}`,
+    category: 'notes',
+    title: note.title || 'Untitled note',
+    body: clip(note.content),
+    detail: `Edited ${formatDate(note.updatedAt)}`,
+    target: { kind: 'app', appId: 'notepad', props: { initialNoteId: note.id } },
+});
+
+export const fileToDocument = (file: VfsStat, content = ''): SearchDocument => ({
+    id: `file:${file.id}`,
+    category: 'files',
+    title: file.name,
+    body: clip(content),
+    detail: dirname(file.path),
+    target: { kind: 'file', path: file.path },
+});
+
+export const emailToDocument = (email: EmailRecord): SearchDocument => ({
+    id: `mail:${email.id}`,
+    category: 'mail',
+    title: email.subject || '(no subject)',
+    body: clip([email.from, ...email.to, email.body].join('\n')),
+    detail: `${email.from} · ${formatDate(email.date)}`,
+    target: { kind: 'app', appId: 'mail', props: { initialMessageId: email.id } },
+});
+
+export const todoToDocument = (todo: TodoRecord): SearchDocument => ({
+    id: `todo:${todo.id}`,
+    category: 'todos',
+    title: todo.text,
+    body: '',
+    detail: todo.completed ? 'Completed' : todo.dueDate ? `Due ${formatDate(todo.dueDate)}` : undefined,
+    target: { kind: 'app', appId: 'todolist' },
+});
+
+export const calendarEventToDocument = (event: CalendarEventRecord): SearchDocument => ({
+    id: `calendar:${event.id}`,
+    category: 'calendar',
+    title: event.title,
+    body: clip([event.location, event.notes].filter(Boolean).join('\n')),
+    detail: `${event.allDay ? event.date : `${event.date} ${event.startTime}`}${event.rrule ? ' · Repeats' : ''}`,
+    target: { kind: 'app', appId: 'calendar', props: { initialDate: event.date } },
+});
+
+export const bookmarkToDocument = (bookmark: BookmarkRecord): SearchDocument => ({
+    id: `bookmark:${bookmark.id}`,
+    category: 'bookmarks',
+    title: bookmark.title || bookmark.url,
+    body: bookmark.url,
+    detail: bookmark.folder || undefined,
+    target: { kind: 'app', appId: 'browser', props: { initialUrl: bookmark.url } },
+});
+
+/**
+ * Clipboard entries; images are not searchable and map to null
+ */
+export const clipboardEntryToDocument = (entry: ClipboardHistoryRecord): SearchDocument | null =>
+    entry.contentType === 'text' && entry.id !== undefined
+        ? {
+              id: `clipboard:${entry.id}`,
+              category: 'clipboard',
+              title: entry.preview || entry.content.slice(0, 80),
+              body: clip(entry.content),
+              detail: `Copied ${formatDate(entry.copiedAt)}`,
+              target: { kind: 'copy', text: entry.content },
+          }
+        : null;
@@ -0,0 +1,45 @@
+/**
+ * Text normalization and tokenization for the search index
+ *
+ * Text is lowercased and stripped of diacritics, so "Café" and "cafe" match.
+ * Tokens are runs of letters and digits; everything else separates them.
+ *
+ * @module utils/search/tokenizer
+ */
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * A word in the original text, with its normalized form
+ */
+export interface TextWord {
+    /** The word as written */
+    text: string;
+    /** Offset of the word in the original text */
+    start: number;
+    /** Normalized form used for matching */
+    token: string;
+}
+
+/**
+ * Lowercase text and strip diacritics
+ */
+export const normalizeText = (text: string): string => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Split text into words, keeping their positions in the original text
+ */
+export const splitWords = (text: string): TextWord[] =>
+    Array.from(text.matchAll(WORD_PATTERN), match => ({
+        text: match[0],
+        start: match.index,
+        token: normalizeText(match[0]),
+    }));
+
+/**
+ * Split text into normalized tokens
+ *
+ * @example
+ * tokenize('Crème brûlée, 2 servings'); // ['creme', 'brulee', '2', 'servings']
+ */
+export const tokenize = (text: string): string[] => normalizeText(text).match(WORD_PATTERN) ?? [];
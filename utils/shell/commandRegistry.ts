@@ -0,0 +1,243 @@
+/**
+ * Terminal command registry
+ *
+ * Lets apps and modules contribute Terminal commands without touching
+ * `apps/Terminal.tsx`. Registered commands are discovered by `help` and Tab
+ * completion, and receive the shell's stdin/stdout streams so they work in
+ * pipelines and with redirection.
+ *
+ * @module utils/shell/commandRegistry
+ *
+ * @example
+ * ```ts
+ * terminalCommands.register({
+ *     name: 'greet',
+ *     description: 'Print a greeting',
+ *     args: [{ name: 'name', optional: true }],
+ *     run: ({ args, stdout }) => stdout(`Hello, ${args[0] ?? 'world'}!`),
+ * });
+ * ```
+ */
+import type { Windows15DexieDB } from '../storage/db';
+import { EXIT_USAGE } from './interpreter';
+import type { ShellEnvironment, ShellIO } from './interpreter';
+import { coreutils, SHELL_COMMAND_SOURCE } from './coreutils';
+
+/**
+ * Positional argument accepted by a command
+ */
+export interface CommandArgumentSpec {
+    /** Argument name shown in usage (`<name>`) */
+    name: string;
+    /** Short description shown by `help <command>` */
+    description?: string;
+    /** Whether the argument may be omitted (`[name]`) */
+    optional?: boolean;
+    /** Whether the argument collects all remaining words (`<name...>`) */
+    variadic?: boolean;
+}
+
+/**
+ * OS services available to commands
+ */
+export interface TerminalServices {
+    db: Windows15DexieDB;
+    openWindow: (appId: string, props?: Record<string, unknown>) => void;
+    setWallpaper: (url: string) => Promise<void>;
+    /** Save the current windows and wallpaper as a named workspace */
+    saveWorkspace: (name: string) => Promise<void>;
+    /** Open a named workspace; resolves false if there is none with that name */
+    openWorkspace: (name: string) => Promise<boolean>;
+}
+
+/**
+ * Everything a command handler receives: the shell streams plus its arguments
+ */
+export interface TerminalCommandContext extends ShellIO {
+    /** Arguments after the command (and subcommand) name */
+    args: string[];
+    /** Session variables */
+    env: ShellEnvironment;
+    /** Current working directory as a VFS path */
+    cwd: string;
+    services: TerminalServices;
+}
+
+/**
+ * Context passed to completion providers
+ */
+export type CommandCompletionContext = Pick<TerminalCommandContext, 'cwd' | 'env' | 'services'>;
+
+/**
+ * Suggest values for the last argument. `args` holds the arguments typed so far,
+ * the last entry being the (possibly empty) word under the cursor.
+ */
+export type CommandCompletionProvider = (
+    args: string[],
+    context: CommandCompletionContext
+) => string[] | Promise<string[]>;
+
+/**
+ * A Terminal command definition
+ */
+export interface TerminalCommand {
+    /** Command name as typed (lowercase) */
+    name: string;
+    /** One-line description shown by `help` */
+    description: string;
+    /** Usage line; generated from `args` and `subcommands` when omitted */
+    usage?: string;
+    /** Positional argument spec, used for usage text and validation */
+    args?: CommandArgumentSpec[];
+    /** Nested commands (`todo add`, `todo ls`) */
+    subcommands?: TerminalCommand[];
+    /** Completion provider for arguments */
+    complete?: CommandCompletionProvider;
+    /** Handler; resolves with an exit status (default 0) */
+    run?: (context: TerminalCommandContext) => Promise<number | void> | number | void;
+}
+
+/**
+ * Registered command with the ID of the app that contributed it
+ */
+export interface RegisteredCommand extends TerminalCommand {
+    source?: string;
+}
+
+export interface CommandRegistry {
+    /**
+     * Register a command
+     * @param command - Command definition
+     * @param source - ID of the contributing app, shown by `help`
+     * @returns Unregister function
+     */
+    register(command: TerminalCommand, source?: string): () => void;
+    /** Look up a command by name (case-insensitive) */
+    get(name: string): RegisteredCommand | undefined;
+    /** All registered commands sorted by name */
+    list(): RegisteredCommand[];
+    /**
+     * Run a command line split into argv
+     * @returns Exit status, or null when no command with that name is registered
+     */
+    execute(argv: string[], context: Omit<TerminalCommandContext, 'args'>): Promise<number | null>;
+    /**
+     * Suggest values for the word under the cursor
+     * @param words - Words of the current command, the last one being completed
+     */
+    complete(words: string[], context: CommandCompletionContext): Promise<string[]>;
+}
+
+/**
+ * Build the usage line for a command (`todo add <text...>`)
+ */
+export const formatCommandUsage = (command: TerminalCommand, prefix = ''): string => {
+    const name = prefix ? `${prefix} ${command.name}` : command.name;
+    if (command.usage) return command.usage;
+    if (command.subcommands?.length) {
+        return `${name} <${command.subcommands.map(sub => sub.name).join('|')}>`;
+    }
+    const args = (command.args ?? []).map(arg => {
+        const label = arg.variadic ? `${arg.name}...` : arg.name;
+        return arg.optional ? `[${label}]` : `<${label}>`;
+    });
+    return [name, ...args].join(' ');
+};
+
+/**
+ * Resolve subcommands: `['todo', 'add', 'milk']` -> the `add` command with args `['milk']`
+ */
+const resolveSubcommand = (
+    command: TerminalCommand,
+    args: string[],
+    prefix: string
+): { command: TerminalCommand; args: string[]; prefix: string } => {
+    const [first, ...rest] = args;
+    const sub = first ? command.subcommands?.find(s => s.name === first.toLowerCase()) : undefined;
+    if (!sub) return { command, args, prefix };
+    return resolveSubcommand(sub, rest, `${prefix} ${command.name}`.trim());
+};
+
+/**
+ * Create a command registry
+ */
+export const createCommandRegistry = (): CommandRegistry => {
+    const commands = new Map<string, RegisteredCommand>();
+
+    const get = (name: string) => commands.get(name.toLowerCase());
+
+    return {
+        register(command, source) {
+            const name = command.name.toLowerCase();
+            if (commands.has(name)) {
+                console.warn(`[terminalCommands] Command "${name}" is already registered; replacing it`);
+            }
+            const registered: RegisteredCommand = { ...command, name, source };
+            commands.set(name, registered);
+            return () => {
+                if (commands.get(name) === registered) commands.delete(name);
+            };
+        },
+
+        get,
+
+        list() {
+            return [...commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+        },
+
+        async execute(argv, context) {
+            const [name, ...rest] = argv;
+            const root = name ? get(name) : undefined;
+            if (!root) return null;
+
+            const { command, args, prefix } = resolveSubcommand(root, rest, '');
+            const usage = `Usage: ${formatCommandUsage(command, prefix)}`;
+
+            if (!command.run) {
+                context.stderr(usage);
+                return EXIT_USAGE;
+            }
+
+            const spec = command.args ?? [];
+            const required = spec.filter(arg => !arg.optional).length;
+            const accepts = spec.some(arg => arg.variadic) ? Infinity : spec.length;
+            if (command.args && (args.length < required || args.length > accepts)) {
+                context.stderr(usage);
+                return EXIT_USAGE;
+            }
+
+            return (await command.run({ ...context, args })) ?? 0;
+        },
+
+        async complete(words, context) {
+            const [name, ...rest] = words;
+            const current = words[words.length - 1] ?? '';
+
+            if (rest.length === 0) {
+                return [...commands.keys()].filter(key => key.startsWith((name ?? '').toLowerCase())).sort();
+            }
+
+            const root = get(name ?? '');
+            if (!root) return [];
+
+            // Walk into subcommands for every complete word before the one being typed
+            const { command, args } = resolveSubcommand(root, rest.slice(0, -1), '');
+            if (args.length === 0 && command.subcommands?.length) {
+                return command.subcommands
+                    .map(sub => sub.name)
+                    .filter(sub => sub.startsWith(current.toLowerCase()))
+                    .sort();
+            }
+
+            if (!command.complete) return [];
+            const candidates = await command.complete([...args, current], context);
+            return candidates.filter(candidate => candidate.toLowerCase().startsWith(current.toLowerCase()));
+        },
+    };
+};
+
+/**
+ * Shared registry used by the Terminal, preloaded with the file and text utilities
+ */
+export const terminalCommands = createCommandRegistry();
+coreutils.forEach(command => terminalCommands.register(command, SHELL_COMMAND_SOURCE));
@@ -0,0 +1,629 @@
+/**
+ * Unix-style file and text utilities for the Terminal
+ *
+ * `grep`, `head`, `tail`, `wc`, `sort`, `uniq`, `find`, `rm`, `mv`, `cp` and
+ * `tree`, implemented on top of the VFS. Filters read their operands or, when
+ * none are given, stdin, so they combine with pipes and redirection. `rm` moves
+ * items to the Recycle Bin like File Explorer's delete does.
+ *
+ * The commands are registered on {@link terminalCommands} with the source
+ * {@link SHELL_COMMAND_SOURCE}.
+ *
+ * @module utils/shell/coreutils
+ */
+import { basename, globSegmentToRegExp, isVfsError, resolvePath, vfs } from '../vfs';
+import type { VfsErrorCode, VfsStat } from '../vfs';
+import { EXIT_USAGE, splitLines } from './interpreter';
+import type { CommandCompletionProvider, TerminalCommand, TerminalCommandContext } from './commandRegistry';
+
+/** Registry source of the commands in this module */
+export const SHELL_COMMAND_SOURCE = 'shell';
+
+const ERRNO_TEXT: Record<VfsErrorCode, string> = {
+    ENOENT: 'No such file or directory',
+    EEXIST: 'File exists',
+    ENOTDIR: 'Not a directory',
+    EISDIR: 'Is a directory',
+    EINVAL: 'Invalid argument',
+    ENOTEMPTY: 'Directory not empty',
+};
+
+const describeError = (error: unknown): string => {
+    if (isVfsError(error)) return ERRNO_TEXT[error.code];
+    return error instanceof Error ? error.message : String(error);
+};
+
+interface ParsedOptions {
+    /** Flags that were set (single letters, or long names without dashes) */
+    flags: Set<string>;
+    /** Values of options that take an argument */
+    values: Map<string, string>;
+    operands: string[];
+}
+
+interface OptionSpec {
+    /** Single-letter flags, e.g. `'inrv'` */
+    flags?: string;
+    /** Single-letter options taking a value, e.g. `'n'` */
+    values?: string;
+    /** Long flags, e.g. `['permanent']` */
+    long?: string[];
+}
+
+/**
+ * Parse `-abc`, `-n 5`, `-n5`, `--long` and `--` into flags, values and operands.
+ * Prints an error and returns null for unknown options.
+ */
+const parseOptions = (
+    name: string,
+    args: string[],
+    spec: OptionSpec,
+    stderr: (text: string) => void
+): ParsedOptions | null => {
+    const parsed: ParsedOptions = { flags: new Set(), values: new Map(), operands: [] };
+
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index] as string;
+        if (arg === '--') {
+            parsed.operands.push(...args.slice(index + 1));
+            break;
+        }
+        if (arg.startsWith('--')) {
+            const option = arg.slice(2);
+            if (!spec.long?.includes(option)) {
+                stderr(`${name}: unrecognized option '${arg}'`);
+                return null;
+            }
+            parsed.flags.add(option);
+            continue;
+        }
+        if (!arg.startsWith('-') || arg === '-') {
+            parsed.operands.push(arg);
+            continue;
+        }
+
+        for (let position = 1; position < arg.length; position++) {
+            const letter = arg[position] as string;
+            if (spec.values?.includes(letter)) {
+                const value = arg.slice(position + 1) || args[++index];
+                if (value === undefined) {
+                    stderr(`${name}: option requires an argument -- '${letter}'`);
+                    return null;
+                }
+                parsed.values.set(letter, value);
+                break;
+            }
+            if (!spec.flags?.includes(letter)) {
+                stderr(`${name}: invalid option -- '${letter}'`);
+                return null;
+            }
+            parsed.flags.add(letter);
+        }
+    }
+
+    return parsed;
+};
+
+/**
+ * Complete file and folder names relative to the working directory
+ */
+export const completePath: CommandCompletionProvider = async (args, { cwd }) => {
+    const current = args[args.length - 1] ?? '';
+    const slash = current.lastIndexOf('/');
+    const folder = slash === -1 ? '' : current.slice(0, slash + 1);
+    try {
+        const entries = await vfs.readdir(resolvePath(cwd, folder || '.'));
+        return entries.map(entry => `${folder}${entry.name}${entry.isDirectory ? '/' : ''}`);
+    } catch {
+        return [];
+    }
+};
+
+/** Append a child name to a path as the user typed it */
+const joinDisplay = (parent: string, name: string): string => {
+    return parent.endsWith('/') ? `${parent}${name}` : `${parent}/${name}`;
+};
+
+type WalkEntry = { display: string; stat: VfsStat };
+
+/**
+ * List everything below a folder, parents before children, in display order
+ */
+const walk = async (display: string, path: string): Promise<WalkEntry[]> => {
+    const entries: WalkEntry[] = [];
+    for (const stat of await vfs.readdir(path)) {
+        const childDisplay = joinDisplay(display, stat.name);
+        entries.push({ display: childDisplay, stat });
+        if (stat.isDirectory) entries.push(...(await walk(childDisplay, stat.path)));
+    }
+    return entries;
+};
+
+type Source = { label: string; text: string };
+
+/**
+ * Read the text of each operand, or stdin when there are none.
+ * Unreadable operands are reported and skipped.
+ */
+const readSources = async (
+    name: string,
+    operands: string[],
+    { stdin, cwd, stderr }: TerminalCommandContext
+): Promise<{ sources: Source[]; status: number }> => {
+    if (operands.length === 0) return { sources: [{ label: '', text: stdin }], status: 0 };
+
+    const sources: Source[] = [];
+    let status = 0;
+    for (const operand of operands) {
+        if (operand === '-') {
+            sources.push({ label: '-', text: stdin });
+            continue;
+        }
+        try {
+            sources.push({ label: operand, text: await vfs.readFile(resolvePath(cwd, operand)) });
+        } catch (error) {
+            stderr(`${name}: ${operand}: ${describeError(error)}`);
+            status = 1;
+        }
+    }
+    return { sources, status };
+};
+
+/**
+ * Parse a line count option (`-n 5`, `-5`)
+ */
+const parseCount = (value: string | undefined, fallback: number): number | null => {
+    if (value === undefined) return fallback;
+    const count = Number(value.replace(/^\+/, ''));
+    return Number.isInteger(count) && count >= 0 ? count : null;
+};
+
+/**
+ * Shared implementation of `head` and `tail`
+ */
+const lineSlicer = (name: 'head' | 'tail'): TerminalCommand['run'] => {
+    return async context => {
+        const { stdout, stderr } = context;
+        // `-5` is shorthand for `-n 5`
+        const args = context.args.map(arg => (/^-\d+$/.test(arg) ? `-n${arg.slice(1)}` : arg));
+        const options = parseOptions(name, args, { values: 'n' }, stderr);
+        if (!options) return EXIT_USAGE;
+
+        const value = options.values.get('n');
+        const count = parseCount(value, 10);
+        if (count === null) {
+            stderr(`${name}: invalid number of lines: '${value}'`);
+            return EXIT_USAGE;
+        }
+        // `tail -n +3` prints from the third line on
+        const fromStart = name === 'tail' && value?.startsWith('+');
+
+        const { sources, status } = await readSources(name, options.operands, context);
+        sources.forEach((source, index) => {
+            if (sources.length > 1) {
+                if (index > 0) stdout('');
+                stdout(`==> ${source.label} <==`);
+            }
+            const lines = splitLines(source.text);
+            let selected: string[];
+            if (name === 'head') selected = lines.slice(0, count);
+            else if (fromStart) selected = lines.slice(Math.max(count - 1, 0));
+            else selected = count === 0 ? [] : lines.slice(-count);
+            selected.forEach(line => stdout(line));
+        });
+        return status;
+    };
+};
+
+const grepCommand: TerminalCommand = {
+    name: 'grep',
+    description: 'Search for lines matching a regular expression',
+    usage: 'grep [-inrv] <pattern> [file...]',
+    complete: completePath,
+    run: async context => {
+        const { cwd, stdout, stderr } = context;
+        const options = parseOptions('grep', context.args, { flags: 'inrvR' }, stderr);
+        if (!options) return EXIT_USAGE;
+        const [pattern, ...operands] = options.operands;
+        if (pattern === undefined) {
+            stderr('Usage: grep [-inrv] <pattern> [file...]');
+            return EXIT_USAGE;
+        }
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(pattern, options.flags.has('i') ? 'i' : '');
+        } catch {
+            stderr(`grep: invalid regular expression: ${pattern}`);
+            return EXIT_USAGE;
+        }
+
+        const recursive = options.flags.has('r') || options.flags.has('R');
+        const invert = options.flags.has('v');
+        const targets = operands.length === 0 && recursive ? ['.'] : operands;
+
+        // Expand folders into their files for -r
+        let sources: Source[] = [];
+        let status = 0;
+        if (targets.length === 0) {
+            sources = [{ label: '', text: context.stdin }];
+        } else {
+            for (const target of targets) {
+                const stat = target === '-' ? null : await vfs.stat(resolvePath(cwd, target));
+                if (!stat?.isDirectory) {
+                    const read = await readSources('grep', [target], context);
+                    sources.push(...read.sources);
+                    status = Math.max(status, read.status);
+                    continue;
+                }
+                if (!recursive) {
+                    stderr(`grep: ${target}: Is a directory`);
+                    status = 1;
+                    continue;
+                }
+                for (const entry of await walk(target, stat.path)) {
+                    if (entry.stat.isDirectory || entry.stat.isBinary) continue;
+                    sources.push({ label: entry.display, text: await vfs.readFile(entry.stat.path) });
+                }
+            }
+        }
+
+        const showLabel = recursive || sources.length > 1;
+        let matched = false;
+        for (const source of sources) {
+            splitLines(source.text).forEach((line, index) => {
+                if (regex.test(line) === invert) return;
+                matched = true;
+                const prefix = `${showLabel ? `${source.label}:` : ''}${options.flags.has('n') ? `${index + 1}:` : ''}`;
+                stdout(`${prefix}${line}`);
+            });
+        }
+
+        // Like GNU grep: errors win over "no match"
+        if (status !== 0) return 2;
+        return matched ? 0 : 1;
+    },
+};
+
+const headCommand: TerminalCommand = {
+    name: 'head',
+    description: 'Print the first lines of files',
+    usage: 'head [-n count] [file...]',
+    complete: completePath,
+    run: lineSlicer('head'),
+};
+
+const tailCommand: TerminalCommand = {
+    name: 'tail',
+    description: 'Print the last lines of files',
+    usage: 'tail [-n count|+start] [file...]',
+    complete: completePath,
+    run: lineSlicer('tail'),
+};
+
+const wcCommand: TerminalCommand = {
+    name: 'wc',
+    description: 'Count lines, words and bytes',
+    usage: 'wc [-lwc] [file...]',
+    complete: completePath,
+    run: async context => {
+        const options = parseOptions('wc', context.args, { flags: 'lwc' }, context.stderr);
+        if (!options) return EXIT_USAGE;
+
+        const selected = ['l', 'w', 'c'].filter(flag => options.flags.has(flag));
+        const columns = selected.length > 0 ? selected : ['l', 'w', 'c'];
+        const { sources, status } = await readSources('wc', options.operands, context);
+
+        const count = (text: string): Record<string, number> => ({
+            l: (text.match(/\n/g) ?? []).length,
+            w: text.split(/\s+/).filter(Boolean).length,
+            c: new TextEncoder().encode(text).length,
+        });
+        const print = (counts: Record<string, number>, label: string) => {
+            const numbers = columns.map(column => String(counts[column] ?? 0).padStart(7));
+            context.stdout(`${numbers.join(' ')}${label ? ` ${label}` : ''}`);
+        };
+
+        const totals: Record<string, number> = { l: 0, w: 0, c: 0 };
+        sources.forEach(source => {
+            const counts = count(source.text);
+            Object.keys(totals).forEach(key => (totals[key] = (totals[key] ?? 0) + (counts[key] ?? 0)));
+            print(counts, source.label);
+        });
+        if (sources.length > 1) print(totals, 'total');
+        return status;
+    },
+};
+
+const sortCommand: TerminalCommand = {
+    name: 'sort',
+    description: 'Sort lines of text',
+    usage: 'sort [-fnru] [file...]',
+    complete: completePath,
+    run: async context => {
+        const options = parseOptions('sort', context.args, { flags: 'fnru' }, context.stderr);
+        if (!options) return EXIT_USAGE;
+
+        const { sources, status } = await readSources('sort', options.operands, context);
+        const ignoreCase = options.flags.has('f');
+        const key = (line: string) => (ignoreCase ? line.toLowerCase() : line);
+        const compare = options.flags.has('n')
+            ? (a: string, b: string) => (parseFloat(a) || 0) - (parseFloat(b) || 0) || a.localeCompare(b)
+            : (a: string, b: string) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+
+        let lines = sources.flatMap(source => splitLines(source.text)).sort(compare);
+        if (options.flags.has('r')) lines.reverse();
+        if (options.flags.has('u')) {
+            lines = lines.filter((line, index) => index === 0 || compare(lines[index - 1] as string, line) !== 0);
+        }
+        lines.forEach(line => context.stdout(line));
+        return status;
+    },
+};
+
+const uniqCommand: TerminalCommand = {
+    name: 'uniq',
+    description: 'Collapse adjacent duplicate lines',
+    usage: 'uniq [-cdi] [file]',
+    complete: completePath,
+    run: async context => {
+        const options = parseOptions('uniq', context.args, { flags: 'cdi' }, context.stderr);
+        if (!options) return EXIT_USAGE;
+        if (options.operands.length > 1) {
+            context.stderr('Usage: uniq [-cdi] [file]');
+            return EXIT_USAGE;
+        }
+
+        const { sources, status } = await readSources('uniq', options.operands, context);
+        const key = (line: string) => (options.flags.has('i') ? line.toLowerCase() : line);
+        const groups: Array<{ line: string; count: number }> = [];
+        for (const line of splitLines(sources[0]?.text ?? '')) {
+            const last = groups[groups.length - 1];
+            if (last && key(last.line) === key(line)) last.count++;
+            else groups.push({ line, count: 1 });
+        }
+
+        groups
+            .filter(group => !options.flags.has('d') || group.count > 1)
+            .forEach(group => {
+                context.stdout(
+                    options.flags.has('c') ? `${String(group.count).padStart(7)} ${group.line}` : group.line
+                );
+            });
+        return status;
+    },
+};
+
+const findCommand: TerminalCommand = {
+    name: 'find',
+    description: 'Find files by name',
+    usage: 'find [path...] [-name pattern] [-type f|d]',
+    complete: completePath,
+    run: async ({ args, cwd, stdout, stderr }) => {
+        const starts: string[] = [];
+        let namePattern: RegExp | null = null;
+        let type: 'f' | 'd' | null = null;
+
+        for (let index = 0; index < args.length; index++) {
+            const arg = args[index] as string;
+            const value = args[index + 1];
+            if (arg === '-name' || arg === '-iname') {
+                if (value === undefined) {
+                    stderr(`find: missing argument to '${arg}'`);
+                    return EXIT_USAGE;
+                }
+                namePattern = globSegmentToRegExp(value, { caseSensitive: arg === '-name' });
+                index++;
+            } else if (arg === '-type') {
+                if (value !== 'f' && value !== 'd') {
+                    stderr(`find: unknown argument to -type: ${value ?? ''}`);
+                    return EXIT_USAGE;
+                }
+                type = value;
+                index++;
+            } else if (arg.startsWith('-')) {
+                stderr(`find: unknown predicate '${arg}'`);
+                return EXIT_USAGE;
+            } else {
+                starts.push(arg);
+            }
+        }
+
+        const matches = (name: string, stat: VfsStat) => {
+            if (type === 'f' && stat.isDirectory) return false;
+            if (type === 'd' && !stat.isDirectory) return false;
+            return !namePattern || namePattern.test(name);
+        };
+
+        let status = 0;
+        for (const start of starts.length > 0 ? starts : ['.']) {
+            const stat = await vfs.stat(resolvePath(cwd, start));
+            if (!stat) {
+                stderr(`find: '${start}': No such file or directory`);
+                status = 1;
+                continue;
+            }
+            if (matches(basename(start) || start, stat)) stdout(start);
+            if (!stat.isDirectory) continue;
+            for (const entry of await walk(start, stat.path)) {
+                if (matches(entry.stat.name, entry.stat)) stdout(entry.display);
+            }
+        }
+        return status;
+    },
+};
+
+const rmCommand: TerminalCommand = {
+    name: 'rm',
+    description: 'Move files and folders to the Recycle Bin',
+    usage: 'rm [-rf] [--permanent] <path...>',
+    complete: completePath,
+    run: async ({ args, cwd, stderr }) => {
+        const options = parseOptions('rm', args, { flags: 'rRf', long: ['permanent'] }, stderr);
+        if (!options) return EXIT_USAGE;
+        const force = options.flags.has('f');
+        const recursive = options.flags.has('r') || options.flags.has('R');
+        if (options.operands.length === 0) {
+            if (force) return 0;
+            stderr('rm: missing operand');
+            return EXIT_USAGE;
+        }
+
+        let status = 0;
+        for (const operand of options.operands) {
+            const stat = await vfs.stat(resolvePath(cwd, operand));
+            if (!stat) {
+                if (!force) {
+                    stderr(`rm: cannot remove '${operand}': No such file or directory`);
+                    status = 1;
+                }
+                continue;
+            }
+            if (stat.isDirectory && !recursive) {
+                stderr(`rm: cannot remove '${operand}': Is a directory`);
+                status = 1;
+                continue;
+            }
+            try {
+                await vfs.remove(stat.path, { recursive, permanent: options.flags.has('permanent') });
+            } catch (error) {
+                stderr(`rm: cannot remove '${operand}': ${describeError(error)}`);
+                status = 1;
+            }
+        }
+        return status;
+    },
+};
+
+/**
+ * Shared implementation of `mv` and `cp`: resolve sources and destination,
+ * sending files that would be overwritten to the Recycle Bin first.
+ */
+const transfer = (name: 'mv' | 'cp'): TerminalCommand['run'] => {
+    return async ({ args, cwd, stderr }) => {
+        const options = parseOptions(name, args, { flags: name === 'cp' ? 'rR' : '' }, stderr);
+        if (!options) return EXIT_USAGE;
+        const sources = options.operands.slice(0, -1);
+        const destination = options.operands[options.operands.length - 1];
+        if (destination === undefined || sources.length === 0) {
+            stderr(`${name}: missing destination file operand`);
+            return EXIT_USAGE;
+        }
+
+        const destinationPath = resolvePath(cwd, destination);
+        const destinationStat = await vfs.stat(destinationPath);
+        if (sources.length > 1 && !destinationStat?.isDirectory) {
+            stderr(`${name}: target '${destination}' is not a directory`);
+            return 1;
+        }
+
+        let status = 0;
+        for (const source of sources) {
+            const sourceStat = await vfs.stat(resolvePath(cwd, source));
+            if (!sourceStat) {
+                stderr(`${name}: cannot stat '${source}': No such file or directory`);
+                status = 1;
+                continue;
+            }
+            if (name === 'cp' && sourceStat.isDirectory && !options.flags.has('r') && !options.flags.has('R')) {
+                stderr(`cp: -r not specified; omitting directory '${source}'`);
+                status = 1;
+                continue;
+            }
+
+            try {
+                const targetPath = destinationStat?.isDirectory
+                    ? resolvePath(destinationPath, sourceStat.name)
+                    : destinationPath;
+                const existing = await vfs.stat(targetPath);
+                // Names match case-insensitively, so `mv a.txt A.txt` finds the source as its target
+                const isSelf = existing?.id === sourceStat.id;
+                const isCaseRename = isSelf && name === 'mv' && basename(targetPath) !== sourceStat.name;
+                if (isSelf && !isCaseRename) {
+                    stderr(`${name}: '${source}' and '${destination}' are the same file`);
+                    status = 1;
+                    continue;
+                }
+                if (existing && !isSelf && !existing.isDirectory && !sourceStat.isDirectory) {
+                    await vfs.remove(existing.path);
+                }
+                if (name === 'mv') await vfs.move(sourceStat.path, targetPath);
+                else await vfs.copy(sourceStat.path, targetPath);
+            } catch (error) {
+                stderr(`${name}: cannot ${name === 'mv' ? 'move' : 'copy'} '${source}': ${describeError(error)}`);
+                status = 1;
+            }
+        }
+        return status;
+    };
+};
+
+const mvCommand: TerminalCommand = {
+    name: 'mv',
+    description: 'Move or rename files and folders',
+    usage: 'mv <source...> <destination>',
+    complete: completePath,
+    run: transfer('mv'),
+};
+
+const cpCommand: TerminalCommand = {
+    name: 'cp',
+    description: 'Copy files and folders',
+    usage: 'cp [-r] <source...> <destination>',
+    complete: completePath,
+    run: transfer('cp'),
+};
+
+const treeCommand: TerminalCommand = {
+    name: 'tree',
+    description: 'Show a folder and its contents as a tree',
+    args: [{ name: 'path', optional: true }],
+    complete: completePath,
+    run: async ({ args, cwd, stdout, stderr }) => {
+        const start = args[0] ?? '.';
+        const stat = await vfs.stat(resolvePath(cwd, start));
+        if (!stat?.isDirectory) {
+            stderr(`tree: '${start}': ${stat ? 'Not a directory' : 'No such file or directory'}`);
+            return 1;
+        }
+
+        let folders = 0;
+        let files = 0;
+        const print = async (path: string, indent: string) => {
+            const entries = await vfs.readdir(path);
+            for (const [index, entry] of entries.entries()) {
+                const isLast = index === entries.length - 1;
+                stdout(`${indent}${isLast ? '└── ' : '├── '}${entry.name}`);
+                if (entry.isDirectory) {
+                    folders++;
+                    await print(entry.path, `${indent}${isLast ? '    ' : '│   '}`);
+                } else {
+                    files++;
+                }
+            }
+        };
+
+        stdout(start);
+        await print(stat.path, '');
+        stdout('');
+        stdout(`${folders} ${folders === 1 ? 'directory' : 'directories'}, ${files} ${files === 1 ? 'file' : 'files'}`);
+        return 0;
+    },
+};
+
+/**
+ * File and text utilities, in help order
+ */
+export const coreutils: TerminalCommand[] = [
+    grepCommand,
+    headCommand,
+    tailCommand,
+    wcCommand,
+    sortCommand,
+    uniqCommand,
+    findCommand,
+    rmCommand,
+    mvCommand,
+    cpCommand,
+    treeCommand,
+];
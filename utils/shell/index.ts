@@ -0,0 +1,7 @@
+/**
+ * Terminal shell barrel exports
+ */
+export * from './parser';
+export * from './interpreter';
+export * from './commandRegistry';
+export * from './coreutils';
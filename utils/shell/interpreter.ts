@@ -0,0 +1,377 @@
+/**
+ * Shell interpreter for the Terminal
+ *
+ * Executes scripts produced by {@link parseScript}. The interpreter owns the
+ * shell semantics (variables, pipes, redirection, `&&`/`||`, scripts) while the
+ * host supplies the actual commands through {@link ShellContext.runCommand}.
+ *
+ * Pipelines are buffered: each stage runs to completion and its output becomes
+ * the next stage's stdin. Only the last stage writes straight to the host.
+ *
+ * @module utils/shell/interpreter
+ */
+import { isVfsError, resolvePath, vfs } from '../vfs';
+import { parseScript, isShellSyntaxError, wordHasGlob } from './parser';
+import type { Redirect, SimpleCommand, Statement, Word } from './parser';
+
+/** Shell variables shared by all commands of a session */
+export type ShellEnvironment = Record<string, string>;
+
+/**
+ * Standard streams handed to a command
+ */
+export interface ShellIO {
+    /** Everything piped or redirected into the command ('' when none) */
+    stdin: string;
+    /** Write one line of output */
+    stdout: (text: string) => void;
+    /** Write one line of error output */
+    stderr: (text: string) => void;
+    /** Whether stdout is shown in the terminal rather than piped or redirected */
+    isTerminal: boolean;
+}
+
+/**
+ * Run a command and resolve with its exit status (0 = success)
+ */
+export type ShellCommandRunner = (argv: string[], io: ShellIO, env: ShellEnvironment) => Promise<number>;
+
+export interface ShellContext {
+    /** Session variables; `export` and `NAME=value` modify it in place */
+    env: ShellEnvironment;
+    /** Current working directory as a VFS path */
+    cwd: () => string;
+    /** Execute a non-builtin command */
+    runCommand: ShellCommandRunner;
+    /** Exit status of the previous command line (`$?`) */
+    lastStatus?: number;
+    /** Positional parameters (`$0`, `$1`, ...) of the running script */
+    positional?: string[];
+    /** Nesting depth of script execution */
+    depth?: number;
+}
+
+/** Output streams of the whole script */
+export type ShellOutput = Pick<ShellIO, 'stdout' | 'stderr'>;
+
+/** Exit status used when a command is not found */
+export const EXIT_NOT_FOUND = 127;
+
+/** Exit status used for syntax and usage errors */
+export const EXIT_USAGE = 2;
+
+/** Scripts may call other scripts up to this depth */
+const MAX_SCRIPT_DEPTH = 16;
+
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+
+/**
+ * Convert collected output lines into file or stdin content
+ */
+const linesToText = (lines: string[]): string => lines.map(line => `${line}\n`).join('');
+
+/**
+ * Split stdin into lines, ignoring the trailing newline
+ */
+export const splitLines = (text: string): string[] => {
+    if (!text) return [];
+    const lines = text.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+};
+
+/**
+ * Map VFS errors to the messages the Terminal uses elsewhere
+ */
+const describeError = (error: unknown): string => {
+    if (isVfsError(error, 'EISDIR')) return 'Access is denied.';
+    if (isVfsError(error, 'ENOENT') || isVfsError(error, 'ENOTDIR'))
+        return 'The system cannot find the path specified.';
+    return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Expand variables in a word
+ */
+const expandWord = (word: Word, context: ShellContext, status: number): string => {
+    const positional = context.positional ?? [];
+    return word.parts
+        .map(part => {
+            if (part.type === 'text') return part.value;
+            if (part.name === '?') return String(status);
+            if (part.name === '#') return String(Math.max(positional.length - 1, 0));
+            if (part.name === '@') return positional.slice(1).join(' ');
+            if (/^\d+$/.test(part.name)) return positional[Number(part.name)] ?? '';
+            return context.env[part.name] ?? '';
+        })
+        .join('');
+};
+
+/**
+ * Expand a command's words into argv, resolving unquoted glob patterns against the VFS.
+ * Patterns without matches are passed through unchanged, like bash without `nullglob`.
+ */
+const expandWords = async (words: Word[], context: ShellContext, status: number): Promise<string[]> => {
+    const argv: string[] = [];
+    for (const word of words) {
+        const value = expandWord(word, context, status);
+        if (!wordHasGlob(word)) {
+            argv.push(value);
+            continue;
+        }
+
+        const cwd = context.cwd();
+        const matches = await vfs.glob(value, { cwd });
+        if (matches.length === 0) {
+            argv.push(value);
+        } else if (value.startsWith('/')) {
+            argv.push(...matches);
+        } else {
+            const prefix = cwd === '/' ? '/' : `${cwd}/`;
+            argv.push(...matches.map(match => (match.startsWith(prefix) ? match.slice(prefix.length) : match)));
+        }
+    }
+    return argv;
+};
+
+/**
+ * Run a script file stored in the VFS
+ */
+const runScriptFile = async (
+    path: string,
+    args: string[],
+    context: ShellContext,
+    output: ShellOutput,
+    isolated: boolean
+): Promise<number> => {
+    const depth = (context.depth ?? 0) + 1;
+    if (depth > MAX_SCRIPT_DEPTH) {
+        output.stderr(`${path}: maximum script nesting depth exceeded`);
+        return 1;
+    }
+
+    let source: string;
+    try {
+        source = await vfs.readFile(resolvePath(context.cwd(), path));
+    } catch (error) {
+        output.stderr(`${path}: ${describeError(error)}`);
+        return EXIT_NOT_FOUND;
+    }
+
+    // `sh script` runs with a copy of the variables; `source script` shares them
+    const env = isolated ? { ...context.env } : context.env;
+    return runScript(source, { ...context, env, positional: [path, ...args], depth }, output);
+};
+
+/**
+ * Commands implemented by the shell itself. Returns null when argv is not a builtin.
+ */
+const runBuiltin = async (argv: string[], io: ShellIO, context: ShellContext): Promise<number | null> => {
+    const [name, ...args] = argv;
+
+    switch (name) {
+        case 'export': {
+            // Without assignments `export` falls through to the host command
+            if (args.length === 0) return null;
+            for (const arg of args) {
+                const [key = '', ...rest] = arg.split('=');
+                if (!VARIABLE_NAME.test(key)) {
+                    io.stderr(`export: '${arg}': not a valid identifier`);
+                    return 1;
+                }
+                if (rest.length > 0) {
+                    context.env[key] = rest.join('=');
+                } else {
+                    context.env[key] = context.env[key] ?? '';
+                }
+            }
+            return 0;
+        }
+        case 'unset':
+            args.forEach(key => delete context.env[key]);
+            return 0;
+        case 'env':
+        case 'set':
+            Object.keys(context.env)
+                .sort()
+                .forEach(key => io.stdout(`${key}=${context.env[key]}`));
+            return 0;
+        case 'true':
+            return 0;
+        case 'false':
+            return 1;
+        case 'sh':
+        case 'bash':
+        case 'source':
+        case '.': {
+            const [script, ...scriptArgs] = args;
+            if (!script) {
+                io.stderr(`Usage: ${name} <script> [args...]`);
+                return EXIT_USAGE;
+            }
+            return runScriptFile(script, scriptArgs, context, io, name === 'sh' || name === 'bash');
+        }
+        default:
+            // `./script.sh` and other paths run as scripts
+            if (name && /[\\/]/.test(name)) {
+                return runScriptFile(name, args, context, io, true);
+            }
+            return null;
+    }
+};
+
+/**
+ * Apply `<` redirects and open output redirects for a command
+ */
+const applyRedirects = async (
+    redirects: Redirect[],
+    io: ShellIO,
+    context: ShellContext,
+    status: number
+): Promise<{ io: ShellIO; flush: () => Promise<void> } | null> => {
+    const files: Array<{ path: string; append: boolean; lines: string[] }> = [];
+    let next = { ...io };
+
+    for (const redirect of redirects) {
+        const target = expandWord(redirect.target, context, status);
+        const path = resolvePath(context.cwd(), target);
+
+        if (redirect.operator === '<') {
+            try {
+                next = { ...next, stdin: await vfs.readFile(path) };
+            } catch (error) {
+                io.stderr(`${target}: ${describeError(error)}`);
+                return null;
+            }
+            continue;
+        }
+
+        const file = { path, append: redirect.operator.endsWith('>>'), lines: [] as string[] };
+        files.push(file);
+        const write = (text: string) => file.lines.push(text);
+        next = redirect.operator.startsWith('2')
+            ? { ...next, stderr: write }
+            : { ...next, stdout: write, isTerminal: false };
+    }
+
+    const flush = async () => {
+        for (const file of files) {
+            try {
+                await vfs.writeFile(file.path, linesToText(file.lines), { append: file.append });
+            } catch (error) {
+                io.stderr(`${file.path}: ${describeError(error)}`);
+            }
+        }
+    };
+
+    return { io: next, flush };
+};
+
+/**
+ * Execute a single command with its assignments and redirects
+ */
+const runSimpleCommand = async (
+    command: SimpleCommand,
+    io: ShellIO,
+    context: ShellContext,
+    status: number
+): Promise<number> => {
+    const argv = await expandWords(command.words, context, status);
+    const assignments = command.assignments.map(
+        ({ name, value }) => [name, expandWord(value, context, status)] as const
+    );
+
+    // Bare `NAME=value` sets a shell variable
+    if (argv.length === 0) {
+        assignments.forEach(([name, value]) => (context.env[name] = value));
+    }
+
+    const redirected = await applyRedirects(command.redirects, io, context, status);
+    if (!redirected) return 1;
+    if (argv.length === 0) {
+        await redirected.flush();
+        return 0;
+    }
+
+    // `NAME=value command` only applies to that command
+    const previous = assignments.map(([name]) => [name, context.env[name]] as const);
+    assignments.forEach(([name, value]) => (context.env[name] = value));
+
+    let exitStatus: number;
+    try {
+        exitStatus =
+            (await runBuiltin(argv, redirected.io, context)) ??
+            (await context.runCommand(argv, redirected.io, context.env));
+    } catch (error) {
+        redirected.io.stderr(describeError(error));
+        exitStatus = 1;
+    } finally {
+        previous.forEach(([name, value]) => {
+            if (value === undefined) delete context.env[name];
+            else context.env[name] = value;
+        });
+    }
+
+    await redirected.flush();
+    return exitStatus;
+};
+
+/**
+ * Execute a statement: pipelines joined by `&&` / `||`
+ */
+const runStatement = async (
+    statement: Statement,
+    output: ShellOutput,
+    context: ShellContext,
+    initialStatus: number
+): Promise<number> => {
+    let status = initialStatus;
+    const pipelines = [{ operator: null, pipeline: statement.first }, ...statement.rest];
+
+    for (const { operator, pipeline } of pipelines) {
+        if ((operator === '&&' && status !== 0) || (operator === '||' && status === 0)) continue;
+
+        let stdin = '';
+        for (const [index, command] of pipeline.commands.entries()) {
+            const isLast = index === pipeline.commands.length - 1;
+            const lines: string[] = [];
+            const io: ShellIO = {
+                stdin,
+                stdout: isLast ? output.stdout : text => lines.push(text),
+                stderr: output.stderr,
+                isTerminal: isLast,
+            };
+            status = await runSimpleCommand(command, io, context, status);
+            stdin = linesToText(lines);
+        }
+    }
+
+    return status;
+};
+
+/**
+ * Parse and run a command line or script.
+ * Syntax errors are reported on stderr and yield exit status 2.
+ *
+ * @example
+ * await runScript('ls | grep md > list.txt && cat list.txt', context, {
+ *     stdout: line => print(line),
+ *     stderr: line => print(line, 'error'),
+ * });
+ */
+export const runScript = async (source: string, context: ShellContext, output: ShellOutput): Promise<number> => {
+    let script;
+    try {
+        script = parseScript(source);
+    } catch (error) {
+        if (!isShellSyntaxError(error)) throw error;
+        output.stderr(error.message);
+        return EXIT_USAGE;
+    }
+
+    let status = context.lastStatus ?? 0;
+    for (const statement of script.statements) {
+        status = await runStatement(statement, output, context, status);
+    }
+    return status;
+};
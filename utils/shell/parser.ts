@@ -0,0 +1,335 @@
+/**
+ * Shell language parser for the Terminal
+ *
+ * Turns a command line or script into a small syntax tree:
+ *
+ * ```
+ * script     := statement ((';' | newline) statement)*
+ * statement  := pipeline (('&&' | '||') pipeline)*
+ * pipeline   := command ('|' command)*
+ * command    := assignment* (word | redirect)*
+ * redirect   := ('>' | '>>' | '<' | '2>' | '2>>') word
+ * ```
+ *
+ * Words keep their quoting and `$VAR` references as parts so that expansion can
+ * happen at run time (`export A=1 && echo $A` must see the new value).
+ *
+ * Quoting follows POSIX shells: single quotes are literal, double quotes allow
+ * `$VAR` expansion. A backslash only escapes shell metacharacters, so Windows
+ * paths such as `C:\Documents\notes` keep their separators.
+ *
+ * @module utils/shell/parser
+ */
+
+/** A piece of a word: literal text or a variable reference */
+export type WordPart =
+    | { type: 'text'; value: string; quoted: boolean }
+    | { type: 'variable'; name: string; quoted: boolean };
+
+/** A single shell word before expansion */
+export interface Word {
+    parts: WordPart[];
+}
+
+export type RedirectOperator = '>' | '>>' | '<' | '2>' | '2>>';
+
+export interface Redirect {
+    operator: RedirectOperator;
+    target: Word;
+}
+
+/** `NAME=value` prefix of a command */
+export interface Assignment {
+    name: string;
+    value: Word;
+}
+
+export interface SimpleCommand {
+    assignments: Assignment[];
+    words: Word[];
+    redirects: Redirect[];
+}
+
+export interface Pipeline {
+    commands: SimpleCommand[];
+}
+
+/** A pipeline chain joined by `&&` / `||` */
+export interface Statement {
+    first: Pipeline;
+    rest: Array<{ operator: '&&' | '||'; pipeline: Pipeline }>;
+}
+
+export interface Script {
+    statements: Statement[];
+}
+
+/** Error thrown for malformed input */
+export type ShellSyntaxError = Error & { position: number };
+
+/**
+ * Create a syntax error pointing at a character offset of the input
+ */
+export const createShellSyntaxError = (message: string, position: number): ShellSyntaxError => {
+    const error = new Error(`syntax error: ${message}`) as ShellSyntaxError;
+    error.name = 'ShellSyntaxError';
+    error.position = position;
+    return error;
+};
+
+/**
+ * Check whether a value is a shell syntax error
+ */
+export const isShellSyntaxError = (error: unknown): error is ShellSyntaxError => {
+    return error instanceof Error && error.name === 'ShellSyntaxError';
+};
+
+type Operator = ';' | '|' | '&&' | '||' | RedirectOperator;
+
+type Token = { type: 'word'; word: Word; position: number } | { type: 'op'; op: Operator; position: number };
+
+const isRedirectOperator = (op: Operator): op is RedirectOperator => {
+    return op === '>' || op === '>>' || op === '<' || op === '2>' || op === '2>>';
+};
+
+/** Characters a backslash can escape outside of quotes */
+const ESCAPABLE = new Set([' ', '\t', '\\', "'", '"', '$', '|', '&', ';', '<', '>', '#', '\n']);
+
+/** Characters a backslash can escape inside double quotes */
+const ESCAPABLE_QUOTED = new Set(['\\', '"', '$']);
+
+const isNameStart = (char: string | undefined): boolean => !!char && /[A-Za-z_]/.test(char);
+const isNameChar = (char: string | undefined): boolean => !!char && /\w/.test(char);
+
+/**
+ * Split input into words and operators
+ */
+const tokenize = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    let parts: WordPart[] = [];
+    let wordStart = -1;
+    let i = 0;
+
+    const pushText = (value: string, quoted: boolean) => {
+        const last = parts[parts.length - 1];
+        if (last?.type === 'text' && last.quoted === quoted) {
+            last.value += value;
+        } else {
+            parts.push({ type: 'text', value, quoted });
+        }
+    };
+
+    const startWord = () => {
+        if (wordStart === -1) wordStart = i;
+    };
+
+    const endWord = () => {
+        if (wordStart !== -1) {
+            tokens.push({ type: 'word', word: { parts }, position: wordStart });
+        }
+        parts = [];
+        wordStart = -1;
+    };
+
+    const pushOp = (op: Operator, length: number) => {
+        endWord();
+        tokens.push({ type: 'op', op, position: i });
+        i += length;
+    };
+
+    /** Read `$NAME`, `${NAME}`, `$?`, `$#`, `$@` or `$1` starting at `i` (pointing at `$`) */
+    const readVariable = (quoted: boolean) => {
+        const next = input[i + 1];
+        if (next === '{') {
+            const end = input.indexOf('}', i + 2);
+            if (end === -1) throw createShellSyntaxError("missing '}'", i);
+            const name = input.slice(i + 2, end);
+            if (!/^([A-Za-z_]\w*|\d+|[?#@])$/.test(name)) throw createShellSyntaxError(`bad substitution '${name}'`, i);
+            parts.push({ type: 'variable', name, quoted });
+            i = end + 1;
+        } else if (next && /[?#@\d]/.test(next)) {
+            parts.push({ type: 'variable', name: next, quoted });
+            i += 2;
+        } else if (isNameStart(next)) {
+            let end = i + 1;
+            while (isNameChar(input[end])) end++;
+            parts.push({ type: 'variable', name: input.slice(i + 1, end), quoted });
+            i = end;
+        } else {
+            pushText('$', quoted);
+            i++;
+        }
+    };
+
+    while (i < input.length) {
+        const char = input[i] as string;
+        const next = input[i + 1];
+
+        if (char === ' ' || char === '\t' || char === '\r') {
+            endWord();
+            i++;
+        } else if (char === '\n' || char === ';') {
+            pushOp(';', 1);
+        } else if (char === '#' && wordStart === -1) {
+            while (i < input.length && input[i] !== '\n') i++;
+        } else if (char === '|') {
+            pushOp(next === '|' ? '||' : '|', next === '|' ? 2 : 1);
+        } else if (char === '&') {
+            if (next !== '&') throw createShellSyntaxError("background jobs ('&') are not supported", i);
+            pushOp('&&', 2);
+        } else if (char === '>') {
+            // `2>` redirects stderr when the 2 stands alone as the start of a word
+            const isStderr =
+                parts.length === 1 && parts[0]?.type === 'text' && !parts[0].quoted && parts[0].value === '2';
+            if (isStderr) parts = [];
+            const append = next === '>';
+            const op: RedirectOperator = isStderr ? (append ? '2>>' : '2>') : append ? '>>' : '>';
+            if (isStderr) wordStart = -1;
+            pushOp(op, append ? 2 : 1);
+        } else if (char === '<') {
+            pushOp('<', 1);
+        } else if (char === "'") {
+            startWord();
+            const end = input.indexOf("'", i + 1);
+            if (end === -1) throw createShellSyntaxError('unterminated quoted string', i);
+            pushText(input.slice(i + 1, end), true);
+            i = end + 1;
+        } else if (char === '"') {
+            startWord();
+            const start = i;
+            i++;
+            // Ensure "" still produces an (empty) word
+            pushText('', true);
+            while (input[i] !== '"') {
+                if (i >= input.length) throw createShellSyntaxError('unterminated quoted string', start);
+                const inner = input[i] as string;
+                if (inner === '\\' && ESCAPABLE_QUOTED.has(input[i + 1] ?? '')) {
+                    pushText(input[i + 1] as string, true);
+                    i += 2;
+                } else if (inner === '$') {
+                    readVariable(true);
+                } else {
+                    pushText(inner, true);
+                    i++;
+                }
+            }
+            i++;
+        } else if (char === '\\' && next !== undefined && ESCAPABLE.has(next)) {
+            startWord();
+            // Backslash-newline continues the line
+            if (next !== '\n') pushText(next, true);
+            i += 2;
+        } else if (char === '$') {
+            startWord();
+            readVariable(false);
+        } else {
+            startWord();
+            pushText(char, false);
+            i++;
+        }
+    }
+
+    endWord();
+    return tokens;
+};
+
+/**
+ * Match the `NAME=` prefix of an unquoted word
+ */
+const toAssignment = (word: Word): Assignment | null => {
+    const [first, ...rest] = word.parts;
+    if (first?.type !== 'text' || first.quoted) return null;
+    const match = /^([A-Za-z_]\w*)=/.exec(first.value);
+    if (!match) return null;
+    const remainder = first.value.slice(match[0].length);
+    const parts: WordPart[] = remainder ? [{ ...first, value: remainder }, ...rest] : rest;
+    return { name: match[1] as string, value: { parts } };
+};
+
+/**
+ * Parse a command line or script into a syntax tree
+ * @throws ShellSyntaxError for unterminated quotes or misplaced operators
+ */
+export const parseScript = (input: string): Script => {
+    const tokens = tokenize(input);
+    const statements: Statement[] = [];
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const peekOp = (): Operator | null => {
+        const token = tokens[index];
+        return token?.type === 'op' ? token.op : null;
+    };
+
+    const unexpected = (token: Token | undefined): ShellSyntaxError => {
+        if (!token) return createShellSyntaxError('unexpected end of input', input.length);
+        const text = token.type === 'op' ? token.op : 'word';
+        return createShellSyntaxError(`unexpected token '${text}'`, token.position);
+    };
+
+    const parseCommand = (): SimpleCommand => {
+        const command: SimpleCommand = { assignments: [], words: [], redirects: [] };
+
+        for (let token = peek(); token; token = peek()) {
+            if (token.type === 'word') {
+                const assignment = command.words.length === 0 ? toAssignment(token.word) : null;
+                if (assignment) {
+                    command.assignments.push(assignment);
+                } else {
+                    command.words.push(token.word);
+                }
+                index++;
+            } else if (isRedirectOperator(token.op)) {
+                const target = tokens[index + 1];
+                if (target?.type !== 'word') throw unexpected(target);
+                command.redirects.push({ operator: token.op, target: target.word });
+                index += 2;
+            } else {
+                break;
+            }
+        }
+
+        if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+            throw unexpected(peek());
+        }
+        return command;
+    };
+
+    const parsePipeline = (): Pipeline => {
+        const commands = [parseCommand()];
+        while (peekOp() === '|') {
+            index++;
+            commands.push(parseCommand());
+        }
+        return { commands };
+    };
+
+    while (index < tokens.length) {
+        if (peekOp() === ';') {
+            index++;
+            continue;
+        }
+
+        const statement: Statement = { first: parsePipeline(), rest: [] };
+        for (let operator = peekOp(); operator === '&&' || operator === '||'; operator = peekOp()) {
+            index++;
+            // Allow the chain to continue on the next line
+            while (peekOp() === ';' && input[peek()?.position ?? 0] === '\n') {
+                index++;
+            }
+            statement.rest.push({ operator, pipeline: parsePipeline() });
+        }
+        statements.push(statement);
+
+        if (index < tokens.length && peekOp() !== ';') throw unexpected(peek());
+    }
+
+    return { statements };
+};
+
+/**
+ * Check whether a word contains unquoted glob characters (`*`, `?`, `[`)
+ */
+export const wordHasGlob = (word: Word): boolean => {
+    return word.parts.some(part => part.type === 'text' && !part.quoted && /[*?[]/.test(part.value));
+};
@@ -0,0 +1,184 @@
+/**
+ * Window tiling: snap slots, snap layouts and how pointer and keyboard input map to them
+ *
+ * Slots are fractions of the work area (the space a maximized window fills), so the
+ * same layout works at any viewport size.
+ *
+ * @module utils/snapLayouts
+ */
+import { getWindowMaxRect } from './viewport';
+import type { WindowMaxRect } from './viewport';
+
+export type SnapSlot =
+    | 'left'
+    | 'right'
+    | 'top-left'
+    | 'top-right'
+    | 'bottom-left'
+    | 'bottom-right'
+    | 'left-third'
+    | 'center-third'
+    | 'right-third'
+    | 'left-two-thirds'
+    | 'right-two-thirds';
+
+/**
+ * Where a dragged window would land: a slot, the whole work area (`top`), or nowhere
+ */
+export type SnapZone = SnapSlot | 'top' | 'none';
+
+export type SnapDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Result of a snap key: a slot, or one of the window actions the keys also cover
+ */
+export type KeyboardSnapTarget = SnapSlot | 'maximize' | 'restore' | 'minimize';
+
+export interface SnapLayout {
+    id: string;
+    label: string;
+    /** Slots in the order snap assist fills them */
+    slots: SnapSlot[];
+}
+
+type Fraction = { x: number; y: number; width: number; height: number };
+
+const SLOT_FRACTIONS: Record<SnapSlot, Fraction> = {
+    left: { x: 0, y: 0, width: 1 / 2, height: 1 },
+    right: { x: 1 / 2, y: 0, width: 1 / 2, height: 1 },
+    'top-left': { x: 0, y: 0, width: 1 / 2, height: 1 / 2 },
+    'top-right': { x: 1 / 2, y: 0, width: 1 / 2, height: 1 / 2 },
+    'bottom-left': { x: 0, y: 1 / 2, width: 1 / 2, height: 1 / 2 },
+    'bottom-right': { x: 1 / 2, y: 1 / 2, width: 1 / 2, height: 1 / 2 },
+    'left-third': { x: 0, y: 0, width: 1 / 3, height: 1 },
+    'center-third': { x: 1 / 3, y: 0, width: 1 / 3, height: 1 },
+    'right-third': { x: 2 / 3, y: 0, width: 1 / 3, height: 1 },
+    'left-two-thirds': { x: 0, y: 0, width: 2 / 3, height: 1 },
+    'right-two-thirds': { x: 1 / 3, y: 0, width: 2 / 3, height: 1 },
+};
+
+/**
+ * Layouts offered by the maximize button's snap layouts flyout
+ */
+export const SNAP_LAYOUTS: SnapLayout[] = [
+    { id: 'halves', label: 'Two columns', slots: ['left', 'right'] },
+    { id: 'two-thirds-left', label: 'Wide left', slots: ['left-two-thirds', 'right-third'] },
+    { id: 'two-thirds-right', label: 'Wide right', slots: ['left-third', 'right-two-thirds'] },
+    { id: 'thirds', label: 'Three columns', slots: ['left-third', 'center-third', 'right-third'] },
+    { id: 'half-and-quarters', label: 'Left half and quarters', slots: ['left', 'top-right', 'bottom-right'] },
+    { id: 'quarters', label: 'Four quarters', slots: ['top-left', 'top-right', 'bottom-left', 'bottom-right'] },
+];
+
+/** Distance from a work area edge, in pixels, at which a dragged window snaps */
+export const SNAP_EDGE_THRESHOLD = 30;
+/** Height of the corner zones along the left and right edges, in pixels */
+export const SNAP_CORNER_SIZE = 120;
+
+/**
+ * The fraction of the work area a slot covers, for drawing layout previews
+ */
+export const getSlotFraction = (slot: SnapSlot): Fraction => SLOT_FRACTIONS[slot];
+
+/**
+ * The pixel rectangle of a slot in the work area
+ */
+export const getSnapRect = (slot: SnapSlot, area: WindowMaxRect = getWindowMaxRect()): WindowMaxRect => {
+    const fraction = SLOT_FRACTIONS[slot];
+    return {
+        x: Math.round(area.x + area.width * fraction.x),
+        y: Math.round(area.y + area.height * fraction.y),
+        width: Math.round(area.width * fraction.width),
+        height: Math.round(area.height * fraction.height),
+    };
+};
+
+/**
+ * The layout a set of slots belongs to, preferring the smallest one that contains them all
+ */
+export const findSnapLayout = (slots: SnapSlot[]): SnapLayout | undefined =>
+    [...SNAP_LAYOUTS]
+        .sort((a, b) => a.slots.length - b.slots.length)
+        .find(layout => slots.every(slot => layout.slots.includes(slot)));
+
+/**
+ * Which zone the pointer is in while dragging a window. Corners of the left and
+ * right edges snap to quarters, the rest of those edges to halves, and the top
+ * edge maximizes.
+ */
+export const detectSnapZone = (
+    pointer: { x: number; y: number },
+    area: WindowMaxRect = getWindowMaxRect()
+): SnapZone => {
+    const nearLeft = pointer.x < area.x + SNAP_EDGE_THRESHOLD;
+    const nearRight = pointer.x > area.x + area.width - SNAP_EDGE_THRESHOLD;
+    const inTopCorner = pointer.y < area.y + SNAP_CORNER_SIZE;
+    const inBottomCorner = pointer.y > area.y + area.height - SNAP_CORNER_SIZE;
+
+    if (nearLeft || nearRight) {
+        const side = nearLeft ? 'left' : 'right';
+        if (inTopCorner) return `top-${side}`;
+        if (inBottomCorner) return `bottom-${side}`;
+        return side;
+    }
+    if (pointer.y < area.y + SNAP_EDGE_THRESHOLD) return 'top';
+    return 'none';
+};
+
+const KEYBOARD_SNAP_MOVES: Record<SnapDirection, Partial<Record<SnapSlot, KeyboardSnapTarget>>> = {
+    left: {
+        right: 'restore',
+        'top-right': 'top-left',
+        'bottom-right': 'bottom-left',
+        'right-third': 'center-third',
+        'center-third': 'left-third',
+        'right-two-thirds': 'left-two-thirds',
+    },
+    right: {
+        left: 'restore',
+        'top-left': 'top-right',
+        'bottom-left': 'bottom-right',
+        'left-third': 'center-third',
+        'center-third': 'right-third',
+        'left-two-thirds': 'right-two-thirds',
+    },
+    up: {
+        left: 'top-left',
+        right: 'top-right',
+        'bottom-left': 'left',
+        'bottom-right': 'right',
+    },
+    down: {
+        left: 'bottom-left',
+        right: 'bottom-right',
+        'top-left': 'left',
+        'top-right': 'right',
+    },
+};
+
+/**
+ * Where Win+Arrow moves a window, following the desktop convention: left and right
+ * snap to halves and step between columns, up and down split halves into quarters,
+ * up maximizes and down restores or minimizes.
+ */
+export const getKeyboardSnapTarget = (
+    window: { snapSlot?: SnapSlot; isMaximized: boolean },
+    direction: SnapDirection
+): KeyboardSnapTarget => {
+    if (window.isMaximized) {
+        if (direction === 'down') return 'restore';
+        return direction === 'up' ? 'maximize' : direction;
+    }
+    const slot = window.snapSlot;
+    const move = slot ? KEYBOARD_SNAP_MOVES[direction][slot] : undefined;
+    if (move) return move;
+
+    switch (direction) {
+        case 'left':
+        case 'right':
+            return direction;
+        case 'up':
+            return 'maximize';
+        case 'down':
+            return slot ? 'restore' : 'minimize';
+    }
+};
@@ -2,6 +2,7 @@ import { Dexie, type Table } from 'dexie';
 import dexieCloud from 'dexie-cloud-addon';
 import { getCloudDatabaseUrl } from './cloudConfig';
 import { HandoffItem } from '../../types';
+import type { Permission } from '../permissions';
 
 export type KvRecord = {
     key: string;
@@ -68,9 +69,17 @@ export type ScreensaverSettingsRecord = {
     updatedAt: number;
 };
 
+/**
+ * Terminal session. Each pane of a Terminal window is a session; the window's
+ * tabs and splits are kept in a separate record whose `layout` is set.
+ */
 export type TerminalSessionRecord = {
     id?: number;
     output: string; // JSON stringified array of OutputLine objects
+    cwd?: string; // Working directory as a VFS path
+    env?: string; // JSON stringified shell variables
+    historyIndex?: number; // Command history cursor (-1 = not browsing)
+    layout?: string; // JSON stringified TerminalWindowLayout (window records only)
     createdAt: number;
     updatedAt: number;
 };
@@ -90,7 +99,13 @@ export type TerminalAliasRecord = {
 // Mail App (F151)
 // ==========================================
 
-export type MailFolderId = 'inbox' | 'sent' | 'drafts' | 'trash';
+export type SystemMailFolderId = 'inbox' | 'sent' | 'drafts' | 'trash';
+
+/**
+ * System folders, `remote:<accountId>:<path>` for other folders on a mail server,
+ * or `custom:<uuid>` for folders created in Mail
+ */
+export type MailFolderId = SystemMailFolderId | `remote:${string}` | `custom:${string}`;
 
 export type EmailRecord = {
     id: string;
@@ -101,15 +116,125 @@ export type EmailRecord = {
     body: string;
     date: number; // Unix timestamp
     isRead: boolean;
+    isFlagged?: boolean;
+    labels?: string[]; // EmailLabelRecord ids
     trashedFrom?: MailFolderId; // Original folder before moving to trash
+    // Threading (RFC 5322 Message-ID / In-Reply-To / References, without angle brackets)
+    messageId?: string;
+    inReplyTo?: string;
+    references?: string[];
+    threadId?: string; // Message-ID of the first message in the conversation
+    // Server copy, for messages of a mail account (see utils/mail)
+    accountId?: string;
+    remotePath?: string; // Server folder path
+    remoteUid?: number; // IMAP-style UID in that folder, unset until the server has assigned one
+    // MIME content (see utils/mime): the HTML body, unsanitized, and the attachments' metadata
+    html?: string;
+    attachments?: EmailAttachmentInfo[];
     createdAt: number;
     updatedAt: number;
 };
 
+/**
+ * An attachment of a message. The file itself is in `$emailAttachments` on the device
+ * that imported the message.
+ */
+export type EmailAttachmentInfo = {
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+    contentId?: string; // For cid: references from the HTML body
+    inline?: boolean; // An image shown in the HTML body rather than listed
+};
+
+/**
+ * The file of an email attachment (local-only)
+ */
+export type EmailAttachmentRecord = {
+    id: string; // EmailAttachmentInfo.id
+    emailId: string;
+    blob: Blob;
+    createdAt: number;
+};
+
 export type EmailFolderRecord = {
     id: MailFolderId;
     name: string;
-    type: 'system' | 'custom';
+    type: 'system' | 'custom' | 'remote';
+    accountId?: string; // Remote folders only
+    path?: string; // Remote folders only: server folder path
+    createdAt: number;
+    updatedAt: number;
+};
+
+/**
+ * A label that can be put on any number of messages, in any folder
+ */
+export type EmailLabelRecord = {
+    id: string;
+    name: string;
+    color: string; // CSS color
+    createdAt: number;
+    updatedAt: number;
+};
+
+export type MailRuleField = 'from' | 'to' | 'subject' | 'body';
+
+export type MailRuleOperator = 'contains' | 'notContains' | 'equals' | 'startsWith' | 'endsWith';
+
+export type MailRuleCondition = {
+    field: MailRuleField;
+    operator: MailRuleOperator;
+    value: string; // Compared case-insensitively
+};
+
+export type MailRuleAction =
+    | { type: 'move'; folderId: MailFolderId }
+    | { type: 'markRead' }
+    | { type: 'flag' }
+    | { type: 'label'; labelId: string }
+    | { type: 'notify' };
+
+/**
+ * A mail rule: actions for messages matching all (or any) of its conditions (see utils/mail/rules)
+ */
+export type MailRuleRecord = {
+    id: string;
+    name: string;
+    enabled: boolean;
+    match: 'all' | 'any';
+    conditions: MailRuleCondition[];
+    actions: MailRuleAction[];
+    stopProcessing: boolean; // Skip later rules for messages this rule matched
+    order: number;
+    createdAt: number;
+    updatedAt: number;
+};
+
+/**
+ * Mail account reached through a mail bridge (see utils/mail). Local-only, as it holds the password.
+ */
+export type MailAccountRecord = {
+    id: string;
+    name: string;
+    email: string;
+    displayName: string;
+    transport: 'bridge';
+    bridgeUrl: string; // e.g. http://localhost:8025
+    imapHost: string;
+    imapPort: number;
+    smtpHost: string;
+    smtpPort: number;
+    secure: boolean; // TLS for both servers
+    username: string;
+    password: string;
+    // Server folder paths of the system folders, found by the last sync
+    specialFolders?: Partial<Record<SystemMailFolderId, string>>;
+    // Per server folder: UIDVALIDITY and the highest UID fetched
+    syncState?: Record<string, { uidValidity: number; lastUid: number }>;
+    lastSyncedAt?: number;
+    lastError?: string;
     createdAt: number;
     updatedAt: number;
 };
@@ -205,6 +330,16 @@ export type ArcadeSaveRecord = {
     updatedAt: number;
 };
 
+/**
+ * Arcade cartridge disk: the bytes a WASM-4 game keeps with diskw()
+ */
+export type ArcadeDiskRecord = {
+    gameId: string; // Foreign key to ArcadeGameRecord.id
+    data: Uint8Array; // Up to 1024 bytes
+    createdAt: number;
+    updatedAt: number;
+};
+
 /**
  * Clipboard history item (F164)
  */
@@ -216,6 +351,63 @@ export type ClipboardHistoryRecord = {
     copiedAt: number; // Timestamp when copied
 };
 
+/**
+ * Installed third-party app package
+ */
+export type AppPackageRecord = {
+    id: string; // Package ID from the manifest
+    name: string;
+    version: string;
+    manifest: string; // JSON stringified AppPackageManifest
+    bundle: string; // ES module source
+    icon?: string; // data:image URL
+    source: string; // URL or VFS path the package was installed from
+    installedAt: number;
+    updatedAt: number;
+};
+
+/**
+ * A user's decision on an app permission
+ */
+export type AppPermissionRecord = {
+    appId: string;
+    permission: Permission;
+    state: 'granted' | 'denied';
+    updatedAt: number;
+};
+
+/**
+ * Named workspace: a saved set of windows, their app state and the wallpaper
+ */
+export type WorkspaceRecord = {
+    id: string;
+    name: string;
+    snapshot: string; // JSON stringified WorkspaceSnapshot (see utils/workspaces.ts)
+    createdAt: number;
+    updatedAt: number;
+};
+
+/**
+ * Calendar event (see utils/calendarEvents.ts). Dates are local YYYY-MM-DD days.
+ */
+export type CalendarEventRecord = {
+    id: string;
+    title: string;
+    date: string; // First day
+    endDate?: string; // Last day of a multi-day event
+    allDay: boolean;
+    startTime: string; // HH:MM
+    endTime: string; // HH:MM
+    location: string;
+    notes: string;
+    rrule?: string; // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+    exdates?: string[]; // Start dates of skipped occurrences
+    reminders?: number[]; // Minutes before the start
+    lastDate: string; // Last day any occurrence covers ('9999-12-31' if the series never ends)
+    createdAt: number;
+    updatedAt: number;
+};
+
 export class Windows15DexieDB extends Dexie {
     kv!: Table<KvRecord, string>;
     notes!: Table<NoteRecord, string>;
@@ -229,6 +421,8 @@ export class Windows15DexieDB extends Dexie {
     // Mail tables (cloud-synced)
     emails!: Table<EmailRecord, string>;
     emailFolders!: Table<EmailFolderRecord, MailFolderId>;
+    emailLabels!: Table<EmailLabelRecord, string>;
+    emailRules!: Table<MailRuleRecord, string>;
     // App state (cloud-synced)
     appState!: Table<AppStateRecord, string>;
     // Notification center (cloud-synced) (F157)
@@ -240,8 +434,21 @@ export class Windows15DexieDB extends Dexie {
     $wallpaperAssets!: Table<WallpaperAssetRecord, number>;
     $arcadeGames!: Table<ArcadeGameRecord, string>;
     $arcadeSaves!: Table<ArcadeSaveRecord, number>;
+    $arcadeDisks!: Table<ArcadeDiskRecord, string>;
     // Clipboard history (F164)
     $clipboardHistory!: Table<ClipboardHistoryRecord, number>;
+    // Third-party app packages (local-only)
+    $appPackages!: Table<AppPackageRecord, string>;
+    // App permission decisions (local-only)
+    $appPermissions!: Table<AppPermissionRecord, [string, Permission]>;
+    // Named workspaces (cloud-synced)
+    workspaces!: Table<WorkspaceRecord, string>;
+    // Calendar events (cloud-synced)
+    calendarEvents!: Table<CalendarEventRecord, string>;
+    // Mail accounts (local-only)
+    $mailAccounts!: Table<MailAccountRecord, string>;
+    // Files of email attachments (local-only)
+    $emailAttachments!: Table<EmailAttachmentRecord, string>;
 
     constructor() {
         super('windows15', { addons: [dexieCloud] });
@@ -496,6 +703,229 @@ export class Windows15DexieDB extends Dexie {
             handoffItems: '@id, createdAt, status, target',
         });
 
+        // Version 16: Third-party app packages
+        this.version(16).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, updatedAt, createdAt',
+            emailFolders: 'id, type, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+        });
+
+        // Version 17: App permissions
+        this.version(17).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, updatedAt, createdAt',
+            emailFolders: 'id, type, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+        });
+
+        // Version 18: Named workspaces
+        this.version(18).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, updatedAt, createdAt',
+            emailFolders: 'id, type, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+        });
+
+        // Version 19: Calendar events move out of the kv blob (see migrations.ts).
+        // Events keep their own ids (UUIDs, or UIDs from imported .ics files), so not '@id'.
+        this.version(19).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, updatedAt, createdAt',
+            emailFolders: 'id, type, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+            calendarEvents: 'id, date, lastDate, updatedAt, createdAt',
+        });
+
+        // Version 20: Mail accounts, threading and server copies of messages
+        this.version(20).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, messageId, threadId, accountId, [accountId+remotePath], updatedAt, createdAt',
+            emailFolders: 'id, type, accountId, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+            calendarEvents: 'id, date, lastDate, updatedAt, createdAt',
+            $mailAccounts: 'id, email, updatedAt, createdAt',
+        });
+
+        // Version 21: Attachments of imported messages
+        this.version(21).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, messageId, threadId, accountId, [accountId+remotePath], updatedAt, createdAt',
+            emailFolders: 'id, type, accountId, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+            calendarEvents: 'id, date, lastDate, updatedAt, createdAt',
+            $mailAccounts: 'id, email, updatedAt, createdAt',
+            $emailAttachments: 'id, emailId, createdAt',
+        });
+
+        // Version 22: Custom mail folders, labels and rules
+        this.version(22).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, createdAt, updatedAt',
+            emails: '@id, folderId, date, isRead, messageId, threadId, accountId, [accountId+remotePath], *labels, updatedAt, createdAt',
+            emailFolders: 'id, type, accountId, updatedAt, createdAt',
+            emailLabels: 'id, name, updatedAt, createdAt',
+            emailRules: 'id, order, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+            calendarEvents: 'id, date, lastDate, updatedAt, createdAt',
+            $mailAccounts: 'id, email, updatedAt, createdAt',
+            $emailAttachments: 'id, emailId, createdAt',
+        });
+
+        // Version 23: Cartridge disks, and save slots looked up by game and slot
+        this.version(23).stores({
+            kv: 'key, updatedAt',
+            notes: '@id, updatedAt, createdAt',
+            bookmarks: '@id, folder, updatedAt, createdAt',
+            todos: '@id, completed, priority, dueDate, sortOrder, updatedAt, createdAt',
+            desktopIcons: '@id, order, updatedAt, createdAt',
+            $terminalHistory: '++id, executedAt',
+            $screensaverSettings: 'id, updatedAt, createdAt',
+            $terminalSessions: '++id, updatedAt, createdAt',
+            $terminalAliases: 'name, updatedAt, createdAt',
+            $wallpapers: 'id, type, installedAt, updatedAt',
+            $wallpaperAssets: '++id, wallpaperId, path, createdAt',
+            $arcadeGames: 'id, type, lastPlayedAt, createdAt, updatedAt',
+            $arcadeSaves: '++id, gameId, slot, [gameId+slot], createdAt, updatedAt',
+            $arcadeDisks: 'gameId, updatedAt',
+            emails: '@id, folderId, date, isRead, messageId, threadId, accountId, [accountId+remotePath], *labels, updatedAt, createdAt',
+            emailFolders: 'id, type, accountId, updatedAt, createdAt',
+            emailLabels: 'id, name, updatedAt, createdAt',
+            emailRules: 'id, order, updatedAt, createdAt',
+            appState: '&appId, updatedAt',
+            notifications: '@id, type, isRead, scheduledFor, createdAt',
+            $clipboardHistory: '++id, copiedAt',
+            handoffItems: '@id, createdAt, status, target',
+            $appPackages: 'id, name, installedAt, updatedAt',
+            $appPermissions: '[appId+permission], appId',
+            workspaces: '@id, name, updatedAt, createdAt',
+            calendarEvents: 'id, date, lastDate, updatedAt, createdAt',
+            $mailAccounts: 'id, email, updatedAt, createdAt',
+            $emailAttachments: 'id, emailId, createdAt',
+        });
+
         const databaseUrl = getCloudDatabaseUrl();
         if (databaseUrl) {
             this.cloud.configure({
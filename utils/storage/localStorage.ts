@@ -1,6 +1,7 @@
 export const STORAGE_KEYS = {
     mailMessages: 'windows15.mail.messages',
     calendarEvents: 'windows15.calendar.events',
+    calendarSeeded: 'windows15.calendar.seeded',
     osLocalization: 'windows15.os.localization',
 } as const;
 
@@ -1,3 +1,5 @@
+import { getEventLastDate, markCalendarSeeded, type CalendarEvent } from '../calendarEvents';
+import { db as defaultDb, type CalendarEventRecord, type Windows15DexieDB } from './db';
 import { STORAGE_KEYS, readJsonIfPresent } from './localStorage';
 import { storageService } from './storageService';
 
@@ -35,3 +37,55 @@ export const migrateLegacyLocalStorageToDexieKv = async (): Promise<void> => {
 
     setFlag();
 };
+
+const isStoredCalendarEvent = (value: unknown): value is CalendarEvent => {
+    const event = value as Partial<CalendarEvent> | null;
+    return (
+        typeof event?.id === 'string' &&
+        typeof event.title === 'string' &&
+        typeof event.date === 'string' &&
+        /^\d{4}-\d{2}-\d{2}$/.test(event.date)
+    );
+};
+
+/**
+ * Move Calendar events from their key-value blob into the `calendarEvents` table.
+ * The blob is deleted afterwards, so this does nothing once it has run; events
+ * already in the table (moved on another device) are kept as they are. The calendar
+ * is marked as seeded even if the blob was empty, since the user already had one.
+ * @returns The number of events moved
+ */
+export const migrateCalendarEventsToDexieTable = async (db: Windows15DexieDB = defaultDb): Promise<number> => {
+    const record = await db.kv.get(STORAGE_KEYS.calendarEvents);
+    if (!record) return 0;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(record.valueJson);
+    } catch {
+        parsed = [];
+    }
+    const events = Array.isArray(parsed) ? parsed.filter(isStoredCalendarEvent) : [];
+
+    return db.transaction('rw', db.kv, db.calendarEvents, async () => {
+        const found = await db.calendarEvents.bulkGet(events.map(event => event.id));
+        const existing = new Set(found.flatMap(event => (event ? [event.id] : [])));
+        const moved: CalendarEventRecord[] = events
+            .filter(event => !existing.has(event.id))
+            .map(event => ({
+                ...event,
+                allDay: Boolean(event.allDay),
+                startTime: event.startTime ?? '09:00',
+                endTime: event.endTime ?? '10:00',
+                location: event.location ?? '',
+                notes: event.notes ?? '',
+                lastDate: getEventLastDate(event),
+                createdAt: record.updatedAt,
+                updatedAt: record.updatedAt,
+            }));
+        await db.calendarEvents.bulkPut(moved);
+        await db.kv.delete(STORAGE_KEYS.calendarEvents);
+        await markCalendarSeeded(db);
+        return moved.length;
+    });
+};
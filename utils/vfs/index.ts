@@ -0,0 +1,5 @@
+/**
+ * Virtual file system barrel exports
+ */
+export * from './path';
+export * from './vfs';
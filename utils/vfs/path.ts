@@ -0,0 +1,137 @@
+/**
+ * POSIX-style path helpers for the virtual file system
+ *
+ * Paths are rooted at the 'root' folder of the file tree, so
+ * `/Documents/notes/todo.md` addresses `root > Documents > notes > todo.md`.
+ * Windows-style input (`C:\Documents\notes`) is accepted and normalized.
+ *
+ * @module utils/vfs/path
+ */
+
+/** Path separator used by all normalized paths */
+export const SEPARATOR = '/';
+
+/**
+ * Split a path into its non-empty segments without resolving `.` or `..`
+ */
+const rawSegments = (path: string): string[] => {
+    return path
+        .replace(/^[a-zA-Z]:/, '')
+        .replace(/\\/g, SEPARATOR)
+        .split(SEPARATOR)
+        .filter(Boolean);
+};
+
+/**
+ * Normalize a path: convert separators, resolve `.` and `..`, drop trailing slashes.
+ * Relative input is treated as relative to `/`.
+ *
+ * @example
+ * normalizePath('C:\\Documents\\..\\Pictures\\') // '/Pictures'
+ */
+export const normalizePath = (path: string): string => {
+    const result: string[] = [];
+    for (const segment of rawSegments(path)) {
+        if (segment === '..') {
+            result.pop();
+        } else if (segment !== '.') {
+            result.push(segment);
+        }
+    }
+    return SEPARATOR + result.join(SEPARATOR);
+};
+
+/**
+ * Check whether a path is absolute (`/...`, `\...` or `C:\...`)
+ */
+export const isAbsolutePath = (path: string): boolean => {
+    return /^([a-zA-Z]:)?[\\/]/.test(path);
+};
+
+/**
+ * Resolve `input` against the working directory `cwd`
+ *
+ * @example
+ * resolvePath('/Documents', '../Pictures/a.png') // '/Pictures/a.png'
+ */
+export const resolvePath = (cwd: string, input: string): string => {
+    if (!input) return normalizePath(cwd);
+    if (isAbsolutePath(input)) return normalizePath(input);
+    return normalizePath(`${cwd}${SEPARATOR}${input}`);
+};
+
+/**
+ * Join path fragments and normalize the result
+ */
+export const joinPath = (...parts: string[]): string => {
+    return normalizePath(parts.filter(Boolean).join(SEPARATOR));
+};
+
+/**
+ * Split a path into normalized segments (`/a/b` -> `['a', 'b']`)
+ */
+export const splitPath = (path: string): string[] => {
+    return normalizePath(path).split(SEPARATOR).filter(Boolean);
+};
+
+/**
+ * Parent directory of a path (`/a/b` -> `/a`, `/` -> `/`)
+ */
+export const dirname = (path: string): string => {
+    return SEPARATOR + splitPath(path).slice(0, -1).join(SEPARATOR);
+};
+
+/**
+ * Last segment of a path (`/a/b.txt` -> `b.txt`, `/` -> ``)
+ */
+export const basename = (path: string): string => {
+    return splitPath(path).pop() ?? '';
+};
+
+/**
+ * File extension without the dot, lowercased (`/a/b.TXT` -> `txt`)
+ */
+export const extname = (path: string): string => {
+    const name = basename(path);
+    const index = name.lastIndexOf('.');
+    return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+};
+
+/**
+ * Check whether a path contains glob metacharacters
+ */
+export const hasGlobMagic = (pattern: string): boolean => {
+    return /[*?[]/.test(pattern);
+};
+
+/**
+ * Convert a single glob segment (`*.md`, `note?.txt`, `[ab]*`) into an anchored RegExp,
+ * case-insensitive like file names unless `caseSensitive` is set.
+ * `**` is handled by the caller as "any number of directories".
+ */
+export const globSegmentToRegExp = (segment: string, { caseSensitive = false } = {}): RegExp => {
+    let source = '';
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i] as string;
+        if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = segment.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const body = segment
+                    .slice(i + 1, end)
+                    .replace(/^!/, '^')
+                    .replace(/\\/g, '\\\\');
+                source += `[${body}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`, caseSensitive ? '' : 'i');
+};
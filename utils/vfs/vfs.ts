@@ -0,0 +1,696 @@
+/**
+ * Hierarchical, path-based virtual file system API
+ *
+ * Operates on POSIX-style paths (e.g. `/Documents/notes/todo.md`) on top of the
+ * per-node IndexedDB storage in `utils/fileSystem`. Every operation reads and
+ * writes only the nodes it touches, and change notifications carry the affected
+ * path so views subscribed via `subscribeToFileSystem` can refresh incrementally.
+ *
+ * Name lookups are case-insensitive (an exact-case match wins), mirroring the
+ * Windows-style behavior of File Explorer and the Terminal.
+ *
+ * File content is either text (kept on the node) or a Blob (kept in the blob
+ * store next to the node); `readFile`/`readFileBlob` convert between the two.
+ *
+ * @module utils/vfs/vfs
+ *
+ * @example
+ * ```ts
+ * import { vfs } from '@/utils/vfs';
+ *
+ * await vfs.mkdir('/Documents/notes', { recursive: true });
+ * await vfs.writeFile('/Documents/notes/todo.md', '- ship VFS');
+ * const entries = await vfs.readdir('/Documents/notes');
+ * const markdown = await vfs.glob('/Documents/**\/*.md');
+ * ```
+ */
+import { FileSystemItem } from '../../types';
+import { generateUuid } from '../uuid';
+import {
+    FileBlobRecord,
+    FileSystemNodeRecord,
+    commitFileNodes,
+    getChildNodes,
+    getFileBlob,
+    getFileNode,
+    getFiles,
+    moveToRecycleBin,
+} from '../fileSystem';
+import { SEPARATOR, basename, dirname, extname, globSegmentToRegExp, joinPath, normalizePath, splitPath } from './path';
+
+/** ID of the folder node that `/` refers to */
+const ROOT_ID = 'root';
+
+/** ID of the Recycle Bin folder node */
+const RECYCLE_BIN_ID = 'recycleBin';
+
+/**
+ * Error codes raised by VFS operations (POSIX errno names)
+ */
+export type VfsErrorCode = 'ENOENT' | 'EEXIST' | 'ENOTDIR' | 'EISDIR' | 'EINVAL' | 'ENOTEMPTY';
+
+/**
+ * Error thrown by VFS operations, carrying the errno-style code and offending path
+ */
+export type VfsError = Error & { code: VfsErrorCode; path: string };
+
+const ERROR_MESSAGES: Record<VfsErrorCode, string> = {
+    ENOENT: 'no such file or directory',
+    EEXIST: 'file already exists',
+    ENOTDIR: 'not a directory',
+    EISDIR: 'illegal operation on a directory',
+    EINVAL: 'invalid argument',
+    ENOTEMPTY: 'directory not empty',
+};
+
+/**
+ * Create a {@link VfsError}
+ */
+export const createVfsError = (code: VfsErrorCode, path: string): VfsError => {
+    const error = new Error(`${code}: ${ERROR_MESSAGES[code]}, '${path}'`) as VfsError;
+    error.code = code;
+    error.path = path;
+    return error;
+};
+
+/**
+ * Check whether an unknown error is a {@link VfsError}, optionally with a specific code
+ */
+export const isVfsError = (error: unknown, code?: VfsErrorCode): error is VfsError => {
+    if (!(error instanceof Error) || !('code' in error)) return false;
+    const errorCode = (error as VfsError).code;
+    return code ? errorCode === code : errorCode in ERROR_MESSAGES;
+};
+
+/**
+ * Metadata describing a file or folder
+ */
+export interface VfsStat {
+    /** Underlying node ID (stable across rename/move) */
+    id: string;
+    /** Normalized absolute path */
+    path: string;
+    /** Display name (last path segment) */
+    name: string;
+    /** File system item type */
+    type: FileSystemItem['type'];
+    /** Whether the node is a folder */
+    isDirectory: boolean;
+    /** Content length in bytes (0 for folders and content-less files) */
+    size: number;
+    /** MIME type of the content, if known */
+    mimeType?: string;
+    /** Whether the content is stored as a Blob */
+    isBinary: boolean;
+    /** Last modified date string, if recorded */
+    date?: string;
+}
+
+export interface WriteFileOptions {
+    /** Append to existing content instead of replacing it */
+    append?: boolean;
+    /** Create missing parent folders (like `mkdir -p`) */
+    recursive?: boolean;
+    /** Item type for newly created files (default: inferred from the MIME type or 'document') */
+    type?: FileSystemItem['type'];
+    /** MIME type to record (default: the Blob's own type, or text/plain for strings) */
+    mimeType?: string;
+}
+
+export interface MkdirOptions {
+    /** Create missing parents and succeed if the folder already exists */
+    recursive?: boolean;
+}
+
+export interface RemoveOptions {
+    /** Remove folders together with their contents (like `rm -r`) */
+    recursive?: boolean;
+    /** Delete for good instead of moving to the Recycle Bin */
+    permanent?: boolean;
+}
+
+export interface GlobOptions {
+    /** Directory that relative patterns are resolved against (default: `/`) */
+    cwd?: string;
+    /** Include folders in the results (default: true) */
+    includeDirectories?: boolean;
+}
+
+type ResolvedNode = { node: FileSystemNodeRecord; path: string };
+
+let seedPromise: Promise<unknown> | null = null;
+
+/**
+ * Make sure the initial tree exists before the first path lookup
+ */
+const ensureSeeded = async (): Promise<void> => {
+    if (!seedPromise) {
+        seedPromise = getFiles().catch(error => {
+            seedPromise = null;
+            throw error;
+        });
+    }
+    await seedPromise;
+};
+
+const byteLength = (content: string | undefined): number => {
+    return content ? new TextEncoder().encode(content).length : 0;
+};
+
+const toStat = (node: FileSystemNodeRecord, path: string): VfsStat => ({
+    id: node.id,
+    path,
+    name: path === SEPARATOR ? '' : node.name,
+    type: node.type,
+    isDirectory: node.type === 'folder',
+    size: node.type === 'folder' ? 0 : (node.size ?? byteLength(node.content)),
+    mimeType: node.mimeType,
+    isBinary: node.hasBlob === true,
+    date: node.date,
+});
+
+/**
+ * Guess the item type of a new file from its MIME type
+ */
+const inferItemType = (mimeType: string | undefined, path: string): FileSystemItem['type'] => {
+    if (mimeType?.startsWith('image/')) return 'image';
+    if (mimeType?.startsWith('video/')) return 'video';
+    if (mimeType?.startsWith('audio/')) return 'audio';
+    if (['js', 'ts', 'jsx', 'tsx', 'py', 'sh', 'wasm'].includes(extname(path))) return 'code';
+    return 'document';
+};
+
+/**
+ * Read a file node's content as a Blob, whatever the storage form
+ */
+const readNodeBlob = async (node: FileSystemNodeRecord): Promise<Blob> => {
+    if (node.hasBlob) {
+        const blob = await getFileBlob(node.id);
+        if (blob) return blob;
+    }
+    if (node.content === undefined && node.src) {
+        // Legacy media files only reference a (data) URL
+        const response = await fetch(node.src);
+        return response.blob();
+    }
+    return new Blob([node.content ?? ''], { type: node.mimeType ?? 'text/plain' });
+};
+
+const findChild = (children: FileSystemNodeRecord[], name: string): FileSystemNodeRecord | undefined => {
+    return (
+        children.find(child => child.name === name) ??
+        children.find(child => child.name.toLowerCase() === name.toLowerCase())
+    );
+};
+
+const nextOrder = (children: FileSystemNodeRecord[]): number => {
+    return children.reduce((max, child) => Math.max(max, child.order + 1), 0);
+};
+
+/**
+ * Walk from the root folder to the node at `path`
+ *
+ * @returns The node plus its canonical (stored-case) path, or null if missing
+ * @throws VfsError ENOTDIR if an intermediate segment is a file
+ */
+const resolveNode = async (path: string): Promise<ResolvedNode | null> => {
+    await ensureSeeded();
+
+    const root = await getFileNode(ROOT_ID);
+    if (!root) return null;
+
+    let current: ResolvedNode = { node: root, path: SEPARATOR };
+    for (const segment of splitPath(path)) {
+        if (current.node.type !== 'folder') {
+            throw createVfsError('ENOTDIR', current.path);
+        }
+        const child = findChild(await getChildNodes(current.node.id), segment);
+        if (!child) return null;
+        current = { node: child, path: joinPath(current.path, child.name) };
+    }
+    return current;
+};
+
+const requireNode = async (path: string): Promise<ResolvedNode> => {
+    const resolved = await resolveNode(path);
+    if (!resolved) throw createVfsError('ENOENT', normalizePath(path));
+    return resolved;
+};
+
+const requireFolder = async (path: string): Promise<ResolvedNode> => {
+    const resolved = await requireNode(path);
+    if (resolved.node.type !== 'folder') throw createVfsError('ENOTDIR', resolved.path);
+    return resolved;
+};
+
+const assertValidName = (name: string, path: string): void => {
+    if (!name || name === '.' || name === '..' || /[\\/]/.test(name)) {
+        throw createVfsError('EINVAL', path);
+    }
+};
+
+/**
+ * Collect a node and all of its descendants (depth-first, parents first)
+ */
+const collectSubtree = async (node: FileSystemNodeRecord): Promise<FileSystemNodeRecord[]> => {
+    if (node.type !== 'folder') return [node];
+    const children = await getChildNodes(node.id);
+    const descendants = await Promise.all(children.map(collectSubtree));
+    return [node, ...descendants.flat()];
+};
+
+/**
+ * Work out the destination folder and name for `move`/`copy`:
+ * an existing folder destination receives the source under its own name,
+ * anything else is treated as the new path of the source.
+ *
+ * Names match case-insensitively, so with `allowCaseRename` a destination that resolves to
+ * the source itself under different casing (`a.txt` -> `A.txt`) is a rename, not a clash.
+ */
+const resolveDestination = async (
+    source: ResolvedNode,
+    destination: string,
+    { allowCaseRename = false } = {}
+): Promise<{ parent: ResolvedNode; name: string; path: string }> => {
+    const existing = await resolveNode(destination);
+    if (allowCaseRename && existing?.node.id === source.node.id && existing.node.name !== basename(destination)) {
+        const parent = await requireFolder(dirname(existing.path));
+        const name = basename(destination);
+        assertValidName(name, normalizePath(destination));
+        return { parent, name, path: joinPath(parent.path, name) };
+    }
+    if (existing && existing.node.type === 'folder') {
+        const children = await getChildNodes(existing.node.id);
+        if (findChild(children, source.node.name)) {
+            throw createVfsError('EEXIST', joinPath(existing.path, source.node.name));
+        }
+        return { parent: existing, name: source.node.name, path: joinPath(existing.path, source.node.name) };
+    }
+    if (existing) throw createVfsError('EEXIST', existing.path);
+
+    const parent = await requireFolder(dirname(destination));
+    const name = basename(destination);
+    assertValidName(name, normalizePath(destination));
+    return { parent, name, path: joinPath(parent.path, name) };
+};
+
+/**
+ * Get metadata for a path
+ *
+ * @returns The stat, or null if nothing exists at `path`
+ */
+export const stat = async (path: string): Promise<VfsStat | null> => {
+    try {
+        const resolved = await resolveNode(path);
+        return resolved ? toStat(resolved.node, resolved.path) : null;
+    } catch (error) {
+        if (isVfsError(error, 'ENOTDIR')) return null;
+        throw error;
+    }
+};
+
+/**
+ * Check whether a file or folder exists at `path`
+ */
+export const exists = async (path: string): Promise<boolean> => {
+    return (await stat(path)) !== null;
+};
+
+/**
+ * List the entries of a folder in display order
+ *
+ * @throws VfsError ENOENT if the folder is missing, ENOTDIR if `path` is a file
+ */
+export const readdir = async (path: string): Promise<VfsStat[]> => {
+    const folder = await requireFolder(path);
+    const children = await getChildNodes(folder.node.id);
+    return children.map(child => toStat(child, joinPath(folder.path, child.name)));
+};
+
+/**
+ * Read the text content of a file
+ *
+ * @throws VfsError ENOENT if the file is missing, EISDIR if `path` is a folder
+ */
+export const readFile = async (path: string): Promise<string> => {
+    const { node, path: resolvedPath } = await requireNode(path);
+    if (node.type === 'folder') throw createVfsError('EISDIR', resolvedPath);
+    if (node.hasBlob) return (await readNodeBlob(node)).text();
+    return node.content ?? '';
+};
+
+/**
+ * Read the content of a file as a Blob (text files are wrapped, legacy `src` URLs are fetched)
+ *
+ * @throws VfsError ENOENT if the file is missing, EISDIR if `path` is a folder
+ */
+export const readFileBlob = async (path: string): Promise<Blob> => {
+    const { node, path: resolvedPath } = await requireNode(path);
+    if (node.type === 'folder') throw createVfsError('EISDIR', resolvedPath);
+    return readNodeBlob(node);
+};
+
+/**
+ * Read the content of a file node by ID as a Blob.
+ * Useful for apps that were opened with a file ID rather than a path.
+ *
+ * @throws VfsError ENOENT if no file has this ID, EISDIR for folders
+ */
+export const readFileBlobById = async (id: string): Promise<Blob> => {
+    const node = await getFileNode(id);
+    if (!node) throw createVfsError('ENOENT', id);
+    if (node.type === 'folder') throw createVfsError('EISDIR', id);
+    return readNodeBlob(node);
+};
+
+/**
+ * Read the content of a file as raw bytes
+ */
+export const readFileBytes = async (path: string): Promise<Uint8Array> => {
+    return new Uint8Array(await (await readFileBlob(path)).arrayBuffer());
+};
+
+/**
+ * Create or overwrite a file with text or binary content.
+ * Strings are stored on the node; Blobs are stored in the blob store with their real byte size.
+ *
+ * @throws VfsError ENOENT if the parent folder is missing (unless `recursive`), EISDIR if `path` is a folder
+ */
+export const writeFile = async (
+    path: string,
+    data: string | Blob,
+    options: WriteFileOptions = {}
+): Promise<VfsStat> => {
+    const targetPath = normalizePath(path);
+    const name = basename(targetPath);
+    assertValidName(name, targetPath);
+
+    const parentPath = dirname(targetPath);
+    const parentNode = await requireFolder(
+        options.recursive ? (await mkdir(parentPath, { recursive: true })).path : parentPath
+    );
+    const siblings = await getChildNodes(parentNode.node.id);
+    const existing = findChild(siblings, name);
+
+    if (existing?.type === 'folder') throw createVfsError('EISDIR', joinPath(parentNode.path, existing.name));
+
+    const appendTo = options.append && existing ? existing : null;
+    const isBinary = typeof data !== 'string' || appendTo?.hasBlob === true;
+    const mimeType =
+        options.mimeType ??
+        (typeof data === 'string' ? undefined : data.type || undefined) ??
+        appendTo?.mimeType ??
+        (isBinary ? 'application/octet-stream' : 'text/plain');
+
+    const base: FileSystemNodeRecord = existing ?? {
+        id: generateUuid(),
+        name,
+        type: options.type ?? inferItemType(mimeType, targetPath),
+        parentId: parentNode.node.id,
+        order: nextOrder(siblings),
+    };
+    const record: FileSystemNodeRecord = { ...base, mimeType, date: new Date().toISOString() };
+    const putBlobs: FileBlobRecord[] = [];
+
+    if (isBinary) {
+        const blob = appendTo
+            ? new Blob([await readNodeBlob(appendTo), data], { type: mimeType })
+            : new Blob([data], { type: mimeType });
+        putBlobs.push({ id: record.id, blob });
+        record.hasBlob = true;
+        record.size = blob.size;
+        delete record.content;
+        delete record.src;
+    } else {
+        const content = appendTo ? `${appendTo.content ?? ''}${data as string}` : (data as string);
+        record.content = content;
+        record.size = byteLength(content);
+        delete record.hasBlob;
+    }
+
+    const resolvedPath = joinPath(parentNode.path, record.name);
+    await commitFileNodes({
+        put: [record],
+        putBlobs,
+        removeBlobs: existing?.hasBlob && !isBinary ? [existing.id] : [],
+        change: { key: record.id, path: resolvedPath },
+    });
+    return toStat(record, resolvedPath);
+};
+
+/**
+ * Pick a path that does not exist yet by appending " (2)", " (3)", ... before the extension
+ *
+ * @example
+ * await getAvailablePath('/Desktop/photo.png') // '/Desktop/photo (2).png' if photo.png exists
+ */
+export const getAvailablePath = async (path: string): Promise<string> => {
+    const targetPath = normalizePath(path);
+    if (!(await exists(targetPath))) return targetPath;
+
+    const name = basename(targetPath);
+    const dot = name.lastIndexOf('.');
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const extension = dot > 0 ? name.slice(dot) : '';
+
+    for (let index = 2; ; index++) {
+        const candidate = joinPath(dirname(targetPath), `${stem} (${index})${extension}`);
+        if (!(await exists(candidate))) return candidate;
+    }
+};
+
+/**
+ * Create a folder
+ *
+ * @throws VfsError EEXIST if something already exists at `path` (folders are accepted with `recursive`),
+ *   ENOENT if the parent is missing and `recursive` is not set
+ */
+export const mkdir = async (path: string, options: MkdirOptions = {}): Promise<VfsStat> => {
+    const targetPath = normalizePath(path);
+    const existing = await resolveNode(targetPath);
+    if (existing) {
+        if (options.recursive && existing.node.type === 'folder') return toStat(existing.node, existing.path);
+        throw createVfsError('EEXIST', existing.path);
+    }
+
+    const name = basename(targetPath);
+    assertValidName(name, targetPath);
+
+    const parentPath = dirname(targetPath);
+    const parent = options.recursive
+        ? await requireFolder((await mkdir(parentPath, { recursive: true })).path)
+        : await requireFolder(parentPath);
+    const siblings = await getChildNodes(parent.node.id);
+
+    const record: FileSystemNodeRecord = {
+        id: generateUuid(),
+        name,
+        type: 'folder',
+        date: new Date().toISOString(),
+        parentId: parent.node.id,
+        order: nextOrder(siblings),
+    };
+    const resolvedPath = joinPath(parent.path, name);
+
+    await commitFileNodes({ put: [record], change: { key: record.id, path: resolvedPath } });
+    return toStat(record, resolvedPath);
+};
+
+/**
+ * Rename a file or folder in place
+ *
+ * @throws VfsError EEXIST if a sibling already has `newName`, EINVAL for names containing separators
+ */
+export const rename = async (path: string, newName: string): Promise<VfsStat> => {
+    const source = await requireNode(path);
+    if (source.path === SEPARATOR) throw createVfsError('EINVAL', SEPARATOR);
+    assertValidName(newName, joinPath(dirname(source.path), newName));
+
+    const siblings = await getChildNodes(source.node.parentId ?? ROOT_ID);
+    const clash = findChild(siblings, newName);
+    if (clash && clash.id !== source.node.id) {
+        throw createVfsError('EEXIST', joinPath(dirname(source.path), clash.name));
+    }
+
+    const record: FileSystemNodeRecord = { ...source.node, name: newName };
+    const resolvedPath = joinPath(dirname(source.path), newName);
+
+    await commitFileNodes({ put: [record], change: { key: record.id, path: resolvedPath } });
+    return toStat(record, resolvedPath);
+};
+
+/**
+ * Move a file or folder. If `destination` is an existing folder the source is moved into it,
+ * otherwise `destination` is the new path of the source.
+ *
+ * @throws VfsError EEXIST if the target name is taken, EINVAL when moving a folder into itself
+ */
+export const move = async (source: string, destination: string): Promise<VfsStat> => {
+    const from = await requireNode(source);
+    if (from.path === SEPARATOR) throw createVfsError('EINVAL', SEPARATOR);
+
+    const target = await resolveDestination(from, destination, { allowCaseRename: true });
+    if (target.path === from.path || target.path.startsWith(`${from.path}${SEPARATOR}`)) {
+        throw createVfsError('EINVAL', target.path);
+    }
+
+    const siblings = await getChildNodes(target.parent.node.id);
+    const record: FileSystemNodeRecord = {
+        ...from.node,
+        name: target.name,
+        parentId: target.parent.node.id,
+        order: nextOrder(siblings),
+    };
+    // A moved item is no longer a Recycle Bin entry waiting to be restored
+    delete record.deletedAt;
+    delete record.deletedFrom;
+
+    await commitFileNodes({ put: [record], change: { key: record.id, path: target.path } });
+    return toStat(record, target.path);
+};
+
+/**
+ * Recursively copy a file or folder. Destination semantics match {@link move}.
+ */
+export const copy = async (source: string, destination: string): Promise<VfsStat> => {
+    const from = await requireNode(source);
+    const target = await resolveDestination(from, destination);
+    if (target.path === from.path || target.path.startsWith(`${from.path}${SEPARATOR}`)) {
+        throw createVfsError('EINVAL', target.path);
+    }
+
+    const subtree = await collectSubtree(from.node);
+    const idMap = new Map(subtree.map(node => [node.id, generateUuid()]));
+    const siblings = await getChildNodes(target.parent.node.id);
+
+    const records = subtree.map((node): FileSystemNodeRecord => {
+        const isTop = node.id === from.node.id;
+        const copied: FileSystemNodeRecord = {
+            ...node,
+            id: idMap.get(node.id) as string,
+            name: isTop ? target.name : node.name,
+            parentId: isTop ? target.parent.node.id : (idMap.get(node.parentId ?? '') ?? null),
+            order: isTop ? nextOrder(siblings) : node.order,
+        };
+        delete copied.deletedAt;
+        delete copied.deletedFrom;
+        return copied;
+    });
+
+    const blobs = await Promise.all(
+        subtree
+            .filter(node => node.hasBlob)
+            .map(async node => ({ id: idMap.get(node.id) as string, blob: await getFileBlob(node.id) }))
+    );
+    const putBlobs = blobs.filter((record): record is FileBlobRecord => record.blob !== null);
+
+    const top = records[0] as FileSystemNodeRecord;
+    await commitFileNodes({ put: records, putBlobs, change: { key: top.id, path: target.path } });
+    return toStat(top, target.path);
+};
+
+/**
+ * Remove a file or folder. By default the item goes to the Recycle Bin exactly as
+ * File Explorer's delete does; items already in the Recycle Bin are deleted for good.
+ *
+ * @throws VfsError ENOENT if nothing exists at `path`, ENOTEMPTY for non-empty folders without `recursive`,
+ *   EINVAL for `/` and the Recycle Bin itself
+ */
+export const remove = async (path: string, options: RemoveOptions = {}): Promise<void> => {
+    const { node, path: resolvedPath } = await requireNode(path);
+    if (node.id === ROOT_ID || node.id === RECYCLE_BIN_ID) throw createVfsError('EINVAL', resolvedPath);
+
+    if (node.type === 'folder' && !options.recursive && (await getChildNodes(node.id)).length > 0) {
+        throw createVfsError('ENOTEMPTY', resolvedPath);
+    }
+
+    if (!options.permanent && !node.deletedAt) {
+        await moveToRecycleBin(node.id);
+        return;
+    }
+
+    const subtree = await collectSubtree(node);
+    await commitFileNodes({ remove: subtree.map(item => item.id), change: { key: node.id, path: resolvedPath } });
+};
+
+/**
+ * Find paths matching a glob pattern.
+ *
+ * Supports `*`, `?`, `[abc]`/`[!abc]` within a segment and `**` for any number of folders.
+ *
+ * @example
+ * await glob('/Documents/*.txt');
+ * await glob('**\/*.md', { cwd: '/Documents' });
+ */
+export const glob = async (pattern: string, options: GlobOptions = {}): Promise<string[]> => {
+    const absolute = pattern.startsWith(SEPARATOR) ? pattern : `${options.cwd ?? SEPARATOR}${SEPARATOR}${pattern}`;
+    const segments = absolute
+        .replace(/\\/g, SEPARATOR)
+        .split(SEPARATOR)
+        .filter(segment => segment && segment !== '.');
+    const includeDirectories = options.includeDirectories ?? true;
+
+    const root = await resolveNode(SEPARATOR);
+    if (!root) return [];
+
+    const matches = new Set<string>();
+
+    const walk = async (current: ResolvedNode, index: number): Promise<void> => {
+        if (index === segments.length) {
+            if (current.path !== SEPARATOR && (includeDirectories || current.node.type !== 'folder')) {
+                matches.add(current.path);
+            }
+            return;
+        }
+        if (current.node.type !== 'folder') return;
+
+        const segment = segments[index] as string;
+        if (segment === '..') {
+            const parent = await resolveNode(dirname(current.path));
+            if (parent) await walk(parent, index + 1);
+            return;
+        }
+
+        const children = await getChildNodes(current.node.id);
+        const resolvedChildren = children.map(child => ({ node: child, path: joinPath(current.path, child.name) }));
+
+        if (segment === '**') {
+            // Zero folders...
+            await walk(current, index + 1);
+            // ...or descend one more level and keep the ** active
+            for (const child of resolvedChildren) {
+                if (child.node.type === 'folder') await walk(child, index);
+            }
+            return;
+        }
+
+        const matcher = globSegmentToRegExp(segment);
+        for (const child of resolvedChildren) {
+            if (matcher.test(child.node.name)) await walk(child, index + 1);
+        }
+    };
+
+    await walk(root, 0);
+    return [...matches].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Grouped VFS API
+ */
+export const vfs = {
+    stat,
+    exists,
+    readdir,
+    readFile,
+    readFileBlob,
+    readFileBlobById,
+    readFileBytes,
+    writeFile,
+    getAvailablePath,
+    mkdir,
+    rename,
+    move,
+    copy,
+    remove,
+    glob,
+} as const;
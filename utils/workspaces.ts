@@ -0,0 +1,176 @@
+/**
+ * Named workspaces
+ *
+ * A workspace is a named snapshot of the windows on the active desktop (apps,
+ * instances, positions and sizes), the `appState` of those apps (for example the
+ * file open in Notepad) and the wallpaper. Workspaces live in the cloud-synced
+ * `workspaces` table, so they follow the user across devices.
+ *
+ * @module utils/workspaces
+ */
+import type { WindowState } from '../types';
+import type { WallpaperManifest } from '../types/wallpaper';
+import type { Windows15DexieDB, WorkspaceRecord } from './storage/db';
+
+/**
+ * A window as saved in a workspace
+ */
+export interface WorkspaceWindow {
+    appId: string;
+    instance: number;
+    position: { x: number; y: number };
+    size: { width: number; height: number };
+    isMaximized: boolean;
+}
+
+/**
+ * Everything a workspace restores
+ */
+export interface WorkspaceSnapshot {
+    /** Windows, back to front */
+    windows: WorkspaceWindow[];
+    /** `appState` records of the saved apps, by app ID (JSON strings as stored) */
+    appState: Record<string, string>;
+    /** Wallpaper URL, or the manifest of a shader/scene wallpaper */
+    wallpaper: string | WallpaperManifest;
+}
+
+/**
+ * A saved workspace with its snapshot parsed
+ */
+export interface Workspace {
+    id: string;
+    name: string;
+    snapshot: WorkspaceSnapshot;
+    updatedAt: number;
+}
+
+const isWorkspaceWindow = (value: unknown): value is WorkspaceWindow => {
+    const w = value as WorkspaceWindow;
+    return (
+        !!w &&
+        typeof w.appId === 'string' &&
+        typeof w.instance === 'number' &&
+        typeof w.position?.x === 'number' &&
+        typeof w.position?.y === 'number' &&
+        typeof w.size?.width === 'number' &&
+        typeof w.size?.height === 'number'
+    );
+};
+
+/**
+ * Parse a stored snapshot, dropping anything malformed
+ */
+export const parseWorkspaceSnapshot = (json: string): WorkspaceSnapshot => {
+    let raw: Partial<WorkspaceSnapshot> = {};
+    try {
+        raw = JSON.parse(json) as Partial<WorkspaceSnapshot>;
+    } catch {
+        // Treat an unreadable snapshot as empty
+    }
+    const appState = raw.appState && typeof raw.appState === 'object' ? raw.appState : {};
+    return {
+        windows: Array.isArray(raw.windows)
+            ? raw.windows.filter(isWorkspaceWindow).map(w => ({ ...w, isMaximized: !!w.isMaximized }))
+            : [],
+        appState: Object.fromEntries(Object.entries(appState).filter(([, state]) => typeof state === 'string')),
+        wallpaper:
+            raw.wallpaper && (typeof raw.wallpaper === 'string' || typeof raw.wallpaper === 'object')
+                ? raw.wallpaper
+                : '',
+    };
+};
+
+const toWorkspace = (record: WorkspaceRecord): Workspace => ({
+    id: record.id,
+    name: record.name,
+    snapshot: parseWorkspaceSnapshot(record.snapshot),
+    updatedAt: record.updatedAt,
+});
+
+/**
+ * Capture the given windows, their apps' `appState` and the wallpaper
+ */
+export async function captureWorkspaceSnapshot(
+    db: Windows15DexieDB,
+    windows: WindowState[],
+    wallpaper: string | WallpaperManifest
+): Promise<WorkspaceSnapshot> {
+    const appIds = [...new Set(windows.map(w => w.appId))];
+    const records = await db.appState.bulkGet(appIds);
+    return {
+        windows: [...windows]
+            .sort((a, b) => a.zIndex - b.zIndex)
+            .map(w => ({
+                appId: w.appId,
+                instance: w.instance ?? 1,
+                position: w.position,
+                size: w.size,
+                isMaximized: w.isMaximized,
+            })),
+        appState: Object.fromEntries(records.flatMap(record => (record ? [[record.appId, record.state]] : []))),
+        wallpaper,
+    };
+}
+
+/**
+ * All saved workspaces, sorted by name
+ */
+export async function listWorkspaces(db: Windows15DexieDB): Promise<Workspace[]> {
+    const records = await db.workspaces.orderBy('name').toArray();
+    return records.map(toWorkspace);
+}
+
+/**
+ * Look up a workspace by name (case-insensitive)
+ */
+export async function getWorkspace(db: Windows15DexieDB, name: string): Promise<Workspace | undefined> {
+    const record = await db.workspaces.where('name').equalsIgnoreCase(name.trim()).first();
+    return record ? toWorkspace(record) : undefined;
+}
+
+/**
+ * Save a snapshot under a name, replacing any workspace with that name
+ */
+export async function saveWorkspace(db: Windows15DexieDB, name: string, snapshot: WorkspaceSnapshot): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Workspace name cannot be empty');
+    const now = Date.now();
+    await db.transaction('rw', db.workspaces, async () => {
+        const existing = await db.workspaces.where('name').equalsIgnoreCase(trimmed).first();
+        if (existing) {
+            await db.workspaces.update(existing.id, {
+                name: trimmed,
+                snapshot: JSON.stringify(snapshot),
+                updatedAt: now,
+            });
+        } else {
+            // Let Dexie Cloud generate the ID
+            await db.workspaces.add({
+                name: trimmed,
+                snapshot: JSON.stringify(snapshot),
+                createdAt: now,
+                updatedAt: now,
+            } as WorkspaceRecord);
+        }
+    });
+}
+
+/**
+ * Delete a workspace by name
+ * @returns false if there is no workspace with that name
+ */
+export async function deleteWorkspace(db: Windows15DexieDB, name: string): Promise<boolean> {
+    const count = await db.workspaces.where('name').equalsIgnoreCase(name.trim()).delete();
+    return count > 0;
+}
+
+/**
+ * Write a workspace's saved `appState` back, so its apps open as they were
+ */
+export async function restoreWorkspaceAppState(db: Windows15DexieDB, snapshot: WorkspaceSnapshot): Promise<void> {
+    const now = Date.now();
+    await db.appState.bulkPut(
+        Object.entries(snapshot.appState).map(([appId, state]) => ({ appId, state, updatedAt: now }))
+    );
+}